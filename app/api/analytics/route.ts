@@ -6,6 +6,7 @@ import mongoose from "mongoose"
 import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
 import { createAPIErrorResponse, createAPISuccessResponse } from "@/lib/utils/api-responses"
 import { analyticsQuerySchema } from "@/lib/validations/analytics"
+import { BudgetService } from "@/lib/services/budget-service"
 
 // Cache TTL for analytics queries - DISABLED for real-time updates
 const CACHE_TTL = 0 // Was 10 minutes, now disabled to ensure fresh data after CRUD operations
@@ -510,15 +511,17 @@ async function calculateResourceMetrics(projectId?: string, departmentId?: strin
     filter.assigneeId = new mongoose.Types.ObjectId(userId)
   }
 
-  const [project, tasks] = await Promise.all([
+  const [project, tasks, burnDown] = await Promise.all([
     projectId ? Project.findById(projectId).lean() as Promise<any> : Promise.resolve(null),
-    Task.find(filter).lean()
+    Task.find(filter).lean(),
+    projectId ? BudgetService.getBurnDown(projectId) : Promise.resolve(null)
   ])
 
   // Budget analysis
   const projectBudget = project?.budget || 0
   const budgetBreakdown = project?.budgetBreakdown || {}
   const totalAllocated = Object.values(budgetBreakdown).reduce((sum: number, val: any) => sum + (val || 0), 0)
+  const actualCosts = project?.actualCost || 0
   
   // Hour efficiency tracking
   const totalEstimatedHours = tasks.reduce((sum, t) => sum + (t.estimatedHours || 0), 0)
@@ -537,9 +540,8 @@ async function calculateResourceMetrics(projectId?: string, departmentId?: strin
     ? Math.min(200, Math.max(0, Math.round((completedActualHours / completedEstimatedHours) * 100)))
     : 100
   
-  // Budget utilization: how much of the allocated budget is actually used
-  // Since we don't have actual costs, we'll use estimated hours vs allocated budget as proxy
-  const budgetUtilization = projectBudget > 0 ? Math.round((totalAllocated / projectBudget) * 100) : 0
+  // Budget utilization: cost of approved time (hours x hourly rate) against the budget
+  const budgetUtilization = projectBudget > 0 ? Math.round((actualCosts / projectBudget) * 100) : 0
   
   // Budget efficiency: for completed tasks, how well we estimated vs actual
   const budgetEfficiency = completedEstimatedHours > 0 
@@ -550,10 +552,12 @@ async function calculateResourceMetrics(projectId?: string, departmentId?: strin
     budget: {
       total: projectBudget,
       allocated: totalAllocated,
+      actualCosts,
       utilization: budgetUtilization,
       efficiency: budgetEfficiency,
-      variance: projectBudget > 0 ? Math.round(((totalAllocated - projectBudget) / projectBudget) * 100) : 0,
-      breakdown: budgetBreakdown
+      variance: projectBudget > 0 ? Math.round(((actualCosts - projectBudget) / projectBudget) * 100) : 0,
+      breakdown: budgetBreakdown,
+      burnDown
     },
     hours: {
       totalEstimated: totalEstimatedHours,
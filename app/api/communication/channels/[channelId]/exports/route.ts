@@ -0,0 +1,95 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { channelExportOps, channelOps } from '@/lib/communication/operations'
+import { buildChannelExport, hasComplianceAccess, toChannelExportResponse } from '@/lib/communication/compliance-export'
+import { createChannelExportSchema } from '@/lib/validations/channel'
+
+// GET /api/communication/channels/[channelId]/exports - Recent compliance exports of a channel (admins only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ channelId: string }> }
+) {
+  try {
+    const { session, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'communication', 'read')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await hasComplianceAccess(session.user.id, isSuperAdmin))) {
+      return NextResponse.json({ success: false, error: 'Forbidden: Exports require admin or compliance role' }, { status: 403 })
+    }
+
+    const { channelId } = await params
+    const exports = await channelExportOps.listByChannel(channelId)
+
+    return NextResponse.json({ success: true, data: exports.map(toChannelExportResponse) })
+  } catch (error: any) {
+    logger.error('Error fetching channel exports:', error)
+    return createAPIErrorResponse('Failed to fetch exports', 500, undefined, getClientInfo(request))
+  }
+}
+
+// POST /api/communication/channels/[channelId]/exports - Request a compliance export for a date range (admins only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ channelId: string }> }
+) {
+  try {
+    const { session, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'communication', 'read')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await hasComplianceAccess(session.user.id, isSuperAdmin))) {
+      return NextResponse.json({ success: false, error: 'Forbidden: Exports require admin or compliance role' }, { status: 403 })
+    }
+
+    const { channelId } = await params
+    const data = createChannelExportSchema.parse(await request.json())
+
+    const channel = await channelOps.getById(channelId)
+    if (!channel) {
+      return NextResponse.json({ success: false, error: 'Channel not found' }, { status: 404 })
+    }
+
+    const record = await channelExportOps.create({
+      channel_id: channelId,
+      mongo_requested_by: session.user.id,
+      from_date: new Date(data.from),
+      to_date: new Date(data.to)
+    })
+
+    logger.info(`Compliance export ${record.id} of channel ${channelId} requested by ${session.user.id}`)
+
+    // Built after the response; the channel-exports cron retries anything left pending
+    setImmediate(async () => {
+      try {
+        await buildChannelExport(record.id)
+      } catch (error) {
+        logger.error(`Background build of channel export ${record.id} failed:`, error)
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: toChannelExportResponse(record),
+      message: 'Export started'
+    }, { status: 202 })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid export request',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    logger.error('Error requesting channel export:', error)
+    return createAPIErrorResponse('Failed to request export', 500, undefined, getClientInfo(request))
+  }
+}
@@ -0,0 +1,103 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { channelOps, retentionOps } from '@/lib/communication/operations'
+import { getGlobalRetentionPolicy, resolveRetentionPolicy } from '@/lib/communication/retention'
+import { updateRetentionPolicySchema } from '@/lib/validations/channel'
+
+async function buildPolicyResponse(channelId: string) {
+  const [channel, global] = await Promise.all([
+    retentionOps.getChannelPolicy(channelId),
+    getGlobalRetentionPolicy(),
+  ])
+  if (!channel) return null
+
+  return {
+    channel_id: channel.id,
+    message_retention_days: channel.message_retention_days,
+    trash_retention_days: channel.trash_retention_days,
+    legal_hold: channel.legal_hold,
+    legal_hold_reason: channel.legal_hold_reason,
+    legal_hold_set_by: channel.legal_hold_set_by,
+    legal_hold_set_at: channel.legal_hold_set_at,
+    global,
+    effective: resolveRetentionPolicy(channel, global),
+  }
+}
+
+// GET /api/communication/channels/[channelId]/retention - Retention overrides, legal hold and the effective policy
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ channelId: string }> }
+) {
+  try {
+    const { session, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'communication', 'read')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { channelId } = await params
+
+    if (!isSuperAdmin && !(await channelOps.isMember(channelId, session.user.id))) {
+      return NextResponse.json({ success: false, error: 'Access denied to this channel' }, { status: 403 })
+    }
+
+    const policy = await buildPolicyResponse(channelId)
+    if (!policy) {
+      return NextResponse.json({ success: false, error: 'Channel not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, data: policy })
+  } catch (error: any) {
+    logger.error('Error fetching channel retention policy:', error)
+    return createAPIErrorResponse('Failed to fetch retention policy', 500, undefined, getClientInfo(request))
+  }
+}
+
+// PATCH /api/communication/channels/[channelId]/retention - Change overrides or place/lift a legal hold (super admins only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ channelId: string }> }
+) {
+  try {
+    const { session, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'communication', 'update')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isSuperAdmin) {
+      return NextResponse.json({ success: false, error: 'Only super admins can change retention settings' }, { status: 403 })
+    }
+
+    const { channelId } = await params
+    const data = updateRetentionPolicySchema.parse(await request.json())
+
+    const existing = await retentionOps.getChannelPolicy(channelId)
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Channel not found' }, { status: 404 })
+    }
+
+    await retentionOps.updateChannelPolicy(channelId, session.user.id, data)
+
+    if (data.legal_hold !== undefined && data.legal_hold !== existing.legal_hold) {
+      logger.info(`Legal hold ${data.legal_hold ? 'placed on' : 'lifted from'} channel ${channelId} by ${session.user.id}`)
+    }
+
+    return NextResponse.json({ success: true, data: await buildPolicyResponse(channelId) })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid retention settings',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    logger.error('Error updating channel retention policy:', error)
+    return createAPIErrorResponse('Failed to update retention policy', 500, undefined, getClientInfo(request))
+  }
+}
@@ -220,7 +220,7 @@ export async function GET(request: NextRequest, { params: paramsPromise }: Route
 
     const { enrichChannelWithUserData } = await import('@/lib/communication/utils')
     const allUsers = await executeGenericDbQuery(async () => {
-      return await User.find({ isDeleted: { $ne: true } }).select('_id name email avatar isClient role').lean()
+      return await User.find({ isDeleted: { $ne: true } }).select('_id name email avatar isClient role chatStatus').lean()
     })
     const enrichedChannel = await enrichChannelWithUserData(channel, allUsers as any[])
 
@@ -448,7 +448,7 @@ export async function PUT(
     const { enrichChannelWithUserData } = await import('@/lib/communication/utils')
     
     const allUsers = await executeGenericDbQuery(async () => {
-      return await User.find({ isDeleted: { $ne: true } }).select('_id name email avatar isClient role').lean()
+      return await User.find({ isDeleted: { $ne: true } }).select('_id name email avatar isClient role chatStatus').lean()
     })
     
     const enrichedChannel = await enrichChannelWithUserData(updatedChannel, allUsers)
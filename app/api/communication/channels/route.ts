@@ -11,6 +11,8 @@ import { executeGenericDbQuery } from '@/lib/mongodb'
 import { channelQuerySchema, createChannelSchema } from "@/lib/validations/channel"
 import { apiLogger as logger } from '@/lib/logger'
 import { broadcastToUser } from '@/lib/communication/broadcast'
+import { readReceiptOps } from '@/lib/communication/operations'
+import type { IChannelUnreadSummary } from '@/types/communication'
 
 
 // Helper to create consistent error responses
@@ -108,7 +110,7 @@ export async function GET(request: NextRequest) {
 
     // Fetch all users for enrichment
     const allUsers = await executeGenericDbQuery(async () => {
-      return await User.find({ isDeleted: { $ne: true } }).select('_id name email avatar isClient role').lean()
+      return await User.find({ isDeleted: { $ne: true } }).select('_id name email avatar isClient role chatStatus').lean()
     })
 
     // Enrich channels with user data from MongoDB
@@ -116,47 +118,28 @@ export async function GET(request: NextRequest) {
       sortedChannels.map((channel: any) => enrichChannelWithUserData(channel, allUsers))
     )
 
-    // Add pin info and unread count to each channel for easy access
-    const channelsWithPinInfo = await Promise.all(enrichedChannels.map(async (channel: any) => {
+    // Unread state for every channel comes from the last-read pointers in one query
+    let unreadSummaries: IChannelUnreadSummary[] = []
+    try {
+      unreadSummaries = await readReceiptOps.getUnreadSummary(session.user.id)
+    } catch (error) {
+      logger.warn('Failed to calculate unread counts for channels:', error)
+    }
+    const unreadByChannel = new Map(unreadSummaries.map(summary => [summary.channel_id, summary]))
+
+    // Add pin info and unread counts to each channel for easy access
+    const channelsWithPinInfo = enrichedChannels.map((channel: any) => {
       const memberInfo = channel.channel_members?.find((m: any) => m.mongo_member_id === session.user.id)
-      
-      // Calculate unread count
-      let unreadCount = 0
-      try {
-        // Get all message ids in the channel not from user and not trashed
-        const messageIds = await prisma.messages.findMany({
-          where: {
-            channel_id: channel.id,
-            mongo_sender_id: { not: session.user.id },
-            is_trashed: false
-          },
-          select: { id: true }
-        })
-        
-        const messageIdsArray = messageIds.map((m: { id: string }) => m.id)
-        
-        if (messageIdsArray.length > 0) {
-          // Count read receipts for those message ids
-          const readReceiptsCount = await prisma.read_receipts.count({
-            where: {
-              message_id: { in: messageIdsArray },
-              mongo_user_id: session.user.id
-            }
-          })
-          unreadCount = Math.max(0, messageIdsArray.length - readReceiptsCount)
-        }
-      } catch (error) {
-        logger.warn('Failed to calculate unread count for channel:', channel.id, error)
-        unreadCount = 0
-      }
-      
+      const unread = unreadByChannel.get(channel.id)
+
       return {
         ...channel,
         is_pinned: memberInfo?.is_pinned || false,
         pinned_at: memberInfo?.pinned_at || null,
-        unreadCount
+        unreadCount: unread?.unread_count ?? 0,
+        unreadMentionCount: unread?.mention_count ?? 0
       }
-    }))
+    })
 
     return NextResponse.json({
       success: true,
@@ -232,7 +215,7 @@ export async function POST(request: NextRequest) {
       if (existingDM) {
         // Fetch all users for enrichment
         const allUsers = await executeGenericDbQuery(async () => {
-          return await User.find({ isDeleted: { $ne: true } }).select('_id name email avatar isClient role').lean()
+          return await User.find({ isDeleted: { $ne: true } }).select('_id name email avatar isClient role chatStatus').lean()
         })
 
         // Enrich existing channel with user data
@@ -305,7 +288,7 @@ export async function POST(request: NextRequest) {
 
     // Fetch all users for enrichment
     const allUsers = await executeGenericDbQuery(async () => {
-      return await User.find({ isDeleted: { $ne: true } }).select('_id name email avatar isClient role').lean()
+      return await User.find({ isDeleted: { $ne: true } }).select('_id name email avatar isClient role chatStatus').lean()
     })
 
     // Enrich channel with user data
@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { readReceiptOps } from '@/lib/communication/operations'
+
+// GET /api/communication/channels/unread - Unread and mention counts for all of the caller's channels
+export async function GET(request: NextRequest) {
+  try {
+    const { session } = await genericApiRoutesMiddleware(request, 'communication', 'read')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const summaries = await readReceiptOps.getUnreadSummary(session.user.id)
+
+    return NextResponse.json({ success: true, data: summaries })
+  } catch (error: any) {
+    logger.error('Error fetching unread counts:', error)
+    return createAPIErrorResponse('Failed to fetch unread counts', 500, undefined, getClientInfo(request))
+  }
+}
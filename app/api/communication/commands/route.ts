@@ -0,0 +1,91 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { prisma } from '@/lib/prisma'
+import { runSlashCommandSchema } from "@/lib/validations/channel"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { channelOps } from '@/lib/communication/operations'
+import { buildEphemeralMessage, listSlashCommands, runSlashCommand } from '@/lib/communication/slash-commands'
+
+// GET /api/communication/commands - Slash commands available in the message box
+export async function GET(request: NextRequest) {
+  try {
+    const { session } = await genericApiRoutesMiddleware(request, 'communication', 'read')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({ success: true, data: listSlashCommands() })
+  } catch (error: any) {
+    logger.error('Error listing slash commands:', error)
+    return createAPIErrorResponse('Failed to fetch commands', 500, undefined, getClientInfo(request))
+  }
+}
+
+// POST /api/communication/commands - Run a slash command; the reply is only shown to the caller
+export async function POST(request: NextRequest) {
+  try {
+    const { session, user, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'communication', 'create')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = runSlashCommandSchema.parse(body)
+
+    const channel = await prisma.channels.findUnique({
+      where: { id: validatedData.channel_id }
+    })
+
+    if (!channel) {
+      return NextResponse.json({ success: false, error: 'Channel not found' }, { status: 404 })
+    }
+
+    const member = await channelOps.getMember(validatedData.channel_id, session.user.id)
+    if (!member) {
+      return NextResponse.json({ success: false, error: 'Access denied to this channel' }, { status: 403 })
+    }
+
+    if (validatedData.parent_message_id) {
+      const parent = await prisma.messages.findFirst({
+        where: { id: validatedData.parent_message_id, channel_id: channel.id, is_trashed: false },
+        select: { id: true }
+      })
+      if (!parent) {
+        return NextResponse.json({ success: false, error: 'Thread not found' }, { status: 404 })
+      }
+    }
+
+    const result = await runSlashCommand(validatedData.text, {
+      request,
+      user,
+      userId: session.user.id,
+      isSuperAdmin,
+      channel,
+      member,
+      parentMessageId: validatedData.parent_message_id
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ephemeral: buildEphemeralMessage(channel.id, result, validatedData.parent_message_id),
+        message: result.message ?? null
+      }
+    })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid command',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    logger.error('Error running slash command:', error)
+    return createAPIErrorResponse('Failed to run command', 500, undefined, getClientInfo(request))
+  }
+}
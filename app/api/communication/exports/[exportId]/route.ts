@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { S3Service } from '@/lib/services/s3-service'
+import { channelExportOps } from '@/lib/communication/operations'
+import { hasComplianceAccess, toChannelExportResponse } from '@/lib/communication/compliance-export'
+
+// GET /api/communication/exports/[exportId] - Export status, with a presigned download link once it is ready
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ exportId: string }> }
+) {
+  try {
+    const { session, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'communication', 'read')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await hasComplianceAccess(session.user.id, isSuperAdmin))) {
+      return NextResponse.json({ success: false, error: 'Forbidden: Exports require admin or compliance role' }, { status: 403 })
+    }
+
+    const { exportId } = await params
+    const record = await channelExportOps.getById(exportId)
+    if (!record) {
+      return NextResponse.json({ success: false, error: 'Export not found' }, { status: 404 })
+    }
+
+    const data = toChannelExportResponse(record)
+    if (record.status === 'completed' && record.s3_key) {
+      data.download_url = await S3Service.getPresignedDownloadUrl(
+        record.s3_key,
+        'COMPLIANCE_EXPORTS',
+        record.file_name || 'export.zip'
+      )
+      logger.info(`Download link for compliance export ${record.id} issued to ${session.user.id}`)
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error: any) {
+    logger.error('Error fetching channel export:', error)
+    return createAPIErrorResponse('Failed to fetch export', 500, undefined, getClientInfo(request))
+  }
+}
@@ -19,7 +19,8 @@ import MessageAuditLog from '@/models/MessageAuditLog'
 import mongoose from 'mongoose'
 import { S3Service } from "@/lib/services/s3-service"
 // Phase 2: Use centralized services from Phase 1
-import { messageOps } from '@/lib/communication/operations'
+import { messageOps, retentionOps } from '@/lib/communication/operations'
+import { getTrashRestoreDays } from '@/lib/communication/retention'
 import { 
   broadcastToChannel, 
   broadcastMessageUpdate, 
@@ -300,7 +301,7 @@ export async function DELETE(
       })
     }
 
-    // "Move to Trash" - can be restored within 30 days
+    // "Move to Trash" - can be restored until the trash retention policy purges it
     if (deleteType === 'trash') {
       await prisma.messages.update({
         where: { id: messageId },
@@ -345,10 +346,14 @@ export async function DELETE(
         }
       }).catch(err => logger.error('Failed to broadcast message trash:', err))
 
+      const restoreDays = await getTrashRestoreDays(message.channel_id)
+
       return NextResponse.json({ 
         success: true, 
         deleteType: 'trash',
-        message: 'Message moved to trash. You can restore it within 30 days.'
+        message: restoreDays > 0
+          ? `Message moved to trash. You can restore it within ${restoreDays} days.`
+          : 'Message moved to trash.'
       })
     }
 
@@ -358,6 +363,11 @@ export async function DELETE(
         return createErrorResponse('Only trashed messages can be permanently deleted', 403)
       }
 
+      const channelPolicy = await retentionOps.getChannelPolicy(message.channel_id)
+      if (channelPolicy?.legal_hold) {
+        return createErrorResponse('This channel is under legal hold. Messages cannot be permanently deleted.', 423)
+      }
+
       // Get all attachments for this message before deleting
       const attachments = await prisma.attachments.findMany({
         where: { message_id: messageId },
@@ -483,13 +493,14 @@ export async function POST(
         return createErrorResponse('You can only restore your own messages', 403)
       }
 
-      // Check 30-day window
+      // Check the trash retention window (0 means trash is kept indefinitely)
+      const restoreDays = await getTrashRestoreDays(message.channel_id)
       const trashedAt = new Date(messageWithTrash.trashed_at!)
       const now = new Date()
       const daysSinceTrashed = Math.floor((now.getTime() - trashedAt.getTime()) / (1000 * 60 * 60 * 24))
 
-      if (daysSinceTrashed > 30) {
-        return createErrorResponse('Message cannot be restored. It has been in trash for more than 30 days.', 400)
+      if (restoreDays > 0 && daysSinceTrashed > restoreDays) {
+        return createErrorResponse(`Message cannot be restored. It has been in trash for more than ${restoreDays} days.`, 400)
       }
 
       // Restore message
@@ -0,0 +1,70 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { messageIdSchema } from "@/lib/validations/channel"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { TaskService } from '@/lib/services/task-service'
+import { buildTaskDraft, getSourceMessage } from '@/lib/communication/task-links'
+
+// GET /api/communication/messages/[messageId]/task-draft - Pre-filled task for "Create task from message"
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> }
+) {
+  try {
+    const { session } = await genericApiRoutesMiddleware(request, 'tasks', 'create')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { messageId } = messageIdSchema.parse(await params)
+
+    const message = await getSourceMessage(messageId, session.user.id)
+    if (!message) {
+      return NextResponse.json({ success: false, error: 'Message not found' }, { status: 404 })
+    }
+
+    const projectId = message.channels?.mongo_project_id
+    if (!projectId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Tasks can only be created from messages in project channels'
+      }, { status: 400 })
+    }
+
+    const department = await TaskService.resolveDepartment(projectId, {
+      userId: session.user.id,
+      preferredDepartmentId: message.channels?.mongo_department_id
+    })
+    if (!department) {
+      return NextResponse.json({
+        success: false,
+        error: "This channel's project has no departments to create the task in"
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...buildTaskDraft(message),
+        projectId,
+        departmentId: department.departmentId,
+        departmentName: department.departmentName,
+        sourceMessage: { messageId: message.id, channelId: message.channel_id }
+      }
+    })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid message ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    logger.error('Error building task draft from message:', error)
+    return createAPIErrorResponse('Failed to prepare task', 500, undefined, getClientInfo(request))
+  }
+}
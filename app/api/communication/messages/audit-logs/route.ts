@@ -14,7 +14,7 @@ import { communicationLogger as logger } from '@/lib/logger'
  * Query parameters:
  * - channel_id: Filter by specific channel
  * - message_id: Filter by specific message
- * - action: Filter by action type ('created', 'edited', 'trashed', 'restored', 'permanently_deleted')
+ * - action: Filter by action type ('created', 'edited', 'trashed', 'restored', 'permanently_deleted', 'retention_purged')
  * - actor_id: Filter by actor
  * - start_date: Filter from date (ISO string)
  * - end_date: Filter to date (ISO string)
@@ -136,10 +136,11 @@ export async function GET(request: NextRequest) {
     const transformedLogs = logs.map((log: any) => ({
       id: log._id.toString(),
       message_id: log.supabase_message_id,
+      message_ids: log.supabase_message_ids,
       channel_id: log.supabase_channel_id,
       action: log.action,
       actor: {
-        id: log.actor_id.toString(),
+        id: log.actor_id?.toString() || null,
         name: log.actor_name,
         email: log.actor_email,
         role: log.actor_role
@@ -187,7 +188,8 @@ function getActionLabel(action: string): string {
     'edited': 'Message Edited',
     'trashed': 'Moved to Trash',
     'restored': 'Restored from Trash',
-    'permanently_deleted': 'Permanently Deleted'
+    'permanently_deleted': 'Permanently Deleted',
+    'retention_purged': 'Purged by Retention Policy'
   }
   return labels[action] || action
 }
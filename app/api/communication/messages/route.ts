@@ -15,7 +15,10 @@ import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
 import { createAPIErrorResponse } from "@/lib/utils/api-responses"
 import { apiLogger as logger } from '@/lib/logger'
 // Phase 2: Use centralized services from Phase 1
-import { channelOps } from '@/lib/communication/operations'
+import { channelOps, pollOps } from '@/lib/communication/operations'
+import { extractRoleName } from '@/lib/communication/utils'
+import { notifyThreadReply } from '@/lib/communication/threads'
+import { getGlobalRetentionPolicy, resolveRetentionPolicy } from '@/lib/communication/retention'
 import { 
   broadcastToChannel, 
   broadcastNewMessage, 
@@ -102,29 +105,6 @@ function transformMessageWithSender(message: Record<string, unknown>): IMessageW
   } as IMessageWithSender
 }
 
-/**
- * Extract role name from MongoDB role field.
- * Handles: string, ObjectId, or populated {name: string} object
- */
-function extractRoleName(role: unknown): string {
-  if (!role) return 'User'
-  
-  if (typeof role === 'string') {
-    return role
-  }
-  
-  if (typeof role === 'object' && role !== null) {
-    // Populated role object with name field
-    const roleObj = role as { name?: string }
-    if (roleObj.name && typeof roleObj.name === 'string') {
-      return roleObj.name
-    }
-  }
-  
-  // ObjectId or unknown - default to 'User'
-  return 'User'
-}
-
 // GET /api/communication/messages - Get messages for a channel (CONSOLIDATED)
 // Supports: ?channel_id=, ?search=, ?trash=true
 export async function GET(request: NextRequest) {
@@ -155,26 +135,34 @@ export async function GET(request: NextRequest) {
         where.channel_id = channelId
       }
 
-      const [messages, total] = await Promise.all([
+      const [messages, total, globalRetention] = await Promise.all([
         prisma.messages.findMany({
           where,
           orderBy: { trashed_at: 'desc' } as any,
           skip: (page - 1) * limit,
           take: limit,
           include: {
-            channels: { select: { id: true, name: true, type: true } },
+            channels: {
+              select: { id: true, name: true, type: true, message_retention_days: true, trash_retention_days: true, legal_hold: true }
+            },
             attachments: { select: { id: true, file_name: true, file_type: true } }
           }
         }),
-        prisma.messages.count({ where })
+        prisma.messages.count({ where }),
+        getGlobalRetentionPolicy()
       ])
 
       const now = new Date()
       const messagesWithExpiry = (messages as any[]).map(msg => {
+        const { message_retention_days, trash_retention_days, legal_hold, ...channel } = msg.channels
         const trashedAt = new Date(msg.trashed_at || now)
+        // Trash is only purged when a policy applies and the channel isn't under legal hold
+        const retentionDays = legal_hold
+          ? 0
+          : resolveRetentionPolicy({ message_retention_days, trash_retention_days }, globalRetention).trashRetentionDays
         const daysSinceTrashed = Math.floor((now.getTime() - trashedAt.getTime()) / (1000 * 60 * 60 * 24))
-        const daysRemaining = Math.max(0, 30 - daysSinceTrashed)
-        const expiresAt = new Date(trashedAt.getTime() + 30 * 24 * 60 * 60 * 1000)
+        const daysRemaining = retentionDays > 0 ? Math.max(0, retentionDays - daysSinceTrashed) : null
+        const expiresAt = retentionDays > 0 ? new Date(trashedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000) : null
         
         return {
           ...transformMessageWithSender(msg),
@@ -182,9 +170,9 @@ export async function GET(request: NextRequest) {
           trashed_by: msg.trashed_by || '',
           trash_reason: msg.trash_reason,
           days_remaining: daysRemaining,
-          expires_at: expiresAt.toISOString(),
-          is_expiring_soon: daysRemaining <= 7,
-          channel: msg.channels
+          expires_at: expiresAt?.toISOString() || null,
+          is_expiring_soon: daysRemaining !== null && daysRemaining <= 7,
+          channel
         }
       })
 
@@ -283,6 +271,18 @@ export async function GET(request: NextRequest) {
     // Transform messages using denormalized sender fields (NO MongoDB lookup needed!)
     const transformedMessages = messages.map((message: any) => transformMessageWithSender(message))
 
+    // Poll results include the caller's own votes, so they are attached per request
+    const pollMessageIds = transformedMessages
+      .filter((message: IMessageWithSender) => message.content_type === 'poll')
+      .map((message: IMessageWithSender) => message.id)
+    if (pollMessageIds.length > 0) {
+      const polls = await pollOps.getSummariesByMessageIds(pollMessageIds, session.user.id)
+      transformedMessages.forEach((message: IMessageWithSender) => {
+        const poll = polls.get(message.id)
+        if (poll) message.poll = poll
+      })
+    }
+
     return NextResponse.json({
       success: true,
       data: transformedMessages.reverse(), // Reverse to show oldest first
@@ -442,6 +442,13 @@ export async function POST(request: NextRequest) {
       attachments
     }
 
+    // Auto-follow and thread follower notifications run in the background like the other broadcasts
+    if (parentMessageId) {
+      setImmediate(() => {
+        notifyThreadReply(messageWithSender).catch(error => logger.error('Failed to notify thread followers:', error))
+      })
+    }
+
     // Handle file uploads asynchronously (if FormData)
     if (isFormData && files.length > 0) {
       // Import S3Service for file uploads
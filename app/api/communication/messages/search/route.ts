@@ -0,0 +1,50 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { messageSearchQuerySchema } from "@/lib/validations/channel"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { messageOps } from '@/lib/communication/operations'
+
+// GET /api/communication/messages/search - Full-text search across the caller's channels
+// Supports: ?q=, ?sender_id=, ?channel_type=, ?from=, ?to=, ?has_attachment=, ?mentions_me=
+export async function GET(request: NextRequest) {
+  try {
+    const { session } = await genericApiRoutesMiddleware(request, 'communication', 'read')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const searchParams = Object.fromEntries(request.nextUrl.searchParams.entries())
+    const validatedParams = messageSearchQuerySchema.parse(searchParams)
+
+    const results = await messageOps.searchWorkspace(session.user.id, {
+      query: validatedParams.q,
+      senderId: validatedParams.sender_id,
+      channelType: validatedParams.channel_type,
+      from: validatedParams.from,
+      to: validatedParams.to,
+      hasAttachment: validatedParams.has_attachment,
+      mentionsMe: validatedParams.mentions_me,
+      limit: validatedParams.limit,
+      offset: validatedParams.offset,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { ...results, query: validatedParams.q }
+    })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid search parameters',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    logger.error('Error searching messages:', error)
+    return createAPIErrorResponse('Failed to search messages', 500, undefined, getClientInfo(request))
+  }
+}
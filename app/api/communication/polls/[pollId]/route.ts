@@ -0,0 +1,62 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { channelOps, pollOps } from '@/lib/communication/operations'
+import { broadcastPollUpdate } from '@/lib/communication/broadcast'
+
+// PATCH /api/communication/polls/[pollId] - Close a poll early (poll creator or channel admin)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ pollId: string }> }
+) {
+  try {
+    const { session } = await genericApiRoutesMiddleware(request, 'communication', 'update')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { pollId } = await params
+
+    const poll = await pollOps.getById(pollId)
+    if (!poll) {
+      return NextResponse.json({ success: false, error: 'Poll not found' }, { status: 404 })
+    }
+
+    const memberRole = await channelOps.getMemberRole(poll.channel_id, session.user.id)
+    if (!memberRole) {
+      return NextResponse.json({ success: false, error: 'Access denied to this channel' }, { status: 403 })
+    }
+
+    const canClose = poll.mongo_creator_id === session.user.id || memberRole === 'admin' || memberRole === 'owner'
+    if (!canClose) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only the poll creator or a channel admin can close this poll'
+      }, { status: 403 })
+    }
+
+    if (pollOps.isClosed(poll)) {
+      return NextResponse.json({
+        success: false,
+        error: 'This poll is already closed',
+        code: 'POLL_CLOSED'
+      }, { status: 409 })
+    }
+
+    const closed = await pollOps.close(pollId)
+
+    await broadcastPollUpdate(poll.channel_id, poll.message_id, pollOps.summarize(closed))
+
+    return NextResponse.json({
+      success: true,
+      data: pollOps.summarize(closed, session.user.id),
+      message: 'Poll closed'
+    })
+  } catch (error: any) {
+    logger.error('Error closing poll:', error)
+    return createAPIErrorResponse('Failed to close poll', 500, undefined, getClientInfo(request))
+  }
+}
@@ -0,0 +1,81 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { votePollSchema } from "@/lib/validations/channel"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { channelOps, pollOps } from '@/lib/communication/operations'
+import { broadcastPollUpdate } from '@/lib/communication/broadcast'
+
+// POST /api/communication/polls/[pollId]/vote - Set the caller's vote; an empty list retracts it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ pollId: string }> }
+) {
+  try {
+    const { session, user } = await genericApiRoutesMiddleware(request, 'communication', 'create')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { pollId } = await params
+    const body = await request.json()
+    const { option_ids } = votePollSchema.parse(body)
+    const optionIds = Array.from(new Set(option_ids))
+
+    const poll = await pollOps.getById(pollId)
+    if (!poll) {
+      return NextResponse.json({ success: false, error: 'Poll not found' }, { status: 404 })
+    }
+
+    const isMember = await channelOps.isMember(poll.channel_id, session.user.id)
+    if (!isMember) {
+      return NextResponse.json({ success: false, error: 'Access denied to this channel' }, { status: 403 })
+    }
+
+    if (pollOps.isClosed(poll)) {
+      return NextResponse.json({
+        success: false,
+        error: 'This poll is closed',
+        code: 'POLL_CLOSED'
+      }, { status: 409 })
+    }
+
+    if (!poll.allow_multiple && optionIds.length > 1) {
+      return NextResponse.json({ success: false, error: 'This poll allows only one choice' }, { status: 400 })
+    }
+
+    const validOptionIds = new Set(poll.poll_options.map((option: { id: string }) => option.id))
+    if (optionIds.some(optionId => !validOptionIds.has(optionId))) {
+      return NextResponse.json({ success: false, error: 'Invalid poll option' }, { status: 400 })
+    }
+
+    const userName = String(user?.name || user?.email || 'Unknown User')
+    const updated = await pollOps.vote(pollId, session.user.id, userName, optionIds)
+
+    // Deleted along with its message while the vote was being saved
+    if (!updated) {
+      return NextResponse.json({ success: false, error: 'Poll not found' }, { status: 404 })
+    }
+
+    await broadcastPollUpdate(poll.channel_id, poll.message_id, pollOps.summarize(updated))
+
+    return NextResponse.json({
+      success: true,
+      data: pollOps.summarize(updated, session.user.id),
+      message: optionIds.length > 0 ? 'Vote recorded' : 'Vote removed'
+    })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid vote data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    logger.error('Error voting on poll:', error)
+    return createAPIErrorResponse('Failed to record vote', 500, undefined, getClientInfo(request))
+  }
+}
@@ -0,0 +1,63 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { prisma } from '@/lib/prisma'
+import { createPollSchema } from "@/lib/validations/channel"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { channelOps } from '@/lib/communication/operations'
+import { postPoll } from '@/lib/communication/polls'
+
+// POST /api/communication/polls - Post a poll to a channel
+export async function POST(request: NextRequest) {
+  try {
+    const { session, user } = await genericApiRoutesMiddleware(request, 'communication', 'create')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = createPollSchema.parse(body)
+
+    const channel = await prisma.channels.findUnique({
+      where: { id: validatedData.channel_id },
+      select: { id: true, admin_only_post: true }
+    })
+
+    if (!channel) {
+      return NextResponse.json({ success: false, error: 'Channel not found' }, { status: 404 })
+    }
+
+    const memberRecord = await channelOps.getMember(validatedData.channel_id, session.user.id)
+    if (!memberRecord) {
+      return NextResponse.json({ success: false, error: 'Access denied to this channel' }, { status: 403 })
+    }
+
+    if (channel.admin_only_post && memberRecord.role !== 'admin' && memberRecord.role !== 'owner') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only admins can post messages in this channel'
+      }, { status: 403 })
+    }
+
+    const messageWithSender = await postPoll(validatedData, session.user.id, user)
+
+    return NextResponse.json({
+      success: true,
+      data: messageWithSender,
+      message: 'Poll created successfully'
+    }, { status: 201 })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid poll data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    logger.error('Error creating poll:', error)
+    return createAPIErrorResponse('Failed to create poll', 500, undefined, getClientInfo(request))
+  }
+}
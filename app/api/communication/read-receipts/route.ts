@@ -3,7 +3,7 @@
  * 
  * Uses centralized services from Phase 1:
  * - readReceiptOps from operations.ts for database operations
- * - broadcastReadReceipt, broadcastBulkReadReceipt from broadcast.ts for real-time updates
+ * - broadcastReadReceipt, broadcastBulkReadReceipt, broadcastUnreadUpdate from broadcast.ts for real-time updates
  * - channelOps.isMember() for membership checks
  */
 import { NextRequest, NextResponse } from 'next/server'
@@ -12,7 +12,7 @@ import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
 import { apiLogger as logger } from '@/lib/logger'
 // Phase 2: Use centralized services from Phase 1
 import { readReceiptOps, channelOps } from '@/lib/communication/operations'
-import { broadcastReadReceipt, broadcastBulkReadReceipt } from '@/lib/communication/broadcast'
+import { broadcastReadReceipt, broadcastBulkReadReceipt, broadcastUnreadUpdate } from '@/lib/communication/broadcast'
 
 // ============================================
 // Helper Functions
@@ -59,11 +59,18 @@ export async function POST(request: NextRequest) {
     // Mark all unread messages in the channel as read
     if (mark_all && channel_id) {
       const result = await readReceiptOps.markAllInChannel(channel_id, userId)
+      const [unread] = await readReceiptOps.getUnreadSummary(userId, channel_id)
 
       if (result.markedCount === 0) {
+        // The last-read pointer may still have moved - keep the user's other sessions in step
+        if (unread) {
+          broadcastUnreadUpdate(userId, unread).catch(err => logger.error('Failed to broadcast unread update:', err))
+        }
+
         return NextResponse.json({ 
           success: true,
           count: 0,
+          unread,
           message: 'No unread messages to mark as read'
         })
       }
@@ -73,18 +80,21 @@ export async function POST(request: NextRequest) {
       // Broadcast bulk read receipt (non-blocking)
       broadcastBulkReadReceipt(channel_id, {
         userId,
-        messageCount: result.markedCount
-      }).catch(err => logger.error('Failed to broadcast bulk read receipt:', err))
+        messageCount: result.markedCount,
+        lastReadMessageId: unread?.last_read_message_id || undefined
+      }, unread).catch(err => logger.error('Failed to broadcast bulk read receipt:', err))
 
       return NextResponse.json({ 
         success: true,
         count: result.markedCount,
+        unread,
         message: `Marked ${result.markedCount} messages as read`
       })
     }
 
     // Mark single message as read
     const receipt = await readReceiptOps.mark(message_id, userId)
+    const [unread] = channel_id ? await readReceiptOps.getUnreadSummary(userId, channel_id) : []
 
     // Broadcast read receipt (non-blocking)
     if (channel_id) {
@@ -94,8 +104,11 @@ export async function POST(request: NextRequest) {
         readAt: new Date().toISOString()
       }).catch(err => logger.error('Failed to broadcast read receipt:', err))
     }
+    if (unread) {
+      broadcastUnreadUpdate(userId, unread).catch(err => logger.error('Failed to broadcast unread update:', err))
+    }
 
-    return NextResponse.json({ success: true, receipt })
+    return NextResponse.json({ success: true, receipt, unread })
   } catch (error) {
     logger.error('Error marking message as read:', error)
     return createErrorResponse('Internal server error', 500)
@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { messageReminderOps } from '@/lib/communication/operations'
+
+// DELETE /api/communication/reminders/[id] - Cancel or dismiss one of the caller's reminders
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session } = await genericApiRoutesMiddleware(request, 'communication', 'read')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const removed = await messageReminderOps.remove(id, session.user.id)
+    if (!removed) {
+      return NextResponse.json({ success: false, error: 'Reminder not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id },
+      message: 'Reminder removed'
+    })
+  } catch (error: any) {
+    logger.error('Error removing message reminder:', error)
+    return createAPIErrorResponse('Failed to remove reminder', 500, undefined, getClientInfo(request))
+  }
+}
@@ -0,0 +1,78 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { prisma } from '@/lib/prisma'
+import { createMessageReminderSchema } from "@/lib/validations/channel"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { channelOps, messageReminderOps } from '@/lib/communication/operations'
+
+// GET /api/communication/reminders - The caller's message reminders, upcoming and completed
+export async function GET(request: NextRequest) {
+  try {
+    const { session } = await genericApiRoutesMiddleware(request, 'communication', 'read')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const reminders = await messageReminderOps.getByUser(session.user.id)
+
+    return NextResponse.json({ success: true, data: reminders })
+  } catch (error: any) {
+    logger.error('Error fetching message reminders:', error)
+    return createAPIErrorResponse('Failed to fetch reminders', 500, undefined, getClientInfo(request))
+  }
+}
+
+// POST /api/communication/reminders - Remind the caller about a message later
+export async function POST(request: NextRequest) {
+  try {
+    const { session } = await genericApiRoutesMiddleware(request, 'communication', 'read')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = createMessageReminderSchema.parse(body)
+
+    const message = await prisma.messages.findUnique({
+      where: { id: validatedData.message_id },
+      select: { id: true, channel_id: true, is_trashed: true }
+    })
+
+    if (!message || message.is_trashed) {
+      return NextResponse.json({ success: false, error: 'Message not found' }, { status: 404 })
+    }
+
+    const isMember = await channelOps.isMember(message.channel_id, session.user.id)
+    if (!isMember) {
+      return NextResponse.json({ success: false, error: 'Access denied to this channel' }, { status: 403 })
+    }
+
+    const reminder = await messageReminderOps.upsert({
+      message_id: message.id,
+      channel_id: message.channel_id,
+      mongo_user_id: session.user.id,
+      remind_at: validatedData.remind_at
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: reminder,
+      message: 'Reminder set'
+    }, { status: 201 })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid reminder data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    logger.error('Error setting message reminder:', error)
+    return createAPIErrorResponse('Failed to set reminder', 500, undefined, getClientInfo(request))
+  }
+}
@@ -0,0 +1,93 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { updateScheduledMessageSchema } from "@/lib/validations/channel"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { scheduledMessageOps } from '@/lib/communication/operations'
+
+const ALREADY_SENT_RESPONSE = {
+  success: false,
+  error: 'This message has already been sent or cancelled',
+  code: 'SCHEDULED_MESSAGE_NOT_PENDING'
+}
+
+// PUT /api/communication/scheduled-messages/[id] - Edit a pending scheduled message
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session } = await genericApiRoutesMiddleware(request, 'communication', 'update')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = updateScheduledMessageSchema.parse(body)
+
+    const existing = await scheduledMessageOps.getOwn(id, session.user.id)
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Scheduled message not found' }, { status: 404 })
+    }
+
+    const updated = await scheduledMessageOps.update(id, validatedData)
+    if (!updated) {
+      return NextResponse.json(ALREADY_SENT_RESPONSE, { status: 409 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+      message: 'Scheduled message updated'
+    })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid scheduled message data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    logger.error('Error updating scheduled message:', error)
+    return createAPIErrorResponse('Failed to update scheduled message', 500, undefined, getClientInfo(request))
+  }
+}
+
+// DELETE /api/communication/scheduled-messages/[id] - Cancel a pending scheduled message
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session } = await genericApiRoutesMiddleware(request, 'communication', 'delete')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const existing = await scheduledMessageOps.getOwn(id, session.user.id)
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Scheduled message not found' }, { status: 404 })
+    }
+
+    const cancelled = await scheduledMessageOps.cancel(id)
+    if (!cancelled) {
+      return NextResponse.json(ALREADY_SENT_RESPONSE, { status: 409 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id },
+      message: 'Scheduled message cancelled'
+    })
+  } catch (error: any) {
+    logger.error('Error cancelling scheduled message:', error)
+    return createAPIErrorResponse('Failed to cancel scheduled message', 500, undefined, getClientInfo(request))
+  }
+}
@@ -0,0 +1,105 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { prisma } from '@/lib/prisma'
+import { createScheduledMessageSchema, scheduledMessageQuerySchema } from "@/lib/validations/channel"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { channelOps, scheduledMessageOps } from '@/lib/communication/operations'
+import { extractRoleName } from '@/lib/communication/utils'
+
+// GET /api/communication/scheduled-messages?channel_id= - The caller's pending messages in a channel
+export async function GET(request: NextRequest) {
+  try {
+    const { session } = await genericApiRoutesMiddleware(request, 'communication', 'read')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { channel_id } = scheduledMessageQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    )
+
+    const scheduledMessages = await scheduledMessageOps.getPendingByChannel(channel_id, session.user.id)
+
+    return NextResponse.json({ success: true, data: scheduledMessages })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    logger.error('Error fetching scheduled messages:', error)
+    return createAPIErrorResponse('Failed to fetch scheduled messages', 500, undefined, getClientInfo(request))
+  }
+}
+
+// POST /api/communication/scheduled-messages - Schedule a message to be sent later
+export async function POST(request: NextRequest) {
+  try {
+    const { session, user } = await genericApiRoutesMiddleware(request, 'communication', 'create')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = createScheduledMessageSchema.parse(body)
+
+    const channel = await prisma.channels.findUnique({
+      where: { id: validatedData.channel_id },
+      select: { id: true, admin_only_post: true }
+    })
+
+    if (!channel) {
+      return NextResponse.json({ success: false, error: 'Channel not found' }, { status: 404 })
+    }
+
+    const memberRecord = await channelOps.getMember(validatedData.channel_id, session.user.id)
+    if (!memberRecord) {
+      return NextResponse.json({ success: false, error: 'Access denied to this channel' }, { status: 403 })
+    }
+
+    if (channel.admin_only_post && memberRecord.role !== 'admin' && memberRecord.role !== 'owner') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only admins can post messages in this channel'
+      }, { status: 403 })
+    }
+
+    // Sender details are captured now so the dispatcher doesn't need MongoDB
+    const scheduledMessage = await scheduledMessageOps.create({
+      channel_id: validatedData.channel_id,
+      mongo_sender_id: session.user.id,
+      content: validatedData.content,
+      parent_message_id: validatedData.parent_message_id,
+      mongo_mentioned_user_ids: validatedData.mongo_mentioned_user_ids,
+      send_at: validatedData.send_at,
+      sender_name: String(user?.name || user?.email || 'Unknown User'),
+      sender_email: String(user?.email || ''),
+      sender_avatar: user?.avatar ? String(user.avatar) : undefined,
+      sender_role: extractRoleName(user?.role)
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: scheduledMessage,
+      message: 'Message scheduled successfully'
+    }, { status: 201 })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid scheduled message data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    logger.error('Error scheduling message:', error)
+    return createAPIErrorResponse('Failed to schedule message', 500, undefined, getClientInfo(request))
+  }
+}
@@ -0,0 +1,70 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { channelOps, threadOps } from '@/lib/communication/operations'
+
+// POST /api/communication/threads/[messageId]/follow - Follow a thread
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> }
+) {
+  try {
+    const { session } = await genericApiRoutesMiddleware(request, 'communication', 'read')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { messageId } = await params
+
+    const root = await threadOps.getRoot(messageId)
+    if (!root) {
+      return NextResponse.json({ success: false, error: 'Thread not found' }, { status: 404 })
+    }
+
+    const isMember = await channelOps.isMember(root.channel_id, session.user.id)
+    if (!isMember) {
+      return NextResponse.json({ success: false, error: 'Access denied to this channel' }, { status: 403 })
+    }
+
+    await threadOps.follow(messageId, root.channel_id, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: { message_id: messageId, is_following: true },
+      message: 'Following thread'
+    })
+  } catch (error: any) {
+    logger.error('Error following thread:', error)
+    return createAPIErrorResponse('Failed to follow thread', 500, undefined, getClientInfo(request))
+  }
+}
+
+// DELETE /api/communication/threads/[messageId]/follow - Stop following a thread
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> }
+) {
+  try {
+    const { session } = await genericApiRoutesMiddleware(request, 'communication', 'read')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { messageId } = await params
+
+    await threadOps.unfollow(messageId, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: { message_id: messageId, is_following: false },
+      message: 'Unfollowed thread'
+    })
+  } catch (error: any) {
+    logger.error('Error unfollowing thread:', error)
+    return createAPIErrorResponse('Failed to unfollow thread', 500, undefined, getClientInfo(request))
+  }
+}
@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { channelOps, threadOps } from '@/lib/communication/operations'
+import { broadcastBulkReadReceipt } from '@/lib/communication/broadcast'
+
+// POST /api/communication/threads/[messageId]/read - Mark every reply in a thread as read
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> }
+) {
+  try {
+    const { session } = await genericApiRoutesMiddleware(request, 'communication', 'create')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { messageId } = await params
+
+    const root = await threadOps.getRoot(messageId)
+    if (!root) {
+      return NextResponse.json({ success: false, error: 'Thread not found' }, { status: 404 })
+    }
+
+    const isMember = await channelOps.isMember(root.channel_id, session.user.id)
+    if (!isMember) {
+      return NextResponse.json({ success: false, error: 'Access denied to this channel' }, { status: 403 })
+    }
+
+    const { markedCount } = await threadOps.markRead(messageId, session.user.id)
+
+    if (markedCount > 0) {
+      broadcastBulkReadReceipt(root.channel_id, {
+        userId: session.user.id,
+        messageCount: markedCount
+      }).catch(err => logger.error('Failed to broadcast bulk read receipt:', err))
+    }
+
+    return NextResponse.json({ success: true, data: { count: markedCount } })
+  } catch (error: any) {
+    logger.error('Error marking thread as read:', error)
+    return createAPIErrorResponse('Failed to mark thread as read', 500, undefined, getClientInfo(request))
+  }
+}
@@ -0,0 +1,63 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { threadRepliesQuerySchema } from "@/lib/validations/channel"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { channelOps, threadOps } from '@/lib/communication/operations'
+import { transformMessageWithSender } from '@/lib/communication/utils'
+
+// GET /api/communication/threads/[messageId]?limit=&before= - A thread's root message and a page of replies
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> }
+) {
+  try {
+    const { session } = await genericApiRoutesMiddleware(request, 'communication', 'read')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { messageId } = await params
+    const { limit, before } = threadRepliesQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    )
+
+    const root = await threadOps.getRoot(messageId)
+    if (!root) {
+      return NextResponse.json({ success: false, error: 'Thread not found' }, { status: 404 })
+    }
+
+    const isMember = await channelOps.isMember(root.channel_id, session.user.id)
+    if (!isMember) {
+      return NextResponse.json({ success: false, error: 'Access denied to this channel' }, { status: 403 })
+    }
+
+    const [{ replies, hasMore }, isFollowing] = await Promise.all([
+      threadOps.getReplies(messageId, session.user.id, { limit, before }),
+      threadOps.isFollowing(messageId, session.user.id)
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        root: transformMessageWithSender(root),
+        replies: replies.map((reply: any) => transformMessageWithSender(reply)),
+        hasMore,
+        is_following: isFollowing
+      }
+    })
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    logger.error('Error fetching thread:', error)
+    return createAPIErrorResponse('Failed to fetch thread', 500, undefined, getClientInfo(request))
+  }
+}
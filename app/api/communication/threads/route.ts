@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { getClientInfo } from '@/lib/security/error-handler'
+import { createAPIErrorResponse } from "@/lib/utils/api-responses"
+import { apiLogger as logger } from '@/lib/logger'
+import { threadOps } from '@/lib/communication/operations'
+
+// GET /api/communication/threads - Threads the caller follows, with unread reply counts
+export async function GET(request: NextRequest) {
+  try {
+    const { session } = await genericApiRoutesMiddleware(request, 'communication', 'read')
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const threads = await threadOps.getFollowedThreads(session.user.id)
+
+    return NextResponse.json({ success: true, data: threads })
+  } catch (error: any) {
+    logger.error('Error fetching followed threads:', error)
+    return createAPIErrorResponse('Failed to fetch threads', 500, undefined, getClientInfo(request))
+  }
+}
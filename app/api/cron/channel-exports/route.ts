@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isAuthorizedCronRequest } from "@/lib/security/cron-auth"
+import { processPendingChannelExports } from "@/lib/communication/compliance-export"
+
+// GET /api/cron/channel-exports - Build compliance exports left pending and fail stalled ones
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await processPendingChannelExports()
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Built ${result.built} export(s), ${result.timedOut} timed out`
+    })
+
+  } catch (error: any) {
+    console.error('Error processing channel exports:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to process channel exports'
+    }, { status: 500 })
+  }
+}
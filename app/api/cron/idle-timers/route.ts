@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isAuthorizedCronRequest } from "@/lib/security/cron-auth"
+import { TimerService } from "@/lib/services/timer-service"
+
+// GET /api/cron/idle-timers - Stop task timers that have been idle past the configured limit
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await TimerService.autoStopIdleTimers()
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Stopped ${result.stopped} idle timer(s)`
+    })
+
+  } catch (error: any) {
+    console.error('Error stopping idle timers:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to stop idle timers'
+    }, { status: 500 })
+  }
+}
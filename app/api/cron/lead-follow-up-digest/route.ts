@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isAuthorizedCronRequest } from "@/lib/security/cron-auth"
+import { LeadFollowUpService } from "@/lib/services/lead-follow-up-service"
+
+// GET /api/cron/lead-follow-up-digest - Daily summary of due and overdue follow-ups per sales agent
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await LeadFollowUpService.sendDailyDigests()
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Sent ${result.digests} digest(s), ${result.emailed} by email, ${result.failed} failed`
+    })
+
+  } catch (error: any) {
+    console.error('Error sending lead follow-up digests:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to send lead follow-up digests'
+    }, { status: 500 })
+  }
+}
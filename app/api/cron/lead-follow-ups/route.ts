@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isAuthorizedCronRequest } from "@/lib/security/cron-auth"
+import { LeadFollowUpService } from "@/lib/services/lead-follow-up-service"
+
+// GET /api/cron/lead-follow-ups - Notify sales agents of follow-ups that have come due
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await LeadFollowUpService.dispatchDueFollowUps()
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Sent ${result.notified} follow-up reminder(s), ${result.skipped} already contacted, ${result.failed} failed`
+    })
+
+  } catch (error: any) {
+    console.error('Error dispatching lead follow-ups:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to dispatch lead follow-ups'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isAuthorizedCronRequest } from "@/lib/security/cron-auth"
+import { LeadImportService } from "@/lib/services/lead-import-service"
+
+// GET /api/cron/lead-imports - Run lead imports left pending and fail stalled ones
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await LeadImportService.processPendingImports()
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Processed ${result.processed} import(s), ${result.timedOut} timed out`
+    })
+
+  } catch (error: any) {
+    console.error('Error processing lead imports:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to process lead imports'
+    }, { status: 500 })
+  }
+}
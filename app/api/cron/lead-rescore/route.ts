@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isAuthorizedCronRequest } from "@/lib/security/cron-auth"
+import { LeadScoringService } from "@/lib/services/lead-scoring-service"
+
+// GET /api/cron/lead-rescore - Refresh lead scores whose time-based rules have moved on since yesterday
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await LeadScoringService.rescoreStale()
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Rescored ${result.rescored} lead(s)`
+    })
+
+  } catch (error: any) {
+    console.error('Error rescoring leads:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to rescore leads'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isAuthorizedCronRequest } from "@/lib/security/cron-auth"
+import { dispatchDueMessageReminders } from "@/lib/communication/message-reminders"
+
+// GET /api/cron/message-reminders - Notify users about message reminders that are due
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await dispatchDueMessageReminders()
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Sent ${result.notified} message reminder(s)`
+    })
+
+  } catch (error: any) {
+    console.error('Error sending message reminders:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to send message reminders'
+    }, { status: 500 })
+  }
+}
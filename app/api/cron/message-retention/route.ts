@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isAuthorizedCronRequest } from "@/lib/security/cron-auth"
+import { purgeExpiredMessages } from "@/lib/communication/retention"
+
+// GET /api/cron/message-retention - Permanently delete chat messages expired by retention policies
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await purgeExpiredMessages()
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Purged ${result.purged} message(s) in ${result.batches} batch(es), ${result.failed} failed`
+    })
+
+  } catch (error: any) {
+    console.error('Error purging expired messages:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to purge expired messages'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isAuthorizedCronRequest } from "@/lib/security/cron-auth"
+import { TaskRecurrenceService } from "@/lib/services/task-recurrence-service"
+
+// GET /api/cron/recurring-tasks - Create the next instance of scheduled recurring tasks that are due
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await TaskRecurrenceService.generateDue()
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Generated ${result.generated} recurring task(s)`
+    })
+
+  } catch (error: any) {
+    console.error('Error generating recurring tasks:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to generate recurring tasks'
+    }, { status: 500 })
+  }
+}
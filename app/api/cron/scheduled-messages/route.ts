@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isAuthorizedCronRequest } from "@/lib/security/cron-auth"
+import { dispatchDueScheduledMessages } from "@/lib/communication/scheduled-messages"
+
+// GET /api/cron/scheduled-messages - Send scheduled chat messages whose send time has passed
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await dispatchDueScheduledMessages()
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Sent ${result.sent} scheduled message(s), ${result.failed} failed, ${result.timedOut} timed out`
+    })
+
+  } catch (error: any) {
+    console.error('Error sending scheduled messages:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to send scheduled messages'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,96 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { executeGenericDbQuery } from "@/lib/mongodb"
+import Lead from "@/models/Lead"
+import User from "@/models/User"
+import { leadIdSchema, leadContactLogSchema } from "@/lib/validations/lead"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { addSoftDeleteFilter } from "@/lib/utils/soft-delete"
+import { LeadFollowUpService } from "@/lib/services/lead-follow-up-service"
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/leads/[id]/contacts - Log a contact and optionally schedule the next follow-up
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'leads', 'update')
+
+    const resolvedParams = await params
+    const validatedParams = leadIdSchema.parse({ id: resolvedParams.id })
+    const body = await request.json()
+    const validatedData = leadContactLogSchema.parse(body)
+
+    const lead = await executeGenericDbQuery(async () => {
+      const filter = addSoftDeleteFilter({
+        _id: validatedParams.id
+      }, isSuperAdmin)
+
+      const existingLead = await Lead.findOne(filter)
+
+      if (!existingLead) {
+        throw new Error('Lead not found')
+      }
+
+      // Check permissions - sales agents can log contacts on leads they created or are assigned
+      if (!isSuperAdmin) {
+        const salesUser = await User.findById(user._id).populate('department', 'name')
+
+        const deptName = (salesUser?.department as any)?.name?.toLowerCase()
+        if (deptName !== 'sales') {
+          throw new Error('Access denied. Only sales department members can log lead contacts.')
+        }
+
+        const userId = user._id.toString()
+        if (existingLead.createdBy.toString() !== userId && existingLead.assignedTo?.toString() !== userId) {
+          throw new Error('Access denied. You can only log contacts on your own leads.')
+        }
+      }
+
+      return await LeadFollowUpService.logContact(existingLead, validatedData)
+    })
+
+    const populatedLead = await executeGenericDbQuery(async () => {
+      return await Lead.findById(lead._id)
+        .populate('createdBy', 'name email')
+        .populate('clientId', 'name email')
+        .lean()
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: populatedLead,
+      message: 'Contact logged successfully'
+    }, { status: 201 })
+
+  } catch (error: any) {
+    console.error('Error logging lead contact:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid contact data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error.message === 'Lead not found') {
+      return NextResponse.json({
+        success: false,
+        error: 'Lead not found'
+      }, { status: 404 })
+    }
+
+    if (error.message.includes('Access denied')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 403 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to log contact'
+    }, { status: 500 })
+  }
+}
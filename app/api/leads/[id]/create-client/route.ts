@@ -5,6 +5,7 @@ import User from "@/models/User"
 import Role from "@/models/Role"
 import Department from "@/models/Department"
 import { leadIdSchema } from "@/lib/validations/lead"
+import { LeadPipelineService } from "@/lib/services/lead-pipeline-service"
 import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
 import mongoose from 'mongoose'
 import bcrypt from 'bcryptjs'
@@ -155,6 +156,9 @@ export async function POST(
       }
     })
 
+    // Converted leads land in the pipeline's won stage
+    await LeadPipelineService.syncStageWithStatus(validatedParams.id, user.id)
+
     // Clear relevant caches
     await Promise.all([
       clearCache('leads'),
@@ -0,0 +1,103 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { executeGenericDbQuery } from "@/lib/mongodb"
+import Lead from "@/models/Lead"
+import User from "@/models/User"
+import { leadIdSchema, leadMergeSchema } from "@/lib/validations/lead"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { addSoftDeleteFilter } from "@/lib/utils/soft-delete"
+import { LeadDuplicateService } from "@/lib/services/lead-duplicate-service"
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/leads/[id]/merge - Merge a duplicate lead into this one and delete the duplicate
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, userEmail, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'leads', 'update')
+
+    const resolvedParams = await params
+    const validatedParams = leadIdSchema.parse({ id: resolvedParams.id })
+    const body = await request.json()
+    const validatedData = leadMergeSchema.parse(body)
+
+    const lead = await executeGenericDbQuery(async () => {
+      const [survivor, duplicate] = await Promise.all([
+        Lead.findOne(addSoftDeleteFilter({ _id: validatedParams.id })),
+        Lead.findOne(addSoftDeleteFilter({ _id: validatedData.duplicateId })),
+      ])
+
+      if (!survivor || !duplicate) {
+        throw new Error('Lead not found')
+      }
+
+      // Check permissions - sales agents can only merge leads they created
+      if (!isSuperAdmin) {
+        const salesUser = await User.findById(user._id).populate('department', 'name')
+
+        const deptName = (salesUser?.department as any)?.name?.toLowerCase()
+        if (deptName !== 'sales') {
+          throw new Error('Access denied. Only sales department members can merge leads.')
+        }
+
+        const userId = user._id.toString()
+        if (survivor.createdBy.toString() !== userId || duplicate.createdBy.toString() !== userId) {
+          throw new Error('Access denied. You can only merge leads you created.')
+        }
+      }
+
+      return await LeadDuplicateService.mergeLeads(survivor, duplicate, userEmail)
+    })
+
+    const populatedLead = await executeGenericDbQuery(async () => {
+      return await Lead.findById(lead._id)
+        .populate('createdBy', 'name email')
+        .populate('clientId', 'name email')
+        .populate('stageHistory.changedBy', 'name email')
+        .lean()
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: populatedLead,
+      message: 'Leads merged successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error merging leads:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid merge data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error.message === 'Lead not found') {
+      return NextResponse.json({
+        success: false,
+        error: 'Lead not found'
+      }, { status: 404 })
+    }
+
+    if (error.message.includes('Access denied')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 403 })
+    }
+
+    if (error.message.startsWith('Cannot')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to merge leads'
+    }, { status: 500 })
+  }
+}
@@ -5,6 +5,8 @@ import Lead from "@/models/Lead"
 import User from "@/models/User"
 import { updateLeadSchema, leadIdSchema, leadStatusUpdateSchema } from "@/lib/validations/lead"
 import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { LeadPipelineService } from "@/lib/services/lead-pipeline-service"
+import { LeadScoringService } from "@/lib/services/lead-scoring-service"
 import { performSoftDelete, addSoftDeleteFilter } from "@/lib/utils/soft-delete"
 import { createErrorResponse } from "@/lib/security/error-handler"
 
@@ -31,13 +33,14 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         .populate('createdBy', 'name email department')
         .populate('clientId', 'name email')
         .populate('qualifiedBy', 'name email')
+        .populate('stageHistory.changedBy', 'name email')
         .lean()
 
       if (!foundLead) {
         throw new Error('Lead not found')
       }
 
-      // Check permissions - sales agents can only access their own leads
+      // Check permissions - sales agents can only access leads they created or are assigned
       if (!isSuperAdmin) {
         const salesUser = await User.findById(user._id).populate('department', 'name')
 
@@ -46,8 +49,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           throw new Error('Access denied. Only sales department members can access leads.')
         }
 
-        if (foundLead.createdBy._id.toString() !== user._id.toString()) {
-          throw new Error('Access denied. You can only access leads you created.')
+        if (foundLead.createdBy._id.toString() !== user._id.toString() && foundLead.assignedTo?.toString() !== user._id.toString()) {
+          throw new Error('Access denied. You can only access your own leads.')
         }
       }
 
@@ -135,8 +138,8 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
           throw new Error('Access denied. Only sales department members can update leads.')
         }
 
-        if (existingLead.createdBy.toString() !== user._id.toString()) {
-          throw new Error('Access denied. You can only update leads you created.')
+        if (existingLead.createdBy.toString() !== user._id.toString() && existingLead.assignedTo?.toString() !== user._id.toString()) {
+          throw new Error('Access denied. You can only update your own leads.')
         }
       }
 
@@ -162,8 +165,9 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         }
       }
 
-      // Update the lead
+      // Update the lead; the score follows from the new values
       Object.assign(existingLead, validatedData)
+      await LeadScoringService.applyScore(existingLead)
 
       return await existingLead.save()
     })
@@ -356,8 +360,8 @@ async function handleStatusUpdate(leadId: string, statusData: any, user: any, is
           throw new Error('Access denied. Only sales department members can update lead status.')
         }
 
-        if (existingLead.createdBy.toString() !== user._id.toString()) {
-          throw new Error('Access denied. You can only update leads you created.')
+        if (existingLead.createdBy.toString() !== user._id.toString() && existingLead.assignedTo?.toString() !== user._id.toString()) {
+          throw new Error('Access denied. You can only update your own leads.')
         }
       }
 
@@ -405,6 +409,9 @@ async function handleStatusUpdate(leadId: string, statusData: any, user: any, is
 
       await existingLead.save()
 
+      // Qualified leads are won, unqualified ones lost, on the pipeline board
+      await LeadPipelineService.syncStageWithStatus(leadId, user._id.toString())
+
       // Return lead with populated data for qualification
       return await Lead.findById(existingLead._id)
         .populate('createdBy', 'name email')
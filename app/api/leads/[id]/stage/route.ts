@@ -0,0 +1,102 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { executeGenericDbQuery, clearCache } from "@/lib/mongodb"
+import Lead from "@/models/Lead"
+import User from "@/models/User"
+import { leadIdSchema, leadStageUpdateSchema } from "@/lib/validations/lead"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { addSoftDeleteFilter } from "@/lib/utils/soft-delete"
+import { LeadPipelineService } from "@/lib/services/lead-pipeline-service"
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// PUT /api/leads/[id]/stage - Move a lead to another pipeline stage
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'leads', 'update')
+
+    const resolvedParams = await params
+    const validatedParams = leadIdSchema.parse({ id: resolvedParams.id })
+    const body = await request.json()
+    const validatedData = leadStageUpdateSchema.parse(body)
+
+    const lead = await executeGenericDbQuery(async () => {
+      const filter = addSoftDeleteFilter({
+        _id: validatedParams.id
+      }, isSuperAdmin)
+
+      const existingLead = await Lead.findOne(filter)
+
+      if (!existingLead) {
+        throw new Error('Lead not found')
+      }
+
+      // Check permissions - sales agents can only move their own leads
+      if (!isSuperAdmin) {
+        const salesUser = await User.findById(user._id).populate('department', 'name')
+
+        const deptName = (salesUser?.department as any)?.name?.toLowerCase()
+        if (deptName !== 'sales') {
+          throw new Error('Access denied. Only sales department members can move leads.')
+        }
+
+        if (existingLead.createdBy.toString() !== user._id.toString()) {
+          throw new Error('Access denied. You can only move leads you created.')
+        }
+      }
+
+      return await LeadPipelineService.moveLead(existingLead, validatedData.stage, {
+        userId: user._id.toString(),
+        note: validatedData.note || undefined
+      })
+    })
+
+    clearCache(`lead-${validatedParams.id}`)
+
+    const populatedLead = await executeGenericDbQuery(async () => {
+      return await Lead.findById(lead._id)
+        .populate('createdBy', 'name email')
+        .populate('clientId', 'name email')
+        .populate('stageHistory.changedBy', 'name email')
+        .lean()
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: populatedLead,
+      message: 'Lead stage updated successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error updating lead stage:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid stage data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error.message === 'Lead not found') {
+      return NextResponse.json({
+        success: false,
+        error: 'Lead not found'
+      }, { status: 404 })
+    }
+
+    if (error.message.includes('Access denied')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 403 })
+    }
+
+    // Everything else is a pipeline rule the move broke
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to update lead stage'
+    }, { status: 400 })
+  }
+}
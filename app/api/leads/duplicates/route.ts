@@ -0,0 +1,46 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { leadDuplicateCheckSchema } from "@/lib/validations/lead"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { LeadDuplicateService } from "@/lib/services/lead-duplicate-service"
+
+// GET /api/leads/duplicates - Existing leads that look like the given email, phone, company or website
+export async function GET(request: NextRequest) {
+  try {
+    const { user, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'leads', 'read')
+
+    const { searchParams } = new URL(request.url)
+    const validatedParams = leadDuplicateCheckSchema.parse(Object.fromEntries(searchParams.entries()))
+    const { excludeId, ...candidate } = validatedParams
+
+    // Matches across every agent's leads, so a company already being worked is
+    // flagged, but other agents' leads only show the reason and who owns them
+    const duplicates = await LeadDuplicateService.findDuplicates(candidate, {
+      excludeId,
+      viewerId: isSuperAdmin ? undefined : user._id.toString()
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: duplicates,
+      message: duplicates.length ? 'Possible duplicate leads found' : 'No duplicate leads found'
+    })
+
+  } catch (error: any) {
+    console.error('Error checking lead duplicates:', error)
+    if (error instanceof Response) {
+      return error
+    }
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to check lead duplicates'
+    }, { status: 500 })
+  }
+}
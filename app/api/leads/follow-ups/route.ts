@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { LeadFollowUpService } from "@/lib/services/lead-follow-up-service"
+
+// GET /api/leads/follow-ups - The current user's overdue, due and upcoming follow-ups
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await genericApiRoutesMiddleware(request, 'leads', 'read')
+
+    const queue = await LeadFollowUpService.getQueue(user._id.toString())
+
+    return NextResponse.json({
+      success: true,
+      data: queue,
+      message: 'Follow-ups retrieved successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error fetching lead follow-ups:', error)
+    if (error instanceof Response) {
+      return error
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to fetch follow-ups'
+    }, { status: 500 })
+  }
+}
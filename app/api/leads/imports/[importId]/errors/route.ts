@@ -0,0 +1,58 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { objectIdSchema } from "@/lib/validations/lead"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { LeadImportService } from "@/lib/services/lead-import-service"
+
+interface RouteParams {
+  params: Promise<{ importId: string }>
+}
+
+// GET /api/leads/imports/[importId]/errors - CSV of the rows that were not imported cleanly
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'leads', 'create')
+
+    const { importId } = await params
+    objectIdSchema.parse(importId)
+
+    const job = await LeadImportService.getImport(importId)
+    if (!job || (!isSuperAdmin && job.requestedBy.toString() !== user._id.toString())) {
+      return NextResponse.json({
+        success: false,
+        error: 'Import not found'
+      }, { status: 404 })
+    }
+
+    if (job.status !== 'completed' && job.status !== 'failed') {
+      return NextResponse.json({
+        success: false,
+        error: 'Import is still running'
+      }, { status: 409 })
+    }
+
+    const baseName = job.fileName.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_')
+    return new NextResponse(LeadImportService.buildErrorReport(job), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${baseName}_import_errors.csv"`
+      }
+    })
+
+  } catch (error: any) {
+    console.error('Error building lead import error report:', error)
+    if (error instanceof Response) {
+      return error
+    }
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid import ID'
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to build error report'
+    }, { status: 500 })
+  }
+}
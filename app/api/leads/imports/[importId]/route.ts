@@ -0,0 +1,49 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { objectIdSchema } from "@/lib/validations/lead"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { LeadImportService } from "@/lib/services/lead-import-service"
+
+interface RouteParams {
+  params: Promise<{ importId: string }>
+}
+
+// GET /api/leads/imports/[importId] - Progress and result of a lead import
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'leads', 'create')
+
+    const { importId } = await params
+    objectIdSchema.parse(importId)
+
+    const job = await LeadImportService.getImport(importId)
+    if (!job || (!isSuperAdmin && job.requestedBy.toString() !== user._id.toString())) {
+      return NextResponse.json({
+        success: false,
+        error: 'Import not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: LeadImportService.toJobResponse(job),
+      message: 'Lead import retrieved successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error fetching lead import:', error)
+    if (error instanceof Response) {
+      return error
+    }
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid import ID'
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to fetch lead import'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { leadImportRequestSchema } from "@/lib/validations/lead"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { LeadImportService } from "@/lib/services/lead-import-service"
+
+// POST /api/leads/imports/preview - Validate a mapped spreadsheet and find duplicates without importing
+export async function POST(request: NextRequest) {
+  try {
+    const { user, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'leads', 'create')
+
+    const body = await request.json()
+    const validatedData = leadImportRequestSchema.parse(body)
+
+    const preview = await LeadImportService.preview(validatedData, isSuperAdmin ? undefined : user._id.toString())
+
+    return NextResponse.json({
+      success: true,
+      data: preview,
+      message: 'Import preview ready'
+    })
+
+  } catch (error: any) {
+    console.error('Error previewing lead import:', error)
+    if (error instanceof Response) {
+      return error
+    }
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid import data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to preview lead import'
+    }, { status: 500 })
+  }
+}
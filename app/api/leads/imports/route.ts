@@ -0,0 +1,92 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { executeGenericDbQuery } from "@/lib/mongodb"
+import User from "@/models/User"
+import { leadImportRequestSchema } from "@/lib/validations/lead"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { LeadImportService } from "@/lib/services/lead-import-service"
+
+// GET /api/leads/imports - The current user's recent lead imports
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await genericApiRoutesMiddleware(request, 'leads', 'create')
+
+    const imports = await LeadImportService.listImports(user._id.toString())
+
+    return NextResponse.json({
+      success: true,
+      data: imports,
+      message: 'Lead imports retrieved successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error fetching lead imports:', error)
+    if (error instanceof Response) {
+      return error
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to fetch lead imports'
+    }, { status: 500 })
+  }
+}
+
+// POST /api/leads/imports - Queue a spreadsheet of leads for import in the background
+export async function POST(request: NextRequest) {
+  try {
+    const { user, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'leads', 'create')
+
+    // Same rule as creating a single lead
+    if (!isSuperAdmin) {
+      const salesUser = await executeGenericDbQuery(async () => {
+        return await User.findById(user._id).populate('department', 'name')
+      })
+
+      const deptName = (salesUser?.department as any)?.name?.toLowerCase()
+      if (deptName !== 'sales') {
+        return NextResponse.json({
+          success: false,
+          error: 'Access denied. Only sales department members can import leads.'
+        }, { status: 403 })
+      }
+    }
+
+    const body = await request.json()
+    const validatedData = leadImportRequestSchema.parse(body)
+
+    const job = await LeadImportService.createImport(validatedData, user._id.toString(), isSuperAdmin)
+
+    // Run after the response; the lead-imports cron picks up anything left pending
+    setImmediate(async () => {
+      try {
+        await LeadImportService.processImport(String(job._id))
+      } catch (error) {
+        console.error(`Background lead import ${job._id} failed:`, error)
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: LeadImportService.toJobResponse(job),
+      message: 'Import started'
+    }, { status: 202 })
+
+  } catch (error: any) {
+    console.error('Error starting lead import:', error)
+    if (error instanceof Response) {
+      return error
+    }
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid import data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to start lead import'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,65 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { updateLeadPipelineSchema } from "@/lib/validations/lead"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { LeadPipelineService } from "@/lib/services/lead-pipeline-service"
+
+// GET /api/leads/pipeline - Pipeline stages for the leads board, defaults included
+export async function GET(request: NextRequest) {
+  try {
+    await genericApiRoutesMiddleware(request, 'leads', 'read')
+
+    const pipeline = await LeadPipelineService.getPipeline()
+
+    return NextResponse.json({
+      success: true,
+      data: pipeline,
+      message: 'Lead pipeline retrieved successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error fetching lead pipeline:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to fetch lead pipeline'
+    }, { status: 500 })
+  }
+}
+
+// PUT /api/leads/pipeline - Replace the pipeline stages; null restores the defaults
+export async function PUT(request: NextRequest) {
+  try {
+    // The pipeline is shared by every sales agent, so it is a settings change
+    const { userEmail } = await genericApiRoutesMiddleware(request, 'settings', 'update')
+
+    const body = await request.json()
+    const validatedData = updateLeadPipelineSchema.parse(body)
+
+    const pipeline = await LeadPipelineService.updatePipeline(
+      validatedData.pipeline?.stages ?? null,
+      userEmail
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: pipeline,
+      message: 'Lead pipeline updated successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error updating lead pipeline:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to update lead pipeline'
+    }, { status: 500 })
+  }
+}
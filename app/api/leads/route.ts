@@ -6,6 +6,9 @@ import User from "@/models/User"
 import { createLeadSchema, leadQuerySchema } from "@/lib/validations/lead"
 import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
 import { addSoftDeleteFilter } from "@/lib/utils/soft-delete"
+import { LeadPipelineService } from "@/lib/services/lead-pipeline-service"
+import { LeadScoringService } from "@/lib/services/lead-scoring-service"
+import { LeadDuplicateService } from "@/lib/services/lead-duplicate-service"
 
 // Cache TTL for lead queries
 const CACHE_TTL = 30000 // 30 seconds for volatile lead data
@@ -23,6 +26,7 @@ export async function GET(request: NextRequest) {
       limit: searchParams.get('limit') || '10',
       search: searchParams.get('search') || '',
       status: searchParams.get('status') || '',
+      stage: searchParams.get('stage') || undefined,
       source: searchParams.get('source') || '',
       priority: searchParams.get('priority') || '',
       createdBy: searchParams.get('createdBy') || undefined,
@@ -79,6 +83,13 @@ export async function GET(request: NextRequest) {
       filter.status = validatedParams.status
     }
 
+    // Pipeline stage filter
+    if (validatedParams.stage) {
+      // $and so it doesn't clash with the search $or
+      const stageFilter = await LeadPipelineService.buildStageFilter(validatedParams.stage)
+      filter.$and = [...(filter.$and || []), stageFilter]
+    }
+
     // Source filter
     if (validatedParams.source) {
       filter.source = validatedParams.source
@@ -246,14 +257,22 @@ export async function POST(request: NextRequest) {
         throw new Error('A user with this email already exists')
       }
 
+      // New leads start in the pipeline's first open stage
+      const initialStage = await LeadPipelineService.getInitialStage()
+      const now = new Date()
+
       // Create new lead
       const newLead = new Lead({
         ...validatedData,
         createdBy: new mongoose.Types.ObjectId(user._id),
         source: validatedData.source || 'website',
         priority: validatedData.priority || 'medium',
-        status: validatedData.status || 'active'
+        status: validatedData.status || 'active',
+        stage: initialStage.key,
+        stageChangedAt: now,
+        stageHistory: [{ stage: initialStage.key, changedAt: now, changedBy: user._id }]
       })
+      await LeadScoringService.applyScore(newLead)
 
       return await newLead.save()
     })
@@ -268,10 +287,19 @@ export async function POST(request: NextRequest) {
         .lean()
     })
 
+    // Possible duplicates don't block creation; they come back as a warning
+    const duplicates = await LeadDuplicateService.findDuplicates(validatedData, {
+      excludeId: String(lead._id),
+      viewerId: isSuperAdmin ? undefined : user._id.toString()
+    })
+
     return NextResponse.json({
       success: true,
       data: populatedLead,
-      message: 'Lead created successfully'
+      duplicates,
+      message: duplicates.length
+        ? `Lead created successfully. ${duplicates.length} possible duplicate${duplicates.length === 1 ? '' : 's'} found.`
+        : 'Lead created successfully'
     }, { status: 201 })
 
   } catch (error: any) {
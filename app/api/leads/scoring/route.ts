@@ -0,0 +1,62 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { updateLeadScoringSchema } from "@/lib/validations/lead"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { LeadScoringService } from "@/lib/services/lead-scoring-service"
+
+// GET /api/leads/scoring - Lead scoring rules, defaults included
+export async function GET(request: NextRequest) {
+  try {
+    await genericApiRoutesMiddleware(request, 'leads', 'read')
+
+    const scoring = await LeadScoringService.getConfig()
+
+    return NextResponse.json({
+      success: true,
+      data: scoring,
+      message: 'Lead scoring rules retrieved successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error fetching lead scoring rules:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to fetch lead scoring rules'
+    }, { status: 500 })
+  }
+}
+
+// PUT /api/leads/scoring - Replace the scoring rules and rescore every lead; null restores the defaults
+export async function PUT(request: NextRequest) {
+  try {
+    // The rules apply to every sales agent's leads, so it is a settings change
+    const { userEmail } = await genericApiRoutesMiddleware(request, 'settings', 'update')
+
+    const body = await request.json()
+    const validatedData = updateLeadScoringSchema.parse(body)
+
+    const scoring = await LeadScoringService.updateConfig(validatedData.scoring, userEmail)
+
+    return NextResponse.json({
+      success: true,
+      data: scoring,
+      message: 'Lead scoring rules updated successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error updating lead scoring rules:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to update lead scoring rules'
+    }, { status: 500 })
+  }
+}
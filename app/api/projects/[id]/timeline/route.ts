@@ -0,0 +1,49 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { projectIdSchema } from "@/lib/validations/project"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { ScheduleService } from "@/lib/services/schedule-service"
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/projects/[id]/timeline - Phases, milestones and tasks for the Gantt view
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { isSuperAdmin } = await genericApiRoutesMiddleware(request, 'projects', 'read')
+
+    const resolvedParams = await params
+    const validatedParams = projectIdSchema.parse({ id: resolvedParams.id })
+
+    const timeline = await ScheduleService.getTimeline(validatedParams.id, isSuperAdmin || false)
+
+    if (!timeline) {
+      return NextResponse.json({
+        success: false,
+        error: 'Project not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: timeline,
+      message: 'Project timeline retrieved successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error fetching project timeline:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid project ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to fetch project timeline'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,97 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { projectIdSchema, updateProjectWorkflowSchema } from "@/lib/validations/project"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { TaskWorkflowService } from "@/lib/services/task-workflow-service"
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/projects/[id]/workflow - Task statuses for the project, defaults included
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    await genericApiRoutesMiddleware(request, 'projects', 'read')
+
+    const resolvedParams = await params
+    const validatedParams = projectIdSchema.parse({ id: resolvedParams.id })
+
+    const workflow = await TaskWorkflowService.getWorkflow(validatedParams.id)
+
+    return NextResponse.json({
+      success: true,
+      data: workflow,
+      message: 'Project workflow retrieved successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error fetching project workflow:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid project ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error.message === 'Project not found') {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to fetch project workflow'
+    }, { status: 500 })
+  }
+}
+
+// PUT /api/projects/[id]/workflow - Replace the project's statuses; null restores the defaults
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    await genericApiRoutesMiddleware(request, 'projects', 'update')
+
+    const resolvedParams = await params
+    const validatedParams = projectIdSchema.parse({ id: resolvedParams.id })
+    const body = await request.json()
+    const validatedData = updateProjectWorkflowSchema.parse(body)
+
+    // Make sure the project exists before rewriting its tasks
+    await TaskWorkflowService.getWorkflow(validatedParams.id)
+    const workflow = await TaskWorkflowService.updateWorkflow(
+      validatedParams.id,
+      validatedData.workflow?.statuses ?? null
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: workflow,
+      message: 'Project workflow updated successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error updating project workflow:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error.message === 'Project not found') {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to update project workflow'
+    }, { status: 500 })
+  }
+}
@@ -5,6 +5,11 @@ import User from "@/models/User"
 import { updateTaskSchema, taskIdSchema, assignTaskSchema, updateTaskStatusSchema } from "@/lib/validations/task"
 import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
 import { performSoftDelete, addSoftDeleteFilter } from "@/lib/utils/soft-delete"
+import { TaskDependencyService } from "@/lib/services/task-dependency-service"
+import { TaskRecurrenceService } from "@/lib/services/task-recurrence-service"
+import { TaskWorkflowService, type WorkflowStatusChange } from "@/lib/services/task-workflow-service"
+import { getTaskWorkflowStatus } from "@/lib/utils/task-workflow"
+import { TaskOperationsService } from "@/lib/services/task-operations-service"
 import mongoose from 'mongoose'
 
 interface RouteParams {
@@ -69,9 +74,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       }, { status: 404 })
     }
 
+    const [taskWithBlockers] = await TaskDependencyService.annotateBlocked([task])
+
     return NextResponse.json({
       success: true,
-      data: task,
+      data: taskWithBlockers,
       message: 'Task retrieved successfully'
     })
 
@@ -122,6 +129,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     }
 
     const validatedData = updateTaskSchema.parse(processedData)
+    let becameCompleted = false
 
     // Update task with automatic connection management
     const updatedTask = await executeGenericDbQuery(async () => {
@@ -147,6 +155,18 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         throw new Error('Task not found or access denied')
       }
 
+      // Resolve the requested status against the project's workflow
+      const statusChange = await TaskWorkflowService.resolveChange(existingTask, {
+        status: validatedData.status,
+        workflowStatus: validatedData.workflowStatus,
+      })
+      if (statusChange) {
+        validatedData.status = statusChange.status
+        validatedData.workflowStatus = statusChange.to.key
+      } else {
+        delete validatedData.workflowStatus
+      }
+
       // Permission checks for updates (super admin bypasses all)
       if (!isSuperAdmin) {
         const isLeadOrManager = ['department_lead', 'manager'].includes(user.role?.name)
@@ -188,16 +208,54 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         validatedData.assignedBy = user.id as any
       }
 
+      if (validatedData.dependencies !== undefined) {
+        validatedData.dependencies = await TaskDependencyService.validateDependencies(
+          validatedParams.id,
+          existingTask.projectId.toString(),
+          validatedData.dependencies
+        )
+      }
+
+      if (validatedData.recurrence) {
+        validatedData.recurrence = TaskRecurrenceService.normalize(
+          validatedData.recurrence,
+          existingTask.recurrence,
+          validatedData.dueDate ?? existingTask.dueDate
+        ) as any
+      }
+
       // Status-specific logic
       if (validatedData.status && validatedData.status !== existingTask.status) {
+        await TaskDependencyService.assertCanTransition(
+          { _id: validatedParams.id, dependencies: validatedData.dependencies ?? existingTask.dependencies },
+          validatedData.status
+        )
+
         // Set completion time for completed status
         if (validatedData.status === 'completed') {
           validatedData.completedAt = new Date() as any
+          becameCompleted = true
         } else {
           validatedData.completedAt = undefined as any
         }
       }
 
+      // Moving into another column or department counts against its WIP limit
+      const targetDepartmentId = validatedData.departmentId ?? existingTask.departmentId?.toString()
+      if (!existingTask.parentTaskId && (statusChange || targetDepartmentId !== existingTask.departmentId?.toString())) {
+        const targetStatus = statusChange?.to
+          ?? getTaskWorkflowStatus(existingTask, (await TaskWorkflowService.getWorkflow(existingTask.projectId.toString())).statuses)
+        await TaskWorkflowService.assertWipLimit(
+          { projectId: existingTask.projectId, departmentId: targetDepartmentId },
+          targetStatus,
+          [validatedParams.id]
+        )
+      }
+
+      if (statusChange) {
+        await recordStatusChange(validatedParams.id, existingTask, statusChange, user)
+      }
+
       // Update the task
       const updated = await Task.findByIdAndUpdate(
         validatedParams.id,
@@ -247,9 +305,15 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     clearCache(`task-${validatedParams.id}`)
     clearCache(`project-${updatedTask.projectId}`)
 
+    if (becameCompleted) {
+      await generateNextOccurrence(validatedParams.id)
+    }
+
+    const [taskWithBlockers] = await TaskDependencyService.annotateBlocked([updatedTask.toObject()])
+
     return NextResponse.json({
       success: true,
-      data: updatedTask,
+      data: taskWithBlockers,
       message: 'Task updated successfully'
     })
 
@@ -264,6 +328,37 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       }, { status: 400 })
     }
 
+    if (error.message?.includes('blocked by unfinished dependencies')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: 'TASK_BLOCKED'
+      }, { status: 409 })
+    }
+
+    if (error.message?.includes("not allowed by this project's workflow")) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: 'TRANSITION_NOT_ALLOWED'
+      }, { status: 409 })
+    }
+
+    if (error.message?.includes('WIP limit')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: 'WIP_LIMIT_EXCEEDED'
+      }, { status: 409 })
+    }
+
+    if (/depend|recurr|workflow/i.test(error.message || '')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
     return NextResponse.json({
       success: false,
       error: error.message || 'Failed to update task'
@@ -457,6 +552,7 @@ async function handleUpdateStatus(taskId: string, body: any, user: any, isSuperA
       status: body.status,
       actualHours: body.actualHours
     })
+    let becameCompleted = false
 
     const updatedTask = await executeGenericDbQuery(async () => {
       const existingTask = await Task.findById(taskId)
@@ -477,13 +573,32 @@ async function handleUpdateStatus(taskId: string, body: any, user: any, isSuperA
         }
       }
 
+      const statusChange = await TaskWorkflowService.resolveChange(existingTask, validatedData)
+      const status = statusChange?.status ?? validatedData.status ?? existingTask.status
+
+      if (status !== existingTask.status) {
+        await TaskDependencyService.assertCanTransition(existingTask, status)
+        becameCompleted = status === 'completed'
+      }
+
+      if (statusChange && !existingTask.parentTaskId) {
+        await TaskWorkflowService.assertWipLimit(existingTask, statusChange.to, [taskId])
+      }
+
+      if (statusChange) {
+        await recordStatusChange(taskId, existingTask, statusChange, user)
+      }
+
       const updateData: any = {
-        status: validatedData.status,
+        status,
         updatedAt: new Date()
       }
+      if (statusChange) {
+        updateData.workflowStatus = statusChange.to.key
+      }
 
       // Handle completion
-      if (validatedData.status === 'completed') {
+      if (status === 'completed') {
         updateData.completedAt = new Date()
         if (validatedData.actualHours) {
           updateData.actualHours = validatedData.actualHours
@@ -512,6 +627,10 @@ async function handleUpdateStatus(taskId: string, body: any, user: any, isSuperA
       clearCache(`project-${updatedTask.projectId}`)
     }
 
+    if (becameCompleted) {
+      await generateNextOccurrence(taskId)
+    }
+
     return NextResponse.json({
       success: true,
       data: updatedTask,
@@ -521,9 +640,67 @@ async function handleUpdateStatus(taskId: string, body: any, user: any, isSuperA
   } catch (error: any) {
     console.error('Error updating task status:', error)
 
+    if (error.message?.includes('blocked by unfinished dependencies')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: 'TASK_BLOCKED'
+      }, { status: 409 })
+    }
+
+    if (error.message?.includes("not allowed by this project's workflow")) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: 'TRANSITION_NOT_ALLOWED'
+      }, { status: 409 })
+    }
+
+    if (error.message?.includes('WIP limit')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: 'WIP_LIMIT_EXCEEDED'
+      }, { status: 409 })
+    }
+
+    if (error.name === 'ZodError' || /workflow/i.test(error.message || '')) {
+      return NextResponse.json({
+        success: false,
+        error: error.name === 'ZodError' ? 'Validation failed' : error.message,
+        details: error.errors
+      }, { status: 400 })
+    }
+
     return NextResponse.json({
       success: false,
       error: error.message || 'Failed to update task status'
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+// Completing a recurring task creates its next instance; the completion stands if that fails
+async function generateNextOccurrence(taskId: string) {
+  try {
+    await TaskRecurrenceService.generateNext(taskId)
+  } catch (error) {
+    console.error('Failed to generate next recurring task:', error)
+  }
+}
+
+// Moves between workflow statuses go through the operations service, which enforces the project's transitions
+async function recordStatusChange(taskId: string, task: any, change: WorkflowStatusChange, user: any) {
+  if (change.from.key === change.to.key) return
+
+  await TaskOperationsService.handleTaskStatusChange({
+    type: 'status_change',
+    category: 'status',
+    userId: user.id,
+    userName: user.name || user.email,
+    taskId,
+    projectId: task.projectId.toString(),
+    departmentId: task.departmentId?.toString(),
+    previousState: { status: change.from.key },
+    newState: { status: change.to.key },
+  })
+}
@@ -3,13 +3,21 @@ import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
 import { executeGenericDbQuery } from '@/lib/mongodb'
 import { clearCache } from '@/lib/mongodb'
 import Task from '@/models/Task'
+import { TASK_CONSTANTS } from '@/lib/validations/task'
+import { TaskDependencyService } from '@/lib/services/task-dependency-service'
+import { TaskWorkflowService, type WorkflowStatusChange } from '@/lib/services/task-workflow-service'
+import { TaskOperationsService } from '@/lib/services/task-operations-service'
+import { TaskRecurrenceService } from '@/lib/services/task-recurrence-service'
 import { z } from 'zod'
 
 // Validation schema for bulk order updates
 const bulkOrderUpdateSchema = z.object({
   updates: z.array(z.object({
     id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid task ID format'),
-    order: z.number().min(0, 'Order must be non-negative')
+    order: z.number().min(0, 'Order must be non-negative'),
+    // Cross-column moves carry the destination column
+    status: z.enum(TASK_CONSTANTS.STATUS.VALUES).optional(),
+    workflowStatus: z.string().trim().max(TASK_CONSTANTS.WORKFLOW_STATUS.MAX_LENGTH).optional()
   })).min(1, 'At least one update required').max(100, 'Too many updates at once')
 })
 
@@ -22,30 +30,91 @@ export async function PATCH(request: NextRequest) {
     const body = await request.json()
     const validatedData = bulkOrderUpdateSchema.parse(body)
 
+    // Security: only allow updating tasks user has access to
+    const accessFilter = {
+      $or: [
+        { createdBy: user.id },
+        { assigneeId: user.id },
+        ...(user.department && !['support', 'admin'].includes(user.department?.name?.toLowerCase())
+          ? [{ departmentId: user.departmentId }]
+          : [{}] // Super admin can update any task
+        )
+      ]
+    }
+
+    // Resolve cross-column moves against the workflow, dependencies and WIP limits before writing anything
+    const statusUpdates = new Map<string, { change: WorkflowStatusChange; task: any }>()
+    const movedUpdates = validatedData.updates.filter(update => update.status || update.workflowStatus)
+    if (movedUpdates.length > 0) {
+      const movedTasks = await executeGenericDbQuery(async () => {
+        return await Task.find({ _id: { $in: movedUpdates.map(update => update.id) }, ...accessFilter })
+      }) as any[]
+
+      const columns = new Map<string, { task: any; to: WorkflowStatusChange['to']; taskIds: string[] }>()
+      for (const update of movedUpdates) {
+        const task = movedTasks.find(movedTask => movedTask._id.toString() === update.id)
+        if (!task) continue
+
+        const change = await TaskWorkflowService.resolveChange(task, update)
+        if (!change) continue
+
+        TaskWorkflowService.assertTransition(change.from, change.to)
+        if (change.status !== task.status) {
+          await TaskDependencyService.assertCanTransition(task, change.status)
+        }
+        statusUpdates.set(update.id, { change, task })
+
+        if (!task.parentTaskId) {
+          const columnKey = `${task.projectId}::${task.departmentId}::${change.to.key}`
+          const column = columns.get(columnKey) || { task, to: change.to, taskIds: [] }
+          column.taskIds.push(update.id)
+          columns.set(columnKey, column)
+        }
+      }
+
+      for (const { task, to, taskIds } of columns.values()) {
+        await TaskWorkflowService.assertWipLimit(task, to, taskIds)
+      }
+
+      for (const [taskId, { change, task }] of statusUpdates) {
+        await TaskOperationsService.handleTaskStatusChange({
+          type: 'status_change',
+          category: 'status',
+          userId: user.id,
+          userName: user.name || userEmail,
+          taskId,
+          projectId: task.projectId.toString(),
+          departmentId: task.departmentId?.toString(),
+          previousState: { status: change.from.key },
+          newState: { status: change.to.key },
+        })
+      }
+    }
+
     // Update task orders in bulk
     const updatedTasks = await executeGenericDbQuery(async () => {
-      const bulkOps = validatedData.updates.map(update => ({
-        updateOne: {
-          filter: { 
-            _id: update.id,
-            // Security: only allow updating tasks user has access to
-            $or: [
-              { createdBy: user.id },
-              { assigneeId: user.id },
-              ...(user.department && !['support', 'admin'].includes(user.department?.name?.toLowerCase())
-                ? [{ departmentId: user.departmentId }]
-                : [{}] // Super admin can update any task
-              )
-            ]
-          },
-          update: { 
-            $set: { 
-              order: update.order,
-              updatedAt: new Date()
-            }
+      const bulkOps = validatedData.updates.map(update => {
+        const statusUpdate = statusUpdates.get(update.id)
+        const $set: Record<string, any> = {
+          order: update.order,
+          updatedAt: new Date()
+        }
+        if (statusUpdate) {
+          const { change, task } = statusUpdate
+          $set.status = change.status
+          $set.workflowStatus = change.to.key
+          if (change.status !== task.status) {
+            $set.completedAt = change.status === 'completed' ? new Date() : undefined
           }
         }
-      }))
+
+        return {
+          updateOne: {
+            filter: { _id: update.id, ...accessFilter },
+            update: { $set }
+          }
+        }
+      })
 
       const result = await Task.bulkWrite(bulkOps)
       
@@ -53,9 +122,20 @@ export async function PATCH(request: NextRequest) {
       const taskIds = validatedData.updates.map(u => u.id)
       return await Task.find({ 
         _id: { $in: taskIds } 
-      }).select('_id title status departmentId projectId order')
+      }).select('_id title status workflowStatus completedAt departmentId projectId order')
 
-    }, `bulk-order-${validatedData.updates.map(u => u.id).join('-')}`, 5000) // Short cache for bulk operations
+    })
+
+    // Completing a recurring task creates its next instance; the move stands if that fails
+    for (const [taskId, { change, task }] of statusUpdates) {
+      if (change.status === 'completed' && task.status !== 'completed') {
+        try {
+          await TaskRecurrenceService.generateNext(taskId)
+        } catch (error) {
+          console.error('Failed to generate next recurring task:', error)
+        }
+      }
+    }
 
     // Clear relevant cache patterns
     clearCache('tasks')
@@ -83,6 +163,37 @@ export async function PATCH(request: NextRequest) {
       }, { status: 400 })
     }
 
+    if (error.message?.includes('blocked by unfinished dependencies')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: 'TASK_BLOCKED'
+      }, { status: 409 })
+    }
+
+    if (error.message?.includes("not allowed by this project's workflow")) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: 'TRANSITION_NOT_ALLOWED'
+      }, { status: 409 })
+    }
+
+    if (error.message?.includes('WIP limit')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: 'WIP_LIMIT_EXCEEDED'
+      }, { status: 409 })
+    }
+
+    if (/workflow/i.test(error.message || '')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
     return NextResponse.json({
       success: false,
       error: error.message || 'Failed to update task order'
@@ -1,11 +1,13 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { executeGenericDbQuery, clearCache } from "@/lib/mongodb"
+import { executeGenericDbQuery } from "@/lib/mongodb"
 import Task from "@/models/Task"
 import Project from "@/models/Project"
-import User from "@/models/User"
 import { createTaskSchema, taskQuerySchema, taskHierarchyQuerySchema } from "@/lib/validations/task"
 import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
 import { addSoftDeleteFilter } from "@/lib/utils/soft-delete"
+import { TaskDependencyService } from "@/lib/services/task-dependency-service"
+import { TaskService } from "@/lib/services/task-service"
+import { announceTaskFromMessage, getSourceMessage } from "@/lib/communication/task-links"
 import mongoose from 'mongoose'
 
 // GET /api/tasks - List with pagination and filtering
@@ -293,9 +295,12 @@ export async function GET(request: NextRequest) {
       }, `tasks-stats-${JSON.stringify(filter)}`, 300000) // 5-minute cache for stats
     ])
 
+    // Blocked state depends on other tasks' live status, so it is derived after the cached read
+    const tasksWithBlockers = await TaskDependencyService.annotateBlocked(tasks)
+
     return NextResponse.json({
       success: true,
-      data: tasks,
+      data: tasksWithBlockers,
       pagination: {
         page: validatedParams.page,
         limit: validatedParams.limit,
@@ -350,102 +355,35 @@ export async function POST(request: NextRequest) {
 
     const validatedData = createTaskSchema.parse(processedData)
 
-    // Create task with automatic connection management
-    const task = await executeGenericDbQuery(async () => {
-      // Verify project exists (super admin can create tasks for any project)
-      const project = await Project.findOne({
-        _id: validatedData.projectId,
-        status: { $ne: 'inactive' }
-      })
-
-      if (!project) {
-        throw new Error('Project not found')
-      }
-
-      // For non-super-admin users, verify project is approved and department is assigned
-      if (!isSuperAdmin) {
-        if (!['approved', 'active'].includes(project.status)) {
-          throw new Error('Project not found or not approved')
-        }
-
-        // Verify department is assigned to the project
-        if (!project.departmentIds.some((deptId: any) => deptId.toString() === validatedData.departmentId)) {
-          throw new Error('Department is not assigned to this project')
-        }
-      }
-
-      // For sub-tasks, verify parent task exists and belongs to same project/department
-      if (validatedData.type === 'sub-task' && validatedData.parentTaskId) {
-        const parentTask = await Task.findOne({
-          _id: validatedData.parentTaskId,
-          projectId: validatedData.projectId,
-          departmentId: validatedData.departmentId,
-          type: 'task'
-        })
-
-        if (!parentTask) {
-          throw new Error('Parent task not found or invalid')
-        }
-      }
-
-      // Verify assignee belongs to the department (if provided)
-      if (validatedData.assigneeId) {
-        const assignee = await User.findOne({
-          _id: validatedData.assigneeId,
-          department: validatedData.departmentId,
-          status: 'active'
-        })
-
-        if (!assignee) {
-          throw new Error('Assignee not found or not in the task department')
-        }
-      }
-
-      // Permission checks
-      const userDepartment = user.department?.name?.toLowerCase()
-      const isSupport = ['support', 'admin'].includes(userDepartment)
-      const isLeadOrManager = ['department_lead', 'manager'].includes(user.role?.name)
-      
-      // Super admin can create any tasks, support team, department leads, and managers can create main tasks
-      if (validatedData.type === 'task' && !isSuperAdmin && !isSupport && !isLeadOrManager) {
-        throw new Error('Only support team and department leads can create main tasks')
-      }
-
-      // Department leads can only create tasks in their department (super admin and support bypass this)
-      if (!isSuperAdmin && !isSupport && user.department?.toString() !== validatedData.departmentId) {
-        throw new Error('You can only create tasks in your department')
+    // Task created from a chat message: the creator must be able to see it
+    let sourceMessage: { messageId: string; channelId: string; channelName: string } | undefined
+    if (validatedData.sourceMessage) {
+      const message = await getSourceMessage(
+        validatedData.sourceMessage.messageId,
+        user.id,
+        validatedData.sourceMessage.channelId
+      )
+      if (!message) {
+        return NextResponse.json({
+          success: false,
+          error: 'Source message not found'
+        }, { status: 404 })
       }
-
-      // Create the task
-      const newTask = new Task({
-        ...validatedData,
-        createdBy: user.id,
-        assignedBy: validatedData.assigneeId ? user.id : undefined
-      })
-
-      const savedTask = await newTask.save()
-
-      // Sync assignee to project channel if task has both assignee and project
-      if (validatedData.assigneeId && validatedData.projectId) {
-        try {
-          const { channelSyncManager } = await import('@/lib/communication/channel-sync-manager')
-          await channelSyncManager.syncAssigneeToProjectChannel(
-            validatedData.assigneeId,
-            validatedData.projectId,
-            user.id
-          )
-        } catch (syncError) {
-          console.warn('Failed to sync assignee to project channel:', syncError)
-          // Don't block task creation if sync fails
-        }
+      sourceMessage = {
+        messageId: message.id,
+        channelId: message.channel_id,
+        channelName: message.channels?.name || ''
       }
+    }
 
-      return savedTask
-    })
+    // Create task with automatic connection management
+    const task: any = await TaskService.create({ ...validatedData, sourceMessage }, { user, isSuperAdmin })
 
-    // Clear relevant cache patterns after creation
-    clearCache('tasks')
-    clearCache(`project-${validatedData.projectId}`)
+    if (sourceMessage) {
+      const creatorName = user?.name || user?.email || 'Someone'
+      announceTaskFromMessage(task, sourceMessage, creatorName)
+        .catch(err => console.error('Failed to announce task in channel:', err))
+    }
 
     return NextResponse.json({
       success: true,
@@ -464,6 +402,21 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    if (error.message?.includes('blocked by unfinished dependencies')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: 'TASK_BLOCKED'
+      }, { status: 409 })
+    }
+
+    if (/depend|recurr|workflow/i.test(error.message || '')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
     return NextResponse.json({
       success: false,
       error: error.message || 'Failed to create task'
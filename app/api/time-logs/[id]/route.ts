@@ -0,0 +1,252 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { executeGenericDbQuery, clearCache } from "@/lib/mongodb"
+import TimeLog from "@/models/TimeLog"
+import { updateTimeLogSchema, timeLogIdSchema } from "@/lib/validations/timeLog"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { TimeLogService } from "@/lib/services/time-log-service"
+import { TimesheetService } from "@/lib/services/timesheet-service"
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// Helper to find a time log the caller is allowed to see
+async function findAccessibleTimeLog(id: string, user: any, isSuperAdmin: boolean, applyFilters: (baseQuery: any) => Promise<any>) {
+  const userId = (user._id || user.id).toString()
+  const accessFilter = await TimeLogService.buildAccessFilter(userId, applyFilters, isSuperAdmin)
+
+  return await TimeLog.findOne({ _id: id, isDeleted: false, ...accessFilter })
+}
+
+// Helper to decide whether the caller may change someone's time log
+function canManageTimeLog(timeLog: any, user: any, isSuperAdmin: boolean) {
+  if (isSuperAdmin) return true
+
+  const userId = (user._id || user.id).toString()
+  const userDepartment = user.department?.name?.toLowerCase()
+  const isSupport = ['support', 'admin'].includes(userDepartment)
+  const isLeadOrManager = ['department_lead', 'manager'].includes(user.role?.name)
+
+  return timeLog.userId.toString() === userId || isSupport || isLeadOrManager
+}
+
+// GET /api/time-logs/[id] - Get time log by ID
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, isSuperAdmin, applyFilters } = await genericApiRoutesMiddleware(request, 'tasks', 'read')
+
+    const resolvedParams = await params
+    const validatedParams = timeLogIdSchema.parse({ id: resolvedParams.id })
+
+    const timeLog = await executeGenericDbQuery(async () => {
+      const found = await findAccessibleTimeLog(validatedParams.id, user, isSuperAdmin || false, applyFilters)
+      if (!found) return null
+
+      return await TimeLog.findById(found._id)
+        .populate('user', 'name email avatar')
+        .populate('approver', 'name email')
+        .populate('task', 'title')
+        .populate('project', 'name')
+        .lean()
+    })
+
+    if (!timeLog) {
+      return NextResponse.json({
+        success: false,
+        error: 'Time log not found or access denied'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: timeLog,
+      message: 'Time log retrieved successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error fetching time log:', error)
+
+    if (error instanceof Response) {
+      return error
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid time log ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to fetch time log'
+    }, { status: 500 })
+  }
+}
+
+// PUT /api/time-logs/[id] - Update time log
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, isSuperAdmin, applyFilters } = await genericApiRoutesMiddleware(request, 'tasks', 'update')
+
+    const resolvedParams = await params
+    const validatedParams = timeLogIdSchema.parse({ id: resolvedParams.id })
+    const body = await request.json()
+
+    const processedData = {
+      ...body,
+      hours: body.hours !== undefined && body.hours !== '' ? parseFloat(body.hours) : undefined,
+    }
+
+    const validatedData = updateTimeLogSchema.parse(processedData)
+
+    const updatedLog = await executeGenericDbQuery(async () => {
+      const existingLog = await findAccessibleTimeLog(validatedParams.id, user, isSuperAdmin || false, applyFilters)
+
+      if (!existingLog) {
+        throw new Error('Time log not found or access denied')
+      }
+
+      if (!canManageTimeLog(existingLog, user, isSuperAdmin || false)) {
+        throw new Error('You can only update your own time logs')
+      }
+
+      const updateData: any = { ...validatedData }
+
+      // Approval goes through the timesheet workflow; approved entries are frozen
+      if (existingLog.isApproved) {
+        throw new Error('Approved time logs cannot be changed')
+      }
+
+      await TimesheetService.assertWeekEditable(existingLog.userId.toString(), existingLog.date)
+      if (updateData.date) {
+        await TimesheetService.assertWeekEditable(existingLog.userId.toString(), updateData.date)
+      }
+
+      if (updateData.date && updateData.date > new Date()) {
+        throw new Error('Date cannot be in the future')
+      }
+
+      existingLog.set(updateData)
+      return await existingLog.save()
+    })
+
+    const rollup = await TimeLogService.syncRollups(updatedLog.taskId.toString(), updatedLog.projectId.toString())
+
+    const populatedLog = await executeGenericDbQuery(async () => {
+      return await TimeLog.findById(updatedLog._id)
+        .populate('user', 'name email avatar')
+        .populate('approver', 'name email')
+        .populate('task', 'title')
+        .lean()
+    })
+
+    clearCache(`time-log-${validatedParams.id}`)
+
+    return NextResponse.json({
+      success: true,
+      data: populatedLog,
+      rollup,
+      message: 'Time log updated successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error updating time log:', error)
+
+    if (error instanceof Response) {
+      return error
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error.message?.includes('cannot be changed')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to update time log'
+    }, { status: 500 })
+  }
+}
+
+// DELETE /api/time-logs/[id] - Soft delete time log
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, isSuperAdmin, applyFilters } = await genericApiRoutesMiddleware(request, 'tasks', 'update')
+
+    const resolvedParams = await params
+    const validatedParams = timeLogIdSchema.parse({ id: resolvedParams.id })
+    const userId = (user._id || user.id).toString()
+
+    const deletedLog = await executeGenericDbQuery(async () => {
+      const existingLog = await findAccessibleTimeLog(validatedParams.id, user, isSuperAdmin || false, applyFilters)
+
+      if (!existingLog) {
+        throw new Error('Time log not found or access denied')
+      }
+
+      if (!canManageTimeLog(existingLog, user, isSuperAdmin || false)) {
+        throw new Error('You can only delete your own time logs')
+      }
+
+      if (existingLog.isApproved) {
+        throw new Error('Approved time logs cannot be changed')
+      }
+
+      await TimesheetService.assertWeekEditable(existingLog.userId.toString(), existingLog.date)
+
+      return await TimeLog.softDelete(validatedParams.id, userId)
+    })
+
+    const rollup = deletedLog
+      ? await TimeLogService.syncRollups(deletedLog.taskId.toString(), deletedLog.projectId.toString())
+      : undefined
+
+    clearCache(`time-log-${validatedParams.id}`)
+
+    return NextResponse.json({
+      success: true,
+      data: { _id: validatedParams.id },
+      rollup,
+      message: 'Time log deleted successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error deleting time log:', error)
+
+    if (error instanceof Response) {
+      return error
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid time log ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error.message?.includes('cannot be changed')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to delete time log'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,241 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { executeGenericDbQuery, clearCache } from "@/lib/mongodb"
+import TimeLog from "@/models/TimeLog"
+import Task from "@/models/Task"
+import { createTimeLogSchema, timeLogQuerySchema, TIME_LOG_CONSTANTS } from "@/lib/validations/timeLog"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { TimeLogService } from "@/lib/services/time-log-service"
+import { TimesheetService } from "@/lib/services/timesheet-service"
+import mongoose from 'mongoose'
+
+// GET /api/time-logs - List time logs with pagination and filtering
+export async function GET(request: NextRequest) {
+  try {
+    // Time logs follow the same permission filters as the tasks they belong to
+    const { user, isSuperAdmin, applyFilters } = await genericApiRoutesMiddleware(request, 'tasks', 'read')
+
+    const searchParams = request.nextUrl.searchParams
+    const queryParams = {
+      taskId: searchParams.get('taskId') || '',
+      projectId: searchParams.get('projectId') || '',
+      userId: searchParams.get('userId') || '',
+      dateFrom: searchParams.get('dateFrom') || undefined,
+      dateTo: searchParams.get('dateTo') || undefined,
+      isApproved: searchParams.get('isApproved') || undefined,
+      page: searchParams.get('page') || '1',
+      limit: searchParams.get('limit') || String(TIME_LOG_CONSTANTS.PAGINATION.DEFAULT_LIMIT),
+      sortBy: searchParams.get('sortBy') || 'date',
+      sortOrder: searchParams.get('sortOrder') || 'desc',
+    }
+
+    const validatedParams = timeLogQuerySchema.parse(queryParams)
+    const limit = Math.min(validatedParams.limit, TIME_LOG_CONSTANTS.PAGINATION.MAX_LIMIT)
+    const page = Math.max(validatedParams.page, TIME_LOG_CONSTANTS.PAGINATION.MIN_PAGE)
+
+    // Build MongoDB filter
+    const filter: any = { isDeleted: false }
+
+    if (validatedParams.taskId) {
+      filter.taskId = new mongoose.Types.ObjectId(validatedParams.taskId)
+    }
+
+    if (validatedParams.projectId) {
+      filter.projectId = new mongoose.Types.ObjectId(validatedParams.projectId)
+    }
+
+    if (validatedParams.userId) {
+      filter.userId = new mongoose.Types.ObjectId(validatedParams.userId)
+    }
+
+    if (validatedParams.isApproved !== undefined) {
+      filter.isApproved = validatedParams.isApproved
+    }
+
+    // Date filtering
+    if (validatedParams.dateFrom || validatedParams.dateTo) {
+      filter.date = {}
+      if (validatedParams.dateFrom) {
+        filter.date.$gte = new Date(validatedParams.dateFrom)
+      }
+      if (validatedParams.dateTo) {
+        const to = new Date(validatedParams.dateTo)
+        // inclusive end of day adjustment
+        to.setHours(23, 59, 59, 999)
+        filter.date.$lte = to
+      }
+    }
+
+    const userId = (user._id || user.id).toString()
+    const accessFilter = await TimeLogService.buildAccessFilter(userId, applyFilters, isSuperAdmin)
+    const finalFilter = Object.keys(accessFilter).length > 0
+      ? { $and: [filter, accessFilter] }
+      : filter
+
+    // Build sort
+    const sort: any = {}
+    sort[validatedParams.sortBy] = validatedParams.sortOrder === 'asc' ? 1 : -1
+    sort.createdAt = -1
+
+    const [timeLogs, total, totals] = await Promise.all([
+      executeGenericDbQuery(async () => {
+        return await TimeLog.find(finalFilter)
+          .populate('user', 'name email avatar')
+          .populate('approver', 'name email')
+          .populate('task', 'title')
+          .sort(sort)
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .lean()
+      }, `time-logs-list-${JSON.stringify({ filter: finalFilter, sort, page, limit })}`, 30000),
+
+      executeGenericDbQuery(async () => {
+        return await TimeLog.countDocuments(finalFilter)
+      }, `time-logs-count-${JSON.stringify(finalFilter)}`, 30000),
+
+      executeGenericDbQuery(async () => {
+        const result = await TimeLog.aggregate([
+          { $match: finalFilter },
+          {
+            $group: {
+              _id: null,
+              totalHours: { $sum: '$hours' },
+              approvedHours: { $sum: { $cond: ['$isApproved', '$hours', 0] } },
+              timerHours: { $sum: { $cond: [{ $eq: ['$logType', 'timer'] }, '$hours', 0] } },
+              manualHours: { $sum: { $cond: [{ $eq: ['$logType', 'manual'] }, '$hours', 0] } },
+            }
+          }
+        ])
+        return result[0] || { totalHours: 0, approvedHours: 0, timerHours: 0, manualHours: 0 }
+      }, `time-logs-stats-${JSON.stringify(finalFilter)}`, 30000)
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: timeLogs,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      },
+      stats: {
+        totalHours: totals.totalHours,
+        approvedHours: totals.approvedHours,
+        timerHours: totals.timerHours,
+        manualHours: totals.manualHours,
+      },
+      message: 'Time logs retrieved successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error fetching time logs:', error)
+
+    if (error instanceof Response) {
+      return error
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to fetch time logs'
+    }, { status: 500 })
+  }
+}
+
+// POST /api/time-logs - Log time against a task
+export async function POST(request: NextRequest) {
+  try {
+    const { user, isSuperAdmin, applyFilters } = await genericApiRoutesMiddleware(request, 'tasks', 'update')
+
+    const body = await request.json()
+
+    const processedData = {
+      ...body,
+      hours: body.hours !== undefined ? parseFloat(body.hours) : undefined,
+    }
+
+    const validatedData = createTimeLogSchema.parse(processedData)
+    const userId = (user._id || user.id).toString()
+
+    const timeLog = await executeGenericDbQuery(async () => {
+      // Verify the task exists, belongs to the project and is visible to the caller
+      const taskQuery = isSuperAdmin
+        ? { _id: validatedData.taskId, isDeleted: { $ne: true } }
+        : await applyFilters({ _id: validatedData.taskId, isDeleted: { $ne: true } })
+
+      const task = await Task.findOne(taskQuery).select('projectId status').lean()
+
+      if (!task) {
+        throw new Error('Task not found or access denied')
+      }
+
+      if (task.projectId.toString() !== validatedData.projectId) {
+        throw new Error('Task does not belong to this project')
+      }
+
+      if (['cancelled', 'deleted'].includes(task.status)) {
+        throw new Error('Cannot log time on a cancelled task')
+      }
+
+      // Weeks that are submitted or approved no longer accept new entries
+      await TimesheetService.assertWeekEditable(userId, validatedData.date)
+
+      return await TimeLog.createTimeLog({
+        ...validatedData,
+        userId,
+      })
+    })
+
+    const rollup = await TimeLogService.syncRollups(validatedData.taskId, validatedData.projectId)
+
+    const populatedLog = await executeGenericDbQuery(async () => {
+      return await TimeLog.findById(timeLog._id)
+        .populate('user', 'name email avatar')
+        .populate('task', 'title')
+        .lean()
+    })
+
+    clearCache('time-logs')
+
+    return NextResponse.json({
+      success: true,
+      data: populatedLog,
+      rollup,
+      message: 'Time logged successfully'
+    }, { status: 201 })
+
+  } catch (error: any) {
+    console.error('Error creating time log:', error)
+
+    if (error instanceof Response) {
+      return error
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error.message?.includes('cannot be changed')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to create time log'
+    }, { status: 500 })
+  }
+}
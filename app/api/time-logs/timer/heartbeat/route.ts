@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { TimerService } from "@/lib/services/timer-service"
+
+// POST /api/time-logs/timer/heartbeat - Mark the caller as active so the timer is not auto-stopped
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await genericApiRoutesMiddleware(request, 'tasks', 'read')
+    const userId = (user._id || user.id).toString()
+
+    const timer = await TimerService.touchTimer(userId)
+
+    return NextResponse.json({
+      success: true,
+      data: timer,
+      message: timer ? 'Timer activity recorded' : 'No active timer'
+    })
+
+  } catch (error: any) {
+    console.error('Error recording timer activity:', error)
+
+    if (error instanceof Response) {
+      return error
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to record timer activity'
+    }, { status: 500 })
+  }
+}
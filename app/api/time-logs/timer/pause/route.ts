@@ -0,0 +1,38 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { TimerService } from "@/lib/services/timer-service"
+
+// POST /api/time-logs/timer/pause - Pause the caller's running timer
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await genericApiRoutesMiddleware(request, 'tasks', 'update')
+    const userId = (user._id || user.id).toString()
+
+    const timer = await TimerService.pauseTimer(userId)
+
+    return NextResponse.json({
+      success: true,
+      data: timer,
+      message: 'Timer paused successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error pausing timer:', error)
+
+    if (error instanceof Response) {
+      return error
+    }
+
+    if (error.message?.includes('No active timer') || error.message?.includes('idle')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to pause timer'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { TimerService } from "@/lib/services/timer-service"
+
+// GET /api/time-logs/timer - Get the caller's active timer (null when none)
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await genericApiRoutesMiddleware(request, 'tasks', 'read')
+    const userId = (user._id || user.id).toString()
+
+    const timer = await TimerService.getActiveTimer(userId)
+
+    return NextResponse.json({
+      success: true,
+      data: timer,
+      message: timer ? 'Active timer retrieved successfully' : 'No active timer'
+    })
+
+  } catch (error: any) {
+    console.error('Error fetching active timer:', error)
+
+    if (error instanceof Response) {
+      return error
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to fetch active timer'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,82 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { executeGenericDbQuery } from "@/lib/mongodb"
+import Task from "@/models/Task"
+import { startTimerSchema } from "@/lib/validations/timeLog"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { TimerService } from "@/lib/services/timer-service"
+
+// POST /api/time-logs/timer/start - Start (or resume) the caller's timer on a task
+export async function POST(request: NextRequest) {
+  try {
+    const { user, isSuperAdmin, applyFilters } = await genericApiRoutesMiddleware(request, 'tasks', 'update')
+
+    const body = await request.json()
+    const validatedData = startTimerSchema.parse(body)
+    const userId = (user._id || user.id).toString()
+
+    await executeGenericDbQuery(async () => {
+      // Timers follow the same task visibility rules as manual time logs
+      const taskQuery = isSuperAdmin
+        ? { _id: validatedData.taskId, isDeleted: { $ne: true } }
+        : await applyFilters({ _id: validatedData.taskId, isDeleted: { $ne: true } })
+
+      const task = await Task.findOne(taskQuery).select('projectId status').lean()
+
+      if (!task) {
+        throw new Error('Task not found or access denied')
+      }
+
+      if (task.projectId.toString() !== validatedData.projectId) {
+        throw new Error('Task does not belong to this project')
+      }
+
+      if (['cancelled', 'deleted'].includes(task.status)) {
+        throw new Error('Cannot track time on a cancelled task')
+      }
+    })
+
+    const timer = await TimerService.startTimer(userId, validatedData)
+
+    return NextResponse.json({
+      success: true,
+      data: timer,
+      message: 'Timer started successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error starting timer:', error)
+
+    if (error instanceof Response) {
+      return error
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error.message?.includes('already running')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: 'TIMER_CONFLICT'
+      }, { status: 409 })
+    }
+
+    // Stopping the previous timer can be refused by a locked timesheet week
+    if (error.message?.includes('cannot be changed')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to start timer'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { stopTimerSchema } from "@/lib/validations/timeLog"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { TimerService } from "@/lib/services/timer-service"
+
+// POST /api/time-logs/timer/stop - Stop the caller's timer and save it as a time log
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await genericApiRoutesMiddleware(request, 'tasks', 'update')
+    const userId = (user._id || user.id).toString()
+
+    const body = await request.json().catch(() => ({}))
+    const validatedData = stopTimerSchema.parse(body)
+
+    const result = await TimerService.stopTimer(userId, validatedData.description)
+
+    return NextResponse.json({
+      success: true,
+      data: result.timeLog,
+      rollup: result.rollup,
+      message: result.timeLog
+        ? 'Timer stopped and time logged successfully'
+        : 'Timer stopped; session was too short to log'
+    })
+
+  } catch (error: any) {
+    console.error('Error stopping timer:', error)
+
+    if (error instanceof Response) {
+      return error
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error.message?.includes('No active timer')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    // The timer keeps running until a week is open to log it into
+    if (error.message?.includes('cannot be changed')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to stop timer'
+    }, { status: 500 })
+  }
+}
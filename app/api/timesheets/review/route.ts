@@ -0,0 +1,105 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { timesheetReviewQuerySchema, reviewTimesheetsSchema } from "@/lib/validations/timesheet"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { TimesheetService } from "@/lib/services/timesheet-service"
+
+// GET /api/timesheets/review - Timesheets awaiting the caller's review
+export async function GET(request: NextRequest) {
+  try {
+    // Managers review their reports without needing timesheets permissions
+    const { user, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'tasks', 'read')
+
+    const searchParams = request.nextUrl.searchParams
+    const validatedParams = timesheetReviewQuerySchema.parse({
+      status: searchParams.get('status') || undefined,
+      week: searchParams.get('week') || undefined,
+    })
+
+    const timesheets = await TimesheetService.listForReview(user, {
+      status: validatedParams.status,
+      weekStart: validatedParams.week ? new Date(validatedParams.week) : undefined,
+    }, isSuperAdmin || false)
+
+    return NextResponse.json({
+      success: true,
+      data: timesheets,
+      message: 'Timesheets retrieved successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error fetching timesheets for review:', error)
+
+    if (error instanceof Response) {
+      return error
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to fetch timesheets'
+    }, { status: 500 })
+  }
+}
+
+// POST /api/timesheets/review - Bulk approve or reject submitted timesheets
+export async function POST(request: NextRequest) {
+  try {
+    const { user, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'tasks', 'read')
+
+    const body = await request.json()
+    const validatedData = reviewTimesheetsSchema.parse(body)
+
+    const result = await TimesheetService.reviewTimesheets(
+      user,
+      validatedData.timesheetIds,
+      validatedData.action,
+      validatedData.reason,
+      isSuperAdmin || false
+    )
+
+    if (result.processed.length === 0 && result.failed.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: result.failed[0].error,
+        details: result.failed
+      }, { status: 400 })
+    }
+
+    const verb = validatedData.action === 'approve' ? 'approved' : 'rejected'
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: result.failed.length > 0
+        ? `${result.processed.length} timesheet(s) ${verb}, ${result.failed.length} failed`
+        : `${result.processed.length} timesheet(s) ${verb}`
+    })
+
+  } catch (error: any) {
+    console.error('Error reviewing timesheets:', error)
+
+    if (error instanceof Response) {
+      return error
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to review timesheets'
+    }, { status: 500 })
+  }
+}
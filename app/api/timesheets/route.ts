@@ -0,0 +1,63 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { executeGenericDbQuery } from "@/lib/mongodb"
+import User from "@/models/User"
+import { timesheetWeekQuerySchema } from "@/lib/validations/timesheet"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { TimesheetService } from "@/lib/services/timesheet-service"
+
+// GET /api/timesheets - Weekly timesheet for the caller (or a user they review)
+export async function GET(request: NextRequest) {
+  try {
+    const { user, isSuperAdmin } = await genericApiRoutesMiddleware(request, 'tasks', 'read')
+
+    const searchParams = request.nextUrl.searchParams
+    const validatedParams = timesheetWeekQuerySchema.parse({
+      userId: searchParams.get('userId') || '',
+      week: searchParams.get('week') || undefined,
+    })
+
+    const callerId = (user._id || user.id).toString()
+    const targetUserId = validatedParams.userId || callerId
+
+    if (targetUserId !== callerId) {
+      const owner = await executeGenericDbQuery(async () => {
+        return await User.findById(targetUserId).select('_id reportsTo').lean()
+      }) as any
+
+      if (!owner || !TimesheetService.canReview(user, owner, isSuperAdmin || false)) {
+        return NextResponse.json({
+          success: false,
+          error: 'Timesheet not found or access denied'
+        }, { status: 403 })
+      }
+    }
+
+    const week = await TimesheetService.getWeek(targetUserId, validatedParams.week || new Date())
+
+    return NextResponse.json({
+      success: true,
+      data: week,
+      message: 'Timesheet retrieved successfully'
+    })
+
+  } catch (error: any) {
+    console.error('Error fetching timesheet:', error)
+
+    if (error instanceof Response) {
+      return error
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to fetch timesheet'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { submitTimesheetSchema } from "@/lib/validations/timesheet"
+import { genericApiRoutesMiddleware } from '@/lib/middleware/route-middleware'
+import { TimesheetService } from "@/lib/services/timesheet-service"
+
+// POST /api/timesheets/submit - Submit the caller's week for approval
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await genericApiRoutesMiddleware(request, 'tasks', 'update')
+
+    const body = await request.json()
+    const validatedData = submitTimesheetSchema.parse(body)
+
+    const timesheet = await TimesheetService.submitWeek(user, validatedData.week, validatedData.note)
+
+    return NextResponse.json({
+      success: true,
+      data: timesheet,
+      message: 'Timesheet submitted for approval'
+    })
+
+  } catch (error: any) {
+    console.error('Error submitting timesheet:', error)
+
+    if (error instanceof Response) {
+      return error
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation failed',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error.message?.includes('already')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to submit timesheet'
+    }, { status: 500 })
+  }
+}
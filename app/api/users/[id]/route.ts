@@ -80,7 +80,7 @@ export async function PUT(
     const body = await request.json()
 
     // Basic validation
-    const allowedFields = ['name', 'email', 'role', 'phone', 'department', 'position', 'status'];
+    const allowedFields = ['name', 'email', 'role', 'phone', 'department', 'position', 'hourlyRate', 'status'];
     // Allow isDeleted field only when restoring (setting to false)
     if (body.isDeleted === false) {
       allowedFields.push('isDeleted');
@@ -156,7 +156,7 @@ export async function PUT(
           updatedAt: new Date(),
         },
         { new: true, runValidators: true }
-      ).select('name email role status department position createdAt updatedAt')
+      ).select('name email role status department position hourlyRate createdAt updatedAt')
     })
 
     // Clear related caches
@@ -33,6 +33,7 @@ export default function CommunicationsPage() {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
   const [isCreateChannelOpen, setIsCreateChannelOpen] = useState(false)
   const hasInitializedChannel = useRef(false)
+  const [focusMessage, setFocusMessage] = useState<{ channelId: string; messageId: string; createdAt?: string; openThread?: boolean } | null>(null)
 
 
   const {
@@ -87,6 +88,14 @@ export default function CommunicationsPage() {
       if (channelExists) {
         hasInitializedChannel.current = true
         selectChannel(channelToSelect)
+
+        // Deep link to a message, e.g. from a reminder notification
+        const messageParam = url.searchParams.get('message')
+        if (channelParam && messageParam) {
+          setFocusMessage({ channelId: channelParam, messageId: messageParam })
+          url.searchParams.delete('message')
+          window.history.replaceState({}, '', url.toString())
+        }
       } else {
         // Channel doesn't exist - clear the invalid reference
         console.log('Channel not found, clearing stored reference:', channelToSelect)
@@ -128,6 +137,14 @@ export default function CommunicationsPage() {
     setIsMobileMenuOpen(false) // Close mobile menu after selection
   }, [selectChannel])
 
+  const handleMessageSelect = useCallback((channelId: string, messageId: string, createdAt?: string, options?: { openThread?: boolean }) => {
+    selectChannel(channelId)
+    setFocusMessage({ channelId, messageId, createdAt, openThread: options?.openThread })
+    setIsMobileMenuOpen(false)
+  }, [selectChannel])
+
+  const handleFocusMessageHandled = useCallback(() => setFocusMessage(null), [])
+
   const handleCreateChannel = useCallback(() => {
     setIsCreateChannelOpen(true)
     // TODO: Implement create channel functionality
@@ -148,6 +165,7 @@ export default function CommunicationsPage() {
     channels,
     activeChannelId,
     onChannelSelect: handleChannelSelect,
+    onMessageSelect: handleMessageSelect,
     currentUserId,
     onlineUserIds,
     onCreateChannel: handleCreateChannel,
@@ -157,6 +175,7 @@ export default function CommunicationsPage() {
     channels,
     activeChannelId,
     handleChannelSelect,
+    handleMessageSelect,
     currentUserId,
     onlineUserIds,
     handleCreateChannel,
@@ -260,6 +279,8 @@ export default function CommunicationsPage() {
               channelId={activeChannelId}
               fullscreenRef={fullscreenRef}
               onFullscreenChange={setIsFullscreen}
+              focusMessage={focusMessage}
+              onFocusMessageHandled={handleFocusMessageHandled}
             />
           ) : (
             <div className="h-full flex items-center justify-center bg-gradient-to-br from-muted/5 via-muted/10 to-muted/5">
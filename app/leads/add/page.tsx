@@ -11,6 +11,8 @@ import { useToast } from "@/hooks/use-toast";
 import { useLeads } from "@/hooks/use-leads";
 import { CreateLeadFormData, createLeadFormSchema } from "@/lib/validations/lead";
 import { useNavigation } from "@/components/providers/navigation-provider";
+import { LeadDuplicateWarning } from "@/components/leads/LeadDuplicateWarning";
+import { useLeadDuplicates } from "@/hooks/use-lead-duplicates";
 export default function AddLeadPage() {
   const router = useRouter();
   const { toast } = useToast();
@@ -61,6 +63,15 @@ export default function AddLeadPage() {
     },
   });
 
+  // Existing leads that look like this one; a warning only, creating it is still allowed
+  const [watchedEmail, watchedPhone, watchedCompany, watchedWebsite] = form.watch(['email', 'phone', 'company', 'website']);
+  const { duplicates } = useLeadDuplicates({
+    email: watchedEmail,
+    phone: watchedPhone,
+    company: watchedCompany,
+    website: watchedWebsite,
+  });
+
   const handleSubmit = async (data: CreateLeadFormData) => {
     try {
       // Transform form data to API format
@@ -543,6 +554,8 @@ export default function AddLeadPage() {
         }
       />
 
+      <LeadDuplicateWarning duplicates={duplicates} />
+
       <div>
         <GenericForm
           form={form}
@@ -11,19 +11,24 @@ import PageHeader from "@/components/shared/page-header";
 import GenericForm from "@/components/shared/generic-form";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ArrowLeft, UserPlus } from "lucide-react";
+import { ArrowLeft, PhoneCall, UserPlus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { usePermissions } from "@/hooks/use-permissions";
 import Swal from 'sweetalert2';
 import { updateLeadFormSchema } from '@/lib/validations/lead';
 import type { UpdateLeadFormData } from '@/lib/validations/lead';
 import { useNavigation } from "@/components/providers/navigation-provider";
+import { LeadScoreBreakdown } from "@/components/leads/LeadScoreBreakdown";
+import { LeadDuplicateWarning } from "@/components/leads/LeadDuplicateWarning";
+import { useLeadDuplicates } from "@/hooks/use-lead-duplicates";
+import { LeadContactLogModal } from "@/components/leads/LeadContactLogModal";
 
 export default function EditLeadPage() {
   const router = useRouter();
   const params = useParams();
   const { toast } = useToast();
-  const { canCreate } = usePermissions();
+  const { canCreate, canUpdate } = usePermissions();
+  const [isContactLogOpen, setIsContactLogOpen] = useState(false);
   const leadId = params?.id as string;
   const { navigateTo, isNavigating } = useNavigation();
   // Generic options for leads
@@ -120,6 +125,13 @@ export default function EditLeadPage() {
     }
   }, [lead, form]);
 
+  // Other leads that look like this one, re-checked as contact details are edited
+  const [watchedEmail, watchedPhone, watchedCompany, watchedWebsite] = form.watch(['email', 'phone', 'company', 'website']);
+  const { duplicates } = useLeadDuplicates(
+    { email: watchedEmail, phone: watchedPhone, company: watchedCompany, website: watchedWebsite },
+    { excludeId: leadId, enabled: !!lead }
+  );
+
 
   const handleSubmit = async (data: UpdateLeadFormData) => {
     if (!lead || !lead._id) return;
@@ -702,6 +714,17 @@ export default function EditLeadPage() {
         showAddButton={false}
         actions={
           <div className="flex items-center gap-2">
+            {lead && canUpdate('leads') && (
+              <Button
+                variant="outline"
+                onClick={() => setIsContactLogOpen(true)}
+                disabled={actionLoading}
+              >
+                <PhoneCall className="h-4 w-4 mr-2" />
+                Log Contact
+              </Button>
+            )}
+
             {/* Create Client button - only show if lead can be converted */}
             {lead &&
               lead.status === 'active' &&
@@ -730,6 +753,10 @@ export default function EditLeadPage() {
         }
       />
 
+      {lead && <LeadDuplicateWarning duplicates={duplicates} survivor={lead} />}
+
+      {lead && <LeadScoreBreakdown lead={lead} />}
+
       <div>
         <GenericForm
           form={form}
@@ -741,6 +768,12 @@ export default function EditLeadPage() {
           cancelText="Cancel"
         />
       </div>
+
+      <LeadContactLogModal
+        isOpen={isContactLogOpen}
+        onClose={() => setIsContactLogOpen(false)}
+        lead={lead || null}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import PageHeader from "@/components/shared/page-header";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { LeadContactLogModal } from "@/components/leads/LeadContactLogModal";
+import { useLeadFollowUps } from "@/hooks/use-lead-follow-ups";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useNavigation } from "@/components/providers/navigation-provider";
+import { describeFollowUp } from "@/lib/utils/lead-follow-ups";
+import { PRIORITY_COLORS } from '@/lib/colorConstants';
+import { cn } from "@/lib/utils";
+import { ArrowLeft, CalendarClock, CheckCircle2, ExternalLink, Flame, Mail, Phone, PhoneCall } from "lucide-react";
+import type { Lead, LeadFollowUpBucket } from "@/types";
+
+const SECTIONS: { bucket: LeadFollowUpBucket; title: string; empty: string; accent: string }[] = [
+  { bucket: 'overdue', title: 'Overdue', empty: 'Nothing overdue.', accent: 'text-red-600 dark:text-red-400' },
+  { bucket: 'today', title: 'Due Today', empty: 'No follow-ups due today.', accent: 'text-amber-600 dark:text-amber-400' },
+  { bucket: 'upcoming', title: 'Upcoming', empty: 'Nothing scheduled for the coming days.', accent: 'text-muted-foreground' },
+];
+
+export default function LeadFollowUpsPage() {
+  const { canUpdate } = usePermissions();
+  const { navigateTo } = useNavigation();
+  const { queue, isLoading, refetch } = useLeadFollowUps();
+  const [contactLead, setContactLead] = useState<Lead | null>(null);
+
+  const dueCount = (queue?.overdue.length || 0) + (queue?.today.length || 0);
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="My Follow-ups"
+        subtitle={queue
+          ? dueCount > 0
+            ? `${dueCount} lead${dueCount === 1 ? '' : 's'} to follow up with today`
+            : "You're all caught up"
+          : "Leads assigned to you that are due for a follow-up"}
+        showAddButton={false}
+        showRefreshButton={true}
+        onRefresh={() => refetch()}
+        isRefreshing={isLoading}
+        actions={
+          <Button variant="outline" onClick={() => navigateTo('/leads')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Leads
+          </Button>
+        }
+      />
+
+      {isLoading && !queue ? (
+        <div className="space-y-4">
+          {SECTIONS.map(section => <Skeleton key={section.bucket} className="h-32 w-full" />)}
+        </div>
+      ) : (
+        SECTIONS.map(section => {
+          const leads = queue?.[section.bucket] || [];
+          return (
+            <Card key={section.bucket}>
+              <CardHeader className="pb-3">
+                <CardTitle className={cn("flex items-center gap-2 text-base", section.accent)}>
+                  <CalendarClock className="h-4 w-4" />
+                  {section.title}
+                  {section.bucket === 'upcoming' && queue && (
+                    <span className="text-xs font-normal text-muted-foreground">next {queue.upcomingDays} days</span>
+                  )}
+                  <Badge variant="secondary" className="ml-auto">{leads.length}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {leads.length === 0 ? (
+                  <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <CheckCircle2 className="h-4 w-4" />
+                    {section.empty}
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-border">
+                    {leads.map(lead => (
+                      <li key={lead._id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                        <div className="min-w-0 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium truncate">{lead.name}</span>
+                            {lead.company && <span className="text-sm text-muted-foreground truncate">{lead.company}</span>}
+                            {lead.hotLead && <Flame className="h-4 w-4 text-orange-500" />}
+                            <Badge className={`${PRIORITY_COLORS[lead.priority as keyof typeof PRIORITY_COLORS] || PRIORITY_COLORS.low} border`}>
+                              {lead.priority}
+                            </Badge>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                            <span className={cn("font-medium", section.accent)}>
+                              {lead.nextFollowUpDate && describeFollowUp(lead.nextFollowUpDate)}
+                            </span>
+                            {lead.phone && (
+                              <a href={`tel:${lead.phone}`} className="flex items-center gap-1 hover:underline">
+                                <Phone className="h-3 w-3" />{lead.phone}
+                              </a>
+                            )}
+                            <a href={`mailto:${lead.email}`} className="flex items-center gap-1 hover:underline">
+                              <Mail className="h-3 w-3" />{lead.email}
+                            </a>
+                            {lead.lastContactDate && (
+                              <span>Last contact {new Date(lead.lastContactDate).toLocaleDateString()}</span>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {canUpdate('leads') && (
+                            <Button size="sm" onClick={() => setContactLead(lead)}>
+                              <PhoneCall className="h-4 w-4 mr-2" />
+                              Log contact
+                            </Button>
+                          )}
+                          <Button size="sm" variant="outline" onClick={() => navigateTo(`/leads/edit/${lead._id}`)}>
+                            <ExternalLink className="h-4 w-4 mr-2" />
+                            Open
+                          </Button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      <LeadContactLogModal
+        isOpen={!!contactLead}
+        onClose={() => setContactLead(null)}
+        lead={contactLead}
+      />
+    </div>
+  );
+}
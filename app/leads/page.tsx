@@ -4,6 +4,7 @@ import { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { useAppSelector } from "@/hooks/redux";
 import { useLeads } from "@/hooks/use-leads";
+import { useLeadBoard, useLeadPipeline } from "@/hooks/use-lead-pipeline";
 import { useDebounceSearch } from "@/hooks/use-debounced-search";
 import PageHeader from "@/components/shared/page-header";
 import DataTable, { ColumnDef, ActionMenuItem } from "@/components/shared/data-table";
@@ -11,6 +12,10 @@ import GenericFilter, { FilterConfig } from "@/components/shared/generic-filter"
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import CustomModal from "@/components/shared/custom-modal";
+import { LeadPipelineBoard } from "@/components/leads/LeadPipelineBoard";
+import { LeadPipelineModal } from "@/components/leads/LeadPipelineModal";
+import { LeadScoringModal } from "@/components/leads/LeadScoringModal";
+import { LeadImportWizard } from "@/components/leads/LeadImportWizard";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Lead, LeadFilters, LeadSort } from "@/types";
 import {
@@ -24,7 +29,15 @@ import {
   Phone,
   MapPin,
   Target,
-  Clock
+  Clock,
+  LayoutGrid,
+  List,
+  Settings2,
+  GitBranch,
+  Gauge,
+  Flame,
+  Upload,
+  PhoneCall
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
@@ -35,11 +48,12 @@ import Swal from 'sweetalert2';
 import { useNavigation } from "@/components/providers/navigation-provider";
 import GenericReportExporter from "@/components/shared/GenericReportExporter";
 import { PRIORITY_COLORS, STATUS_COLORS } from '@/lib/colorConstants';
+import { getLeadStage } from "@/lib/utils/lead-pipeline";
 
 export default function LeadsPage() {
   const router = useRouter();
   const { toast } = useToast();
-  const { canCreate } = usePermissions();
+  const { canCreate, canUpdate } = usePermissions();
   const { navigateTo, isNavigating } = useNavigation()
   const {
     leads: hookLeads,
@@ -75,7 +89,22 @@ export default function LeadsPage() {
   const [isQuickViewOpen, setIsQuickViewOpen] = useState(false);
   const [selectedLeadForView, setSelectedLeadForView] = useState<Lead | null>(null);
   const [activeTab, setActiveTab] = useState('overview');
-
+  const [viewMode, setViewMode] = useState<'table' | 'board'>('table');
+  const [isPipelineModalOpen, setIsPipelineModalOpen] = useState(false);
+  const [isScoringModalOpen, setIsScoringModalOpen] = useState(false);
+  const [isImportWizardOpen, setIsImportWizardOpen] = useState(false);
+  const [convertingLeadId, setConvertingLeadId] = useState<string | null>(null);
+
+  // Pipeline stages and the leads shown on the board
+  const { stages, moveLeadStage } = useLeadPipeline();
+  const boardFilters = useMemo(() => ({
+    search: filters.search,
+    status: filters.status,
+    stage: filters.stage,
+    source: filters.source,
+    priority: filters.priority,
+  }), [filters.search, filters.status, filters.stage, filters.source, filters.priority]);
+  const { leads: boardLeads, total: boardTotal, isLoading: boardLoading } = useLeadBoard(boardFilters, viewMode === 'board');
 
   // Filter configuration
   const filterConfig: FilterConfig = useMemo(() => ({
@@ -104,6 +133,19 @@ export default function LeadsPage() {
           { value: 'unqualified', label: 'Unqualified' },
         ],
       },
+      {
+        key: 'stage',
+        label: 'Stage',
+        type: 'select',
+        searchable: true,
+        placeholder: 'All Stages',
+        cols: 12,
+        mdCols: 3,
+        options: [
+          { value: 'all', label: 'All Stages' },
+          ...stages.map(stage => ({ value: stage.key, label: stage.name })),
+        ],
+      },
       {
         key: 'source',
         label: 'Source',
@@ -143,18 +185,20 @@ export default function LeadsPage() {
     defaultValues: {
       search: '',
       status: 'all',
+      stage: 'all',
       source: 'all',
       priority: 'all',
     },
-  }), []);
+  }), [stages]);
 
   // Map Redux filters to UI filters (convert empty strings to 'all' for selects)
   const uiFilters = useMemo(() => ({
     search: filters.search || '',
     status: filters.status || 'all',
+    stage: filters.stage || 'all',
     source: filters.source || 'all',
     priority: filters.priority || 'all',
-  }), [filters.search, filters.status, filters.source, filters.priority]);
+  }), [filters.search, filters.status, filters.stage, filters.source, filters.priority]);
 
   // Filter handlers - Updated to match clients page pattern
   const handleFilterChange = useCallback((newFilters: Record<string, any>) => {
@@ -162,6 +206,7 @@ export default function LeadsPage() {
     const leadFilters: LeadFilters = {
       search: newFilters.search || '',
       status: newFilters.status === 'all' ? '' : (newFilters.status || ''),
+      stage: newFilters.stage === 'all' ? '' : (newFilters.stage || ''),
       source: newFilters.source === 'all' ? '' : (newFilters.source || ''),
       priority: newFilters.priority === 'all' ? '' : (newFilters.priority || ''),
     };
@@ -172,6 +217,7 @@ export default function LeadsPage() {
     const defaultFilters: LeadFilters = {
       search: '',
       status: '',
+      stage: '',
       source: '',
       priority: '',
     };
@@ -229,6 +275,33 @@ export default function LeadsPage() {
         );
       },
     },
+    {
+      key: 'stage',
+      label: 'Stage',
+      render: (_value, row) => {
+        if (stages.length === 0) return null;
+        const stage = getLeadStage(row, stages);
+        return (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: stage.color || '#64748b' }} />
+            {stage.name}
+          </div>
+        );
+      },
+    },
+    {
+      key: 'score',
+      label: 'Score',
+      sortable: true,
+      render: (value, row) => value === undefined || value === null ? (
+        <span className="text-sm text-muted-foreground">—</span>
+      ) : (
+        <div className="flex items-center gap-1 text-sm font-medium">
+          {value}
+          {row.hotLead && <Flame className="h-3.5 w-3.5 text-orange-500" aria-label="Hot lead" />}
+        </div>
+      ),
+    },
     {
       key: 'source',
       label: 'Source',
@@ -306,6 +379,7 @@ export default function LeadsPage() {
         throw new Error('Invalid lead id')
       }
 
+      setConvertingLeadId(leadId);
       const responseData = await createClientFromLead(leadId);
 
       toast({
@@ -323,9 +397,19 @@ export default function LeadsPage() {
         title: "Error",
         description: error.message || "Failed to create client from lead",
       });
+    } finally {
+      setConvertingLeadId(null);
     }
   }, [createClientFromLead, toast, navigateTo]);
 
+  const handleMoveLead = useCallback(async (lead: Lead, stageKey: string) => {
+    try {
+      await moveLeadStage(String(lead._id), stageKey);
+    } catch (error) {
+      // Error toast is shown by the hook
+    }
+  }, [moveLeadStage]);
+
 
   // Custom actions for DataTable
   const customActions: ActionMenuItem<Lead>[] = [
@@ -367,9 +451,10 @@ export default function LeadsPage() {
   const memoizedFilters = useMemo(() => ({
     search: filters.search,
     status: filters.status,
+    stage: filters.stage,
     source: filters.source,
     priority: filters.priority
-  }), [filters.search, filters.status, filters.source, filters.priority])
+  }), [filters.search, filters.status, filters.stage, filters.source, filters.priority])
 
   const memoizedSort = useMemo(() => ({
     field: sort.field,
@@ -546,6 +631,7 @@ export default function LeadsPage() {
       limit: memoizedPagination.limit,
       search: memoizedFilters.search,
       status: memoizedFilters.status,
+      stage: memoizedFilters.stage,
       source: memoizedFilters.source,
       priority: memoizedFilters.priority,
       sortField: memoizedSort.field,
@@ -563,7 +649,7 @@ export default function LeadsPage() {
         sort: memoizedSort,
       })
     }
-  }, [memoizedPagination.page, memoizedPagination.limit, memoizedFilters.search, memoizedFilters.status, memoizedFilters.source, memoizedFilters.priority, memoizedSort.field, memoizedSort.direction, fetchLeads])
+  }, [memoizedPagination.page, memoizedPagination.limit, memoizedFilters.search, memoizedFilters.status, memoizedFilters.stage, memoizedFilters.source, memoizedFilters.priority, memoizedSort.field, memoizedSort.direction, fetchLeads])
 
   // Error handling effect
   useEffect(() => {
@@ -679,25 +765,69 @@ export default function LeadsPage() {
         onRefresh={handleFilterReset}
         isRefreshing={loading}
         actions={
-          <GenericReportExporter
-            moduleName="leads"
-            data={leads}
-            onExportComplete={(result) => {
-              if (result.success) {
-                toast({
-                  title: "Success",
-                  description: result.message,
-                  variant: "default",
-                });
-              } else {
-                toast({
-                  title: "Error",
-                  description: result.message,
-                  variant: "destructive",
-                });
-              }
-            }}
-          />
+          <div className="flex items-center gap-2">
+            <div className="flex items-center rounded-md border border-border p-0.5">
+              <Button
+                variant={viewMode === 'table' ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-8 px-2"
+                onClick={() => setViewMode('table')}
+                title="Table view"
+              >
+                <List className="h-4 w-4" />
+              </Button>
+              <Button
+                variant={viewMode === 'board' ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-8 px-2"
+                onClick={() => setViewMode('board')}
+                title="Pipeline board"
+              >
+                <LayoutGrid className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => navigateTo('/leads/follow-ups')}>
+              <PhoneCall className="h-4 w-4 mr-2" />
+              My Follow-ups
+            </Button>
+            {canCreate('leads') && (
+              <Button variant="outline" size="sm" onClick={() => setIsImportWizardOpen(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+            )}
+            {canUpdate('settings') && (
+              <>
+                <Button variant="outline" size="sm" onClick={() => setIsPipelineModalOpen(true)}>
+                  <Settings2 className="h-4 w-4 mr-2" />
+                  Pipeline
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setIsScoringModalOpen(true)}>
+                  <Gauge className="h-4 w-4 mr-2" />
+                  Scoring
+                </Button>
+              </>
+            )}
+            <GenericReportExporter
+              moduleName="leads"
+              data={leads}
+              onExportComplete={(result) => {
+                if (result.success) {
+                  toast({
+                    title: "Success",
+                    description: result.message,
+                    variant: "default",
+                  });
+                } else {
+                  toast({
+                    title: "Error",
+                    description: result.message,
+                    variant: "destructive",
+                  });
+                }
+              }}
+            />
+          </div>
         }
       >
         {/* Generic Filter - Updated to match clients page */}
@@ -720,30 +850,51 @@ export default function LeadsPage() {
         </Alert>
       )}
 
-      <div className="space-y-4">
-        <DataTable
-          data={leads}
-          columns={columns}
-          loading={loading}
-          NoOfCards={5}
-          totalCount={pagination.total}
-          pageSize={pagination.limit}
-          currentPage={pagination.page}
-          onPageChange={handlePageChange}
-          onPageSizeChange={handlePageSizeChange}
-          onSort={handleSort}
-          statsCards={statsCards}
-          sortColumn={sort.field}
-          sortDirection={sort.direction}
-          emptyMessage="No leads found"
-          resourceName="leads"
-          customActions={customActions}
-          onView={handleViewLead}
-          onDelete={handleDeleteLead}
-          onRestore={handleRestoreLead}
-          enablePermissionChecking={true}
-        />
-      </div>
+      {viewMode === 'board' ? (
+        <div className="rounded-lg border border-border">
+          {boardTotal > boardLeads.length && (
+            <p className="px-4 pt-3 text-xs text-muted-foreground">
+              Showing the {boardLeads.length} most recently updated of {boardTotal} leads. Use the filters to narrow the board.
+            </p>
+          )}
+          <LeadPipelineBoard
+            leads={boardLeads}
+            stages={stages}
+            loading={boardLoading}
+            canUpdate={canUpdate('leads')}
+            canConvert={canCreate('clients')}
+            convertingLeadId={convertingLeadId}
+            onMoveLead={handleMoveLead}
+            onOpenLead={handleViewLead}
+            onConvertLead={handleCreateClientFromLead}
+          />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <DataTable
+            data={leads}
+            columns={columns}
+            loading={loading}
+            NoOfCards={5}
+            totalCount={pagination.total}
+            pageSize={pagination.limit}
+            currentPage={pagination.page}
+            onPageChange={handlePageChange}
+            onPageSizeChange={handlePageSizeChange}
+            onSort={handleSort}
+            statsCards={statsCards}
+            sortColumn={sort.field}
+            sortDirection={sort.direction}
+            emptyMessage="No leads found"
+            resourceName="leads"
+            customActions={customActions}
+            onView={handleViewLead}
+            onDelete={handleDeleteLead}
+            onRestore={handleRestoreLead}
+            enablePermissionChecking={true}
+          />
+        </div>
+      )}
 
       {/* Quick View Modal */}
       <CustomModal
@@ -761,7 +912,8 @@ export default function LeadsPage() {
                   id: 'overview', name: 'Overview'
                 },
                 { id: 'project', name: 'Project Details' },
-                { id: 'followup', name: 'Follow-up' }
+                { id: 'followup', name: 'Follow-up' },
+                { id: 'pipeline', name: 'Pipeline' }
                 ].map((tab) => (
                   <div className="flex-1" key={tab.id}>
                     <button
@@ -1119,6 +1271,68 @@ export default function LeadsPage() {
                   </div>
                 </div>
               )}
+
+              {/* Pipeline Tab */}
+              {activeTab === 'pipeline' && (
+                <div className="space-y-4">
+                  {stages.length > 0 && (
+                    <div className="flex items-center justify-between p-3 bg-card rounded-lg border">
+                      <div>
+                        <p className="text-sm font-medium">Current Stage</p>
+                        <p className="text-xs text-muted-foreground">
+                          {selectedLeadForView.stageChangedAt
+                            ? `Since ${new Date(selectedLeadForView.stageChangedAt).toLocaleDateString('en-US', {
+                              year: 'numeric',
+                              month: 'short',
+                              day: 'numeric'
+                            })}`
+                            : 'Not moved yet'}
+                        </p>
+                      </div>
+                      <Badge variant="outline" className="gap-2">
+                        <span className="h-2 w-2 rounded-full" style={{ backgroundColor: getLeadStage(selectedLeadForView, stages).color || '#64748b' }} />
+                        {getLeadStage(selectedLeadForView, stages).name}
+                      </Badge>
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium">Stage History</h4>
+                    {selectedLeadForView.stageHistory?.length ? (
+                      [...selectedLeadForView.stageHistory].reverse().map((change, index) => {
+                        const stageName = (key?: string) => stages.find(stage => stage.key === key)?.name || key;
+                        return (
+                          <div key={index} className="flex items-start space-x-3 p-3 bg-card rounded-lg border">
+                            <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
+                              <GitBranch className="h-4 w-4 text-primary" />
+                            </div>
+                            <div className="flex-1">
+                              <p className="text-sm font-medium">
+                                {change.fromStage ? `${stageName(change.fromStage)} → ${stageName(change.stage)}` : `Entered ${stageName(change.stage)}`}
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                {new Date(change.changedAt).toLocaleDateString('en-US', {
+                                  year: 'numeric',
+                                  month: 'short',
+                                  day: 'numeric',
+                                  hour: '2-digit',
+                                  minute: '2-digit'
+                                })}
+                                {typeof change.changedBy === 'object' && change.changedBy?.name && ` • ${change.changedBy.name}`}
+                              </p>
+                              {change.note && (
+                                <p className="text-xs text-muted-foreground mt-1">{change.note}</p>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })
+                    ) : (
+                      <p className="text-sm text-muted-foreground italic">No stage changes recorded</p>
+                    )}
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Actions Footer */}
@@ -1133,6 +1347,21 @@ export default function LeadsPage() {
           </div>
         )}
       </CustomModal>
+
+      <LeadPipelineModal
+        isOpen={isPipelineModalOpen}
+        onClose={() => setIsPipelineModalOpen(false)}
+      />
+
+      <LeadScoringModal
+        isOpen={isScoringModalOpen}
+        onClose={() => setIsScoringModalOpen(false)}
+      />
+
+      <LeadImportWizard
+        isOpen={isImportWizardOpen}
+        onClose={() => setIsImportWizardOpen(false)}
+      />
     </div>
   );
 }
\ No newline at end of file
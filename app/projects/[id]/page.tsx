@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { ArrowLeft, Edit, Settings, Share2, MoreVertical, Clock, DollarSign, Users, Target, Archive, Trash2, Plus, Building2, AlertTriangle, Loader2, MessageSquare } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -23,6 +23,7 @@ import { usePermissions } from "@/hooks/use-permissions";
 
 // Import our new components
 import { ProjectAnalytics } from "@/components/projects/ProjectAnalytics";
+import { ProjectGanttChart } from "@/components/projects/ProjectGanttChart";
 import { ProjectCategorization } from "@/components/projects/ProjectCategorization";
 import { ProjectEditTab } from "@/components/projects/ProjectEditTab";
 import { ProjectChannelButton } from "@/components/projects/project-channel-button";
@@ -144,6 +145,9 @@ interface ExtendedProject extends Omit<Project, 'client' | 'creator' | 'departme
 export default function ProjectDetailsPage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
+  // Links to a task (e.g. from chat) open it on the task tab
+  const linkedTaskId = searchParams?.get('task') || undefined;
   const { toast } = useToast();
   const { canUpdate, canDelete } = usePermissions();
   const { navigateTo, isNavigating } = useNavigation()
@@ -151,6 +155,7 @@ export default function ProjectDetailsPage() {
   const [error, setError] = useState<string | null>(null);
   const [selectedProject, setSelectedProject] = useState<ExtendedProject | null>(null);
   const [activeTab, setActiveTab] = useState(() => {
+    if (linkedTaskId) return 'categorization';
     if (typeof window !== 'undefined') {
       return localStorage.getItem('project-details-active-tab') || 'overview';
     }
@@ -379,8 +384,9 @@ export default function ProjectDetailsPage() {
 
       {/* Project Details Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview">Overview</TabsTrigger>
+          <TabsTrigger value="timeline">Timeline</TabsTrigger>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
           <TabsTrigger value="edit">Edit</TabsTrigger>
           <TabsTrigger value="categorization">Categorize & Task Creation</TabsTrigger>
@@ -1118,12 +1124,19 @@ export default function ProjectDetailsPage() {
           )}
         </TabsContent>
 
+        <TabsContent value="timeline">
+          {safeRender(() => (
+            <ProjectGanttChart projectId={projectId} />
+          ))}
+        </TabsContent>
+
         <TabsContent value="categorization">
           {safeRender(() => (
             <ProjectCategorization
               projectId={projectId}
               project={project}
               onProjectUpdate={fetchProject}
+              initialTaskId={linkedTaskId}
             />
           ))}
         </TabsContent>
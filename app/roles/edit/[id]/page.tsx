@@ -52,6 +52,7 @@ export default function EditRolePage() {
       department: "",
       hierarchyLevel: 1,
       maxUsers: "", // Use empty string instead of undefined to keep it controlled
+      hourlyRate: "",
       status: "active" as const,
     },
   });
@@ -104,6 +105,7 @@ export default function EditRolePage() {
       department: typeof role.department === 'string' ? role.department : role.department?._id || "",
       hierarchyLevel: role.hierarchyLevel || 1,
       maxUsers: role.maxUsers ? role.maxUsers.toString() : "", // Convert to string or empty string
+      hourlyRate: role.hourlyRate ?? "",
       status: role.status || "active",
     });
   }, [roles, roleId, selectedRole, setSelectedRole, form]);
@@ -122,6 +124,7 @@ export default function EditRolePage() {
         department: data.department,
         hierarchyLevel: typeof data.hierarchyLevel === 'string' ? parseInt(data.hierarchyLevel) : data.hierarchyLevel,
         maxUsers: data.maxUsers && data.maxUsers !== "" ? (typeof data.maxUsers === 'string' ? parseInt(data.maxUsers) : data.maxUsers) : undefined,
+        hourlyRate: data.hourlyRate,
         status: data.status,
       };
 
@@ -259,6 +262,16 @@ export default function EditRolePage() {
           mdCols: 4,
           lgCols: 3,
         },
+        {
+          name: "hourlyRate",
+          label: "Hourly Rate",
+          type: "number" as const,
+          placeholder: "Use default rate",
+          description: "Default cost per hour for members, used for project budget tracking",
+          cols: 12,
+          mdCols: 4,
+          lgCols: 3,
+        },
         {
           name: "description",
           label: "Description",
@@ -0,0 +1,310 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import PageHeader from "@/components/shared/page-header";
+import CustomModal from "@/components/shared/custom-modal";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ChevronLeft, ChevronRight, Send, CheckCircle, XCircle, Lock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTimesheets } from "@/hooks/use-timesheets";
+import { formatHours } from "@/lib/validations/timeLog";
+import type { Timesheet } from "@/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Monday (UTC) of the week containing `date`, as YYYY-MM-DD
+const getWeekKey = (date: Date) => {
+  const utc = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  utc.setUTCDate(utc.getUTCDate() - ((utc.getUTCDay() + 6) % 7));
+  return utc.toISOString().split('T')[0];
+};
+
+const shiftWeek = (week: string, weeks: number) => {
+  return getWeekKey(new Date(new Date(week).getTime() + weeks * 7 * DAY_MS));
+};
+
+const formatDay = (date: string) => {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+};
+
+const STATUS_BADGES: Record<Timesheet['status'], { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-muted text-muted-foreground' },
+  submitted: { label: 'Awaiting Approval', className: 'bg-amber-100 text-amber-800' },
+  approved: { label: 'Approved', className: 'bg-emerald-100 text-emerald-800' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+};
+
+export default function TimesheetsPage() {
+  const { toast } = useToast();
+  const [week, setWeek] = useState(() => getWeekKey(new Date()));
+  const [note, setNote] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showRejectModal, setShowRejectModal] = useState(false);
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  const { useTimesheetWeek, useReviewQueue, submitTimesheet, reviewTimesheets, submitting, reviewing } = useTimesheets();
+  const { data: weekData, isLoading } = useTimesheetWeek(week);
+  const { data: reviewQueue } = useReviewQueue('submitted');
+
+  const timesheet = weekData?.timesheet;
+  const status = timesheet?.status || 'draft';
+  const isLocked = status === 'submitted' || status === 'approved';
+  const pendingReviews = useMemo(() => reviewQueue || [], [reviewQueue]);
+
+  const handleSubmit = async () => {
+    try {
+      await submitTimesheet(week, note);
+      setNote("");
+      toast({ title: "Timesheet submitted", description: "Your manager has been asked to review this week." });
+    } catch (error) {
+      // Error toast handled in hook
+    }
+  };
+
+  const handleReview = async (action: 'approve' | 'reject', reason?: string) => {
+    try {
+      const result = await reviewTimesheets(selectedIds, action, reason);
+      setSelectedIds([]);
+      setShowRejectModal(false);
+      setRejectionReason("");
+      toast({
+        title: action === 'approve' ? "Timesheets approved" : "Timesheets rejected",
+        description: result?.failed.length
+          ? `${result.processed.length} processed, ${result.failed.length} could not be reviewed`
+          : `${result?.processed.length || 0} timesheet(s) updated`,
+      });
+    } catch (error) {
+      // Error toast handled in hook
+    }
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(existing => existing !== id));
+  };
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Timesheets"
+        subtitle="Review your weekly hours and submit them for approval"
+        showAddButton={false}
+      />
+
+      <Tabs defaultValue="my-week">
+        <TabsList>
+          <TabsTrigger value="my-week">My Week</TabsTrigger>
+          <TabsTrigger value="review">
+            Review
+            {pendingReviews.length > 0 && (
+              <Badge variant="secondary" className="ml-2">{pendingReviews.length}</Badge>
+            )}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="my-week" className="space-y-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => setWeek(shiftWeek(week, -1))}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <CardTitle className="text-base">Week of {formatDay(week)}</CardTitle>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setWeek(shiftWeek(week, 1))}
+                  disabled={week >= getWeekKey(new Date())}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+              <Badge className={STATUS_BADGES[status].className}>
+                {isLocked && <Lock className="h-3 w-3 mr-1" />}
+                {STATUS_BADGES[status].label}
+              </Badge>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {status === 'rejected' && timesheet?.rejectionReason && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    Rejected{timesheet.reviewer?.name ? ` by ${timesheet.reviewer.name}` : ''}: {timesheet.rejectionReason}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="grid grid-cols-7 gap-2">
+                {(weekData?.days || []).map(day => (
+                  <div key={day.date} className="p-3 rounded-lg border border-border text-center">
+                    <div className="text-xs text-muted-foreground">{formatDay(day.date)}</div>
+                    <div className="text-lg font-semibold">{formatHours(day.hours)}</div>
+                  </div>
+                ))}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Project</TableHead>
+                    <TableHead>Task</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Hours</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(weekData?.logs || []).length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        {isLoading ? 'Loading...' : 'No time logged this week'}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    weekData!.logs.map(log => (
+                      <TableRow key={log._id}>
+                        <TableCell>{formatDay(new Date(log.date).toISOString().split('T')[0])}</TableCell>
+                        <TableCell>{log.project?.name || '-'}</TableCell>
+                        <TableCell>{log.task?.title || '-'}</TableCell>
+                        <TableCell className="max-w-xs truncate">{log.description}</TableCell>
+                        <TableCell className="text-right">{formatHours(log.hours)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+
+              <div className="flex items-end justify-between gap-4">
+                <div className="text-sm text-muted-foreground">
+                  Total: <span className="font-semibold text-foreground">{formatHours(weekData?.totalHours || 0)}</span>
+                </div>
+                {!isLocked && (
+                  <div className="flex items-end gap-2 flex-1 max-w-lg">
+                    <Textarea
+                      placeholder="Optional note for your manager"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      rows={1}
+                    />
+                    <Button onClick={handleSubmit} disabled={submitting || !weekData?.totalHours}>
+                      <Send className="h-4 w-4 mr-1" />
+                      Submit
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="review" className="space-y-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-base">Awaiting your approval</CardTitle>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => handleReview('approve')}
+                  disabled={reviewing || selectedIds.length === 0}
+                  className="bg-emerald-600 hover:bg-emerald-700 text-white"
+                >
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  Approve ({selectedIds.length})
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => setShowRejectModal(true)}
+                  disabled={reviewing || selectedIds.length === 0}
+                >
+                  <XCircle className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={pendingReviews.length > 0 && selectedIds.length === pendingReviews.length}
+                        onCheckedChange={(checked) => setSelectedIds(checked ? pendingReviews.map(sheet => sheet._id!) : [])}
+                      />
+                    </TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Week</TableHead>
+                    <TableHead>Submitted</TableHead>
+                    <TableHead>Note</TableHead>
+                    <TableHead className="text-right">Hours</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pendingReviews.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        Nothing to review
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    pendingReviews.map(sheet => (
+                      <TableRow key={sheet._id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.includes(sheet._id!)}
+                            onCheckedChange={(checked) => toggleSelected(sheet._id!, !!checked)}
+                          />
+                        </TableCell>
+                        <TableCell>{sheet.user?.name || 'Unknown'}</TableCell>
+                        <TableCell>{formatDay(new Date(sheet.weekStart).toISOString().split('T')[0])}</TableCell>
+                        <TableCell>{sheet.submittedAt ? new Date(sheet.submittedAt).toLocaleDateString() : '-'}</TableCell>
+                        <TableCell className="max-w-xs truncate">{sheet.submissionNote || '-'}</TableCell>
+                        <TableCell className="text-right">{formatHours(sheet.totalHours)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <CustomModal
+        isOpen={showRejectModal}
+        onClose={() => setShowRejectModal(false)}
+        title={`Reject ${selectedIds.length} timesheet(s)`}
+        modalSize="md"
+        actions={
+          <>
+            <Button variant="outline" onClick={() => setShowRejectModal(false)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => handleReview('reject', rejectionReason)}
+              disabled={reviewing || rejectionReason.trim().length < 3}
+            >
+              Reject
+            </Button>
+          </>
+        }
+      >
+        <div className="space-y-2">
+          <Label htmlFor="rejection-reason">Reason</Label>
+          <Textarea
+            id="rejection-reason"
+            placeholder="Explain what needs to be corrected"
+            value={rejectionReason}
+            onChange={(e) => setRejectionReason(e.target.value)}
+            rows={4}
+          />
+        </div>
+      </CustomModal>
+    </div>
+  );
+}
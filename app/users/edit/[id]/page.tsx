@@ -54,6 +54,7 @@ export default function EditUserPage() {
       role: "",
       department: "",
       position: "",
+      hourlyRate: "",
       status: "active",
       // Address fields
       address: {
@@ -155,6 +156,7 @@ export default function EditUserPage() {
         role: "", // Will be set after roles are loaded
         department: departmentId || "",
         position: user.position || "",
+        hourlyRate: user.hourlyRate ?? "",
         status: user.status as any,
         // Address fields
         address: {
@@ -313,6 +315,16 @@ export default function EditUserPage() {
           mdCols: 6,
           lgCols: 4,
         },
+        {
+          name: "hourlyRate",
+          label: "Hourly Rate",
+          type: "number" as const,
+          placeholder: "Use role rate",
+          description: "Cost per hour used for project budget tracking",
+          cols: 12,
+          mdCols: 6,
+          lgCols: 4,
+        },
         {
           name: "bio",
           label: "Bio",
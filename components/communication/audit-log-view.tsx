@@ -23,7 +23,9 @@ import {
   Calendar,
   User,
   MessageSquare,
-  RefreshCw
+  RefreshCw,
+  Timer,
+  FileArchive
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { formatDistanceToNow, format } from "date-fns"
@@ -42,7 +44,7 @@ import HtmlTextRenderer from "../shared/html-text-renderer"
 
 // Types
 interface AuditLogActor {
-  id: string
+  id: string | null // null for system actions such as retention purges
   name: string
   email: string
   role?: string
@@ -50,9 +52,10 @@ interface AuditLogActor {
 
 interface AuditLogEntry {
   id: string
-  message_id: string
+  message_id?: string
+  message_ids?: string[] // Set on retention purge batches
   channel_id: string
-  action: 'created' | 'edited' | 'trashed' | 'restored' | 'permanently_deleted'
+  action: 'created' | 'edited' | 'trashed' | 'restored' | 'permanently_deleted' | 'retention_purged'
   actor: AuditLogActor
   previous_content?: string
   new_content?: string
@@ -73,6 +76,7 @@ interface AuditLogViewProps {
   isOpen: boolean
   onClose: () => void
   channelId?: string // Optional: Pre-filter by channel
+  onExport?: () => void // Shows an "Export" action for compliance exports
   className?: string
 }
 
@@ -112,6 +116,12 @@ const ACTION_CONFIG: Record<string, {
     icon: AlertTriangle,
     color: 'text-red-600 dark:text-red-400',
     bgColor: 'bg-red-100 dark:bg-red-900/30'
+  },
+  retention_purged: {
+    label: 'Purged',
+    icon: Timer,
+    color: 'text-slate-600 dark:text-slate-400',
+    bgColor: 'bg-slate-100 dark:bg-slate-900/30'
   }
 }
 
@@ -119,6 +129,7 @@ export function AuditLogView({
   isOpen,
   onClose,
   channelId: preFilterChannelId,
+  onExport,
   className
 }: AuditLogViewProps) {
   const { toast } = useToast()
@@ -334,6 +345,21 @@ export function AuditLogView({
       )
     }
 
+    if (log.action === 'retention_purged') {
+      const count = log.message_ids?.length ?? log.metadata?.message_count ?? 0
+      return (
+        <div className="mt-2 p-3 bg-slate-50 dark:bg-slate-950/30 rounded-md border border-slate-200 dark:border-slate-800 text-xs text-slate-700 dark:text-slate-300 space-y-1">
+          <p className="font-medium">
+            {count} {count === 1 ? 'message' : 'messages'} purged by the {log.metadata?.retention_policy === 'trash' ? 'trash' : 'message'} retention policy
+          </p>
+          {log.metadata?.retention_days !== undefined && (
+            <p>Retention: {log.metadata.retention_days} days{log.metadata?.cutoff && ` (older than ${format(new Date(log.metadata.cutoff), 'PP')})`}</p>
+          )}
+          {!!log.metadata?.attachments_deleted && <p>Attachments deleted: {log.metadata.attachments_deleted}</p>}
+        </div>
+      )
+    }
+
     if (log.action === 'restored') {
       return (
         <div className="mt-2 p-3 bg-purple-50 dark:bg-purple-950/30 rounded-md border border-purple-200 dark:border-purple-800">
@@ -381,6 +407,17 @@ export function AuditLogView({
       className={className}
       headerActions={
         <div className="flex items-center gap-2">
+          {onExport && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onExport}
+              className="gap-1"
+            >
+              <FileArchive className="h-4 w-4" />
+              Export
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -442,6 +479,7 @@ export function AuditLogView({
                     <SelectItem value="trashed">Trashed</SelectItem>
                     <SelectItem value="restored">Restored</SelectItem>
                     <SelectItem value="permanently_deleted">Deleted</SelectItem>
+                    <SelectItem value="retention_purged">Purged</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -600,7 +638,9 @@ export function AuditLogView({
                       <div className="flex gap-4 text-xs text-muted-foreground mb-2">
                         <div className="flex items-center gap-1">
                           <MessageSquare className="h-3 w-3" />
-                          <span className="font-mono">{log.message_id.slice(0, 8)}...</span>
+                          <span className="font-mono">
+                            {log.message_id ? `${log.message_id.slice(0, 8)}...` : `${log.message_ids?.length ?? 0} messages`}
+                          </span>
                         </div>
                         <div className="flex items-center gap-1">
                           <span className="font-medium">Channel:</span>
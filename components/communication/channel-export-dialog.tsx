@@ -0,0 +1,197 @@
+"use client"
+
+import { useState } from "react"
+import { endOfDay, format, subDays } from "date-fns"
+import { AlertTriangle, Download, FileArchive, Loader2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import CustomModal from "@/components/shared/custom-modal"
+import { useChannelExports } from "@/hooks/use-channel-exports"
+import type { ChannelExportStatus, IChannel } from "@/types/communication"
+
+interface ChannelExportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  channels: IChannel[]
+  defaultChannelId?: string | null
+}
+
+const STATUS_LABELS: Record<ChannelExportStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  pending: { label: "Queued", variant: "outline" },
+  processing: { label: "Building", variant: "secondary" },
+  completed: { label: "Ready", variant: "default" },
+  failed: { label: "Failed", variant: "destructive" },
+}
+
+const toDateValue = (date: Date) => format(date, "yyyy-MM-dd")
+
+const formatSize = (bytes: number | null) => {
+  if (!bytes) return null
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+const getChannelLabel = (channel: IChannel) =>
+  channel.type === "dm" ? channel.name || "Direct message" : `#${channel.name || "channel"}`
+
+export function ChannelExportDialog({ isOpen, onClose, channels, defaultChannelId }: ChannelExportDialogProps) {
+  const [channelId, setChannelId] = useState<string | undefined>(defaultChannelId || undefined)
+  const [fromDate, setFromDate] = useState(() => toDateValue(subDays(new Date(), 30)))
+  const [toDate, setToDate] = useState(() => toDateValue(new Date()))
+  const { exports, isLoading, createExport, creating, downloadExport } = useChannelExports(channelId, isOpen)
+
+  // Whole days in the admin's local time
+  const from = fromDate ? new Date(`${fromDate}T00:00`) : null
+  const to = toDate ? endOfDay(new Date(`${toDate}T00:00`)) : null
+  const isValid = !!channelId && !!from && !!to && from < to
+
+  const handleExport = async () => {
+    if (!isValid) return
+    try {
+      await createExport(from!, to!)
+    } catch {
+      // Error toast is shown by the hook
+    }
+  }
+
+  return (
+    <CustomModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Export conversation records"
+      modalSize="lg"
+      actions={
+        <>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button onClick={handleExport} disabled={!isValid || creating}>
+            {creating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Start export
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Bundles messages, edit history, reactions, read receipts and attachments into a ZIP with JSON data and a
+          readable transcript.
+        </p>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="col-span-2 space-y-1">
+            <Label className="text-xs">Channel</Label>
+            <Select value={channelId} onValueChange={setChannelId}>
+              <SelectTrigger className="h-9">
+                <SelectValue placeholder="Select a channel" />
+              </SelectTrigger>
+              <SelectContent>
+                {channels.map(channel => (
+                  <SelectItem key={channel.id} value={channel.id}>
+                    {getChannelLabel(channel)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="export-from" className="text-xs">From</Label>
+            <Input
+              id="export-from"
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="export-to" className="text-xs">To</Label>
+            <Input
+              id="export-to"
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+              className="h-9"
+            />
+          </div>
+        </div>
+
+        {channelId && (
+          <div className="space-y-2">
+            <Label className="text-xs">Recent exports</Label>
+            <ScrollArea className="h-[220px] pr-2">
+              {isLoading ? (
+                <div className="flex justify-center py-10">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : exports.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-10 text-center text-muted-foreground">
+                  <FileArchive className="mb-2 h-8 w-8 opacity-40" />
+                  <p className="text-sm">No exports for this channel yet</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {exports.map(item => {
+                    const status = STATUS_LABELS[item.status]
+                    const size = formatSize(item.file_size)
+                    return (
+                      <div key={item.id} className="flex items-center gap-3 rounded-lg border border-border p-3">
+                        <div className="min-w-0 flex-1 space-y-1">
+                          <div className="flex items-center gap-2 text-sm">
+                            <span className="font-medium">
+                              {format(new Date(item.from), "PP")} – {format(new Date(item.to), "PP")}
+                            </span>
+                            <Badge variant={status.variant} className="text-[10px]">
+                              {(item.status === "pending" || item.status === "processing") && (
+                                <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                              )}
+                              {status.label}
+                            </Badge>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Requested {format(new Date(item.created_at), "PPp")}
+                            {item.status === "completed" && (
+                              <>
+                                {" · "}
+                                {item.message_count ?? 0} message(s), {item.attachment_count ?? 0} file(s)
+                                {size && ` · ${size}`}
+                              </>
+                            )}
+                          </p>
+                          {item.status === "failed" && item.error && (
+                            <p className="flex items-center gap-1 text-xs text-destructive">
+                              <AlertTriangle className="h-3 w-3" />
+                              {item.error}
+                            </p>
+                          )}
+                        </div>
+                        {item.status === "completed" && (
+                          <Button variant="outline" size="sm" className="h-8 shrink-0" onClick={() => downloadExport(item.id)}>
+                            <Download className="mr-1 h-3.5 w-3.5" />
+                            Download
+                          </Button>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+        )}
+      </div>
+    </CustomModal>
+  )
+}
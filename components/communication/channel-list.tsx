@@ -171,6 +171,7 @@ export const ChannelList = memo(function ChannelList({
     const displayName = getChannelDisplayName(channel)
     const subtitle = getChannelSubtitle(channel)
     const hasUnread = (channel.unreadCount || 0) > 0
+    const mentionCount = channel.unreadMentionCount || 0
     const isArchived = (channel as any).is_archived || false
     const isPinned = (channel as any).is_pinned || false
     const isPinLoading = pinLoading === channel.id
@@ -314,6 +315,17 @@ export const ChannelList = memo(function ChannelList({
               )}
             </div>
 
+            {/* Unread mentions */}
+            {mentionCount > 0 && (
+              <Badge
+                variant="destructive"
+                title={`${mentionCount} unread ${mentionCount === 1 ? 'mention' : 'mentions'}`}
+                className="ml-1.5 h-4 min-w-[18px] px-1 flex items-center justify-center text-[9px] font-bold shadow-sm transition-all group-hover:scale-110"
+              >
+                @{mentionCount > 9 ? '9+' : mentionCount}
+              </Badge>
+            )}
+
             {/* Unread count */}
             {hasUnread && (
               <Badge
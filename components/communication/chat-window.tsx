@@ -10,6 +10,9 @@ import { TypingIndicator } from "@/components/communication/typing-indicator"
 import { ContextPanel } from "@/components/communication/context-panel"
 import { ChannelSettingsModal } from "@/components/communication/channel-settings-modal"
 import { ChatSelectorModal } from "@/components/communication/chat-selector-modal"
+import { MessageReminderDialog } from "@/components/communication/message-reminder-dialog"
+import { ThreadPanel } from "@/components/communication/thread-panel"
+import { CreateTaskFromMessageDialog } from "@/components/communication/create-task-from-message-dialog"
 import { ResizableSidebar } from "@/components/communication/resizable-sidebar"
 import FullscreenToggle from '@/components/shared/FullscreenToggle'
 import {
@@ -27,6 +30,9 @@ import { cn } from "@/lib/utils"
 import { ChatWindowProps, CreateMessageData, ICommunication, ITypingIndicator, IParticipant } from "@/types/communication"
 import { useCommunications } from "@/hooks/use-communications"
 import { useToast } from "@/hooks/use-toast"
+import { useMessageReminders } from "@/hooks/use-message-reminders"
+import { useSlashCommands } from "@/hooks/use-slash-commands"
+import { usePermissions } from "@/hooks/use-permissions"
 import { forwardMessages } from "@/lib/services/forward-service"
 import {
   Tooltip,
@@ -39,7 +45,7 @@ import { Skeleton } from "@/components/ui/skeleton"
 import { communicationLogger as logger } from "@/lib/logger"
 // import { ResizableSidebar } from "./resizable-sidebar"
 
-export function ChatWindow({ channelId, className, onToggleSidebar, isSidebarExpanded, fullscreenRef, onFullscreenChange }: ChatWindowProps) {
+export function ChatWindow({ channelId, className, onToggleSidebar, isSidebarExpanded, fullscreenRef, onFullscreenChange, focusMessage, onFocusMessageHandled }: ChatWindowProps) {
   const {
     selectedChannel,
     messages,
@@ -99,6 +105,23 @@ export function ChatWindow({ channelId, className, onToggleSidebar, isSidebarExp
   const [showForwardModal, setShowForwardModal] = useState(false)
   const [isForwarding, setIsForwarding] = useState(false)
 
+  // "Remind me about this" - the message waiting for a custom reminder time
+  const [reminderMessage, setReminderMessage] = useState<ICommunication | null>(null)
+  const { setReminder } = useMessageReminders(false)
+  const { dismissEphemeral } = useSlashCommands(false)
+
+  // "Create task" on a message in a project channel
+  const [taskSourceMessageId, setTaskSourceMessageId] = useState<string | null>(null)
+  const { canCreate } = usePermissions()
+
+  // Root message of the thread shown in the side panel
+  const [threadRootId, setThreadRootId] = useState<string | null>(null)
+
+  // Threads belong to a channel, so switching channels closes the panel
+  useEffect(() => {
+    setThreadRootId(null)
+  }, [channelId])
+
   // Auto-select channel if channelId is provided and no channel is selected
   useEffect(() => {
     if (channelId && !selectedChannel) {
@@ -234,6 +257,25 @@ export function ChatWindow({ channelId, className, onToggleSidebar, isSidebarExp
     toggleReaction(messageId, channelId, emoji)
   }, [channelId, toggleReaction])
 
+  // Quick picks set the reminder straight away, "custom" asks for a time first
+  const handleRemindMe = useCallback((message: ICommunication, remindAt?: Date) => {
+    if (remindAt) {
+      setReminder(message.id, remindAt).catch(() => {})
+    } else {
+      setReminderMessage(message)
+    }
+  }, [setReminder])
+
+  const handleCreateTask = useCallback((message: ICommunication) => {
+    setTaskSourceMessageId(message.id)
+  }, [])
+
+  const closeCreateTask = useCallback(() => setTaskSourceMessageId(null), [])
+
+  const handleOpenThread = useCallback((message: ICommunication) => {
+    setThreadRootId(message.id)
+  }, [])
+
   // Handle forward messages - opens the chat selector modal
   const handleForwardMessages = useCallback((messageIds: string[]) => {
     setSelectedMessageIds(new Set(messageIds))
@@ -291,7 +333,8 @@ export function ChatWindow({ channelId, className, onToggleSidebar, isSidebarExp
     if (!channelId || isLoadingMore) return { messages: [], hasMore: false }
 
     const channelMessages = (messages as unknown as Record<string, ICommunication[]>)[channelId] || []
-    const offset = channelMessages.length
+    // Ephemeral slash command replies are not stored, so they don't count towards the offset
+    const offset = channelMessages.filter(m => !m.is_ephemeral).length
 
     setIsLoadingMore(true)
     try {
@@ -364,7 +407,8 @@ export function ChatWindow({ channelId, className, onToggleSidebar, isSidebarExp
   }, [channelId, searchMessages])
 
   // Navigate to a search result message - loads more messages if needed
-  const navigateToSearchResult = useCallback(async (message: ICommunication) => {
+  // created_at may be unknown (deep links); older pages are then loaded until the message is found
+  const navigateToSearchResult = useCallback(async (message: Pick<ICommunication, 'id'> & { created_at?: string }) => {
     if (!channelId) return
 
     const channelMessages = (messages as unknown as Record<string, ICommunication[]>)[channelId] || []
@@ -376,16 +420,15 @@ export function ChatWindow({ channelId, className, onToggleSidebar, isSidebarExp
       // Message not loaded - we need to load all messages up to and including this one
       // Find how many messages we need to load based on the message's position
       // For now, load enough messages to include this search result
-      const messageDate = new Date(message.created_at)
       const oldestLoadedMessage = channelMessages[0]
 
       if (oldestLoadedMessage) {
         const oldestDate = new Date(oldestLoadedMessage.created_at)
 
         // If the search result is older than what we have loaded, load more
-        if (messageDate < oldestDate) {
+        if (!message.created_at || new Date(message.created_at) < oldestDate) {
           // Keep loading until we have the message or can't load more
-          let offset = channelMessages.length
+          let offset = channelMessages.filter(m => !m.is_ephemeral).length
           let hasMore = true
           let attempts = 0
           const maxAttempts = 10 // Prevent infinite loop
@@ -441,6 +484,19 @@ export function ChatWindow({ channelId, className, onToggleSidebar, isSidebarExp
     attemptScroll(5)
   }, [])
 
+  // Jump to a message requested from outside the chat (reminders, notification links)
+  useEffect(() => {
+    if (!focusMessage || focusMessage.channelId !== channelId || messagesLoading) return
+    const channelMessages = (messages as unknown as Record<string, ICommunication[]>)[channelId] || []
+    if (channelMessages.length === 0) return
+
+    onFocusMessageHandled?.()
+    navigateToSearchResult({ id: focusMessage.messageId, created_at: focusMessage.createdAt })
+    if (focusMessage.openThread) {
+      setThreadRootId(focusMessage.messageId)
+    }
+  }, [focusMessage, channelId, messagesLoading, messages, navigateToSearchResult, onFocusMessageHandled])
+
   // Navigate to previous search result
   const handleSearchPrev = useCallback(async () => {
     if (searchResults.length === 0) return
@@ -541,7 +597,8 @@ export function ChatWindow({ channelId, className, onToggleSidebar, isSidebarExp
         const isOnline = onlineUserIds.includes(otherParticipant.mongo_member_id)
         const status = isOnline ? 'Online' : 'Offline'
         const role = otherParticipant.userRole ? ` • ${otherParticipant.userRole}` : ''
-        return `${status}${role}`
+        const statusText = otherParticipant.status_text ? ` • ${otherParticipant.status_text}` : ''
+        return `${status}${role}${statusText}`
       }
       return 'Direct Message'
     }
@@ -807,6 +864,10 @@ export function ChatWindow({ channelId, className, onToggleSidebar, isSidebarExp
                     onReaction={handleReaction}
                     onLoadMore={handleLoadMore}
                     onForwardMessages={handleForwardMessages}
+                    onRemindMe={handleRemindMe}
+                    onOpenThread={handleOpenThread}
+                    onDismissEphemeral={(messageId) => channelId && dismissEphemeral(channelId, messageId)}
+                    onCreateTask={selectedChannel?.mongo_project_id && canCreate('tasks') ? handleCreateTask : undefined}
                     hasMoreMessages={hasMoreMessages}
                     isLoadingMore={isLoadingMore}
                     className="flex-1 min-h-0"
@@ -852,6 +913,9 @@ export function ChatWindow({ channelId, className, onToggleSidebar, isSidebarExp
                 disabled={actionLoading || ((selectedChannel as any)?.admin_only_post && !selectedChannel?.channel_members.some((m) => m.mongo_member_id === mockCurrentUser._id && (m.role === 'admin' || m.role === 'owner')))}
                 placeholder={`Message ${getChannelTitle()}...`}
                 allowAttachments={true}
+                allowScheduling={true}
+                allowPolls={true}
+                allowCommands={true}
                 onTyping={handleTyping}
                 onStopTyping={handleStopTyping}
                 channelMembers={selectedChannel?.channel_members || []}
@@ -860,8 +924,34 @@ export function ChatWindow({ channelId, className, onToggleSidebar, isSidebarExp
             )}
           </div>
 
+          {/* Thread panel - takes the place of the context panel while open */}
+          {threadRootId && mockCurrentUser && (
+            <ResizableSidebar
+              defaultWidth={380}
+              minWidth={300}
+              maxWidth={maxContextPanelWidth}
+              storageKey="thread-panel-width"
+              className="border-l"
+              side="right"
+            >
+              <ThreadPanel
+                key={threadRootId}
+                rootMessageId={threadRootId}
+                channelId={channelId}
+                liveReplies={((messages as unknown as Record<string, ICommunication[]>)[channelId] || [])
+                  .filter(message => message.parent_message_id === threadRootId)}
+                channelMembers={selectedChannel?.channel_members || []}
+                channelType={selectedChannel?.type}
+                canReply={!(selectedChannel as any)?.is_archived && !((selectedChannel as any)?.admin_only_post && !selectedChannel?.channel_members.some((m) => m.mongo_member_id === mockCurrentUser._id && (m.role === 'admin' || m.role === 'owner')))}
+                onSendReply={handleSendMessage}
+                onSendReplyWithFiles={sendMessageWithFiles}
+                onClose={() => setThreadRootId(null)}
+              />
+            </ResizableSidebar>
+          )}
+
           {/* Context panel */}
-          {isContextPanelVisible && (
+          {isContextPanelVisible && !threadRootId && (
             <ResizableSidebar
               defaultWidth={320}
               minWidth={250}
@@ -896,6 +986,22 @@ export function ChatWindow({ channelId, className, onToggleSidebar, isSidebarExp
         description={`Forward ${selectedMessageIds.size} message(s) to selected chats`}
         multiSelect={true}
       />
+
+      {/* Custom reminder time */}
+      {reminderMessage && (
+        <MessageReminderDialog
+          isOpen={!!reminderMessage}
+          onClose={() => setReminderMessage(null)}
+          onConfirm={async (remindAt) => {
+            await setReminder(reminderMessage.id, remindAt)
+          }}
+        />
+      )}
+
+      {/* Task pre-filled from a message */}
+      {taskSourceMessageId && (
+        <CreateTaskFromMessageDialog messageId={taskSourceMessageId} onClose={closeCreateTask} />
+      )}
     </TooltipProvider>
   )
 }
\ No newline at end of file
@@ -22,7 +22,10 @@ import {
   Trash2,
   FileText,
   Filter,
-  Phone
+  Phone,
+  Search,
+  AlarmClock,
+  MessagesSquare
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { UserDirectory } from "./user-directory"
@@ -30,6 +33,11 @@ import { IChannel } from "@/types/communication"
 import { ChannelList } from "./channel-list"
 import { TrashView } from "./trash-view"
 import { AuditLogView } from "./audit-log-view"
+import { ChannelExportDialog } from "./channel-export-dialog"
+import { MessageSearchPanel } from "./message-search-panel"
+import { MessageRemindersPanel } from "./message-reminders-panel"
+import { ThreadsInbox } from "./threads-inbox"
+import { useFollowedThreads } from "@/hooks/use-threads"
 
 interface CommunicationSidebarProps {
   channels: IChannel[]
@@ -37,6 +45,7 @@ interface CommunicationSidebarProps {
   currentUserId: string
   onlineUserIds?: string[] // Real-time online user IDs from Supabase
   onChannelSelect: (channelId: string) => void
+  onMessageSelect?: (channelId: string, messageId: string, createdAt?: string, options?: { openThread?: boolean }) => void
   onCreateChannel?: () => void
   onPinChannel?: (channelId: string, isPinned: boolean) => Promise<void>
   loading?: boolean
@@ -49,6 +58,7 @@ export const CommunicationSidebar = memo(function CommunicationSidebar({
   currentUserId,
   onlineUserIds = [],
   onChannelSelect,
+  onMessageSelect,
   onCreateChannel,
   onPinChannel,
   loading = false,
@@ -58,6 +68,11 @@ export const CommunicationSidebar = memo(function CommunicationSidebar({
   const [showChannels, setShowChannels] = useState(true)
   const [showTrash, setShowTrash] = useState(false)
   const [showAuditLog, setShowAuditLog] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+  const [showSearch, setShowSearch] = useState(false)
+  const [showReminders, setShowReminders] = useState(false)
+  const [showThreads, setShowThreads] = useState(false)
+  const { unreadThreadCount } = useFollowedThreads()
   const [filterType, setFilterType] = useState<'all' | 'dm' | 'project' | 'client-support'>('all')
 
   const handleStartDM = useCallback(async (userId: string) => {
@@ -221,6 +236,44 @@ export const CommunicationSidebar = memo(function CommunicationSidebar({
               </DropdownMenuContent>
             </DropdownMenu>
 
+            {/* Search across all conversations */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowSearch(true)}
+              title="Search Messages"
+              className="h-9 w-9 p-0 hover:bg-primary/10 hover:text-primary hover:scale-110 transition-all duration-200 rounded-lg"
+            >
+              <Search className="h-4 w-4" />
+            </Button>
+
+            {/* Saved messages and reminders */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowReminders(true)}
+              title="Saved & Reminders"
+              className="h-9 w-9 p-0 hover:bg-primary/10 hover:text-primary hover:scale-110 transition-all duration-200 rounded-lg"
+            >
+              <AlarmClock className="h-4 w-4" />
+            </Button>
+
+            {/* Followed threads */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowThreads(true)}
+              title={unreadThreadCount > 0 ? `Threads (${unreadThreadCount} with new replies)` : "Threads"}
+              className="relative h-9 w-9 p-0 hover:bg-primary/10 hover:text-primary hover:scale-110 transition-all duration-200 rounded-lg"
+            >
+              <MessagesSquare className="h-4 w-4" />
+              {unreadThreadCount > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-semibold text-primary-foreground">
+                  {unreadThreadCount > 9 ? "9+" : unreadThreadCount}
+                </span>
+              )}
+            </Button>
+
             {/* Audit Log button (admin only - API will enforce) */}
             <Button
               variant="ghost"
@@ -273,11 +326,49 @@ export const CommunicationSidebar = memo(function CommunicationSidebar({
         onClose={() => setShowTrash(false)}
       />
 
+      {/* Message Search Dialog */}
+      <MessageSearchPanel
+        isOpen={showSearch}
+        onClose={() => setShowSearch(false)}
+        channels={channels}
+        onChannelSelect={onChannelSelect}
+      />
+
+      {/* Saved & Reminders Dialog */}
+      <MessageRemindersPanel
+        isOpen={showReminders}
+        onClose={() => setShowReminders(false)}
+        onMessageSelect={onMessageSelect ?? ((channelId) => onChannelSelect(channelId))}
+        onChannelSelect={onChannelSelect}
+      />
+
+      {/* Threads Inbox Dialog */}
+      <ThreadsInbox
+        isOpen={showThreads}
+        onClose={() => setShowThreads(false)}
+        onThreadSelect={(channelId, messageId, createdAt) =>
+          onMessageSelect
+            ? onMessageSelect(channelId, messageId, createdAt, { openThread: true })
+            : onChannelSelect(channelId)
+        }
+      />
+
       {/* Audit Log View Dialog */}
       <AuditLogView
         isOpen={showAuditLog}
         onClose={() => setShowAuditLog(false)}
+        onExport={() => setShowExport(true)}
       />
+
+      {/* Compliance Export Dialog - mounted on open so it starts from the active channel */}
+      {showExport && (
+        <ChannelExportDialog
+          isOpen={showExport}
+          onClose={() => setShowExport(false)}
+          channels={channels}
+          defaultChannelId={activeChannelId}
+        />
+      )}
     </div>
   )
 })
\ No newline at end of file
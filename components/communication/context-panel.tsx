@@ -644,6 +644,9 @@ export function ContextPanel({
 
                       <div className="flex-1 min-w-0">
                         <p className="text-sm font-medium truncate">{participant.name}</p>
+                        {participant.status_text && (
+                          <p className="text-xs text-muted-foreground truncate">{participant.status_text}</p>
+                        )}
                         <div className="flex items-center gap-2">
                           {participant.channelRole && (
                             <Badge variant="outline" className="text-xs">
@@ -0,0 +1,166 @@
+"use client"
+
+import { useState } from "react"
+import { addDays } from "date-fns"
+import { Loader2, Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import CustomModal from "@/components/shared/custom-modal"
+import { usePolls } from "@/hooks/use-polls"
+import { toDateTimeLocalValue } from "./schedule-send-picker"
+
+const MIN_OPTIONS = 2
+const MAX_OPTIONS = 10
+
+interface CreatePollModalProps {
+  isOpen: boolean
+  onClose: () => void
+  channelId: string
+}
+
+export function CreatePollModal({ isOpen, onClose, channelId }: CreatePollModalProps) {
+  const { createPoll, creating } = usePolls()
+  const [question, setQuestion] = useState("")
+  const [options, setOptions] = useState<string[]>(["", ""])
+  const [allowMultiple, setAllowMultiple] = useState(false)
+  const [isAnonymous, setIsAnonymous] = useState(false)
+  const [hasCloseTime, setHasCloseTime] = useState(false)
+  const [closesAt, setClosesAt] = useState(() => toDateTimeLocalValue(addDays(new Date(), 1)))
+
+  const filledOptions = options.map(option => option.trim()).filter(Boolean)
+  const hasDuplicates = new Set(filledOptions.map(option => option.toLowerCase())).size !== filledOptions.length
+  const closeDate = hasCloseTime && closesAt ? new Date(closesAt) : null
+  const closeTimeValid = !hasCloseTime || (!!closeDate && !isNaN(closeDate.getTime()) && closeDate.getTime() > Date.now())
+  const isValid = !!question.trim() && filledOptions.length >= MIN_OPTIONS && !hasDuplicates && closeTimeValid
+
+  const reset = () => {
+    setQuestion("")
+    setOptions(["", ""])
+    setAllowMultiple(false)
+    setIsAnonymous(false)
+    setHasCloseTime(false)
+    setClosesAt(toDateTimeLocalValue(addDays(new Date(), 1)))
+  }
+
+  const handleClose = () => {
+    reset()
+    onClose()
+  }
+
+  const updateOption = (index: number, value: string) => {
+    setOptions(current => current.map((option, i) => (i === index ? value : option)))
+  }
+
+  const removeOption = (index: number) => {
+    setOptions(current => current.filter((_, i) => i !== index))
+  }
+
+  const handleSubmit = async () => {
+    if (!isValid) return
+    try {
+      await createPoll({
+        channel_id: channelId,
+        question: question.trim(),
+        options: filledOptions,
+        allow_multiple: allowMultiple,
+        is_anonymous: isAnonymous,
+        closes_at: closeDate ? closeDate.toISOString() : undefined,
+      })
+      handleClose()
+    } catch {
+      // Error toast is shown by the hook
+    }
+  }
+
+  return (
+    <CustomModal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Create poll"
+      modalSize="md"
+      actions={
+        <>
+          <Button variant="outline" onClick={handleClose} disabled={creating}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid || creating}>
+            {creating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Post poll
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="poll-question" className="text-sm">Question</Label>
+          <Input
+            id="poll-question"
+            value={question}
+            maxLength={300}
+            placeholder="Ask something..."
+            onChange={(e) => setQuestion(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm">Options</Label>
+          {options.map((option, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={option}
+                maxLength={100}
+                placeholder={`Option ${index + 1}`}
+                onChange={(e) => updateOption(index, e.target.value)}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                title="Remove option"
+                disabled={options.length <= MIN_OPTIONS}
+                onClick={() => removeOption(index)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {hasDuplicates && <p className="text-xs text-destructive">Options must be unique</p>}
+          {options.length < MAX_OPTIONS && (
+            <Button variant="ghost" size="sm" onClick={() => setOptions(current => [...current, ""])}>
+              <Plus className="mr-1 h-4 w-4" />
+              Add option
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-3 rounded-lg border border-border p-3">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="poll-multiple" className="text-sm font-normal">Allow multiple answers</Label>
+            <Switch id="poll-multiple" checked={allowMultiple} onCheckedChange={setAllowMultiple} />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="poll-anonymous" className="text-sm font-normal">Anonymous voting</Label>
+              <p className="text-xs text-muted-foreground">Only vote counts are shown, not who voted</p>
+            </div>
+            <Switch id="poll-anonymous" checked={isAnonymous} onCheckedChange={setIsAnonymous} />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="poll-close-time" className="text-sm font-normal">Close automatically</Label>
+            <Switch id="poll-close-time" checked={hasCloseTime} onCheckedChange={setHasCloseTime} />
+          </div>
+          {hasCloseTime && (
+            <Input
+              type="datetime-local"
+              value={closesAt}
+              min={toDateTimeLocalValue(new Date())}
+              onChange={(e) => setClosesAt(e.target.value)}
+            />
+          )}
+        </div>
+      </div>
+    </CustomModal>
+  )
+}
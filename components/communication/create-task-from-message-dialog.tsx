@@ -0,0 +1,42 @@
+"use client"
+
+import { useEffect, useMemo } from "react"
+import { TaskModal } from "@/components/projects/TaskModal"
+import { useTaskDraftFromMessage } from "@/hooks/use-task-from-message"
+import type { Task } from "@/types"
+
+interface CreateTaskFromMessageDialogProps {
+  messageId: string
+  onClose: () => void
+}
+
+// Task form pre-filled from a chat message; the task links back to the message
+export function CreateTaskFromMessageDialog({ messageId, onClose }: CreateTaskFromMessageDialogProps) {
+  const { draft, error } = useTaskDraftFromMessage(messageId)
+
+  // Nothing to show if the draft can't be built; the hook has already explained why
+  useEffect(() => {
+    if (error) onClose()
+  }, [error, onClose])
+
+  // Defaults for the create form; memoized so the form is only reset once
+  const defaults = useMemo(() => draft && ({
+    title: draft.title,
+    description: draft.description,
+    sourceMessage: draft.sourceMessage,
+  } as Task), [draft])
+
+  if (!draft || !defaults) return null
+
+  return (
+    <TaskModal
+      isOpen
+      onClose={onClose}
+      mode="create"
+      task={defaults}
+      projectId={draft.projectId}
+      departmentId={draft.departmentId}
+      departmentName={draft.departmentName}
+    />
+  )
+}
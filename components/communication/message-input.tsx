@@ -1,13 +1,18 @@
 "use client"
 
 import { useState, useRef, useImperativeHandle, forwardRef } from "react"
+import { CalendarClock } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { CreateMessageData, ICommunication, IChannelMember, IAttachment } from "@/types/communication"
 import { useToast } from "@/hooks/use-toast"
+import { useScheduledMessages } from "@/hooks/use-scheduled-messages"
+import { useSlashCommands } from "@/hooks/use-slash-commands"
 import {
   TooltipProvider,
 } from "@/components/ui/tooltip"
 import RichMessageEditor, { RichMessageEditorRef } from "./rich-message-editor"
+import { ScheduledMessagesPanel } from "./scheduled-messages-panel"
+import { CreatePollModal } from "./create-poll-modal"
 
 export interface MessageInputRef {
   setReplyTo: (message: ICommunication | null) => void
@@ -25,6 +30,10 @@ interface MessageInputProps {
   disabled?: boolean
   placeholder?: string
   allowAttachments?: boolean
+  allowScheduling?: boolean
+  allowPolls?: boolean
+  allowCommands?: boolean // Run "/command" text as a slash command instead of sending it
+  threadParentId?: string // Every message sent from this input is a reply in this thread
   maxLength?: number
   className?: string
   onTyping?: () => void
@@ -42,6 +51,10 @@ export const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(({
   disabled = false,
   placeholder = "Type a message...",
   allowAttachments = true,
+  allowScheduling = false,
+  allowPolls = false,
+  allowCommands = false,
+  threadParentId,
   maxLength = 5000,
   className,
   onTyping,
@@ -56,10 +69,14 @@ export const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(({
   const [uploadProgress, setUploadProgress] = useState(0)
   const [replyTo, setReplyTo] = useState<ICommunication | null>(null)
   const [editMessage, setEditMessage] = useState<ICommunication | null>(null)
+  const [showScheduledMessages, setShowScheduledMessages] = useState(false)
+  const [showCreatePoll, setShowCreatePoll] = useState(false)
   
   const editorRef = useRef<RichMessageEditorRef | null>(null)
   
   const { toast } = useToast()
+  const { scheduledMessages, scheduleMessage } = useScheduledMessages(allowScheduling ? channelId : null)
+  const { commands, isSlashCommand, runCommand } = useSlashCommands(allowCommands)
 
   // Expose methods to parent
   useImperativeHandle(ref, () => ({
@@ -94,6 +111,17 @@ export const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(({
     if (disabled || isUploading) return false
 
     try {
+      if (allowCommands && !editMessageId && files.length === 0 && isSlashCommand(text)) {
+        try {
+          await runCommand(channelId, text, replyToId || threadParentId)
+        } catch {
+          // The hook has shown the error; keep the text so it can be fixed
+          return false
+        }
+        setReplyTo(null)
+        return true
+      }
+
       const contentToSend = html && html.trim().length > 0 ? html.trim() : (text || "").trim()
 
       const messageData: CreateMessageData = {
@@ -101,7 +129,7 @@ export const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(({
         content: contentToSend,
         content_type: files.length > 0 ? 'file' : 'text',
         mongo_mentioned_user_ids: mentionedUserIds.length > 0 ? mentionedUserIds : undefined,
-        parent_message_id: replyToId
+        parent_message_id: replyToId || threadParentId
       }
 
       if (editMessageId && onEdit) {
@@ -151,6 +179,32 @@ export const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(({
     }
   }
 
+  // Handler the editor will call when the user picks a later send time
+  const handleScheduleFromEditor = async (
+    html: string,
+    text: string,
+    mentionedUserIds: string[],
+    replyToId: string | undefined,
+    sendAt: Date
+  ) => {
+    if (!text || text.trim().length === 0) return false
+    if (disabled) return false
+
+    try {
+      await scheduleMessage({
+        content: html && html.trim().length > 0 ? html.trim() : text.trim(),
+        mongo_mentioned_user_ids: mentionedUserIds,
+        parent_message_id: replyToId || threadParentId,
+        send_at: sendAt.toISOString()
+      })
+      setReplyTo(null)
+      return true
+    } catch {
+      // Error toast is shown by the hook
+      return false
+    }
+  }
+
   return (
     <TooltipProvider>
       <div className={cn("border-t bg-card p-2", className)}>
@@ -170,6 +224,18 @@ export const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(({
           </div>
         )}
         
+        {/* Pending scheduled messages */}
+        {allowScheduling && scheduledMessages.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setShowScheduledMessages(true)}
+            className="mb-2 flex items-center gap-1.5 px-2 text-xs text-muted-foreground hover:text-primary"
+          >
+            <CalendarClock className="h-3.5 w-3.5" />
+            {scheduledMessages.length} scheduled {scheduledMessages.length === 1 ? "message" : "messages"} in this conversation
+          </button>
+        )}
+
         {/* Input area */}
         <div className="flex items-end gap-2">
           {/* Rich Text Editor */}
@@ -188,6 +254,8 @@ export const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(({
               onStopTyping={onStopTyping}
               onSend={handleSendFromEditor}
               onSendVoice={onSendVoice}
+              onScheduleSend={allowScheduling ? handleScheduleFromEditor : undefined}
+              onCreatePoll={allowPolls ? () => setShowCreatePoll(true) : undefined}
               channelMembers={channelMembers}
               replyTo={replyTo}
               editMessage={editMessage}
@@ -199,6 +267,7 @@ export const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(({
               onCancelReply={() => setReplyTo(null)}
               onCancelEdit={() => setEditMessage(null)}
               channelType={channelType}
+              slashCommands={allowCommands ? commands : undefined}
             />
           </div>
         </div>
@@ -207,6 +276,22 @@ export const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(({
         <div className="mt-1 text-xs text-muted-foreground">
           Press Enter to send, Shift + Enter for new line (or new list item)
         </div>
+
+        {allowScheduling && (
+          <ScheduledMessagesPanel
+            isOpen={showScheduledMessages}
+            onClose={() => setShowScheduledMessages(false)}
+            channelId={channelId}
+          />
+        )}
+
+        {allowPolls && (
+          <CreatePollModal
+            isOpen={showCreatePoll}
+            onClose={() => setShowCreatePoll(false)}
+            channelId={channelId}
+          />
+        )}
       </div>
     </TooltipProvider>
   )
@@ -21,6 +21,11 @@ import {
   EyeOff,
   Forward,
   CheckSquare,
+  AlarmClock,
+  MessagesSquare,
+  SquareSlash,
+  ListTodo,
+  Info,
   X
 } from "lucide-react"
 import { cn } from "@/lib/utils"
@@ -35,6 +40,9 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import {
@@ -46,6 +54,8 @@ import {
 
 import { IReadReceipt } from "@/types/communication"
 import HtmlTextRenderer, { extractTextFromHtml } from "../shared/html-text-renderer"
+import { getMessageReminderPresets } from "./message-reminder-dialog"
+import { PollMessage } from "./poll-message"
 
 interface MessageListProps {
   messages: ICommunication[]
@@ -61,6 +71,10 @@ interface MessageListProps {
   onScrollToMessage?: (messageId: string) => void
   onLoadMore?: () => Promise<{ messages: ICommunication[]; hasMore: boolean }>
   onForwardMessages?: (messageIds: string[]) => void
+  onRemindMe?: (message: ICommunication, remindAt?: Date) => void // No time means "pick a custom time"
+  onOpenThread?: (message: ICommunication) => void
+  onDismissEphemeral?: (messageId: string) => void
+  onCreateTask?: (message: ICommunication) => void
   hasMoreMessages?: boolean
   isLoadingMore?: boolean
   className?: string
@@ -72,6 +86,51 @@ interface MessageListProps {
   onToggleSelectMode?: () => void
 }
 
+// Slash command reply, shown only to the person who ran the command
+function EphemeralMessage({ message, onDismiss }: { message: ICommunication; onDismiss?: (messageId: string) => void }) {
+  return (
+    <div className="mx-3 my-1.5 flex items-start gap-2 rounded-md border border-dashed bg-muted/40 px-3 py-2">
+      <SquareSlash className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+      <div className="min-w-0 flex-1">
+        <HtmlTextRenderer
+          content={message.content}
+          fallbackText=""
+          showFallback={false}
+          renderAsHtml={true}
+          className="text-[13px] leading-snug [overflow-wrap:anywhere] [&_a]:text-primary [&_a]:underline"
+          truncateHtml={false}
+        />
+        <p className="mt-0.5 text-[11px] text-muted-foreground">Only visible to you</p>
+      </div>
+      {onDismiss && (
+        <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" title="Dismiss" onClick={() => onDismiss(message.id)}>
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      )}
+    </div>
+  )
+}
+
+// Notice posted by the server, e.g. a task created from a message
+function SystemMessage({ message, messageRef }: { message: ICommunication; messageRef: (el: HTMLDivElement | null) => void }) {
+  return (
+    <div ref={messageRef} data-message-id={message.id} className="mx-3 my-1.5 flex justify-center">
+      <div className="flex max-w-[85%] items-start gap-1.5 rounded-full bg-muted/60 px-3 py-1 text-muted-foreground">
+        <Info className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+        <HtmlTextRenderer
+          content={message.content}
+          fallbackText=""
+          showFallback={false}
+          renderAsHtml={true}
+          className="text-xs leading-snug [overflow-wrap:anywhere] [&_a]:text-primary [&_a]:underline"
+          truncateHtml={false}
+        />
+        <span className="shrink-0 text-[10px] leading-5">{format(new Date(message.created_at), 'HH:mm')}</span>
+      </div>
+    </div>
+  )
+}
+
 export function MessageList({
   messages,
   typingUsers,
@@ -86,6 +145,10 @@ export function MessageList({
   onScrollToMessage,
   onLoadMore,
   onForwardMessages,
+  onRemindMe,
+  onOpenThread,
+  onDismissEphemeral,
+  onCreateTask,
   hasMoreMessages = true,
   isLoadingMore = false,
   className,
@@ -197,7 +260,7 @@ export function MessageList({
 
               // Mark as read if not from current user
               const message = messages.find(m => m.id === messageId)
-              if (message && message.mongo_sender_id !== currentUserId && !message.read_receipts?.length && onMessageRead) {
+              if (message && !message.is_ephemeral && message.mongo_sender_id !== currentUserId && !message.read_receipts?.length && onMessageRead) {
                 onMessageRead(messageId)
               }
             }
@@ -496,7 +559,13 @@ export function MessageList({
                       Reply
                     </DropdownMenuItem>
                   )}
-                  {isOwn && onEdit && (
+                  {onOpenThread && !message.parent_message_id && !message.isOptimistic && (
+                    <DropdownMenuItem onClick={() => onOpenThread(message)} className="text-xs py-1.5">
+                      <MessagesSquare className="h-3.5 w-3.5 mr-2" />
+                      Reply in thread
+                    </DropdownMenuItem>
+                  )}
+                  {isOwn && onEdit && message.content_type !== 'poll' && (
                     <DropdownMenuItem onClick={() => onEdit(message)} className="text-xs py-1.5">
                       <Edit className="h-3.5 w-3.5 mr-2" />
                       Edit
@@ -511,6 +580,39 @@ export function MessageList({
                     </DropdownMenuItem>
                   )}
 
+                  {/* Remind me about this */}
+                  {onRemindMe && (
+                    <DropdownMenuSub>
+                      <DropdownMenuSubTrigger className="text-xs py-1.5">
+                        <AlarmClock className="h-3.5 w-3.5 mr-2" />
+                        Remind me
+                      </DropdownMenuSubTrigger>
+                      <DropdownMenuSubContent className="min-w-[160px]">
+                        {getMessageReminderPresets(new Date()).map(preset => (
+                          <DropdownMenuItem
+                            key={preset.label}
+                            onClick={() => onRemindMe(message, preset.date)}
+                            className="text-xs py-1.5"
+                          >
+                            {preset.label}
+                          </DropdownMenuItem>
+                        ))}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => onRemindMe(message)} className="text-xs py-1.5">
+                          Custom time...
+                        </DropdownMenuItem>
+                      </DropdownMenuSubContent>
+                    </DropdownMenuSub>
+                  )}
+
+                  {/* Turn the message into a task in the channel's project */}
+                  {onCreateTask && !message.isOptimistic && message.content_type !== 'poll' && (
+                    <DropdownMenuItem onClick={() => onCreateTask(message)} className="text-xs py-1.5">
+                      <ListTodo className="h-3.5 w-3.5 mr-2" />
+                      Create task
+                    </DropdownMenuItem>
+                  )}
+
                   {/* Select for multi-forward */}
                   {onToggleSelectMode && (
                     <DropdownMenuItem onClick={() => {
@@ -597,7 +699,9 @@ export function MessageList({
             )}
 
             {/* Render content based on type */}
-            {message.content_type === 'audio' && message.attachments && message.attachments.length > 0 ? (
+            {message.content_type === 'poll' && message.poll ? (
+              <PollMessage poll={message.poll} currentUserId={currentUserId} isOwn={isOwn} />
+            ) : message.content_type === 'audio' && message.attachments && message.attachments.length > 0 ? (
               <div className="space-y-2">
                 {/* Voice message content */}
                 {message.content && message.content !== '🎤 Voice message' && (
@@ -709,6 +813,24 @@ export function MessageList({
             />
           )}
 
+          {/* Thread replies */}
+          {onOpenThread && !message.parent_message_id && message.reply_count > 0 && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation()
+                onOpenThread(message)
+              }}
+              className={cn(
+                "flex items-center gap-1 text-[11px] font-medium text-primary hover:underline",
+                isOwn ? "self-end" : "self-start"
+              )}
+            >
+              <MessagesSquare className="h-3 w-3" />
+              {message.reply_count} {message.reply_count === 1 ? "reply" : "replies"}
+            </button>
+          )}
+
           {/* Status and read receipts UI */}
           <div className={cn("flex items-center gap-0.5 text-[10px] text-muted-foreground", isOwn && "justify-end")}>
             {isOwn && (
@@ -841,7 +963,17 @@ export function MessageList({
             </div>
           ) : (
             <>
-              {messages.map((message) => (
+              {messages.map((message) => message.is_ephemeral ? (
+                <EphemeralMessage key={message.id} message={message} onDismiss={onDismissEphemeral} />
+              ) : message.content_type === 'system' ? (
+                <SystemMessage
+                  key={message.id}
+                  message={message}
+                  messageRef={(el) => {
+                    if (el) messageRefs.current.set(message.id, el)
+                  }}
+                />
+              ) : (
                 <MessageItem
                   key={message.id}
                   message={message}
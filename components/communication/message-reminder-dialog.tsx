@@ -0,0 +1,74 @@
+"use client"
+
+import { useState } from "react"
+import { addDays, addHours, addMinutes, startOfDay } from "date-fns"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import CustomModal from "@/components/shared/custom-modal"
+import { toDateTimeLocalValue } from "./schedule-send-picker"
+
+// Quick picks shown in the message actions menu
+export const getMessageReminderPresets = (now: Date) => [
+  { label: "In 20 minutes", date: addMinutes(now, 20) },
+  { label: "In 1 hour", date: addHours(now, 1) },
+  { label: "Tomorrow morning", date: addHours(startOfDay(addDays(now, 1)), 9) },
+]
+
+interface MessageReminderDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onConfirm: (remindAt: Date) => Promise<void>
+}
+
+export function MessageReminderDialog({ isOpen, onClose, onConfirm }: MessageReminderDialogProps) {
+  const [value, setValue] = useState(() => toDateTimeLocalValue(addHours(new Date(), 1)))
+  const [saving, setSaving] = useState(false)
+
+  const remindAt = value ? new Date(value) : null
+  const isValid = !!remindAt && !isNaN(remindAt.getTime()) && remindAt.getTime() > Date.now()
+
+  const handleConfirm = async () => {
+    if (!remindAt || !isValid) return
+    setSaving(true)
+    try {
+      await onConfirm(remindAt)
+      onClose()
+    } catch {
+      // Error toast is shown by the hook
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <CustomModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Remind me about this"
+      modalSize="sm"
+      actions={
+        <>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!isValid || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Set reminder
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-2">
+        <Label className="text-sm">Remind me at</Label>
+        <Input
+          type="datetime-local"
+          value={value}
+          min={toDateTimeLocalValue(new Date())}
+          onChange={(e) => setValue(e.target.value)}
+        />
+      </div>
+    </CustomModal>
+  )
+}
@@ -0,0 +1,149 @@
+"use client"
+
+import { useState } from "react"
+import { format, formatDistanceToNow } from "date-fns"
+import { AlarmClock, Check, Hash, Loader2, StickyNote, X } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import CustomModal from "@/components/shared/custom-modal"
+import { extractTextFromHtml } from "@/components/shared/html-text-renderer"
+import { useMessageReminders } from "@/hooks/use-message-reminders"
+import type { IMessageReminder } from "@/types/communication"
+
+interface MessageRemindersPanelProps {
+  isOpen: boolean
+  onClose: () => void
+  onMessageSelect: (channelId: string, messageId: string, createdAt?: string) => void
+  onChannelSelect: (channelId: string) => void
+}
+
+const getInitials = (name: string | undefined) =>
+  (name || "?").split(" ").map(n => n[0]).join("").toUpperCase().slice(0, 2)
+
+export function MessageRemindersPanel({ isOpen, onClose, onMessageSelect, onChannelSelect }: MessageRemindersPanelProps) {
+  const { upcoming, completed, isLoading, removeReminder } = useMessageReminders(isOpen)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  const handleOpen = (reminder: IMessageReminder) => {
+    if (reminder.message_id && reminder.messages) {
+      onMessageSelect(reminder.channel_id, reminder.message_id, reminder.messages.created_at)
+    } else {
+      onChannelSelect(reminder.channel_id)
+    }
+    onClose()
+  }
+
+  const handleRemove = async (reminder: IMessageReminder) => {
+    setRemovingId(reminder.id)
+    try {
+      await removeReminder(reminder.id)
+    } catch {
+      // Error toast is shown by the hook
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  const renderReminder = (reminder: IMessageReminder) => {
+    const isDone = reminder.status === "sent"
+    const remindAt = new Date(reminder.remind_at)
+    const message = reminder.messages
+
+    return (
+      <div
+        key={reminder.id}
+        role="button"
+        tabIndex={0}
+        onClick={() => handleOpen(reminder)}
+        onKeyDown={(e) => e.key === "Enter" && handleOpen(reminder)}
+        className="flex w-full cursor-pointer gap-3 rounded-lg border border-border p-3 text-left transition-colors hover:bg-muted/50"
+      >
+        {message ? (
+          <Avatar className="h-8 w-8 shrink-0">
+            <AvatarImage src={message.sender_avatar || undefined} alt={message.sender_name} />
+            <AvatarFallback className="text-xs">{getInitials(message.sender_name)}</AvatarFallback>
+          </Avatar>
+        ) : (
+          <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-muted">
+            <StickyNote className="h-4 w-4 text-muted-foreground" />
+          </div>
+        )}
+        <div className="min-w-0 flex-1 space-y-1">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="truncate text-sm font-semibold">{message ? message.sender_name : "Note"}</span>
+            <Badge variant="secondary" className="shrink-0 gap-1 text-[10px]">
+              {reminder.channels.type !== "dm" && <Hash className="h-3 w-3" />}
+              {reminder.channels.type === "dm" ? "Direct message" : reminder.channels.name || "Channel"}
+            </Badge>
+          </div>
+          <p className="line-clamp-2 text-sm text-muted-foreground">
+            {message ? extractTextFromHtml(message.content) || "Attachment" : reminder.note}
+          </p>
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <AlarmClock className="h-3 w-3" />
+            {isDone
+              ? `Reminded ${formatDistanceToNow(new Date(reminder.notified_at || reminder.remind_at), { addSuffix: true })}`
+              : format(remindAt, "EEE, MMM d 'at' h:mm a")}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 shrink-0"
+          title={isDone ? "Mark as done" : "Cancel reminder"}
+          disabled={removingId === reminder.id}
+          onClick={(e) => {
+            e.stopPropagation()
+            handleRemove(reminder)
+          }}
+        >
+          {removingId === reminder.id
+            ? <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            : isDone ? <Check className="h-3.5 w-3.5" /> : <X className="h-3.5 w-3.5" />}
+        </Button>
+      </div>
+    )
+  }
+
+  const renderList = (reminders: IMessageReminder[], emptyText: string) => (
+    <ScrollArea className="h-[420px] pr-2">
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : reminders.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-center text-muted-foreground">
+          <AlarmClock className="mb-3 h-10 w-10 opacity-40" />
+          <p className="text-sm">{emptyText}</p>
+        </div>
+      ) : (
+        <div className="space-y-2">{reminders.map(renderReminder)}</div>
+      )}
+    </ScrollArea>
+  )
+
+  return (
+    <CustomModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Saved & Reminders"
+      modalSize="lg"
+    >
+      <Tabs defaultValue="upcoming">
+        <TabsList className="mb-3">
+          <TabsTrigger value="upcoming">Upcoming ({upcoming.length})</TabsTrigger>
+          <TabsTrigger value="completed">Completed ({completed.length})</TabsTrigger>
+        </TabsList>
+        <TabsContent value="upcoming">
+          {renderList(upcoming, 'No upcoming reminders. Use "Remind me" on any message.')}
+        </TabsContent>
+        <TabsContent value="completed">
+          {renderList(completed, "Reminders you've been notified about appear here")}
+        </TabsContent>
+      </Tabs>
+    </CustomModal>
+  )
+}
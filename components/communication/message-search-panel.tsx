@@ -0,0 +1,237 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import DOMPurify from "dompurify"
+import { formatDistanceToNow } from "date-fns"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import CustomModal from "@/components/shared/custom-modal"
+import { SearchableSelect } from "@/components/shared/generic-form"
+import { Hash, Loader2, MessageSquare, Paperclip, Search } from "lucide-react"
+import { useDebounceSearch } from "@/hooks/use-debounced-search"
+import { useMessageSearch } from "@/hooks/use-message-search"
+import type { IChannel, IMessageSearchResult, MessageSearchFilters } from "@/types/communication"
+
+interface MessageSearchPanelProps {
+  isOpen: boolean
+  onClose: () => void
+  channels: IChannel[]
+  onChannelSelect: (channelId: string) => void
+}
+
+const CHANNEL_TYPE_OPTIONS = [
+  { label: "All channel types", value: "all" },
+  { label: "Direct messages", value: "dm" },
+  { label: "Group", value: "group" },
+  { label: "Project", value: "project" },
+  { label: "Department", value: "department" },
+  { label: "Client support", value: "client-support" },
+]
+
+type SearchFilterState = Omit<MessageSearchFilters, "q" | "limit" | "offset">
+
+const getInitials = (name: string | undefined) =>
+  (name || "?").split(" ").map(n => n[0]).join("").toUpperCase().slice(0, 2)
+
+// Snippets are plain text from the server with matches wrapped in <mark>
+const renderSnippet = (snippet: string) => ({
+  __html: DOMPurify.sanitize(snippet, { ALLOWED_TAGS: ["mark"], ALLOWED_ATTR: [] })
+})
+
+export function MessageSearchPanel({ isOpen, onClose, channels, onChannelSelect }: MessageSearchPanelProps) {
+  const [query, setQuery] = useState("")
+  const [filters, setFilters] = useState<SearchFilterState>({})
+  const { searchTerm, setSearchTerm, isSearching } = useDebounceSearch({ onSearch: setQuery, delay: 400 })
+
+  const { results, total, hasMore, loadMore, isLoading, isLoadingMore, error } = useMessageSearch(
+    { q: query, ...filters },
+    isOpen
+  )
+
+  // Anyone the user shares a channel with can be filtered on
+  const senderOptions = useMemo(() => {
+    const senders = new Map<string, string>()
+    channels.forEach(channel => {
+      channel.channel_members?.forEach(member => {
+        if (member.mongo_member_id && !senders.has(member.mongo_member_id)) {
+          senders.set(member.mongo_member_id, member.name || member.email || "Unknown user")
+        }
+      })
+    })
+    return [
+      { label: "Anyone", value: "all" },
+      ...[...senders.entries()]
+        .map(([value, label]) => ({ label, value }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    ]
+  }, [channels])
+
+  const updateFilter = (changes: Partial<SearchFilterState>) => {
+    setFilters(current => ({ ...current, ...changes }))
+  }
+
+  const getChannelLabel = (result: IMessageSearchResult) => {
+    if (result.channel_type === "dm") return "Direct message"
+    return result.channel_name ? `#${result.channel_name}` : "Channel"
+  }
+
+  const handleOpenResult = (result: IMessageSearchResult) => {
+    onChannelSelect(result.channel_id)
+    onClose()
+  }
+
+  const hasActiveFilters = Object.values(filters).some(Boolean)
+
+  return (
+    <CustomModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Search Messages"
+      modalSize="lg"
+    >
+      <div className="space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            autoFocus
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder='Search all conversations, e.g. invoice -draft or "release notes"'
+            className="pl-9"
+          />
+          {(isSearching || (isLoading && !!query)) && (
+            <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">From</Label>
+            <SearchableSelect
+              options={senderOptions}
+              value={filters.sender_id || "all"}
+              onValueChange={(value) => updateFilter({ sender_id: value === "all" ? undefined : value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Channel type</Label>
+            <SearchableSelect
+              options={CHANNEL_TYPE_OPTIONS}
+              value={filters.channel_type || "all"}
+              onValueChange={(value) => updateFilter({ channel_type: value === "all" ? undefined : value as IChannel["type"] })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">After</Label>
+            <Input
+              type="date"
+              value={filters.from || ""}
+              max={filters.to}
+              onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Before</Label>
+            <Input
+              type="date"
+              value={filters.to || ""}
+              min={filters.from}
+              onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={!!filters.has_attachment}
+              onCheckedChange={(checked) => updateFilter({ has_attachment: checked ? true : undefined })}
+            />
+            Has attachment
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={!!filters.mentions_me}
+              onCheckedChange={(checked) => updateFilter({ mentions_me: checked ? true : undefined })}
+            />
+            Mentions me
+          </label>
+          {hasActiveFilters && (
+            <Button variant="ghost" size="sm" className="ml-auto h-7 text-xs" onClick={() => setFilters({})}>
+              Clear filters
+            </Button>
+          )}
+        </div>
+
+        <ScrollArea className="h-[420px] pr-2">
+          {!query ? (
+            <div className="flex flex-col items-center justify-center py-16 text-center text-muted-foreground">
+              <Search className="mb-3 h-10 w-10 opacity-40" />
+              <p className="text-sm">Search messages in every channel you belong to</p>
+            </div>
+          ) : error ? (
+            <div className="py-16 text-center text-sm text-destructive">
+              {(error as any)?.error || "Search failed. Please try again."}
+            </div>
+          ) : !isLoading && results.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16 text-center text-muted-foreground">
+              <MessageSquare className="mb-3 h-10 w-10 opacity-40" />
+              <p className="text-sm">No messages match your search</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {results.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {total} {total === 1 ? "result" : "results"}
+                </p>
+              )}
+              {results.map(result => (
+                <button
+                  key={result.id}
+                  type="button"
+                  onClick={() => handleOpenResult(result)}
+                  className="flex w-full gap-3 rounded-lg border border-border p-3 text-left transition-colors hover:bg-muted/50"
+                >
+                  <Avatar className="h-8 w-8 shrink-0">
+                    <AvatarImage src={result.sender_avatar || undefined} alt={result.sender_name} />
+                    <AvatarFallback className="text-xs">{getInitials(result.sender_name)}</AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="truncate font-semibold text-sm">{result.sender_name}</span>
+                      <Badge variant="secondary" className="shrink-0 gap-1 text-[10px]">
+                        {result.channel_type !== "dm" && <Hash className="h-3 w-3" />}
+                        {getChannelLabel(result)}
+                      </Badge>
+                      {result.has_attachments && <Paperclip className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                      <span className="ml-auto shrink-0 text-muted-foreground">
+                        {formatDistanceToNow(new Date(result.created_at), { addSuffix: true })}
+                      </span>
+                    </div>
+                    <p
+                      className="line-clamp-3 text-sm text-muted-foreground [&_mark]:rounded-sm [&_mark]:bg-yellow-200 [&_mark]:px-0.5 [&_mark]:text-foreground dark:[&_mark]:bg-yellow-500/40"
+                      dangerouslySetInnerHTML={renderSnippet(result.snippet)}
+                    />
+                  </div>
+                </button>
+              ))}
+              {hasMore && (
+                <div className="flex justify-center pt-2">
+                  <Button variant="outline" size="sm" onClick={() => loadMore()} disabled={isLoadingMore}>
+                    {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Load more
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </ScrollArea>
+      </div>
+    </CustomModal>
+  )
+}
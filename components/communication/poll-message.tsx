@@ -0,0 +1,179 @@
+"use client"
+
+import { useState } from "react"
+import { format, formatDistanceToNow } from "date-fns"
+import { BarChart3, Check, Loader2, Lock } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip"
+import { cn } from "@/lib/utils"
+import { usePolls } from "@/hooks/use-polls"
+import type { IPollSummary } from "@/types/communication"
+
+interface PollMessageProps {
+  poll: IPollSummary
+  currentUserId: string
+  isOwn?: boolean
+}
+
+export function PollMessage({ poll, currentUserId, isOwn = false }: PollMessageProps) {
+  const { votePoll, closePoll } = usePolls()
+  const [pendingOptionId, setPendingOptionId] = useState<string | null>(null)
+  const [closing, setClosing] = useState(false)
+
+  // closes_at may pass while the message is on screen
+  const isClosed = poll.is_closed || (!!poll.closes_at && new Date(poll.closes_at).getTime() <= Date.now())
+  const myOptionIds = poll.my_option_ids || []
+  const hasVoted = myOptionIds.length > 0
+  const showResults = hasVoted || isClosed
+  const canClosePoll = !isClosed && poll.mongo_creator_id === currentUserId
+
+  const handleSelect = async (optionId: string) => {
+    if (isClosed || pendingOptionId) return
+
+    const isSelected = myOptionIds.includes(optionId)
+    let optionIds: string[]
+    if (poll.allow_multiple) {
+      optionIds = isSelected ? myOptionIds.filter(id => id !== optionId) : [...myOptionIds, optionId]
+    } else {
+      optionIds = isSelected ? [] : [optionId]
+    }
+
+    setPendingOptionId(optionId)
+    try {
+      await votePoll(poll.id, optionIds)
+    } catch {
+      // Error toast is shown by the hook
+    } finally {
+      setPendingOptionId(null)
+    }
+  }
+
+  const handleClose = async () => {
+    setClosing(true)
+    try {
+      await closePoll(poll.id)
+    } catch {
+      // Error toast is shown by the hook
+    } finally {
+      setClosing(false)
+    }
+  }
+
+  const status = isClosed
+    ? `Closed${poll.closed_at || poll.closes_at ? ` ${formatDistanceToNow(new Date(poll.closed_at || poll.closes_at!), { addSuffix: true })}` : ""}`
+    : poll.closes_at
+      ? `Closes ${format(new Date(poll.closes_at), "MMM d 'at' h:mm a")}`
+      : null
+
+  return (
+    <div className={cn("w-72 max-w-full space-y-2 text-left", isOwn && "text-white")}>
+      <div className="flex items-start gap-2">
+        <BarChart3 className="mt-0.5 h-4 w-4 shrink-0" />
+        <p className="text-[13px] font-semibold leading-snug [overflow-wrap:anywhere]">{poll.question}</p>
+      </div>
+
+      <p className={cn("text-[11px]", isOwn ? "text-primary-foreground/70" : "text-muted-foreground")}>
+        {poll.allow_multiple ? "Select one or more" : "Select one"}
+        {poll.is_anonymous && " · Anonymous"}
+      </p>
+
+      <div className="space-y-1.5">
+        {poll.options.map(option => {
+          const isSelected = myOptionIds.includes(option.id)
+          const percent = poll.total_voters > 0 ? Math.round((option.vote_count / poll.total_voters) * 100) : 0
+          const voterNames = option.voters?.map(voter => voter.name) || []
+
+          const optionButton = (
+            <button
+              type="button"
+              disabled={isClosed || !!pendingOptionId}
+              onClick={() => handleSelect(option.id)}
+              className={cn(
+                "relative w-full overflow-hidden rounded-md border px-2.5 py-1.5 text-left text-[13px] transition-colors",
+                isOwn ? "border-primary-foreground/30" : "border-border",
+                !isClosed && (isOwn ? "hover:bg-primary-foreground/10" : "hover:bg-muted/60"),
+                isSelected && (isOwn ? "border-primary-foreground" : "border-primary"),
+                isClosed && "cursor-default"
+              )}
+            >
+              {showResults && (
+                <span
+                  className={cn(
+                    "absolute inset-y-0 left-0 transition-all",
+                    isOwn ? "bg-primary-foreground/20" : "bg-primary/10"
+                  )}
+                  style={{ width: `${percent}%` }}
+                />
+              )}
+              <span className="relative flex items-center gap-2">
+                <span
+                  className={cn(
+                    "flex h-4 w-4 shrink-0 items-center justify-center border",
+                    poll.allow_multiple ? "rounded-sm" : "rounded-full",
+                    isSelected
+                      ? isOwn ? "border-primary-foreground bg-primary-foreground text-primary" : "border-primary bg-primary text-primary-foreground"
+                      : isOwn ? "border-primary-foreground/50" : "border-muted-foreground/50"
+                  )}
+                >
+                  {pendingOptionId === option.id
+                    ? <Loader2 className="h-3 w-3 animate-spin" />
+                    : isSelected && <Check className="h-3 w-3" />}
+                </span>
+                <span className="min-w-0 flex-1 [overflow-wrap:anywhere]">{option.text}</span>
+                {showResults && (
+                  <span className="shrink-0 text-[11px] font-medium tabular-nums">
+                    {option.vote_count} · {percent}%
+                  </span>
+                )}
+              </span>
+            </button>
+          )
+
+          // Voter names are only available on non-anonymous polls
+          if (!showResults || voterNames.length === 0) {
+            return <div key={option.id}>{optionButton}</div>
+          }
+
+          return (
+            <TooltipProvider key={option.id}>
+              <Tooltip>
+                <TooltipTrigger asChild>{optionButton}</TooltipTrigger>
+                <TooltipContent side="top" className="max-w-xs text-xs">
+                  {voterNames.join(", ")}
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )
+        })}
+      </div>
+
+      <div className={cn(
+        "flex items-center justify-between gap-2 text-[11px]",
+        isOwn ? "text-primary-foreground/70" : "text-muted-foreground"
+      )}>
+        <span className="flex items-center gap-1">
+          {isClosed && <Lock className="h-3 w-3" />}
+          {poll.total_voters} {poll.total_voters === 1 ? "vote" : "votes"}
+          {status && ` · ${status}`}
+        </span>
+        {canClosePoll && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn("h-6 px-2 text-[11px]", isOwn && "text-white hover:bg-primary-foreground/10 hover:text-white")}
+            disabled={closing}
+            onClick={handleClose}
+          >
+            {closing && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+            Close poll
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,7 +3,7 @@
 import React, { useCallback, useEffect, useRef, useImperativeHandle, forwardRef, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
-import { Bold, Italic, Strikethrough, List, ListOrdered, Link, Code, Paperclip, AtSign, Send, X, Smile, TypeIcon, Quote, Reply, Mic } from "lucide-react"
+import { Bold, Italic, Strikethrough, List, ListOrdered, Link, Code, Paperclip, AtSign, Send, X, Smile, TypeIcon, Quote, Reply, Mic, BarChart3 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { useEditor, EditorContent } from '@tiptap/react'
 import Document from '@tiptap/extension-document'
@@ -27,7 +27,9 @@ import { InlineEmojiPicker } from './emoji-picker'
 import { MentionPicker } from './mention-picker'
 import { VoiceRecorder } from './voice-recorder'
 import { MessageInputAttachmentStrip } from './message-input-attachment-strip'
-import { IAttachment, IChannelMember, ICommunication } from '@/types/communication'
+import { ScheduleSendPicker } from './schedule-send-picker'
+import { SlashCommandPicker } from './slash-command-picker'
+import { IAttachment, IChannelMember, ICommunication, ISlashCommand } from '@/types/communication'
 
 export interface RichMessageEditorRef {
     focus: () => void
@@ -47,6 +49,10 @@ interface RichMessageEditorProps {
     onSend?: (html: string, text: string, files: File[], mentionedUserIds: string[], replyToId?: string, editMessageId?: string, attachmentsToRemove?: string[]) => Promise<boolean>
     // Called when voice message is sent
     onSendVoice?: (audioBlob: Blob, duration: number) => Promise<void>
+    // Called when the user picks a later send time. Should resolve true on success.
+    onScheduleSend?: (html: string, text: string, mentionedUserIds: string[], replyToId: string | undefined, sendAt: Date) => Promise<boolean>
+    // Called when the poll button is clicked
+    onCreatePoll?: () => void
     className?: string
     channelMembers?: IChannelMember[] // For @mentions
     replyTo?: ICommunication | null // Reply to message
@@ -56,10 +62,11 @@ interface RichMessageEditorProps {
     onCancelReply?: () => void
     onCancelEdit?: () => void
     channelType?: string // Channel type to conditionally enable mentions
+    slashCommands?: ISlashCommand[] // Offered when the message starts with "/"
 }
 
 const RichMessageEditor = forwardRef<RichMessageEditorRef, RichMessageEditorProps>(
-    ({ value = "", placeholder = "Type a message...", disabled = false, maxLength = 5000, onChange, onTyping, onStopTyping, onSend, onSendVoice, className, channelMembers = [], replyTo, editMessage, existingAttachments = [], onAttachmentRemove, onCancelReply, onCancelEdit, channelType }, ref) => {
+    ({ value = "", placeholder = "Type a message...", disabled = false, maxLength = 5000, onChange, onTyping, onStopTyping, onSend, onSendVoice, onScheduleSend, onCreatePoll, className, channelMembers = [], replyTo, editMessage, existingAttachments = [], onAttachmentRemove, onCancelReply, onCancelEdit, channelType, slashCommands = [] }, ref) => {
         const contentRef = useRef<HTMLDivElement | null>(null)
         const textareaRef = useRef<HTMLTextAreaElement | null>(null)
         const fileInputRef = useRef<HTMLInputElement | null>(null)
@@ -78,6 +85,9 @@ const RichMessageEditor = forwardRef<RichMessageEditorRef, RichMessageEditorProp
         const [mentionQuery, setMentionQuery] = useState("")
         const [mentionedUserIds, setMentionedUserIds] = useState<string[]>([])
 
+        // Slash command state - what follows "/" while the message is just "/name"
+        const [commandQuery, setCommandQuery] = useState<string | null>(null)
+
         // Emoji picker state
         const [showEmojiPicker, setShowEmojiPicker] = useState(false)
         const emojiPickerRef = useRef<HTMLDivElement | null>(null)
@@ -148,6 +158,9 @@ const RichMessageEditor = forwardRef<RichMessageEditorRef, RichMessageEditorProp
                         setMentionQuery("")
                     }
                 }
+
+                const command = text.match(/^\/([\w-]*)$/)
+                setCommandQuery(command ? command[1].toLowerCase() : null)
             },
         })
 
@@ -258,6 +271,7 @@ const RichMessageEditor = forwardRef<RichMessageEditorRef, RichMessageEditorProp
                     editor.commands.setContent('')
                     setAttachments([])
                     setShowMentionPicker(false)
+                    setCommandQuery(null)
                     setMentionedUserIds([])
                     setInternalReplyTo(null)
                     setInternalEditMessage(null)
@@ -499,6 +513,18 @@ const RichMessageEditor = forwardRef<RichMessageEditorRef, RichMessageEditorProp
             return () => document.removeEventListener('click', onDocClick)
         }, [showEmojiPicker])
 
+        // Replace "/ta" with "/task " so the arguments can be typed next
+        const insertSlashCommand = useCallback((command: ISlashCommand) => {
+            editor?.chain().focus().clearContent().insertContent(`/${command.name} `).run()
+            setCommandQuery(null)
+        }, [editor])
+
+        const closeSlashCommandPicker = useCallback(() => setCommandQuery(null), [])
+
+        const matchingCommands = commandQuery !== null && !activeEditMessage
+            ? slashCommands.filter(command => command.name.startsWith(commandQuery))
+            : []
+
         const openMentionPicker = useCallback(() => {
             setShowMentionPicker(true)
             setMentionQuery('')
@@ -511,6 +537,24 @@ const RichMessageEditor = forwardRef<RichMessageEditorRef, RichMessageEditorProp
             onCancelReply?.()
         }, [onCancelReply])
 
+        const handleScheduleSend = useCallback(async (sendAt: Date) => {
+            if (!editor || !onScheduleSend) return false
+            const success = await onScheduleSend(
+                editor.getHTML() || '',
+                editor.getText() || '',
+                mentionedUserIds,
+                activeReplyTo?.id,
+                sendAt
+            )
+            if (success) {
+                editor.commands.setContent('')
+                setShowMentionPicker(false)
+                setMentionedUserIds([])
+                setInternalReplyTo(null)
+            }
+            return success
+        }, [editor, onScheduleSend, mentionedUserIds, activeReplyTo])
+
         const handleCancelEdit = useCallback(() => {
             setInternalEditMessage(null)
             editor?.commands.setContent('')
@@ -658,6 +702,16 @@ const RichMessageEditor = forwardRef<RichMessageEditorRef, RichMessageEditorProp
                                     className="left-2 bottom-full mb-1"
                                 />
                             )}
+
+                            {/* Slash command picker */}
+                            {matchingCommands.length > 0 && (
+                                <SlashCommandPicker
+                                    commands={matchingCommands}
+                                    onSelect={insertSlashCommand}
+                                    onClose={closeSlashCommandPicker}
+                                    className="left-2 bottom-full mb-1"
+                                />
+                            )}
                         </div>
 
                         <div className="flex items-center justify-between px-3 py-2 border-t bg-muted/5">
@@ -708,12 +762,30 @@ const RichMessageEditor = forwardRef<RichMessageEditorRef, RichMessageEditorProp
                                     </button>
                                 )}
 
+                                {/* Poll button */}
+                                {onCreatePoll && !activeEditMessage && (
+                                    <button
+                                        className="border-0 p-2 transition-colors duration-150 hover:text-primary hover:[&>svg]:text-primary hover:[&>svg]:scale-110 [&>svg]:transition-all [&>svg]:duration-150"
+                                        onClick={onCreatePoll}
+                                        title="Create poll"
+                                    >
+                                        <BarChart3 className="h-4 w-4" />
+                                    </button>
+                                )}
+
                             </div>
 
                             <div className="text-xs text-muted-foreground flex items-center gap-1">
                                 <div>
                                     {(editor?.getText() || '').length}/{maxLength}
                                 </div>
+                                {/* Schedule send - text messages only, files are uploaded at send time */}
+                                {onScheduleSend && !activeEditMessage && attachments.length === 0 && (
+                                    <ScheduleSendPicker
+                                        onSchedule={handleScheduleSend}
+                                        disabled={disabled || !(editor?.getText() || '').trim()}
+                                    />
+                                )}
                                 {/* Send/Update button */}
                                 <button
                                     className="border-0 p-2 transition-colors duration-150 hover:text-primary [&>svg]:transition-all [&>svg]:duration-150 hover:[&>svg]:rotate-45 hover:[&>svg]:text-primary hover:[&>svg]:scale-110"
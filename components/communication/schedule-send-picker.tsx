@@ -0,0 +1,87 @@
+"use client"
+
+import { useState } from "react"
+import { addDays, addHours, format, nextMonday, startOfDay } from "date-fns"
+import { Clock } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+
+// Value format expected by <input type="datetime-local">
+export const toDateTimeLocalValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm")
+
+const getPresets = (now: Date) => [
+  { label: "In 1 hour", date: addHours(now, 1) },
+  { label: "Tomorrow at 9:00 AM", date: addHours(startOfDay(addDays(now, 1)), 9) },
+  { label: "Monday at 9:00 AM", date: addHours(startOfDay(nextMonday(now)), 9) },
+]
+
+interface ScheduleSendPickerProps {
+  onSchedule: (sendAt: Date) => Promise<boolean | void> | boolean | void
+  disabled?: boolean
+}
+
+export function ScheduleSendPicker({ onSchedule, disabled = false }: ScheduleSendPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [customValue, setCustomValue] = useState("")
+
+  const now = new Date()
+  const customDate = customValue ? new Date(customValue) : null
+  const customIsValid = !!customDate && !isNaN(customDate.getTime()) && customDate.getTime() > now.getTime()
+
+  const handleSchedule = async (sendAt: Date) => {
+    const result = await onSchedule(sendAt)
+    if (result !== false) {
+      setOpen(false)
+      setCustomValue("")
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          disabled={disabled}
+          className="border-0 p-2 transition-colors duration-150 hover:text-primary hover:[&>svg]:text-primary hover:[&>svg]:scale-110 [&>svg]:transition-all [&>svg]:duration-150 disabled:opacity-50 disabled:pointer-events-none"
+          title="Schedule send"
+        >
+          <Clock className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" side="top" className="w-64 p-2">
+        <p className="px-2 py-1 text-xs font-medium text-muted-foreground">Schedule message</p>
+        {getPresets(now).map(preset => (
+          <button
+            key={preset.label}
+            type="button"
+            onClick={() => handleSchedule(preset.date)}
+            className="flex w-full items-center justify-between rounded px-2 py-1.5 text-left text-sm hover:bg-muted"
+          >
+            <span>{preset.label}</span>
+            <span className="text-xs text-muted-foreground">{format(preset.date, "EEE HH:mm")}</span>
+          </button>
+        ))}
+        <div className="mt-2 space-y-2 border-t px-2 pt-2">
+          <Label className="text-xs">Custom time</Label>
+          <Input
+            type="datetime-local"
+            value={customValue}
+            min={toDateTimeLocalValue(now)}
+            onChange={(e) => setCustomValue(e.target.value)}
+            className="h-8 text-sm"
+          />
+          <Button
+            size="sm"
+            className="w-full"
+            disabled={!customIsValid}
+            onClick={() => customDate && handleSchedule(customDate)}
+          >
+            Schedule
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,185 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import { CalendarClock, Loader2, Pencil, Reply, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Textarea } from "@/components/ui/textarea"
+import CustomModal from "@/components/shared/custom-modal"
+import { useScheduledMessages } from "@/hooks/use-scheduled-messages"
+import { toDateTimeLocalValue } from "./schedule-send-picker"
+import type { IScheduledMessage } from "@/types/communication"
+
+interface ScheduledMessagesPanelProps {
+  isOpen: boolean
+  onClose: () => void
+  channelId: string
+}
+
+const toPlainText = (html: string) => {
+  const element = document.createElement("div")
+  element.innerHTML = html.replace(/<\/p>\s*<p>/g, "\n").replace(/<br\s*\/?>/g, "\n")
+  return element.textContent || ""
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+
+// Edited text goes back in the same paragraph markup the composer produces
+const toParagraphHtml = (text: string) =>
+  text.split("\n").map(line => `<p>${escapeHtml(line)}</p>`).join("")
+
+export function ScheduledMessagesPanel({ isOpen, onClose, channelId }: ScheduledMessagesPanelProps) {
+  const {
+    scheduledMessages,
+    isLoading,
+    updateScheduledMessage,
+    cancelScheduledMessage,
+    updating,
+    cancelling,
+  } = useScheduledMessages(channelId)
+
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editText, setEditText] = useState("")
+  const [editSendAt, setEditSendAt] = useState("")
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+
+  const startEditing = (message: IScheduledMessage) => {
+    setEditingId(message.id)
+    setEditText(toPlainText(message.content))
+    setEditSendAt(toDateTimeLocalValue(new Date(message.send_at)))
+  }
+
+  const handleSave = async (message: IScheduledMessage) => {
+    const sendAt = new Date(editSendAt)
+    const textChanged = editText.trim() !== toPlainText(message.content).trim()
+    const timeChanged = sendAt.getTime() !== new Date(message.send_at).getTime()
+
+    if (!textChanged && !timeChanged) {
+      setEditingId(null)
+      return
+    }
+
+    try {
+      await updateScheduledMessage(message.id, {
+        ...(textChanged && { content: toParagraphHtml(editText.trim()) }),
+        ...(timeChanged && { send_at: sendAt.toISOString() }),
+      })
+      setEditingId(null)
+    } catch {
+      // Error toast is shown by the hook
+    }
+  }
+
+  const handleCancel = async (message: IScheduledMessage) => {
+    setCancellingId(message.id)
+    try {
+      await cancelScheduledMessage(message.id)
+    } catch {
+      // Error toast is shown by the hook
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  const editSendAtDate = editSendAt ? new Date(editSendAt) : null
+  const canSave = !!editText.trim() && !!editSendAtDate && editSendAtDate.getTime() > Date.now()
+
+  return (
+    <CustomModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Scheduled Messages"
+      modalSize="md"
+    >
+      <ScrollArea className="max-h-[420px] pr-2">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : scheduledMessages.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center text-muted-foreground">
+            <CalendarClock className="mb-3 h-10 w-10 opacity-40" />
+            <p className="text-sm">No messages scheduled in this conversation</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {scheduledMessages.map(message => (
+              <div key={message.id} className="rounded-lg border border-border p-3">
+                {editingId === message.id ? (
+                  <div className="space-y-3">
+                    <Textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      rows={4}
+                      maxLength={5000}
+                    />
+                    <div className="space-y-1">
+                      <Label className="text-xs">Send at</Label>
+                      <Input
+                        type="datetime-local"
+                        value={editSendAt}
+                        min={toDateTimeLocalValue(new Date())}
+                        onChange={(e) => setEditSendAt(e.target.value)}
+                      />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} disabled={updating}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={() => handleSave(message)} disabled={!canSave || updating}>
+                        {updating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-3">
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <CalendarClock className="h-3.5 w-3.5" />
+                        <span>{format(new Date(message.send_at), "EEE, MMM d 'at' h:mm a")}</span>
+                        {message.parent_message_id && (
+                          <span className="flex items-center gap-1">
+                            <Reply className="h-3 w-3" /> Reply
+                          </span>
+                        )}
+                      </div>
+                      <p className="line-clamp-3 whitespace-pre-line text-sm">{toPlainText(message.content)}</p>
+                    </div>
+                    <div className="flex shrink-0 items-start gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => startEditing(message)}
+                        title="Edit"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive hover:text-destructive"
+                        onClick={() => handleCancel(message)}
+                        disabled={cancelling && cancellingId === message.id}
+                        title="Cancel scheduled message"
+                      >
+                        {cancelling && cancellingId === message.id
+                          ? <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                          : <Trash2 className="h-3.5 w-3.5" />}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </CustomModal>
+  )
+}
@@ -0,0 +1,95 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { SquareSlash } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { ISlashCommand } from "@/types/communication"
+
+interface SlashCommandPickerProps {
+  commands: ISlashCommand[] // Already filtered by what has been typed
+  onSelect: (command: ISlashCommand) => void
+  onClose: () => void
+  className?: string
+}
+
+// Shown while typing "/name" at the start of the message box. Focus stays in
+// the editor, so navigation keys are caught before the editor sees them.
+export function SlashCommandPicker({ commands, onSelect, onClose, className }: SlashCommandPickerProps) {
+  const pickerRef = useRef<HTMLDivElement>(null)
+  const [selectedIndex, setSelectedIndex] = useState(0)
+
+  useEffect(() => {
+    setSelectedIndex(0)
+  }, [commands.length])
+
+  // Close on outside click
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(e.target as Node)) {
+        onClose()
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside)
+    return () => document.removeEventListener("mousedown", handleClickOutside)
+  }, [onClose])
+
+  // Keyboard navigation, in the capture phase so Enter picks a command instead of sending
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const command = commands[selectedIndex]
+      if (e.key === "Escape") {
+        onClose()
+      } else if (e.key === "ArrowDown") {
+        setSelectedIndex(prev => Math.min(prev + 1, commands.length - 1))
+      } else if (e.key === "ArrowUp") {
+        setSelectedIndex(prev => Math.max(prev - 1, 0))
+      } else if ((e.key === "Enter" || e.key === "Tab") && !e.shiftKey && command) {
+        onSelect(command)
+      } else {
+        return
+      }
+      e.preventDefault()
+      e.stopPropagation()
+    }
+    document.addEventListener("keydown", handleKeyDown, true)
+    return () => document.removeEventListener("keydown", handleKeyDown, true)
+  }, [commands, selectedIndex, onSelect, onClose])
+
+  return (
+    <div
+      ref={pickerRef}
+      className={cn(
+        "absolute bottom-full mb-2 left-0 w-80 bg-card border rounded-lg shadow-lg z-50",
+        className
+      )}
+    >
+      <div className="max-h-64 overflow-y-auto py-1">
+        {commands.map((command, index) => (
+          <button
+            key={command.name}
+            onMouseDown={(e) => e.preventDefault()} // Keep focus in the editor
+            onClick={() => onSelect(command)}
+            className={cn(
+              "w-full flex items-start gap-3 px-3 py-2 text-left transition-colors",
+              index === selectedIndex ? "bg-accent" : "hover:bg-muted"
+            )}
+          >
+            <SquareSlash className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-sm">/{command.name}</p>
+              <p className="text-xs text-muted-foreground truncate">{command.description}</p>
+              <p className="text-[11px] text-muted-foreground/80 font-mono truncate">{command.usage}</p>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {/* Footer hint */}
+      <div className="px-3 py-2 border-t bg-muted/30">
+        <p className="text-xs text-muted-foreground">
+          <kbd className="px-1 bg-muted rounded">Tab</kbd> or <kbd className="px-1 bg-muted rounded">Enter</kbd> to pick, <kbd className="px-1 bg-muted rounded">Esc</kbd> to dismiss
+        </p>
+      </div>
+    </div>
+  )
+}
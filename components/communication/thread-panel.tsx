@@ -0,0 +1,217 @@
+"use client"
+
+import { useEffect, useMemo, useRef } from "react"
+import { format, formatDistanceToNow } from "date-fns"
+import { Bell, BellOff, Loader2, X } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import HtmlTextRenderer from "@/components/shared/html-text-renderer"
+import { cn } from "@/lib/utils"
+import { useThread } from "@/hooks/use-threads"
+import type { CreateMessageData, IChannelMember, ICommunication } from "@/types/communication"
+import { AttachmentGrid } from "./attachment-preview"
+import { MessageInput } from "./message-input"
+
+interface ThreadPanelProps {
+  rootMessageId: string
+  channelId: string
+  liveReplies: ICommunication[] // Replies that arrived in the channel since the thread was loaded
+  channelMembers?: IChannelMember[]
+  channelType?: string
+  canReply?: boolean
+  onSendReply: (data: CreateMessageData) => Promise<void>
+  onSendReplyWithFiles?: (data: CreateMessageData, files: File[], onProgress?: (progress: number) => void) => Promise<any>
+  onClose: () => void
+  className?: string
+}
+
+const getInitials = (name: string | undefined) =>
+  (name || "?").trim().split(" ").map(n => n[0]).join("").toUpperCase().slice(0, 2)
+
+function ThreadMessage({ message, isRoot = false }: { message: ICommunication; isRoot?: boolean }) {
+  const name = message.sender?.name || message.sender_name
+  const avatar = message.sender?.avatar || message.sender_avatar
+
+  return (
+    <div className={cn("flex gap-2 px-4 py-2", isRoot && "pb-3")}>
+      <Avatar className="h-7 w-7 shrink-0">
+        <AvatarImage src={avatar || undefined} alt={name} />
+        <AvatarFallback className="bg-gradient-to-br from-primary/15 to-accent/30 text-primary font-medium text-xs">
+          {getInitials(name)}
+        </AvatarFallback>
+      </Avatar>
+      <div className="min-w-0 flex-1 space-y-0.5">
+        <div className="flex items-baseline gap-1.5">
+          <span className="font-medium text-[13px]">{name}</span>
+          <span className="text-[11px] text-muted-foreground" title={format(new Date(message.created_at), "PPpp")}>
+            {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+          </span>
+          {message.isOptimistic && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+          {message.is_ephemeral && <span className="text-[11px] text-muted-foreground">· Only visible to you</span>}
+        </div>
+        {message.content && (
+          <HtmlTextRenderer
+            content={message.content}
+            fallbackText=""
+            showFallback={false}
+            renderAsHtml={true}
+            className="text-[13px] leading-snug whitespace-pre-wrap [overflow-wrap:anywhere]"
+            truncateHtml={false}
+          />
+        )}
+        {message.attachments && message.attachments.length > 0 && (
+          <AttachmentGrid attachments={message.attachments} className="mt-1.5" />
+        )}
+      </div>
+    </div>
+  )
+}
+
+export function ThreadPanel({
+  rootMessageId,
+  channelId,
+  liveReplies,
+  channelMembers = [],
+  channelType,
+  canReply = true,
+  onSendReply,
+  onSendReplyWithFiles,
+  onClose,
+  className,
+}: ThreadPanelProps) {
+  const {
+    root,
+    replies: loadedReplies,
+    isFollowing,
+    hasMore,
+    loadMore,
+    isLoading,
+    isLoadingMore,
+    follow,
+    unfollow,
+    updatingFollow,
+    markRead,
+  } = useThread(rootMessageId)
+  const scrollRef = useRef<HTMLDivElement | null>(null)
+
+  // Live copies win - they carry optimistic state and realtime reactions
+  const replies = useMemo(() => {
+    const liveIds = new Set(liveReplies.map(reply => reply.id))
+    return [...loadedReplies.filter(reply => !liveIds.has(reply.id)), ...liveReplies]
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+  }, [loadedReplies, liveReplies])
+
+  const lastReplyId = replies[replies.length - 1]?.id
+  // reply_count on the root is only as fresh as the last fetch
+  const replyCount = root ? Math.max(root.reply_count || 0, replies.length) : 0
+
+  // Stay at the newest reply and count it as read
+  useEffect(() => {
+    if (isLoading) return
+    const el = scrollRef.current
+    if (el) el.scrollTop = el.scrollHeight
+    markRead()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoading, lastReplyId])
+
+  const handleToggleFollow = async () => {
+    try {
+      await (isFollowing ? unfollow() : follow())
+    } catch {
+      // Error toast is shown by the hook
+    }
+  }
+
+  return (
+    <div className={cn("bg-card flex flex-col h-full", className)}>
+      {/* Header */}
+      <div className="p-4 border-b flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <h3 className="font-semibold">Thread</h3>
+          {root && (
+            <p className="text-xs text-muted-foreground">
+              {replyCount} {replyCount === 1 ? "reply" : "replies"}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant={isFollowing ? "secondary" : "outline"}
+            size="sm"
+            className="h-8 text-xs"
+            disabled={!root || updatingFollow}
+            onClick={handleToggleFollow}
+          >
+            {isFollowing ? <BellOff className="mr-1 h-3.5 w-3.5" /> : <Bell className="mr-1 h-3.5 w-3.5" />}
+            {isFollowing ? "Unfollow" : "Follow"}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0" title="Close thread">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 min-h-0 overflow-y-auto py-2">
+        {isLoading ? (
+          <div className="space-y-4 p-4">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="flex gap-2">
+                <Skeleton className="h-7 w-7 rounded-full shrink-0" />
+                <div className="flex-1 space-y-2">
+                  <Skeleton className="h-3 w-24" />
+                  <Skeleton className="h-10 w-4/5" />
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : !root ? (
+          <p className="p-6 text-center text-sm text-muted-foreground">This thread is no longer available</p>
+        ) : (
+          <>
+            <ThreadMessage message={root} isRoot />
+
+            <div className="flex items-center gap-2 px-4 py-1 text-xs text-muted-foreground">
+              <span>{replyCount > 0 ? `${replyCount} ${replyCount === 1 ? "reply" : "replies"}` : "No replies yet"}</span>
+              <div className="h-px flex-1 bg-border" />
+            </div>
+
+            {hasMore && (
+              <div className="flex justify-center py-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={isLoadingMore}
+                  onClick={() => loadMore()}
+                >
+                  {isLoadingMore && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                  Load earlier replies
+                </Button>
+              </div>
+            )}
+
+            {replies.map(reply => (
+              <ThreadMessage key={reply.id} message={reply} />
+            ))}
+          </>
+        )}
+      </div>
+
+      {canReply && root && (
+        <MessageInput
+          channelId={channelId}
+          threadParentId={rootMessageId}
+          onSend={onSendReply}
+          onSendWithFiles={onSendReplyWithFiles}
+          placeholder="Reply in thread..."
+          allowAttachments={true}
+          allowCommands={true}
+          channelMembers={channelMembers}
+          channelType={channelType}
+          className="border-t"
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+"use client"
+
+import { useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { BellOff, Hash, Loader2, MessagesSquare } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import CustomModal from "@/components/shared/custom-modal"
+import { extractTextFromHtml } from "@/components/shared/html-text-renderer"
+import { cn } from "@/lib/utils"
+import { useFollowedThreads } from "@/hooks/use-threads"
+import type { IFollowedThread } from "@/types/communication"
+
+interface ThreadsInboxProps {
+  isOpen: boolean
+  onClose: () => void
+  onThreadSelect: (channelId: string, messageId: string, createdAt?: string) => void
+}
+
+const getInitials = (name: string | undefined) =>
+  (name || "?").split(" ").map(n => n[0]).join("").toUpperCase().slice(0, 2)
+
+export function ThreadsInbox({ isOpen, onClose, onThreadSelect }: ThreadsInboxProps) {
+  const { threads, isLoading, unfollow } = useFollowedThreads(isOpen)
+  const [unfollowingId, setUnfollowingId] = useState<string | null>(null)
+
+  const handleOpen = (thread: IFollowedThread) => {
+    onThreadSelect(thread.channel_id, thread.message_id, thread.root.created_at)
+    onClose()
+  }
+
+  const handleUnfollow = async (thread: IFollowedThread) => {
+    setUnfollowingId(thread.message_id)
+    try {
+      await unfollow(thread.message_id)
+    } catch {
+      // Error toast is shown by the hook
+    } finally {
+      setUnfollowingId(null)
+    }
+  }
+
+  return (
+    <CustomModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Threads"
+      modalSize="lg"
+    >
+      <ScrollArea className="h-[460px] pr-2">
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : threads.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center text-muted-foreground">
+            <MessagesSquare className="mb-3 h-10 w-10 opacity-40" />
+            <p className="text-sm">Threads you start, reply to or follow appear here</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {threads.map(thread => (
+              <div
+                key={thread.message_id}
+                role="button"
+                tabIndex={0}
+                onClick={() => handleOpen(thread)}
+                onKeyDown={(e) => e.key === "Enter" && handleOpen(thread)}
+                className={cn(
+                  "flex w-full cursor-pointer gap-3 rounded-lg border border-border p-3 text-left transition-colors hover:bg-muted/50",
+                  thread.unread_count > 0 && "border-primary/40 bg-primary/5"
+                )}
+              >
+                <Avatar className="h-8 w-8 shrink-0">
+                  <AvatarImage src={thread.root.sender_avatar || undefined} alt={thread.root.sender_name} />
+                  <AvatarFallback className="text-xs">{getInitials(thread.root.sender_name)}</AvatarFallback>
+                </Avatar>
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="truncate text-sm font-semibold">{thread.root.sender_name}</span>
+                    <Badge variant="secondary" className="shrink-0 gap-1 text-[10px]">
+                      {thread.channel.type !== "dm" && <Hash className="h-3 w-3" />}
+                      {thread.channel.type === "dm" ? "Direct message" : thread.channel.name || "Channel"}
+                    </Badge>
+                    {thread.unread_count > 0 && (
+                      <Badge className="shrink-0 text-[10px]">{thread.unread_count} new</Badge>
+                    )}
+                  </div>
+                  <p className="line-clamp-2 text-sm text-muted-foreground">
+                    {extractTextFromHtml(thread.root.content) || "Attachment"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {thread.root.reply_count} {thread.root.reply_count === 1 ? "reply" : "replies"}
+                    {" · "}
+                    Last activity {formatDistanceToNow(new Date(thread.last_reply_at), { addSuffix: true })}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  title="Unfollow thread"
+                  disabled={unfollowingId === thread.message_id}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    handleUnfollow(thread)
+                  }}
+                >
+                  {unfollowingId === thread.message_id
+                    ? <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    : <BellOff className="h-3.5 w-3.5" />}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </CustomModal>
+  )
+}
@@ -152,7 +152,7 @@ export function TrashView({
         }
       >
         <div className="mb-2 text-sm text-muted-foreground">
-          Messages are kept for 30 days before being permanently deleted.
+          Messages are permanently deleted once the channel's trash retention period has passed.
         </div>
 
         <ScrollArea className="h-[50vh] pr-4">
@@ -207,16 +207,23 @@ export function TrashView({
                     </div>
                     
                     {/* Expiry Badge */}
-                    <Badge 
-                      variant={getExpiryBadgeVariant(message.days_remaining)}
-                      className={cn(
-                        "shrink-0 text-xs",
-                        message.days_remaining <= 7 && "animate-pulse"
-                      )}
-                    >
-                      <Clock className="h-3 w-3 mr-1" />
-                      {message.days_remaining} days left
-                    </Badge>
+                    {message.days_remaining === null ? (
+                      <Badge variant="secondary" className="shrink-0 text-xs">
+                        <Clock className="h-3 w-3 mr-1" />
+                        No expiry
+                      </Badge>
+                    ) : (
+                      <Badge 
+                        variant={getExpiryBadgeVariant(message.days_remaining)}
+                        className={cn(
+                          "shrink-0 text-xs",
+                          message.days_remaining <= 7 && "animate-pulse"
+                        )}
+                      >
+                        <Clock className="h-3 w-3 mr-1" />
+                        {message.days_remaining} days left
+                      </Badge>
+                    )}
                   </div>
 
                   {/* Message Content Preview */}
@@ -248,7 +255,7 @@ export function TrashView({
                   </div>
 
                   {/* Expiry Warning */}
-                  {message.is_expiring_soon && (
+                  {message.is_expiring_soon && message.days_remaining !== null && (
                     <div className={cn(
                       "mt-3 pl-12 flex items-center gap-2 text-xs rounded-md py-1 px-2 w-fit",
                       getExpiryStatusColor(message.days_remaining)
@@ -33,6 +33,8 @@ import {
   Menu,
   X,
   MessageSquare,
+  Clock,
+  PhoneCall,
   Settings as SettingsIcon
 } from "lucide-react"
 
@@ -117,6 +119,13 @@ const menuItems: MenuSection[] = [
             allowedResource: "leads",
             allowedActions: ["read"],
           },
+          {
+            title: "My Follow-ups",
+            href: "/leads/follow-ups",
+            icon: PhoneCall,
+            allowedResource: "leads",
+            allowedActions: ["read"],
+          },
           {
             title: "Add Lead",
             href: "/leads/add",
@@ -229,6 +238,14 @@ const menuItems: MenuSection[] = [
           },
         ]
       },
+      {
+        title: "Timesheets",
+        href: "/timesheets",
+        icon: Clock,
+        badge: null,
+        allowedResource: "tasks",
+        allowedActions: ["read"],
+      },
     ],
   },
   {
@@ -93,6 +93,18 @@ const NotificationItem = ({ notification, onMarkAsRead, onNavigate }: Notificati
         return '🔄'
       case 'department_assigned':
         return '👥'
+      case 'timesheet_submitted':
+        return '🕒'
+      case 'timesheet_approved':
+        return '✅'
+      case 'timesheet_rejected':
+        return '↩️'
+      case 'budget_threshold':
+        return '💰'
+      case 'message_reminder':
+        return '⏰'
+      case 'lead_follow_up':
+        return '📞'
       default:
         return '🔔'
     }
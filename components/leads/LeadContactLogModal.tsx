@@ -0,0 +1,174 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import CustomModal from "@/components/shared/custom-modal";
+import { SearchableSelect } from "@/components/shared/generic-form";
+import { useToast } from "@/hooks/use-toast";
+import { useLogLeadContact, type LeadContactLogInput } from "@/hooks/use-lead-follow-ups";
+import { LEAD_CONSTANTS } from "@/lib/validations/lead";
+import type { Lead } from "@/types";
+
+const TYPE_OPTIONS = [
+  { label: 'Call', value: 'call' },
+  { label: 'Email', value: 'email' },
+  { label: 'Meeting', value: 'meeting' },
+  { label: 'Note', value: 'note' },
+];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Values for datetime-local and date inputs, in local time
+const toDateTimeInput = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+const toDateInput = (date: Date) => toDateTimeInput(date).slice(0, 10);
+
+interface LeadContactLogModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  lead: Pick<Lead, '_id' | 'name' | 'nextFollowUpDate'> | null;
+  onLogged?: (lead: Lead) => void;
+}
+
+export function LeadContactLogModal({ isOpen, onClose, lead, onLogged }: LeadContactLogModalProps) {
+  const { toast } = useToast();
+  const { logContact, logging } = useLogLeadContact();
+
+  const [date, setDate] = useState('');
+  const [type, setType] = useState<LeadContactLogInput['type']>('call');
+  const [description, setDescription] = useState('');
+  const [outcome, setOutcome] = useState('');
+  const [contactPerson, setContactPerson] = useState('');
+  const [scheduleNext, setScheduleNext] = useState(true);
+  const [nextFollowUp, setNextFollowUp] = useState('');
+
+  // Start each log fresh, suggesting a follow-up a week out
+  useEffect(() => {
+    if (!isOpen) return;
+    const now = new Date();
+    setDate(toDateTimeInput(now));
+    setType('call');
+    setDescription('');
+    setOutcome('');
+    setContactPerson('');
+    setScheduleNext(true);
+    setNextFollowUp(toDateInput(new Date(now.getFullYear(), now.getMonth(), now.getDate() + 7)));
+  }, [isOpen]);
+
+  const handleSubmit = async () => {
+    if (!lead?._id) return;
+
+    try {
+      const updated = await logContact(lead._id, {
+        date: new Date(date).toISOString(),
+        type,
+        description,
+        outcome: outcome || undefined,
+        contactPerson: contactPerson || undefined,
+        // Unticked clears the follow-up, since this contact was it
+        nextFollowUpDate: scheduleNext && nextFollowUp ? new Date(`${nextFollowUp}T00:00`).toISOString() : null,
+      });
+      toast({
+        title: "Success",
+        description: scheduleNext && nextFollowUp
+          ? `Contact logged. Next follow-up ${new Date(`${nextFollowUp}T00:00`).toLocaleDateString()}`
+          : 'Contact logged',
+      });
+      if (updated) onLogged?.(updated);
+      onClose();
+    } catch (error) {
+      // Error toast is shown by the hook
+    }
+  };
+
+  const actions = (
+    <div className="flex w-full justify-end gap-2">
+      <Button variant="ghost" onClick={onClose} disabled={logging}>Cancel</Button>
+      <Button onClick={handleSubmit} disabled={logging || !date || !description.trim() || (scheduleNext && !nextFollowUp)}>
+        {logging ? 'Saving...' : 'Log contact'}
+      </Button>
+    </div>
+  );
+
+  return (
+    <CustomModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={lead ? `Log Contact: ${lead.name}` : 'Log Contact'}
+      modalSize="md"
+      actions={actions}
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Type</Label>
+            <SearchableSelect
+              options={TYPE_OPTIONS}
+              value={type}
+              onValueChange={(value) => setType(value as LeadContactLogInput['type'])}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>When</Label>
+            <Input type="datetime-local" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label>What happened</Label>
+          <Textarea
+            value={description}
+            rows={3}
+            maxLength={LEAD_CONSTANTS.CONTACT_HISTORY.DESCRIPTION_MAX}
+            placeholder="e.g. Walked through the proposal, they want a revised estimate"
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Outcome</Label>
+            <Input
+              value={outcome}
+              maxLength={LEAD_CONSTANTS.CONTACT_HISTORY.OUTCOME_MAX}
+              placeholder="Optional"
+              onChange={(e) => setOutcome(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Spoke with</Label>
+            <Input
+              value={contactPerson}
+              maxLength={LEAD_CONSTANTS.CONTACT_HISTORY.CONTACT_PERSON_MAX}
+              placeholder="Optional"
+              onChange={(e) => setContactPerson(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="rounded-lg border border-border p-3 space-y-2">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={scheduleNext} onCheckedChange={(checked) => setScheduleNext(checked === true)} />
+            Set next follow-up
+          </label>
+          {scheduleNext ? (
+            <Input
+              type="date"
+              value={nextFollowUp}
+              min={toDateInput(new Date())}
+              onChange={(e) => setNextFollowUp(e.target.value)}
+            />
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {lead?.nextFollowUpDate ? 'The current follow-up will be cleared.' : 'No follow-up will be scheduled.'}
+            </p>
+          )}
+        </div>
+      </div>
+    </CustomModal>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import Swal from "sweetalert2";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, ExternalLink, GitMerge } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useMergeLeads } from "@/hooks/use-lead-duplicates";
+import { DUPLICATE_REASON_LABELS, describeDuplicateMatch } from "@/lib/utils/lead-duplicates";
+import type { Lead, LeadDuplicateMatch } from "@/types";
+
+interface LeadDuplicateWarningProps {
+  duplicates: LeadDuplicateMatch[];
+  // The lead being edited; matches can be merged into it
+  survivor?: Lead;
+  onMerged?: (lead: Lead) => void;
+}
+
+export function LeadDuplicateWarning({ duplicates, survivor, onMerged }: LeadDuplicateWarningProps) {
+  const { toast } = useToast();
+  const { mergeLeads, merging } = useMergeLeads();
+
+  if (duplicates.length === 0) return null;
+
+  const handleMerge = async (match: LeadDuplicateMatch) => {
+    if (!survivor?._id) return;
+
+    const result = await Swal.fire({
+      customClass: {
+        popup: 'swal-bg',
+        title: 'swal-title',
+        htmlContainer: 'swal-content',
+      },
+      title: 'Merge Leads',
+      text: `Merge ${match.name} into ${survivor.name}? Contact history, tags, custom fields and notes are combined into ${survivor.name}, and ${match.name} is deleted.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Yes, Merge',
+      cancelButtonText: 'Cancel',
+      confirmButtonColor: '#3B82F6',
+      cancelButtonColor: '#6B7280',
+    });
+
+    if (!result.isConfirmed) return;
+
+    try {
+      const merged = await mergeLeads(survivor._id, match._id);
+      toast({
+        title: "Success",
+        description: `${match.name} was merged into ${survivor.name}`,
+      });
+      if (merged) onMerged?.(merged);
+    } catch (error) {
+      // Error toast is shown by the hook
+    }
+  };
+
+  return (
+    <Alert className="border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/10">
+      <AlertTriangle className="h-4 w-4 !text-amber-600" />
+      <AlertTitle>
+        {duplicates.length === 1 ? 'This lead may already exist' : `This lead may already exist ${duplicates.length} times`}
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-2">
+          {duplicates.map(match => (
+            <li key={match._id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <div className="min-w-0 space-y-1">
+                {match.restricted ? (
+                  // Another agent's lead: only who owns it is shown
+                  <div className="font-medium">{describeDuplicateMatch(match)}</div>
+                ) : (
+                  <div className="flex flex-wrap items-center gap-x-2">
+                    <Link href={`/leads/edit/${match._id}`} target="_blank" className="font-medium hover:underline inline-flex items-center gap-1">
+                      {match.name}
+                      <ExternalLink className="h-3 w-3" />
+                    </Link>
+                    <span className="text-muted-foreground truncate">
+                      {[match.company, match.email].filter(Boolean).join(' · ')}
+                    </span>
+                    {typeof match.createdBy === 'object' && match.createdBy?.name && (
+                      <span className="text-xs text-muted-foreground">owned by {match.createdBy.name}</span>
+                    )}
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-1">
+                  {match.reasons.map(reason => (
+                    <Badge key={reason} variant="outline" className="text-xs font-normal">
+                      {DUPLICATE_REASON_LABELS[reason]}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              {survivor && !match.restricted && (
+                <Button variant="outline" size="sm" onClick={() => handleMerge(match)} disabled={merging}>
+                  <GitMerge className="h-4 w-4 mr-2" />
+                  Merge into this lead
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
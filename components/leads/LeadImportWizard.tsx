@@ -0,0 +1,398 @@
+"use client";
+
+import React, { useMemo, useRef, useState } from "react";
+import * as XLSX from "xlsx";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import CustomModal from "@/components/shared/custom-modal";
+import { SearchableSelect } from "@/components/shared/generic-form";
+import { AlertTriangle, CheckCircle2, Download, FileSpreadsheet, Upload } from "lucide-react";
+import { useLeadImport } from "@/hooks/use-lead-imports";
+import { LEAD_CONSTANTS, type LeadImportRequest } from "@/lib/validations/lead";
+import {
+  CUSTOM_FIELD_PREFIX,
+  LEAD_IMPORT_FIELDS,
+  suggestImportMapping,
+  toCustomFieldKey,
+} from "@/lib/utils/lead-import";
+import type { LeadImportDefaults, LeadImportMapping, LeadImportPreview } from "@/types";
+
+interface LeadImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'import';
+
+interface ParsedFile {
+  fileName: string;
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+// Select values for columns that are skipped or go into customFields
+const SKIP_COLUMN = '__skip';
+const CUSTOM_COLUMN = '__custom';
+
+const TARGET_OPTIONS = [
+  { label: "Don't import", value: SKIP_COLUMN },
+  ...LEAD_IMPORT_FIELDS.map(field => ({ label: field.required ? `${field.label} *` : field.label, value: field.key })),
+  { label: 'Custom field', value: CUSTOM_COLUMN },
+];
+
+const humanize = (value: string) => value.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+
+const SOURCE_OPTIONS = LEAD_CONSTANTS.SOURCE.VALUES.map(value => ({ label: humanize(value), value }));
+const PRIORITY_OPTIONS = LEAD_CONSTANTS.PRIORITY.VALUES.map(value => ({ label: humanize(value), value }));
+
+// Reads the first sheet of a CSV or Excel file into rows keyed by header
+async function parseSpreadsheet(file: File): Promise<ParsedFile> {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('The file has no sheets');
+
+  const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: false });
+  const headers = Array.from(new Set(headerRow.map(header => String(header ?? '').trim()).filter(Boolean)));
+  if (headers.length === 0) throw new Error('The first row must contain column headers');
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '', raw: false, dateNF: 'yyyy-mm-dd', blankrows: false })
+    .map(row => Object.fromEntries(headers.map(header => [header, String(row[header] ?? '').trim()])))
+    .filter(row => Object.values(row).some(Boolean));
+
+  return { fileName: file.name, headers, rows };
+}
+
+export function LeadImportWizard({ isOpen, onClose }: LeadImportWizardProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [parsed, setParsed] = useState<ParsedFile | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<LeadImportMapping>({});
+  const [defaults, setDefaults] = useState<LeadImportDefaults>({
+    source: LEAD_CONSTANTS.SOURCE.DEFAULT,
+    priority: LEAD_CONSTANTS.PRIORITY.DEFAULT,
+  });
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [preview, setPreview] = useState<LeadImportPreview | null>(null);
+  const [importId, setImportId] = useState<string | null>(null);
+  const { job, isRunning, previewImport, previewing, startImport, starting, errorReportUrl } = useLeadImport(importId);
+
+  const mappedTargets = useMemo(() => Object.values(mapping).filter(Boolean), [mapping]);
+  const missingRequired = LEAD_IMPORT_FIELDS.filter(field => field.required && !mappedTargets.includes(field.key));
+
+  const reset = () => {
+    setStep('upload');
+    setParsed(null);
+    setParseError(null);
+    setMapping({});
+    setPreview(null);
+    setImportId(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleClose = () => {
+    // A running import carries on in the background
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setParseError(null);
+    try {
+      const result = await parseSpreadsheet(file);
+      if (result.rows.length === 0) throw new Error('The file has no rows to import');
+      if (result.rows.length > LEAD_CONSTANTS.IMPORT.MAX_ROWS) {
+        throw new Error(`The file has ${result.rows.length} rows; up to ${LEAD_CONSTANTS.IMPORT.MAX_ROWS} can be imported at once`);
+      }
+      if (result.headers.length > LEAD_CONSTANTS.IMPORT.MAX_COLUMNS) {
+        throw new Error(`The file has more than ${LEAD_CONSTANTS.IMPORT.MAX_COLUMNS} columns`);
+      }
+
+      const suggested = suggestImportMapping(result.headers);
+      setParsed(result);
+      setMapping(Object.fromEntries(result.headers.map(header => [header, suggested[header] || ''])));
+      setStep('map');
+    } catch (error: any) {
+      setParseError(error.message || 'Could not read the file');
+    }
+  };
+
+  const setColumnTarget = (header: string, value: string) => {
+    const target = value === SKIP_COLUMN ? '' : value === CUSTOM_COLUMN ? `${CUSTOM_FIELD_PREFIX}${toCustomFieldKey(header)}` : value;
+    setMapping(current => {
+      // A field can only come from one column; the column it was on is skipped
+      const next = Object.fromEntries(Object.entries(current).map(([column, existing]) => [column, target && existing === target ? '' : existing]));
+      return { ...next, [header]: target };
+    });
+    setPreview(null);
+  };
+
+  const buildRequest = (): LeadImportRequest => ({
+    fileName: parsed!.fileName,
+    rows: parsed!.rows,
+    mapping,
+    defaults: defaults as LeadImportRequest['defaults'],
+    skipDuplicates,
+  });
+
+  const handlePreview = async () => {
+    try {
+      const result = await previewImport(buildRequest());
+      setPreview(result);
+      setStep('preview');
+    } catch (error) {
+      // Error toast is shown by the hook
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const started = await startImport(buildRequest());
+      if (started) {
+        setImportId(started._id);
+        setStep('import');
+      }
+    } catch (error) {
+      // Error toast is shown by the hook
+    }
+  };
+
+  const selectValue = (target: string) =>
+    !target ? SKIP_COLUMN : target.startsWith(CUSTOM_FIELD_PREFIX) ? CUSTOM_COLUMN : target;
+
+  const actions = (() => {
+    if (step === 'map') {
+      return (
+        <div className="flex w-full justify-between gap-2">
+          <Button variant="ghost" onClick={reset}>Choose another file</Button>
+          <Button onClick={handlePreview} disabled={previewing || missingRequired.some(field => field.key === 'name' || field.key === 'email')}>
+            {previewing ? 'Checking...' : 'Check rows'}
+          </Button>
+        </div>
+      );
+    }
+    if (step === 'preview' && preview) {
+      const importable = skipDuplicates ? preview.validRows - preview.duplicateRows : preview.validRows;
+      return (
+        <div className="flex w-full justify-between gap-2">
+          <Button variant="ghost" onClick={() => setStep('map')} disabled={starting}>Back to mapping</Button>
+          <Button onClick={handleImport} disabled={starting || importable <= 0}>
+            {starting ? 'Starting...' : `Import ${importable} lead${importable === 1 ? '' : 's'}`}
+          </Button>
+        </div>
+      );
+    }
+    if (step === 'import') {
+      return (
+        <div className="flex w-full justify-between gap-2">
+          <Button variant="ghost" onClick={reset} disabled={isRunning}>Import another file</Button>
+          <Button onClick={handleClose}>{isRunning ? 'Continue in background' : 'Done'}</Button>
+        </div>
+      );
+    }
+    return null;
+  })();
+
+  return (
+    <CustomModal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Import Leads"
+      modalSize="xl"
+      actions={actions}
+    >
+      {step === 'upload' && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Upload a CSV or Excel file with one lead per row and column headers in the first row.
+            Up to {LEAD_CONSTANTS.IMPORT.MAX_ROWS} leads can be imported at once.
+          </p>
+          <div
+            className="flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed border-border p-10 text-center cursor-pointer hover:bg-muted/50"
+            onClick={() => fileInputRef.current?.click()}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleFile(e.dataTransfer.files?.[0]);
+            }}
+          >
+            <Upload className="h-8 w-8 text-muted-foreground" />
+            <div className="text-sm">
+              <span className="font-medium">Click to choose a file</span> or drag it here
+            </div>
+            <div className="text-xs text-muted-foreground">.csv, .xlsx or .xls</div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+          {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+        </div>
+      )}
+
+      {step === 'map' && parsed && (
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 text-sm">
+            <FileSpreadsheet className="h-4 w-4" />
+            <span className="font-medium">{parsed.fileName}</span>
+            <span className="text-muted-foreground">· {parsed.rows.length} row{parsed.rows.length === 1 ? '' : 's'}</span>
+          </div>
+
+          <div className="rounded-lg border border-border divide-y divide-border">
+            {parsed.headers.map(header => (
+              <div key={header} className="grid grid-cols-12 items-center gap-3 px-3 py-2">
+                <div className="col-span-4 min-w-0">
+                  <div className="text-sm font-medium truncate">{header}</div>
+                  <div className="text-xs text-muted-foreground truncate">{parsed.rows[0]?.[header] || '—'}</div>
+                </div>
+                <div className="col-span-5">
+                  <SearchableSelect
+                    options={TARGET_OPTIONS}
+                    value={selectValue(mapping[header])}
+                    onValueChange={(value) => setColumnTarget(header, value)}
+                  />
+                </div>
+                <div className="col-span-3 text-xs text-muted-foreground truncate">
+                  {mapping[header]?.startsWith(CUSTOM_FIELD_PREFIX) && `Stored as "${mapping[header].slice(CUSTOM_FIELD_PREFIX.length)}"`}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {missingRequired.length > 0 && (
+            <p className="text-sm text-amber-600 flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4" />
+              Not mapped: {missingRequired.map(field => field.label).join(', ')}. Rows without them will fail.
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Source for rows without one</Label>
+              <SearchableSelect
+                options={SOURCE_OPTIONS}
+                value={defaults.source}
+                onValueChange={(source) => setDefaults(current => ({ ...current, source }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Priority for rows without one</Label>
+              <SearchableSelect
+                options={PRIORITY_OPTIONS}
+                value={defaults.priority}
+                onValueChange={(priority) => setDefaults(current => ({ ...current, priority }))}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={skipDuplicates} onCheckedChange={(checked) => setSkipDuplicates(!!checked)} />
+            Skip rows that look like existing leads (same email domain, phone, company or website)
+          </label>
+        </div>
+      )}
+
+      {step === 'preview' && preview && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="rounded-lg border border-border p-3">
+              <div className="text-2xl font-semibold text-green-600">{preview.validRows}</div>
+              <div className="text-xs text-muted-foreground">Valid rows</div>
+            </div>
+            <div className="rounded-lg border border-border p-3">
+              <div className="text-2xl font-semibold text-destructive">{preview.invalidRows}</div>
+              <div className="text-xs text-muted-foreground">Rows with errors</div>
+            </div>
+            <div className="rounded-lg border border-border p-3">
+              <div className="text-2xl font-semibold text-amber-600">{preview.duplicateRows}</div>
+              <div className="text-xs text-muted-foreground">
+                Possible duplicates{skipDuplicates ? ' (skipped)' : ''}
+              </div>
+            </div>
+          </div>
+
+          {preview.issues.length === 0 ? (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <CheckCircle2 className="h-4 w-4 text-green-600" />
+              Every row is ready to import.
+            </p>
+          ) : (
+            <div className="max-h-80 overflow-y-auto rounded-lg border border-border divide-y divide-border">
+              {preview.issues.map(issue => (
+                <div key={issue.row} className="px-3 py-2 text-sm space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="font-normal">Row {issue.row}</Badge>
+                    {issue.email && <span className="text-muted-foreground truncate">{issue.email}</span>}
+                  </div>
+                  {issue.messages.map(message => (
+                    <div key={message} className={issue.duplicateOf ? "text-amber-600" : "text-destructive"}>{message}</div>
+                  ))}
+                  {issue.duplicateOf && (
+                    <div className="text-xs text-muted-foreground">Matches {issue.duplicateOf.join(', ')}</div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          {preview.issues.length < preview.invalidRows + preview.duplicateRows && (
+            <p className="text-xs text-muted-foreground">
+              Showing the first {preview.issues.length}; every row is listed in the error report after the import.
+            </p>
+          )}
+        </div>
+      )}
+
+      {step === 'import' && (
+        <div className="space-y-4">
+          {!job || isRunning ? (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>Importing {parsed?.fileName}...</span>
+                <span className="text-muted-foreground">{job?.processedRows || 0} / {job?.totalRows || parsed?.rows.length || 0}</span>
+              </div>
+              <Progress value={job?.totalRows ? (job.processedRows / job.totalRows) * 100 : 0} className="h-2" />
+              <p className="text-xs text-muted-foreground">You can close this window; the import keeps running.</p>
+            </div>
+          ) : job.status === 'failed' ? (
+            <p className="text-sm text-destructive flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4" />
+              The import stopped after {job.processedRows} rows: {job.error || 'unknown error'}. {job.importedCount} leads were imported.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm flex items-center gap-2">
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                Imported {job.importedCount} of {job.totalRows} leads.
+              </p>
+              <ul className="text-sm text-muted-foreground space-y-1">
+                {job.failedCount > 0 && <li>{job.failedCount} row{job.failedCount === 1 ? '' : 's'} failed</li>}
+                {job.duplicateCount > 0 && (
+                  <li>
+                    {job.duplicateCount} possible duplicate{job.duplicateCount === 1 ? '' : 's'}
+                    {job.skipDuplicates ? ' skipped' : ' imported'}
+                  </li>
+                )}
+              </ul>
+            </div>
+          )}
+
+          {job && !isRunning && (job.failedCount > 0 || job.duplicateCount > 0) && errorReportUrl && (
+            <Button variant="outline" size="sm" asChild>
+              <a href={errorReportUrl} download>
+                <Download className="h-4 w-4 mr-2" />
+                Download error report
+              </a>
+            </Button>
+          )}
+        </div>
+      )}
+    </CustomModal>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  closestCenter,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from "@dnd-kit/core";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Briefcase, Flame, Lock, UserPlus } from "lucide-react";
+import { cn, formatCurrency } from "@/lib/utils";
+import { PRIORITY_COLORS } from "@/lib/colorConstants";
+import { canMoveToStage, getLeadStage } from "@/lib/utils/lead-pipeline";
+import type { Lead, LeadPipelineStage } from "@/types";
+
+interface LeadPipelineBoardProps {
+  leads: Lead[];
+  stages: LeadPipelineStage[];
+  loading?: boolean;
+  canUpdate: boolean;
+  canConvert: boolean;
+  convertingLeadId?: string | null;
+  onMoveLead: (lead: Lead, stageKey: string) => void;
+  onOpenLead: (lead: Lead) => void;
+  onConvertLead: (lead: Lead) => void;
+}
+
+// Converted, unqualified and deleted leads stay where they are
+const isLocked = (lead: Lead) =>
+  !!lead.clientId || ['qualified', 'unqualified', 'deleted'].includes(lead.status);
+
+const LeadCardContent = ({ lead }: { lead: Lead }) => (
+  <>
+    <div className="flex items-start justify-between gap-2">
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{lead.name}</p>
+        {lead.company && <p className="text-xs text-muted-foreground truncate">{lead.company}</p>}
+      </div>
+      <div className="flex shrink-0 items-center gap-1">
+        {lead.hotLead && <Flame className="h-3.5 w-3.5 text-orange-500" aria-label="Hot lead" />}
+        {isLocked(lead) && <Lock className="h-3.5 w-3.5 text-muted-foreground" />}
+      </div>
+    </div>
+    <div className="mt-2 flex items-center gap-1 text-xs text-muted-foreground">
+      <Briefcase className="h-3 w-3 shrink-0" />
+      <span className="truncate">{lead.projectName}</span>
+    </div>
+    <div className="mt-2 flex items-center justify-between gap-2">
+      <Badge className={`${PRIORITY_COLORS[lead.priority as keyof typeof PRIORITY_COLORS] || PRIORITY_COLORS.low} border text-xs`}>
+        {lead.priority}
+      </Badge>
+      {!!lead.projectBudget && (
+        <span className="text-xs font-medium">{formatCurrency(lead.projectBudget)}</span>
+      )}
+    </div>
+  </>
+);
+
+interface LeadCardProps {
+  lead: Lead;
+  stage: LeadPipelineStage;
+  draggable: boolean;
+  canConvert: boolean;
+  converting: boolean;
+  onOpenLead: (lead: Lead) => void;
+  onConvertLead: (lead: Lead) => void;
+}
+
+const LeadCard = ({ lead, stage, draggable, canConvert, converting, onOpenLead, onConvertLead }: LeadCardProps) => {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: String(lead._id),
+    disabled: !draggable,
+  });
+
+  // Won leads still go through the regular client conversion
+  const showConvert = canConvert && stage.category === 'won' && !lead.clientId && lead.status === 'active';
+
+  return (
+    <Card
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      onClick={() => onOpenLead(lead)}
+      className={cn(
+        "p-3 border border-border bg-card hover:shadow-md transition-shadow",
+        draggable ? "cursor-grab active:cursor-grabbing" : "cursor-pointer",
+        isDragging && "opacity-40"
+      )}
+    >
+      <LeadCardContent lead={lead} />
+      {showConvert && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="mt-3 h-7 w-full text-xs"
+          disabled={converting}
+          onClick={(e) => { e.stopPropagation(); onConvertLead(lead); }}
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <UserPlus className="h-3 w-3 mr-1" />
+          {converting ? 'Converting...' : 'Convert to client'}
+        </Button>
+      )}
+    </Card>
+  );
+};
+
+interface StageColumnProps {
+  stage: LeadPipelineStage;
+  leads: Lead[];
+  highlight: 'allowed' | 'blocked' | null;
+  children: React.ReactNode;
+}
+
+const StageColumn = ({ stage, leads, highlight, children }: StageColumnProps) => {
+  const { isOver, setNodeRef } = useDroppable({ id: stage.key });
+  const budget = leads.reduce((sum, lead) => sum + (lead.projectBudget || 0), 0);
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "flex-1 min-w-[260px] max-w-xs rounded border border-border bg-card/30 p-3 flex flex-col transition-all",
+        isOver && highlight === 'allowed' && "ring-2 ring-primary/30",
+        isOver && highlight === 'blocked' && "ring-2 ring-destructive/40",
+        highlight === 'blocked' && "opacity-60"
+      )}
+    >
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: stage.color || '#64748b' }} />
+          <h3 className="text-sm font-semibold truncate">{stage.name}</h3>
+          <Badge variant="secondary" className="text-xs">{leads.length}</Badge>
+        </div>
+        {budget > 0 && <span className="text-xs text-muted-foreground">{formatCurrency(budget)}</span>}
+      </div>
+      <div className="flex-1 space-y-2 overflow-y-auto max-h-[65vh] pr-1">
+        {children}
+        {leads.length === 0 && (
+          <p className="py-6 text-center text-xs text-muted-foreground">No leads</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Leads grouped into pipeline stage columns; dragging a card moves the lead
+export function LeadPipelineBoard({
+  leads,
+  stages,
+  loading,
+  canUpdate,
+  canConvert,
+  convertingLeadId,
+  onMoveLead,
+  onOpenLead,
+  onConvertLead,
+}: LeadPipelineBoardProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    })
+  );
+  const [draggingLead, setDraggingLead] = useState<Lead | null>(null);
+
+  const leadsByStage = useMemo(() => {
+    const result: Record<string, Lead[]> = {};
+    stages.forEach(stage => { result[stage.key] = []; });
+    leads.forEach(lead => {
+      if (lead.status === 'deleted' || stages.length === 0) return;
+      result[getLeadStage(lead, stages).key].push(lead);
+    });
+    return result;
+  }, [leads, stages]);
+
+  const draggingFrom = draggingLead ? getLeadStage(draggingLead, stages) : null;
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setDraggingLead(leads.find(lead => String(lead._id) === String(event.active.id)) || null);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const lead = draggingLead;
+    setDraggingLead(null);
+    if (!lead || !event.over) return;
+
+    const to = stages.find(stage => stage.key === String(event.over!.id));
+    const from = getLeadStage(lead, stages);
+    if (!to || to.key === from.key || !canMoveToStage(from, to)) return;
+
+    onMoveLead(lead, to.key);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex gap-3 overflow-x-auto p-4">
+        {Array.from({ length: 5 }).map((_, index) => (
+          <Skeleton key={index} className="h-96 min-w-[260px] flex-1" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={closestCenter}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => setDraggingLead(null)}
+    >
+      <div className="flex gap-3 overflow-x-auto p-4">
+        {stages.map(stage => (
+          <StageColumn
+            key={stage.key}
+            stage={stage}
+            leads={leadsByStage[stage.key] || []}
+            highlight={draggingFrom && draggingFrom.key !== stage.key
+              ? canMoveToStage(draggingFrom, stage) ? 'allowed' : 'blocked'
+              : null}
+          >
+            {(leadsByStage[stage.key] || []).map(lead => (
+              <LeadCard
+                key={lead._id}
+                lead={lead}
+                stage={stage}
+                draggable={canUpdate && !isLocked(lead)}
+                canConvert={canConvert}
+                converting={convertingLeadId === lead._id}
+                onOpenLead={onOpenLead}
+                onConvertLead={onConvertLead}
+              />
+            ))}
+          </StageColumn>
+        ))}
+      </div>
+      <DragOverlay zIndex={1000}>
+        {draggingLead ? (
+          <Card className="p-3 border border-border bg-card shadow-2xl rotate-3" style={{ width: '260px' }}>
+            <LeadCardContent lead={draggingLead} />
+          </Card>
+        ) : null}
+      </DragOverlay>
+    </DndContext>
+  );
+}
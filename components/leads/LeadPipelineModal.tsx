@@ -0,0 +1,209 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import CustomModal from "@/components/shared/custom-modal";
+import { SearchableSelect } from "@/components/shared/generic-form";
+import { ArrowDown, ArrowUp, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { useLeadPipeline } from "@/hooks/use-lead-pipeline";
+import type { LeadPipelineStage, LeadPipelineStageCategory } from "@/types";
+
+interface LeadPipelineModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CATEGORY_OPTIONS: { label: string; value: LeadPipelineStageCategory }[] = [
+  { label: 'Open', value: 'open' },
+  { label: 'Won', value: 'won' },
+  { label: 'Lost', value: 'lost' },
+];
+
+// Stages being edited; keys are only assigned on save for new ones
+type DraftStage = LeadPipelineStage & { isNew?: boolean };
+
+const slugify = (name: string) =>
+  name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'stage';
+
+export function LeadPipelineModal({ isOpen, onClose }: LeadPipelineModalProps) {
+  const { pipeline, isCustom, isLoading, updatePipeline, updating } = useLeadPipeline();
+  const [draft, setDraft] = useState<DraftStage[]>([]);
+
+  useEffect(() => {
+    if (isOpen && pipeline) setDraft(pipeline.stages.map(stage => ({ ...stage })));
+  }, [isOpen, pipeline]);
+
+  const updateStage = (index: number, changes: Partial<DraftStage>) => {
+    setDraft(current => current.map((stage, i) => i === index ? { ...stage, ...changes } : stage));
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    setDraft(current => {
+      const next = [...current];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const removeStage = (index: number) => {
+    setDraft(current => {
+      const removedKey = current[index].key;
+      return current
+        .filter((_, i) => i !== index)
+        .map(stage => ({ ...stage, transitions: stage.transitions?.filter(key => key !== removedKey) }));
+    });
+  };
+
+  const addStage = () => {
+    setDraft(current => [...current, { key: `new-${Date.now()}`, name: '', category: 'open', isNew: true }]);
+  };
+
+  const toggleTransition = (index: number, key: string, allowed: boolean) => {
+    const transitions = draft[index].transitions || [];
+    updateStage(index, { transitions: allowed ? [...transitions, key] : transitions.filter(existing => existing !== key) });
+  };
+
+  const handleSave = async () => {
+    // Give new stages a readable key derived from their name
+    const usedKeys = new Set(draft.filter(stage => !stage.isNew).map(stage => stage.key));
+    const renamed = new Map<string, string>();
+    for (const stage of draft.filter(stage => stage.isNew)) {
+      let key = slugify(stage.name);
+      for (let suffix = 2; usedKeys.has(key); suffix++) key = `${slugify(stage.name)}-${suffix}`;
+      usedKeys.add(key);
+      renamed.set(stage.key, key);
+    }
+
+    const stages: LeadPipelineStage[] = draft.map(({ isNew, ...stage }) => ({
+      ...stage,
+      key: renamed.get(stage.key) || stage.key,
+      transitions: stage.transitions?.map(key => renamed.get(key) || key),
+    }));
+
+    try {
+      await updatePipeline({ stages });
+      onClose();
+    } catch (error) {
+      // Error toast is shown by the hook
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await updatePipeline(null);
+      onClose();
+    } catch (error) {
+      // Error toast is shown by the hook
+    }
+  };
+
+  return (
+    <CustomModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Sales Pipeline"
+      modalSize="xl"
+      actions={
+        <div className="flex w-full items-center justify-between gap-2">
+          <Button variant="ghost" onClick={handleReset} disabled={updating || !isCustom}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to default
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={updating}>Cancel</Button>
+            <Button onClick={handleSave} disabled={updating || isLoading || draft.length === 0}>
+              {updating ? 'Saving...' : 'Save Pipeline'}
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Stages appear as board columns in this order. Leads in a won stage can be converted to clients; moving a lead to a lost stage marks it inactive.
+          Removing a stage moves its leads to the first stage of the same category.
+        </p>
+
+        {draft.map((stage, index) => (
+          <div key={stage.key} className="rounded-lg border border-border p-3 space-y-3">
+            <div className="grid grid-cols-12 items-end gap-3">
+              <div className="col-span-5 space-y-1">
+                <Label>Name</Label>
+                <Input
+                  value={stage.name}
+                  maxLength={50}
+                  placeholder="e.g. Proposal Sent"
+                  onChange={(e) => updateStage(index, { name: e.target.value })}
+                />
+              </div>
+              <div className="col-span-3 space-y-1">
+                <Label>Category</Label>
+                <SearchableSelect
+                  options={CATEGORY_OPTIONS}
+                  value={stage.category}
+                  onValueChange={(category) => updateStage(index, { category: category as LeadPipelineStageCategory })}
+                />
+              </div>
+              <div className="col-span-1 space-y-1">
+                <Label>Color</Label>
+                <Input
+                  type="color"
+                  className="h-9 p-1"
+                  value={stage.color || '#64748b'}
+                  onChange={(e) => updateStage(index, { color: e.target.value })}
+                />
+              </div>
+              <div className="col-span-3 flex justify-end gap-1">
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => moveStage(index, -1)} disabled={index === 0} title="Move up">
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => moveStage(index, 1)} disabled={index === draft.length - 1} title="Move down">
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => removeStage(index)} disabled={draft.length === 1} title="Remove stage">
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={!!stage.transitions}
+                  onCheckedChange={(checked) => updateStage(index, { transitions: checked ? [] : undefined })}
+                />
+                Only allow moving to selected stages
+              </label>
+              {stage.transitions && (
+                <div className="flex flex-wrap gap-3 pl-6">
+                  {draft.filter(other => other.key !== stage.key).map(other => (
+                    <label key={other.key} className="flex items-center gap-1.5 text-sm">
+                      <Checkbox
+                        checked={stage.transitions!.includes(other.key)}
+                        onCheckedChange={(checked) => toggleTransition(index, other.key, !!checked)}
+                      />
+                      {other.name || <span className="text-muted-foreground">Unnamed</span>}
+                    </label>
+                  ))}
+                  {stage.transitions.length === 0 && (
+                    <Badge variant="outline" className="text-xs">Final stage</Badge>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+
+        <Button variant="outline" size="sm" onClick={addStage}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Stage
+        </Button>
+      </div>
+    </CustomModal>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Flame, Gauge } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useLeadScoring } from "@/hooks/use-lead-scoring";
+import type { Lead } from "@/types";
+
+interface LeadScoreBreakdownProps {
+  lead: Lead;
+}
+
+// "Why this score": the rules that matched when the lead was last scored
+export function LeadScoreBreakdown({ lead }: LeadScoreBreakdownProps) {
+  const { hotThreshold } = useLeadScoring();
+  const breakdown = lead.scoreBreakdown || [];
+  const total = breakdown.reduce((sum, factor) => sum + factor.points, 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Gauge className="h-4 w-4" />
+            Lead Score
+          </CardTitle>
+          {lead.hotLead && (
+            <Badge className="bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-300 border border-orange-200 dark:border-orange-800">
+              <Flame className="h-3 w-3 mr-1" />
+              Hot lead
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lead.score === undefined || lead.score === null ? (
+          <p className="text-sm text-muted-foreground">This lead will be scored the next time it is saved.</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-baseline justify-between">
+                <span className="text-3xl font-semibold">{lead.score}<span className="text-base text-muted-foreground">/100</span></span>
+                {hotThreshold !== undefined && (
+                  <span className="text-xs text-muted-foreground">Hot at {hotThreshold}+</span>
+                )}
+              </div>
+              <Progress value={lead.score} className="h-2" />
+            </div>
+
+            {breakdown.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No scoring rules match this lead.</p>
+            ) : (
+              <ul className="space-y-1.5">
+                {breakdown.map(factor => (
+                  <li key={factor.ruleId} className="flex items-center justify-between gap-3 text-sm">
+                    <span>{factor.label}</span>
+                    <span className={cn("font-medium tabular-nums", factor.points < 0 ? "text-destructive" : "text-green-600")}>
+                      {factor.points > 0 ? `+${factor.points}` : factor.points}
+                    </span>
+                  </li>
+                ))}
+                {total !== lead.score && (
+                  <li className="flex items-center justify-between gap-3 border-t border-border pt-1.5 text-xs text-muted-foreground">
+                    <span>Total of {total} capped to the 0-100 range</span>
+                  </li>
+                )}
+              </ul>
+            )}
+
+            {lead.scoredAt && (
+              <p className="text-xs text-muted-foreground">
+                Scored {new Date(lead.scoredAt).toLocaleDateString('en-US', {
+                  year: 'numeric',
+                  month: 'short',
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit'
+                })}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,273 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import CustomModal from "@/components/shared/custom-modal";
+import { SearchableSelect } from "@/components/shared/generic-form";
+import { Plus, RotateCcw, Trash2 } from "lucide-react";
+import { useLeadScoring } from "@/hooks/use-lead-scoring";
+import { LEAD_CONSTANTS } from "@/lib/validations/lead";
+import { CHOICE_SCORING_FIELDS, NUMBER_SCORING_FIELDS } from "@/lib/utils/lead-scoring";
+import type { LeadFollowUpState, LeadScoringRule, LeadScoringRuleField } from "@/types";
+
+interface LeadScoringModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FIELD_OPTIONS: { label: string; value: LeadScoringRuleField }[] = [
+  { label: 'Company size', value: 'companySize' },
+  { label: 'Source', value: 'source' },
+  { label: 'Priority', value: 'priority' },
+  { label: 'Project type', value: 'projectType' },
+  { label: 'Complexity', value: 'complexity' },
+  { label: 'Project budget', value: 'projectBudget' },
+  { label: 'Annual revenue', value: 'annualRevenue' },
+  { label: 'Employee count', value: 'employeeCount' },
+  { label: 'Recent contacts', value: 'recentContacts' },
+  { label: 'Follow-up', value: 'followUp' },
+];
+
+const CHOICE_VALUES: Partial<Record<LeadScoringRuleField, readonly string[]>> = {
+  companySize: LEAD_CONSTANTS.COMPANY_SIZE.VALUES,
+  source: LEAD_CONSTANTS.SOURCE.VALUES,
+  priority: LEAD_CONSTANTS.PRIORITY.VALUES,
+  projectType: LEAD_CONSTANTS.PROJECT.TYPE.VALUES,
+  complexity: LEAD_CONSTANTS.PROJECT.COMPLEXITY.VALUES,
+};
+
+const FOLLOW_UP_OPTIONS: { label: string; value: LeadFollowUpState }[] = [
+  { label: 'Scheduled or kept', value: 'scheduled' },
+  { label: 'Overdue', value: 'overdue' },
+  { label: 'Not scheduled', value: 'none' },
+];
+
+// Rules being edited; ids are only assigned on save for new ones
+type DraftRule = LeadScoringRule & { isNew?: boolean };
+
+const slugify = (label: string) =>
+  label.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'rule';
+
+const humanize = (value: string) => value.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+
+const toNumber = (value: string) => value === '' || isNaN(Number(value)) ? undefined : Number(value);
+
+// Match settings a rule starts with when its field changes
+const matchDefaults = (field: LeadScoringRuleField): Partial<LeadScoringRule> => {
+  if (field === 'followUp') return { values: undefined, min: undefined, max: undefined, withinDays: undefined, followUp: 'scheduled' };
+  if (field === 'recentContacts') return { values: undefined, min: 1, max: undefined, withinDays: 30, followUp: undefined };
+  if (NUMBER_SCORING_FIELDS.includes(field)) return { values: undefined, min: 0, max: undefined, withinDays: undefined, followUp: undefined };
+  return { values: [], min: undefined, max: undefined, withinDays: undefined, followUp: undefined };
+};
+
+export function LeadScoringModal({ isOpen, onClose }: LeadScoringModalProps) {
+  const { scoring, isCustom, isLoading, updateScoring, updating } = useLeadScoring(isOpen);
+  const [draft, setDraft] = useState<DraftRule[]>([]);
+  const [hotThreshold, setHotThreshold] = useState('');
+
+  useEffect(() => {
+    if (isOpen && scoring) {
+      setDraft(scoring.rules.map(rule => ({ ...rule })));
+      setHotThreshold(String(scoring.hotThreshold));
+    }
+  }, [isOpen, scoring]);
+
+  const updateRule = (index: number, changes: Partial<DraftRule>) => {
+    setDraft(current => current.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  const removeRule = (index: number) => {
+    setDraft(current => current.filter((_, i) => i !== index));
+  };
+
+  const addRule = () => {
+    setDraft(current => [...current, { id: `new-${Date.now()}`, label: '', field: 'source', values: [], points: 10, isNew: true }]);
+  };
+
+  const toggleValue = (index: number, value: string, selected: boolean) => {
+    const values = draft[index].values || [];
+    updateRule(index, { values: selected ? [...values, value] : values.filter(existing => existing !== value) });
+  };
+
+  const handleSave = async () => {
+    // Give new rules a readable id derived from their label
+    const usedIds = new Set(draft.filter(rule => !rule.isNew).map(rule => rule.id));
+    const rules: LeadScoringRule[] = draft.map(({ isNew, ...rule }) => {
+      if (!isNew) return rule;
+      let id = slugify(rule.label);
+      for (let suffix = 2; usedIds.has(id); suffix++) id = `${slugify(rule.label)}-${suffix}`;
+      usedIds.add(id);
+      return { ...rule, id };
+    });
+
+    try {
+      await updateScoring({ rules, hotThreshold: Number(hotThreshold) });
+      onClose();
+    } catch (error) {
+      // Error toast is shown by the hook
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await updateScoring(null);
+      onClose();
+    } catch (error) {
+      // Error toast is shown by the hook
+    }
+  };
+
+  return (
+    <CustomModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Lead Scoring Rules"
+      modalSize="xl"
+      actions={
+        <div className="flex w-full items-center justify-between gap-2">
+          <Button variant="ghost" onClick={handleReset} disabled={updating || !isCustom}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to default
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={updating}>Cancel</Button>
+            <Button onClick={handleSave} disabled={updating || isLoading || !hotThreshold}>
+              {updating ? 'Saving...' : 'Save Rules'}
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          A lead's score is the sum of the points of every rule it matches, kept between 0 and 100.
+          Scores are recalculated when a lead is created or updated, and for all leads when these rules are saved.
+        </p>
+
+        <div className="flex items-center gap-3">
+          <Label className="whitespace-nowrap">Hot lead at</Label>
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            className="h-9 w-24"
+            value={hotThreshold}
+            onChange={(e) => setHotThreshold(e.target.value)}
+          />
+          <span className="text-sm text-muted-foreground">points or more</span>
+        </div>
+
+        {draft.map((rule, index) => (
+          <div key={rule.id} className="rounded-lg border border-border p-3 space-y-3">
+            <div className="grid grid-cols-12 items-end gap-3">
+              <div className="col-span-5 space-y-1">
+                <Label>Label</Label>
+                <Input
+                  value={rule.label}
+                  maxLength={100}
+                  placeholder="e.g. Budget of $50k or more"
+                  onChange={(e) => updateRule(index, { label: e.target.value })}
+                />
+              </div>
+              <div className="col-span-3 space-y-1">
+                <Label>Field</Label>
+                <SearchableSelect
+                  options={FIELD_OPTIONS}
+                  value={rule.field}
+                  onValueChange={(field) => updateRule(index, {
+                    field: field as LeadScoringRuleField,
+                    ...matchDefaults(field as LeadScoringRuleField),
+                  })}
+                />
+              </div>
+              <div className="col-span-2 space-y-1">
+                <Label>Points</Label>
+                <Input
+                  type="number"
+                  min={-100}
+                  max={100}
+                  value={rule.points}
+                  onChange={(e) => updateRule(index, { points: toNumber(e.target.value) ?? 0 })}
+                />
+              </div>
+              <div className="col-span-2 flex justify-end">
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => removeRule(index)} title="Remove rule">
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+
+            {CHOICE_SCORING_FIELDS.includes(rule.field) && (
+              <div className="flex flex-wrap gap-3">
+                {(CHOICE_VALUES[rule.field] || []).map(value => (
+                  <label key={value} className="flex items-center gap-1.5 text-sm">
+                    <Checkbox
+                      checked={!!rule.values?.includes(value)}
+                      onCheckedChange={(checked) => toggleValue(index, value, !!checked)}
+                    />
+                    {humanize(value)}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {(NUMBER_SCORING_FIELDS.includes(rule.field) || rule.field === 'recentContacts') && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span>{rule.field === 'recentContacts' ? 'Between' : 'From'}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  className="h-8 w-28"
+                  placeholder="Any"
+                  value={rule.min ?? ''}
+                  onChange={(e) => updateRule(index, { min: toNumber(e.target.value) })}
+                />
+                <span>{rule.field === 'recentContacts' ? 'and' : 'to'}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  className="h-8 w-28"
+                  placeholder="Any"
+                  value={rule.max ?? ''}
+                  onChange={(e) => updateRule(index, { max: toNumber(e.target.value) })}
+                />
+                {rule.field === 'recentContacts' && (
+                  <>
+                    <span>contacts in the last</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={365}
+                      className="h-8 w-20"
+                      value={rule.withinDays ?? ''}
+                      onChange={(e) => updateRule(index, { withinDays: toNumber(e.target.value) })}
+                    />
+                    <span>days</span>
+                  </>
+                )}
+              </div>
+            )}
+
+            {rule.field === 'followUp' && (
+              <div className="w-60">
+                <SearchableSelect
+                  options={FOLLOW_UP_OPTIONS}
+                  value={rule.followUp || 'scheduled'}
+                  onValueChange={(followUp) => updateRule(index, { followUp: followUp as LeadFollowUpState })}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+
+        <Button variant="outline" size="sm" onClick={addRule}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+    </CustomModal>
+  );
+}
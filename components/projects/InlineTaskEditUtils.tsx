@@ -24,6 +24,8 @@ import { useToast } from "@/hooks/use-toast"
 import { Input } from "@/components/ui/input"
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar"
 import { PRIORITY_COLORS, STATUS_COLORS } from "@/lib/colorConstants"
+import { DEFAULT_WORKFLOW_STATUSES, getTaskWorkflowStatus, canTransition, toBaseTaskStatus } from "@/lib/utils/task-workflow"
+import type { WorkflowStatus } from "@/types"
 
 export const priorityIcons: Record<string, React.ComponentType<any>> = {
   low: Clock,
@@ -38,6 +40,8 @@ interface InlineStatusDropdownProps {
   isLoading?: boolean
   canUpdate?: boolean
   onStatusChange: (taskId: string, newStatus: string) => Promise<void>
+  // Project workflow; statuses are then changed by workflow key
+  workflowStatuses?: WorkflowStatus[]
 }
 
 export const InlineStatusDropdown = memo(function InlineStatusDropdown({
@@ -45,13 +49,15 @@ export const InlineStatusDropdown = memo(function InlineStatusDropdown({
   isLoading = false,
   canUpdate = true,
   onStatusChange,
+  workflowStatuses,
 }: InlineStatusDropdownProps) {
   const { toast } = useToast()
   const [isOpen, setIsOpen] = useState(false)
-  const statuses = ["pending", "in-progress", "on-hold", "completed", "closed"]
+  const statuses = workflowStatuses?.length ? workflowStatuses : DEFAULT_WORKFLOW_STATUSES
+  const current = getTaskWorkflowStatus(task, statuses)
 
   const handleStatusChange = async (newStatus: string) => {
-    if (newStatus === task.status) {
+    if (newStatus === current.key) {
       setIsOpen(false)
       return
     }
@@ -83,7 +89,7 @@ export const InlineStatusDropdown = memo(function InlineStatusDropdown({
           )}
         >
           {isLoading && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
-          <span className="capitalize">{task.status}</span>
+          <span className="capitalize">{current.name}</span>
           {!isLoading && <ChevronDown className="ml-1 h-3 w-3" />}
         </Button>
       </DropdownMenuTrigger>
@@ -92,13 +98,18 @@ export const InlineStatusDropdown = memo(function InlineStatusDropdown({
         <DropdownMenuSeparator />
         {statuses.map((status) => (
           <DropdownMenuItem
-            key={status}
-            onClick={() => handleStatusChange(status)}
-            disabled={isLoading || task.isDeleted}
-            className={cn(task.status === status && "bg-accent")}
+            key={status.key}
+            onClick={() => handleStatusChange(status.key)}
+            disabled={
+              isLoading ||
+              task.isDeleted ||
+              !canTransition(current, status) ||
+              (toBaseTaskStatus(status) === "in-progress" && task.isBlocked && current.key !== status.key)
+            }
+            className={cn(current.key === status.key && "bg-accent")}
           >
-            <Check className={cn("mr-2 h-3 w-3", task.status === status ? "opacity-100" : "opacity-0")} />
-            <span className="capitalize">{status}</span>
+            <Check className={cn("mr-2 h-3 w-3", current.key === status.key ? "opacity-100" : "opacity-0")} />
+            <span className="capitalize">{status.name}</span>
           </DropdownMenuItem>
         ))}
       </DropdownMenuContent>
@@ -7,6 +7,7 @@ import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
 import { useProjectAnalytics, EnhancedAnalyticsData, useAnalyticsAutoRefresh } from "@/hooks/use-analytics";
+import { useProjectSchedule } from "@/hooks/use-project-timeline";
 import { useQueryClient } from "@tanstack/react-query";
 import {
   TrendingUp,
@@ -33,7 +34,8 @@ import {
   ChevronDown,
   ArrowRight,
   TrendingDown as TrendingDownIcon,
-  Filter
+  Filter,
+  GitBranch
 } from "lucide-react";
 import {
   Select,
@@ -57,6 +59,7 @@ import {
   PieChart,
   Pie,
   Cell,
+  ReferenceLine,
 } from 'recharts';
 import GenericReportExporter from '@/components/shared/GenericReportExporter';
 import GenericFilter, { FilterConfig } from '@/components/shared/generic-filter';
@@ -70,6 +73,11 @@ interface ProjectAnalyticsProps {
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#84cc16'];
 
+// Schedule dates are whole UTC days
+const formatScheduleDate = (date?: string | null) => {
+  return date ? new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' }) : '-';
+};
+
 export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
   // All useState hooks first
   const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d' | '1y'>('30d');
@@ -103,6 +111,7 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
   }, [filterValues]);
 
   const { analytics, loading, error, refetch } = useProjectAnalytics(projectId, timeRange, backendFilters);
+  const { schedule } = useProjectSchedule(projectId);
 
   // useAnalyticsAutoRefresh hook
   useAnalyticsAutoRefresh(projectId, refetch);
@@ -499,7 +508,7 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
 
       {/* Enhanced Analytics Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-        <TabsList className="grid w-full grid-cols-6">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="overview" className="text-xs">
             <BarChart3 className="h-4 w-4 mr-1" />
             Overview
@@ -524,6 +533,10 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
             <Shield className="h-4 w-4 mr-1" />
             Risks
           </TabsTrigger>
+          <TabsTrigger value="schedule" className="text-xs">
+            <GitBranch className="h-4 w-4 mr-1" />
+            Schedule
+          </TabsTrigger>
         </TabsList>
 
         {/* Overview Tab */}
@@ -909,6 +922,78 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
             </Card>
           </div>
 
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingDown className="h-5 w-5" />
+                Budget Burn-Down
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {(() => {
+                const burnDown = resourceData?.budget?.burnDown;
+                return burnDown && burnDown.budget > 0 && burnDown.series.length > 0 ? (
+                  <div className="space-y-6">
+                    <ResponsiveContainer width="100%" height={320}>
+                      <LineChart data={burnDown.series}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="week" tick={{ fontSize: 12 }} />
+                        <YAxis tickFormatter={(value) => `$${Number(value).toLocaleString()}`} />
+                        <Tooltip formatter={(value, name) => [`$${Number(value).toLocaleString()}`, name]} />
+                        <Legend />
+                        {burnDown.thresholds.map(threshold => (
+                          <ReferenceLine
+                            key={threshold}
+                            y={burnDown.budget * (1 - threshold / 100)}
+                            stroke={threshold >= 100 ? '#ef4444' : '#f59e0b'}
+                            strokeDasharray="4 4"
+                            label={{ value: `${threshold}%`, position: 'right', fontSize: 11 }}
+                          />
+                        ))}
+                        <Line type="monotone" dataKey="plannedRemaining" name="Planned" stroke="#94a3b8" strokeDasharray="5 5" dot={false} connectNulls />
+                        <Line type="monotone" dataKey="remaining" name="Remaining Budget" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                        <Line type="monotone" dataKey="actualCost" name="Spent" stroke="#10b981" strokeWidth={2} dot={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+
+                    {(burnDown.milestones.length > 0 || burnDown.phases.length > 0) && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        {[
+                          { label: 'Phases', items: burnDown.phases },
+                          { label: 'Milestones', items: burnDown.milestones },
+                        ].filter(group => group.items.length > 0).map(group => (
+                          <div key={group.label} className="space-y-3">
+                            <h4 className="text-sm font-medium">{group.label}</h4>
+                            {group.items.map(item => {
+                              const used = item.budgetAllocation > 0 ? Math.round((item.actualCost / item.budgetAllocation) * 100) : 0;
+                              return (
+                                <div key={item._id} className="space-y-1">
+                                  <div className="flex justify-between text-sm">
+                                    <span className="truncate">{item.title}</span>
+                                    <span className={used > 100 ? 'text-red-500' : 'text-muted-foreground'}>
+                                      ${item.actualCost.toLocaleString()}
+                                      {item.budgetAllocation > 0 && ` / $${item.budgetAllocation.toLocaleString()}`}
+                                    </span>
+                                  </div>
+                                  {item.budgetAllocation > 0 && <Progress value={Math.min(100, used)} className="h-2" />}
+                                </div>
+                              );
+                            })}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <div className="text-center py-8">
+                    <TrendingDown className="h-12 w-12 mx-auto mb-3 text-muted-foreground" />
+                    <p className="text-muted-foreground">Set a project budget and approve timesheets to track budget burn.</p>
+                  </div>
+                );
+              })()}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -1228,6 +1313,101 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
             )}
           </div>
         </TabsContent>
+
+        {/* Schedule Tab */}
+        <TabsContent value="schedule" className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Planned End</p>
+                <p className="text-2xl font-bold">{formatScheduleDate(schedule?.projectEnd)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Projected Finish</p>
+                <p className={`text-2xl font-bold ${schedule?.projectSlipDays ? 'text-red-600' : ''}`}>
+                  {formatScheduleDate(schedule?.projectedFinish)}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Schedule Slip</p>
+                <p className={`text-2xl font-bold ${schedule?.projectSlipDays ? 'text-red-600' : 'text-green-600'}`}>
+                  {schedule?.projectSlipDays ? `${schedule.projectSlipDays} day(s) late` : 'On time'}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <GitBranch className="h-5 w-5" />
+                Critical Path
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {schedule?.criticalPath.length ? (
+                <div className="flex flex-wrap items-center gap-2">
+                  {schedule.criticalPath.map((step, index) => (
+                    <React.Fragment key={`${step.kind}-${step.id}`}>
+                      {index > 0 && <ArrowRight className="h-4 w-4 text-muted-foreground" />}
+                      <Badge variant="outline" className="border-red-300 text-red-700 dark:text-red-300">
+                        <span className="capitalize text-muted-foreground mr-1">{step.kind}:</span>
+                        {step.title}
+                      </Badge>
+                    </React.Fragment>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Add dates to phases, milestones or tasks to calculate the critical path.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calendar className="h-5 w-5" />
+                Float by Item
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                <div className="grid grid-cols-6 gap-2 text-xs font-medium text-muted-foreground pb-2 border-b">
+                  <span className="col-span-2">Item</span>
+                  <span>Earliest Start</span>
+                  <span>Latest Start</span>
+                  <span>Float</span>
+                  <span>Project End</span>
+                </div>
+                {(schedule?.items || []).map(item => (
+                  <div key={`${item.kind}-${item.id}`} className="grid grid-cols-6 gap-2 text-sm items-center">
+                    <span className="col-span-2 flex items-center gap-2 truncate">
+                      <Badge variant="secondary" className="text-xs capitalize">{item.kind}</Badge>
+                      <span className={`truncate ${item.isCritical ? 'font-semibold text-red-600' : ''}`}>{item.title}</span>
+                    </span>
+                    <span>{formatScheduleDate(item.earliestStart)}</span>
+                    <span>{formatScheduleDate(item.latestStart)}</span>
+                    <span>{item.isCritical ? <Badge variant="destructive" className="text-xs">Critical</Badge> : `${item.totalFloat} day(s)`}</span>
+                    <span>
+                      {item.slipDays > 0 ? (
+                        <Badge variant="destructive" className="text-xs">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          {item.slipDays} day(s) past
+                        </Badge>
+                      ) : (
+                        <CheckCircle className="h-4 w-4 text-green-500" />
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
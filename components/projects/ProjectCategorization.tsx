@@ -5,30 +5,37 @@ import { useForm } from "react-hook-form"
 import { Button } from "@/components/ui/button"
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Plus, CheckSquare, Building2, ChevronDown, ChevronUp } from "lucide-react"
+import { Plus, CheckSquare, Building2, ChevronDown, ChevronUp, Workflow } from "lucide-react"
 import { TaskModal, DepartmentManagerModal, TaskDetailsModal } from "@/components/projects/TaskModal"
+import { ProjectWorkflowModal } from "@/components/projects/ProjectWorkflowModal"
 import { useDepartments } from "@/hooks/use-departments"
 import { useTasks } from "@/hooks/use-tasks"
 import { useAppDispatch } from '@/hooks/redux'
 import { setTasks } from '@/store/slices/taskSlice'
 import { useUsers } from "@/hooks/use-users"
 import { useProject } from "@/hooks/use-projects"
+import { useProjectWorkflow } from "@/hooks/use-project-workflow"
+import { DEFAULT_WORKFLOW_STATUSES, getTaskWorkflowStatus, toBaseTaskStatus, canTransition } from "@/lib/utils/task-workflow"
 import { usePermissions } from "@/hooks/use-permissions"
+import { useAuthUser } from "@/hooks/use-auth-user"
 import { useToast } from "@/hooks/use-toast"
 import Swal from "sweetalert2"
 import { Grid3X3, List, Filter } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { InlineLoader } from '@/components/ui/loader'
 import { type DragEndEvent, type DragStartEvent, PointerSensor, useSensor, useSensors } from "@dnd-kit/core"
 
-import { TaskGridView, TaskTableView, TaskBoardView } from "@/components/projects/TaskDataViews"
+import { TaskGridView, TaskTableView, TaskBoardView, TASK_SWIMLANE_OPTIONS, type TaskSwimlaneGroupBy } from "@/components/projects/TaskDataViews"
 import GenericFilter, { FilterConfig } from '@/components/shared/generic-filter'
 import { useQueryClient } from '@tanstack/react-query'
+import { apiRequest } from '@/lib/utils/api-client'
 
 
 interface ProjectCategorizationProps {
     projectId: string
     project: any
     onProjectUpdate?: () => void
+    initialTaskId?: string // Opened in the details modal on load
 }
 
 interface DepartmentSelection {
@@ -40,6 +47,7 @@ export const ProjectCategorization = memo(function ProjectCategorization({
     projectId,
     project,
     onProjectUpdate,
+    initialTaskId,
 }: ProjectCategorizationProps) {
     const { toast } = useToast()
     const [loading, setLoading] = useState(false)
@@ -60,6 +68,7 @@ export const ProjectCategorization = memo(function ProjectCategorization({
     const [collapsedDepartments, setCollapsedDepartments] = useState<Set<string>>(new Set())
     const [selectedDepartments, setSelectedDepartments] = useState<DepartmentSelection[]>([])
     const [departmentModalOpen, setDepartmentModalOpen] = useState(false)
+    const [workflowModalOpen, setWorkflowModalOpen] = useState(false)
     const [departmentToAdd, setDepartmentToAdd] = useState<string | undefined>(undefined)
     const [modalLoading, setModalLoading] = useState(false)
     const [departmentOperationLoading, setDepartmentOperationLoading] = useState<Set<string>>(new Set())
@@ -87,6 +96,29 @@ export const ProjectCategorization = memo(function ProjectCategorization({
         }
     }, [projectId])
 
+    // Board swimlanes are remembered per user and project
+    const { user: currentUser } = useAuthUser()
+    const swimlaneStorageKey = `taskBoardSwimlanes:${currentUser?.id || 'anonymous'}:${projectId || 'global'}`
+    const [swimlaneGroupBy, setSwimlaneGroupBy] = useState<TaskSwimlaneGroupBy>("none")
+
+    useEffect(() => {
+        try {
+            const saved = typeof window !== 'undefined' ? window.localStorage.getItem(swimlaneStorageKey) : null
+            setSwimlaneGroupBy(TASK_SWIMLANE_OPTIONS.some(option => option.value === saved) ? saved as TaskSwimlaneGroupBy : "none")
+        } catch (e) {
+            /* ignore */
+        }
+    }, [swimlaneStorageKey])
+
+    const setSwimlaneGroupByAndPersist = useCallback((groupBy: TaskSwimlaneGroupBy) => {
+        setSwimlaneGroupBy(groupBy)
+        try {
+            if (typeof window !== 'undefined') window.localStorage.setItem(swimlaneStorageKey, groupBy)
+        } catch (e) {
+            // ignore localStorage errors
+        }
+    }, [swimlaneStorageKey])
+
     const pointerSensor = useSensor(PointerSensor)
     const sensors = useSensors(
         useSensor(PointerSensor, {
@@ -123,6 +155,8 @@ export const ProjectCategorization = memo(function ProjectCategorization({
     } = useUsers()
     const { updateProject } = useProject()
     const { canCreate, canUpdate, canDelete } = usePermissions()
+    const { statuses: projectStatuses } = useProjectWorkflow(projectId)
+    const workflowStatuses = projectStatuses.length ? projectStatuses : DEFAULT_WORKFLOW_STATUSES
     const dispatch = useAppDispatch()
     const queryClient = useQueryClient()
 
@@ -764,12 +798,18 @@ export const ProjectCategorization = memo(function ProjectCategorization({
         const task = tasks.find(t => t._id?.toString() === taskId)
         if (!task) throw new Error("Task not found")
 
+        // Workflow keys come from the project's statuses; anything else is a base status
+        const workflowStatus = workflowStatuses.find(status => status.key === newStatus)
+        const changes = workflowStatus
+            ? { status: toBaseTaskStatus(workflowStatus), workflowStatus: workflowStatus.key }
+            : { status: newStatus as "pending" | "in-progress" | "completed" | "on-hold" | "cancelled" | "closed" }
+
         // Optimistic update
         const previousTasks = tasks
-        dispatch(setTasks(tasks.map(t => t._id?.toString() === taskId ? { ...t, status: newStatus } : t)))
+        dispatch(setTasks(tasks.map(t => t._id?.toString() === taskId ? { ...t, ...changes } : t)))
 
         try {
-            await updateTask(taskId, { status: newStatus as "pending" | "in-progress" | "completed" | "on-hold" | "cancelled" | "closed" })
+            await updateTask(taskId, workflowStatus ? { workflowStatus: workflowStatus.key } : changes)
 
             // Invalidate task query for this department
             await queryClient.invalidateQueries({
@@ -786,7 +826,7 @@ export const ProjectCategorization = memo(function ProjectCategorization({
             dispatch(setTasks(previousTasks))
             throw error
         }
-    }, [tasks, updateTask, dispatch, queryClient, onProjectUpdate])
+    }, [tasks, workflowStatuses, updateTask, dispatch, queryClient, onProjectUpdate])
 
     const handleInlinePriorityChange = useCallback(async (taskId: string, newPriority: string) => {
         const task = tasks.find(t => t._id?.toString() === taskId)
@@ -1033,6 +1073,9 @@ export const ProjectCategorization = memo(function ProjectCategorization({
             const taskId = String(active.id || "")
             if (!taskId) return
 
+            // Board columns are the project's workflow statuses
+            const columnKey = (t: any) => getTaskWorkflowStatus(t, workflowStatuses).key
+
             const overId = String(over.id || "")
             let destDeptId = ""
             let destStatus = ""
@@ -1046,18 +1089,18 @@ export const ProjectCategorization = memo(function ProjectCategorization({
                 // Dropping on column means append to end
                 const columnTasks = tasks.filter(t => 
                     (t.departmentId?.toString() || "") === destDeptId && 
-                    (t.status || "") === destStatus
+                    columnKey(t) === destStatus
                 )
                 insertAtIndex = columnTasks.length
             } else {
                 const overTask = tasks.find((t) => t._id?.toString() === overId)
                 if (overTask) {
                     destDeptId = overTask.departmentId?.toString() || ""
-                    destStatus = overTask.status || ""
+                    destStatus = columnKey(overTask)
                     // Find insertion index based on the target task
                     const columnTasks = tasks.filter(t => 
                         (t.departmentId?.toString() || "") === destDeptId && 
-                        (t.status || "") === destStatus
+                        columnKey(t) === destStatus
                     ).sort((a, b) => (a.order || 0) - (b.order || 0))
                     insertAtIndex = columnTasks.findIndex(t => t._id?.toString() === overId)
                     if (insertAtIndex === -1) insertAtIndex = columnTasks.length
@@ -1070,7 +1113,7 @@ export const ProjectCategorization = memo(function ProjectCategorization({
             if (!taskToMove) return
 
             const sameDept = (taskToMove.departmentId?.toString() || "") === destDeptId
-            const sameStatus = (taskToMove.status || "") === destStatus
+            const sameStatus = columnKey(taskToMove) === destStatus
 
             // Handle within-column reordering
             if (sameDept && sameStatus) {
@@ -1086,7 +1129,7 @@ export const ProjectCategorization = memo(function ProjectCategorization({
                 // Get current column tasks in order
                 const columnTasks = tasks.filter(t => 
                     (t.departmentId?.toString() || "") === destDeptId && 
-                    (t.status || "") === destStatus
+                    columnKey(t) === destStatus
                 ).sort((a, b) => (a.order || 0) - (b.order || 0))
 
                 const currentIndex = columnTasks.findIndex(t => t._id?.toString() === taskId)
@@ -1141,9 +1184,39 @@ export const ProjectCategorization = memo(function ProjectCategorization({
                 return
             }
 
+            const fromStatus = getTaskWorkflowStatus(taskToMove, workflowStatuses)
+            const toStatus = workflowStatuses.find(status => status.key === destStatus) || fromStatus
+            if (!canTransition(fromStatus, toStatus)) {
+                toast({
+                    variant: "destructive",
+                    title: "Move not allowed",
+                    description: `This project's workflow does not allow moving from "${fromStatus.name}" to "${toStatus.name}".`,
+                })
+                return
+            }
+            // Hard WIP limits block the drop; soft ones are only flagged on the column
+            if (toStatus.wipLimit && toStatus.wipLimitStrict && !taskToMove.parentTaskId) {
+                const columnCount = tasks.filter(t =>
+                    !t.parentTaskId &&
+                    String(t._id) !== taskId &&
+                    (t.departmentId?.toString() || "") === destDeptId &&
+                    columnKey(t) === destStatus
+                ).length
+                if (columnCount + 1 > toStatus.wipLimit) {
+                    toast({
+                        variant: "destructive",
+                        title: "WIP limit reached",
+                        description: `"${toStatus.name}" is limited to ${toStatus.wipLimit} tasks. Finish or move a task out first.`,
+                    })
+                    return
+                }
+            }
+            const destBaseStatus = toBaseTaskStatus(toStatus)
+
             // Declare variables outside try for proper scope
             const sourceDeptId = taskToMove.departmentId?.toString() || ''
             const affectedDeptIds = [...new Set([sourceDeptId, destDeptId].filter(Boolean))]
+            const previousTasks = tasks
 
             try {
                 // Cancel ongoing tasks queries to avoid racing with optimistic update
@@ -1151,12 +1224,12 @@ export const ProjectCategorization = memo(function ProjectCategorization({
 
                 // Optimistically update Redux state immediately
                 const optimistic = tasks.map((t) =>
-                    String(t._id) === taskId ? { ...t, status: destStatus, departmentId: destDeptId } : t
+                    String(t._id) === taskId ? { ...t, status: destBaseStatus, workflowStatus: destStatus, departmentId: destDeptId } : t
                 )
                 dispatch(setTasks(optimistic))
 
                 if (selectedTaskForDetails?._id === taskId) {
-                    setSelectedTaskForDetails({ ...selectedTaskForDetails, status: destStatus, departmentId: destDeptId })
+                    setSelectedTaskForDetails({ ...selectedTaskForDetails, status: destBaseStatus, workflowStatus: destStatus, departmentId: destDeptId })
                 }
 
                 // Patch react-query caches for tasks lists that match this project and affected departments
@@ -1172,13 +1245,13 @@ export const ProjectCategorization = memo(function ProjectCategorization({
                                 if (!old) return old
                                 if (Array.isArray(old)) {
                                     return old.map((t: any) =>
-                                        String(t._id) === taskId ? { ...t, status: destStatus, departmentId: destDeptId } : t
+                                        String(t._id) === taskId ? { ...t, status: destBaseStatus, workflowStatus: destStatus, departmentId: destDeptId } : t
                                     )
                                 } else if (old.data && Array.isArray(old.data)) {
                                     return {
                                         ...old,
                                         data: old.data.map((t: any) =>
-                                            String(t._id) === taskId ? { ...t, status: destStatus, departmentId: destDeptId } : t
+                                            String(t._id) === taskId ? { ...t, status: destBaseStatus, workflowStatus: destStatus, departmentId: destDeptId } : t
                                         )
                                     }
                                 }
@@ -1187,7 +1260,7 @@ export const ProjectCategorization = memo(function ProjectCategorization({
                             // Update single-task cache
                             queryClient.setQueryData(['tasks', taskId], (old: any) => {
                                 if (!old || typeof old !== 'object') return old
-                                return { ...old, status: destStatus, departmentId: destDeptId }
+                                return { ...old, status: destBaseStatus, workflowStatus: destStatus, departmentId: destDeptId }
                             })
                         }
                     } catch (e) {
@@ -1200,11 +1273,28 @@ export const ProjectCategorization = memo(function ProjectCategorization({
                 if (destDeptId !== (taskToMove.departmentId?.toString() || "")) {
                     updateData.departmentId = destDeptId
                 }
-                if (destStatus !== (taskToMove.status || "")) {
-                    updateData.status = destStatus as "pending" | "in-progress" | "completed"  | "on-hold" | "cancelled" | "closed"  | undefined
+                if (destStatus !== fromStatus.key) {
+                    updateData.workflowStatus = destStatus
                 }
 
-                if (Object.keys(updateData).length > 0) {
+                if (!updateData.departmentId && updateData.workflowStatus) {
+                    // Column moves go through bulk ordering, which enforces WIP limits server-side
+                    const destColumnTasks = tasks.filter(t =>
+                        String(t._id) !== taskId &&
+                        (t.departmentId?.toString() || "") === destDeptId &&
+                        columnKey(t) === destStatus
+                    ).sort((a, b) => (a.order || 0) - (b.order || 0))
+                    destColumnTasks.splice(Math.min(insertAtIndex, destColumnTasks.length), 0, taskToMove)
+
+                    await bulkOrderUpdate(destColumnTasks.map((t, index) => ({
+                        id: String(t._id),
+                        order: index + 1,
+                        ...(String(t._id) === taskId && { status: destBaseStatus, workflowStatus: destStatus }),
+                    })))
+
+                    if (onProjectUpdate) onProjectUpdate()
+                    toast({ title: "Success", description: "Task moved successfully" })
+                } else if (Object.keys(updateData).length > 0) {
                     try {
                         const result = await updateTask(taskId, updateData)
 
@@ -1245,6 +1335,8 @@ export const ProjectCategorization = memo(function ProjectCategorization({
                 })
 
             } catch (error) {
+                // Put the card back; the workflow or dependencies may have rejected the move
+                dispatch(setTasks(previousTasks))
                 console.error("Error moving task:", {
                     error,
                     taskId,
@@ -1261,7 +1353,7 @@ export const ProjectCategorization = memo(function ProjectCategorization({
                 })
             }
         },
-        [tasks, projectId, updateTask, canUpdate, onProjectUpdate, toast, dispatch, queryClient, selectedTaskForDetails?._id],
+        [tasks, workflowStatuses, projectId, updateTask, bulkOrderUpdate, canUpdate, onProjectUpdate, toast, dispatch, queryClient, selectedTaskForDetails?._id],
     )
 
     const departmentsToDisplay = useMemo(() => {
@@ -1311,6 +1403,19 @@ export const ProjectCategorization = memo(function ProjectCategorization({
         })
     }, [queryClient])
 
+    // Open the linked task once; closing the modal should not bring it back
+    const openedInitialTaskRef = useRef<string | null>(null)
+    useEffect(() => {
+        if (!initialTaskId || openedInitialTaskRef.current === initialTaskId) return
+        openedInitialTaskRef.current = initialTaskId
+
+        apiRequest(`/api/tasks/${initialTaskId}`).then((task: any) => {
+            if (task && String(task.projectId?._id || task.projectId) === projectId) {
+                openTaskDetails(task)
+            }
+        })
+    }, [initialTaskId, projectId, openTaskDetails])
+
     // When projectId changes (or on mount), load persisted view for this project
     useEffect(() => {
         try {
@@ -1391,11 +1496,20 @@ export const ProjectCategorization = memo(function ProjectCategorization({
                             onAssigneeChange={handleInlineAssigneeChange}
                             departmentUsers={deptUsers}
                             usersLoading={usersLoading}
+                            workflowStatuses={workflowStatuses}
                         />
                     )
                 })()
             )}
 
+            {workflowModalOpen && (
+                <ProjectWorkflowModal
+                    projectId={projectId}
+                    isOpen={workflowModalOpen}
+                    onClose={() => setWorkflowModalOpen(false)}
+                />
+            )}
+
             {departmentModalOpen && (
                 <DepartmentManagerModal
                     isOpen={departmentModalOpen}
@@ -1474,6 +1588,27 @@ export const ProjectCategorization = memo(function ProjectCategorization({
                             <Building2 className="h-4 w-4" />
                             Manage Departments
                         </Button>
+                        {canUpdate("projects") && (
+                            <Button variant="outline" size="sm" onClick={() => setWorkflowModalOpen(true)}>
+                                <Workflow className="h-4 w-4" />
+                                Workflow
+                            </Button>
+                        )}
+
+                        {taskView === "board" && (
+                            <Select value={swimlaneGroupBy} onValueChange={(value) => setSwimlaneGroupByAndPersist(value as TaskSwimlaneGroupBy)}>
+                                <SelectTrigger className="h-8 w-[150px] text-xs" title="Swimlanes">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {TASK_SWIMLANE_OPTIONS.map(option => (
+                                        <SelectItem key={option.value} value={option.value} className="text-xs">
+                                            {option.value === "none" ? option.label : `Lanes: ${option.label}`}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        )}
 
                         <div className="flex items-center gap-1">
                             <Button
@@ -1721,6 +1856,7 @@ export const ProjectCategorization = memo(function ProjectCategorization({
                                                         onAssigneeChange={handleInlineAssigneeChange}
                                                         departmentUsers={users.filter(u => u.department?._id === departmentId && u.status === 'active')}
                                                         usersLoading={usersLoading}
+                                                        workflowStatuses={workflowStatuses}
                                                     />
                                                 )}
 
@@ -1750,6 +1886,7 @@ export const ProjectCategorization = memo(function ProjectCategorization({
                                                         onAssigneeChange={handleInlineAssigneeChange}
                                                         departmentUsers={users.filter(u => u.department?._id === departmentId && u.status === 'active')}
                                                         usersLoading={usersLoading}
+                                                        workflowStatuses={workflowStatuses}
                                                     />
                                                 )}
 
@@ -1771,6 +1908,8 @@ export const ProjectCategorization = memo(function ProjectCategorization({
                                                         onHandleDragStart={handleDragStart}
                                                         onHandleDragEnd={handleDragEnd}
                                                         draggingTask={draggingTask}
+                                                        swimlaneGroupBy={swimlaneGroupBy}
+                                                        getSubTasks={getSubTasks}
                                                         onShowTaskDetails={setShowTaskDetails}
                                                         isActionLoadingForTask={isActionLoadingForTask}
                                                         isActionLoadingForDepartment={isActionLoadingForDepartment}
@@ -1780,6 +1919,7 @@ export const ProjectCategorization = memo(function ProjectCategorization({
                                                         onAssigneeChange={handleInlineAssigneeChange}
                                                         departmentUsers={users.filter(u => u.department?._id === departmentId && u.status === 'active')}
                                                         usersLoading={usersLoading}
+                                                        workflowStatuses={workflowStatuses}
                                                     />
                                                 )}
                                             </div>
@@ -1792,10 +1932,10 @@ export const ProjectCategorization = memo(function ProjectCategorization({
                                         </div>
                                         <div className="flex items-center gap-2">
                                             <Badge variant="secondary" className="bg-primary/10 text-primary text-xs h-5">
-                                                {departmentTasks.filter(t => t.status === 'completed').length} done
+                                                {departmentTasks.filter(t => getTaskWorkflowStatus(t, workflowStatuses).category === 'done').length} done
                                             </Badge>
                                             <Badge variant="outline" className="text-blue-600 border-blue-200 bg-blue-50 dark:bg-blue-950 text-xs h-5">
-                                                {departmentTasks.filter(t => t.status === 'in-progress').length} active
+                                                {departmentTasks.filter(t => getTaskWorkflowStatus(t, workflowStatuses).category === 'doing').length} active
                                             </Badge>
                                             <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => toggleDepartmentCollapse(departmentId)}>
                                                 <ChevronUp className="h-4 w-4" />
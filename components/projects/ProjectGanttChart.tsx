@@ -0,0 +1,460 @@
+"use client";
+
+import { useState, useMemo, useEffect, useRef } from "react";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CalendarRange, Layers, Flag, ListTodo } from "lucide-react";
+import { useProjectTimeline, type TimelineItemKind } from "@/hooks/use-project-timeline";
+import { usePermissions } from "@/hooks/use-permissions";
+import type { ProjectTimeline, TimelineTask } from "@/types";
+
+interface ProjectGanttChartProps {
+  projectId: string;
+}
+
+interface GanttRow {
+  key: string;
+  kind: TimelineItemKind;
+  id: string;
+  title: string;
+  status: string;
+  depth: number;
+  start: number;
+  end: number;
+  // Tasks without a start date only carry a due date; moving them leaves the start unset
+  hasStart: boolean;
+}
+
+type DragMode = 'move' | 'resize';
+
+interface DragState {
+  row: GanttRow;
+  mode: DragMode;
+  originX: number;
+  deltaDays: number;
+}
+
+type Zoom = 'day' | 'week' | 'month';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ROW_HEIGHT = 36;
+const HEADER_HEIGHT = 40;
+const LABEL_WIDTH = 240;
+
+const PX_PER_DAY: Record<Zoom, number> = { day: 32, week: 14, month: 4 };
+
+const FINISHED_STATUSES = ['completed', 'closed', 'cancelled'];
+
+const toDay = (value: string | number | Date) => Math.floor(new Date(value).getTime() / DAY_MS);
+
+// Days are UTC buckets, so labels are formatted in UTC too
+const formatDate = (value: number | Date, options: Intl.DateTimeFormatOptions) => {
+  return new Date(value).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+};
+
+const rowKey = (kind: TimelineItemKind, id: string) => `${kind}:${id}`;
+
+const BAR_CLASSES: Record<TimelineItemKind, string> = {
+  phase: 'bg-primary/80 text-primary-foreground',
+  milestone: 'bg-amber-500',
+  task: 'bg-sky-500/80 text-white',
+};
+
+// Phases, then each phase's milestones and their linked tasks; unphased items follow
+const buildRows = (timeline: ProjectTimeline): { rows: GanttRow[]; unscheduledTasks: number } => {
+  const rows: GanttRow[] = [];
+  const placedTasks = new Set<string>();
+  const tasksById = new Map(timeline.tasks.map(task => [String(task._id), task]));
+  const scheduledTasks = timeline.tasks.filter(task => task.dueDate);
+
+  const pushTask = (task: TimelineTask, depth: number) => {
+    const id = String(task._id);
+    if (placedTasks.has(id) || !task.dueDate) return;
+    placedTasks.add(id);
+    rows.push({
+      key: rowKey('task', id),
+      kind: 'task',
+      id,
+      title: task.title,
+      status: task.status,
+      depth,
+      start: new Date(task.startDate || task.dueDate).getTime(),
+      end: new Date(task.dueDate).getTime(),
+      hasStart: !!task.startDate,
+    });
+    scheduledTasks
+      .filter(subTask => String(subTask.parentTaskId || '') === id)
+      .forEach(subTask => pushTask(subTask, depth + 1));
+  };
+
+  const pushMilestone = (milestone: ProjectTimeline['milestones'][number], depth: number) => {
+    const id = String(milestone._id);
+    const due = new Date(milestone.dueDate).getTime();
+    rows.push({ key: rowKey('milestone', id), kind: 'milestone', id, title: milestone.title, status: milestone.status, depth, start: due, end: due, hasStart: false });
+    (milestone.linkedTaskIds || []).forEach(taskId => {
+      const task = tasksById.get(String(taskId));
+      if (task) pushTask(task, depth + 1);
+    });
+  };
+
+  timeline.phases.forEach(phase => {
+    const id = String(phase._id);
+    rows.push({
+      key: rowKey('phase', id),
+      kind: 'phase',
+      id,
+      title: phase.title,
+      status: phase.status,
+      depth: 0,
+      start: new Date(phase.startDate).getTime(),
+      end: new Date(phase.endDate).getTime(),
+      hasStart: true,
+    });
+    timeline.milestones
+      .filter(milestone => String(milestone.phaseId || '') === id)
+      .forEach(milestone => pushMilestone(milestone, 1));
+  });
+
+  const phaseIds = new Set(timeline.phases.map(phase => String(phase._id)));
+  timeline.milestones
+    .filter(milestone => !milestone.phaseId || !phaseIds.has(String(milestone.phaseId)))
+    .forEach(milestone => pushMilestone(milestone, 0));
+
+  scheduledTasks
+    .filter(task => !task.parentTaskId || !tasksById.get(String(task.parentTaskId))?.dueDate)
+    .forEach(task => pushTask(task, 0));
+
+  return { rows, unscheduledTasks: timeline.tasks.length - scheduledTasks.length };
+};
+
+// Apply an in-progress drag to a row's dates
+const applyDrag = (row: GanttRow, mode: DragMode, deltaDays: number): { start: number; end: number } => {
+  const delta = deltaDays * DAY_MS;
+  if (mode === 'move') {
+    return { start: row.start + delta, end: row.end + delta };
+  }
+  // Phases must end after they start; tasks may start and end on the same day
+  const minEnd = row.kind === 'phase' ? row.start + DAY_MS : row.start;
+  return { start: row.start, end: Math.max(minEnd, row.end + delta) };
+};
+
+export function ProjectGanttChart({ projectId }: ProjectGanttChartProps) {
+  const { timeline, isLoading, reschedule } = useProjectTimeline(projectId);
+  const { canUpdate } = usePermissions();
+  const [zoom, setZoom] = useState<Zoom>('week');
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [pending, setPending] = useState<Record<string, { start: number; end: number }>>({});
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+
+  const pxPerDay = PX_PER_DAY[zoom];
+  const { rows, unscheduledTasks } = useMemo(() => timeline ? buildRows(timeline) : { rows: [], unscheduledTasks: 0 }, [timeline]);
+
+  const canEdit: Record<TimelineItemKind, boolean> = {
+    phase: canUpdate('phases'),
+    milestone: canUpdate('milestones'),
+    task: canUpdate('tasks'),
+  };
+
+  // Rows as currently displayed, including drags and saves still in flight
+  const displayRows = useMemo(() => rows.map(row => {
+    if (drag && drag.row.key === row.key) return { ...row, ...applyDrag(row, drag.mode, drag.deltaDays) };
+    return pending[row.key] ? { ...row, ...pending[row.key] } : row;
+  }), [rows, drag, pending]);
+
+  const todayDay = toDay(Date.now());
+  const projectEndDay = timeline?.project.endDate ? toDay(timeline.project.endDate) : null;
+
+  const [firstDay, lastDay] = useMemo(() => {
+    const days = rows.flatMap(row => [toDay(row.start), toDay(row.end)]);
+    if (timeline?.project.startDate) days.push(toDay(timeline.project.startDate));
+    if (projectEndDay !== null) days.push(projectEndDay);
+    days.push(todayDay);
+    return [Math.min(...days) - 3, Math.max(...days) + 14];
+  }, [rows, timeline, projectEndDay, todayDay]);
+
+  const totalDays = lastDay - firstDay + 1;
+  const chartWidth = totalDays * pxPerDay;
+  const xForDay = (day: number) => (day - firstDay) * pxPerDay;
+
+  const rowIndex = useMemo(() => new Map(displayRows.map((row, index) => [row.key, index])), [displayRows]);
+
+  const ticks = useMemo(() => {
+    const result: { x: number; label: string; major: boolean }[] = [];
+    for (let day = firstDay; day <= lastDay; day++) {
+      const date = new Date(day * DAY_MS);
+      const isMonthStart = date.getUTCDate() === 1;
+      if (zoom === 'day') {
+        result.push({ x: xForDay(day), label: isMonthStart ? formatDate(date, { month: 'short', day: 'numeric' }) : String(date.getUTCDate()), major: isMonthStart });
+      } else if (zoom === 'week' && date.getUTCDay() === 1) {
+        result.push({ x: xForDay(day), label: formatDate(date, { month: 'short', day: 'numeric' }), major: isMonthStart });
+      } else if (zoom === 'month' && isMonthStart) {
+        result.push({ x: xForDay(day), label: formatDate(date, { month: 'short', year: 'numeric' }), major: true });
+      }
+    }
+    return result;
+  }, [firstDay, lastDay, zoom, pxPerDay]);
+
+  // Finish-to-start arrows leave the predecessor's end; start-to-start leave its start
+  const arrows = useMemo(() => {
+    if (!timeline) return [];
+    const links: { from: string; to: string; fromStart: boolean }[] = [];
+    timeline.tasks.forEach(task => (task.dependencies || []).forEach(dependency => links.push({
+      from: rowKey('task', String(dependency.taskId)),
+      to: rowKey('task', String(task._id)),
+      fromStart: dependency.type === 'start_to_start',
+    })));
+    timeline.milestones.forEach(milestone => (milestone.dependencies || []).forEach(dependencyId => links.push({
+      from: rowKey('milestone', String(dependencyId)),
+      to: rowKey('milestone', String(milestone._id)),
+      fromStart: false,
+    })));
+    timeline.phases.forEach(phase => (phase.dependencies || []).forEach(dependencyId => links.push({
+      from: rowKey('phase', String(dependencyId)),
+      to: rowKey('phase', String(phase._id)),
+      fromStart: false,
+    })));
+
+    return links.flatMap(link => {
+      const fromIndex = rowIndex.get(link.from);
+      const toIndex = rowIndex.get(link.to);
+      if (fromIndex === undefined || toIndex === undefined) return [];
+      const from = displayRows[fromIndex];
+      const to = displayRows[toIndex];
+      const x1 = link.fromStart ? xForDay(toDay(from.start)) : xForDay(toDay(from.end) + 1);
+      const x2 = xForDay(toDay(to.start));
+      const y1 = fromIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+      const y2 = toIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+      return [{ key: `${link.from}-${link.to}`, x1, y1, x2, y2, violated: x2 < x1 }];
+    });
+  }, [timeline, displayRows, rowIndex, firstDay, pxPerDay]);
+
+  // Track the pointer on the window so a drag keeps working outside the bar
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (event: PointerEvent) => {
+      const deltaDays = Math.round((event.clientX - drag.originX) / pxPerDay);
+      if (deltaDays !== drag.deltaDays) setDrag({ ...drag, deltaDays });
+    };
+
+    const handleUp = async () => {
+      const { row, mode, deltaDays } = drag;
+      setDrag(null);
+      if (deltaDays === 0) return;
+
+      const next = applyDrag(row, mode, deltaDays);
+      setPending(prev => ({ ...prev, [row.key]: next }));
+      try {
+        await reschedule({
+          kind: row.kind,
+          id: row.id,
+          start: row.kind === 'milestone' || (row.kind === 'task' && !row.hasStart && mode === 'move') ? undefined : new Date(next.start).toISOString(),
+          end: new Date(next.end).toISOString(),
+        });
+      } catch (error) {
+        // Error toast handled in hook
+      } finally {
+        setPending(prev => {
+          const { [row.key]: _, ...rest } = prev;
+          return rest;
+        });
+      }
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, pxPerDay, reschedule]);
+
+  // Open on today rather than the start of the range
+  useEffect(() => {
+    if (scrollRef.current && rows.length > 0) {
+      scrollRef.current.scrollLeft = Math.max(0, xForDay(todayDay) - scrollRef.current.clientWidth / 3);
+    }
+  }, [rows.length, zoom]);
+
+  const startDrag = (event: React.PointerEvent, row: GanttRow, mode: DragMode) => {
+    if (!canEdit[row.kind] || pending[row.key]) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setDrag({ row, mode, originX: event.clientX, deltaDays: 0 });
+  };
+
+  const rowIcon = (kind: TimelineItemKind) => {
+    if (kind === 'phase') return <Layers className="h-3.5 w-3.5 text-primary shrink-0" />;
+    if (kind === 'milestone') return <Flag className="h-3.5 w-3.5 text-amber-500 shrink-0" />;
+    return <ListTodo className="h-3.5 w-3.5 text-sky-500 shrink-0" />;
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="p-6 space-y-3">
+          <Skeleton className="h-6 w-48" />
+          <Skeleton className="h-64 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <CalendarRange className="h-5 w-5 text-primary" />
+            <h3 className="text-lg font-semibold">Timeline</h3>
+            {unscheduledTasks > 0 && (
+              <Badge variant="outline" className="text-xs">{unscheduledTasks} task(s) without a due date hidden</Badge>
+            )}
+          </div>
+          <div className="flex gap-1">
+            {(['day', 'week', 'month'] as Zoom[]).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={zoom === option ? 'default' : 'outline'}
+                onClick={() => setZoom(option)}
+                className="capitalize"
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Add phases, milestones or tasks with dates to see them on the timeline.
+          </p>
+        ) : (
+          <div className="flex border border-border rounded-lg overflow-hidden select-none">
+            {/* Row labels */}
+            <div className="shrink-0 border-r border-border bg-muted/30" style={{ width: LABEL_WIDTH }}>
+              <div className="border-b border-border text-xs font-medium text-muted-foreground px-3 flex items-center" style={{ height: HEADER_HEIGHT }}>
+                Item
+              </div>
+              {displayRows.map(row => (
+                <div
+                  key={row.key}
+                  className="flex items-center gap-1.5 border-b border-border/50 text-sm truncate pr-2"
+                  style={{ height: ROW_HEIGHT, paddingLeft: 12 + row.depth * 14 }}
+                  title={row.title}
+                >
+                  {rowIcon(row.kind)}
+                  <span className={`truncate ${row.kind === 'phase' ? 'font-semibold' : ''}`}>{row.title}</span>
+                </div>
+              ))}
+            </div>
+
+            {/* Calendar */}
+            <div ref={scrollRef} className="overflow-x-auto flex-1">
+              <div className="relative" style={{ width: chartWidth, height: HEADER_HEIGHT + displayRows.length * ROW_HEIGHT }}>
+                <div className="sticky top-0 border-b border-border bg-background" style={{ height: HEADER_HEIGHT }}>
+                  {ticks.map(tick => (
+                    <div
+                      key={tick.x}
+                      className={`absolute top-0 h-full border-l text-[10px] pl-1 pt-1 whitespace-nowrap ${tick.major ? 'border-border font-medium text-foreground' : 'border-border/40 text-muted-foreground'}`}
+                      style={{ left: tick.x }}
+                    >
+                      {tick.label}
+                    </div>
+                  ))}
+                </div>
+
+                <div className="absolute left-0 right-0" style={{ top: HEADER_HEIGHT }}>
+                  {displayRows.map((row, index) => {
+                    const startX = xForDay(toDay(row.start));
+                    const width = Math.max(pxPerDay, (toDay(row.end) - toDay(row.start) + 1) * pxPerDay);
+                    const editable = canEdit[row.kind];
+                    const finished = FINISHED_STATUSES.includes(row.status);
+                    const dateLabel = row.kind === 'milestone'
+                      ? formatDate(row.end, { month: 'short', day: 'numeric', year: 'numeric' })
+                      : `${formatDate(row.start, { month: 'short', day: 'numeric' })} – ${formatDate(row.end, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+                    return (
+                      <div key={row.key} className="absolute left-0 right-0 border-b border-border/50" style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}>
+                        {row.kind === 'milestone' ? (
+                          <div
+                            className={`absolute top-1/2 h-4 w-4 -translate-y-1/2 -translate-x-1/2 rotate-45 ${finished ? 'bg-emerald-500' : BAR_CLASSES.milestone} ${editable ? 'cursor-grab' : ''} ${pending[row.key] ? 'opacity-60' : ''}`}
+                            style={{ left: startX + pxPerDay / 2 }}
+                            title={`${row.title}: ${dateLabel}`}
+                            onPointerDown={(event) => startDrag(event, row, 'move')}
+                          />
+                        ) : (
+                          <div
+                            className={`absolute top-1.5 bottom-1.5 rounded-md text-xs px-2 flex items-center overflow-hidden whitespace-nowrap ${finished ? 'bg-emerald-500/80 text-white' : BAR_CLASSES[row.kind]} ${editable ? 'cursor-grab active:cursor-grabbing' : ''} ${pending[row.key] ? 'opacity-60' : ''}`}
+                            style={{ left: startX, width }}
+                            title={`${row.title}: ${dateLabel}`}
+                            onPointerDown={(event) => startDrag(event, row, 'move')}
+                          >
+                            <span className="truncate">{width > 60 ? row.title : ''}</span>
+                            {editable && (
+                              <div
+                                className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize hover:bg-black/20"
+                                onPointerDown={(event) => startDrag(event, row, 'resize')}
+                              />
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <svg
+                  className="absolute left-0 pointer-events-none"
+                  style={{ top: HEADER_HEIGHT }}
+                  width={chartWidth}
+                  height={displayRows.length * ROW_HEIGHT}
+                >
+                  <defs>
+                    <marker id="gantt-arrow" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                      <path d="M0,0 L6,3 L0,6 z" className="fill-muted-foreground" />
+                    </marker>
+                    <marker id="gantt-arrow-violated" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                      <path d="M0,0 L6,3 L0,6 z" className="fill-red-500" />
+                    </marker>
+                  </defs>
+                  {arrows.map(arrow => (
+                    <path
+                      key={arrow.key}
+                      d={`M${arrow.x1},${arrow.y1} H${arrow.x1 + 6} V${arrow.y2} H${arrow.x2}`}
+                      fill="none"
+                      strokeWidth={1.25}
+                      className={arrow.violated ? 'stroke-red-500' : 'stroke-muted-foreground'}
+                      markerEnd={`url(#${arrow.violated ? 'gantt-arrow-violated' : 'gantt-arrow'})`}
+                    />
+                  ))}
+                </svg>
+
+                {/* Today marker */}
+                <div
+                  className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none"
+                  style={{ left: xForDay(todayDay) + pxPerDay / 2 }}
+                  title="Today"
+                >
+                  <span className="absolute top-0 left-1 text-[10px] text-red-500 font-medium">Today</span>
+                </div>
+
+                {projectEndDay !== null && (
+                  <div
+                    className="absolute top-0 bottom-0 border-l border-dashed border-destructive/60 pointer-events-none"
+                    style={{ left: xForDay(projectEndDay + 1) }}
+                    title="Project end date"
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import CustomModal from "@/components/shared/custom-modal";
+import { SearchableSelect } from "@/components/shared/generic-form";
+import { ArrowDown, ArrowUp, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { useProjectWorkflow } from "@/hooks/use-project-workflow";
+import type { WorkflowStatus, WorkflowStatusCategory } from "@/types";
+
+interface ProjectWorkflowModalProps {
+  projectId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CATEGORY_OPTIONS: { label: string; value: WorkflowStatusCategory }[] = [
+  { label: 'To do', value: 'todo' },
+  { label: 'In progress', value: 'doing' },
+  { label: 'Done', value: 'done' },
+];
+
+// Statuses being edited; keys are only assigned on save for new ones
+type DraftStatus = WorkflowStatus & { isNew?: boolean };
+
+const slugify = (name: string) =>
+  name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'status';
+
+export function ProjectWorkflowModal({ projectId, isOpen, onClose }: ProjectWorkflowModalProps) {
+  const { workflow, isCustom, isLoading, updateWorkflow, updating } = useProjectWorkflow(projectId);
+  const [draft, setDraft] = useState<DraftStatus[]>([]);
+
+  useEffect(() => {
+    if (isOpen && workflow) setDraft(workflow.statuses.map(status => ({ ...status })));
+  }, [isOpen, workflow]);
+
+  const updateStatus = (index: number, changes: Partial<DraftStatus>) => {
+    setDraft(current => current.map((status, i) => i === index ? { ...status, ...changes } : status));
+  };
+
+  const moveStatus = (index: number, offset: number) => {
+    setDraft(current => {
+      const next = [...current];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const removeStatus = (index: number) => {
+    setDraft(current => {
+      const removedKey = current[index].key;
+      return current
+        .filter((_, i) => i !== index)
+        .map(status => ({ ...status, transitions: status.transitions?.filter(key => key !== removedKey) }));
+    });
+  };
+
+  const addStatus = () => {
+    setDraft(current => [...current, { key: `new-${Date.now()}`, name: '', category: 'doing', isNew: true }]);
+  };
+
+  const toggleTransition = (index: number, key: string, allowed: boolean) => {
+    const transitions = draft[index].transitions || [];
+    updateStatus(index, { transitions: allowed ? [...transitions, key] : transitions.filter(existing => existing !== key) });
+  };
+
+  const handleSave = async () => {
+    // Give new statuses a readable key derived from their name
+    const usedKeys = new Set(draft.filter(status => !status.isNew).map(status => status.key));
+    const renamed = new Map<string, string>();
+    for (const status of draft.filter(status => status.isNew)) {
+      let key = slugify(status.name);
+      for (let suffix = 2; usedKeys.has(key); suffix++) key = `${slugify(status.name)}-${suffix}`;
+      usedKeys.add(key);
+      renamed.set(status.key, key);
+    }
+
+    const workflowStatuses: WorkflowStatus[] = draft.map(({ isNew, ...status }) => ({
+      ...status,
+      key: renamed.get(status.key) || status.key,
+      transitions: status.transitions?.map(key => renamed.get(key) || key),
+    }));
+
+    try {
+      await updateWorkflow({ statuses: workflowStatuses });
+      onClose();
+    } catch (error) {
+      // Error toast is shown by the hook
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await updateWorkflow(null);
+      onClose();
+    } catch (error) {
+      // Error toast is shown by the hook
+    }
+  };
+
+  return (
+    <CustomModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Task Workflow"
+      modalSize="xl"
+      actions={
+        <div className="flex w-full items-center justify-between gap-2">
+          <Button variant="ghost" onClick={handleReset} disabled={updating || !isCustom}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to default
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={updating}>Cancel</Button>
+            <Button onClick={handleSave} disabled={updating || isLoading || draft.length === 0}>
+              {updating ? 'Saving...' : 'Save Workflow'}
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Statuses appear as board columns in this order. Each one rolls up to a category, which progress and analytics are based on.
+          Removing a status moves its tasks to the first status of the same category. WIP limits apply to each department's column.
+        </p>
+
+        {draft.map((status, index) => (
+          <div key={status.key} className="rounded-lg border border-border p-3 space-y-3">
+            <div className="grid grid-cols-12 items-end gap-3">
+              <div className="col-span-5 space-y-1">
+                <Label>Name</Label>
+                <Input
+                  value={status.name}
+                  maxLength={50}
+                  placeholder="e.g. In Review"
+                  onChange={(e) => updateStatus(index, { name: e.target.value })}
+                />
+              </div>
+              <div className="col-span-3 space-y-1">
+                <Label>Category</Label>
+                <SearchableSelect
+                  options={CATEGORY_OPTIONS}
+                  value={status.category}
+                  onValueChange={(category) => updateStatus(index, { category: category as WorkflowStatusCategory })}
+                />
+              </div>
+              <div className="col-span-1 space-y-1">
+                <Label>Color</Label>
+                <Input
+                  type="color"
+                  className="h-9 p-1"
+                  value={status.color || '#64748b'}
+                  onChange={(e) => updateStatus(index, { color: e.target.value })}
+                />
+              </div>
+              <div className="col-span-3 flex justify-end gap-1">
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => moveStatus(index, -1)} disabled={index === 0} title="Move up">
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => moveStatus(index, 1)} disabled={index === draft.length - 1} title="Move down">
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => removeStatus(index)} disabled={draft.length === 1} title="Remove status">
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Label className="text-sm font-normal whitespace-nowrap">WIP limit</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={500}
+                  className="h-8 w-24"
+                  placeholder="None"
+                  value={status.wipLimit ?? ''}
+                  onChange={(e) => {
+                    const limit = parseInt(e.target.value, 10);
+                    updateStatus(index, limit > 0
+                      ? { wipLimit: limit }
+                      : { wipLimit: undefined, wipLimitStrict: undefined });
+                  }}
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={!!status.wipLimitStrict}
+                  disabled={!status.wipLimit}
+                  onCheckedChange={(checked) => updateStatus(index, { wipLimitStrict: checked ? true : undefined })}
+                />
+                Block moves that would exceed the limit
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={!!status.transitions}
+                  onCheckedChange={(checked) => updateStatus(index, { transitions: checked ? [] : undefined })}
+                />
+                Only allow moving to selected statuses
+              </label>
+              {status.transitions && (
+                <div className="flex flex-wrap gap-3 pl-6">
+                  {draft.filter(other => other.key !== status.key).map(other => (
+                    <label key={other.key} className="flex items-center gap-1.5 text-sm">
+                      <Checkbox
+                        checked={status.transitions!.includes(other.key)}
+                        onCheckedChange={(checked) => toggleTransition(index, other.key, !!checked)}
+                      />
+                      {other.name || <span className="text-muted-foreground">Unnamed</span>}
+                    </label>
+                  ))}
+                  {status.transitions.length === 0 && (
+                    <Badge variant="outline" className="text-xs">Final status</Badge>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+
+        <Button variant="outline" size="sm" onClick={addStatus}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Status
+        </Button>
+      </div>
+    </CustomModal>
+  );
+}
@@ -17,6 +17,7 @@ import {
   ListTodo,
   CheckCircle,
   RefreshCw,
+  Lock,
 } from "lucide-react"
 import {
   DropdownMenu,
@@ -27,6 +28,8 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table"
 import HtmlTextRenderer from "@/components/shared/html-text-renderer" // Fixed import to use default export
+import { DEFAULT_WORKFLOW_STATUSES, getTaskWorkflowStatus, toBaseTaskStatus } from "@/lib/utils/task-workflow"
+import type { WorkflowStatus } from "@/types"
 import { cn } from "@/lib/utils"
 import { DndContext, DragOverlay, type DragEndEvent, type DragStartEvent, useDroppable, closestCenter } from "@dnd-kit/core"
 import { SortableContext, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable"
@@ -71,13 +74,35 @@ interface TaskViewProps {
   onAssigneeChange?: (taskId: string, newAssigneeId: string) => Promise<void>
   departmentUsers?: any[]
   usersLoading?: boolean
+  // Project workflow statuses; defaults apply when omitted
+  workflowStatuses?: WorkflowStatus[]
+}
+
+// Derived from unfinished finish-to-start / start-to-start predecessors
+const BlockedBadge: React.FC<{ task: any }> = ({ task }) => {
+  if (!task?.isBlocked) return null
+  const waitingOn = (task.blockedBy || []).map((blocker: any) => blocker.title).join(", ")
+  return (
+    <Badge
+      variant="outline"
+      className="text-xs whitespace-nowrap border-amber-500 text-amber-700 dark:text-amber-400"
+      title={waitingOn ? `Waiting on: ${waitingOn}` : undefined}
+    >
+      <Lock className="h-3 w-3 mr-1" />
+      Blocked
+    </Badge>
+  )
 }
 
 // Board Column Component - Extracted from inline code
 export const BoardColumn: React.FC<{
   id: string
   title: string
+  workflowStatus?: WorkflowStatus
   tasks: any[]
+  // Tasks in the whole column when it is split into swimlanes; WIP limits count these
+  wipCount?: number
+  height?: number
   departmentId: string
   onOpenCreateTaskModal: (
     departmentId: string,
@@ -107,7 +132,10 @@ export const BoardColumn: React.FC<{
 }> = ({
   id,
   title,
+  workflowStatus,
   tasks,
+  wipCount,
+  height = 600,
   departmentId,
   onOpenCreateTaskModal,
   getDepartmentName,
@@ -134,6 +162,10 @@ export const BoardColumn: React.FC<{
     // Use the collapsed prop passed from the parent if available
     const _collapsed = typeof collapsed === 'boolean' ? collapsed : false
     const toggleCollapsed = () => onToggleCollapse?.()
+    const wipLimit = workflowStatus?.wipLimit
+    const columnCount = wipCount ?? tasks.length
+    const overWipLimit = !!wipLimit && columnCount > wipLimit
+    const atWipLimit = !!wipLimit && columnCount === wipLimit
 
     return (
       <div
@@ -141,10 +173,11 @@ export const BoardColumn: React.FC<{
         className={cn(
           'border border-border rounded bg-card/30 flex flex-col transition-all duration-300',
           isOver ? 'ring-2 ring-primary/30' : '',
+          overWipLimit ? 'border-destructive bg-destructive/5' : '',
           _collapsed ? 'p-1 w-16 overflow-hidden whitespace-nowrap' : 'p-3 w-100'
         )}
         style={{
-          height: '600px',
+          height: `${height}px`,
         }}
         aria-expanded={!_collapsed}
       >
@@ -166,12 +199,26 @@ export const BoardColumn: React.FC<{
             >
               <ChevronDown className="h-4 w-4" />
             </Button>
+            {workflowStatus?.color && !_collapsed && (
+              <span className="h-2.5 w-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: workflowStatus.color }} />
+            )}
             <div className="capitalize font-medium text-sm truncate" style={{
               transform: _collapsed ? 'rotate(90deg)' : 'rotate(0deg)',
             }}>{title.replace("-", " ")}</div>
           </div>
           <div className="flex items-center gap-2 flex-shrink-0" >
             <Badge className="text-xs">{tasks.length}</Badge>
+            {wipLimit && !_collapsed && (
+              <Badge
+                variant={overWipLimit ? "destructive" : "outline"}
+                className={cn("text-xs", atWipLimit && "border-amber-500 text-amber-700 dark:text-amber-400")}
+                title={overWipLimit
+                  ? `Over the WIP limit of ${wipLimit}`
+                  : workflowStatus?.wipLimitStrict ? `Moves beyond ${wipLimit} tasks are blocked` : `WIP limit of ${wipLimit}`}
+              >
+                WIP {columnCount}/{wipLimit}
+              </Badge>
+            )}
           </div>
         </div>
 
@@ -184,7 +231,14 @@ export const BoardColumn: React.FC<{
                 size="sm"
                 className="h-7 w-7 p-0"
                 onClick={() =>
-                  onOpenCreateTaskModal(departmentId, getDepartmentName(departmentId), undefined, { status: title })
+                  onOpenCreateTaskModal(
+                    departmentId,
+                    getDepartmentName(departmentId),
+                    undefined,
+                    workflowStatus
+                      ? { status: toBaseTaskStatus(workflowStatus), workflowStatus: workflowStatus.key }
+                      : { status: title }
+                  )
                 }
                 disabled={isActionLoadingForDepartment?.(departmentId)}
               >
@@ -194,7 +248,7 @@ export const BoardColumn: React.FC<{
 
             {/* Scrollable Tasks Container */}
             <div className="space-y-2 overflow-y-auto flex-1 pr-2 custom-scrollbar" style={{
-              height: "600px",
+              height: `${height}px`,
             }}>
               {/* Only render tasks list if column is expanded */}
               {tasks.length === 0 ? (
@@ -326,6 +380,7 @@ const DraggableTask: React.FC<{
                       Overdue
                     </Badge>
                   )}
+                  <BlockedBadge task={task} />
                   {/* Priority Inline Dropdown - Available in all views */}
                   {task.priority && (
                     <div onClick={(e) => e.stopPropagation()} onPointerDown={(e) => e.stopPropagation()}>
@@ -471,6 +526,7 @@ export const TaskGridView: React.FC<TaskViewProps> = memo(function TaskGridView(
   onAssigneeChange,
   departmentUsers,
   usersLoading,
+  workflowStatuses,
 }) {
   return (
     <div className="space-y-0">
@@ -520,6 +576,7 @@ export const TaskGridView: React.FC<TaskViewProps> = memo(function TaskGridView(
                           Overdue
                         </Badge>
                       )}
+                      <BlockedBadge task={task} />
                     </div>
 
                     {/* Badges Section */}
@@ -530,6 +587,7 @@ export const TaskGridView: React.FC<TaskViewProps> = memo(function TaskGridView(
                         isLoading={isActionLoadingForTask?.(task._id)}
                         canUpdate={canUpdate("tasks")}
                         onStatusChange={onStatusChange || (async () => { })}
+                        workflowStatuses={workflowStatuses}
                       />
 
                       {/* Priority Inline Edit */}
@@ -669,6 +727,7 @@ export const TaskGridView: React.FC<TaskViewProps> = memo(function TaskGridView(
                               Overdue
                             </Badge>
                           )}
+                          <BlockedBadge task={subTask} />
                         </div>
 
                         {/* Subtask Badges */}
@@ -680,6 +739,7 @@ export const TaskGridView: React.FC<TaskViewProps> = memo(function TaskGridView(
                             isLoading={isActionLoadingForTask?.(subTask._id)}
                             canUpdate={canUpdate("tasks")}
                             onStatusChange={onStatusChange || (async () => { })}
+                            workflowStatuses={workflowStatuses}
                           />
 
                           {/* Priority Inline Edit */}
@@ -779,6 +839,7 @@ export const TaskTableView: React.FC<TaskViewProps> = memo(function TaskTableVie
   onAssigneeChange,
   departmentUsers,
   usersLoading,
+  workflowStatuses,
 }) {
   return (
     <Table>
@@ -835,6 +896,7 @@ export const TaskTableView: React.FC<TaskViewProps> = memo(function TaskTableVie
                             Overdue
                           </Badge>
                         )}
+                        <BlockedBadge task={task} />
                       </div>
                       <div className="text-xs text-muted-foreground mb-2">
                         <HtmlTextRenderer
@@ -856,6 +918,7 @@ export const TaskTableView: React.FC<TaskViewProps> = memo(function TaskTableVie
                     isLoading={isActionLoadingForTask?.(task._id)}
                     canUpdate={canUpdate("tasks")}
                     onStatusChange={onStatusChange || (async () => { })}
+                    workflowStatuses={workflowStatuses}
                   />
                 </TableCell>
                 <TableCell className="p-2">
@@ -959,6 +1022,7 @@ export const TaskTableView: React.FC<TaskViewProps> = memo(function TaskTableVie
                               Overdue
                             </Badge>
                           )}
+                          <BlockedBadge task={subTask} />
                         </div>
                       </div>
                     </TableCell>
@@ -968,6 +1032,7 @@ export const TaskTableView: React.FC<TaskViewProps> = memo(function TaskTableVie
                         isLoading={isActionLoadingForTask?.(subTask._id)}
                         canUpdate={canUpdate("tasks")}
                         onStatusChange={onStatusChange || (async () => { })}
+                        workflowStatuses={workflowStatuses}
                       />
                     </TableCell>
                     <TableCell className="p-2">
@@ -1032,6 +1097,78 @@ export const TaskTableView: React.FC<TaskViewProps> = memo(function TaskTableVie
   )
 })
 
+export type TaskSwimlaneGroupBy = "none" | "assignee" | "priority" | "department" | "parent"
+
+export const TASK_SWIMLANE_OPTIONS: { label: string; value: TaskSwimlaneGroupBy }[] = [
+  { label: "No swimlanes", value: "none" },
+  { label: "Assignee", value: "assignee" },
+  { label: "Priority", value: "priority" },
+  { label: "Department", value: "department" },
+  { label: "Parent task", value: "parent" },
+]
+
+interface TaskSwimlane {
+  key: string
+  title: string
+  tasks: any[]
+}
+
+const SWIMLANE_PRIORITIES = ["urgent", "high", "medium", "low"]
+
+// Sort by order field first, then by creation date
+const sortBoardTasks = (tasks: any[]) =>
+  [...tasks].sort((a, b) => {
+    const orderA = a.order || 0
+    const orderB = b.order || 0
+    if (orderA !== orderB) return orderA - orderB
+    return new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime()
+  })
+
+// Rows of the board; null when the board is not split into swimlanes
+function groupTasksIntoSwimlanes(
+  groupBy: TaskSwimlaneGroupBy,
+  tasks: any[],
+  departmentName: string,
+  users: any[] = [],
+  getSubTasks?: (parentTaskId: string) => any[],
+): TaskSwimlane[] | null {
+  switch (groupBy) {
+    case "assignee": {
+      const lanes = new Map<string, TaskSwimlane>()
+      tasks.forEach((task) => {
+        const assigneeId = task.assigneeId?.toString()
+        const key = assigneeId || "unassigned"
+        if (!lanes.has(key)) {
+          const user = users.find((u) => u._id === assigneeId)
+          const title = assigneeId ? user?.name || task.assignee?.name || "Unknown user" : "Unassigned"
+          lanes.set(key, { key, title, tasks: [] })
+        }
+        lanes.get(key)!.tasks.push(task)
+      })
+      // Unassigned work goes last
+      return [...lanes.values()].sort((a, b) =>
+        a.key === "unassigned" ? 1 : b.key === "unassigned" ? -1 : a.title.localeCompare(b.title)
+      )
+    }
+    case "priority":
+      return SWIMLANE_PRIORITIES.map((priority) => ({
+        key: priority,
+        title: priority.charAt(0).toUpperCase() + priority.slice(1),
+        tasks: tasks.filter((task) => (task.priority || "medium") === priority),
+      })).filter((lane) => lane.tasks.length > 0)
+    case "department":
+      return [{ key: "department", title: departmentName, tasks }]
+    case "parent": {
+      const parentLanes = tasks
+        .map((task) => ({ key: `parent-${task._id}`, title: task.title, tasks: getSubTasks?.(String(task._id)) || [] }))
+        .filter((lane) => lane.tasks.length > 0)
+      return [...parentLanes, { key: "top-level", title: "Top-level tasks", tasks }]
+    }
+    default:
+      return null
+  }
+}
+
 export const TaskBoardView: React.FC<
   Omit<TaskViewProps, "collapsedTasks" | "onToggleTaskCollapse" | "getSubTasks"> & {
     // Removed collapsedTasks, onToggleTaskCollapse, and getSubTasks as they are not used here
@@ -1041,6 +1178,9 @@ export const TaskBoardView: React.FC<
     draggingTask?: any
     isActionLoadingForTask?: (taskId: string) => boolean
     isActionLoadingForDepartment?: (departmentId: string) => boolean
+    swimlaneGroupBy?: TaskSwimlaneGroupBy
+    // Needed for parent task swimlanes, which show sub-tasks under their parent
+    getSubTasks?: (parentTaskId: string) => any[]
   }
 > = memo(function TaskBoardView({
   departmentId,
@@ -1068,9 +1208,22 @@ export const TaskBoardView: React.FC<
   onAssigneeChange,
   departmentUsers,
   usersLoading,
+  workflowStatuses,
+  swimlaneGroupBy = "none",
+  getSubTasks,
 }) {
-  const statuses = ["pending", "in-progress", "on-hold", "completed", "closed"]
+  const statuses = workflowStatuses?.length ? workflowStatuses : DEFAULT_WORKFLOW_STATUSES
   const [collapsedColumns, setCollapsedColumns] = useState<Set<string>>(new Set())
+  const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(new Set())
+
+  const toggleLaneCollapse = (laneKey: string) => {
+    setCollapsedLanes((s) => {
+      const copy = new Set(s)
+      if (copy.has(laneKey)) copy.delete(laneKey)
+      else copy.add(laneKey)
+      return copy
+    })
+  }
 
   const toggleColumnCollapse = (columnId: string) => {
     setCollapsedColumns((s) => {
@@ -1085,19 +1238,75 @@ export const TaskBoardView: React.FC<
   const tasksByStatus = useMemo(() => {
     const result: Record<string, any[]> = {}
     statuses.forEach(status => {
-      result[status] = departmentTasks
-        .filter((t) => (t.status || "pending") === status)
-        .sort((a, b) => {
-          // Sort by order field first, then by creation date
-          const orderA = a.order || 0
-          const orderB = b.order || 0
-          if (orderA !== orderB) return orderA - orderB
-          return new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime()
-        })
+      result[status.key] = sortBoardTasks(
+        departmentTasks.filter((t) => getTaskWorkflowStatus(t, statuses).key === status.key)
+      )
     })
     return result
   }, [departmentTasks, statuses])
 
+  const lanes = useMemo(
+    () => groupTasksIntoSwimlanes(swimlaneGroupBy, departmentTasks, departmentName, departmentUsers, getSubTasks),
+    [swimlaneGroupBy, departmentTasks, departmentName, departmentUsers, getSubTasks]
+  )
+
+  // One row of columns; lanes reuse the column ids with the lane key appended
+  const renderColumns = (laneKey?: string, laneTasks?: any[]) => (
+    <div className={cn("flex gap-3 w-100 overflow-x-auto", laneKey ? "px-4 pb-4" : "p-4 h-full")}>
+      {statuses.map((status) => {
+        const columnKey = `${departmentId}::${status.key}`
+        const columnId = laneKey ? `${columnKey}::${laneKey}` : columnKey
+        const columnTasks = laneTasks
+          ? sortBoardTasks(laneTasks.filter((t) => getTaskWorkflowStatus(t, statuses).key === status.key))
+          : tasksByStatus[status.key] || []
+        return (
+          <div
+            key={columnId}
+            className={cn(
+              collapsedColumns.has(columnKey) ? 'flex-initial min-w-[48px] w-auto' : 'flex-1 min-w-[350px] max-w-sm',
+              'transition-all duration-300 ease-in-out'
+            )}
+          >
+            <SortableContext
+              items={columnTasks.map((t) => String(t._id))}
+              strategy={verticalListSortingStrategy}
+            >
+              <BoardColumn
+                id={columnId}
+                title={status.name}
+                workflowStatus={status}
+                tasks={columnTasks}
+                wipCount={(tasksByStatus[status.key] || []).length}
+                height={laneKey ? 360 : undefined}
+                collapsed={collapsedColumns.has(columnKey)}
+                onToggleCollapse={() => toggleColumnCollapse(columnKey)}
+                departmentId={departmentId}
+                onOpenCreateTaskModal={onOpenCreateTaskModal}
+                getDepartmentName={getDepartmentName}
+                onSelectTaskForDetails={onSelectTaskForDetails}
+                onShowTaskDetails={onShowTaskDetails}
+                isActionLoadingForDepartment={isActionLoadingForDepartment}
+                isActionLoadingForTask={isActionLoadingForTask}
+                draggingTask={draggingTask}
+                onOpenEditTaskModal={onOpenEditTaskModal}
+                onDeleteTask={onDeleteTask}
+                onRestoreTask={onRestoreTask}
+                canUpdate={canUpdate}
+                canDelete={canDelete}
+                onStatusChange={onStatusChange}
+                onPriorityChange={onPriorityChange}
+                onDueDateChange={onDueDateChange}
+                onAssigneeChange={onAssigneeChange}
+                departmentUsers={departmentUsers}
+                usersLoading={usersLoading}
+              />
+            </SortableContext>
+          </div>
+        )
+      })}
+    </div>
+  )
+
   return (
     <DndContext
       onDragStart={onHandleDragStart}
@@ -1105,53 +1314,27 @@ export const TaskBoardView: React.FC<
       sensors={sensors}
       collisionDetection={closestCenter}
     >
-      <div className="flex gap-3 p-4 h-full w-100 overflow-x-auto">
-        {statuses.map((status) => {
-          const columnId = `${departmentId}::${status}`
-          const columnTasks = tasksByStatus[status] || []
-          return (
-            <div
-              key={columnId}
-              className={cn(
-                collapsedColumns.has(columnId) ? 'flex-initial min-w-[48px] w-auto' : 'flex-1 min-w-[350px] max-w-sm',
-                'transition-all duration-300 ease-in-out'
-              )}
-            >
-              <SortableContext
-                items={columnTasks.map((t) => String(t._id))}
-                strategy={verticalListSortingStrategy}
+      {lanes ? (
+        <div className="space-y-2 pt-2">
+          {lanes.map((lane) => (
+            <div key={lane.key} className="rounded border border-border/60">
+              <button
+                type="button"
+                className="flex w-full items-center gap-2 px-4 py-2 text-sm font-medium hover:bg-muted/50"
+                onClick={() => toggleLaneCollapse(lane.key)}
+                aria-expanded={!collapsedLanes.has(lane.key)}
               >
-                <BoardColumn
-                  id={columnId}
-                  title={status}
-                  tasks={columnTasks}
-                  collapsed={collapsedColumns.has(columnId)}
-                  onToggleCollapse={() => toggleColumnCollapse(columnId)}
-                  departmentId={departmentId}
-                  onOpenCreateTaskModal={onOpenCreateTaskModal}
-                  getDepartmentName={getDepartmentName}
-                  onSelectTaskForDetails={onSelectTaskForDetails}
-                  onShowTaskDetails={onShowTaskDetails}
-                  isActionLoadingForDepartment={isActionLoadingForDepartment}
-                  isActionLoadingForTask={isActionLoadingForTask}
-                  draggingTask={draggingTask}
-                  onOpenEditTaskModal={onOpenEditTaskModal}
-                  onDeleteTask={onDeleteTask}
-                  onRestoreTask={onRestoreTask}
-                  canUpdate={canUpdate}
-                  canDelete={canDelete}
-                  onStatusChange={onStatusChange}
-                  onPriorityChange={onPriorityChange}
-                  onDueDateChange={onDueDateChange}
-                  onAssigneeChange={onAssigneeChange}
-                  departmentUsers={departmentUsers}
-                  usersLoading={usersLoading}
-                />
-              </SortableContext>
+                {collapsedLanes.has(lane.key) ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+                <span className="truncate">{lane.title}</span>
+                <Badge variant="secondary" className="text-xs">{lane.tasks.length}</Badge>
+              </button>
+              {!collapsedLanes.has(lane.key) && renderColumns(lane.key, lane.tasks)}
             </div>
-          )
-        })}
-      </div>
+          ))}
+        </div>
+      ) : (
+        renderColumns()
+      )}
       <DragOverlay
         dropAnimation={{
           duration: 200,
@@ -1177,6 +1360,7 @@ export const TaskBoardView: React.FC<
                           Overdue
                         </Badge>
                       )}
+                      <BlockedBadge task={draggingTask} />
                       {/* Priority Inline Dropdown - Available in all views */}
                       {draggingTask.priority && (
                         <div onClick={(e) => e.stopPropagation()} onPointerDown={(e) => e.stopPropagation()}>
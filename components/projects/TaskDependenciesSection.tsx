@@ -0,0 +1,157 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Link2, Lock, Plus, Trash2 } from "lucide-react";
+import { SearchableSelect } from "@/components/shared/generic-form";
+import { useTasks } from "@/hooks/use-tasks";
+import { useToast } from "@/hooks/use-toast";
+import type { Task, TaskDependency } from "@/types";
+
+interface TaskDependenciesSectionProps {
+  task: Task;
+  projectId: string;
+  canUpdate?: boolean;
+}
+
+const DEPENDENCY_TYPE_LABELS: Record<TaskDependency['type'], string> = {
+  finish_to_start: 'Finish → Start',
+  start_to_start: 'Start → Start',
+};
+
+export function TaskDependenciesSection({ task, projectId, canUpdate }: TaskDependenciesSectionProps) {
+  const { toast } = useToast();
+  const { tasks: allTasks, updateTask, isActionLoadingForTask } = useTasks();
+  const [newDependencyId, setNewDependencyId] = useState("");
+  const [newDependencyType, setNewDependencyType] = useState<TaskDependency['type']>('finish_to_start');
+
+  const dependencies = useMemo(() => (task.dependencies || []).map(dependency => ({
+    taskId: String(dependency.taskId),
+    type: dependency.type,
+  })), [task.dependencies]);
+
+  const projectTasks = useMemo(() => {
+    return (allTasks || []).filter((t: any) => String(t.projectId || '') === String(projectId || '') && t.status !== 'deleted');
+  }, [allTasks, projectId]);
+
+  const candidateOptions = useMemo(() => {
+    const existingIds = new Set(dependencies.map(dependency => dependency.taskId));
+    return projectTasks
+      .filter((t: any) => String(t._id) !== String(task._id) && !existingIds.has(String(t._id)))
+      .map((t: any) => ({ label: t.title, value: String(t._id) }));
+  }, [projectTasks, dependencies, task._id]);
+
+  const isSaving = isActionLoadingForTask?.(task._id!);
+
+  const saveDependencies = async (next: TaskDependency[]) => {
+    try {
+      await updateTask(task._id!, { dependencies: next });
+      return true;
+    } catch (error: any) {
+      toast({
+        title: "Could not update dependencies",
+        description: error?.message || "Failed to update task dependencies",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newDependencyId) return;
+    const saved = await saveDependencies([...dependencies, { taskId: newDependencyId, type: newDependencyType }]);
+    if (saved) {
+      setNewDependencyId("");
+      setNewDependencyType('finish_to_start');
+    }
+  };
+
+  const handleRemove = async (taskId: string) => {
+    await saveDependencies(dependencies.filter(dependency => dependency.taskId !== taskId));
+  };
+
+  const findTask = (taskId: string) => projectTasks.find((t: any) => String(t._id) === taskId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Link2 className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold">Dependencies</h3>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {task.isBlocked && (task.blockedBy || []).length > 0 && (
+          <Alert className="border-amber-300 bg-amber-50 text-amber-900 dark:bg-amber-950/30 dark:text-amber-200">
+            <Lock className="h-4 w-4" />
+            <AlertDescription>
+              This task cannot be started until{' '}
+              {task.blockedBy!.map(blocker => `${blocker.title} (${blocker.type === 'start_to_start' ? 'starts' : 'finishes'})`).join(', ')}.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {dependencies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This task does not depend on any other task.</p>
+        ) : (
+          <div className="space-y-2">
+            {dependencies.map(dependency => {
+              const predecessor: any = findTask(dependency.taskId);
+              const blocking = (task.blockedBy || []).some(blocker => blocker.taskId === dependency.taskId);
+              return (
+                <div key={dependency.taskId} className="flex items-center justify-between gap-2 p-2 rounded-lg border border-border">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-sm font-medium truncate">{predecessor?.title || 'Unknown task'}</span>
+                    <Badge variant="outline" className="text-xs">{DEPENDENCY_TYPE_LABELS[dependency.type]}</Badge>
+                    {predecessor?.status && (
+                      <Badge variant="secondary" className={`text-xs ${blocking ? 'text-amber-700' : ''}`}>{predecessor.status}</Badge>
+                    )}
+                  </div>
+                  {canUpdate && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(dependency.taskId)}
+                      disabled={isSaving}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {canUpdate && (
+          <div className="flex items-center gap-2">
+            <div className="flex-1">
+              <SearchableSelect
+                options={candidateOptions}
+                value={newDependencyId}
+                onValueChange={setNewDependencyId}
+                placeholder="Select a task this one depends on"
+                disabled={isSaving || candidateOptions.length === 0}
+              />
+            </div>
+            <div className="w-40">
+              <SearchableSelect
+                options={Object.entries(DEPENDENCY_TYPE_LABELS).map(([value, label]) => ({ label, value }))}
+                value={newDependencyType}
+                onValueChange={(value) => setNewDependencyType(value as TaskDependency['type'])}
+                disabled={isSaving}
+              />
+            </div>
+            <Button size="sm" onClick={handleAdd} disabled={isSaving || !newDependencyId}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
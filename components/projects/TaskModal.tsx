@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useEffect } from "react";
+import Link from "next/link";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Button } from "@/components/ui/button";
@@ -29,6 +30,8 @@ import { Label } from "@/components/ui/label";
 import { RefreshCw, Plus, Trash2, Edit3, MoreVertical, Eye, Edit, MoreHorizontal, ChevronDown, ChevronUp, CheckCircle, ListTodo, CheckSquare } from "lucide-react";
 import { TaskCommentsSection } from "@/components/projects/TaskCommentsSection";
 import { TimeTrackingSection } from "@/components/projects/TimeTrackingSection";
+import { TaskDependenciesSection } from "@/components/projects/TaskDependenciesSection";
+import { TaskRecurrenceFields, toRecurrenceValue } from "@/components/projects/TaskRecurrenceFields";
 import { useUsers } from '@/hooks/use-users';
 import { useQueryClient } from '@tanstack/react-query'
 import { useTasks } from '@/hooks/use-tasks';
@@ -36,7 +39,7 @@ import { useGenericQueryById } from '@/hooks/use-generic-query';
 import { useToast } from '@/hooks/use-toast';
 import { createTaskFormSchema, updateTaskFormSchema, CreateTaskFormData } from '@/lib/validations/task';
 import { User as UserType, Task, CreateTaskData, UpdateTaskData } from '@/types';
-import { Clock, AlertCircle, User, CheckCircle2, Edit2, UserPlus } from "lucide-react";
+import { Clock, AlertCircle, User, CheckCircle2, Edit2, UserPlus, MessageSquare } from "lucide-react";
 type TaskModalMode = 'create' | 'edit' | 'assign';
 
 interface TaskModalProps {
@@ -91,6 +94,7 @@ export function TaskModal({
             assigneeId: "",
             dueDate: "",
             estimatedHours: "",
+            recurrence: null,
         },
     });
 
@@ -98,9 +102,10 @@ export function TaskModal({
     useEffect(() => {
         if (isOpen) {
             if (mode === 'create') {
+                // In create mode, task carries optional defaults (board column, chat message draft)
                 form.reset({
-                    title: "",
-                    description: "",
+                    title: task?.title || "",
+                    description: task?.description || "",
                     projectId,
                     departmentId,
                     type: parentTaskId ? "sub-task" : "task",
@@ -110,6 +115,7 @@ export function TaskModal({
                     assigneeId: "",
                     dueDate: "",
                     estimatedHours: "",
+                    recurrence: null,
                 });
             } else if (mode === 'edit' && task) {
                 form.reset({
@@ -124,6 +130,7 @@ export function TaskModal({
                     assigneeId: task.assigneeId || "",
                     dueDate: task.dueDate ? new Date(task.dueDate).toISOString().split('T')[0] : "",
                     estimatedHours: task.estimatedHours ? task.estimatedHours.toString() : "",
+                    recurrence: toRecurrenceValue(task.recurrence) as any,
                 });
             } else if (mode === 'assign' && task) {
                 form.reset({
@@ -194,6 +201,11 @@ export function TaskModal({
                     // Convert date strings to Date objects
                     startDate: data.startDate ? new Date(data.startDate) : undefined,
                     dueDate: data.dueDate ? new Date(data.dueDate) : undefined,
+                    recurrence: data.recurrence || undefined,
+                    // Column the task was created from on the board
+                    workflowStatus: task?.workflowStatus,
+                    // Chat message the task was created from
+                    sourceMessage: task?.sourceMessage,
                 };
 
                 await createTask(transformedData);
@@ -219,6 +231,8 @@ export function TaskModal({
                     // Convert date strings to Date objects
                     startDate: data.startDate ? new Date(data.startDate) : undefined,
                     dueDate: data.dueDate ? new Date(data.dueDate) : undefined,
+                    // null clears the rule, which stops the series
+                    recurrence: data.recurrence ?? null,
                 };
 
                 await updateTask(task._id!, transformedData);
@@ -463,6 +477,26 @@ export function TaskModal({
                                 </div>
                             )}
 
+                            {/* Recurrence - Only for create and edit modes */}
+                            {mode !== 'assign' && (
+                                <FormField
+                                    control={form.control}
+                                    name="recurrence"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormControl>
+                                                <TaskRecurrenceFields
+                                                    value={field.value as any}
+                                                    onChange={field.onChange}
+                                                    disabled={isFieldDisabled('recurrence')}
+                                                />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                            )}
+
                             {/* Type Field - Hidden but needed for validation */}
                             <FormField
                                 control={form.control}
@@ -654,6 +688,7 @@ export function TaskDetailsModal({
     onAssigneeChange,
     departmentUsers,
     usersLoading,
+    workflowStatuses,
     // handlers for nested task actions
     onOpenEditTaskModal,
     onOpenTaskDetails,
@@ -798,6 +833,7 @@ export function TaskDetailsModal({
                                             isLoading={isActionLoadingForTask?.(taskToShow._id)}
                                             canUpdate={canUpdate?.("tasks")}
                                             onStatusChange={onStatusChange || (async () => { })}
+                                            workflowStatuses={workflowStatuses}
                                         />
                                     </div>
                                 </div>
@@ -849,6 +885,18 @@ export function TaskDetailsModal({
                                     />
                                 </div>
                             )}
+                            {taskToShow.sourceMessage && (
+                                <div>
+                                    <Label>Discussed in</Label>
+                                    <Link
+                                        href={`/communications?channel=${taskToShow.sourceMessage.channelId}&message=${taskToShow.sourceMessage.messageId}`}
+                                        className="mt-1 inline-flex items-center gap-1.5 text-sm text-primary hover:underline"
+                                    >
+                                        <MessageSquare className="h-4 w-4" />
+                                        {taskToShow.sourceMessage.channelName ? `#${taskToShow.sourceMessage.channelName}` : 'Chat conversation'}
+                                    </Link>
+                                </div>
+                            )}
 
                     {/* Subtasks list for main tasks (collapsible) */}
                     {!isEditing && !taskToShow.parentTaskId && subTasksForCurrent.length > 0 && (
@@ -882,7 +930,7 @@ export function TaskDetailsModal({
                                                             {isActionLoadingForTask?.(sub._id) && <RefreshCw className="h-3 w-3 ml-2 text-muted-foreground animate-spin" />}
                                                         </div>
                                                         <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                                                            <InlineStatusDropdown task={sub} isLoading={isActionLoadingForTask?.(sub._id)} canUpdate={canUpdate?.('tasks')} onStatusChange={onStatusChange || (async () => {})} />
+                                                            <InlineStatusDropdown task={sub} isLoading={isActionLoadingForTask?.(sub._id)} canUpdate={canUpdate?.('tasks')} onStatusChange={onStatusChange || (async () => {})} workflowStatuses={workflowStatuses} />
                                                             <InlinePriorityDropdown task={sub} isLoading={isActionLoadingForTask?.(sub._id)} canUpdate={canUpdate?.('tasks')} onPriorityChange={onPriorityChange || (async () => {})} />
                                                             {sub.dueDate && <InlineDueDateInput task={sub} isLoading={isActionLoadingForTask?.(sub._id)} canUpdate={canUpdate?.('tasks')} onDueDateChange={onDueDateChange || (async () => {})} />}
                                                         </div>
@@ -1085,6 +1133,13 @@ export function TaskDetailsModal({
                     )}
                 </div>
 
+                {/* Dependencies Section */}
+                <TaskDependenciesSection
+                    task={taskToShow}
+                    projectId={projectId}
+                    canUpdate={canUpdate?.('tasks')}
+                />
+
                 {/* Comments Section */}
                 <TaskCommentsSection
                     taskId={taskToShow._id}
@@ -0,0 +1,191 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { SearchableSelect } from "@/components/shared/generic-form";
+import type { TaskRecurrence } from "@/types";
+
+export type TaskRecurrenceValue = Omit<TaskRecurrence, 'occurrence' | 'seriesId' | 'nextTaskId' | 'endedAt'>;
+
+interface TaskRecurrenceFieldsProps {
+  value?: TaskRecurrenceValue | null;
+  onChange: (value: TaskRecurrenceValue | null) => void;
+  disabled?: boolean;
+}
+
+// Monday-first to match how weeks are generated
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+const FREQUENCY_OPTIONS = [
+  { label: 'Does not repeat', value: 'none' },
+  { label: 'Daily', value: 'daily' },
+  { label: 'Weekly', value: 'weekly' },
+  { label: 'Monthly', value: 'monthly' },
+  { label: 'Custom (RRULE)', value: 'rrule' },
+];
+
+const INTERVAL_UNITS: Record<string, string> = { daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)' };
+
+const DEFAULT_RECURRENCE: TaskRecurrenceValue = {
+  frequency: 'weekly',
+  interval: 1,
+  weekdays: [],
+  generateOn: 'completion',
+  endType: 'never',
+};
+
+// Strip series bookkeeping so a stored rule can be edited and sent back
+export const toRecurrenceValue = (recurrence?: TaskRecurrence | null): TaskRecurrenceValue | null => {
+  if (!recurrence) return null;
+  const { occurrence, seriesId, nextTaskId, endedAt, ...rule } = recurrence;
+  return { ...rule, endDate: rule.endDate ? new Date(rule.endDate).toISOString().split('T')[0] : undefined };
+};
+
+export function TaskRecurrenceFields({ value, onChange, disabled }: TaskRecurrenceFieldsProps) {
+  const update = (changes: Partial<TaskRecurrenceValue>) => {
+    onChange({ ...(value || DEFAULT_RECURRENCE), ...changes });
+  };
+
+  const toggleWeekday = (day: number, checked: boolean) => {
+    const weekdays = value?.weekdays || [];
+    update({ weekdays: checked ? [...weekdays, day] : weekdays.filter(existing => existing !== day) });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label>Repeat</Label>
+          <SearchableSelect
+            options={FREQUENCY_OPTIONS}
+            value={value?.frequency || 'none'}
+            onValueChange={(frequency) => frequency === 'none'
+              ? onChange(null)
+              : update({ frequency: frequency as TaskRecurrenceValue['frequency'] })}
+            disabled={disabled}
+          />
+        </div>
+
+        {value && value.frequency !== 'rrule' && (
+          <div className="space-y-1">
+            <Label>Every</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min="1"
+                value={value.interval}
+                onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                disabled={disabled}
+              />
+              <span className="text-sm text-muted-foreground whitespace-nowrap">{INTERVAL_UNITS[value.frequency]}</span>
+            </div>
+          </div>
+        )}
+
+        {value?.frequency === 'rrule' && (
+          <div className="space-y-1">
+            <Label>Rule</Label>
+            <Input
+              placeholder="FREQ=WEEKLY;BYDAY=MO,TH"
+              value={value.rrule || ''}
+              onChange={(e) => update({ rrule: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+        )}
+      </div>
+
+      {value?.frequency === 'weekly' && (
+        <div className="flex flex-wrap gap-3">
+          {WEEKDAYS.map(day => (
+            <label key={day.value} className="flex items-center gap-1.5 text-sm">
+              <Checkbox
+                checked={(value.weekdays || []).includes(day.value)}
+                onCheckedChange={(checked) => toggleWeekday(day.value, !!checked)}
+                disabled={disabled}
+              />
+              {day.label}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {value?.frequency === 'monthly' && (
+        <div className="space-y-1">
+          <Label>Day of month</Label>
+          <Input
+            type="number"
+            min="1"
+            max="31"
+            placeholder="Same day as the due date"
+            value={value.dayOfMonth ?? ''}
+            onChange={(e) => update({ dayOfMonth: e.target.value ? Math.min(31, Math.max(1, parseInt(e.target.value) || 1)) : undefined })}
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      {value && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label>Create next</Label>
+            <SearchableSelect
+              options={[
+                { label: 'When this one is completed', value: 'completion' },
+                { label: 'When this one is due', value: 'schedule' },
+              ]}
+              value={value.generateOn}
+              onValueChange={(generateOn) => update({ generateOn: generateOn as TaskRecurrenceValue['generateOn'] })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Ends</Label>
+            <SearchableSelect
+              options={[
+                { label: 'Never', value: 'never' },
+                { label: 'After a number of occurrences', value: 'after' },
+                { label: 'On a date', value: 'on_date' },
+              ]}
+              value={value.endType}
+              onValueChange={(endType) => update({ endType: endType as TaskRecurrenceValue['endType'] })}
+              disabled={disabled}
+            />
+          </div>
+          {value.endType === 'after' && (
+            <div className="space-y-1 col-span-2">
+              <Label>Occurrences</Label>
+              <Input
+                type="number"
+                min="1"
+                value={value.endAfterOccurrences ?? ''}
+                onChange={(e) => update({ endAfterOccurrences: e.target.value ? Math.max(1, parseInt(e.target.value) || 1) : undefined })}
+                disabled={disabled}
+              />
+            </div>
+          )}
+          {value.endType === 'on_date' && (
+            <div className="space-y-1 col-span-2">
+              <Label>End date</Label>
+              <Input
+                type="date"
+                value={value.endDate || ''}
+                onChange={(e) => update({ endDate: e.target.value || undefined })}
+                disabled={disabled}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -35,6 +35,8 @@ import CustomModal from "@/components/shared/custom-modal";
 import { createTimeLogFormSchema, updateTimeLogFormSchema, formatHours } from "@/lib/validations/timeLog";
 import type { CreateTimeLogFormData, UpdateTimeLogFormData } from "@/lib/validations/timeLog";
 import { useToast } from "@/hooks/use-toast";
+import { useTimeLogs, useActiveTimer, getTimerElapsedMs } from "@/hooks/use-time-logs";
+import type { TimeLog } from "@/types";
 import { formatDistanceToNow } from "date-fns";
 
 interface TimeTrackingProps {
@@ -45,24 +47,18 @@ interface TimeTrackingProps {
   onTimeUpdate?: (newActualHours: number) => void;
 }
 
-interface TimeLog {
-  _id: string;
-  description: string;
-  hours: number;
-  date: string;
-  startTime?: string;
-  endTime?: string;
-  logType: 'manual' | 'timer';
-  isApproved: boolean;
-  user: {
-    _id: string;
-    name: string;
-    email: string;
-    avatar?: string;
-  };
-  createdAt: string;
-  updatedAt: string;
-}
+// Format a date as YYYY-MM-DD for date inputs and the time log API
+const toDateInputValue = (date: Date | string) => {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  return d.toISOString().split('T')[0];
+};
+
+// Combine a YYYY-MM-DD date with an optional HH:mm time input
+const combineDateAndTime = (date: string, time?: string) => {
+  if (!time) return undefined;
+  const combined = new Date(`${date}T${time}`);
+  return isNaN(combined.getTime()) ? undefined : combined.toISOString();
+};
 
 export function TimeTrackingSection({ 
   taskId, 
@@ -71,18 +67,19 @@ export function TimeTrackingSection({
   currentActualHours = 0,
   onTimeUpdate 
 }: TimeTrackingProps) {
-  const [timeLogs, setTimeLogs] = useState<TimeLog[]>([]);
   const [loading, setLoading] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingLog, setEditingLog] = useState<TimeLog | null>(null);
   
-  // Timer state
-  const [isTimerRunning, setIsTimerRunning] = useState(false);
-  const [timerStart, setTimerStart] = useState<Date | null>(null);
+  // Timer state (the timer itself is held on the server)
   const [elapsedTime, setElapsedTime] = useState(0);
   const [timerDescription, setTimerDescription] = useState("");
 
   const { toast } = useToast();
+  const { useTaskTimeLogs, createTimeLog, updateTimeLog, deleteTimeLog } = useTimeLogs();
+  const { timer: activeTimer, startTimer: startServerTimer, pauseTimer: pauseServerTimer, stopTimer: stopServerTimer, starting, stopping } = useActiveTimer();
+  const { data: fetchedTimeLogs } = useTaskTimeLogs(taskId, projectId);
+  const timeLogs: TimeLog[] = fetchedTimeLogs || [];
 
   // Forms
   const addForm = useForm<CreateTimeLogFormData>({
@@ -110,101 +107,77 @@ export function TimeTrackingSection({
     },
   });
 
+  const hasTimer = !!activeTimer && activeTimer.taskId === taskId;
+  const isTimerRunning = hasTimer && activeTimer?.status === 'running';
+  const timerOnOtherTask = !!activeTimer && activeTimer.taskId !== taskId ? activeTimer : null;
+
   // Timer effect
   useEffect(() => {
     let interval: NodeJS.Timeout;
-    
-    if (isTimerRunning && timerStart) {
+
+    setElapsedTime(hasTimer ? getTimerElapsedMs(activeTimer) : 0);
+
+    if (isTimerRunning) {
       interval = setInterval(() => {
-        setElapsedTime(Date.now() - timerStart.getTime());
+        setElapsedTime(getTimerElapsedMs(activeTimer));
       }, 1000);
     }
     
     return () => {
       if (interval) clearInterval(interval);
     };
-  }, [isTimerRunning, timerStart]);
+  }, [activeTimer, hasTimer, isTimerRunning]);
 
-  // Mock data for now - in real app this would come from API
+  // Pick up the description of a timer started in another session
   useEffect(() => {
-    // Simulate loading time logs
-    setTimeLogs([
-      {
-        _id: '1',
-        description: 'Initial setup and configuration',
-        hours: 2.5,
-        date: '2025-10-28',
-        logType: 'manual',
-        isApproved: true,
-        user: {
-          _id: 'user1',
-          name: 'John Doe',
-          email: 'john@example.com'
-        },
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      },
-      {
-        _id: '2',
-        description: 'Bug fixes and testing',
-        hours: 1.75,
-        date: '2025-10-27',
-        logType: 'timer',
-        isApproved: false,
-        user: {
-          _id: 'user2',
-          name: 'Jane Smith',
-          email: 'jane@example.com'
-        },
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      },
-    ]);
-  }, []);
+    if (hasTimer) {
+      setTimerDescription(activeTimer?.description || "");
+    }
+  }, [hasTimer, activeTimer?._id]);
 
   const totalLoggedHours = timeLogs.reduce((total, log) => total + log.hours, 0);
   const progressPercentage = estimatedHours > 0 ? (totalLoggedHours / estimatedHours) * 100 : 0;
 
   // Timer functions
-  const startTimer = () => {
-    setTimerStart(new Date());
-    setIsTimerRunning(true);
-    setElapsedTime(0);
+  const startTimer = async (stopExisting: boolean = false) => {
+    try {
+      await startServerTimer({
+        taskId,
+        projectId,
+        description: timerDescription || undefined,
+        stopExisting,
+      });
+    } catch (error: any) {
+      if (error?.code === 'TIMER_CONFLICT') {
+        toast({
+          title: "Timer already running",
+          description: "Stop the timer on your other task or switch it to this one.",
+          variant: "destructive",
+        });
+      }
+    }
   };
 
-  const pauseTimer = () => {
-    setIsTimerRunning(false);
+  const pauseTimer = async () => {
+    try {
+      await pauseServerTimer();
+    } catch (error) {
+      console.error('Error pausing timer:', error);
+    }
   };
 
-  const stopTimer = () => {
-    if (timerStart && elapsedTime > 0) {
-      const hours = elapsedTime / (1000 * 60 * 60);
-      
-      // Auto-create time log from timer
-      const newLog: TimeLog = {
-        _id: Date.now().toString(),
-        description: timerDescription || 'Timed work session',
-        hours: Math.round(hours * 100) / 100,
-        date: new Date().toISOString().split('T')[0],
-        startTime: timerStart.toISOString(),
-        endTime: new Date().toISOString(),
-        logType: 'timer',
-        isApproved: false,
-        user: {
-          _id: 'current-user',
-          name: 'Current User',
-          email: 'current@example.com'
-        },
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-      
-      setTimeLogs(prev => [newLog, ...prev]);
-      onTimeUpdate?.(totalLoggedHours + newLog.hours);
+  const stopTimer = async () => {
+    try {
+      // The server converts the session into a timer log
+      const timeLog = await stopServerTimer(timerDescription || undefined);
+      if (timeLog) {
+        onTimeUpdate?.(totalLoggedHours + timeLog.hours);
+      }
+    } catch (error) {
+      console.error('Error saving timer session:', error);
+      return;
     }
-    
-    setIsTimerRunning(false);
-    setTimerStart(null);
+
     setElapsedTime(0);
     setTimerDescription("");
   };
@@ -224,28 +197,19 @@ export function TimeTrackingSection({
     try {
       setLoading(true);
       
-      // Mock API call - in real app this would call the actual API
       const hours = typeof data.hours === 'string' ? parseFloat(data.hours) : (data.hours as number);
-      const newLog: TimeLog = {
-        _id: Date.now().toString(),
+      await createTimeLog({
+        taskId,
+        projectId,
         description: data.description,
         hours,
         date: data.date,
-        startTime: data.startTime,
-        endTime: data.endTime,
+        startTime: combineDateAndTime(data.date, data.startTime),
+        endTime: combineDateAndTime(data.date, data.endTime),
         logType: data.logType,
-        isApproved: false,
-        user: {
-          _id: 'current-user',
-          name: 'Current User',
-          email: 'current@example.com'
-        },
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
+      });
       
-      setTimeLogs(prev => [newLog, ...prev]);
-      onTimeUpdate?.(totalLoggedHours + newLog.hours);
+      onTimeUpdate?.(totalLoggedHours + hours);
       setShowAddModal(false);
       addForm.reset();
       
@@ -272,21 +236,14 @@ export function TimeTrackingSection({
     try {
       setLoading(true);
       
-      // Mock API call
       const hours = data.hours !== undefined 
         ? (typeof data.hours === 'string' ? parseFloat(data.hours) : (data.hours as number))
-        : editingLog.hours;
-      setTimeLogs(prev => prev.map(log => 
-        log._id === editingLog._id 
-          ? { 
-              ...log, 
-              description: data.description || log.description,
-              hours,
-              date: data.date || log.date,
-              updatedAt: new Date().toISOString(),
-            }
-          : log
-      ));
+        : undefined;
+      await updateTimeLog(editingLog._id, {
+        description: data.description || undefined,
+        hours,
+        date: data.date || undefined,
+      }, { taskId, projectId });
       
       setEditingLog(null);
       editForm.reset();
@@ -310,7 +267,7 @@ export function TimeTrackingSection({
   // Handle delete time log
   const handleDeleteTimeLog = async (logId: string) => {
     try {
-      setTimeLogs(prev => prev.filter(log => log._id !== logId));
+      await deleteTimeLog(logId, { taskId, projectId });
       
       toast({
         title: "Success",
@@ -396,11 +353,30 @@ export function TimeTrackingSection({
             />
           </div>
           
+          {timerOnOtherTask && (
+            <p className="text-sm text-muted-foreground mb-3">
+              Your timer is {timerOnOtherTask.status === 'paused' ? 'paused' : 'running'} on{" "}
+              <span className="font-medium text-foreground">{timerOnOtherTask.task?.title || 'another task'}</span>.
+              Starting here will stop it and save that session.
+            </p>
+          )}
+          
           <div className="flex items-center gap-2">
-            {!isTimerRunning && !timerStart && (
-              <Button onClick={startTimer} className="bg-emerald-600 hover:bg-emerald-700 text-white">
+            {!hasTimer && (
+              <Button
+                onClick={() => startTimer(!!timerOnOtherTask)}
+                disabled={starting}
+                className="bg-emerald-600 hover:bg-emerald-700 text-white"
+              >
+                <Play className="h-4 w-4 mr-1" />
+                {timerOnOtherTask ? 'Switch Here' : 'Start'}
+              </Button>
+            )}
+            
+            {hasTimer && !isTimerRunning && (
+              <Button onClick={() => startTimer()} disabled={starting} variant="outline">
                 <Play className="h-4 w-4 mr-1" />
-                Start
+                Resume
               </Button>
             )}
             
@@ -411,8 +387,8 @@ export function TimeTrackingSection({
               </Button>
             )}
             
-            {timerStart && (
-              <Button onClick={stopTimer} variant="destructive">
+            {hasTimer && (
+              <Button onClick={stopTimer} disabled={stopping} variant="destructive">
                 <Square className="h-4 w-4 mr-1" />
                 Stop & Save
               </Button>
@@ -479,42 +455,45 @@ export function TimeTrackingSection({
                           <Calendar className="h-3 w-3" />
                           {new Date(log.date).toLocaleDateString()}
                         </span>
-                        <span>by {log.user.name}</span>
+                        <span>by {log.user?.name || 'Unknown'}</span>
                         <span>{formatDistanceToNow(new Date(log.createdAt), { addSuffix: true })}</span>
                       </div>
                     </div>
 
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button 
-                          variant="ghost" 
-                          size="sm" 
-                          className="h-8 w-8 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
-                        >
-                          <MoreHorizontal className="h-4 w-4" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuItem onClick={() => {
-                          setEditingLog(log);
-                          editForm.reset({
-                            description: log.description,
-                            hours: log.hours || 0,
-                            date: log.date,
-                          });
-                        }}>
-                          <Edit3 className="h-4 w-4 mr-2" />
-                          Edit
-                        </DropdownMenuItem>
-                        <DropdownMenuItem 
-                          onClick={() => handleDeleteTimeLog(log._id)}
-                          className="text-destructive"
-                        >
-                          <Trash2 className="h-4 w-4 mr-2" />
-                          Delete
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
+                    {/* Approved entries are locked by the timesheet workflow */}
+                    {!log.isApproved && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button 
+                            variant="ghost" 
+                            size="sm" 
+                            className="h-8 w-8 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                          >
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => {
+                            setEditingLog(log);
+                            editForm.reset({
+                              description: log.description,
+                              hours: log.hours || 0,
+                              date: toDateInputValue(log.date),
+                            });
+                          }}>
+                            <Edit3 className="h-4 w-4 mr-2" />
+                            Edit
+                          </DropdownMenuItem>
+                          <DropdownMenuItem 
+                            onClick={() => handleDeleteTimeLog(log._id)}
+                            className="text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -106,6 +106,29 @@ export interface AnalyticsTeam {
 }
 
 
+export interface AnalyticsBudgetLine {
+  _id: string
+  title: string
+  budgetAllocation: number
+  actualCost: number
+}
+
+export interface AnalyticsBudgetBurnDown {
+  budget: number
+  actualCost: number
+  percentUsed: number
+  thresholds: number[]
+  series: {
+    week: string
+    cost: number | null
+    actualCost: number | null
+    remaining: number | null
+    plannedRemaining: number | null
+  }[]
+  milestones: AnalyticsBudgetLine[]
+  phases: AnalyticsBudgetLine[]
+}
+
 export interface AnalyticsResources {
   budget: {
     total: number
@@ -114,6 +137,7 @@ export interface AnalyticsResources {
     utilization: number
     variance?: number
     breakdown?: Record<string, number>
+    burnDown?: AnalyticsBudgetBurnDown | null
   }
   hours: {
     totalEstimated?: number
@@ -723,6 +747,7 @@ export function useProjectAnalytics(
           utilization: apiData.resources?.budget?.utilization || 0,
           variance: apiData.resources?.budget?.variance || 0,
           breakdown: apiData.resources?.budget?.breakdown || {},
+          burnDown: apiData.resources?.budget?.burnDown || null,
         },
         hours: {
           totalEstimated: apiData.resources?.hours?.totalEstimated || 0,
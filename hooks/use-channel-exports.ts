@@ -0,0 +1,66 @@
+import { useCallback } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { apiRequest, handleAPIError } from '@/lib/utils/api-client'
+import { toast } from '@/hooks/use-toast'
+import type { IChannelExport } from '@/types/communication'
+
+const NO_EXPORTS: IChannelExport[] = []
+
+const isBuilding = (item: IChannelExport) => item.status === 'pending' || item.status === 'processing'
+
+// Compliance exports of a channel. Polls while an export is still being built.
+export function useChannelExports(channelId: string | null | undefined, enabled = true) {
+  const queryClient = useQueryClient()
+
+  const exportsQuery = useQuery({
+    queryKey: ['channel-exports', channelId],
+    queryFn: async () => await apiRequest<IChannelExport[]>(`/api/communication/channels/${channelId}/exports`, {}, false),
+    enabled: enabled && !!channelId,
+    refetchInterval: (query) => (query.state.data || NO_EXPORTS).some(isBuilding) ? 5 * 1000 : false,
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { from: string; to: string }) =>
+      await apiRequest<IChannelExport>(`/api/communication/channels/${channelId}/exports`, {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }, false),
+  })
+
+  const createExport = useCallback(async (from: Date, to: Date) => {
+    try {
+      const created = await createMutation.mutateAsync({ from: from.toISOString(), to: to.toISOString() })
+      toast({
+        title: 'Export started',
+        description: 'The bundle is being prepared. It will be ready to download here shortly.',
+      })
+      await queryClient.invalidateQueries({ queryKey: ['channel-exports', channelId] })
+      return created
+    } catch (error) {
+      handleAPIError(error, 'Failed to start export')
+      throw error
+    }
+  }, [createMutation, queryClient, channelId])
+
+  // Download links are short-lived, so one is requested on every click
+  const downloadExport = useCallback(async (exportId: string) => {
+    try {
+      const item = await apiRequest<IChannelExport>(`/api/communication/exports/${exportId}`, {}, false)
+      if (!item?.download_url) {
+        throw new Error('This export is not ready to download yet')
+      }
+      window.open(item.download_url, '_blank', 'noopener')
+    } catch (error) {
+      handleAPIError(error, 'Failed to download export')
+    }
+  }, [])
+
+  return {
+    exports: exportsQuery.data || NO_EXPORTS,
+    isLoading: exportsQuery.isLoading,
+    error: exportsQuery.error,
+    createExport,
+    creating: createMutation.isPending,
+    downloadExport,
+  }
+}
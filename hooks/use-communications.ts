@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useMemo, useState, useRef } from 'react'
 import { useAppSelector, useAppDispatch } from './redux'
 import { useSession } from 'next-auth/react'
+import { useQueryClient } from '@tanstack/react-query'
 import type { User } from '@/types'
 import { useUsers } from './use-users'
 import {
@@ -15,6 +16,7 @@ import {
   setMessageDelivered,
   addReactionToMessage,
   removeReactionFromMessage,
+  updateMessagePoll,
   setTyping,
   removeTyping,
   clearTypingForChannel,
@@ -43,6 +45,7 @@ import {
   resetState,
   decrementUnreadCount,
   incrementUnreadCount,
+  setChannelUnreadCounts,
   // Channel real-time updates (Phase 3)
   addChannel,
   updateChannel,
@@ -69,7 +72,9 @@ import type {
   ICommunication,
   IChannel,
   IChannelMember,
-  IAttachment
+  IAttachment,
+  IPollSummary,
+  IChannelUnreadSummary
 } from '@/types/communication'
 import { useToast } from '@/hooks/use-toast'
 import { apiRequest } from '@/lib/utils/api-client'
@@ -80,9 +85,12 @@ import { communicationCache } from '@/lib/communication/cache'
 // Global maps to prevent duplicate fetches per user across component remounts
 const globalFetchedUsers = new Map<string, boolean>()
 const globalFetchedChannels = new Map<string, boolean>()
+// Shared so that every mounted instance refreshing on focus makes one request
+let unreadRefreshInFlight: Promise<void> | null = null
 
 export function useCommunications() {
   const dispatch = useAppDispatch()
+  const queryClient = useQueryClient()
   const { toast } = useToast()
   const { data: session, status } = useSession()
   const { users: allUsers, loading: usersLoading } = useUsers()
@@ -327,7 +335,11 @@ export function useCommunications() {
     // Get channel info for context
     const currentChannels = currentChannelsRef.current
     const channel = currentChannels.find((c: IChannel) => c.id === message.channel_id)
-    const newUnreadCount = (channel?.unreadCount || 0) + 1
+    // Thread replies are counted in the Threads inbox, not on the channel
+    const unreadIncrement = message.parent_message_id ? 0 : 1
+    const isMention = unreadIncrement > 0 && !!sessionUserId && !!message.mongo_mentioned_user_ids?.includes(sessionUserId)
+    const newUnreadCount = (channel?.unreadCount || 0) + unreadIncrement
+    const newMentionCount = (channel?.unreadMentionCount || 0) + (isMention ? 1 : 0)
     
     // Check if channel is muted for this user
     const currentMember = channel?.channel_members?.find((m: IChannelMember) => m.mongo_member_id === sessionUserId)
@@ -337,14 +349,16 @@ export function useCommunications() {
     dispatch(updateChannel({
       id: message.channel_id,
       unreadCount: newUnreadCount,
+      unreadMentionCount: newMentionCount,
       last_message: message,
       last_message_at: message.created_at
     }))
-    dispatch(incrementUnreadCount(1))
+    dispatch(incrementUnreadCount(unreadIncrement))
     
     // Also update the cache to keep it in sync
     communicationCache.updateChannelInCache(message.channel_id, { 
       unreadCount: newUnreadCount,
+      unreadMentionCount: newMentionCount,
       last_message: message,
       last_message_at: message.created_at
     })
@@ -466,6 +480,35 @@ export function useCommunications() {
     }))
   }, [dispatch, sessionUserId])
 
+  // A followed thread got a reply - refresh the Threads inbox unread counts
+  const onThreadReply = useCallback((data: { channelId: string; threadId: string; message: any }) => {
+    logger.debug('Thread reply via realtime:', data)
+    queryClient.invalidateQueries({ queryKey: ['threads'] })
+  }, [queryClient])
+
+  // Server-computed unread counts changed, e.g. the channel was read on another device
+  const onUnreadUpdate = useCallback((data: IChannelUnreadSummary) => {
+    logger.debug('Unread counts updated via realtime:', data)
+    dispatch(setChannelUnreadCounts([data]))
+    if (data.channel_id !== activeChannelIdRef.current) {
+      communicationCache.updateChannelInCache(data.channel_id, {
+        unreadCount: data.unread_count,
+        unreadMentionCount: data.mention_count
+      })
+    }
+  }, [dispatch])
+
+  // Handle new poll results (real-time)
+  const onPollUpdate = useCallback((data: { messageId: string; poll: IPollSummary }) => {
+    logger.debug('Poll updated via realtime:', data)
+
+    dispatch(updateMessagePoll({
+      channelId: data.poll.channel_id,
+      messageId: data.messageId,
+      poll: data.poll
+    }))
+  }, [dispatch])
+
   // ============================================
   // Channel Real-time Event Handlers (Phase 3)
   // ============================================
@@ -762,8 +805,11 @@ export function useCommunications() {
       onPresenceSync,
       onMentionNotification,
       onNewMessageNotification,
+      onThreadReply,
+      onUnreadUpdate,
       onReactionAdd,
       onReactionRemove,
+      onPollUpdate,
       onChannelUpdate,
       onUserPin,
       onAttachmentsAdded
@@ -771,7 +817,7 @@ export function useCommunications() {
     realtimeManager.updateHandlers(handlers)
     setHandlersReady(true)
     logger.debug('✅ Realtime handlers updated')
-  }, [realtimeManager, onNewMessage, onMessageUpdate, onMessageDelete, onMessageRead, onMessageDelivered, onUserJoined, onUserLeft, onUserOnline, onUserOffline, onTypingStart, onTypingStop, onPresenceSync, onMentionNotification, onNewMessageNotification, onReactionAdd, onReactionRemove, onChannelUpdate, onUserPin, onAttachmentsAdded])
+  }, [realtimeManager, onNewMessage, onMessageUpdate, onMessageDelete, onMessageRead, onMessageDelivered, onUserJoined, onUserLeft, onUserOnline, onUserOffline, onTypingStart, onTypingStop, onPresenceSync, onMentionNotification, onNewMessageNotification, onThreadReply, onUnreadUpdate, onReactionAdd, onReactionRemove, onPollUpdate, onChannelUpdate, onUserPin, onAttachmentsAdded])
 
   // Subscribe to notifications when user is logged in AND handlers are set
   // NOTE: We don't unsubscribe on cleanup because notifications should persist
@@ -1575,13 +1621,14 @@ export function useCommunications() {
       // Optimistically update Redux state
       dispatch(updateChannel({
         id: channelId,
-        unreadCount: 0
+        unreadCount: 0,
+        unreadMentionCount: 0
       }))
       dispatch(decrementUnreadCount(currentUnread))
       dispatch(clearNotificationsForChannel(channelId))
       
       // Also update the cache to keep it in sync
-      communicationCache.updateChannelInCache(channelId, { unreadCount: 0 })
+      communicationCache.updateChannelInCache(channelId, { unreadCount: 0, unreadMentionCount: 0 })
 
       // Call the bulk API
       await apiRequest('/api/communication/read-receipts', {
@@ -1608,6 +1655,42 @@ export function useCommunications() {
     }
   }, [channels, dispatch])
 
+  /**
+   * Replace every channel's unread and mention counts with the server's,
+   * which follow the last-read pointers rather than the loaded messages.
+   */
+  const refreshUnreadCounts = useCallback(async () => {
+    if (!unreadRefreshInFlight) {
+      unreadRefreshInFlight = (async () => {
+        try {
+          const summaries = await apiRequest<IChannelUnreadSummary[]>('/api/communication/channels/unread', {}, false)
+          if (summaries) {
+            dispatch(setChannelUnreadCounts(summaries))
+          }
+        } catch (error) {
+          logger.error('Failed to refresh unread counts:', error)
+        } finally {
+          unreadRefreshInFlight = null
+        }
+      })()
+    }
+    await unreadRefreshInFlight
+  }, [dispatch])
+
+  // Channels may have been read elsewhere while this tab was in the background
+  useEffect(() => {
+    if (!sessionUserId || !channelsInitialized) return
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        refreshUnreadCounts()
+      }
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }, [sessionUserId, channelsInitialized, refreshUnreadCounts])
+
   // ============================================
   // Reaction Operations
   // ============================================
@@ -1733,7 +1816,7 @@ export function useCommunications() {
   // ============================================
 
   /**
-   * Move a message to trash (soft delete with 30-day restoration window)
+   * Move a message to trash (soft delete, restorable until the trash retention policy purges it)
    * Only the message owner or admin can do this
    */
   const moveToTrash = useCallback(async (messageId: string, channelId: string, reason?: string) => {
@@ -1761,7 +1844,7 @@ export function useCommunications() {
 
       toastRef.current({
         title: "Message moved to trash",
-        description: "You can restore it within 30 days",
+        description: "You can restore it from the trash",
       })
 
       return { success: true, data: response }
@@ -1834,7 +1917,7 @@ export function useCommunications() {
 
   /**
    * Restore a message from trash
-   * Only available within 30 days of trashing
+   * Only available until the trash retention period has passed
    */
   const restoreFromTrash = useCallback(async (messageId: string) => {
     if (!sessionUserId) return { success: false, error: 'Not authenticated' }
@@ -2326,6 +2409,7 @@ export function useCommunications() {
     createChannel,
     markAsRead,
     markAllChannelMessagesAsRead,
+    refreshUnreadCounts,
 
     // Channel leave/archive operations (Phase 2)
     leaveChannel,
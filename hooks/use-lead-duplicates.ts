@@ -0,0 +1,72 @@
+import { useCallback, useMemo } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { apiRequest, handleAPIError } from '@/lib/utils/api-client'
+import { useDebounce } from '@/hooks/use-api'
+import { normalizeLeadIdentity, type DuplicateCandidate } from '@/lib/utils/lead-duplicates'
+import type { Lead, LeadDuplicateMatch } from '@/types'
+
+// Possible duplicates of a lead as it is being filled in, checked after typing settles
+export function useLeadDuplicates(candidate: DuplicateCandidate, options: { excludeId?: string; enabled?: boolean } = {}) {
+  const { excludeId, enabled = true } = options
+  // Debounce a string so a new candidate object on every render doesn't restart the timer
+  const key = JSON.stringify([candidate.email, candidate.phone, candidate.company, candidate.website])
+  const debouncedKey = useDebounce(key, 600)
+
+  // Only fields that can actually match are sent, so partial input doesn't trigger a request
+  const params = useMemo(() => {
+    const [email, phone, company, website] = JSON.parse(debouncedKey) as (string | undefined)[]
+    const identity = normalizeLeadIdentity({ email, phone, company, website })
+    const search = new URLSearchParams()
+    if (identity.email) search.set('email', email!)
+    if (identity.phone) search.set('phone', phone!)
+    if (identity.company) search.set('company', company!)
+    if (identity.website) search.set('website', website!)
+    if (search.toString() && excludeId) search.set('excludeId', excludeId)
+    return search.toString()
+  }, [debouncedKey, excludeId])
+
+  const duplicatesQuery = useQuery({
+    queryKey: ['lead-duplicates', params],
+    queryFn: async () => await apiRequest<LeadDuplicateMatch[]>(`/api/leads/duplicates?${params}`),
+    enabled: enabled && !!params,
+    staleTime: 30 * 1000,
+  })
+
+  return {
+    duplicates: params ? duplicatesQuery.data || [] : [],
+    isChecking: duplicatesQuery.isFetching,
+  }
+}
+
+// Merge a duplicate into a surviving lead; the duplicate is deleted
+export function useMergeLeads() {
+  const queryClient = useQueryClient()
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ survivorId, duplicateId }: { survivorId: string; duplicateId: string }) => {
+      return await apiRequest<Lead>(`/api/leads/${survivorId}/merge`, {
+        method: 'POST',
+        body: JSON.stringify({ duplicateId }),
+      }, false)
+    },
+  })
+
+  const mergeLeads = useCallback(async (survivorId: string, duplicateId: string) => {
+    try {
+      const result = await mergeMutation.mutateAsync({ survivorId, duplicateId })
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['leads'] }),
+        queryClient.invalidateQueries({ queryKey: ['lead-duplicates'] }),
+      ])
+      return result
+    } catch (error) {
+      handleAPIError(error, 'Failed to merge leads')
+      throw error
+    }
+  }, [mergeMutation, queryClient])
+
+  return {
+    mergeLeads,
+    merging: mergeMutation.isPending,
+  }
+}
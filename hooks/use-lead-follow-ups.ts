@@ -0,0 +1,62 @@
+import { useCallback } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { apiRequest, handleAPIError } from '@/lib/utils/api-client'
+import type { Lead, LeadFollowUpQueue } from '@/types'
+
+export interface LeadContactLogInput {
+  date: string
+  type: 'call' | 'email' | 'meeting' | 'note'
+  description: string
+  outcome?: string
+  contactPerson?: string
+  nextFollowUpDate?: string | null // null clears the follow-up, leaving it out keeps the current one
+}
+
+// The current user's follow-up queue: overdue, due today and coming up
+export function useLeadFollowUps(options: { enabled?: boolean } = {}) {
+  const { enabled = true } = options
+
+  const queueQuery = useQuery({
+    queryKey: ['leads', 'follow-ups'],
+    queryFn: async () => await apiRequest<LeadFollowUpQueue>('/api/leads/follow-ups'),
+    enabled,
+    staleTime: 60 * 1000,
+  })
+
+  return {
+    queue: queueQuery.data,
+    isLoading: queueQuery.isLoading,
+    refetch: queueQuery.refetch,
+  }
+}
+
+// Log a call, email, meeting or note on a lead, optionally rescheduling its follow-up
+export function useLogLeadContact() {
+  const queryClient = useQueryClient()
+
+  const logMutation = useMutation({
+    mutationFn: async ({ leadId, entry }: { leadId: string; entry: LeadContactLogInput }) => {
+      return await apiRequest<Lead>(`/api/leads/${leadId}/contacts`, {
+        method: 'POST',
+        body: JSON.stringify(entry),
+      }, false)
+    },
+  })
+
+  const logContact = useCallback(async (leadId: string, entry: LeadContactLogInput) => {
+    try {
+      const result = await logMutation.mutateAsync({ leadId, entry })
+      // Covers the lead itself, the list and the follow-up queue
+      await queryClient.invalidateQueries({ queryKey: ['leads'] })
+      return result
+    } catch (error) {
+      handleAPIError(error, 'Failed to log contact')
+      throw error
+    }
+  }, [logMutation, queryClient])
+
+  return {
+    logContact,
+    logging: logMutation.isPending,
+  }
+}
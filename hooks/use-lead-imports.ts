@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { apiRequest, handleAPIError } from '@/lib/utils/api-client'
+import type { LeadImportJob, LeadImportPreview } from '@/types'
+import type { LeadImportRequest } from '@/lib/validations/lead'
+
+const isRunning = (job?: LeadImportJob | null) => job?.status === 'pending' || job?.status === 'processing'
+
+// Bulk lead import: preview a mapped spreadsheet, start the import and follow
+// its progress. Polls while the import runs and refreshes the leads once it ends.
+export function useLeadImport(importId: string | null) {
+  const queryClient = useQueryClient()
+
+  const jobQuery = useQuery({
+    queryKey: ['lead-import', importId],
+    queryFn: async () => await apiRequest<LeadImportJob>(`/api/leads/imports/${importId}`, {}, false),
+    enabled: !!importId,
+    refetchInterval: (query) => isRunning(query.state.data) ? 2 * 1000 : false,
+  })
+
+  // New leads appear in the list as soon as the import finishes
+  const finishedRef = useRef<string | null>(null)
+  useEffect(() => {
+    const job = jobQuery.data
+    if (job && !isRunning(job) && finishedRef.current !== job._id) {
+      finishedRef.current = job._id
+      queryClient.invalidateQueries({ queryKey: ['leads'] })
+    }
+  }, [jobQuery.data, queryClient])
+
+  const previewMutation = useMutation({
+    mutationFn: async (request: LeadImportRequest) =>
+      await apiRequest<LeadImportPreview>('/api/leads/imports/preview', {
+        method: 'POST',
+        body: JSON.stringify(request),
+      }, false),
+  })
+
+  const startMutation = useMutation({
+    mutationFn: async (request: LeadImportRequest) =>
+      await apiRequest<LeadImportJob>('/api/leads/imports', {
+        method: 'POST',
+        body: JSON.stringify(request),
+      }, false),
+  })
+
+  const previewImport = useCallback(async (request: LeadImportRequest) => {
+    try {
+      return await previewMutation.mutateAsync(request)
+    } catch (error) {
+      handleAPIError(error, 'Failed to check the file')
+      throw error
+    }
+  }, [previewMutation])
+
+  const startImport = useCallback(async (request: LeadImportRequest) => {
+    try {
+      const job = await startMutation.mutateAsync(request)
+      if (job) queryClient.setQueryData(['lead-import', job._id], job)
+      return job
+    } catch (error) {
+      handleAPIError(error, 'Failed to start the import')
+      throw error
+    }
+  }, [startMutation, queryClient])
+
+  return {
+    job: jobQuery.data,
+    isRunning: isRunning(jobQuery.data),
+    previewImport,
+    previewing: previewMutation.isPending,
+    startImport,
+    starting: startMutation.isPending,
+    errorReportUrl: importId ? `/api/leads/imports/${importId}/errors` : null,
+  }
+}
@@ -0,0 +1,100 @@
+import { useCallback } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { apiRequest, handleAPIError } from '@/lib/utils/api-client'
+import type { Lead, LeadFilters, LeadPipeline, LeadPipelineStage, ResolvedLeadPipeline } from '@/types'
+
+// Stable fallbacks so consumers' memoized values survive loading renders
+const NO_STAGES: LeadPipelineStage[] = []
+const NO_LEADS: Lead[] = []
+
+// Leads shown on the board; the list endpoint caps a page at 100
+const BOARD_LIMIT = 100
+
+// Pipeline stages for the leads board; the API falls back to the default set
+export function useLeadPipeline() {
+  const queryClient = useQueryClient()
+
+  const pipelineQuery = useQuery({
+    queryKey: ['lead-pipeline'],
+    queryFn: async () => await apiRequest<ResolvedLeadPipeline>('/api/leads/pipeline'),
+    staleTime: 5 * 60 * 1000,
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async (pipeline: LeadPipeline | null) => {
+      return await apiRequest<ResolvedLeadPipeline>('/api/leads/pipeline', {
+        method: 'PUT',
+        body: JSON.stringify({ pipeline }),
+      }, false)
+    },
+  })
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ leadId, stage, note }: { leadId: string; stage: string; note?: string }) => {
+      return await apiRequest<Lead>(`/api/leads/${leadId}/stage`, {
+        method: 'PUT',
+        body: JSON.stringify({ stage, note }),
+      }, false)
+    },
+  })
+
+  const updatePipeline = useCallback(async (pipeline: LeadPipeline | null) => {
+    try {
+      const result = await updateMutation.mutateAsync(pipeline)
+      queryClient.setQueryData(['lead-pipeline'], result)
+      // Leads in removed stages were moved to another column
+      await queryClient.invalidateQueries({ queryKey: ['leads'] })
+      return result
+    } catch (error) {
+      handleAPIError(error, 'Failed to update pipeline')
+      throw error
+    }
+  }, [updateMutation, queryClient])
+
+  const moveLeadStage = useCallback(async (leadId: string, stage: string, note?: string) => {
+    try {
+      const result = await moveMutation.mutateAsync({ leadId, stage, note })
+      await queryClient.invalidateQueries({ queryKey: ['leads'] })
+      return result
+    } catch (error) {
+      handleAPIError(error, 'Failed to move lead')
+      throw error
+    }
+  }, [moveMutation, queryClient])
+
+  return {
+    pipeline: pipelineQuery.data,
+    stages: pipelineQuery.data?.stages || NO_STAGES,
+    isCustom: pipelineQuery.data?.isCustom || false,
+    isLoading: pipelineQuery.isLoading,
+    error: pipelineQuery.error,
+    updatePipeline,
+    updating: updateMutation.isPending,
+    moveLeadStage,
+    moving: moveMutation.isPending,
+  }
+}
+
+// Leads for the pipeline board, with the list page's filters applied
+export function useLeadBoard(filters: LeadFilters, enabled = true) {
+  const boardQuery = useQuery({
+    queryKey: ['leads', 'board', filters],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: String(BOARD_LIMIT), sortBy: 'updatedAt', sortOrder: 'desc' })
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '' && value !== 'all') {
+          params.set(key, String(value))
+        }
+      })
+      return await apiRequest<{ leads: Lead[]; pagination: { total: number } }>(`/api/leads?${params.toString()}`)
+    },
+    enabled,
+  })
+
+  return {
+    leads: boardQuery.data?.leads || NO_LEADS,
+    total: boardQuery.data?.pagination.total || 0,
+    isLoading: boardQuery.isLoading,
+    error: boardQuery.error,
+  }
+}
@@ -0,0 +1,48 @@
+import { useCallback } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { apiRequest, handleAPIError } from '@/lib/utils/api-client'
+import type { LeadScoringConfig, ResolvedLeadScoringConfig } from '@/types'
+
+// Lead scoring rules; the API falls back to the default set
+export function useLeadScoring(enabled = true) {
+  const queryClient = useQueryClient()
+
+  const scoringQuery = useQuery({
+    queryKey: ['lead-scoring'],
+    queryFn: async () => await apiRequest<ResolvedLeadScoringConfig>('/api/leads/scoring'),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async (scoring: LeadScoringConfig | null) => {
+      return await apiRequest<ResolvedLeadScoringConfig>('/api/leads/scoring', {
+        method: 'PUT',
+        body: JSON.stringify({ scoring }),
+      }, false)
+    },
+  })
+
+  const updateScoring = useCallback(async (scoring: LeadScoringConfig | null) => {
+    try {
+      const result = await updateMutation.mutateAsync(scoring)
+      queryClient.setQueryData(['lead-scoring'], result)
+      // Every lead was rescored with the new rules
+      await queryClient.invalidateQueries({ queryKey: ['leads'] })
+      return result
+    } catch (error) {
+      handleAPIError(error, 'Failed to update scoring rules')
+      throw error
+    }
+  }, [updateMutation, queryClient])
+
+  return {
+    scoring: scoringQuery.data,
+    hotThreshold: scoringQuery.data?.hotThreshold,
+    isCustom: scoringQuery.data?.isCustom || false,
+    isLoading: scoringQuery.isLoading,
+    error: scoringQuery.error,
+    updateScoring,
+    updating: updateMutation.isPending,
+  }
+}
@@ -0,0 +1,79 @@
+import { useCallback, useMemo } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { apiRequest, handleAPIError } from '@/lib/utils/api-client'
+import { toast } from '@/hooks/use-toast'
+import type { IMessageReminder } from '@/types/communication'
+
+const NO_REMINDERS: IMessageReminder[] = []
+
+// The current user's "remind me about this" reminders across all channels
+export function useMessageReminders(enabled = true) {
+  const queryClient = useQueryClient()
+
+  const remindersQuery = useQuery({
+    queryKey: ['message-reminders'],
+    queryFn: async () => await apiRequest<IMessageReminder[]>('/api/communication/reminders', {}, false),
+    enabled,
+    staleTime: 60 * 1000,
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { message_id: string; remind_at: string }) =>
+      await apiRequest<IMessageReminder>('/api/communication/reminders', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }, false),
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) =>
+      await apiRequest<{ id: string }>(`/api/communication/reminders/${id}`, {
+        method: 'DELETE',
+      }, false),
+  })
+
+  const setReminder = useCallback(async (messageId: string, remindAt: Date) => {
+    try {
+      const result = await createMutation.mutateAsync({ message_id: messageId, remind_at: remindAt.toISOString() })
+      toast({
+        title: 'Reminder set',
+        description: `We'll remind you ${remindAt.toLocaleString()}`,
+      })
+      await queryClient.invalidateQueries({ queryKey: ['message-reminders'] })
+      return result
+    } catch (error) {
+      handleAPIError(error, 'Failed to set reminder')
+      throw error
+    }
+  }, [createMutation, queryClient])
+
+  const removeReminder = useCallback(async (id: string) => {
+    try {
+      await removeMutation.mutateAsync(id)
+      queryClient.setQueryData<IMessageReminder[] | null>(['message-reminders'], current =>
+        current?.filter(reminder => reminder.id !== id) ?? current
+      )
+    } catch (error) {
+      handleAPIError(error, 'Failed to remove reminder')
+      throw error
+    }
+  }, [removeMutation, queryClient])
+
+  const reminders = remindersQuery.data || NO_REMINDERS
+  const { upcoming, completed } = useMemo(() => ({
+    upcoming: reminders.filter(reminder => reminder.status !== 'sent'),
+    completed: reminders.filter(reminder => reminder.status === 'sent'),
+  }), [reminders])
+
+  return {
+    reminders,
+    upcoming,
+    completed,
+    isLoading: remindersQuery.isLoading,
+    error: remindersQuery.error,
+    refetch: remindersQuery.refetch,
+    setReminder,
+    removeReminder,
+    settingReminder: createMutation.isPending,
+  }
+}
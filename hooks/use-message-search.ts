@@ -0,0 +1,49 @@
+import { useMemo } from 'react'
+import { useInfiniteQuery } from '@tanstack/react-query'
+import { apiRequest } from '@/lib/utils/api-client'
+import type { MessageSearchFilters, MessageSearchResponse } from '@/types/communication'
+
+const PAGE_SIZE = 20
+
+const toSearchParams = (filters: MessageSearchFilters, offset: number) => {
+  const params = new URLSearchParams({ q: filters.q.trim(), limit: String(PAGE_SIZE), offset: String(offset) })
+  if (filters.sender_id) params.set('sender_id', filters.sender_id)
+  if (filters.channel_type) params.set('channel_type', filters.channel_type)
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+  if (filters.has_attachment) params.set('has_attachment', 'true')
+  if (filters.mentions_me) params.set('mentions_me', 'true')
+  return params.toString()
+}
+
+// Full-text message search across every channel the current user belongs to
+export function useMessageSearch(filters: MessageSearchFilters, enabled = true) {
+  const searchQuery = useInfiniteQuery({
+    queryKey: ['message-search', filters],
+    queryFn: async ({ pageParam }) =>
+      await apiRequest<MessageSearchResponse>(
+        `/api/communication/messages/search?${toSearchParams(filters, pageParam)}`,
+        {},
+        false
+      ),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage?.hasMore ? lastPage.offset + lastPage.results.length : undefined,
+    enabled: enabled && filters.q.trim().length > 0,
+    staleTime: 30 * 1000,
+  })
+
+  const results = useMemo(
+    () => searchQuery.data?.pages.flatMap(page => page?.results || []) || [],
+    [searchQuery.data]
+  )
+
+  return {
+    results,
+    total: searchQuery.data?.pages[0]?.total || 0,
+    hasMore: !!searchQuery.hasNextPage,
+    loadMore: searchQuery.fetchNextPage,
+    isLoading: searchQuery.isLoading,
+    isLoadingMore: searchQuery.isFetchingNextPage,
+    error: searchQuery.error,
+  }
+}
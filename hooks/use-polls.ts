@@ -0,0 +1,84 @@
+import { useCallback } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { useAppDispatch } from './redux'
+import { apiRequest, handleAPIError } from '@/lib/utils/api-client'
+import { addMessage, updateMessagePoll } from '@/store/slices/communicationSlice'
+import type { CreatePollInput, ICommunication, IPollSummary } from '@/types/communication'
+
+// Create, vote on and close polls. Results land in the message list through Redux.
+export function usePolls() {
+  const dispatch = useAppDispatch()
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreatePollInput) =>
+      await apiRequest<ICommunication>('/api/communication/polls', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }, false),
+  })
+
+  const voteMutation = useMutation({
+    mutationFn: async ({ pollId, optionIds }: { pollId: string; optionIds: string[] }) =>
+      await apiRequest<IPollSummary>(`/api/communication/polls/${pollId}/vote`, {
+        method: 'POST',
+        body: JSON.stringify({ option_ids: optionIds }),
+      }, false),
+  })
+
+  const closeMutation = useMutation({
+    mutationFn: async (pollId: string) =>
+      await apiRequest<IPollSummary>(`/api/communication/polls/${pollId}`, {
+        method: 'PATCH',
+      }, false),
+  })
+
+  const applyPoll = useCallback((poll: IPollSummary | null) => {
+    if (!poll) return
+    dispatch(updateMessagePoll({ channelId: poll.channel_id, messageId: poll.message_id, poll }))
+  }, [dispatch])
+
+  const createPoll = useCallback(async (data: CreatePollInput) => {
+    try {
+      const message = await createMutation.mutateAsync(data)
+      if (message) {
+        dispatch(addMessage({ channelId: data.channel_id, message }))
+      }
+      return message
+    } catch (error) {
+      handleAPIError(error, 'Failed to create poll')
+      throw error
+    }
+  }, [createMutation, dispatch])
+
+  const votePoll = useCallback(async (pollId: string, optionIds: string[]) => {
+    try {
+      const poll = await voteMutation.mutateAsync({ pollId, optionIds })
+      applyPoll(poll)
+      return poll
+    } catch (error) {
+      // A 409 means the poll closed in the meantime
+      handleAPIError(error)
+      throw error
+    }
+  }, [voteMutation, applyPoll])
+
+  const closePoll = useCallback(async (pollId: string) => {
+    try {
+      const poll = await closeMutation.mutateAsync(pollId)
+      applyPoll(poll)
+      return poll
+    } catch (error) {
+      handleAPIError(error)
+      throw error
+    }
+  }, [closeMutation, applyPoll])
+
+  return {
+    createPoll,
+    votePoll,
+    closePoll,
+    creating: createMutation.isPending,
+    voting: voteMutation.isPending,
+    closing: closeMutation.isPending,
+  }
+}
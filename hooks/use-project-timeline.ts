@@ -0,0 +1,86 @@
+import { useCallback } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { apiRequest, handleAPIError } from '@/lib/utils/api-client'
+import { refreshAnalytics } from '@/lib/utils/analytics-refresh'
+import type { ProjectTimeline, ProjectSchedule } from '@/types'
+
+export type TimelineItemKind = 'phase' | 'milestone' | 'task'
+
+export interface TimelineReschedule {
+  kind: TimelineItemKind
+  id: string
+  start?: string
+  end: string
+}
+
+// Each item kind is saved through its own PUT route with its own date fields
+const toUpdateRequest = ({ kind, id, start, end }: TimelineReschedule) => {
+  switch (kind) {
+    case 'phase':
+      return { url: `/api/phases/${id}`, body: { startDate: start, endDate: end } }
+    case 'milestone':
+      return { url: `/api/milestones/${id}`, body: { dueDate: end } }
+    case 'task':
+      return { url: `/api/tasks/${id}`, body: start ? { startDate: start, dueDate: end } : { dueDate: end } }
+  }
+}
+
+export function useProjectTimeline(projectId: string) {
+  const queryClient = useQueryClient()
+
+  const timelineQuery = useQuery({
+    queryKey: ['project-timeline', projectId],
+    queryFn: async () => await apiRequest<ProjectTimeline>(`/api/projects/${projectId}/timeline`),
+    enabled: !!projectId,
+    staleTime: 30 * 1000,
+  })
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async (change: TimelineReschedule) => {
+      const { url, body } = toUpdateRequest(change)
+      return await apiRequest(url, { method: 'PUT', body: JSON.stringify(body) }, false)
+    },
+  })
+
+  const reschedule = useCallback(async (change: TimelineReschedule) => {
+    try {
+      const result = await rescheduleMutation.mutateAsync(change)
+      await queryClient.invalidateQueries({ queryKey: ['project-timeline', projectId] })
+      await queryClient.invalidateQueries({ queryKey: ['project-schedule', projectId] })
+      await queryClient.invalidateQueries({ queryKey: [`${change.kind}s`] })
+      refreshAnalytics({ projectId, queryClient })
+      return result
+    } catch (error) {
+      handleAPIError(error, 'Failed to reschedule')
+      // Snap the bar back to its saved dates
+      await queryClient.invalidateQueries({ queryKey: ['project-timeline', projectId] })
+      throw error
+    }
+  }, [rescheduleMutation, queryClient, projectId])
+
+  return {
+    timeline: timelineQuery.data,
+    isLoading: timelineQuery.isLoading,
+    error: timelineQuery.error,
+    refetch: timelineQuery.refetch,
+    reschedule,
+    rescheduling: rescheduleMutation.isPending,
+  }
+}
+
+// Critical path, float and project end slip for a project
+export function useProjectSchedule(projectId: string) {
+  const scheduleQuery = useQuery({
+    queryKey: ['project-schedule', projectId],
+    queryFn: async () => await apiRequest<ProjectSchedule>(`/api/projects/${projectId}/schedule`),
+    enabled: !!projectId,
+    staleTime: 60 * 1000,
+  })
+
+  return {
+    schedule: scheduleQuery.data,
+    isLoading: scheduleQuery.isLoading,
+    error: scheduleQuery.error,
+    refetch: scheduleQuery.refetch,
+  }
+}
@@ -0,0 +1,51 @@
+import { useCallback } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { apiRequest, handleAPIError } from '@/lib/utils/api-client'
+import type { ProjectWorkflow, ResolvedProjectWorkflow, WorkflowStatus } from '@/types'
+
+// Stable fallback so consumers' memoized values survive loading renders
+const NO_STATUSES: WorkflowStatus[] = []
+
+// Task statuses for a project; the API falls back to the default set
+export function useProjectWorkflow(projectId: string) {
+  const queryClient = useQueryClient()
+
+  const workflowQuery = useQuery({
+    queryKey: ['project-workflow', projectId],
+    queryFn: async () => await apiRequest<ResolvedProjectWorkflow>(`/api/projects/${projectId}/workflow`),
+    enabled: !!projectId,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async (workflow: ProjectWorkflow | null) => {
+      return await apiRequest<ResolvedProjectWorkflow>(`/api/projects/${projectId}/workflow`, {
+        method: 'PUT',
+        body: JSON.stringify({ workflow }),
+      }, false)
+    },
+  })
+
+  const updateWorkflow = useCallback(async (workflow: ProjectWorkflow | null) => {
+    try {
+      const result = await updateMutation.mutateAsync(workflow)
+      queryClient.setQueryData(['project-workflow', projectId], result)
+      // Tasks in removed statuses were moved to another column
+      await queryClient.invalidateQueries({ queryKey: ['tasks'] })
+      return result
+    } catch (error) {
+      handleAPIError(error, 'Failed to update workflow')
+      throw error
+    }
+  }, [updateMutation, queryClient, projectId])
+
+  return {
+    workflow: workflowQuery.data,
+    statuses: workflowQuery.data?.statuses || NO_STATUSES,
+    isCustom: workflowQuery.data?.isCustom || false,
+    isLoading: workflowQuery.isLoading,
+    error: workflowQuery.error,
+    updateWorkflow,
+    updating: updateMutation.isPending,
+  }
+}
@@ -0,0 +1,105 @@
+import { useCallback } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { apiRequest, handleAPIError } from '@/lib/utils/api-client'
+import { toast } from '@/hooks/use-toast'
+import type {
+  CreateScheduledMessageInput,
+  IScheduledMessage,
+  UpdateScheduledMessageInput,
+} from '@/types/communication'
+
+const NO_MESSAGES: IScheduledMessage[] = []
+
+// The current user's pending "send later" messages for a channel
+export function useScheduledMessages(channelId: string | null | undefined) {
+  const queryClient = useQueryClient()
+  const scheduledQuery = useQuery({
+    queryKey: ['scheduled-messages', channelId],
+    queryFn: async () =>
+      await apiRequest<IScheduledMessage[]>(`/api/communication/scheduled-messages?channel_id=${channelId}`, {}, false),
+    enabled: !!channelId,
+    staleTime: 60 * 1000,
+    // Sent messages drop out of the list once the dispatcher has run
+    refetchInterval: 60 * 1000,
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateScheduledMessageInput) =>
+      await apiRequest<IScheduledMessage>('/api/communication/scheduled-messages', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }, false),
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateScheduledMessageInput }) =>
+      await apiRequest<IScheduledMessage>(`/api/communication/scheduled-messages/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      }, false),
+  })
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) =>
+      await apiRequest<{ id: string }>(`/api/communication/scheduled-messages/${id}`, {
+        method: 'DELETE',
+      }, false),
+  })
+
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: ['scheduled-messages', channelId] }),
+    [queryClient, channelId]
+  )
+
+  const scheduleMessage = useCallback(async (data: Omit<CreateScheduledMessageInput, 'channel_id'>) => {
+    if (!channelId) return null
+    try {
+      const result = await createMutation.mutateAsync({ ...data, channel_id: channelId })
+      toast({
+        title: 'Message scheduled',
+        description: `It will be sent ${new Date(data.send_at).toLocaleString()}`,
+      })
+      await refresh()
+      return result
+    } catch (error) {
+      handleAPIError(error, 'Failed to schedule message')
+      throw error
+    }
+  }, [createMutation, channelId, refresh])
+
+  const updateScheduledMessage = useCallback(async (id: string, data: UpdateScheduledMessageInput) => {
+    try {
+      const result = await updateMutation.mutateAsync({ id, data })
+      await refresh()
+      return result
+    } catch (error) {
+      // A 409 means the dispatcher already picked it up
+      handleAPIError(error)
+      await refresh()
+      throw error
+    }
+  }, [updateMutation, refresh])
+
+  const cancelScheduledMessage = useCallback(async (id: string) => {
+    try {
+      await cancelMutation.mutateAsync(id)
+      await refresh()
+    } catch (error) {
+      handleAPIError(error)
+      await refresh()
+      throw error
+    }
+  }, [cancelMutation, refresh])
+
+  return {
+    scheduledMessages: scheduledQuery.data || NO_MESSAGES,
+    isLoading: scheduledQuery.isLoading,
+    error: scheduledQuery.error,
+    scheduleMessage,
+    updateScheduledMessage,
+    cancelScheduledMessage,
+    scheduling: createMutation.isPending,
+    updating: updateMutation.isPending,
+    cancelling: cancelMutation.isPending,
+  }
+}
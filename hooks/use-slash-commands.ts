@@ -0,0 +1,77 @@
+import { useCallback } from 'react'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { useAppDispatch } from './redux'
+import { apiRequest, handleAPIError } from '@/lib/utils/api-client'
+import { addEphemeralMessage, addMessage, dismissEphemeralMessage } from '@/store/slices/communicationSlice'
+import type { ICommunication, ISlashCommand } from '@/types/communication'
+
+const NO_COMMANDS: ISlashCommand[] = []
+
+interface SlashCommandResponse {
+  ephemeral: ICommunication
+  message: ICommunication | null
+}
+
+// Name of the command at the start of the text, e.g. "task" for "/task Fix login"
+export const getSlashCommandName = (text: string) => text.trim().match(/^\/([a-zA-Z][\w-]*)(?=\s|$)/)?.[1].toLowerCase() ?? null
+
+// Slash commands for the message box. Replies land in the message list as ephemeral messages.
+export function useSlashCommands(enabled = true) {
+  const dispatch = useAppDispatch()
+
+  const commandsQuery = useQuery({
+    queryKey: ['slash-commands'],
+    queryFn: async () => await apiRequest<ISlashCommand[]>('/api/communication/commands', {}, false),
+    enabled,
+    staleTime: 30 * 60 * 1000,
+  })
+
+  const runMutation = useMutation({
+    mutationFn: async (data: { channel_id: string; text: string; parent_message_id?: string }) =>
+      await apiRequest<SlashCommandResponse>('/api/communication/commands', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }, false),
+  })
+
+  const commands = commandsQuery.data || NO_COMMANDS
+
+  // Unknown "/words" are sent as normal messages
+  const isSlashCommand = useCallback((text: string) => {
+    const name = getSlashCommandName(text)
+    return !!name && commands.some(command => command.name === name)
+  }, [commands])
+
+  const runCommand = useCallback(async (channelId: string, text: string, parentMessageId?: string) => {
+    try {
+      const result = await runMutation.mutateAsync({
+        channel_id: channelId,
+        text: text.trim(),
+        parent_message_id: parentMessageId,
+      })
+      if (result?.message) {
+        dispatch(addMessage({ channelId, message: result.message }))
+      }
+      if (result?.ephemeral) {
+        dispatch(addEphemeralMessage({ channelId, message: result.ephemeral }))
+      }
+      return result
+    } catch (error) {
+      handleAPIError(error, 'Failed to run command')
+      throw error
+    }
+  }, [runMutation, dispatch])
+
+  const dismissEphemeral = useCallback((channelId: string, messageId: string) => {
+    dispatch(dismissEphemeralMessage({ channelId, messageId }))
+  }, [dispatch])
+
+  return {
+    commands,
+    isLoading: commandsQuery.isLoading,
+    isSlashCommand,
+    runCommand,
+    running: runMutation.isPending,
+    dismissEphemeral,
+  }
+}
@@ -0,0 +1,29 @@
+import { useEffect } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { apiRequest, handleAPIError } from '@/lib/utils/api-client'
+import type { ITaskDraftFromMessage } from '@/types/communication'
+
+// Pre-filled task for "Create task from message"; fetched while messageId is set
+export function useTaskDraftFromMessage(messageId: string | null) {
+  const draftQuery = useQuery({
+    queryKey: ['task-draft', messageId],
+    queryFn: async () => await apiRequest<ITaskDraftFromMessage>(
+      `/api/communication/messages/${messageId}/task-draft`, {}, false
+    ),
+    enabled: !!messageId,
+    staleTime: 0,
+    retry: false,
+  })
+
+  useEffect(() => {
+    if (draftQuery.error) {
+      handleAPIError(draftQuery.error)
+    }
+  }, [draftQuery.error])
+
+  return {
+    draft: draftQuery.data ?? null,
+    isLoading: draftQuery.isLoading,
+    error: draftQuery.error,
+  }
+}
@@ -697,7 +697,7 @@ export function useTasks() {
   }, [taskOptions.baseUrl, dispatch])
 
   // Enhanced bulk order update with cross-column support (no visual glitches)
-  const handleBulkOrderUpdate = useCallback(async (updates: Array<{ id: string, order: number, status?: string }>) => {
+  const handleBulkOrderUpdate = useCallback(async (updates: Array<{ id: string, order: number, status?: string, workflowStatus?: string }>) => {
     if (!updates || updates.length === 0) return
 
     // Store original state for potential rollback
@@ -709,12 +709,16 @@ export function useTasks() {
       const statusMap = new Map(
         updates.filter(({ status }) => status).map(({ id, status }) => [id, status])
       )
+      const workflowStatusMap = new Map(
+        updates.filter(({ workflowStatus }) => workflowStatus).map(({ id, workflowStatus }) => [id, workflowStatus])
+      )
       
       // Create optimistic task list with BOTH order and status changes
       const optimisticTasks = tasks.map((task: any) => {
         const taskId = String(task._id)
         const newOrder = orderMap.get(taskId)
         const newStatus = statusMap.get(taskId)
+        const newWorkflowStatus = workflowStatusMap.get(taskId)
         
         if (newOrder !== undefined || newStatus !== undefined) {
           const updatedTask = { 
@@ -729,6 +733,11 @@ export function useTasks() {
             updatedTask.order = newOrder
           }
           
+          // Workflow column the task moved to, when the project uses custom statuses
+          if (newWorkflowStatus !== undefined) {
+            updatedTask.workflowStatus = newWorkflowStatus
+          }
+          
           // Apply status change if provided (for cross-column moves)
           if (newStatus !== undefined) {
             updatedTask.status = newStatus
@@ -776,6 +785,7 @@ export function useTasks() {
               const taskId = String(task._id)
               const newOrder = orderMap.get(taskId)
               const newStatus = statusMap.get(taskId)
+              const newWorkflowStatus = workflowStatusMap.get(taskId)
               
               if (newOrder !== undefined || newStatus !== undefined) {
                 const updatedTask = { 
@@ -786,6 +796,7 @@ export function useTasks() {
                 }
                 
                 if (newOrder !== undefined) updatedTask.order = newOrder
+                if (newWorkflowStatus !== undefined) updatedTask.workflowStatus = newWorkflowStatus
                 if (newStatus !== undefined) {
                   updatedTask.status = newStatus
                   if (newStatus === 'completed' && !task.completedAt) {
@@ -819,6 +830,7 @@ export function useTasks() {
               const taskId = String(task._id)
               const newOrder = orderMap.get(taskId)
               const newStatus = statusMap.get(taskId)
+              const newWorkflowStatus = workflowStatusMap.get(taskId)
               
               if (newOrder !== undefined || newStatus !== undefined) {
                 const updatedTask = { 
@@ -829,6 +841,7 @@ export function useTasks() {
                 }
                 
                 if (newOrder !== undefined) updatedTask.order = newOrder
+                if (newWorkflowStatus !== undefined) updatedTask.workflowStatus = newWorkflowStatus
                 if (newStatus !== undefined) {
                   updatedTask.status = newStatus
                   if (newStatus === 'completed' && !task.completedAt) {
@@ -867,7 +880,8 @@ export function useTasks() {
         updates: updates.map(update => ({
           id: update.id,
           order: update.order,
-          ...(update.status && { status: update.status })
+          ...(update.status && { status: update.status }),
+          ...(update.workflowStatus && { workflowStatus: update.workflowStatus })
         }))
       }
 
@@ -880,11 +894,13 @@ export function useTasks() {
       const serverData = response?.data || response
       
       if (serverData && Array.isArray(serverData)) {
-        // Clean server data and unlock updates
-        const cleanServerData = serverData.map((task: any) => {
+        // The response only carries the moved fields; merge them into the full tasks and unlock updates
+        const serverById = new Map(serverData.map((task: any) => [String(task._id), task]))
+        const mergeServerTask = (task: any) => {
           const { _optimistic, _lockUpdate, ...cleanTask } = task
-          return cleanTask
-        }).sort((a: any, b: any) => {
+          return { ...cleanTask, ...(serverById.get(String(task._id)) || {}) }
+        }
+        const cleanServerData = sortedOptimisticTasks.map(mergeServerTask).sort((a: any, b: any) => {
           // Maintain proper sorting by status then order
           if (a.status !== b.status) {
             const statusOrder = { 'pending': 0, 'in-progress': 1, 'completed': 2, 'on-hold': 3 }
@@ -906,11 +922,11 @@ export function useTasks() {
             if (!oldData) return oldData
             
             if (Array.isArray(oldData)) {
-              return cleanServerData
+              return oldData.map(mergeServerTask)
             }
             
             if (oldData.data && Array.isArray(oldData.data)) {
-              return { ...oldData, data: cleanServerData }
+              return { ...oldData, data: oldData.data.map(mergeServerTask) }
             }
             
             return oldData
@@ -0,0 +1,122 @@
+import { useCallback, useMemo } from 'react'
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient, type InfiniteData } from '@tanstack/react-query'
+import { apiRequest, handleAPIError } from '@/lib/utils/api-client'
+import type { IFollowedThread, IThreadPage } from '@/types/communication'
+
+const PAGE_SIZE = 30
+const NO_THREADS: IFollowedThread[] = []
+
+// Follow / unfollow a thread and keep the open thread and the inbox in step
+function useThreadFollowing() {
+  const queryClient = useQueryClient()
+
+  const followMutation = useMutation({
+    mutationFn: async ({ messageId, follow }: { messageId: string; follow: boolean }) =>
+      await apiRequest<{ message_id: string; is_following: boolean }>(`/api/communication/threads/${messageId}/follow`, {
+        method: follow ? 'POST' : 'DELETE',
+      }, false),
+  })
+
+  const setFollowing = useCallback(async (messageId: string, follow: boolean) => {
+    try {
+      await followMutation.mutateAsync({ messageId, follow })
+      queryClient.setQueryData<InfiniteData<IThreadPage | null>>(['thread', messageId], current =>
+        current && {
+          ...current,
+          pages: current.pages.map(page => page && { ...page, is_following: follow }),
+        }
+      )
+      await queryClient.invalidateQueries({ queryKey: ['threads'] })
+    } catch (error) {
+      handleAPIError(error, follow ? 'Failed to follow thread' : 'Failed to unfollow thread')
+      throw error
+    }
+  }, [followMutation, queryClient])
+
+  return { setFollowing, updatingFollow: followMutation.isPending }
+}
+
+// A thread's root message and its replies, loaded newest page first
+export function useThread(rootMessageId: string | null | undefined) {
+  const queryClient = useQueryClient()
+  const { setFollowing, updatingFollow } = useThreadFollowing()
+
+  const threadQuery = useInfiniteQuery({
+    queryKey: ['thread', rootMessageId],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) })
+      if (pageParam) params.set('before', pageParam)
+      return await apiRequest<IThreadPage>(`/api/communication/threads/${rootMessageId}?${params}`, {}, false)
+    },
+    initialPageParam: undefined as string | undefined,
+    // Older pages are requested with the oldest reply we have as the cursor
+    getNextPageParam: (lastPage) => lastPage?.hasMore ? lastPage.replies[0]?.created_at : undefined,
+    enabled: !!rootMessageId,
+    staleTime: 30 * 1000,
+  })
+
+  const replies = useMemo(
+    () => (threadQuery.data?.pages || []).slice().reverse().flatMap(page => page?.replies || []),
+    [threadQuery.data]
+  )
+
+  const markReadMutation = useMutation({
+    mutationFn: async (messageId: string) =>
+      await apiRequest<{ count: number }>(`/api/communication/threads/${messageId}/read`, {
+        method: 'POST',
+      }, false),
+  })
+
+  const markRead = useCallback(async () => {
+    if (!rootMessageId) return
+    try {
+      const result = await markReadMutation.mutateAsync(rootMessageId)
+      if (result?.count) {
+        await queryClient.invalidateQueries({ queryKey: ['threads'] })
+      }
+    } catch {
+      // Read state is best effort; the inbox catches up on the next refresh
+    }
+  }, [markReadMutation, rootMessageId, queryClient])
+
+  const firstPage = threadQuery.data?.pages[0]
+
+  return {
+    root: firstPage?.root || null,
+    replies,
+    isFollowing: !!firstPage?.is_following,
+    hasMore: !!threadQuery.hasNextPage,
+    loadMore: threadQuery.fetchNextPage,
+    isLoading: threadQuery.isLoading,
+    isLoadingMore: threadQuery.isFetchingNextPage,
+    error: threadQuery.error,
+    follow: () => rootMessageId ? setFollowing(rootMessageId, true) : Promise.resolve(),
+    unfollow: () => rootMessageId ? setFollowing(rootMessageId, false) : Promise.resolve(),
+    updatingFollow,
+    markRead,
+  }
+}
+
+// The "Threads" inbox: followed threads with unread reply counts
+export function useFollowedThreads(enabled = true) {
+  const { setFollowing, updatingFollow } = useThreadFollowing()
+
+  const threadsQuery = useQuery({
+    queryKey: ['threads'],
+    queryFn: async () => await apiRequest<IFollowedThread[]>('/api/communication/threads', {}, false),
+    enabled,
+    staleTime: 60 * 1000,
+  })
+
+  const threads = threadsQuery.data || NO_THREADS
+  const unreadThreadCount = useMemo(() => threads.filter(thread => thread.unread_count > 0).length, [threads])
+
+  return {
+    threads,
+    unreadThreadCount,
+    isLoading: threadsQuery.isLoading,
+    error: threadsQuery.error,
+    unfollow: (messageId: string) => setFollowing(messageId, false),
+    updatingFollow,
+  }
+}
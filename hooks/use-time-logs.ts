@@ -0,0 +1,293 @@
+import { useCallback, useEffect, useMemo } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  useGenericQuery,
+  useGenericCreate,
+  useGenericUpdate,
+  useGenericDelete,
+  type UseGenericQueryOptions,
+} from './use-generic-query'
+import { apiRequest, handleAPIError } from '@/lib/utils/api-client'
+import { refreshAnalytics } from '@/lib/utils/analytics-refresh'
+import { getRealtimeManager } from '@/lib/realtime-manager'
+import type { TimeLog, ActiveTimer } from '@/types'
+
+export interface TimeLogFilters {
+  taskId?: string
+  projectId?: string
+  userId?: string
+  dateFrom?: string
+  dateTo?: string
+  isApproved?: boolean
+}
+
+export interface CreateTimeLogPayload {
+  taskId: string
+  projectId: string
+  description: string
+  hours: number
+  date: string
+  startTime?: string
+  endTime?: string
+  logType?: 'manual' | 'timer'
+}
+
+export interface UpdateTimeLogPayload {
+  description?: string
+  hours?: number
+  date?: string
+  startTime?: string
+  endTime?: string
+}
+
+export interface StartTimerPayload {
+  taskId: string
+  projectId: string
+  description?: string
+  stopExisting?: boolean
+}
+
+const ACTIVE_TIMER_QUERY_KEY = ['time-logs', 'active-timer']
+const TIMER_HEARTBEAT_INTERVAL = 5 * 60 * 1000
+
+// Elapsed time of a server-held timer, including the currently running stretch
+export function getTimerElapsedMs(timer: ActiveTimer | null | undefined, now: number = Date.now()) {
+  if (!timer) return 0
+  const runningMs = timer.status === 'running' && timer.lastResumedAt
+    ? Math.max(0, now - new Date(timer.lastResumedAt).getTime())
+    : 0
+  return (timer.accumulatedMs || 0) + runningMs
+}
+
+export function useTimeLogs() {
+  const queryClient = useQueryClient()
+
+  // Time logs are task-scoped and short lived, so TanStack Query owns the state
+  const timeLogOptions: UseGenericQueryOptions<TimeLog> = {
+    entityName: 'time-logs',
+    baseUrl: '/api/time-logs',
+  }
+
+  // Fetch time logs for a task (or any other filter combination)
+  const useTimeLogList = (filters: TimeLogFilters, enabled: boolean = true) => {
+    const queryParams = useMemo(() => ({
+      page: 1,
+      limit: 100,
+      filters: {
+        taskId: filters.taskId || undefined,
+        projectId: filters.projectId || undefined,
+        userId: filters.userId || undefined,
+        dateFrom: filters.dateFrom || undefined,
+        dateTo: filters.dateTo || undefined,
+        isApproved: filters.isApproved,
+      },
+      sort: { field: 'date', direction: 'desc' as const },
+    }), [filters.taskId, filters.projectId, filters.userId, filters.dateFrom, filters.dateTo, filters.isApproved])
+
+    return useGenericQuery(timeLogOptions, queryParams, enabled, { staleTime: 30 * 1000 })
+  }
+
+  const useTaskTimeLogs = (taskId: string, projectId?: string) => {
+    return useTimeLogList({ taskId, projectId }, !!taskId)
+  }
+
+  const createMutation = useGenericCreate(timeLogOptions)
+  const updateMutation = useGenericUpdate(timeLogOptions)
+  const deleteMutation = useGenericDelete(timeLogOptions)
+
+  // Logged hours are rolled up into the task and project on the server
+  const invalidateRollups = useCallback(async (taskId?: string, projectId?: string) => {
+    await queryClient.invalidateQueries({ queryKey: ['time-logs'] })
+    if (taskId) {
+      await queryClient.invalidateQueries({ queryKey: ['tasks', String(taskId)] })
+    }
+    if (projectId) {
+      await queryClient.invalidateQueries({ queryKey: ['projects', String(projectId)] })
+      refreshAnalytics({ projectId, queryClient })
+    }
+  }, [queryClient])
+
+  const createTimeLog = useCallback(async (data: CreateTimeLogPayload) => {
+    try {
+      const result: any = await createMutation.mutateAsync(data)
+      await invalidateRollups(data.taskId, data.projectId)
+      return result
+    } catch (error) {
+      handleAPIError(error, 'Failed to log time')
+      throw error
+    }
+  }, [createMutation, invalidateRollups])
+
+  const updateTimeLog = useCallback(async (id: string, data: UpdateTimeLogPayload, context?: { taskId?: string, projectId?: string }) => {
+    try {
+      const result: any = await updateMutation.mutateAsync({ id, data })
+      await invalidateRollups(result?.taskId?.toString() || context?.taskId, result?.projectId?.toString() || context?.projectId)
+      return result
+    } catch (error) {
+      handleAPIError(error, 'Failed to update time log')
+      throw error
+    }
+  }, [updateMutation, invalidateRollups])
+
+  const deleteTimeLog = useCallback(async (id: string, context?: { taskId?: string, projectId?: string }) => {
+    try {
+      await deleteMutation.mutateAsync(id)
+      await invalidateRollups(context?.taskId, context?.projectId)
+    } catch (error) {
+      handleAPIError(error, 'Failed to delete time log')
+      throw error
+    }
+  }, [deleteMutation, invalidateRollups])
+
+  return {
+    // Hooks
+    useTimeLogList,
+    useTaskTimeLogs,
+
+    // Actions
+    createTimeLog,
+    updateTimeLog,
+    deleteTimeLog,
+
+    // Mutation states
+    creating: createMutation.isPending,
+    updating: updateMutation.isPending,
+    deleting: deleteMutation.isPending,
+  }
+}
+
+// The caller's server-held timer, kept in sync across tabs and devices
+export function useActiveTimer(enabled: boolean = true) {
+  const queryClient = useQueryClient()
+
+  const timerQuery = useQuery({
+    queryKey: ACTIVE_TIMER_QUERY_KEY,
+    queryFn: async () => await apiRequest<ActiveTimer | null>('/api/time-logs/timer', {}, false),
+    enabled,
+    staleTime: 30 * 1000,
+    refetchOnWindowFocus: true,
+  })
+
+  const timer = timerQuery.data || null
+
+  const invalidateRollups = useCallback(async (taskId?: string, projectId?: string) => {
+    await queryClient.invalidateQueries({ queryKey: ['time-logs'] })
+    if (taskId) {
+      await queryClient.invalidateQueries({ queryKey: ['tasks', String(taskId)] })
+    }
+    if (projectId) {
+      await queryClient.invalidateQueries({ queryKey: ['projects', String(projectId)] })
+      refreshAnalytics({ projectId, queryClient })
+    }
+  }, [queryClient])
+
+  // Other sessions push timer changes over the user's notification channel
+  useEffect(() => {
+    if (!enabled) return
+
+    getRealtimeManager().updateHandlers({
+      onTimerUpdate: (data) => {
+        const previous = queryClient.getQueryData<ActiveTimer | null>(ACTIVE_TIMER_QUERY_KEY)
+        queryClient.setQueryData(ACTIVE_TIMER_QUERY_KEY, data.timer || null)
+
+        if (data.timeLogId && previous) {
+          invalidateRollups(previous.taskId, previous.projectId)
+        }
+      }
+    })
+
+    return () => {
+      getRealtimeManager().updateHandlers({ onTimerUpdate: undefined })
+    }
+  }, [enabled, queryClient, invalidateRollups])
+
+  // Keep a running timer from being auto-stopped while this tab is in use
+  useEffect(() => {
+    if (!enabled || timer?.status !== 'running') return
+
+    const interval = setInterval(() => {
+      if (document.visibilityState !== 'visible') return
+      apiRequest('/api/time-logs/timer/heartbeat', { method: 'POST' }, false).catch(() => {
+        // Next heartbeat or timer fetch will recover
+      })
+    }, TIMER_HEARTBEAT_INTERVAL)
+
+    return () => clearInterval(interval)
+  }, [enabled, timer?.status])
+
+  const startMutation = useMutation({
+    mutationFn: async (data: StartTimerPayload) => await apiRequest<ActiveTimer>('/api/time-logs/timer/start', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }, false),
+    onSuccess: (data) => {
+      queryClient.setQueryData(ACTIVE_TIMER_QUERY_KEY, data)
+    },
+  })
+
+  const pauseMutation = useMutation({
+    mutationFn: async () => await apiRequest<ActiveTimer>('/api/time-logs/timer/pause', { method: 'POST' }, false),
+    onSuccess: (data) => {
+      queryClient.setQueryData(ACTIVE_TIMER_QUERY_KEY, data)
+    },
+  })
+
+  const stopMutation = useMutation({
+    mutationFn: async (description?: string) => await apiRequest<TimeLog | null>('/api/time-logs/timer/stop', {
+      method: 'POST',
+      body: JSON.stringify(description ? { description } : {}),
+    }, false),
+  })
+
+  // Rejects with `code: 'TIMER_CONFLICT'` when a timer is running on another task
+  const startTimer = useCallback(async (data: StartTimerPayload) => {
+    try {
+      return await startMutation.mutateAsync(data)
+    } catch (error: any) {
+      if (error?.code !== 'TIMER_CONFLICT') {
+        handleAPIError(error, 'Failed to start timer')
+      }
+      throw error
+    }
+  }, [startMutation])
+
+  const pauseTimer = useCallback(async () => {
+    try {
+      return await pauseMutation.mutateAsync()
+    } catch (error) {
+      handleAPIError(error, 'Failed to pause timer')
+      await timerQuery.refetch()
+      throw error
+    }
+  }, [pauseMutation, timerQuery])
+
+  const stopTimer = useCallback(async (description?: string) => {
+    const stoppedTimer = timer
+    try {
+      const timeLog = await stopMutation.mutateAsync(description)
+      queryClient.setQueryData(ACTIVE_TIMER_QUERY_KEY, null)
+      await invalidateRollups(stoppedTimer?.taskId, stoppedTimer?.projectId)
+      return timeLog
+    } catch (error) {
+      handleAPIError(error, 'Failed to stop timer')
+      await timerQuery.refetch()
+      throw error
+    }
+  }, [timer, stopMutation, queryClient, invalidateRollups, timerQuery])
+
+  return {
+    timer,
+    isLoading: timerQuery.isLoading,
+
+    // Actions
+    startTimer,
+    pauseTimer,
+    stopTimer,
+    refetch: timerQuery.refetch,
+
+    // Mutation states
+    starting: startMutation.isPending,
+    pausing: pauseMutation.isPending,
+    stopping: stopMutation.isPending,
+  }
+}
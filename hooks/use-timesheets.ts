@@ -0,0 +1,94 @@
+import { useCallback } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { apiRequest, handleAPIError } from '@/lib/utils/api-client'
+import type { Timesheet, TimesheetWeek } from '@/types'
+
+export interface TimesheetReviewResult {
+  processed: string[]
+  failed: { id: string; error: string }[]
+}
+
+export function useTimesheets() {
+  const queryClient = useQueryClient()
+
+  // Weekly view for the caller, or for a user they review
+  const useTimesheetWeek = (week: string, userId?: string, enabled: boolean = true) => {
+    return useQuery({
+      queryKey: ['timesheets', 'week', week, userId || 'me'],
+      queryFn: async () => {
+        const params = new URLSearchParams({ week })
+        if (userId) params.set('userId', userId)
+        return await apiRequest<TimesheetWeek>(`/api/timesheets?${params.toString()}`)
+      },
+      enabled: enabled && !!week,
+      staleTime: 30 * 1000,
+    })
+  }
+
+  // Timesheets the caller can approve or reject
+  const useReviewQueue = (status: Timesheet['status'] = 'submitted', enabled: boolean = true) => {
+    return useQuery({
+      queryKey: ['timesheets', 'review', status],
+      queryFn: async () => await apiRequest<Timesheet[]>(`/api/timesheets/review?status=${status}`),
+      enabled,
+      staleTime: 30 * 1000,
+    })
+  }
+
+  const submitMutation = useMutation({
+    mutationFn: async (data: { week: string; note?: string }) => await apiRequest<Timesheet>('/api/timesheets/submit', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }, false),
+  })
+
+  const reviewMutation = useMutation({
+    mutationFn: async (data: { timesheetIds: string[]; action: 'approve' | 'reject'; reason?: string }) =>
+      await apiRequest<TimesheetReviewResult>('/api/timesheets/review', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }, false),
+  })
+
+  // Approval state is mirrored onto time logs, so refresh both
+  const invalidateTimesheets = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: ['timesheets'] })
+    await queryClient.invalidateQueries({ queryKey: ['time-logs'] })
+  }, [queryClient])
+
+  const submitTimesheet = useCallback(async (week: string, note?: string) => {
+    try {
+      const result = await submitMutation.mutateAsync({ week, note: note || undefined })
+      await invalidateTimesheets()
+      return result
+    } catch (error) {
+      handleAPIError(error)
+      throw error
+    }
+  }, [submitMutation, invalidateTimesheets])
+
+  const reviewTimesheets = useCallback(async (timesheetIds: string[], action: 'approve' | 'reject', reason?: string) => {
+    try {
+      const result = await reviewMutation.mutateAsync({ timesheetIds, action, reason })
+      await invalidateTimesheets()
+      return result
+    } catch (error) {
+      handleAPIError(error)
+      throw error
+    }
+  }, [reviewMutation, invalidateTimesheets])
+
+  return {
+    // Hooks
+    useTimesheetWeek,
+    useReviewQueue,
+
+    // Actions
+    submitTimesheet,
+    reviewTimesheets,
+
+    // Mutation states
+    submitting: submitMutation.isPending,
+    reviewing: reviewMutation.isPending,
+  }
+}
@@ -12,6 +12,7 @@
  */
 import { createClient, SupabaseClient, RealtimeChannel } from '@supabase/supabase-js'
 import { apiLogger as logger } from '@/lib/logger'
+import type { IChannelUnreadSummary, IPollSummary } from '@/types/communication'
 
 // ============================================
 // Singleton Admin Client
@@ -56,6 +57,8 @@ export type BroadcastEvent =
   // Reaction events
   | 'reaction_added'
   | 'reaction_removed'
+  // Poll events
+  | 'poll_updated'
   // Read receipt events
   | 'message_read'
   | 'bulk_message_read'
@@ -79,6 +82,9 @@ export type NotificationEvent =
   | 'mention_notification'
   | 'dm_notification'
   | 'new_message'
+  | 'thread_reply'
+  | 'unread_updated'
+  | 'timer_update'
 
 export interface BroadcastOptions {
   channelId: string
@@ -350,6 +356,22 @@ export async function broadcastReaction(
   })
 }
 
+/**
+ * Broadcast new poll results to channel subscribers.
+ * The summary must not carry the voter's own selection (my_option_ids).
+ */
+export async function broadcastPollUpdate(
+  channelId: string,
+  messageId: string,
+  poll: IPollSummary
+): Promise<boolean> {
+  return broadcastToChannel({
+    channelId,
+    event: 'poll_updated',
+    payload: { messageId, poll }
+  })
+}
+
 /**
  * Broadcast read receipt to channel subscribers
  */
@@ -369,7 +391,9 @@ export async function broadcastReadReceipt(
 }
 
 /**
- * Broadcast bulk read receipts to channel subscribers
+ * Broadcast bulk read receipts to channel subscribers.
+ * When the reader's fresh unread summary is passed, it is also sent to the
+ * reader's other sessions so their badges follow along.
  */
 export async function broadcastBulkReadReceipt(
   channelId: string,
@@ -377,12 +401,31 @@ export async function broadcastBulkReadReceipt(
     userId: string
     messageCount: number
     lastReadMessageId?: string
-  }
+  },
+  unread?: IChannelUnreadSummary
 ): Promise<boolean> {
-  return broadcastToChannel({
-    channelId,
-    event: 'bulk_message_read',
-    payload: data
+  const [sent] = await Promise.all([
+    broadcastToChannel({
+      channelId,
+      event: 'bulk_message_read',
+      payload: data
+    }),
+    unread ? broadcastUnreadUpdate(data.userId, unread) : Promise.resolve(true)
+  ])
+  return sent
+}
+
+/**
+ * Send a user the current unread and mention counts for one of their channels
+ */
+export async function broadcastUnreadUpdate(
+  userId: string,
+  unread: IChannelUnreadSummary
+): Promise<boolean> {
+  return broadcastToUser({
+    userId,
+    event: 'unread_updated',
+    payload: { ...unread }
   })
 }
 
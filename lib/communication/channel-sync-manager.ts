@@ -321,7 +321,7 @@ class ChannelSyncManager {
       // Get all users for enrichment
       const allUsers = await executeGenericDbQuery(async () => {
         return await User.find({ isDeleted: { $ne: true } })
-          .select('_id name email avatar isClient role')
+          .select('_id name email avatar isClient role chatStatus')
           .lean()
       })
 
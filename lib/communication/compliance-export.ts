@@ -0,0 +1,430 @@
+/**
+ * Compliance Export
+ *
+ * Bundles a channel's history for a date range into a ZIP for client disputes:
+ * messages with their edit history (from the MessageAuditLog), reactions, read
+ * receipts and attachment files, as JSON plus a readable HTML transcript.
+ * Exports are built in the background right after they are requested; the
+ * /api/cron/channel-exports route picks up anything left pending.
+ */
+import mongoose from 'mongoose'
+import { format } from 'date-fns'
+import { apiLogger as logger } from '@/lib/logger'
+import { executeGenericDbQuery } from '@/lib/mongodb'
+import { S3Service } from '@/lib/services/s3-service'
+import { createZip, type ZipEntry } from '@/lib/utils/zip'
+import MessageAuditLog from '@/models/MessageAuditLog'
+import User from '@/models/User'
+import type { ChannelExportStatus, IChannelExport } from '@/types/communication'
+import { channelExportOps, channelOps, type ExportMessage } from './operations'
+
+const PAGE_SIZE = 500
+const MAX_ATTACHMENT_BYTES = 500 * 1024 * 1024 // Larger bundles list the remaining files without their contents
+const STALE_EXPORT_MS = 60 * 60 * 1000
+
+type ExportRecord = NonNullable<Awaited<ReturnType<typeof channelExportOps.getById>>>
+
+interface ExportedEdit {
+  edited_at: Date
+  editor: { id: string | null; name: string; email: string }
+  previous_content: string | null
+  new_content: string | null
+}
+
+interface ExportedAttachment {
+  id: string
+  file_name: string
+  file_type: string | null
+  file_size: number | null
+  path: string | null // Location inside the ZIP, null when the file is not included
+  missing_reason?: string
+}
+
+/**
+ * Admins and users whose role grants audit log access may export channel history
+ */
+export async function hasComplianceAccess(userId: string, isSuperAdmin?: boolean): Promise<boolean> {
+  if (isSuperAdmin) return true
+
+  const user = await executeGenericDbQuery(async () => {
+    return await User.findById(userId).populate('role').lean()
+  })
+  const userRole = (user as any)?.role
+  const roleName = userRole?.name?.toLowerCase()
+
+  return roleName === 'super admin' ||
+    roleName === 'admin' ||
+    !!userRole?.permissions?.communication?.includes('audit_logs') ||
+    !!userRole?.permissions?.communication?.includes('manage') ||
+    !!userRole?.permissions?.all?.includes('*')
+}
+
+/**
+ * API shape of an export record
+ */
+export function toChannelExportResponse(record: ExportRecord): IChannelExport {
+  return {
+    id: record.id,
+    channel_id: record.channel_id,
+    requested_by: record.mongo_requested_by,
+    from: record.from_date.toISOString(),
+    to: record.to_date.toISOString(),
+    status: record.status as ChannelExportStatus,
+    file_name: record.file_name,
+    file_size: record.file_size,
+    message_count: record.message_count,
+    attachment_count: record.attachment_count,
+    error: record.error,
+    created_at: record.created_at.toISOString(),
+    completed_at: record.completed_at ? record.completed_at.toISOString() : null
+  }
+}
+
+/**
+ * Build one export. Returns false if it was already claimed elsewhere.
+ */
+export async function buildChannelExport(exportId: string): Promise<boolean> {
+  const job = await channelExportOps.claim(exportId)
+  if (!job) return false
+
+  try {
+    const bundle = await collectExport(job)
+    const zip = createZip(bundle.entries)
+
+    const upload = await S3Service.uploadFile({
+      file: zip,
+      fileName: bundle.fileName,
+      contentType: 'application/zip',
+      fileType: 'COMPLIANCE_EXPORTS',
+      userId: job.mongo_requested_by,
+      metadata: { channelId: job.channel_id, exportId: job.id }
+    })
+    if (!upload.success || !upload.data) {
+      throw new Error(upload.error || 'Failed to upload export')
+    }
+
+    await channelExportOps.complete(job.id, {
+      s3_key: upload.data.key,
+      file_name: bundle.fileName,
+      file_size: upload.data.size,
+      message_count: bundle.messageCount,
+      attachment_count: bundle.attachmentCount
+    })
+  } catch (error: any) {
+    logger.error(`Failed to build channel export ${job.id}:`, error)
+    await channelExportOps.fail(job.id, error?.message || 'Export failed')
+  }
+
+  return true
+}
+
+/**
+ * Build exports still waiting in the queue and fail ones whose build died
+ */
+export async function processPendingChannelExports(limit: number = 3): Promise<{ built: number; timedOut: number }> {
+  const timedOut = await channelExportOps.failStale(new Date(Date.now() - STALE_EXPORT_MS))
+  const pending = await channelExportOps.getPending(limit)
+
+  let built = 0
+  for (const { id } of pending) {
+    if (await buildChannelExport(id)) built++
+  }
+  return { built, timedOut }
+}
+
+async function collectExport(job: ExportRecord): Promise<{
+  entries: ZipEntry[]
+  fileName: string
+  messageCount: number
+  attachmentCount: number
+}> {
+  const channel = await channelOps.getById(job.channel_id, { includeMembers: true })
+  if (!channel) throw new Error('Channel not found')
+
+  const messages: ExportMessage[] = []
+  let cursor: { created_at: Date; id: string } | undefined
+  while (true) {
+    const page = await channelExportOps.getMessagesForExport(job.channel_id, job.from_date, job.to_date, cursor, PAGE_SIZE)
+    messages.push(...page)
+    if (page.length < PAGE_SIZE) break
+    const last = page[page.length - 1]
+    cursor = { created_at: last.created_at, id: last.id }
+  }
+
+  const [edits, users] = await Promise.all([
+    getEdits(job.channel_id, messages.map(message => message.id)),
+    getUserNames([
+      job.mongo_requested_by,
+      ...channel.channel_members.map((member: { mongo_member_id: string }) => member.mongo_member_id),
+      ...messages.flatMap(message => message.read_receipts.map((receipt: { mongo_user_id: string }) => receipt.mongo_user_id))
+    ])
+  ])
+
+  const entries: ZipEntry[] = []
+  const attachmentsByMessage = new Map<string, ExportedAttachment[]>()
+  let attachmentBytes = 0
+  let attachmentCount = 0
+
+  for (const message of messages) {
+    const exported: ExportedAttachment[] = []
+    for (const attachment of message.attachments) {
+      const path = `attachments/${attachment.id}-${toSafeFileName(attachment.file_name)}`
+      const result: ExportedAttachment = {
+        id: attachment.id,
+        file_name: attachment.file_name,
+        file_type: attachment.file_type,
+        file_size: attachment.file_size,
+        path: null
+      }
+
+      if (!attachment.s3_key) {
+        result.missing_reason = 'No stored file'
+      } else if (attachmentBytes + (attachment.file_size || 0) > MAX_ATTACHMENT_BYTES) {
+        result.missing_reason = 'Export size limit reached'
+      } else {
+        const file = await S3Service.getFileBuffer(attachment.s3_key)
+        if (file.success && file.data) {
+          entries.push({ name: path, data: file.data.buffer, modifiedAt: attachment.created_at })
+          attachmentBytes += file.data.buffer.length
+          attachmentCount++
+          result.path = path
+        } else {
+          result.missing_reason = file.error || 'File could not be retrieved'
+        }
+      }
+      exported.push(result)
+    }
+    attachmentsByMessage.set(message.id, exported)
+  }
+
+  const exportedMessages = messages.map(message => ({
+    id: message.id,
+    created_at: message.created_at,
+    sender: {
+      id: message.mongo_sender_id,
+      name: message.sender_name,
+      email: message.sender_email,
+      role: message.sender_role
+    },
+    content: message.content,
+    content_type: message.content_type,
+    original_content: message.original_content,
+    parent_message_id: message.parent_message_id,
+    mentioned_user_ids: message.mongo_mentioned_user_ids,
+    is_edited: message.is_edited,
+    edited_at: message.edited_at,
+    edits: edits.get(message.id) || [],
+    is_trashed: message.is_trashed,
+    trashed_at: message.trashed_at,
+    trashed_by: message.trashed_by,
+    trash_reason: message.trash_reason,
+    reactions: message.reactions.map((reaction: { mongo_user_id: string; user_name: string; emoji: string; created_at: Date }) => ({
+      emoji: reaction.emoji,
+      user_id: reaction.mongo_user_id,
+      user_name: reaction.user_name,
+      created_at: reaction.created_at
+    })),
+    read_receipts: message.read_receipts.map((receipt: { mongo_user_id: string; read_at: Date }) => ({
+      user_id: receipt.mongo_user_id,
+      user_name: users.get(receipt.mongo_user_id) || 'Unknown User',
+      read_at: receipt.read_at
+    })),
+    attachments: attachmentsByMessage.get(message.id) || []
+  }))
+
+  const channelName = channel.type === 'dm' ? 'Direct message' : channel.name || 'Channel'
+  const manifest = {
+    export_id: job.id,
+    generated_at: new Date(),
+    requested_by: { id: job.mongo_requested_by, name: users.get(job.mongo_requested_by) || null },
+    channel: {
+      id: channel.id,
+      name: channelName,
+      type: channel.type,
+      is_private: channel.is_private,
+      created_at: channel.created_at,
+      members: channel.channel_members.map((member: { mongo_member_id: string; role: string; joined_at: Date }) => ({
+        id: member.mongo_member_id,
+        name: users.get(member.mongo_member_id) || 'Unknown User',
+        role: member.role,
+        joined_at: member.joined_at
+      }))
+    },
+    range: { from: job.from_date, to: job.to_date },
+    counts: {
+      messages: messages.length,
+      edits: exportedMessages.reduce((total, message) => total + message.edits.length, 0),
+      attachments: exportedMessages.reduce((total, message) => total + message.attachments.length, 0),
+      attachments_included: attachmentCount
+    },
+    files: ['manifest.json', 'messages.json', 'transcript.html', 'attachments/']
+  }
+
+  entries.unshift(
+    { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+    { name: 'messages.json', data: JSON.stringify(exportedMessages, null, 2) },
+    { name: 'transcript.html', data: renderTranscript(manifest, exportedMessages) }
+  )
+
+  const fileName = `${toSafeFileName(channelName).toLowerCase()}-${format(job.from_date, 'yyyy-MM-dd')}-to-${format(job.to_date, 'yyyy-MM-dd')}.zip`
+  return { entries, fileName, messageCount: messages.length, attachmentCount }
+}
+
+// Edit history per message, oldest edit first
+async function getEdits(channelId: string, messageIds: string[]): Promise<Map<string, ExportedEdit[]>> {
+  const edits = new Map<string, ExportedEdit[]>()
+  if (messageIds.length === 0) return edits
+
+  const logs = await executeGenericDbQuery(async () => {
+    return await MessageAuditLog.find({
+      supabase_channel_id: channelId,
+      supabase_message_id: { $in: messageIds },
+      action: 'edited'
+    })
+      .sort({ created_at: 1 })
+      .lean()
+      .exec()
+  })
+
+  for (const log of logs as any[]) {
+    const list = edits.get(log.supabase_message_id) || []
+    list.push({
+      edited_at: log.created_at,
+      editor: { id: log.actor_id?.toString() || null, name: log.actor_name, email: log.actor_email },
+      previous_content: log.previous_content ?? null,
+      new_content: log.new_content ?? null
+    })
+    edits.set(log.supabase_message_id, list)
+  }
+  return edits
+}
+
+async function getUserNames(userIds: string[]): Promise<Map<string, string>> {
+  const ids = [...new Set(userIds)].filter(id => mongoose.Types.ObjectId.isValid(id))
+  if (ids.length === 0) return new Map()
+
+  const users = await executeGenericDbQuery(async () => {
+    return await User.find({ _id: { $in: ids } }).select('_id name').lean()
+  })
+  return new Map((users as any[]).map(user => [user._id.toString(), user.name as string]))
+}
+
+function toSafeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^\.+/, '').slice(0, 120) || 'file'
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+// Message bodies are rich text - keep the line breaks, drop the markup
+const toPlainText = (html: string | null | undefined) =>
+  (html || '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+const renderText = (html: string | null | undefined) => escapeHtml(toPlainText(html)).replace(/\n/g, '<br>')
+
+const formatTime = (date: Date | null | undefined) =>
+  (date ? `${new Date(date).toISOString().slice(0, 19).replace('T', ' ')} UTC` : '')
+
+function renderTranscript(
+  manifest: { channel: { name: string; type: string }; range: { from: Date; to: Date }; generated_at: Date; counts: Record<string, number> },
+  messages: Array<{
+    id: string
+    created_at: Date
+    sender: { name: string; email: string }
+    content: string
+    original_content: string | null
+    parent_message_id: string | null
+    edits: ExportedEdit[]
+    is_trashed: boolean
+    trashed_at: Date | null
+    trash_reason: string | null
+    reactions: { emoji: string; user_name: string }[]
+    read_receipts: { user_name: string; read_at: Date }[]
+    attachments: ExportedAttachment[]
+  }>
+): string {
+  const body = messages.map(message => {
+    const reactions = new Map<string, string[]>()
+    for (const reaction of message.reactions) {
+      reactions.set(reaction.emoji, [...(reactions.get(reaction.emoji) || []), reaction.user_name])
+    }
+
+    const details: string[] = []
+    if (message.parent_message_id) {
+      details.push(`<div class="meta">Reply in thread to <a href="#m-${message.parent_message_id}">this message</a></div>`)
+    }
+    if (message.is_trashed) {
+      details.push(`<div class="flag">Deleted ${escapeHtml(formatTime(message.trashed_at))}${message.trash_reason ? ` - ${escapeHtml(message.trash_reason)}` : ''}</div>`)
+    }
+    if (message.edits.length > 0) {
+      details.push(`<details><summary>Edit history (${message.edits.length})</summary><ol>${message.edits.map(edit =>
+        `<li><span class="meta">${escapeHtml(formatTime(edit.edited_at))} by ${escapeHtml(edit.editor.name)}</span>` +
+        `<div class="before">${renderText(edit.previous_content)}</div><div class="after">${renderText(edit.new_content)}</div></li>`
+      ).join('')}</ol></details>`)
+    }
+    if (message.attachments.length > 0) {
+      details.push(`<ul class="files">${message.attachments.map(attachment => attachment.path
+        ? `<li><a href="${escapeHtml(attachment.path)}">${escapeHtml(attachment.file_name)}</a></li>`
+        : `<li>${escapeHtml(attachment.file_name)} <span class="meta">(${escapeHtml(attachment.missing_reason || 'not included')})</span></li>`
+      ).join('')}</ul>`)
+    }
+    if (reactions.size > 0) {
+      details.push(`<div class="meta">Reactions: ${[...reactions].map(([emoji, names]) =>
+        `${escapeHtml(emoji)} ${escapeHtml(names.join(', '))}`
+      ).join(' &middot; ')}</div>`)
+    }
+    if (message.read_receipts.length > 0) {
+      details.push(`<div class="meta">Read by: ${message.read_receipts.map(receipt =>
+        `${escapeHtml(receipt.user_name)} (${escapeHtml(formatTime(receipt.read_at))})`
+      ).join(', ')}</div>`)
+    }
+
+    // Trashed messages keep what was actually said in original_content
+    const content = message.is_trashed && message.original_content ? message.original_content : message.content
+    return `<article id="m-${message.id}" class="${message.parent_message_id ? 'reply' : ''}">` +
+      `<header><strong>${escapeHtml(message.sender.name)}</strong> <span class="meta">&lt;${escapeHtml(message.sender.email)}&gt; ${escapeHtml(formatTime(message.created_at))}${message.edits.length > 0 ? ' (edited)' : ''}</span></header>` +
+      `<div class="content">${renderText(content)}</div>${details.join('')}</article>`
+  }).join('\n')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(manifest.channel.name)} - conversation export</title>
+<style>
+body { font-family: -apple-system, Segoe UI, Roboto, sans-serif; max-width: 900px; margin: 2rem auto; padding: 0 1rem; color: #111; }
+h1 { font-size: 1.4rem; margin-bottom: .25rem; }
+article { border-bottom: 1px solid #e5e7eb; padding: .75rem 0; }
+article.reply { margin-left: 2rem; }
+.meta { color: #6b7280; font-size: .8rem; }
+.flag { color: #b91c1c; font-size: .8rem; }
+.content { margin: .25rem 0; white-space: normal; }
+.before { text-decoration: line-through; color: #6b7280; }
+.files { margin: .25rem 0; padding-left: 1.25rem; font-size: .9rem; }
+details { font-size: .85rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(manifest.channel.name)}</h1>
+<p class="meta">${escapeHtml(formatTime(manifest.range.from))} to ${escapeHtml(formatTime(manifest.range.to))} &middot; ${manifest.counts.messages} message(s) &middot; generated ${escapeHtml(formatTime(manifest.generated_at))}</p>
+${body || '<p>No messages in this date range.</p>'}
+</body>
+</html>
+`
+}
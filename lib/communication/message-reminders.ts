@@ -0,0 +1,110 @@
+/**
+ * Message Reminder Dispatcher
+ *
+ * Turns due "remind me about this" reminders into system notifications that
+ * link back to the message, or to the channel for note reminders set with
+ * /remind. Triggered by the /api/cron/message-reminders route.
+ */
+import { apiLogger as logger } from '@/lib/logger'
+import { NotificationService } from '@/lib/services/notification-service'
+import { channelOps, messageReminderOps } from './operations'
+
+type DueReminder = Awaited<ReturnType<typeof messageReminderOps.claimDue>>[number]
+
+// A claimed reminder should be sent within seconds; longer means the run died
+const STALE_SENDING_MS = 15 * 60 * 1000
+
+const toPreview = (html: string) =>
+  html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim()
+
+// Opens the channel and scrolls to the message, if there is one
+function getMessageLink(channelId: string, messageId?: string | null) {
+  return messageId
+    ? `/communications?channel=${channelId}&message=${messageId}`
+    : `/communications?channel=${channelId}`
+}
+
+/**
+ * Notify users about every reminder that is due
+ */
+export async function dispatchDueMessageReminders(limit: number = 100): Promise<{ notified: number; skipped: number; failed: number }> {
+  await messageReminderOps.releaseStale(new Date(Date.now() - STALE_SENDING_MS))
+  const due = await messageReminderOps.claimDue(limit)
+  let notified = 0
+  let skipped = 0
+  let failed = 0
+
+  for (const reminder of due) {
+    try {
+      // Nothing to come back to if the message is gone or the user has left the channel
+      const member = await channelOps.getMember(reminder.channel_id, reminder.mongo_user_id)
+      if (!member || (reminder.message_id && (!reminder.messages || reminder.messages.is_trashed))) {
+        await messageReminderOps.markSent(reminder.id)
+        skipped++
+        continue
+      }
+
+      await notifyReminder(reminder)
+      await messageReminderOps.markSent(reminder.id)
+      notified++
+    } catch (error) {
+      failed++
+      logger.error(`Failed to send message reminder ${reminder.id}:`, error)
+      await messageReminderOps.release(reminder.id)
+    }
+  }
+
+  return { notified, skipped, failed }
+}
+
+async function notifyReminder(reminder: DueReminder) {
+  const { messages: message, channels: channel } = reminder
+  const where = channel.type === 'dm' || !channel.name ? 'a direct message' : `#${channel.name}`
+
+  if (!message) {
+    await NotificationService.createNotification({
+      type: 'message_reminder',
+      category: 'system',
+      recipientId: reminder.mongo_user_id,
+      senderId: reminder.mongo_user_id, // Set by the user for themselves
+      senderName: 'System',
+      title: 'Reminder',
+      message: reminder.note || `You asked to be reminded in ${where}`,
+      contentPreview: reminder.note?.slice(0, 200),
+      entityType: 'message',
+      entityName: channel.name || undefined,
+      actionType: 'reminded',
+      actionUrl: getMessageLink(reminder.channel_id),
+      priority: 2,
+      metadata: {
+        reminderId: reminder.id,
+        channelId: reminder.channel_id
+      }
+    })
+    return
+  }
+
+  const preview = toPreview(message.content) || 'Attachment'
+
+  // createNotification also pushes the notification to the user through broadcastToUser
+  await NotificationService.createNotification({
+    type: 'message_reminder',
+    category: 'system',
+    recipientId: reminder.mongo_user_id,
+    senderId: message.mongo_sender_id,
+    senderName: message.sender_name,
+    title: `Reminder: message from ${message.sender_name}`,
+    message: `You asked to be reminded about this message in ${where}`,
+    contentPreview: preview.slice(0, 200),
+    entityType: 'message',
+    entityName: channel.name || undefined,
+    actionType: 'reminded',
+    actionUrl: getMessageLink(reminder.channel_id, reminder.message_id),
+    priority: 2,
+    metadata: {
+      reminderId: reminder.id,
+      messageId: reminder.message_id,
+      channelId: reminder.channel_id
+    }
+  })
+}
@@ -12,6 +12,7 @@
 import { prisma } from '@/lib/prisma'
 import { communicationCache } from './cache'
 import { apiLogger as logger } from '@/lib/logger'
+import type { IChannelUnreadSummary, IPollSummary } from '@/types/communication'
 
 // Re-export existing operations for backward compatibility
 export { channelOperations, messageOperations, memberOperations, dbUtils } from '@/lib/db-utils'
@@ -403,6 +404,80 @@ export const messageOps = {
     })
   },
 
+  /**
+   * Full-text search across every channel the user is a member of.
+   * Ranked by relevance; snippets are plain text with matches wrapped in <mark>.
+   */
+  async searchWorkspace(
+    userId: string,
+    filters: {
+      query: string
+      senderId?: string
+      channelType?: string
+      from?: Date
+      to?: Date
+      hasAttachment?: boolean
+      mentionsMe?: boolean
+      limit?: number
+      offset?: number
+    }
+  ) {
+    const { limit = 20, offset = 0 } = filters
+    const params: unknown[] = [filters.query, userId]
+    const param = (value: unknown) => {
+      params.push(value)
+      return `$${params.length}`
+    }
+
+    const conditions = [
+      "m.search_vector @@ websearch_to_tsquery('english', $1)",
+      'm.is_trashed = false',
+      'NOT ($2 = ANY(m.hidden_by_users))',
+    ]
+    if (filters.senderId) conditions.push(`m.mongo_sender_id = ${param(filters.senderId)}`)
+    if (filters.channelType) conditions.push(`c.type = ${param(filters.channelType)}`)
+    if (filters.from) conditions.push(`m.created_at >= ${param(filters.from)}`)
+    if (filters.to) {
+      const dayAfter = new Date(filters.to.getTime() + 24 * 60 * 60 * 1000)
+      conditions.push(`m.created_at < ${param(dayAfter)}`)
+    }
+    if (filters.hasAttachment !== undefined) {
+      conditions.push(`${filters.hasAttachment ? '' : 'NOT '}EXISTS (SELECT 1 FROM attachments a WHERE a.message_id = m.id)`)
+    }
+    if (filters.mentionsMe) conditions.push('$2 = ANY(m.mongo_mentioned_user_ids)')
+
+    // Rank and page first so snippets are only built for the returned rows
+    const rows = await prisma.$queryRawUnsafe<any[]>(`
+      WITH matches AS (
+        SELECT m.id,
+          ts_rank_cd(m.search_vector, websearch_to_tsquery('english', $1)) AS rank,
+          COUNT(*) OVER() AS total_count
+        FROM messages m
+        JOIN channel_members cm ON cm.channel_id = m.channel_id AND cm.mongo_member_id = $2
+        JOIN channels c ON c.id = m.channel_id
+        WHERE ${conditions.join('\n          AND ')}
+        ORDER BY rank DESC, m.created_at DESC
+        LIMIT ${param(limit)}::int
+        OFFSET ${param(offset)}::int
+      )
+      SELECT m.id, m.channel_id, m.parent_message_id, m.mongo_sender_id, m.sender_name, m.sender_avatar,
+        m.content_type, m.created_at, c.name AS channel_name, c.type AS channel_type,
+        matches.rank, matches.total_count,
+        ts_headline('english', regexp_replace(m.content, '<[^>]+>', ' ', 'g'), websearch_to_tsquery('english', $1),
+          'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=24, MinWords=8, FragmentDelimiter=" … "') AS snippet,
+        EXISTS (SELECT 1 FROM attachments a WHERE a.message_id = m.id) AS has_attachments
+      FROM matches
+      JOIN messages m ON m.id = matches.id
+      JOIN channels c ON c.id = m.channel_id
+      ORDER BY matches.rank DESC, m.created_at DESC
+    `, ...params)
+
+    const total = rows.length > 0 ? Number(rows[0].total_count) : 0
+    const results = rows.map(({ total_count, rank, ...row }: any) => ({ ...row, rank: Number(rank) }))
+
+    return { results, total, limit, offset, hasMore: offset + results.length < total }
+  },
+
   /**
    * Move message to trash (soft delete)
    */
@@ -511,6 +586,588 @@ export const messageOps = {
   }
 }
 
+// ============================================
+// Scheduled Message Operations
+// ============================================
+
+export const scheduledMessageOps = {
+  /**
+   * Queue a message to be sent later
+   */
+  async create(data: {
+    channel_id: string
+    mongo_sender_id: string
+    content: string
+    parent_message_id?: string
+    mongo_mentioned_user_ids?: string[]
+    send_at: Date
+    sender_name: string
+    sender_email: string
+    sender_avatar?: string
+    sender_role?: string
+  }) {
+    return prisma.scheduled_messages.create({
+      data: {
+        ...data,
+        mongo_mentioned_user_ids: data.mongo_mentioned_user_ids ?? [],
+        sender_role: data.sender_role ?? 'User'
+      }
+    })
+  },
+
+  /**
+   * A user's messages still waiting to be sent in a channel, soonest first
+   */
+  async getPendingByChannel(channelId: string, userId: string) {
+    return prisma.scheduled_messages.findMany({
+      where: { channel_id: channelId, mongo_sender_id: userId, status: 'pending' },
+      orderBy: { send_at: 'asc' }
+    })
+  },
+
+  /**
+   * Get a scheduled message owned by the user
+   */
+  async getOwn(scheduledMessageId: string, userId: string) {
+    return prisma.scheduled_messages.findFirst({
+      where: { id: scheduledMessageId, mongo_sender_id: userId }
+    })
+  },
+
+  /**
+   * Edit a pending message. Returns null when it has already been picked up for sending.
+   */
+  async update(
+    scheduledMessageId: string,
+    data: { content?: string; mongo_mentioned_user_ids?: string[]; send_at?: Date }
+  ) {
+    const result = await prisma.scheduled_messages.updateMany({
+      where: { id: scheduledMessageId, status: 'pending' },
+      data: { ...data, updated_at: new Date() }
+    })
+    if (result.count === 0) return null
+
+    return prisma.scheduled_messages.findUnique({ where: { id: scheduledMessageId } })
+  },
+
+  /**
+   * Cancel a pending message. Returns false when it has already been picked up for sending.
+   */
+  async cancel(scheduledMessageId: string): Promise<boolean> {
+    const result = await prisma.scheduled_messages.updateMany({
+      where: { id: scheduledMessageId, status: 'pending' },
+      data: { status: 'cancelled', updated_at: new Date() }
+    })
+    return result.count > 0
+  },
+
+  /**
+   * Claim messages that are due. Each row is moved to 'sending' with a conditional
+   * update, so overlapping dispatcher runs never send the same message twice.
+   */
+  async claimDue(limit: number = 50) {
+    const due = await prisma.scheduled_messages.findMany({
+      where: { status: 'pending', send_at: { lte: new Date() } },
+      orderBy: { send_at: 'asc' },
+      take: limit
+    })
+
+    const claimed = []
+    for (const scheduled of due) {
+      const result = await prisma.scheduled_messages.updateMany({
+        where: { id: scheduled.id, status: 'pending' },
+        data: { status: 'sending', updated_at: new Date() }
+      })
+      if (result.count > 0) claimed.push(scheduled)
+    }
+    return claimed
+  },
+
+  /**
+   * Fail messages stuck in 'sending' - the dispatcher died mid-send. They are not
+   * put back in the queue since the message may already have been posted.
+   */
+  async failStale(claimedBefore: Date): Promise<number> {
+    const result = await prisma.scheduled_messages.updateMany({
+      where: { status: 'sending', updated_at: { lt: claimedBefore } },
+      data: { status: 'failed', failure_reason: 'Sending was interrupted', updated_at: new Date() }
+    })
+    return result.count
+  },
+
+  /**
+   * Record the outcome of a send attempt
+   */
+  async markSent(scheduledMessageId: string, messageId: string) {
+    return prisma.scheduled_messages.update({
+      where: { id: scheduledMessageId },
+      data: { status: 'sent', sent_message_id: messageId, updated_at: new Date() }
+    })
+  },
+
+  async markFailed(scheduledMessageId: string, reason: string) {
+    return prisma.scheduled_messages.update({
+      where: { id: scheduledMessageId },
+      data: { status: 'failed', failure_reason: reason.slice(0, 500), updated_at: new Date() }
+    })
+  }
+}
+
+// ============================================
+// Message Reminder Operations
+// ============================================
+
+export const messageReminderOps = {
+  /**
+   * Set the user's reminder on a message. A message has at most one reminder
+   * per user, so setting it again reschedules it.
+   */
+  async upsert(data: { message_id: string; channel_id: string; mongo_user_id: string; remind_at: Date }) {
+    return prisma.message_reminders.upsert({
+      where: {
+        message_id_mongo_user_id: { message_id: data.message_id, mongo_user_id: data.mongo_user_id }
+      },
+      create: data,
+      update: { remind_at: data.remind_at, status: 'pending', notified_at: null, updated_at: new Date() }
+    })
+  },
+
+  /**
+   * Set a reminder that is not tied to a message, e.g. "/remind 2h check the build"
+   */
+  async createNote(data: { channel_id: string; mongo_user_id: string; note: string; remind_at: Date }) {
+    return prisma.message_reminders.create({ data })
+  },
+
+  /**
+   * A user's reminders with the message and channel they point to, upcoming first
+   */
+  async getByUser(userId: string) {
+    return prisma.message_reminders.findMany({
+      where: { mongo_user_id: userId },
+      orderBy: [{ status: 'asc' }, { remind_at: 'asc' }],
+      include: {
+        messages: {
+          select: {
+            id: true,
+            content: true,
+            created_at: true,
+            mongo_sender_id: true,
+            sender_name: true,
+            sender_avatar: true,
+            is_trashed: true
+          }
+        },
+        channels: { select: { id: true, name: true, type: true } }
+      }
+    })
+  },
+
+  /**
+   * Remove one of the user's reminders. Returns false if it was not theirs.
+   */
+  async remove(reminderId: string, userId: string): Promise<boolean> {
+    const result = await prisma.message_reminders.deleteMany({
+      where: { id: reminderId, mongo_user_id: userId }
+    })
+    return result.count > 0
+  },
+
+  /**
+   * Claim reminders that are due, the same way scheduled messages are claimed
+   */
+  async claimDue(limit: number = 100) {
+    const due = await prisma.message_reminders.findMany({
+      where: { status: 'pending', remind_at: { lte: new Date() } },
+      orderBy: { remind_at: 'asc' },
+      take: limit,
+      include: {
+        messages: { select: { content: true, mongo_sender_id: true, sender_name: true, is_trashed: true } },
+        channels: { select: { name: true, type: true } }
+      }
+    })
+
+    const claimed = []
+    for (const reminder of due) {
+      const result = await prisma.message_reminders.updateMany({
+        where: { id: reminder.id, status: 'pending' },
+        data: { status: 'sending', updated_at: new Date() }
+      })
+      if (result.count > 0) claimed.push(reminder)
+    }
+    return claimed
+  },
+
+  async markSent(reminderId: string) {
+    return prisma.message_reminders.update({
+      where: { id: reminderId },
+      data: { status: 'sent', notified_at: new Date(), updated_at: new Date() }
+    })
+  },
+
+  /**
+   * Put reminders stuck in 'sending' back in the queue - the dispatcher died
+   * mid-run. Reminding twice is better than not at all.
+   */
+  async releaseStale(claimedBefore: Date): Promise<number> {
+    const result = await prisma.message_reminders.updateMany({
+      where: { status: 'sending', updated_at: { lt: claimedBefore } },
+      data: { status: 'pending', updated_at: new Date() }
+    })
+    return result.count
+  },
+
+  /**
+   * Put a reminder back in the queue after a failed notification
+   */
+  async release(reminderId: string) {
+    return prisma.message_reminders.update({
+      where: { id: reminderId },
+      data: { status: 'pending', updated_at: new Date() }
+    })
+  }
+}
+
+// ============================================
+// Thread Operations
+// ============================================
+
+export const threadOps = {
+  /**
+   * Root message of a thread with what the thread panel needs to render it
+   */
+  async getRoot(messageId: string) {
+    return prisma.messages.findFirst({
+      where: { id: messageId, parent_message_id: null, is_trashed: false },
+      include: { attachments: true, reactions: true, read_receipts: true }
+    })
+  },
+
+  /**
+   * A page of replies, oldest first. Pass `before` to page back from the newest.
+   */
+  async getReplies(rootId: string, userId: string, options: { limit: number; before?: Date }) {
+    const replies = await prisma.messages.findMany({
+      where: {
+        parent_message_id: rootId,
+        is_trashed: false,
+        NOT: { hidden_by_users: { has: userId } },
+        ...(options.before ? { created_at: { lt: options.before } } : {})
+      },
+      include: { attachments: true, reactions: true, read_receipts: true },
+      orderBy: { created_at: 'desc' },
+      take: options.limit + 1
+    })
+
+    const hasMore = replies.length > options.limit
+    return { replies: replies.slice(0, options.limit).reverse(), hasMore }
+  },
+
+  async isFollowing(rootId: string, userId: string): Promise<boolean> {
+    const subscription = await prisma.thread_subscriptions.findUnique({
+      where: { message_id_mongo_user_id: { message_id: rootId, mongo_user_id: userId } },
+      select: { id: true }
+    })
+    return !!subscription
+  },
+
+  async follow(rootId: string, channelId: string, userId: string) {
+    return prisma.thread_subscriptions.upsert({
+      where: { message_id_mongo_user_id: { message_id: rootId, mongo_user_id: userId } },
+      create: { message_id: rootId, channel_id: channelId, mongo_user_id: userId },
+      update: {}
+    })
+  },
+
+  async unfollow(rootId: string, userId: string) {
+    await prisma.thread_subscriptions.deleteMany({
+      where: { message_id: rootId, mongo_user_id: userId }
+    })
+  },
+
+  async getFollowerIds(rootId: string): Promise<string[]> {
+    const subscriptions = await prisma.thread_subscriptions.findMany({
+      where: { message_id: rootId },
+      select: { mongo_user_id: true }
+    })
+    return subscriptions.map((subscription: { mongo_user_id: string }) => subscription.mongo_user_id)
+  },
+
+  /**
+   * Threads the user follows, most recent activity first, with unread reply
+   * counts taken from read_receipts. Threads in channels the user has left are skipped.
+   */
+  async getFollowedThreads(userId: string, limit: number = 50) {
+    const subscriptions = await prisma.thread_subscriptions.findMany({
+      where: {
+        mongo_user_id: userId,
+        channels: { channel_members: { some: { mongo_member_id: userId } } },
+        messages: { is_trashed: false }
+      },
+      include: {
+        messages: {
+          select: {
+            id: true,
+            content: true,
+            content_type: true,
+            created_at: true,
+            reply_count: true,
+            mongo_sender_id: true,
+            sender_name: true,
+            sender_avatar: true
+          }
+        },
+        channels: { select: { id: true, name: true, type: true } }
+      }
+    })
+
+    if (subscriptions.length === 0) return []
+
+    const rootIds = subscriptions.map((subscription: { message_id: string }) => subscription.message_id)
+    const replyFilter = {
+      parent_message_id: { in: rootIds },
+      is_trashed: false,
+      NOT: { hidden_by_users: { has: userId } }
+    }
+
+    const [activity, unread] = await Promise.all([
+      prisma.messages.groupBy({
+        by: ['parent_message_id'],
+        where: replyFilter,
+        _max: { created_at: true }
+      }),
+      prisma.messages.groupBy({
+        by: ['parent_message_id'],
+        where: {
+          ...replyFilter,
+          mongo_sender_id: { not: userId },
+          read_receipts: { none: { mongo_user_id: userId } }
+        },
+        _count: { _all: true }
+      })
+    ])
+
+    // parent_message_id is nullable in the schema, though the filter only matches replies
+    const lastReplyAt = new Map<string, Date>()
+    for (const row of activity) {
+      if (row.parent_message_id && row._max.created_at) lastReplyAt.set(row.parent_message_id, row._max.created_at)
+    }
+    const unreadCounts = new Map<string, number>()
+    for (const row of unread) {
+      if (row.parent_message_id) unreadCounts.set(row.parent_message_id, row._count._all)
+    }
+
+    return subscriptions
+      .map((subscription: any) => {
+        const lastActivity = lastReplyAt.get(subscription.message_id) || subscription.messages.created_at
+        return {
+          message_id: subscription.message_id,
+          channel_id: subscription.channel_id,
+          followed_at: subscription.created_at,
+          last_reply_at: lastActivity,
+          unread_count: unreadCounts.get(subscription.message_id) || 0,
+          root: subscription.messages,
+          channel: subscription.channels
+        }
+      })
+      .sort((a: { last_reply_at: Date }, b: { last_reply_at: Date }) =>
+        new Date(b.last_reply_at).getTime() - new Date(a.last_reply_at).getTime()
+      )
+      .slice(0, limit)
+  },
+
+  /**
+   * Mark every reply in a thread as read for the user
+   */
+  async markRead(rootId: string, userId: string) {
+    const unreadReplies = await prisma.messages.findMany({
+      where: {
+        parent_message_id: rootId,
+        is_trashed: false,
+        mongo_sender_id: { not: userId },
+        read_receipts: { none: { mongo_user_id: userId } }
+      },
+      select: { id: true }
+    })
+
+    if (unreadReplies.length === 0) return { markedCount: 0 }
+
+    await prisma.read_receipts.createMany({
+      data: unreadReplies.map((reply: { id: string }) => ({ message_id: reply.id, mongo_user_id: userId })),
+      skipDuplicates: true
+    })
+
+    return { markedCount: unreadReplies.length }
+  }
+}
+
+// ============================================
+// Poll Operations
+// ============================================
+
+type PollWithVotes = {
+  id: string
+  message_id: string
+  channel_id: string
+  mongo_creator_id: string
+  question: string
+  allow_multiple: boolean
+  is_anonymous: boolean
+  closes_at: Date | null
+  closed_at: Date | null
+  poll_options: { id: string; text: string; position: number }[]
+  poll_votes: { option_id: string; mongo_user_id: string; user_name: string }[]
+}
+
+const pollInclude = {
+  poll_options: { orderBy: { position: 'asc' as const } },
+  poll_votes: { select: { option_id: true, mongo_user_id: true, user_name: true } }
+}
+
+export const pollOps = {
+  /**
+   * Create a poll together with the channel message that carries it
+   */
+  async create(data: {
+    channel_id: string
+    question: string
+    options: string[]
+    allow_multiple: boolean
+    is_anonymous: boolean
+    closes_at?: Date
+    mongo_sender_id: string
+    sender_name: string
+    sender_email: string
+    sender_avatar?: string
+    sender_role?: string
+  }) {
+    const message = await messageOps.create({
+      channel_id: data.channel_id,
+      mongo_sender_id: data.mongo_sender_id,
+      content: data.question,
+      content_type: 'poll',
+      sender_name: data.sender_name,
+      sender_email: data.sender_email,
+      sender_avatar: data.sender_avatar,
+      sender_role: data.sender_role
+    })
+
+    try {
+      const poll = await prisma.polls.create({
+        data: {
+          message_id: message.id,
+          channel_id: data.channel_id,
+          mongo_creator_id: data.mongo_sender_id,
+          question: data.question,
+          allow_multiple: data.allow_multiple,
+          is_anonymous: data.is_anonymous,
+          closes_at: data.closes_at,
+          poll_options: {
+            create: data.options.map((text, position) => ({ text, position }))
+          }
+        },
+        include: pollInclude
+      })
+      return { message, poll: pollOps.summarize(poll, data.mongo_sender_id) }
+    } catch (error) {
+      // Don't leave an empty poll message behind
+      await prisma.messages.delete({ where: { id: message.id } }).catch(() => undefined)
+      throw error
+    }
+  },
+
+  async getById(pollId: string) {
+    return prisma.polls.findUnique({ where: { id: pollId }, include: pollInclude })
+  },
+
+  /**
+   * Poll results keyed by message ID. Pass viewerId to include that user's own votes.
+   */
+  async getSummariesByMessageIds(messageIds: string[], viewerId?: string) {
+    if (messageIds.length === 0) return new Map<string, IPollSummary>()
+
+    const polls = await prisma.polls.findMany({
+      where: { message_id: { in: messageIds } },
+      include: pollInclude
+    })
+    return new Map<string, IPollSummary>(
+      polls.map((poll: PollWithVotes) => [poll.message_id, pollOps.summarize(poll, viewerId)])
+    )
+  },
+
+  /**
+   * Replace the user's votes on a poll. An empty list retracts them.
+   */
+  async vote(pollId: string, userId: string, userName: string, optionIds: string[]) {
+    await prisma.$transaction([
+      prisma.poll_votes.deleteMany({
+        where: { poll_id: pollId, mongo_user_id: userId, option_id: { notIn: optionIds } }
+      }),
+      prisma.poll_votes.createMany({
+        data: optionIds.map(optionId => ({
+          poll_id: pollId,
+          option_id: optionId,
+          mongo_user_id: userId,
+          user_name: userName
+        })),
+        skipDuplicates: true
+      })
+    ])
+    return pollOps.getById(pollId)
+  },
+
+  async close(pollId: string) {
+    return prisma.polls.update({
+      where: { id: pollId },
+      data: { closed_at: new Date() },
+      include: pollInclude
+    })
+  },
+
+  isClosed(poll: Pick<PollWithVotes, 'closes_at' | 'closed_at'>): boolean {
+    return !!poll.closed_at || (!!poll.closes_at && poll.closes_at.getTime() <= Date.now())
+  },
+
+  /**
+   * Tally a poll. Voter names are left out of anonymous polls.
+   */
+  summarize(poll: PollWithVotes, viewerId?: string): IPollSummary {
+    const voters = new Set(poll.poll_votes.map(vote => vote.mongo_user_id))
+
+    return {
+      id: poll.id,
+      message_id: poll.message_id,
+      channel_id: poll.channel_id,
+      mongo_creator_id: poll.mongo_creator_id,
+      question: poll.question,
+      allow_multiple: poll.allow_multiple,
+      is_anonymous: poll.is_anonymous,
+      closes_at: poll.closes_at?.toISOString() ?? null,
+      closed_at: poll.closed_at?.toISOString() ?? null,
+      is_closed: pollOps.isClosed(poll),
+      total_voters: voters.size,
+      options: poll.poll_options.map(option => {
+        const votes = poll.poll_votes.filter(vote => vote.option_id === option.id)
+        return {
+          id: option.id,
+          text: option.text,
+          vote_count: votes.length,
+          ...(poll.is_anonymous
+            ? {}
+            : { voters: votes.map(vote => ({ mongo_user_id: vote.mongo_user_id, name: vote.user_name })) })
+        }
+      }),
+      ...(viewerId
+        ? {
+            my_option_ids: poll.poll_votes
+              .filter(vote => vote.mongo_user_id === viewerId)
+              .map(vote => vote.option_id)
+          }
+        : {})
+    }
+  }
+}
+
 // ============================================
 // Reaction Operations
 // ============================================
@@ -651,7 +1308,7 @@ export const readReceiptOps = {
    * Mark single message as read
    */
   async mark(messageId: string, userId: string) {
-    return prisma.read_receipts.upsert({
+    const receipt = await prisma.read_receipts.upsert({
       where: {
         message_id_mongo_user_id: {
           message_id: messageId,
@@ -667,6 +1324,75 @@ export const readReceiptOps = {
         read_at: new Date()
       }
     })
+
+    const message = await prisma.messages.findUnique({
+      where: { id: messageId },
+      select: { channel_id: true }
+    })
+    if (message) {
+      await readReceiptOps.advanceToFirstUnread(message.channel_id, userId)
+    }
+
+    return receipt
+  },
+
+  /**
+   * Move the last-read pointer up to the oldest message from others the member
+   * hasn't seen. A deep link can scroll straight to a message with unread ones
+   * above it, so seeing one message doesn't mean everything before it was read.
+   */
+  async advanceToFirstUnread(channelId: string, userId: string) {
+    const member = await prisma.channel_members.findFirst({
+      where: { channel_id: channelId, mongo_member_id: userId },
+      select: { last_read_at: true, joined_at: true }
+    })
+    if (!member) return false
+
+    const firstUnread = await prisma.messages.findFirst({
+      where: {
+        channel_id: channelId,
+        is_trashed: false,
+        parent_message_id: null,
+        mongo_sender_id: { not: userId },
+        created_at: { gt: member.last_read_at ?? member.joined_at },
+        read_receipts: { none: { mongo_user_id: userId } }
+      },
+      orderBy: { created_at: 'asc' },
+      select: { created_at: true }
+    })
+
+    const readThrough = await prisma.messages.findFirst({
+      where: {
+        channel_id: channelId,
+        is_trashed: false,
+        parent_message_id: null,
+        ...(firstUnread && { created_at: { lt: firstUnread.created_at } })
+      },
+      orderBy: { created_at: 'desc' },
+      select: { id: true, created_at: true }
+    })
+    if (!readThrough) return false
+
+    return readReceiptOps.advanceLastRead(channelId, userId, readThrough.created_at, readThrough.id)
+  },
+
+  /**
+   * Move the member's last-read pointer forward. Never moves it back, so a
+   * late request from another device can't resurrect read messages.
+   */
+  async advanceLastRead(channelId: string, userId: string, readAt: Date, messageId?: string | null) {
+    const { count } = await prisma.channel_members.updateMany({
+      where: {
+        channel_id: channelId,
+        mongo_member_id: userId,
+        OR: [{ last_read_at: null }, { last_read_at: { lt: readAt } }]
+      },
+      data: {
+        last_read_at: readAt,
+        last_read_message_id: messageId ?? null
+      }
+    })
+    return count > 0
   },
 
   /**
@@ -685,6 +1411,13 @@ export const readReceiptOps = {
       select: { id: true }
     })
 
+    const latest = await prisma.messages.findFirst({
+      where: { channel_id: channelId, is_trashed: false },
+      orderBy: { created_at: 'desc' },
+      select: { id: true, created_at: true }
+    })
+    await readReceiptOps.advanceLastRead(channelId, userId, latest?.created_at ?? new Date(), latest?.id)
+
     if (unreadMessages.length === 0) {
       return { markedCount: 0 }
     }
@@ -718,16 +1451,46 @@ export const readReceiptOps = {
    * Get unread count for channel
    */
   async getUnreadCount(channelId: string, userId: string): Promise<number> {
-    return prisma.messages.count({
-      where: {
-        channel_id: channelId,
-        is_trashed: false,
-        mongo_sender_id: { not: userId },
-        read_receipts: {
-          none: { mongo_user_id: userId }
-        }
-      }
-    })
+    const [summary] = await readReceiptOps.getUnreadSummary(userId, channelId)
+    return summary?.unread_count ?? 0
+  },
+
+  /**
+   * Unread and unread-mention counts for every channel the user belongs to,
+   * measured from each membership's last-read pointer. Members that have never
+   * read a channel count from when they joined it. Thread replies are left to
+   * the Threads inbox.
+   */
+  async getUnreadSummary(userId: string, channelId?: string): Promise<IChannelUnreadSummary[]> {
+    const params: unknown[] = [userId]
+    let channelFilter = ''
+    if (channelId) {
+      params.push(channelId)
+      channelFilter = 'AND cm.channel_id = $2::uuid'
+    }
+
+    const rows = await prisma.$queryRawUnsafe<any[]>(`
+      SELECT cm.channel_id, cm.last_read_at, cm.last_read_message_id,
+        COUNT(m.id)::int AS unread_count,
+        COUNT(m.id) FILTER (WHERE $1 = ANY(m.mongo_mentioned_user_ids))::int AS mention_count
+      FROM channel_members cm
+      LEFT JOIN messages m
+        ON m.channel_id = cm.channel_id
+        AND m.created_at > COALESCE(cm.last_read_at, cm.joined_at)
+        AND m.mongo_sender_id <> $1
+        AND m.is_trashed = false
+        AND m.parent_message_id IS NULL
+      WHERE cm.mongo_member_id = $1 ${channelFilter}
+      GROUP BY cm.channel_id, cm.last_read_at, cm.last_read_message_id
+    `, ...params)
+
+    return rows.map((row: any) => ({
+      channel_id: row.channel_id,
+      unread_count: Number(row.unread_count),
+      mention_count: Number(row.mention_count),
+      last_read_at: row.last_read_at ? new Date(row.last_read_at).toISOString() : null,
+      last_read_message_id: row.last_read_message_id
+    }))
   }
 }
 
@@ -1230,6 +1993,270 @@ export const memberOps = {
   }
 }
 
+// ============================================
+// Retention Operations
+// ============================================
+
+export type RetentionPolicyKind = 'messages' | 'trash'
+
+export const retentionOps = {
+  /**
+   * Channel retention overrides and legal hold state
+   */
+  async getChannelPolicy(channelId: string) {
+    return prisma.channels.findUnique({
+      where: { id: channelId },
+      select: {
+        id: true,
+        message_retention_days: true,
+        trash_retention_days: true,
+        legal_hold: true,
+        legal_hold_reason: true,
+        legal_hold_set_by: true,
+        legal_hold_set_at: true
+      }
+    })
+  },
+
+  /**
+   * Update a channel's overrides. Placing or lifting a hold records who did it.
+   */
+  async updateChannelPolicy(channelId: string, userId: string, data: {
+    message_retention_days?: number | null
+    trash_retention_days?: number | null
+    legal_hold?: boolean
+    legal_hold_reason?: string | null
+  }) {
+    const update: Record<string, unknown> = {}
+    if (data.message_retention_days !== undefined) update.message_retention_days = data.message_retention_days
+    if (data.trash_retention_days !== undefined) update.trash_retention_days = data.trash_retention_days
+    if (data.legal_hold !== undefined) {
+      update.legal_hold = data.legal_hold
+      update.legal_hold_reason = data.legal_hold ? data.legal_hold_reason ?? null : null
+      update.legal_hold_set_by = userId
+      update.legal_hold_set_at = new Date()
+    } else if (data.legal_hold_reason !== undefined) {
+      update.legal_hold_reason = data.legal_hold_reason
+    }
+
+    await prisma.channels.update({ where: { id: channelId }, data: update })
+    communicationCache.invalidate(`channel:${channelId}`)
+    return retentionOps.getChannelPolicy(channelId)
+  },
+
+  /**
+   * Channels the purge job may touch - anything under legal hold is left out
+   */
+  async getPurgeableChannels() {
+    return prisma.channels.findMany({
+      where: { legal_hold: false },
+      select: { id: true, message_retention_days: true, trash_retention_days: true }
+    })
+  },
+
+  /**
+   * Oldest messages in a channel that a policy has expired. A thread starter is
+   * only expired once every reply is too, and comes with all of its replies in
+   * the same batch, since deleting it on its own would turn the replies into
+   * top-level messages (parent_message_id is ON DELETE SET NULL). Trashed
+   * starters stay as tombstones until their replies are gone.
+   */
+  async findExpired(channelId: string, kind: RetentionPolicyKind, cutoff: Date, limit: number = 200) {
+    const select = {
+      id: true,
+      parent_message_id: true,
+      attachments: { select: { id: true, s3_key: true, file_name: true } }
+    }
+
+    const expired = await prisma.messages.findMany({
+      where: kind === 'trash'
+        ? { channel_id: channelId, is_trashed: true, trashed_at: { lt: cutoff }, other_messages: { none: {} } }
+        : { channel_id: channelId, created_at: { lt: cutoff }, other_messages: { none: { created_at: { gte: cutoff } } } },
+      select,
+      orderBy: { created_at: 'asc' },
+      take: limit
+    })
+
+    const batchIds = expired.map(message => message.id)
+    const starterIds = expired.filter(message => !message.parent_message_id).map(message => message.id)
+    if (kind === 'trash' || starterIds.length === 0) return expired
+
+    const replies = await prisma.messages.findMany({
+      where: { parent_message_id: { in: starterIds }, id: { notIn: batchIds } },
+      select
+    })
+    return [...expired, ...replies]
+  },
+
+  /**
+   * Permanently delete a batch of messages. The channel row is locked before the
+   * hold is checked, so a hold placed while the job runs either waits for the
+   * purge or stops it.
+   */
+  async purge(channelId: string, messages: { id: string; parent_message_id: string | null }[]): Promise<number> {
+    const ids = messages.map(message => message.id)
+    const purgedIds = new Set(ids)
+
+    // Replies whose thread starter survives still count toward its reply_count
+    const repliesByParent = new Map<string, number>()
+    for (const message of messages) {
+      if (message.parent_message_id && !purgedIds.has(message.parent_message_id)) {
+        repliesByParent.set(message.parent_message_id, (repliesByParent.get(message.parent_message_id) || 0) + 1)
+      }
+    }
+
+    const deleted = await prisma.$transaction(async (tx: any) => {
+      const [channel] = await tx.$queryRaw`
+        SELECT legal_hold FROM channels WHERE id = ${channelId}::uuid FOR UPDATE
+      `
+      if (!channel || channel.legal_hold) return 0
+
+      for (const [parentId, count] of repliesByParent) {
+        await tx.messages.updateMany({
+          where: { id: parentId, reply_count: { gte: count } },
+          data: { reply_count: { decrement: count } }
+        })
+      }
+
+      const result = await tx.messages.deleteMany({ where: { id: { in: ids }, channel_id: channelId } })
+      return result.count as number
+    })
+
+    if (deleted > 0) communicationCache.invalidate(`channel:${channelId}`)
+    return deleted
+  }
+}
+
+// ============================================
+// Channel Export Operations
+// ============================================
+
+export const channelExportOps = {
+  async create(data: { channel_id: string; mongo_requested_by: string; from_date: Date; to_date: Date }) {
+    return prisma.channel_exports.create({ data })
+  },
+
+  async getById(exportId: string) {
+    return prisma.channel_exports.findUnique({ where: { id: exportId } })
+  },
+
+  /**
+   * Most recent exports of a channel
+   */
+  async listByChannel(channelId: string, limit: number = 20) {
+    return prisma.channel_exports.findMany({
+      where: { channel_id: channelId },
+      orderBy: { created_at: 'desc' },
+      take: limit
+    })
+  },
+
+  /**
+   * Exports waiting to be built, oldest first
+   */
+  async getPending(limit: number = 5) {
+    return prisma.channel_exports.findMany({
+      where: { status: 'pending' },
+      orderBy: { created_at: 'asc' },
+      take: limit,
+      select: { id: true }
+    })
+  },
+
+  /**
+   * Claim an export for building. Returns null if another worker got it first.
+   */
+  async claim(exportId: string) {
+    const result = await prisma.channel_exports.updateMany({
+      where: { id: exportId, status: 'pending' },
+      data: { status: 'processing', started_at: new Date() }
+    })
+    return result.count > 0 ? channelExportOps.getById(exportId) : null
+  },
+
+  async complete(exportId: string, data: {
+    s3_key: string
+    file_name: string
+    file_size: number
+    message_count: number
+    attachment_count: number
+  }) {
+    return prisma.channel_exports.update({
+      where: { id: exportId },
+      data: { ...data, status: 'completed', error: null, completed_at: new Date() }
+    })
+  },
+
+  /**
+   * Fail builds that have been processing too long - the worker running them died
+   */
+  async failStale(startedBefore: Date): Promise<number> {
+    const result = await prisma.channel_exports.updateMany({
+      where: { status: 'processing', started_at: { lt: startedBefore } },
+      data: { status: 'failed', error: 'Export timed out', completed_at: new Date() }
+    })
+    return result.count
+  },
+
+  async fail(exportId: string, error: string) {
+    return prisma.channel_exports.update({
+      where: { id: exportId },
+      data: { status: 'failed', error, completed_at: new Date() }
+    })
+  },
+
+  /**
+   * Everything an export bundles: the channel's messages in the range, trashed
+   * ones included, with reactions, read receipts and attachments
+   */
+  async getMessagesForExport(channelId: string, from: Date, to: Date, cursor?: { created_at: Date; id: string }, limit: number = 500) {
+    return prisma.messages.findMany({
+      where: {
+        channel_id: channelId,
+        created_at: { gte: from, lte: to },
+        ...(cursor && {
+          OR: [
+            { created_at: { gt: cursor.created_at } },
+            { created_at: cursor.created_at, id: { gt: cursor.id } }
+          ]
+        })
+      },
+      select: {
+        id: true,
+        mongo_sender_id: true,
+        sender_name: true,
+        sender_email: true,
+        sender_role: true,
+        content: true,
+        content_type: true,
+        parent_message_id: true,
+        mongo_mentioned_user_ids: true,
+        is_edited: true,
+        edited_at: true,
+        is_trashed: true,
+        trashed_at: true,
+        trashed_by: true,
+        trash_reason: true,
+        original_content: true,
+        created_at: true,
+        reactions: {
+          select: { mongo_user_id: true, user_name: true, emoji: true, created_at: true },
+          orderBy: { created_at: 'asc' }
+        },
+        read_receipts: {
+          select: { mongo_user_id: true, read_at: true },
+          orderBy: { read_at: 'asc' }
+        },
+        attachments: {
+          select: { id: true, file_name: true, file_type: true, file_size: true, s3_key: true, created_at: true }
+        }
+      },
+      orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+      take: limit
+    })
+  }
+}
+
 // ============================================
 // Type Exports
 // ============================================
@@ -1237,3 +2264,4 @@ export const memberOps = {
 export type ChannelWithMembers = Awaited<ReturnType<typeof channelOps.getById>>
 export type MessageWithDetails = Awaited<ReturnType<typeof messageOps.create>>
 export type ReactionToggleResult = Awaited<ReturnType<typeof reactionOps.toggle>>
+export type ExportMessage = Awaited<ReturnType<typeof channelExportOps.getMessagesForExport>>[number]
@@ -0,0 +1,79 @@
+/**
+ * Poll Posting
+ *
+ * Creates a poll message and delivers it to the channel. Shared by the polls
+ * API and the /poll slash command; callers check channel access first.
+ */
+import { prisma } from '@/lib/prisma'
+import { apiLogger as logger } from '@/lib/logger'
+import type { CreatePollData } from '@/lib/validations/channel'
+import { pollOps } from './operations'
+import { extractRoleName } from './utils'
+import { broadcastNewMessage, broadcastToUser } from './broadcast'
+
+/**
+ * Post a poll as the given user and broadcast it to the other members
+ */
+export async function postPoll(data: CreatePollData, senderId: string, user: any) {
+  const senderName = String(user?.name || user?.email || 'Unknown User')
+  const senderEmail = String(user?.email || '')
+  const senderAvatar = user?.avatar ? String(user.avatar) : undefined
+  const senderRole = extractRoleName(user?.role)
+
+  const { message, poll } = await pollOps.create({
+    channel_id: data.channel_id,
+    question: data.question,
+    options: data.options,
+    allow_multiple: data.allow_multiple,
+    is_anonymous: data.is_anonymous,
+    closes_at: data.closes_at,
+    mongo_sender_id: senderId,
+    sender_name: senderName,
+    sender_email: senderEmail,
+    sender_avatar: senderAvatar,
+    sender_role: senderRole
+  })
+
+  const messageWithSender = {
+    ...message,
+    sender: {
+      mongo_member_id: senderId,
+      name: senderName,
+      email: senderEmail,
+      avatar: senderAvatar || '',
+      role: senderRole,
+      userType: 'User' as const,
+      isOnline: false,
+    },
+    poll
+  }
+
+  setImmediate(async () => {
+    try {
+      // Other members have not voted yet, so the broadcast copy has no my_option_ids
+      const broadcastMessage = { ...messageWithSender, poll: { ...poll, my_option_ids: undefined } }
+
+      await broadcastNewMessage(data.channel_id, broadcastMessage)
+
+      const members = await prisma.channel_members.findMany({
+        where: { channel_id: data.channel_id },
+        select: { mongo_member_id: true }
+      })
+      await Promise.all(
+        members
+          .filter((member: { mongo_member_id: string }) => member.mongo_member_id !== senderId)
+          .map((member: { mongo_member_id: string }) =>
+            broadcastToUser({
+              userId: member.mongo_member_id,
+              event: 'new_message',
+              payload: { message: broadcastMessage }
+            })
+          )
+      )
+    } catch (error) {
+      logger.error('Failed to broadcast poll:', error)
+    }
+  })
+
+  return messageWithSender
+}
@@ -0,0 +1,181 @@
+/**
+ * Message Retention
+ *
+ * Enforces chat retention policies. Messages older than the message policy and
+ * trashed messages older than the trash policy are permanently deleted together
+ * with their S3 attachments, and every purged batch is written to the
+ * MessageAuditLog. Thread starters are only purged together with their
+ * replies. Channels under legal hold are never purged.
+ * Triggered by the /api/cron/message-retention route.
+ */
+import { apiLogger as logger } from '@/lib/logger'
+import { executeGenericDbQuery } from '@/lib/mongodb'
+import { S3Service } from '@/lib/services/s3-service'
+import Settings from '@/models/Settings'
+import MessageAuditLog from '@/models/MessageAuditLog'
+import { retentionOps, type RetentionPolicyKind } from './operations'
+
+export const MESSAGE_RETENTION_SETTING_KEY = 'chat_message_retention_days'
+export const TRASH_RETENTION_SETTING_KEY = 'chat_trash_retention_days'
+export const DEFAULT_MESSAGE_RETENTION_DAYS = 0 // Keep forever
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface RetentionPolicy {
+  messageRetentionDays: number // 0 keeps messages forever
+  trashRetentionDays: number // 0 keeps trashed messages forever
+}
+
+type ChannelRetention = {
+  message_retention_days: number | null
+  trash_retention_days: number | null
+}
+
+type ExpiredMessage = Awaited<ReturnType<typeof retentionOps.findExpired>>[number]
+
+async function getDaysSetting(key: string, fallback: number): Promise<number> {
+  const setting = await executeGenericDbQuery(async () => {
+    return await Settings.getSetting(key)
+  }, `settings-${key}`, 60000)
+
+  const value = Number(setting?.value)
+  return Number.isInteger(value) && value >= 0 ? value : fallback
+}
+
+/**
+ * Workspace-wide policy from Settings
+ */
+export async function getGlobalRetentionPolicy(): Promise<RetentionPolicy> {
+  const [messageRetentionDays, trashRetentionDays] = await Promise.all([
+    getDaysSetting(MESSAGE_RETENTION_SETTING_KEY, DEFAULT_MESSAGE_RETENTION_DAYS),
+    getDaysSetting(TRASH_RETENTION_SETTING_KEY, DEFAULT_TRASH_RETENTION_DAYS),
+  ])
+  return { messageRetentionDays, trashRetentionDays }
+}
+
+/**
+ * Channel overrides win over the global policy
+ */
+export function resolveRetentionPolicy(channel: ChannelRetention, global: RetentionPolicy): RetentionPolicy {
+  return {
+    messageRetentionDays: channel.message_retention_days ?? global.messageRetentionDays,
+    trashRetentionDays: channel.trash_retention_days ?? global.trashRetentionDays,
+  }
+}
+
+/**
+ * How long a trashed message in this channel can still be restored (0 = no limit)
+ */
+export async function getTrashRestoreDays(channelId: string): Promise<number> {
+  const [channel, global] = await Promise.all([
+    retentionOps.getChannelPolicy(channelId),
+    getGlobalRetentionPolicy(),
+  ])
+  if (!channel) return global.trashRetentionDays
+  return resolveRetentionPolicy(channel, global).trashRetentionDays
+}
+
+/**
+ * Purge everything the retention policies have expired, channel by channel
+ */
+export async function purgeExpiredMessages(options: { batchSize?: number; maxBatches?: number } = {}): Promise<{
+  channels: number
+  batches: number
+  purged: number
+  attachmentsDeleted: number
+  failed: number
+}> {
+  const batchSize = options.batchSize ?? 200
+  const maxBatches = options.maxBatches ?? 50
+  const global = await getGlobalRetentionPolicy()
+  const channels = await retentionOps.getPurgeableChannels()
+  const now = Date.now()
+
+  let batches = 0
+  let purged = 0
+  let attachmentsDeleted = 0
+  let failed = 0
+
+  for (const channel of channels) {
+    const policy = resolveRetentionPolicy(channel, global)
+    const passes: [RetentionPolicyKind, number][] = [
+      ['trash', policy.trashRetentionDays],
+      ['messages', policy.messageRetentionDays],
+    ]
+
+    for (const [kind, days] of passes) {
+      if (days <= 0) continue
+      const cutoff = new Date(now - days * DAY_MS)
+
+      // Remaining batches are picked up on the next run
+      while (batches < maxBatches) {
+        const expired = await retentionOps.findExpired(channel.id, kind, cutoff, batchSize)
+        if (expired.length === 0) break
+
+        batches++
+        try {
+          const result = await purgeBatch(channel.id, kind, days, cutoff, expired)
+          purged += result.purged
+          attachmentsDeleted += result.attachmentsDeleted
+          // Nothing deleted means a legal hold was placed mid-run
+          if (result.purged === 0) break
+        } catch (error) {
+          failed++
+          logger.error(`Failed to purge expired ${kind} in channel ${channel.id}:`, error)
+          break
+        }
+
+        if (expired.length < batchSize) break
+      }
+    }
+  }
+
+  return { channels: channels.length, batches, purged, attachmentsDeleted, failed }
+}
+
+async function purgeBatch(
+  channelId: string,
+  kind: RetentionPolicyKind,
+  days: number,
+  cutoff: Date,
+  messages: ExpiredMessage[]
+): Promise<{ purged: number; attachmentsDeleted: number }> {
+  // Rows go first so a hold that wins the race never loses its files
+  const purged = await retentionOps.purge(channelId, messages)
+  if (purged === 0) return { purged: 0, attachmentsDeleted: 0 }
+
+  const s3Keys = messages.flatMap(message =>
+    message.attachments
+      .filter((att: { s3_key: string | null }) => att.s3_key)
+      .map((att: { s3_key: string | null }) => att.s3_key!)
+  )
+  const s3Results = await Promise.allSettled(s3Keys.map(key => S3Service.deleteFile(key)))
+  const s3DeleteErrors = s3Results.filter(result => result.status === 'rejected' || !result.value.success).length
+  if (s3DeleteErrors > 0) {
+    logger.warn(`${s3DeleteErrors} attachment file(s) could not be deleted from S3 while purging channel ${channelId}`)
+  }
+
+  const attachmentsDeleted = messages.reduce((total, message) => total + message.attachments.length, 0)
+
+  await executeGenericDbQuery(async () => {
+    return await MessageAuditLog.create({
+      supabase_message_ids: messages.map(message => message.id),
+      supabase_channel_id: channelId,
+      action: 'retention_purged',
+      actor_name: 'Retention policy',
+      actor_email: 'system',
+      actor_role: 'system',
+      metadata: {
+        retention_policy: kind,
+        retention_days: days,
+        cutoff,
+        message_count: purged,
+        attachments_deleted: attachmentsDeleted,
+        s3_delete_errors: s3DeleteErrors
+      }
+    })
+  })
+
+  return { purged, attachmentsDeleted }
+}
@@ -0,0 +1,113 @@
+/**
+ * Scheduled Message Dispatcher
+ *
+ * Sends messages queued with "schedule send" once their send time has passed.
+ * Triggered by the /api/cron/scheduled-messages route; each message is claimed
+ * before sending, so overlapping runs are safe.
+ */
+import { prisma } from '@/lib/prisma'
+import { apiLogger as logger } from '@/lib/logger'
+import { channelOps, messageOps, scheduledMessageOps } from './operations'
+import { broadcastNewMessage, broadcastToUser, sendMentionNotification } from './broadcast'
+import { transformMessageWithSender } from './utils'
+import { notifyThreadReply } from './threads'
+
+type ScheduledMessage = Awaited<ReturnType<typeof scheduledMessageOps.claimDue>>[number]
+
+// A claimed message should be sent within seconds; longer means the run died
+const STALE_SENDING_MS = 15 * 60 * 1000
+
+/**
+ * Send every scheduled message that is due and fail ones whose send died
+ */
+export async function dispatchDueScheduledMessages(limit: number = 50): Promise<{ sent: number; failed: number; timedOut: number }> {
+  const timedOut = await scheduledMessageOps.failStale(new Date(Date.now() - STALE_SENDING_MS))
+  const due = await scheduledMessageOps.claimDue(limit)
+  let sent = 0
+  let failed = 0
+
+  for (const scheduled of due) {
+    try {
+      await sendScheduledMessage(scheduled)
+      sent++
+    } catch (error) {
+      failed++
+      const reason = error instanceof Error ? error.message : 'Unknown error'
+      logger.error(`Failed to send scheduled message ${scheduled.id}:`, error)
+      await scheduledMessageOps.markFailed(scheduled.id, reason)
+    }
+  }
+
+  return { sent, failed, timedOut }
+}
+
+async function sendScheduledMessage(scheduled: ScheduledMessage) {
+  // The author may have left the channel or lost posting rights since scheduling
+  const [channel, member] = await Promise.all([
+    prisma.channels.findUnique({
+      where: { id: scheduled.channel_id },
+      select: { id: true, admin_only_post: true }
+    }),
+    channelOps.getMember(scheduled.channel_id, scheduled.mongo_sender_id)
+  ])
+
+  if (!channel) {
+    throw new Error('Channel not found')
+  }
+  if (!member) {
+    throw new Error('Sender is no longer a member of this channel')
+  }
+  if (channel.admin_only_post && member.role !== 'admin' && member.role !== 'owner') {
+    throw new Error('Only admins can post messages in this channel')
+  }
+
+  const message = await messageOps.create({
+    channel_id: scheduled.channel_id,
+    mongo_sender_id: scheduled.mongo_sender_id,
+    content: scheduled.content,
+    parent_message_id: scheduled.parent_message_id ?? undefined,
+    mongo_mentioned_user_ids: scheduled.mongo_mentioned_user_ids,
+    sender_name: scheduled.sender_name,
+    sender_email: scheduled.sender_email,
+    sender_avatar: scheduled.sender_avatar ?? undefined,
+    sender_role: scheduled.sender_role
+  })
+  await scheduledMessageOps.markSent(scheduled.id, message.id)
+
+  // The message is sent at this point; delivery problems are only logged
+  try {
+    const messageWithSender = transformMessageWithSender(message)
+    await broadcastNewMessage(scheduled.channel_id, messageWithSender)
+
+    await Promise.all(scheduled.mongo_mentioned_user_ids.map((mentionedUserId: string) =>
+      sendMentionNotification(mentionedUserId, {
+        channelId: scheduled.channel_id,
+        channelName: '', // Will be resolved by client
+        messageId: message.id,
+        mentionedBy: scheduled.mongo_sender_id,
+        mentionedByName: scheduled.sender_name,
+        preview: scheduled.content.slice(0, 100)
+      })
+    ))
+
+    const members = await prisma.channel_members.findMany({
+      where: { channel_id: scheduled.channel_id },
+      select: { mongo_member_id: true }
+    })
+    await Promise.all(members
+      .filter((channelMember: { mongo_member_id: string }) => channelMember.mongo_member_id !== scheduled.mongo_sender_id)
+      .map((channelMember: { mongo_member_id: string }) =>
+        broadcastToUser({
+          userId: channelMember.mongo_member_id,
+          event: 'new_message',
+          payload: { message: messageWithSender }
+        })
+      ))
+
+    if (message.parent_message_id) {
+      await notifyThreadReply(messageWithSender)
+    }
+  } catch (error) {
+    logger.error(`Failed to broadcast scheduled message ${scheduled.id}:`, error)
+  }
+}
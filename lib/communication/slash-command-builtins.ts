@@ -0,0 +1,221 @@
+/**
+ * Built-in Slash Commands
+ *
+ * /task, /remind, /mute, /status and /poll. Registered by the slash command
+ * registry at load time.
+ */
+import { prisma } from '@/lib/prisma'
+import { executeGenericDbQuery } from '@/lib/mongodb'
+import { apiLogger as logger } from '@/lib/logger'
+import User from '@/models/User'
+import { createTaskSchema } from '@/lib/validations/task'
+import { createPollSchema } from '@/lib/validations/channel'
+import { TaskService } from '@/lib/services/task-service'
+import type { SlashCommand } from './slash-commands'
+import { messageReminderOps } from './operations'
+import { broadcastToUser } from './broadcast'
+import { postPoll } from './polls'
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+}
+const MAX_DURATION = 365 * DURATION_UNITS.d
+
+// "30m", "2h", "1d", "1w" to milliseconds; null if not a duration
+function parseDuration(value: string | undefined): number | null {
+  const match = value?.toLowerCase().match(/^(\d{1,4})(m|min|mins|h|hr|hrs|d|w)$/)
+  if (!match) return null
+  const ms = Number(match[1]) * DURATION_UNITS[match[2][0]]
+  return ms > 0 && ms <= MAX_DURATION ? ms : null
+}
+
+const formatTime = (date: Date) =>
+  date.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }) + ' UTC'
+
+const firstIssue = (error: { errors: { message: string }[] }) => error.errors[0]?.message || 'Invalid input'
+
+const taskCommand: SlashCommand = {
+  name: 'task',
+  description: "Create a task in this channel's project",
+  usage: '/task <title>',
+  permission: { resource: 'tasks', action: 'create' },
+  async execute(context) {
+    const projectId = context.channel.mongo_project_id
+    if (!projectId) {
+      return { text: '/task only works in channels linked to a project.' }
+    }
+    if (!context.rawArgs) {
+      return { text: 'Usage: /task <title>' }
+    }
+
+    const department = await TaskService.resolveDepartment(projectId, {
+      userId: context.userId,
+      preferredDepartmentId: context.channel.mongo_department_id
+    })
+    if (!department) {
+      return { text: "This channel's project has no departments to create the task in." }
+    }
+
+    const parsed = createTaskSchema.safeParse({
+      title: context.rawArgs,
+      projectId,
+      departmentId: department.departmentId,
+    })
+    if (!parsed.success) {
+      return { text: `Couldn't create the task: ${firstIssue(parsed.error)}` }
+    }
+
+    const task: any = await TaskService.create(parsed.data, { user: context.user, isSuperAdmin: context.isSuperAdmin })
+    return {
+      text: `Created task "${task.title}".`,
+      link: { url: `/projects/${projectId}?task=${task._id}`, label: 'Open task' }
+    }
+  }
+}
+
+const remindCommand: SlashCommand = {
+  name: 'remind',
+  description: 'Remind yourself about something, or about this thread',
+  usage: '/remind [in] <30m|2h|1d|1w> [note]',
+  async execute(context) {
+    const args = context.args[0]?.toLowerCase() === 'in' ? context.args.slice(1) : context.args
+    const duration = parseDuration(args[0])
+    if (!duration) {
+      return { text: 'Usage: /remind [in] <30m|2h|1d|1w> [note], e.g. /remind in 2h check the deploy' }
+    }
+
+    const remindAt = new Date(Date.now() + duration)
+    const note = context.rawArgs.replace(/^in\s+/i, '').replace(/^\S+\s*/, '').replace(/^"(.*)"$/, '$1').trim()
+
+    // In a thread with no note, remind about the thread itself
+    if (!note && context.parentMessageId) {
+      await messageReminderOps.upsert({
+        message_id: context.parentMessageId,
+        channel_id: context.channel.id,
+        mongo_user_id: context.userId,
+        remind_at: remindAt
+      })
+      return { text: `I'll remind you about this thread on ${formatTime(remindAt)}.` }
+    }
+    if (!note) {
+      return { text: 'Add what to remind you about, e.g. /remind in 2h check the deploy' }
+    }
+    if (note.length > 500) {
+      return { text: 'Reminder notes cannot exceed 500 characters.' }
+    }
+
+    await messageReminderOps.createNote({
+      channel_id: context.channel.id,
+      mongo_user_id: context.userId,
+      note,
+      remind_at: remindAt
+    })
+    return { text: `I'll remind you "${note}" on ${formatTime(remindAt)}.` }
+  }
+}
+
+const muteCommand: SlashCommand = {
+  name: 'mute',
+  description: 'Mute notifications for this channel, or unmute with "off"',
+  usage: '/mute [off]',
+  async execute(context) {
+    const option = context.args[0]?.toLowerCase()
+    if (option && option !== 'off') {
+      return { text: 'Usage: /mute to mute this channel, /mute off to unmute it' }
+    }
+
+    const notificationsEnabled = option === 'off'
+    if (context.member.notifications_enabled !== notificationsEnabled) {
+      await prisma.channel_members.update({
+        where: { id: context.member.id },
+        data: { notifications_enabled: notificationsEnabled }
+      })
+
+      // Same event as the channel menu's mute toggle
+      broadcastToUser({
+        userId: context.userId,
+        event: 'new_message',
+        payload: {
+          id: context.channel.id,
+          type: 'mute_update',
+          channel: { id: context.channel.id, notifications_enabled: notificationsEnabled }
+        }
+      }).catch(err => logger.debug('Failed to broadcast mute change:', err))
+    }
+
+    return { text: notificationsEnabled ? 'Notifications for this channel are on.' : 'This channel is muted.' }
+  }
+}
+
+const statusCommand: SlashCommand = {
+  name: 'status',
+  description: 'Set the status shown next to your name, optionally for a while',
+  usage: '/status <text> [for 2h] | /status clear',
+  async execute(context) {
+    if (!context.rawArgs) {
+      return { text: 'Usage: /status <text> [for 2h], or /status clear' }
+    }
+
+    if (context.rawArgs.toLowerCase() === 'clear') {
+      await executeGenericDbQuery(async () =>
+        await User.updateOne({ _id: context.userId }, { $unset: { chatStatus: 1 } })
+      )
+      return { text: 'Your status has been cleared.' }
+    }
+
+    // "/status In a meeting for 1h" expires; without "for" it stays until changed
+    const match = context.rawArgs.match(/^([\s\S]+?)\s+for\s+(\S+)$/i)
+    const duration = match ? parseDuration(match[2]) : null
+    const text = (duration ? match![1] : context.rawArgs).replace(/^"(.*)"$/, '$1').trim()
+    if (text.length > 100) {
+      return { text: 'Statuses cannot exceed 100 characters.' }
+    }
+
+    const expiresAt = duration ? new Date(Date.now() + duration) : undefined
+    await executeGenericDbQuery(async () =>
+      await User.updateOne({ _id: context.userId }, { $set: { chatStatus: { text, expiresAt } } })
+    )
+    return {
+      text: expiresAt
+        ? `Your status is now "${text}" until ${formatTime(expiresAt)}.`
+        : `Your status is now "${text}".`
+    }
+  }
+}
+
+const pollCommand: SlashCommand = {
+  name: 'poll',
+  description: 'Post a quick poll',
+  usage: '/poll "Question" "Option 1" "Option 2"',
+  permission: { resource: 'communication', action: 'create' },
+  async execute(context) {
+    if (context.args.length < 3) {
+      return { text: 'Usage: /poll "Question" "Option 1" "Option 2" (up to 10 options)' }
+    }
+
+    const { channel, member } = context
+    if (channel.admin_only_post && member.role !== 'admin' && member.role !== 'owner') {
+      return { text: 'Only admins can post messages in this channel.' }
+    }
+
+    const [question, ...options] = context.args
+    const parsed = createPollSchema.safeParse({ channel_id: channel.id, question, options })
+    if (!parsed.success) {
+      return { text: `Couldn't create the poll: ${firstIssue(parsed.error)}` }
+    }
+
+    const message = await postPoll(parsed.data, context.userId, context.user)
+    return { text: `Poll posted: "${parsed.data.question}"`, message }
+  }
+}
+
+export const builtInSlashCommands: SlashCommand[] = [
+  taskCommand,
+  remindCommand,
+  muteCommand,
+  statusCommand,
+  pollCommand,
+]
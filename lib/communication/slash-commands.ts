@@ -0,0 +1,161 @@
+/**
+ * Slash Command Registry
+ *
+ * Commands typed as "/name args" in the message box run here instead of being
+ * posted. Each command replies with an ephemeral system message that only the
+ * caller sees. Built-ins are registered below; further commands can be added
+ * with registerSlashCommand.
+ */
+import type { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiLogger as logger } from '@/lib/logger'
+import { ServerPermissionManager } from '@/lib/permissions/server'
+import type { ICommunication, ISlashCommand } from '@/types/communication'
+import { channelOps } from './operations'
+import { builtInSlashCommands } from './slash-command-builtins'
+
+type ChannelRecord = NonNullable<Awaited<ReturnType<typeof prisma.channels.findUnique>>>
+type MemberRecord = NonNullable<Awaited<ReturnType<typeof channelOps.getMember>>>
+
+export interface SlashCommandContext {
+  request: NextRequest
+  user: any // Session user from the route middleware
+  userId: string
+  isSuperAdmin: boolean
+  channel: ChannelRecord
+  member: MemberRecord
+  args: string[] // Arguments split on spaces; "quoted text" stays together
+  rawArgs: string // Everything after the command name
+  parentMessageId?: string // Set when the command was typed in a thread
+}
+
+export interface SlashCommandResult {
+  text: string
+  link?: { url: string; label: string }
+  message?: any // A message the command posted, added to the caller's view right away
+}
+
+export interface SlashCommand {
+  name: string // Without the slash, lowercase
+  description: string
+  usage: string
+  permission?: { resource: string; action: string } // Checked on top of channel membership
+  execute: (context: SlashCommandContext) => Promise<SlashCommandResult>
+}
+
+const registry = new Map<string, SlashCommand>()
+
+export function registerSlashCommand(command: SlashCommand) {
+  const name = command.name.toLowerCase()
+  if (!/^[a-z][a-z0-9-]*$/.test(name)) {
+    throw new Error(`Invalid slash command name: ${command.name}`)
+  }
+  registry.set(name, { ...command, name })
+}
+
+export function getSlashCommand(name: string): SlashCommand | undefined {
+  return registry.get(name.toLowerCase())
+}
+
+// Metadata for the command picker
+export function listSlashCommands(): ISlashCommand[] {
+  return Array.from(registry.values())
+    .map(({ name, description, usage }) => ({ name, description, usage }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Split "/name rest" into the command name and its arguments. Returns null if
+ * the text is not a slash command.
+ */
+export function parseSlashCommand(text: string): { name: string; rawArgs: string; args: string[] } | null {
+  const match = text.trim().match(/^\/([a-zA-Z][\w-]*)(?:\s+([\s\S]*))?$/)
+  if (!match) return null
+
+  const rawArgs = (match[2] || '').trim()
+  const args: string[] = []
+  const tokenPattern = /"([^"]*)"|“([^”]*)”|(\S+)/g
+  let token: RegExpExecArray | null
+  while ((token = tokenPattern.exec(rawArgs))) {
+    args.push(token[1] ?? token[2] ?? token[3])
+  }
+
+  return { name: match[1].toLowerCase(), rawArgs, args }
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/**
+ * A system message that is returned to the caller only and never stored
+ */
+export function buildEphemeralMessage(channelId: string, result: SlashCommandResult, parentMessageId?: string): ICommunication {
+  const link = result.link
+    ? ` <a href="${escapeHtml(result.link.url)}">${escapeHtml(result.link.label)}</a>`
+    : ''
+
+  return {
+    id: `ephemeral-${crypto.randomUUID()}`,
+    channel_id: channelId,
+    mongo_sender_id: 'system',
+    content: `<p>${escapeHtml(result.text)}${link}</p>`,
+    content_type: 'system',
+    reply_count: 0,
+    is_edited: false,
+    created_at: new Date().toISOString(),
+    parent_message_id: parentMessageId,
+    sender_name: 'System',
+    sender_email: '',
+    sender_role: 'System',
+    is_ephemeral: true
+  }
+}
+
+/**
+ * Run a slash command for a channel member. Problems the caller can fix come
+ * back as the ephemeral reply rather than as errors.
+ */
+export async function runSlashCommand(
+  text: string,
+  options: {
+    request: NextRequest
+    user: any
+    userId: string
+    isSuperAdmin?: boolean
+    channel: ChannelRecord
+    member: MemberRecord
+    parentMessageId?: string
+  }
+): Promise<SlashCommandResult> {
+  const parsed = parseSlashCommand(text)
+  const command = parsed && getSlashCommand(parsed.name)
+  if (!parsed || !command) {
+    return { text: `Unknown command "${text.trim().split(/\s+/)[0]}". Type / to see the available commands.` }
+  }
+
+  if (command.permission) {
+    const permission = await ServerPermissionManager.validatePermission(
+      options.request,
+      command.permission.resource,
+      command.permission.action
+    )
+    if (!permission.success) {
+      return { text: `You don't have permission to use /${command.name}.` }
+    }
+  }
+
+  try {
+    return await command.execute({
+      ...options,
+      isSuperAdmin: !!options.isSuperAdmin,
+      args: parsed.args,
+      rawArgs: parsed.rawArgs
+    })
+  } catch (error) {
+    logger.error(`Slash command /${command.name} failed:`, error)
+    const reason = error instanceof Error ? error.message : 'Unknown error'
+    return { text: `/${command.name} failed: ${reason}` }
+  }
+}
+
+builtInSlashCommands.forEach(registerSlashCommand)
@@ -0,0 +1,138 @@
+/**
+ * Tasks From Messages
+ *
+ * Turns a chat message into a task draft and announces the created task back
+ * in the channel. The task keeps a sourceMessage reference so it can link to
+ * the conversation it came from.
+ */
+import { prisma } from '@/lib/prisma'
+import { apiLogger as logger } from '@/lib/logger'
+import { TASK_CONSTANTS } from '@/lib/validations/task'
+import { channelOps, messageOps } from './operations'
+import { broadcastNewMessage, broadcastToUser } from './broadcast'
+import { transformMessageWithSender } from './utils'
+
+const DRAFT_TITLE_LENGTH = 120
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// Message bodies are rich text; task titles are plain
+const toPlainText = (html: string | null | undefined) =>
+  (html || '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text
+
+/**
+ * Load a message the user can see, with its channel. Null if it does not
+ * exist, is in the trash or the user is not a member of its channel.
+ */
+export async function getSourceMessage(messageId: string, userId: string, channelId?: string) {
+  const message = await prisma.messages.findFirst({
+    where: { id: messageId, is_trashed: false, ...(channelId && { channel_id: channelId }) },
+    include: {
+      attachments: { select: { file_name: true } },
+      channels: { select: { id: true, name: true, mongo_project_id: true, mongo_department_id: true } }
+    }
+  })
+  if (!message || message.hidden_by_users?.includes(userId)) return null
+
+  const isMember = await channelOps.isMember(message.channel_id, userId)
+  return isMember ? message : null
+}
+
+type SourceMessage = NonNullable<Awaited<ReturnType<typeof getSourceMessage>>>
+
+// Plain text as paragraphs for the rich text description
+const toParagraphs = (text: string) =>
+  text.split('\n').filter(line => line.trim()).map(line => `<p>${escapeHtml(line)}</p>`).join('')
+
+/**
+ * Title and description for a task created from a message: the first line
+ * becomes the title and the message, with attribution, the description.
+ */
+export function buildTaskDraft(message: SourceMessage) {
+  const text = toPlainText(message.content)
+  const firstLine = text.split('\n').find(line => line.trim())?.trim() || ''
+  const fileNames: string[] = message.attachments.map((attachment: { file_name: string }) => attachment.file_name)
+
+  let title = truncate(firstLine, DRAFT_TITLE_LENGTH)
+  if (title.length < TASK_CONSTANTS.TITLE.MIN_LENGTH) {
+    title = fileNames.length > 0
+      ? truncate(`Review ${fileNames[0]}`, DRAFT_TITLE_LENGTH)
+      : `Follow up on ${message.sender_name}'s message`
+  }
+
+  const attribution =
+    `<p><em>From ${escapeHtml(message.sender_name)} in #${escapeHtml(message.channels?.name || 'channel')}</em></p>` +
+    (fileNames.length > 0 ? `<p><em>Attachments: ${escapeHtml(fileNames.join(', '))}</em></p>` : '')
+  const budget = TASK_CONSTANTS.DESCRIPTION.MAX_LENGTH - attribution.length
+
+  // Keep the message's formatting when it fits; otherwise shorten its text
+  let body = message.content.trim()
+  if (body.length > budget) {
+    let length = budget
+    do {
+      body = toParagraphs(truncate(text, length))
+      length -= body.length - budget
+    } while (body.length > budget && length > 0)
+  }
+
+  return { title, description: `${body}${attribution}` }
+}
+
+/**
+ * Post a system message linking to a task created from one of the channel's
+ * messages. The creator receives it through the realtime broadcast as well.
+ */
+export async function announceTaskFromMessage(
+  task: { _id: any; title: string; projectId: any },
+  source: { messageId: string; channelId: string },
+  creatorName: string
+) {
+  const taskUrl = `/projects/${task.projectId}?task=${task._id}`
+  const messageUrl = `/communications?channel=${source.channelId}&message=${source.messageId}`
+
+  const message = await messageOps.create({
+    channel_id: source.channelId,
+    mongo_sender_id: 'system',
+    content: `<p>${escapeHtml(creatorName)} created the task <a href="${escapeHtml(taskUrl)}">${escapeHtml(task.title)}</a> from <a href="${escapeHtml(messageUrl)}">a message</a>.</p>`,
+    content_type: 'system',
+    sender_name: 'System',
+    sender_email: '',
+    sender_role: 'System'
+  })
+
+  try {
+    const messageWithSender = transformMessageWithSender(message)
+    await broadcastNewMessage(source.channelId, messageWithSender)
+
+    const members = await prisma.channel_members.findMany({
+      where: { channel_id: source.channelId },
+      select: { mongo_member_id: true }
+    })
+    await Promise.all(members.map((member: { mongo_member_id: string }) =>
+      broadcastToUser({
+        userId: member.mongo_member_id,
+        event: 'new_message',
+        payload: { message: messageWithSender }
+      })
+    ))
+  } catch (error) {
+    logger.error(`Failed to broadcast task announcement for message ${source.messageId}:`, error)
+  }
+
+  return message
+}
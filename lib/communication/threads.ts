@@ -0,0 +1,42 @@
+/**
+ * Thread Follow-up
+ *
+ * Runs after a reply is posted: the replier and the thread starter follow the
+ * thread, and every other follower gets a thread_reply event so their Threads
+ * inbox can refresh.
+ */
+import { prisma } from '@/lib/prisma'
+import { threadOps } from './operations'
+import { broadcastToUser } from './broadcast'
+
+export async function notifyThreadReply(reply: {
+  id: string
+  channel_id: string
+  parent_message_id?: string | null
+  mongo_sender_id: string
+  [key: string]: unknown
+}): Promise<void> {
+  if (!reply.parent_message_id) return
+
+  const root = await prisma.messages.findUnique({
+    where: { id: reply.parent_message_id },
+    select: { id: true, mongo_sender_id: true }
+  })
+  if (!root) return
+
+  await threadOps.follow(root.id, reply.channel_id, reply.mongo_sender_id)
+  if (root.mongo_sender_id !== reply.mongo_sender_id) {
+    await threadOps.follow(root.id, reply.channel_id, root.mongo_sender_id)
+  }
+
+  const followerIds = await threadOps.getFollowerIds(root.id)
+  await Promise.all(followerIds
+    .filter(followerId => followerId !== reply.mongo_sender_id)
+    .map(followerId =>
+      broadcastToUser({
+        userId: followerId,
+        event: 'thread_reply',
+        payload: { channelId: reply.channel_id, threadId: root.id, message: reply }
+      })
+    ))
+}
@@ -17,7 +17,8 @@ export function enrichChannelWithUserData(channel: any, users: any[]) {
         email: user?.email || '',
         avatar: user?.avatar || '',
         userType: user?.isClient ? 'Client' : 'User',
-        isOnline: member.is_online || false
+        isOnline: member.is_online || false,
+        status_text: getActiveChatStatus(user?.chatStatus)
       }
     }) || []
 
@@ -34,6 +35,15 @@ export function enrichChannelWithUserData(channel: any, users: any[]) {
   }
 }
 
+/**
+ * A user's chat status text, or null once it has expired
+ */
+export function getActiveChatStatus(chatStatus?: { text?: string; expiresAt?: Date | string } | null): string | null {
+  if (!chatStatus?.text) return null
+  if (chatStatus.expiresAt && new Date(chatStatus.expiresAt).getTime() <= Date.now()) return null
+  return chatStatus.text
+}
+
 /**
  * Transform a message with denormalized sender fields to include sender object.
  * This is the preferred method as it doesn't require MongoDB lookups.
@@ -111,4 +121,27 @@ export function enrichMessageWithUserData(message: any, users: any[]) {
     logger.error('Error enriching message with user data:', error)
     return null
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Extract role name from MongoDB role field.
+ * Handles: string, ObjectId, or populated {name: string} object
+ */
+export function extractRoleName(role: unknown): string {
+  if (!role) return 'User'
+  
+  if (typeof role === 'string') {
+    return role
+  }
+  
+  if (typeof role === 'object' && role !== null) {
+    // Populated role object with name field
+    const roleObj = role as { name?: string }
+    if (roleObj.name && typeof roleObj.name === 'string') {
+      return roleObj.name
+    }
+  }
+  
+  // ObjectId or unknown - default to 'User'
+  return 'User'
+}
@@ -15,6 +15,7 @@ export const RESOURCES = {
   SYSTEM: 'system',
   PROJECTS: 'projects',
   TASKS: 'tasks',
+  TIMESHEETS: 'timesheets',
   LEADS: 'leads',
   PROPOSALS: 'proposals',
   REPORTS: 'reports',
@@ -169,6 +170,19 @@ export const COMPREHENSIVE_PERMISSIONS: Record<string, PermissionDefinition> = {
     ]
   },
 
+  // ===== TIMESHEETS =====
+  TIMESHEETS: {
+    resource: 'timesheets',
+    displayName: 'Timesheets',
+    description: 'Review weekly timesheets submitted by other users',
+    category: 'task_management',
+    isCore: true,
+    availableActions: [
+      { action: 'read', description: 'View submitted timesheets', conditions: ['subordinates', 'unrestricted'] },
+      { action: 'approve', description: 'Approve or reject submitted timesheets', conditions: ['subordinates', 'unrestricted'] },
+    ]
+  },
+
   // ===== LEAD MANAGEMENT =====
   LEADS: {
     resource: 'leads',
@@ -18,6 +18,8 @@ import '../models/Lead'
 import '../models/Comment'
 import '../models/Media'
 import '../models/TimeLog'
+import '../models/ActiveTimer'
+import '../models/Timesheet'
 import '../models/TwoFactorToken'
 
 // Initialize model registration
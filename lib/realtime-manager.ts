@@ -1,5 +1,6 @@
 import { supabase } from '@/lib/supabase'
 import { RealtimeChannel } from '@supabase/supabase-js'
+import type { IChannelUnreadSummary, IPollSummary } from '@/types/communication'
 
 // ============================================
 // Type Definitions
@@ -34,6 +35,7 @@ export interface RealtimeEventHandlers {
     mongo_user_id: string
     emoji: string
   }) => void
+  onPollUpdate?: (data: { messageId: string; poll: IPollSummary }) => void
   onChannelUpdate?: (channel: any) => void
   onAttachmentsAdded?: (data: { channelId: string; messageId?: string; attachments: any[] }) => void
   onMentionNotification?: (data: { 
@@ -47,6 +49,9 @@ export interface RealtimeEventHandlers {
   }) => void
   onUserPin?: (data: { pinner_id: string; pinned_user_id: string; is_pinned: boolean }) => void
   onNewMessageNotification?: (data: { message: any }) => void
+  onThreadReply?: (data: { channelId: string; threadId: string; message: any }) => void
+  onUnreadUpdate?: (data: IChannelUnreadSummary) => void
+  onTimerUpdate?: (data: { timer: any | null; reason: string; timeLogId: string | null }) => void
 }
 
 export interface PresenceState {
@@ -412,6 +417,17 @@ export class RealtimeManager {
             console.warn('📨 No onNewMessageNotification handler registered!')
           }
         })
+        .on('broadcast', { event: 'thread_reply' }, (payload) => {
+          console.log('🧵 Received thread reply notification:', payload.payload)
+          this.eventHandlers.onThreadReply?.(payload.payload)
+        })
+        .on('broadcast', { event: 'unread_updated' }, (payload) => {
+          console.log('🔴 Received unread update:', payload.payload)
+          this.eventHandlers.onUnreadUpdate?.(payload.payload as IChannelUnreadSummary)
+        })
+        .on('broadcast', { event: 'timer_update' }, (payload) => {
+          this.eventHandlers.onTimerUpdate?.(payload.payload as any)
+        })
 
       this.notificationChannel.subscribe((status, err) => {
         console.log(`🔔 Notification channel ${channelName} status:`, status)
@@ -656,6 +672,10 @@ export class RealtimeManager {
           console.log('👎 Realtime: Reaction removed', payload)
           this.eventHandlers.onReactionRemove?.(payload.payload)
         })
+        .on('broadcast', { event: 'poll_updated' }, (payload) => {
+          console.log('📊 Realtime: Poll updated', payload)
+          this.eventHandlers.onPollUpdate?.(payload.payload)
+        })
         .on('broadcast', { event: 'bulk_message_read' }, (payload) => {
           console.log('👁️ Realtime: Bulk message read', payload)
           // Handle bulk read receipts - update all message read receipts
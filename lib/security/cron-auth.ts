@@ -0,0 +1,12 @@
+import { type NextRequest } from "next/server"
+
+/**
+ * Scheduled jobs call `/api/cron/*` with `Authorization: Bearer <CRON_SECRET>`.
+ * Requests are rejected when the secret is not configured.
+ */
+export function isAuthorizedCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  return request.headers.get('authorization') === `Bearer ${secret}`
+}
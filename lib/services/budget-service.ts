@@ -0,0 +1,354 @@
+import mongoose from 'mongoose'
+import { executeGenericDbQuery, clearCache } from '@/lib/mongodb'
+import TimeLog from '@/models/TimeLog'
+import Project from '@/models/Project'
+import Milestone from '@/models/Milestone'
+import Phase from '@/models/Phase'
+import User from '@/models/User'
+import Settings from '@/models/Settings'
+import { NotificationService } from './notification-service'
+
+export const DEFAULT_HOURLY_RATE_SETTING_KEY = 'default_hourly_rate'
+
+// Percent of budget at which project owners are alerted, each at most once
+export const BUDGET_ALERT_THRESHOLDS = [75, 90, 100] as const
+
+export interface BudgetBurnPoint {
+  week: string
+  cost: number | null
+  actualCost: number | null
+  remaining: number | null
+  plannedRemaining: number | null
+}
+
+export interface BudgetBurnDown {
+  budget: number
+  actualCost: number
+  percentUsed: number
+  thresholds: readonly number[]
+  series: BudgetBurnPoint[]
+  milestones: { _id: string; title: string; budgetAllocation: number; actualCost: number }[]
+  phases: { _id: string; title: string; budgetAllocation: number; actualCost: number }[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEK_MS = 7 * DAY_MS
+const MAX_BURN_WEEKS = 104
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+// Monday 00:00 UTC of the week containing `date`, matching timesheet weeks
+const getWeekStart = (date: Date | string) => {
+  const d = new Date(date)
+  const monday = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate())
+  return monday - ((new Date(monday).getUTCDay() + 6) % 7) * DAY_MS
+}
+
+export class BudgetService {
+  /**
+   * Hourly rate per user: the user's own rate, then their role's, then the default setting
+   */
+  static async resolveHourlyRates(userIds: string[]): Promise<Map<string, number>> {
+    const [users, setting] = await Promise.all([
+      executeGenericDbQuery(async () => {
+        return await User.find({ _id: { $in: userIds } })
+          .select('hourlyRate role')
+          .populate('role', 'hourlyRate')
+          .lean()
+      }),
+      executeGenericDbQuery(async () => {
+        return await Settings.getSetting(DEFAULT_HOURLY_RATE_SETTING_KEY)
+      }, `settings-${DEFAULT_HOURLY_RATE_SETTING_KEY}`, 60000)
+    ])
+
+    const defaultRate = Number(setting?.value)
+    const fallback = Number.isFinite(defaultRate) && defaultRate >= 0 ? defaultRate : 0
+
+    const rates = new Map<string, number>()
+    for (const userId of userIds) {
+      const user: any = users.find((u: any) => u._id.toString() === userId)
+      const rate = user?.hourlyRate ?? user?.role?.hourlyRate ?? fallback
+      rates.set(userId, rate)
+    }
+
+    return rates
+  }
+
+  /**
+   * Snapshot cost rate and cost onto approved logs matching `filter`.
+   * Returns the ids of the projects whose logs were costed.
+   */
+  static async applyApprovedCosts(filter: Record<string, any>): Promise<string[]> {
+    const logs = await executeGenericDbQuery(async () => {
+      return await TimeLog.find({ ...filter, isApproved: true, isDeleted: false })
+        .select('userId projectId hours')
+        .lean()
+    })
+
+    if (logs.length === 0) return []
+
+    const userIds = Array.from(new Set(logs.map((log: any) => log.userId.toString())))
+    const rates = await this.resolveHourlyRates(userIds)
+
+    await executeGenericDbQuery(async () => {
+      return await TimeLog.bulkWrite(logs.map((log: any) => {
+        const costRate = rates.get(log.userId.toString()) || 0
+        return {
+          updateOne: {
+            filter: { _id: log._id },
+            update: { $set: { costRate, cost: roundMoney(log.hours * costRate) } }
+          }
+        }
+      }))
+    })
+
+    return Array.from(new Set(logs.map((log: any) => log.projectId.toString())))
+  }
+
+  /**
+   * Recompute actualCost on the project and its milestones and phases from approved
+   * time, then send any budget threshold alerts that have newly been crossed
+   */
+  static async recalculateProjectCosts(projectId: string, actor?: { _id?: any; id?: string; name?: string }): Promise<number> {
+    // Logs approved before costing existed are priced at the current rates
+    await this.applyApprovedCosts({ projectId, cost: { $exists: false } })
+
+    const costByTask = await this.getApprovedCostByTask(projectId)
+    const actualCost = roundMoney(Array.from(costByTask.values()).reduce((total, cost) => total + cost, 0))
+
+    const milestones = await executeGenericDbQuery(async () => {
+      return await Milestone.find({ projectId, isDeleted: false }).select('phaseId linkedTaskIds').lean()
+    })
+
+    // A task linked to several milestones in one phase only counts once for that phase
+    const phaseTasks = new Map<string, Set<string>>()
+    const milestoneUpdates = milestones.map((milestone: any) => {
+      const taskIds: string[] = (milestone.linkedTaskIds || []).map((id: any) => id.toString())
+      if (milestone.phaseId) {
+        const key = milestone.phaseId.toString()
+        const tasks = phaseTasks.get(key) || new Set<string>()
+        taskIds.forEach(id => tasks.add(id))
+        phaseTasks.set(key, tasks)
+      }
+
+      return {
+        updateOne: {
+          filter: { _id: milestone._id },
+          update: { $set: { actualCost: this.sumTaskCosts(taskIds, costByTask) } }
+        }
+      }
+    })
+
+    const phases = await executeGenericDbQuery(async () => {
+      return await Phase.find({ projectId, isDeleted: false }).select('_id').lean()
+    })
+
+    const phaseUpdates = phases.map((phase: any) => ({
+      updateOne: {
+        filter: { _id: phase._id },
+        update: { $set: { actualCost: this.sumTaskCosts(Array.from(phaseTasks.get(phase._id.toString()) || []), costByTask) } }
+      }
+    }))
+
+    const project = await executeGenericDbQuery(async () => {
+      if (milestoneUpdates.length > 0) await Milestone.bulkWrite(milestoneUpdates)
+      if (phaseUpdates.length > 0) await Phase.bulkWrite(phaseUpdates)
+
+      return await Project.findByIdAndUpdate(
+        projectId,
+        { $set: { actualCost } },
+        { new: true }
+      )
+    })
+
+    if (project) {
+      await this.checkBudgetThresholds(project, actor)
+    }
+
+    clearCache(`project-${projectId}`)
+    clearCache('projects')
+    clearCache('milestones')
+    clearCache('phases')
+
+    return actualCost
+  }
+
+  /**
+   * Notify the project owner and approver the first time spend crosses each threshold.
+   * Thresholds the project has dropped back under are cleared so they can fire again.
+   */
+  static async checkBudgetThresholds(project: any, actor?: { _id?: any; id?: string; name?: string }): Promise<number[]> {
+    const budget = project.budget || 0
+    if (budget <= 0) return []
+
+    const actualCost = project.actualCost || 0
+    const percentUsed = (actualCost / budget) * 100
+    const previous: any[] = project.budgetAlerts || []
+
+    const stillCrossed = previous.filter(alert => alert.threshold <= percentUsed)
+    const newlyCrossed = BUDGET_ALERT_THRESHOLDS.filter(threshold =>
+      threshold <= percentUsed && !stillCrossed.some(alert => alert.threshold === threshold)
+    )
+
+    if (newlyCrossed.length === 0 && stillCrossed.length === previous.length) {
+      return []
+    }
+
+    const now = new Date()
+    await executeGenericDbQuery(async () => {
+      return await Project.updateOne(
+        { _id: project._id },
+        {
+          $set: {
+            budgetAlerts: [
+              ...stillCrossed,
+              ...newlyCrossed.map(threshold => ({ threshold, triggeredAt: now, actualCost }))
+            ],
+          }
+        }
+      )
+    })
+
+    if (newlyCrossed.length > 0) {
+      // Only the highest threshold is worth a notification when several are crossed at once
+      await this.notifyThreshold(project, Math.max(...newlyCrossed), percentUsed, actor)
+    }
+
+    return newlyCrossed
+  }
+
+  /**
+   * Weekly cumulative approved cost against the budget, with milestone and phase totals
+   */
+  static async getBurnDown(projectId: string): Promise<BudgetBurnDown | null> {
+    const project = await executeGenericDbQuery(async () => {
+      return await Project.findById(projectId).select('budget actualCost startDate endDate createdAt').lean()
+    }) as any
+
+    if (!project) return null
+
+    const [dailyCosts, milestones, phases] = await Promise.all([
+      executeGenericDbQuery(async () => {
+        return await TimeLog.aggregate([
+          { $match: { projectId: new mongoose.Types.ObjectId(projectId), isApproved: true, isDeleted: false } },
+          { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$date' } }, cost: { $sum: { $ifNull: ['$cost', 0] } } } },
+          { $sort: { _id: 1 } }
+        ])
+      }),
+      executeGenericDbQuery(async () => {
+        return await Milestone.find({ projectId, isDeleted: false }).select('title budgetAllocation actualCost').sort({ dueDate: 1 }).lean()
+      }),
+      executeGenericDbQuery(async () => {
+        return await Phase.find({ projectId, isDeleted: false }).select('title budgetAllocation actualCost').sort({ order: 1 }).lean()
+      })
+    ])
+
+    const budget = project.budget || 0
+    const actualCost = project.actualCost || 0
+
+    const costByWeek = new Map<number, number>()
+    for (const day of dailyCosts) {
+      const week = getWeekStart(day._id)
+      costByWeek.set(week, (costByWeek.get(week) || 0) + day.cost)
+    }
+
+    const currentWeek = getWeekStart(new Date())
+    const loggedWeeks = Array.from(costByWeek.keys())
+    const firstWeek = Math.min(
+      getWeekStart(project.startDate || project.createdAt),
+      ...loggedWeeks
+    )
+    const plannedEnd = project.endDate ? getWeekStart(project.endDate) : null
+    const lastWeek = Math.max(currentWeek, plannedEnd || 0, ...loggedWeeks)
+    const startWeek = Math.max(firstWeek, lastWeek - (MAX_BURN_WEEKS - 1) * WEEK_MS)
+
+    // Spend before the charted window still counts towards the running total
+    let cumulative = Array.from(costByWeek.entries())
+      .filter(([week]) => week < startWeek)
+      .reduce((total, [, cost]) => total + cost, 0)
+
+    const series: BudgetBurnPoint[] = []
+    for (let week = startWeek; week <= lastWeek; week += WEEK_MS) {
+      const isFuture = week > currentWeek
+      const cost = costByWeek.get(week) || 0
+      cumulative += cost
+
+      let plannedRemaining: number | null = null
+      if (budget > 0 && plannedEnd && plannedEnd > firstWeek) {
+        const progress = Math.min(1, Math.max(0, (week - firstWeek) / (plannedEnd - firstWeek)))
+        plannedRemaining = roundMoney(budget * (1 - progress))
+      }
+
+      series.push({
+        week: new Date(week).toISOString().split('T')[0],
+        cost: isFuture ? null : roundMoney(cost),
+        actualCost: isFuture ? null : roundMoney(cumulative),
+        remaining: isFuture || budget <= 0 ? null : roundMoney(budget - cumulative),
+        plannedRemaining,
+      })
+    }
+
+    const toBudgetLine = (item: any) => ({
+      _id: item._id.toString(),
+      title: item.title,
+      budgetAllocation: item.budgetAllocation || 0,
+      actualCost: item.actualCost || 0,
+    })
+
+    return {
+      budget,
+      actualCost,
+      percentUsed: budget > 0 ? Math.round((actualCost / budget) * 100) : 0,
+      thresholds: BUDGET_ALERT_THRESHOLDS,
+      series,
+      milestones: milestones.map(toBudgetLine),
+      phases: phases.map(toBudgetLine),
+    }
+  }
+
+  private static async getApprovedCostByTask(projectId: string): Promise<Map<string, number>> {
+    const totals = await executeGenericDbQuery(async () => {
+      return await TimeLog.aggregate([
+        { $match: { projectId: new mongoose.Types.ObjectId(projectId), isApproved: true, isDeleted: false } },
+        { $group: { _id: '$taskId', cost: { $sum: { $ifNull: ['$cost', 0] } } } }
+      ])
+    })
+
+    return new Map(totals.map((row: any) => [row._id.toString(), row.cost]))
+  }
+
+  private static sumTaskCosts(taskIds: string[], costByTask: Map<string, number>): number {
+    return roundMoney(taskIds.reduce((total, id) => total + (costByTask.get(id) || 0), 0))
+  }
+
+  private static async notifyThreshold(project: any, threshold: number, percentUsed: number, actor?: { _id?: any; id?: string; name?: string }) {
+    const recipients = Array.from(new Set(
+      [project.createdBy, project.approvedBy].filter(Boolean).map((id: any) => id.toString())
+    ))
+    const senderId = (actor?._id || actor?.id || project.createdBy).toString()
+    const spent = roundMoney(project.actualCost || 0).toLocaleString()
+    const budget = (project.budget || 0).toLocaleString()
+
+    for (const recipientId of recipients) {
+      try {
+        await NotificationService.createNotification({
+          type: 'budget_threshold',
+          category: 'project',
+          recipientId,
+          senderId,
+          senderName: actor?.name || 'Budget Monitor',
+          title: threshold >= 100 ? `${project.name} is over budget` : `${project.name} has used ${threshold}% of its budget`,
+          message: `Approved time has cost $${spent} of the $${budget} budget (${Math.round(percentUsed)}%)`,
+          entityType: 'project',
+          entityId: project._id.toString(),
+          actionType: 'updated',
+          actionUrl: `/projects/${project._id}`,
+          priority: threshold >= 100 ? 4 : threshold >= 90 ? 3 : 2,
+        })
+      } catch (error) {
+        // The alert is recorded on the project either way, so it is not retried
+        console.error('Failed to send budget threshold notification:', error)
+      }
+    }
+  }
+}
@@ -0,0 +1,255 @@
+import { executeGenericDbQuery, clearCache } from '@/lib/mongodb'
+import Lead, { type ILead } from '@/models/Lead'
+import User from '@/models/User'
+import { LEAD_CONSTANTS } from '@/lib/validations/lead'
+import { performSoftDelete } from '@/lib/utils/soft-delete'
+import {
+  getDuplicateReasons,
+  normalizeLeadIdentity,
+  type DuplicateCandidate,
+} from '@/lib/utils/lead-duplicates'
+import { LeadScoringService } from '@/lib/services/lead-scoring-service'
+import type { LeadDuplicateMatch, LeadDuplicateReason } from '@/types'
+
+// Most matches returned for one candidate
+const MAX_DUPLICATE_MATCHES = 10
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+export class LeadDuplicateService {
+  /**
+   * Existing leads that look like the candidate, best matches first. Matching
+   * is fuzzy, so results are a warning rather than a reason to refuse the lead.
+   * With `viewerId`, only leads that user created come back in full; any other
+   * match gives just its reasons and owning agent.
+   */
+  static async findDuplicates(
+    candidate: DuplicateCandidate,
+    options: { excludeId?: string; viewerId?: string } = {}
+  ): Promise<LeadDuplicateMatch[]> {
+    const identity = normalizeLeadIdentity(candidate)
+
+    // Broad regex prefilter; getDuplicateReasons decides what actually matches
+    const conditions: Record<string, any>[] = []
+    if (identity.email) {
+      const [local, domain] = identity.email.split('@')
+      conditions.push({ email: { $regex: `^${escapeRegex(local)}(\\+[^@]*)?@${escapeRegex(domain)}$`, $options: 'i' } })
+    }
+    if (identity.emailDomain) {
+      conditions.push({ email: { $regex: `@${escapeRegex(identity.emailDomain)}$`, $options: 'i' } })
+      conditions.push({ website: { $regex: `^https?://(www\\.)?${escapeRegex(identity.emailDomain)}([/:?#]|$)`, $options: 'i' } })
+    }
+    if (identity.phone) {
+      conditions.push({ phone: { $regex: `${identity.phone.split('').join('\\D*')}\\D*$` } })
+    }
+    if (identity.company) {
+      const words = identity.company.split(' ').map(escapeRegex)
+      conditions.push({ company: { $regex: `^\\W*${words.join('\\W+')}\\b`, $options: 'i' } })
+    }
+    if (identity.website) {
+      conditions.push({ website: { $regex: `^https?://(www\\.)?${escapeRegex(identity.website)}([/:?#]|$)`, $options: 'i' } })
+      conditions.push({ email: { $regex: `@${escapeRegex(identity.website)}$`, $options: 'i' } })
+    }
+    if (conditions.length === 0) return []
+
+    const filter: Record<string, any> = { isDeleted: { $ne: true }, $or: conditions }
+    if (options.excludeId) {
+      filter._id = { $ne: options.excludeId }
+    }
+
+    const leads = await executeGenericDbQuery(async () => {
+      return await Lead.find(filter)
+        .select('name email phone company website status createdBy createdAt')
+        .populate('createdBy', 'name email')
+        .sort({ createdAt: -1 })
+        .limit(MAX_DUPLICATE_MATCHES * 5)
+        .lean()
+    }) as any[]
+
+    return this.rankMatches(candidate, leads, options.viewerId)
+  }
+
+  /**
+   * Duplicate finder for many candidates at once, such as the rows of an
+   * import file. Leads are read in one pass and indexed by their normalized
+   * identity, so each candidate is matched in memory rather than with its own
+   * set of regex queries.
+   */
+  static async createMatcher(options: { viewerId?: string } = {}): Promise<(candidate: DuplicateCandidate) => LeadDuplicateMatch[]> {
+    const [leads, owners] = await Promise.all([
+      executeGenericDbQuery(async () => {
+        return await Lead.find({ isDeleted: { $ne: true } })
+          .select('name email phone company website status createdBy createdAt')
+          .lean()
+      }),
+      executeGenericDbQuery(async () => {
+        return await User.find().select('name email').lean()
+      }),
+    ]) as [any[], any[]]
+    const ownersById = new Map(owners.map(owner => [String(owner._id), owner]))
+
+    const index = new Map<string, any[]>()
+    const addToIndex = (key: string | undefined, lead: any) => {
+      if (!key) return
+      const bucket = index.get(key)
+      if (bucket) bucket.push(lead)
+      else index.set(key, [lead])
+    }
+
+    for (const lead of leads) {
+      lead.createdBy = ownersById.get(String(lead.createdBy)) || lead.createdBy
+      const identity = normalizeLeadIdentity(lead)
+      addToIndex(identity.email && `email:${identity.email}`, lead)
+      addToIndex(identity.emailDomain && `domain:${identity.emailDomain}`, lead)
+      addToIndex(identity.phone && `phone:${identity.phone}`, lead)
+      addToIndex(identity.company && `company:${identity.company}`, lead)
+      addToIndex(identity.website && `website:${identity.website}`, lead)
+    }
+
+    return (candidate: DuplicateCandidate) => {
+      const identity = normalizeLeadIdentity(candidate)
+      // Websites and company email domains match each other, as in getDuplicateReasons
+      const keys = [
+        identity.email && `email:${identity.email}`,
+        identity.emailDomain && `domain:${identity.emailDomain}`,
+        identity.emailDomain && `website:${identity.emailDomain}`,
+        identity.phone && `phone:${identity.phone}`,
+        identity.company && `company:${identity.company}`,
+        identity.website && `website:${identity.website}`,
+        identity.website && `domain:${identity.website}`,
+      ]
+
+      const found = new Set<any>()
+      for (const key of keys) {
+        if (key) index.get(key)?.forEach(lead => found.add(lead))
+      }
+      return this.rankMatches(candidate, Array.from(found), options.viewerId)
+    }
+  }
+
+  /**
+   * API shape of a matching lead, cut down to its reasons and owner when the
+   * viewer isn't allowed to see it
+   */
+  static toMatch(lead: any, reasons: LeadDuplicateReason[], viewerId?: string): LeadDuplicateMatch {
+    const owner = lead.createdBy
+    const ownerId = String(owner?._id ?? owner)
+    if (viewerId && ownerId !== viewerId) {
+      return {
+        _id: String(lead._id),
+        restricted: true,
+        createdBy: owner?.name ? { _id: ownerId, name: owner.name, email: owner.email } : undefined,
+        reasons,
+      }
+    }
+
+    return {
+      _id: String(lead._id),
+      name: lead.name,
+      email: lead.email,
+      company: lead.company,
+      status: lead.status,
+      createdBy: owner,
+      createdAt: lead.createdAt,
+      reasons,
+    }
+  }
+
+  // Leads that really match the candidate, most reasons first
+  private static rankMatches(candidate: DuplicateCandidate, leads: any[], viewerId?: string): LeadDuplicateMatch[] {
+    return leads
+      .map(lead => this.toMatch(lead, getDuplicateReasons(candidate, lead), viewerId))
+      .filter(match => match.reasons.length > 0)
+      .sort((a, b) => b.reasons.length - a.reasons.length)
+      .slice(0, MAX_DUPLICATE_MATCHES)
+  }
+
+  /**
+   * Fold a duplicate lead into the surviving one: contact history, tags,
+   * custom fields and notes are combined on the survivor, which is rescored,
+   * and the duplicate is soft deleted with a reason pointing at the survivor
+   */
+  static async mergeLeads(survivor: ILead, duplicate: ILead, userEmail: string): Promise<ILead> {
+    if (String(survivor._id) === String(duplicate._id)) {
+      throw new Error('Cannot merge a lead into itself')
+    }
+    if (duplicate.clientId) {
+      throw new Error('Cannot merge away a lead that has been converted to a client. Keep it as the surviving lead instead.')
+    }
+
+    // Contact history from both, oldest first, without entries logged on both
+    const seen = new Set<string>()
+    survivor.contactHistory = [...(survivor.contactHistory || []), ...(duplicate.contactHistory || [])]
+      .filter(entry => {
+        const key = `${new Date(entry.date).getTime()}|${entry.type}|${entry.description}`
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+      .map(entry => ({
+        date: entry.date,
+        type: entry.type,
+        description: entry.description,
+        outcome: entry.outcome,
+        contactPerson: entry.contactPerson,
+      }))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+    // The survivor's tags come first when the combined list hits the limit
+    survivor.tags = Array.from(new Set([...(survivor.tags || []), ...(duplicate.tags || [])].map(tag => tag.trim().toLowerCase())))
+      .filter(Boolean)
+      .slice(0, LEAD_CONSTANTS.TAGS.MAX_COUNT)
+
+    // Survivor values win where both leads set the same field
+    survivor.customFields = { ...(duplicate.customFields || {}), ...(survivor.customFields || {}) }
+    survivor.markModified('customFields')
+
+    if (duplicate.notes?.trim()) {
+      const mergedNotes = [
+        survivor.notes?.trim(),
+        `Merged from ${duplicate.name} (${duplicate.email}):\n${duplicate.notes.trim()}`,
+      ].filter(Boolean).join('\n\n')
+      survivor.notes = mergedNotes.slice(0, LEAD_CONSTANTS.NOTES.MAX_LENGTH)
+    }
+
+    const lastContactDates = [survivor.lastContactDate, duplicate.lastContactDate].filter(Boolean) as Date[]
+    if (lastContactDates.length) {
+      survivor.lastContactDate = new Date(Math.max(...lastContactDates.map(date => new Date(date).getTime())))
+    }
+    if (!survivor.nextFollowUpDate && duplicate.nextFollowUpDate) {
+      survivor.nextFollowUpDate = duplicate.nextFollowUpDate
+    }
+
+    // Delete the duplicate before saving, so a failed merge leaves the survivor
+    // untouched and a retry doesn't copy the duplicate's notes in twice
+    const deleteResult = await performSoftDelete(
+      'lead',
+      String(duplicate._id),
+      userEmail,
+      `Merged into ${survivor.name} (${survivor._id})`
+    )
+    if (!deleteResult.success) {
+      throw new Error(deleteResult.message)
+    }
+
+    try {
+      await LeadScoringService.applyScore(survivor)
+      await executeGenericDbQuery(async () => {
+        return await survivor.save()
+      })
+    } catch (error) {
+      // Bring the duplicate back so the merge can be retried
+      await executeGenericDbQuery(async () => {
+        return await Lead.updateOne(
+          { _id: duplicate._id },
+          { $set: { status: duplicate.status, isDeleted: false }, $unset: { deletedAt: 1, deletedBy: 1, deletionReason: 1 } }
+        )
+      })
+      throw error
+    }
+
+    clearCache('leads')
+    clearCache(`lead-${survivor._id}`)
+    return survivor
+  }
+}
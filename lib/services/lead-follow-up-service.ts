@@ -0,0 +1,304 @@
+import mongoose from 'mongoose'
+import { executeGenericDbQuery, clearCache } from '@/lib/mongodb'
+import Lead, { type ILead } from '@/models/Lead'
+import User from '@/models/User'
+import { NotificationService } from '@/lib/services/notification-service'
+import { EmailService } from '@/lib/services/email-service'
+import { LeadScoringService } from '@/lib/services/lead-scoring-service'
+import { addDays, describeFollowUp, getFollowUpBucket, startOfDay } from '@/lib/utils/lead-follow-ups'
+import type { LeadContactLog } from '@/lib/validations/lead'
+import type { LeadFollowUpBucket, LeadFollowUpQueue } from '@/types'
+
+// How far ahead the queue lists upcoming follow-ups
+const UPCOMING_DAYS = 7
+
+const FOLLOW_UPS_PATH = '/leads/follow-ups'
+
+// Converted, lost and deleted leads are not followed up
+const FOLLOW_UP_STATUSES = ['active']
+
+const FOLLOW_UP_FIELDS = 'name email phone company priority status stage score hotLead nextFollowUpDate lastContactDate contactHistory assignedTo createdBy'
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// The agent who follows a lead up: its assignee, otherwise whoever created it
+const getOwnerId = (lead: { assignedTo?: any; createdBy?: any }) => String(lead.assignedTo || lead.createdBy)
+
+const describeLead = (lead: { name: string; company?: string }) =>
+  lead.company ? `${lead.name} (${lead.company})` : lead.name
+
+export class LeadFollowUpService {
+  /**
+   * Leads a sales agent follows up: assigned to them, or created by them and not assigned
+   */
+  static getOwnerFilter(userId: string): Record<string, any> {
+    const id = new mongoose.Types.ObjectId(userId)
+    return { $or: [{ assignedTo: id }, { assignedTo: null, createdBy: id }] }
+  }
+
+  /**
+   * A sales agent's follow-ups that are overdue, due today or coming up this week
+   */
+  static async getQueue(userId: string, now = new Date()): Promise<LeadFollowUpQueue> {
+    const leads = await executeGenericDbQuery(async () => {
+      return await Lead.find({
+        ...this.getOwnerFilter(userId),
+        isDeleted: { $ne: true },
+        status: { $in: FOLLOW_UP_STATUSES },
+        nextFollowUpDate: { $lt: addDays(startOfDay(now), UPCOMING_DAYS + 1) },
+      })
+        .select(FOLLOW_UP_FIELDS)
+        .sort({ nextFollowUpDate: 1 })
+        .lean()
+    }) as any[]
+
+    const queue: LeadFollowUpQueue = { overdue: [], today: [], upcoming: [], upcomingDays: UPCOMING_DAYS }
+    for (const { contactHistory, ...lead } of leads) {
+      const bucket = getFollowUpBucket({ ...lead, contactHistory }, now, UPCOMING_DAYS)
+      if (bucket) queue[bucket].push(lead)
+    }
+    return queue
+  }
+
+  /**
+   * Add a contact history entry to a lead and, optionally, schedule (or clear)
+   * the next follow-up in the same save
+   */
+  static async logContact(lead: ILead, entry: LeadContactLog): Promise<ILead> {
+    const date = entry.date || new Date()
+
+    lead.contactHistory = [
+      ...(lead.contactHistory || []),
+      {
+        date,
+        type: entry.type,
+        description: entry.description,
+        outcome: entry.outcome,
+        contactPerson: entry.contactPerson,
+      },
+    ]
+    if (!lead.lastContactDate || date > new Date(lead.lastContactDate)) {
+      lead.lastContactDate = date
+    }
+    if (entry.nextFollowUpDate !== undefined) {
+      lead.nextFollowUpDate = entry.nextFollowUpDate ?? undefined
+    }
+
+    // Recent contacts and the follow-up state both feed the score
+    await LeadScoringService.applyScore(lead)
+    await executeGenericDbQuery(async () => {
+      return await lead.save()
+    })
+    clearCache('leads')
+    clearCache(`lead-${lead._id}`)
+    return lead
+  }
+
+  /**
+   * Notify owners about follow-ups that have come due (today or earlier) and
+   * they haven't been told about yet. Each follow-up date is notified once;
+   * rescheduling it makes the lead eligible again.
+   */
+  static async dispatchDueFollowUps(limit: number = 200, now = new Date()): Promise<{ notified: number; skipped: number; failed: number }> {
+    const due = await executeGenericDbQuery(async () => {
+      return await Lead.find({
+        isDeleted: { $ne: true },
+        status: { $in: FOLLOW_UP_STATUSES },
+        nextFollowUpDate: { $lt: addDays(startOfDay(now), 1) },
+        $expr: { $ne: ['$followUpNotifiedFor', '$nextFollowUpDate'] },
+      })
+        .select(FOLLOW_UP_FIELDS)
+        .sort({ nextFollowUpDate: 1 })
+        .limit(limit)
+        .lean()
+    }) as any[]
+
+    let notified = 0
+    let skipped = 0
+    let failed = 0
+
+    for (const lead of due) {
+      try {
+        // Already contacted since it came due, so there is nothing to remind about
+        const bucket = getFollowUpBucket(lead, now)
+        if (bucket) {
+          await this.notifyFollowUp(lead, bucket, now)
+          notified++
+        } else {
+          skipped++
+        }
+
+        await executeGenericDbQuery(async () => {
+          return await Lead.updateOne(
+            { _id: lead._id },
+            { $set: { followUpNotifiedFor: lead.nextFollowUpDate } },
+            { timestamps: false }
+          )
+        })
+      } catch (error) {
+        failed++
+        console.error(`Failed to send follow-up reminder for lead ${lead._id}:`, error)
+      }
+    }
+
+    return { notified, skipped, failed }
+  }
+
+  /**
+   * Morning summary for every agent with follow-ups due today or overdue: one
+   * notification linking to their queue, and the same list by email
+   */
+  static async sendDailyDigests(now = new Date()): Promise<{ digests: number; emailed: number; failed: number }> {
+    const leads = await executeGenericDbQuery(async () => {
+      return await Lead.find({
+        isDeleted: { $ne: true },
+        status: { $in: FOLLOW_UP_STATUSES },
+        nextFollowUpDate: { $lt: addDays(startOfDay(now), 1) },
+      })
+        .select(FOLLOW_UP_FIELDS)
+        .sort({ nextFollowUpDate: 1 })
+        .lean()
+    }) as any[]
+
+    const byOwner = new Map<string, { overdue: any[]; today: any[] }>()
+    for (const lead of leads) {
+      const bucket = getFollowUpBucket(lead, now)
+      if (bucket !== 'overdue' && bucket !== 'today') continue
+
+      const ownerId = getOwnerId(lead)
+      const group = byOwner.get(ownerId) || { overdue: [], today: [] }
+      group[bucket].push(lead)
+      byOwner.set(ownerId, group)
+    }
+    if (byOwner.size === 0) return { digests: 0, emailed: 0, failed: 0 }
+
+    const owners = await executeGenericDbQuery(async () => {
+      return await User.find({ _id: { $in: Array.from(byOwner.keys()) }, isDeleted: { $ne: true }, status: 'active' })
+        .select('name email')
+        .lean()
+    }) as any[]
+
+    let digests = 0
+    let emailed = 0
+    let failed = 0
+
+    for (const owner of owners) {
+      const ownerId = String(owner._id)
+      const { overdue, today } = byOwner.get(ownerId)!
+      const summary = [
+        today.length && `${today.length} due today`,
+        overdue.length && `${overdue.length} overdue`,
+      ].filter(Boolean).join(', ')
+
+      try {
+        await NotificationService.createNotification({
+          type: 'lead_follow_up',
+          category: 'system',
+          recipientId: ownerId,
+          senderId: ownerId, // Sent by the system on the agent's behalf
+          senderName: 'System',
+          title: 'Your follow-ups for today',
+          message: `You have ${summary} lead follow-up${today.length + overdue.length === 1 ? '' : 's'}`,
+          contentPreview: [...overdue, ...today].slice(0, 5).map(describeLead).join(', ').slice(0, 200),
+          entityType: 'user',
+          entityId: ownerId,
+          entityName: owner.name,
+          actionType: 'reminded',
+          actionUrl: FOLLOW_UPS_PATH,
+          priority: overdue.length ? 3 : 2,
+          metadata: { digest: true, overdue: overdue.length, today: today.length }
+        })
+        digests++
+      } catch (error) {
+        failed++
+        console.error(`Failed to create follow-up digest for user ${ownerId}:`, error)
+        continue
+      }
+
+      if (!owner.email) continue
+      const result = await EmailService.sendEmail({
+        to: owner.email,
+        subject: `Lead follow-ups: ${summary}`,
+        htmlContent: this.buildDigestHtml(owner.name, overdue, today, now),
+        textContent: this.buildDigestText(owner.name, overdue, today, now),
+        category: 'notification',
+        priority: 'normal',
+        userId: ownerId,
+      })
+      if (result?.success) emailed++
+    }
+
+    return { digests, emailed, failed }
+  }
+
+  private static async notifyFollowUp(lead: any, bucket: LeadFollowUpBucket, now: Date): Promise<void> {
+    const ownerId = getOwnerId(lead)
+    const overdue = bucket === 'overdue'
+
+    // createNotification also pushes it to the agent in real time
+    await NotificationService.createNotification({
+      type: 'lead_follow_up',
+      category: 'system',
+      recipientId: ownerId,
+      senderId: ownerId, // Sent by the system on the agent's behalf
+      senderName: 'System',
+      title: overdue ? 'Follow-up overdue' : 'Follow-up due today',
+      message: `Follow up with ${describeLead(lead)}`,
+      contentPreview: overdue ? describeFollowUp(lead.nextFollowUpDate, now) : undefined,
+      entityType: 'lead',
+      entityId: String(lead._id),
+      entityName: lead.name,
+      actionType: 'reminded',
+      actionUrl: `/leads/edit/${lead._id}`,
+      priority: overdue ? 3 : 2,
+      metadata: { nextFollowUpDate: lead.nextFollowUpDate, bucket }
+    })
+  }
+
+  private static buildDigestHtml(name: string, overdue: any[], today: any[], now: Date): string {
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'
+    const section = (title: string, leads: any[]) => leads.length === 0 ? '' : `
+      <h3 style="margin: 20px 0 8px;">${title}</h3>
+      <ul style="padding-left: 20px; margin: 0;">
+        ${leads.map(lead => `
+          <li style="margin-bottom: 6px;">
+            <a href="${baseUrl}/leads/edit/${lead._id}">${escapeHtml(describeLead(lead))}</a>
+            <span style="color: #6B7280;"> &middot; ${escapeHtml(describeFollowUp(lead.nextFollowUpDate, now))}${lead.phone ? ` &middot; ${escapeHtml(lead.phone)}` : ''}</span>
+          </li>`).join('')}
+      </ul>`
+
+    return `
+      <!DOCTYPE html>
+      <html>
+        <body style="font-family: Arial, sans-serif; color: #111827; line-height: 1.5;">
+          <p>Hi ${escapeHtml(name)},</p>
+          <p>Here are the leads to follow up with today.</p>
+          ${section('Overdue', overdue)}
+          ${section('Due today', today)}
+          <p style="margin-top: 24px;">
+            <a href="${baseUrl}${FOLLOW_UPS_PATH}" style="background: #3B82F6; color: #ffffff; padding: 10px 16px; border-radius: 6px; text-decoration: none;">Open my follow-ups</a>
+          </p>
+        </body>
+      </html>
+    `
+  }
+
+  private static buildDigestText(name: string, overdue: any[], today: any[], now: Date): string {
+    const section = (title: string, leads: any[]) => leads.length === 0 ? [] : [
+      '',
+      `${title}:`,
+      ...leads.map(lead => `- ${describeLead(lead)} (${describeFollowUp(lead.nextFollowUpDate, now)})${lead.phone ? `, ${lead.phone}` : ''}`),
+    ]
+
+    return [
+      `Hi ${name},`,
+      '',
+      'Here are the leads to follow up with today.',
+      ...section('Overdue', overdue),
+      ...section('Due today', today),
+      '',
+      `Open my follow-ups: ${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}${FOLLOW_UPS_PATH}`,
+    ].join('\n')
+  }
+}
@@ -0,0 +1,333 @@
+import mongoose from 'mongoose'
+import { executeGenericDbQuery, clearCache } from '@/lib/mongodb'
+import Lead from '@/models/Lead'
+import User from '@/models/User'
+import LeadImport, { type ILeadImport, type ILeadImportRowIssue } from '@/models/LeadImport'
+import { createLeadSchema, LEAD_CONSTANTS, type LeadImportRequest } from '@/lib/validations/lead'
+import { buildLeadFromRow } from '@/lib/utils/lead-import'
+import { describeDuplicateMatch } from '@/lib/utils/lead-duplicates'
+import { LeadPipelineService } from '@/lib/services/lead-pipeline-service'
+import { LeadScoringService } from '@/lib/services/lead-scoring-service'
+import { LeadDuplicateService } from '@/lib/services/lead-duplicate-service'
+import type { LeadImportJob, LeadImportPreview } from '@/types'
+
+// Imports still processing after this long are assumed to have died
+const STALE_IMPORT_MS = 30 * 60 * 1000
+
+// Progress is saved every this many rows so the wizard can show it
+const PROGRESS_INTERVAL = 25
+
+// Spreadsheet row number of a data row; the header is row 1
+const toSheetRow = (index: number) => index + 2
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+type DuplicateMatcher = Awaited<ReturnType<typeof LeadDuplicateService.createMatcher>>
+
+interface RowCheck {
+  data?: Record<string, any>
+  issue?: ILeadImportRowIssue
+  duplicateOf?: string[]
+}
+
+export class LeadImportService {
+  /**
+   * Validate every row and check it for duplicates without importing anything
+   */
+  static async preview(request: LeadImportRequest, viewerId?: string): Promise<LeadImportPreview> {
+    const [takenEmails, findDuplicates] = await Promise.all([
+      this.getTakenEmails(request),
+      LeadDuplicateService.createMatcher({ viewerId }),
+    ])
+    const seenEmails = new Map<string, number>()
+    const preview: LeadImportPreview = {
+      totalRows: request.rows.length,
+      validRows: 0,
+      invalidRows: 0,
+      duplicateRows: 0,
+      issues: [],
+    }
+
+    for (let index = 0; index < request.rows.length; index++) {
+      const check = this.checkRow(request, index, takenEmails, seenEmails, findDuplicates)
+
+      if (check.issue) preview.invalidRows++
+      else preview.validRows++
+      if (check.duplicateOf) preview.duplicateRows++
+
+      const issue = check.issue || (check.duplicateOf && {
+        row: toSheetRow(index),
+        email: check.data?.email,
+        messages: [request.skipDuplicates ? 'Looks like an existing lead and will be skipped' : 'Looks like an existing lead'],
+        duplicateOf: check.duplicateOf,
+      })
+      if (issue && preview.issues.length < LEAD_CONSTANTS.IMPORT.PREVIEW_ISSUES) {
+        preview.issues.push({ row: issue.row, email: issue.email, messages: issue.messages, duplicateOf: issue.duplicateOf })
+      }
+    }
+
+    return preview
+  }
+
+  /**
+   * Queue an import; rows are kept on the job until it has run
+   */
+  static async createImport(request: LeadImportRequest, requestedBy: string, canViewAllLeads: boolean = false): Promise<ILeadImport> {
+    return await executeGenericDbQuery(async () => {
+      return await LeadImport.create({
+        fileName: request.fileName,
+        requestedBy: new mongoose.Types.ObjectId(requestedBy),
+        canViewAllLeads,
+        mapping: request.mapping,
+        defaults: request.defaults,
+        skipDuplicates: request.skipDuplicates,
+        rows: request.rows,
+        totalRows: request.rows.length,
+      })
+    })
+  }
+
+  /**
+   * Import the rows of a queued job. Returns false if another worker already claimed it.
+   */
+  static async processImport(importId: string): Promise<boolean> {
+    const job = await executeGenericDbQuery(async () => {
+      return await LeadImport.findOneAndUpdate(
+        { _id: importId, status: 'pending' },
+        { $set: { status: 'processing', startedAt: new Date() } },
+        { new: true }
+      )
+    })
+    if (!job) return false
+
+    try {
+      const request: LeadImportRequest = {
+        fileName: job.fileName,
+        rows: job.rows,
+        mapping: job.mapping,
+        defaults: job.defaults as LeadImportRequest['defaults'],
+        skipDuplicates: job.skipDuplicates,
+      }
+      const [takenEmails, findDuplicates, initialStage] = await Promise.all([
+        this.getTakenEmails(request),
+        LeadDuplicateService.createMatcher({ viewerId: job.canViewAllLeads ? undefined : job.requestedBy.toString() }),
+        LeadPipelineService.getInitialStage(),
+      ])
+      const seenEmails = new Map<string, number>()
+
+      for (let index = 0; index < request.rows.length; index++) {
+        const check = this.checkRow(request, index, takenEmails, seenEmails, findDuplicates)
+
+        if (check.issue) {
+          job.failedCount++
+          job.issues.push({ ...check.issue, values: request.rows[index] })
+        } else if (check.duplicateOf && job.skipDuplicates) {
+          job.duplicateCount++
+          job.issues.push({
+            row: toSheetRow(index),
+            email: check.data!.email,
+            messages: ['Skipped: looks like an existing lead'],
+            duplicateOf: check.duplicateOf,
+            values: request.rows[index],
+          })
+        } else {
+          try {
+            await this.createLead(check.data!, job.requestedBy.toString(), initialStage.key)
+            job.importedCount++
+            if (check.duplicateOf) {
+              job.duplicateCount++
+              job.issues.push({
+                row: toSheetRow(index),
+                email: check.data!.email,
+                messages: ['Imported, but looks like an existing lead'],
+                duplicateOf: check.duplicateOf,
+                values: request.rows[index],
+              })
+            }
+          } catch (error: any) {
+            job.failedCount++
+            job.issues.push({
+              row: toSheetRow(index),
+              email: check.data!.email,
+              messages: [error.message || 'Failed to create lead'],
+              values: request.rows[index],
+            })
+          }
+        }
+
+        job.processedRows = index + 1
+        if (job.processedRows % PROGRESS_INTERVAL === 0) {
+          await executeGenericDbQuery(async () => await job.save())
+        }
+      }
+
+      job.status = 'completed'
+    } catch (error: any) {
+      console.error(`Failed to process lead import ${importId}:`, error)
+      job.status = 'failed'
+      job.error = error.message || 'Import failed'
+    }
+
+    job.rows = []
+    job.completedAt = new Date()
+    await executeGenericDbQuery(async () => await job.save())
+    clearCache('leads')
+    return true
+  }
+
+  /**
+   * Run imports still waiting in the queue and fail ones whose run died
+   */
+  static async processPendingImports(limit: number = 3): Promise<{ processed: number; timedOut: number }> {
+    const stale = await executeGenericDbQuery(async () => {
+      return await LeadImport.updateMany(
+        { status: 'processing', startedAt: { $lt: new Date(Date.now() - STALE_IMPORT_MS) } },
+        { $set: { status: 'failed', error: 'Import timed out', completedAt: new Date(), rows: [] } }
+      )
+    })
+
+    const pending = await executeGenericDbQuery(async () => {
+      return await LeadImport.find({ status: 'pending' }).sort({ createdAt: 1 }).limit(limit).select('_id').lean()
+    })
+
+    let processed = 0
+    for (const { _id } of pending) {
+      if (await this.processImport(String(_id))) processed++
+    }
+    return { processed, timedOut: stale.modifiedCount }
+  }
+
+  /**
+   * A user's recent imports, newest first
+   */
+  static async listImports(requestedBy: string, limit: number = 10): Promise<LeadImportJob[]> {
+    const jobs = await executeGenericDbQuery(async () => {
+      return await LeadImport.find({ requestedBy })
+        .select('-rows -issues -mapping')
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .lean()
+    })
+    return jobs.map(job => this.toJobResponse(job))
+  }
+
+  static async getImport(importId: string): Promise<ILeadImport | null> {
+    return await executeGenericDbQuery(async () => {
+      return await LeadImport.findById(importId).select('-rows')
+    })
+  }
+
+  /**
+   * API shape of an import job
+   */
+  static toJobResponse(job: any): LeadImportJob {
+    return {
+      _id: String(job._id),
+      fileName: job.fileName,
+      status: job.status,
+      skipDuplicates: job.skipDuplicates,
+      totalRows: job.totalRows,
+      processedRows: job.processedRows,
+      importedCount: job.importedCount,
+      duplicateCount: job.duplicateCount,
+      failedCount: job.failedCount,
+      error: job.error,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
+      createdAt: job.createdAt,
+    }
+  }
+
+  /**
+   * CSV of the rows that were skipped, failed or imported as possible
+   * duplicates, with the reason and the original columns so they can be
+   * fixed and imported again
+   */
+  static buildErrorReport(job: ILeadImport): string {
+    const columns = Object.keys(job.mapping)
+    const lines = [
+      ['Row', 'Email', 'Problems', 'Possible duplicates', ...columns].map(csvCell).join(','),
+      ...job.issues.map(issue => [
+        issue.row,
+        issue.email,
+        issue.messages.join('; '),
+        (issue.duplicateOf || []).join('; '),
+        ...columns.map(column => issue.values?.[column]),
+      ].map(csvCell).join(',')),
+    ]
+    return lines.join('\r\n')
+  }
+
+  /**
+   * Validate one row against the create schema, the emails already taken and
+   * the rows before it, and look for existing leads it duplicates
+   */
+  private static checkRow(
+    request: LeadImportRequest,
+    index: number,
+    takenEmails: Set<string>,
+    seenEmails: Map<string, number>,
+    findDuplicates: DuplicateMatcher
+  ): RowCheck {
+    const row = toSheetRow(index)
+    const raw = buildLeadFromRow(request.rows[index], request.mapping, request.defaults)
+    const parsed = createLeadSchema.safeParse(raw)
+
+    if (!parsed.success) {
+      return {
+        issue: {
+          row,
+          email: raw.email,
+          messages: parsed.error.errors.map(error => error.path.length ? `${error.path.join('.')}: ${error.message}` : error.message),
+        },
+      }
+    }
+
+    const data = parsed.data
+    if (takenEmails.has(data.email)) {
+      return { issue: { row, email: data.email, messages: ['A lead or user with this email already exists'] } }
+    }
+    const firstRow = seenEmails.get(data.email)
+    if (firstRow) {
+      return { issue: { row, email: data.email, messages: [`Same email as row ${firstRow}`] } }
+    }
+    seenEmails.set(data.email, row)
+
+    const duplicates = findDuplicates(data)
+    return {
+      data,
+      duplicateOf: duplicates.length ? duplicates.map(describeDuplicateMatch) : undefined,
+    }
+  }
+
+  // Emails in the file that already belong to a lead or a user
+  private static async getTakenEmails(request: LeadImportRequest): Promise<Set<string>> {
+    const emailColumn = Object.keys(request.mapping).find(column => request.mapping[column] === 'email')
+    const emails = request.rows
+      .map(row => String(row[emailColumn!] ?? '').trim().toLowerCase())
+      .filter(Boolean)
+
+    const [leads, users] = await Promise.all([
+      executeGenericDbQuery(async () => await Lead.find({ email: { $in: emails } }).select('email').lean()),
+      executeGenericDbQuery(async () => await User.find({ email: { $in: emails } }).select('email').lean()),
+    ])
+    return new Set([...leads, ...users].map((record: any) => record.email.toLowerCase()))
+  }
+
+  private static async createLead(data: Record<string, any>, createdBy: string, stage: string): Promise<void> {
+    const now = new Date()
+    const lead = new Lead({
+      ...data,
+      createdBy: new mongoose.Types.ObjectId(createdBy),
+      status: data.status || 'active',
+      stage,
+      stageChangedAt: now,
+      stageHistory: [{ stage, changedAt: now, changedBy: createdBy }],
+    })
+    await LeadScoringService.applyScore(lead)
+    await executeGenericDbQuery(async () => await lead.save())
+  }
+}
@@ -0,0 +1,185 @@
+import { executeGenericDbQuery, clearCache } from '@/lib/mongodb'
+import Settings from '@/models/Settings'
+import Lead, { type ILead, type ILeadPipelineStage } from '@/models/Lead'
+import {
+  DEFAULT_LEAD_PIPELINE_STAGES,
+  getLeadStage,
+  getStatusForStage,
+} from '@/lib/utils/lead-pipeline'
+
+export const LEAD_PIPELINE_SETTING_KEY = 'lead_pipeline_stages'
+
+export interface ResolvedLeadPipeline {
+  stages: ILeadPipelineStage[]
+  isCustom: boolean
+}
+
+// Leads that no longer sit on the board
+const OFF_PIPELINE_STATUSES: string[] = ['deleted']
+
+export class LeadPipelineService {
+  /**
+   * Pipeline stages in board order; the defaults until an admin configures them
+   */
+  static async getPipeline(): Promise<ResolvedLeadPipeline> {
+    const setting = await executeGenericDbQuery(async () => {
+      return await Settings.getSetting(LEAD_PIPELINE_SETTING_KEY)
+    }, `settings-${LEAD_PIPELINE_SETTING_KEY}`, 60000) as any
+
+    const stages: ILeadPipelineStage[] | undefined = setting?.value?.stages
+    return stages?.length
+      ? { stages, isCustom: true }
+      : { stages: DEFAULT_LEAD_PIPELINE_STAGES, isCustom: false }
+  }
+
+  /**
+   * Replace the pipeline (null restores the defaults). Leads sitting in a stage
+   * that no longer exists move to the first stage of the same category.
+   */
+  static async updatePipeline(stages: ILeadPipelineStage[] | null, updatedBy: string): Promise<ResolvedLeadPipeline> {
+    const previous = await this.getPipeline()
+    await executeGenericDbQuery(async () => {
+      return stages
+        ? await Settings.setSetting(LEAD_PIPELINE_SETTING_KEY, { stages }, 'general', updatedBy)
+        : await Settings.deleteOne({ key: LEAD_PIPELINE_SETTING_KEY })
+    })
+    clearCache(`settings-${LEAD_PIPELINE_SETTING_KEY}`)
+
+    const pipeline = await this.getPipeline()
+    await this.remapLeads(previous.stages, pipeline.stages)
+    return pipeline
+  }
+
+  /**
+   * Stage a new lead starts in
+   */
+  static async getInitialStage(): Promise<ILeadPipelineStage> {
+    const { stages } = await this.getPipeline()
+    return stages.find(stage => stage.category === 'open') || stages[0]
+  }
+
+  /**
+   * Filter for leads in a stage. Leads created before the pipeline existed have
+   * no stage stored, so they match on the status getLeadStage derives it from.
+   */
+  static async buildStageFilter(stageKey: string): Promise<Record<string, any>> {
+    const { stages } = await this.getPipeline()
+
+    const legacyByCategory: Record<ILeadPipelineStage['category'], Record<string, any>> = {
+      won: { $or: [{ clientId: { $ne: null } }, { status: 'qualified' }] },
+      lost: { clientId: null, status: 'unqualified' },
+      open: { clientId: null, status: { $nin: ['qualified', 'unqualified'] } },
+    }
+    const legacy = (Object.keys(legacyByCategory) as ILeadPipelineStage['category'][])
+      .filter(category => (stages.find(stage => stage.category === category) || stages[0]).key === stageKey)
+      .map(category => legacyByCategory[category])
+
+    return legacy.length
+      ? { $or: [{ stage: stageKey }, { stage: null, $or: legacy }] }
+      : { stage: stageKey }
+  }
+
+  /**
+   * Move a lead to another stage, recording it in the stage history. Lost stages
+   * set the lead inactive; leaving one makes it active again.
+   */
+  static async moveLead(
+    lead: ILead,
+    stageKey: string,
+    options: { userId: string; note?: string }
+  ): Promise<ILead> {
+    const { stages } = await this.getPipeline()
+    const check = lead.canTransitionTo(stageKey, stages)
+    if (!check.allowed) {
+      throw new Error(check.reason || 'Stage change not allowed')
+    }
+
+    const from = getLeadStage(lead, stages)
+    const to = stages.find(stage => stage.key === stageKey)!
+    if (from.key === to.key && lead.stage === to.key) {
+      return lead
+    }
+
+    const now = new Date()
+    lead.stageHistory = [
+      ...(lead.stageHistory || []),
+      { stage: to.key, fromStage: from.key, changedAt: now, changedBy: options.userId as any, note: options.note },
+    ]
+    lead.stage = to.key
+    lead.stageChangedAt = now
+    lead.status = getStatusForStage(lead.status, to)
+
+    await executeGenericDbQuery(async () => {
+      return await lead.save()
+    })
+    clearCache('leads')
+    return lead
+  }
+
+  /**
+   * Put a lead in the first won or lost stage after it has been qualified
+   * (converted to a client) or unqualified outside the board
+   */
+  static async syncStageWithStatus(leadId: string, userId?: string): Promise<void> {
+    const lead = await executeGenericDbQuery(async () => {
+      return await Lead.findById(leadId).select('stage status clientId').lean()
+    }) as any
+    if (!lead) return
+
+    const category = lead.clientId || lead.status === 'qualified'
+      ? 'won'
+      : lead.status === 'unqualified' ? 'lost' : null
+    if (!category) return
+
+    const { stages } = await this.getPipeline()
+    const current = stages.find(stage => stage.key === lead.stage)
+    if (current?.category === category) return
+
+    const to = stages.find(stage => stage.category === category)
+    if (!to) return
+
+    const now = new Date()
+    await executeGenericDbQuery(async () => {
+      return await Lead.updateOne(
+        { _id: leadId },
+        {
+          $set: { stage: to.key, stageChangedAt: now },
+          $push: { stageHistory: { stage: to.key, fromStage: current?.key, changedAt: now, changedBy: userId } },
+        }
+      )
+    })
+    clearCache('leads')
+  }
+
+  private static async remapLeads(previous: ILeadPipelineStage[], stages: ILeadPipelineStage[]): Promise<void> {
+    const leads = await executeGenericDbQuery(async () => {
+      return await Lead.find({
+        stage: { $exists: true, $nin: stages.map(stage => stage.key) },
+        status: { $nin: OFF_PIPELINE_STATUSES },
+      }).select('_id stage status clientId').lean()
+    }) as any[]
+
+    if (leads.length === 0) return
+
+    const now = new Date()
+    const updates = leads.map(lead => {
+      const category = previous.find(stage => stage.key === lead.stage)?.category
+      const target = (category && stages.find(stage => stage.category === category))
+        || getLeadStage({ ...lead, stage: undefined }, stages)
+      return {
+        updateOne: {
+          filter: { _id: lead._id },
+          update: {
+            $set: { stage: target.key, stageChangedAt: now },
+            $push: { stageHistory: { stage: target.key, fromStage: lead.stage, changedAt: now, note: 'Stage removed from the pipeline' } },
+          },
+        },
+      }
+    })
+
+    await executeGenericDbQuery(async () => {
+      return await Lead.bulkWrite(updates)
+    })
+    clearCache('leads')
+  }
+}
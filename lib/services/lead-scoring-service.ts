@@ -0,0 +1,111 @@
+import { executeGenericDbQuery, clearCache } from '@/lib/mongodb'
+import Settings from '@/models/Settings'
+import Lead, { type ILead } from '@/models/Lead'
+import { DEFAULT_LEAD_SCORING, TIME_BASED_SCORING_FIELDS, scoreLead } from '@/lib/utils/lead-scoring'
+import type { LeadScoringConfig } from '@/types'
+
+export const LEAD_SCORING_SETTING_KEY = 'lead_scoring_rules'
+
+export interface ResolvedLeadScoringConfig extends LeadScoringConfig {
+  isCustom: boolean
+}
+
+// Leads rescored per bulk write after the rules change
+const RESCORE_BATCH_SIZE = 500
+
+export class LeadScoringService {
+  /**
+   * Scoring rules and hot lead threshold; the defaults until an admin edits them
+   */
+  static async getConfig(): Promise<ResolvedLeadScoringConfig> {
+    const setting = await executeGenericDbQuery(async () => {
+      return await Settings.getSetting(LEAD_SCORING_SETTING_KEY)
+    }, `settings-${LEAD_SCORING_SETTING_KEY}`, 60000) as any
+
+    const config: LeadScoringConfig | undefined = setting?.value
+    return config?.rules
+      ? { rules: config.rules, hotThreshold: config.hotThreshold, isCustom: true }
+      : { ...DEFAULT_LEAD_SCORING, isCustom: false }
+  }
+
+  /**
+   * Replace the scoring rules (null restores the defaults) and rescore every lead
+   */
+  static async updateConfig(config: LeadScoringConfig | null, updatedBy: string): Promise<ResolvedLeadScoringConfig> {
+    await executeGenericDbQuery(async () => {
+      return config
+        ? await Settings.setSetting(LEAD_SCORING_SETTING_KEY, config, 'general', updatedBy)
+        : await Settings.deleteOne({ key: LEAD_SCORING_SETTING_KEY })
+    })
+    clearCache(`settings-${LEAD_SCORING_SETTING_KEY}`)
+
+    const resolved = await this.getConfig()
+    await this.rescoreAll(resolved)
+    return resolved
+  }
+
+  /**
+   * Score a lead document in place; the caller saves it. Call after applying
+   * changes so the score reflects them.
+   */
+  static async applyScore(lead: ILead): Promise<ILead> {
+    const config = await this.getConfig()
+    const { score, hotLead, breakdown } = scoreLead(lead, config)
+
+    lead.score = score
+    lead.hotLead = hotLead
+    lead.scoreBreakdown = breakdown
+    lead.scoredAt = new Date()
+    return lead
+  }
+
+  /**
+   * Rescore leads not scored yet today. Recent contact and follow-up rules
+   * change with time alone, so without this a stored score keeps points that
+   * have lapsed and misses overdue penalties. Run daily.
+   */
+  static async rescoreStale(now = new Date()): Promise<{ rescored: number }> {
+    const config = await this.getConfig()
+    if (!config.rules.some(rule => TIME_BASED_SCORING_FIELDS.includes(rule.field))) {
+      return { rescored: 0 }
+    }
+
+    const startOfToday = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    const rescored = await this.rescore(config, {
+      $or: [{ scoredAt: { $lt: startOfToday } }, { scoredAt: null }],
+    }, now)
+    return { rescored }
+  }
+
+  private static async rescoreAll(config: LeadScoringConfig): Promise<void> {
+    await this.rescore(config, {})
+  }
+
+  private static async rescore(config: LeadScoringConfig, filter: Record<string, any>, now = new Date()): Promise<number> {
+    const leads = await executeGenericDbQuery(async () => {
+      return await Lead.find({ ...filter, isDeleted: { $ne: true } })
+        .select('companySize source priority projectType complexity projectBudget annualRevenue employeeCount contactHistory lastContactDate nextFollowUpDate')
+        .lean()
+    }) as any[]
+
+    for (let i = 0; i < leads.length; i += RESCORE_BATCH_SIZE) {
+      const updates = leads.slice(i, i + RESCORE_BATCH_SIZE).map(lead => {
+        const { score, hotLead, breakdown } = scoreLead(lead, config, now)
+        return {
+          updateOne: {
+            filter: { _id: lead._id },
+            update: { $set: { score, hotLead, scoreBreakdown: breakdown, scoredAt: now } },
+            // Rescoring isn't an edit, so leads keep their place in "recently updated"
+            timestamps: false,
+          },
+        }
+      })
+
+      await executeGenericDbQuery(async () => {
+        return await Lead.bulkWrite(updates)
+      })
+    }
+    if (leads.length > 0) clearCache('leads')
+    return leads.length
+  }
+}
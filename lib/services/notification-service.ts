@@ -9,7 +9,7 @@ import { createSystemNotificationSchema } from '@/lib/validations/system-notific
 import { z } from 'zod'
 
 export interface NotificationPayload {
-  type: 'project_created' | 'task_assigned' | 'project_approved' | 'task_completed' | 'project_status_changed' | 'department_assigned'
+  type: 'project_created' | 'task_assigned' | 'project_approved' | 'task_completed' | 'project_status_changed' | 'department_assigned' | 'timesheet_submitted' | 'timesheet_approved' | 'timesheet_rejected' | 'budget_threshold' | 'message_reminder' | 'lead_follow_up'
   category: 'project' | 'task' | 'system' | 'department'
   recipientId: string
   senderId: string
@@ -18,10 +18,10 @@ export interface NotificationPayload {
   title: string
   message: string
   contentPreview?: string
-  entityType: 'project' | 'task' | 'department' | 'user'
-  entityId: string
+  entityType: 'project' | 'task' | 'department' | 'user' | 'timesheet' | 'message' | 'lead'
+  entityId?: string
   entityName?: string
-  actionType: 'created' | 'updated' | 'assigned' | 'approved' | 'completed' | 'status_changed'
+  actionType: 'created' | 'updated' | 'assigned' | 'approved' | 'rejected' | 'submitted' | 'completed' | 'status_changed' | 'reminded'
   actionUrl?: string
   priority?: 1 | 2 | 3 | 4
   metadata?: Record<string, any>
@@ -57,7 +57,7 @@ export class NotificationService {
               message: notification.message,
               contentPreview: notification.contentPreview,
               entityType: notification.entityType,
-              entityId: notification.entityId.toString(),
+              entityId: notification.entityId?.toString(),
               entityName: notification.entityName,
               actionType: notification.actionType,
               actionUrl: notification.actionUrl,
@@ -82,6 +82,12 @@ export const S3_CONFIG = {
             'audio/webm;codecs=opus'
         ] as const,
         expiresIn: 3600 * 24 * 7 // 7 days for chat attachments
+    },
+    COMPLIANCE_EXPORTS: {
+        folder: 'compliance-exports',
+        maxSize: 2 * 1024 * 1024 * 1024, // 2GB
+        allowedTypes: ['application/zip'] as const,
+        expiresIn: 3600 // 1 hour for export download links
     }
 } as const
 
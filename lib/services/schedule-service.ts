@@ -0,0 +1,301 @@
+import { executeGenericDbQuery } from '@/lib/mongodb'
+import { addSoftDeleteFilter } from '@/lib/utils/soft-delete'
+import Project from '@/models/Project'
+import Phase from '@/models/Phase'
+import Milestone from '@/models/Milestone'
+import Task from '@/models/Task'
+
+export interface ProjectTimeline {
+  project: { _id: string; name: string; startDate?: Date; endDate?: Date }
+  phases: any[]
+  milestones: any[]
+  tasks: any[]
+}
+
+export type ScheduleItemKind = 'phase' | 'milestone' | 'task'
+
+export interface ScheduleItem {
+  kind: ScheduleItemKind
+  id: string
+  title: string
+  status: string
+  plannedStart: Date
+  plannedFinish: Date
+  earliestStart: Date
+  earliestFinish: Date
+  latestStart: Date
+  latestFinish: Date
+  totalFloat: number
+  isCritical: boolean
+  // Days the planned or earliest finish runs past the project end date
+  slipDays: number
+}
+
+export interface ProjectSchedule {
+  projectId: string
+  projectStart: Date | null
+  projectEnd: Date | null
+  projectedFinish: Date | null
+  projectSlipDays: number
+  criticalPath: { kind: ScheduleItemKind; id: string; title: string }[]
+  items: ScheduleItem[]
+  slippingItems: ScheduleItem[]
+}
+
+interface ScheduleNode {
+  key: string
+  kind: ScheduleItemKind
+  id: string
+  title: string
+  status: string
+  start: number
+  duration: number
+}
+
+interface ScheduleEdge {
+  from: string
+  to: string
+  // Start-to-start links only need the predecessor to have begun
+  startToStart: boolean
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const toDay = (date: Date | string) => Math.floor(new Date(date).getTime() / DAY_MS)
+const fromDay = (day: number) => new Date(day * DAY_MS)
+// Finishes are computed as the day after the last working day; report the last day itself
+const finishDate = (finish: number, duration: number) => fromDay(duration > 0 ? finish - 1 : finish)
+const nodeKey = (kind: ScheduleItemKind, id: any) => `${kind}:${id.toString()}`
+
+export class ScheduleService {
+  /**
+   * Phases, milestones and tasks of a project with the dates and links needed to
+   * lay them out on a calendar. Returns null if the project does not exist.
+   */
+  static async getTimeline(projectId: string, isSuperAdmin: boolean = false): Promise<ProjectTimeline | null> {
+    const project = await executeGenericDbQuery(async () => {
+      return await Project.findOne(addSoftDeleteFilter({ _id: projectId }, isSuperAdmin)).select('name startDate endDate').lean()
+    }) as any
+
+    if (!project) return null
+
+    const [phases, milestones, tasks] = await Promise.all([
+      executeGenericDbQuery(async () => {
+        return await Phase.find({ projectId, isDeleted: false })
+          .select('title status progress order startDate endDate dependencies')
+          .sort({ order: 1 })
+          .lean()
+      }),
+      executeGenericDbQuery(async () => {
+        return await Milestone.find({ projectId, isDeleted: false })
+          .select('title status progress phaseId dueDate dependencies linkedTaskIds')
+          .sort({ dueDate: 1 })
+          .lean()
+      }),
+      executeGenericDbQuery(async () => {
+        return await Task.find({ projectId, isDeleted: { $ne: true }, status: { $ne: 'deleted' } })
+          .select('title status type parentTaskId startDate dueDate dependencies order')
+          .sort({ order: 1, createdAt: 1 })
+          .lean()
+      })
+    ])
+
+    return {
+      project: {
+        _id: project._id.toString(),
+        name: project.name,
+        startDate: project.startDate,
+        endDate: project.endDate,
+      },
+      phases,
+      milestones,
+      tasks,
+    }
+  }
+
+  /**
+   * Critical path analysis over phases, milestones and tasks. Durations come from
+   * planned dates (in whole days, milestones take none); links come from phase,
+   * milestone and task dependencies plus tasks linked to milestones.
+   */
+  static async getSchedule(projectId: string, isSuperAdmin: boolean = false): Promise<ProjectSchedule | null> {
+    const timeline = await this.getTimeline(projectId, isSuperAdmin)
+    if (!timeline) return null
+
+    const nodes = new Map<string, ScheduleNode>()
+    const edges: ScheduleEdge[] = []
+
+    for (const phase of timeline.phases) {
+      if (!phase.startDate || !phase.endDate) continue
+      const start = toDay(phase.startDate)
+      nodes.set(nodeKey('phase', phase._id), {
+        key: nodeKey('phase', phase._id), kind: 'phase', id: phase._id.toString(), title: phase.title, status: phase.status,
+        start, duration: Math.max(1, toDay(phase.endDate) - start + 1),
+      })
+    }
+
+    for (const milestone of timeline.milestones) {
+      if (!milestone.dueDate) continue
+      nodes.set(nodeKey('milestone', milestone._id), {
+        key: nodeKey('milestone', milestone._id), kind: 'milestone', id: milestone._id.toString(), title: milestone.title, status: milestone.status,
+        start: toDay(milestone.dueDate), duration: 0,
+      })
+    }
+
+    for (const task of timeline.tasks) {
+      if (!task.dueDate) continue
+      const start = toDay(task.startDate || task.dueDate)
+      nodes.set(nodeKey('task', task._id), {
+        key: nodeKey('task', task._id), kind: 'task', id: task._id.toString(), title: task.title, status: task.status,
+        start, duration: Math.max(1, toDay(task.dueDate) - start + 1),
+      })
+    }
+
+    for (const phase of timeline.phases) {
+      for (const dependencyId of phase.dependencies || []) {
+        edges.push({ from: nodeKey('phase', dependencyId), to: nodeKey('phase', phase._id), startToStart: false })
+      }
+    }
+    for (const milestone of timeline.milestones) {
+      for (const dependencyId of milestone.dependencies || []) {
+        edges.push({ from: nodeKey('milestone', dependencyId), to: nodeKey('milestone', milestone._id), startToStart: false })
+      }
+      for (const taskId of milestone.linkedTaskIds || []) {
+        edges.push({ from: nodeKey('task', taskId), to: nodeKey('milestone', milestone._id), startToStart: false })
+      }
+    }
+    for (const task of timeline.tasks) {
+      for (const dependency of task.dependencies || []) {
+        edges.push({ from: nodeKey('task', dependency.taskId), to: nodeKey('task', task._id), startToStart: dependency.type === 'start_to_start' })
+      }
+    }
+
+    const validEdges = edges.filter(edge => nodes.has(edge.from) && nodes.has(edge.to) && edge.from !== edge.to)
+    const order = this.topologicalOrder(Array.from(nodes.keys()), validEdges)
+    // Links inside a cycle cannot be scheduled, so only links that follow the order are used
+    const position = new Map(order.map((key, index) => [key, index]))
+    const usableEdges = validEdges.filter(edge => position.get(edge.from)! < position.get(edge.to)!)
+
+    const predecessors = new Map<string, ScheduleEdge[]>()
+    const successors = new Map<string, ScheduleEdge[]>()
+    for (const edge of usableEdges) {
+      predecessors.set(edge.to, [...(predecessors.get(edge.to) || []), edge])
+      successors.set(edge.from, [...(successors.get(edge.from) || []), edge])
+    }
+
+    // Forward pass: items without predecessors start on their planned date
+    const earliestStart = new Map<string, number>()
+    const earliestFinish = new Map<string, number>()
+    for (const key of order) {
+      const node = nodes.get(key)!
+      const incoming = predecessors.get(key) || []
+      const start = incoming.length === 0
+        ? node.start
+        : Math.max(...incoming.map(edge => edge.startToStart ? earliestStart.get(edge.from)! : earliestFinish.get(edge.from)!))
+      earliestStart.set(key, start)
+      earliestFinish.set(key, start + node.duration)
+    }
+
+    const finishDay = order.length > 0 ? Math.max(...order.map(key => earliestFinish.get(key)!)) : null
+
+    // Backward pass from the projected finish
+    const latestStart = new Map<string, number>()
+    const latestFinish = new Map<string, number>()
+    for (const key of [...order].reverse()) {
+      const node = nodes.get(key)!
+      const outgoing = successors.get(key) || []
+      const finish = outgoing.length === 0
+        ? finishDay!
+        : Math.min(...outgoing.map(edge => edge.startToStart
+          ? latestStart.get(edge.to)! + node.duration
+          : latestStart.get(edge.to)!))
+      latestFinish.set(key, finish)
+      latestStart.set(key, finish - node.duration)
+    }
+
+    const projectEndDay = timeline.project.endDate ? toDay(timeline.project.endDate) + 1 : null
+
+    const items: ScheduleItem[] = order.map(key => {
+      const node = nodes.get(key)!
+      const totalFloat = latestStart.get(key)! - earliestStart.get(key)!
+      const plannedFinish = node.start + node.duration
+      const slipDays = projectEndDay === null ? 0 : Math.max(0, Math.max(plannedFinish, earliestFinish.get(key)!) - projectEndDay)
+      return {
+        kind: node.kind,
+        id: node.id,
+        title: node.title,
+        status: node.status,
+        plannedStart: fromDay(node.start),
+        plannedFinish: finishDate(plannedFinish, node.duration),
+        earliestStart: fromDay(earliestStart.get(key)!),
+        earliestFinish: finishDate(earliestFinish.get(key)!, node.duration),
+        latestStart: fromDay(latestStart.get(key)!),
+        latestFinish: finishDate(latestFinish.get(key)!, node.duration),
+        totalFloat,
+        isCritical: totalFloat <= 0,
+        slipDays,
+      }
+    }).sort((a, b) => a.earliestStart.getTime() - b.earliestStart.getTime())
+
+    return {
+      projectId: timeline.project._id,
+      projectStart: timeline.project.startDate || null,
+      projectEnd: timeline.project.endDate || null,
+      projectedFinish: items.length === 0 ? null : new Date(Math.max(...items.map(item => item.earliestFinish.getTime()))),
+      projectSlipDays: finishDay === null || projectEndDay === null ? 0 : Math.max(0, finishDay - projectEndDay),
+      criticalPath: this.traceCriticalPath(nodes, predecessors, earliestStart, earliestFinish, latestStart, finishDay),
+      items,
+      slippingItems: items.filter(item => item.slipDays > 0),
+    }
+  }
+
+  // Kahn's algorithm; nodes caught in a cycle are appended in their original order
+  private static topologicalOrder(keys: string[], edges: ScheduleEdge[]): string[] {
+    const inDegree = new Map(keys.map(key => [key, 0]))
+    const outgoing = new Map<string, string[]>()
+    for (const edge of edges) {
+      inDegree.set(edge.to, inDegree.get(edge.to)! + 1)
+      outgoing.set(edge.from, [...(outgoing.get(edge.from) || []), edge.to])
+    }
+
+    const queue = keys.filter(key => inDegree.get(key) === 0)
+    const order: string[] = []
+    while (queue.length > 0) {
+      const key = queue.shift()!
+      order.push(key)
+      for (const next of outgoing.get(key) || []) {
+        inDegree.set(next, inDegree.get(next)! - 1)
+        if (inDegree.get(next) === 0) queue.push(next)
+      }
+    }
+
+    const placed = new Set(order)
+    return [...order, ...keys.filter(key => !placed.has(key))]
+  }
+
+  // Walk back from the item that finishes last through the predecessors that drive each start
+  private static traceCriticalPath(
+    nodes: Map<string, ScheduleNode>,
+    predecessors: Map<string, ScheduleEdge[]>,
+    earliestStart: Map<string, number>,
+    earliestFinish: Map<string, number>,
+    latestStart: Map<string, number>,
+    finishDay: number | null
+  ): ProjectSchedule['criticalPath'] {
+    if (finishDay === null) return []
+
+    let current = Array.from(nodes.keys()).find(key => earliestFinish.get(key) === finishDay && latestStart.get(key) === earliestStart.get(key))
+    const path: ProjectSchedule['criticalPath'] = []
+    while (current) {
+      const node = nodes.get(current)!
+      path.unshift({ kind: node.kind, id: node.id, title: node.title })
+      const start = earliestStart.get(current)!
+      const driver = (predecessors.get(current) || []).find(edge => {
+        const constraint = edge.startToStart ? earliestStart.get(edge.from) : earliestFinish.get(edge.from)
+        return constraint === start && latestStart.get(edge.from) === earliestStart.get(edge.from)
+      })
+      current = driver?.from
+    }
+    return path
+  }
+}
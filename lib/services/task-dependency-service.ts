@@ -0,0 +1,164 @@
+import mongoose from 'mongoose'
+import { executeGenericDbQuery } from '@/lib/mongodb'
+import Task, { type TaskDependencyType } from '@/models/Task'
+
+export interface TaskDependencyInput {
+  taskId: string
+  type: TaskDependencyType
+}
+
+export interface TaskBlocker {
+  taskId: string
+  title: string
+  status: string
+  type: TaskDependencyType
+}
+
+// Finish-to-start waits for the predecessor to be done; start-to-start only for it to have begun
+const FINISHED_STATUSES = ['completed', 'closed', 'cancelled']
+const STARTED_STATUSES = ['in-progress', ...FINISHED_STATUSES]
+
+export class TaskDependencyService {
+  /**
+   * Validate a task's full dependency list: predecessors must exist in the same
+   * project and the resulting graph must stay acyclic. Returns the normalized list.
+   */
+  static async validateDependencies(
+    taskId: string | null,
+    projectId: string,
+    dependencies: TaskDependencyInput[]
+  ): Promise<TaskDependencyInput[]> {
+    const unique = new Map<string, TaskDependencyInput>()
+    for (const dependency of dependencies) {
+      if (taskId && dependency.taskId === taskId) {
+        throw new Error('A task cannot depend on itself')
+      }
+      unique.set(dependency.taskId, dependency)
+    }
+
+    const normalized = Array.from(unique.values())
+    if (normalized.length === 0) return []
+
+    const predecessors = await executeGenericDbQuery(async () => {
+      return await Task.find({
+        _id: { $in: normalized.map(dependency => dependency.taskId) },
+        isDeleted: { $ne: true }
+      }).select('projectId').lean()
+    })
+
+    if (predecessors.length !== normalized.length) {
+      throw new Error('Dependency task not found')
+    }
+
+    if (predecessors.some((predecessor: any) => predecessor.projectId.toString() !== projectId.toString())) {
+      throw new Error('Task dependencies must be within the same project')
+    }
+
+    if (taskId && await this.wouldCreateCycle(taskId, projectId, normalized.map(dependency => dependency.taskId))) {
+      throw new Error('Dependency would create a cycle')
+    }
+
+    return normalized
+  }
+
+  /**
+   * Unfinished predecessors per task, keyed by task id. Tasks with no blockers are omitted.
+   */
+  static async getBlockers(tasks: Array<{ _id: any; dependencies?: any[] }>): Promise<Map<string, TaskBlocker[]>> {
+    const predecessorIds = new Set<string>()
+    for (const task of tasks) {
+      for (const dependency of task.dependencies || []) {
+        predecessorIds.add(dependency.taskId.toString())
+      }
+    }
+
+    const blockers = new Map<string, TaskBlocker[]>()
+    if (predecessorIds.size === 0) return blockers
+
+    const predecessors = await executeGenericDbQuery(async () => {
+      return await Task.find({ _id: { $in: Array.from(predecessorIds) }, isDeleted: { $ne: true } })
+        .select('title status')
+        .lean()
+    })
+    const byId = new Map(predecessors.map((predecessor: any) => [predecessor._id.toString(), predecessor]))
+
+    for (const task of tasks) {
+      const unmet: TaskBlocker[] = []
+      for (const dependency of task.dependencies || []) {
+        const predecessor: any = byId.get(dependency.taskId.toString())
+        // Deleted predecessors no longer hold anything up
+        if (!predecessor) continue
+
+        const satisfied = dependency.type === 'start_to_start'
+          ? STARTED_STATUSES.includes(predecessor.status)
+          : FINISHED_STATUSES.includes(predecessor.status)
+
+        if (!satisfied) {
+          unmet.push({
+            taskId: predecessor._id.toString(),
+            title: predecessor.title,
+            status: predecessor.status,
+            type: dependency.type,
+          })
+        }
+      }
+
+      if (unmet.length > 0) {
+        blockers.set(task._id.toString(), unmet)
+      }
+    }
+
+    return blockers
+  }
+
+  /**
+   * Add the derived `isBlocked` / `blockedBy` fields to lean task documents
+   */
+  static async annotateBlocked<T extends { _id: any; dependencies?: any[] }>(tasks: T[]): Promise<Array<T & { isBlocked: boolean; blockedBy: TaskBlocker[] }>> {
+    const blockers = await this.getBlockers(tasks)
+    return tasks.map(task => {
+      const blockedBy = blockers.get(task._id.toString()) || []
+      return { ...task, isBlocked: blockedBy.length > 0, blockedBy }
+    })
+  }
+
+  /**
+   * Throw if `status` is `in-progress` and the task still has unmet dependencies
+   */
+  static async assertCanTransition(task: { _id: any; dependencies?: any[] }, status?: string): Promise<void> {
+    if (status !== 'in-progress') return
+
+    const blockedBy = (await this.getBlockers([task])).get(task._id.toString())
+    if (blockedBy && blockedBy.length > 0) {
+      throw new Error(`Task is blocked by unfinished dependencies: ${blockedBy.map(blocker => blocker.title).join(', ')}`)
+    }
+  }
+
+  // Walk predecessors of the proposed predecessors; reaching the task itself means a loop
+  private static async wouldCreateCycle(taskId: string, projectId: string, predecessorIds: string[]): Promise<boolean> {
+    const projectTasks = await executeGenericDbQuery(async () => {
+      return await Task.find({
+        projectId: new mongoose.Types.ObjectId(projectId),
+        isDeleted: { $ne: true },
+        'dependencies.0': { $exists: true }
+      }).select('dependencies').lean()
+    })
+
+    const graph = new Map<string, string[]>(projectTasks.map((task: any) => [
+      task._id.toString(),
+      (task.dependencies || []).map((dependency: any) => dependency.taskId.toString())
+    ]))
+
+    const visited = new Set<string>()
+    const stack = [...predecessorIds]
+    while (stack.length > 0) {
+      const current = stack.pop()!
+      if (current === taskId) return true
+      if (visited.has(current)) continue
+      visited.add(current)
+      stack.push(...(graph.get(current) || []))
+    }
+
+    return false
+  }
+}
@@ -12,6 +12,7 @@ import {
 } from '@/lib/validations/task-operation'
 import { z } from 'zod'
 import { NotificationService } from './notification-service'
+import { TaskWorkflowService } from './task-workflow-service'
 
 export interface TaskOperationPayload {
   type: 'drag_drop' | 'assignment' | 'status_change' | 'creation' | 'deletion'
@@ -244,17 +245,37 @@ export class TaskOperationsService {
   }
 
   /**
-   * Handle task status changes with realtime broadcast
+   * Handle task status changes with realtime broadcast. States carry workflow
+   * status keys; moves the project's workflow does not allow are rejected
+   * before anything is recorded.
    */
   static async handleTaskStatusChange(payload: StatusChangePayload): Promise<void> {
     try {
       // Validate payload
       const validatedPayload = taskStatusOperationSchema.parse(payload)
+
+      // Enforce the project's workflow transitions
+      const { statuses } = await TaskWorkflowService.getWorkflow(payload.projectId)
+      const nextStatus = statuses.find(status => status.key === validatedPayload.newState.status)
+      if (!nextStatus) {
+        throw new Error(`Unknown workflow status "${validatedPayload.newState.status}" for this project`)
+      }
+      TaskWorkflowService.assertTransition(
+        statuses.find(status => status.key === validatedPayload.previousState?.status),
+        nextStatus
+      )
       
       // Record operation in MongoDB
       const operation = await executeGenericDbQuery(async () => {
         const taskOperation = new TaskOperation({
-          ...validatedPayload,
+          taskId: validatedPayload.taskId,
+          projectId: validatedPayload.projectId,
+          departmentId: validatedPayload.departmentId,
+          operationType: 'status_change',
+          oldData: validatedPayload.previousState,
+          newData: validatedPayload.newState,
+          userId: validatedPayload.userId,
+          userName: validatedPayload.userName,
           broadcastStatus: 'pending'
         })
         return await taskOperation.save()
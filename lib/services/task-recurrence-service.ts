@@ -0,0 +1,304 @@
+import mongoose from 'mongoose'
+import { executeGenericDbQuery, clearCache } from '@/lib/mongodb'
+import Task, { type ITaskRecurrence } from '@/models/Task'
+import { NotificationService } from './notification-service'
+
+type RecurrenceInput = Pick<ITaskRecurrence,
+  'frequency' | 'interval' | 'weekdays' | 'dayOfMonth' | 'rrule' | 'generateOn' | 'endType' | 'endAfterOccurrences' | 'endDate'>
+
+// A rule reduced to a plain daily/weekly/monthly pattern with its end condition
+export interface ResolvedRecurrence {
+  frequency: 'daily' | 'weekly' | 'monthly'
+  interval: number
+  weekdays: number[]
+  dayOfMonth?: number
+  endAfterOccurrences?: number
+  endDate?: Date
+}
+
+export interface RecurrenceRunResult {
+  generated: number
+  failed: { taskId: string; error: string }[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const RRULE_WEEKDAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 }
+const RRULE_FREQUENCIES: Record<string, ResolvedRecurrence['frequency']> = { DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly' }
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+
+export class TaskRecurrenceService {
+  /**
+   * Parse the supported RRULE subset: FREQ (DAILY/WEEKLY/MONTHLY), INTERVAL,
+   * BYDAY (plain weekday codes, weekly only), BYMONTHDAY (one day, monthly
+   * only), COUNT and UNTIL
+   */
+  static parseRRule(rrule: string): ResolvedRecurrence {
+    const resolved: ResolvedRecurrence = { frequency: 'daily', interval: 1, weekdays: [] }
+    let hasFrequency = false
+
+    for (const part of rrule.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+      const [rawKey, rawValue = ''] = part.split('=')
+      const key = rawKey.trim().toUpperCase()
+      const value = rawValue.trim().toUpperCase()
+
+      switch (key) {
+        case 'FREQ':
+          if (!RRULE_FREQUENCIES[value]) throw new Error(`Unsupported recurrence frequency: ${value}`)
+          resolved.frequency = RRULE_FREQUENCIES[value]
+          hasFrequency = true
+          break
+        case 'INTERVAL':
+          resolved.interval = this.parsePositiveInt(value, 'INTERVAL')
+          break
+        case 'BYDAY':
+          resolved.weekdays = value.split(',').map(day => {
+            if (RRULE_WEEKDAYS[day] === undefined) throw new Error(`Unsupported recurrence weekday: ${day}`)
+            return RRULE_WEEKDAYS[day]
+          })
+          break
+        case 'BYMONTHDAY': {
+          const day = this.parsePositiveInt(value, 'BYMONTHDAY')
+          if (day > 31) throw new Error('Invalid recurrence BYMONTHDAY')
+          resolved.dayOfMonth = day
+          break
+        }
+        case 'COUNT':
+          resolved.endAfterOccurrences = this.parsePositiveInt(value, 'COUNT')
+          break
+        case 'UNTIL': {
+          const match = value.match(/^(\d{4})(\d{2})(\d{2})/)
+          if (!match) throw new Error('Invalid recurrence UNTIL date')
+          resolved.endDate = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])))
+          break
+        }
+        default:
+          throw new Error(`Unsupported recurrence rule part: ${key}`)
+      }
+    }
+
+    if (!hasFrequency) throw new Error('Recurrence rule must include FREQ')
+    if (resolved.weekdays.length > 0 && resolved.frequency !== 'weekly') {
+      throw new Error('Recurrence BYDAY is only supported with FREQ=WEEKLY')
+    }
+    if (resolved.dayOfMonth !== undefined && resolved.frequency !== 'monthly') {
+      throw new Error('Recurrence BYMONTHDAY is only supported with FREQ=MONTHLY')
+    }
+    return resolved
+  }
+
+  /**
+   * Effective pattern for a stored rule. RRULE COUNT/UNTIL only apply when the
+   * rule itself does not set an end condition.
+   */
+  static resolve(recurrence: RecurrenceInput): ResolvedRecurrence {
+    if (recurrence.frequency === 'rrule') {
+      const parsed = this.parseRRule(recurrence.rrule || '')
+      // The anchor day stored for monthly rules without BYMONTHDAY
+      if (parsed.frequency === 'monthly' && parsed.dayOfMonth === undefined) parsed.dayOfMonth = recurrence.dayOfMonth
+      if (recurrence.endType === 'after') return { ...parsed, endAfterOccurrences: recurrence.endAfterOccurrences, endDate: undefined }
+      if (recurrence.endType === 'on_date') return { ...parsed, endAfterOccurrences: undefined, endDate: recurrence.endDate }
+      return parsed
+    }
+
+    return {
+      frequency: recurrence.frequency,
+      interval: recurrence.interval || 1,
+      weekdays: recurrence.weekdays || [],
+      dayOfMonth: recurrence.dayOfMonth,
+      endAfterOccurrences: recurrence.endType === 'after' ? recurrence.endAfterOccurrences : undefined,
+      endDate: recurrence.endType === 'on_date' ? recurrence.endDate : undefined,
+    }
+  }
+
+  /**
+   * Date of the occurrence after `from`, keeping its time of day. Weeks start on Monday.
+   */
+  static getNextOccurrence(rule: ResolvedRecurrence, from: Date): Date {
+    const base = new Date(from)
+
+    if (rule.frequency === 'daily') {
+      return new Date(base.getTime() + rule.interval * DAY_MS)
+    }
+
+    if (rule.frequency === 'weekly') {
+      const toMondayIndex = (day: number) => (day + 6) % 7
+      const current = toMondayIndex(base.getUTCDay())
+      const days = (rule.weekdays.length > 0 ? rule.weekdays : [base.getUTCDay()]).map(toMondayIndex).sort((a, b) => a - b)
+
+      const laterThisWeek = days.find(day => day > current)
+      if (laterThisWeek !== undefined) {
+        return new Date(base.getTime() + (laterThisWeek - current) * DAY_MS)
+      }
+      // Wrap to the first selected day of the next week in the cycle
+      return new Date(base.getTime() + (7 * rule.interval - current + days[0]) * DAY_MS)
+    }
+
+    const targetMonth = base.getUTCMonth() + rule.interval
+    const year = base.getUTCFullYear() + Math.floor(targetMonth / 12)
+    const month = targetMonth % 12
+    const day = Math.min(rule.dayOfMonth || base.getUTCDate(), daysInMonth(year, month))
+    return new Date(Date.UTC(year, month, day, base.getUTCHours(), base.getUTCMinutes(), base.getUTCSeconds()))
+  }
+
+  /**
+   * Validate a rule from the API and merge in the series bookkeeping of the
+   * existing rule, if any. Throws on RRULEs outside the supported subset.
+   */
+  static normalize(input: RecurrenceInput, existing?: ITaskRecurrence | null, dueDate?: Date | string | null): ITaskRecurrence {
+    // Throws for unsupported RRULE strings
+    const resolved = this.resolve(input)
+
+    if (input.generateOn === 'schedule' && !dueDate) {
+      throw new Error('Recurring tasks generated on a schedule need a due date')
+    }
+
+    return {
+      frequency: input.frequency,
+      interval: input.interval || 1,
+      weekdays: input.frequency === 'weekly' ? input.weekdays || [] : undefined,
+      // Monthly rules keep the day they started on, so Jan 31 isn't followed by Feb 28, Mar 28, ...
+      dayOfMonth: resolved.frequency === 'monthly'
+        ? resolved.dayOfMonth ?? (dueDate ? new Date(dueDate).getUTCDate() : undefined)
+        : undefined,
+      rrule: input.frequency === 'rrule' ? input.rrule : undefined,
+      generateOn: input.generateOn || 'completion',
+      endType: input.endType || 'never',
+      endAfterOccurrences: input.endType === 'after' ? input.endAfterOccurrences : undefined,
+      endDate: input.endType === 'on_date' ? input.endDate : undefined,
+      occurrence: existing?.occurrence || 1,
+      seriesId: existing?.seriesId,
+      nextTaskId: existing?.nextTaskId,
+      // A changed rule may extend a series that had ended
+      endedAt: undefined,
+    }
+  }
+
+  /**
+   * Create the next instance of a recurring task, copying its assignee,
+   * department, estimate and description. Returns null when the series has
+   * ended or the next instance already exists.
+   */
+  static async generateNext(taskId: string) {
+    const task = await executeGenericDbQuery(async () => {
+      return await Task.findById(taskId).lean()
+    }) as any
+
+    if (!task?.recurrence || task.recurrence.nextTaskId || task.recurrence.endedAt || task.isDeleted || task.status === 'deleted') {
+      return null
+    }
+
+    const rule = this.resolve(task.recurrence)
+    const occurrence = (task.recurrence.occurrence || 1) + 1
+    const anchor = new Date(task.dueDate || task.startDate || task.completedAt || task.createdAt)
+    // Series from before the anchor day was stored, or without a due date, anchor on this instance
+    if (rule.frequency === 'monthly' && !rule.dayOfMonth) rule.dayOfMonth = anchor.getUTCDate()
+    const nextDueDate = this.getNextOccurrence(rule, anchor)
+
+    // An end date includes the whole of that day
+    const pastEndDate = rule.endDate && nextDueDate.getTime() >= new Date(rule.endDate).getTime() + DAY_MS
+    if ((rule.endAfterOccurrences && occurrence > rule.endAfterOccurrences) || pastEndDate) {
+      await executeGenericDbQuery(async () => {
+        return await Task.updateOne({ _id: taskId }, { $set: { 'recurrence.endedAt': new Date() } })
+      })
+      return null
+    }
+
+    const nextStartDate = task.startDate && task.dueDate
+      ? new Date(nextDueDate.getTime() - (new Date(task.dueDate).getTime() - new Date(task.startDate).getTime()))
+      : undefined
+
+    // Claim the slot before creating so completion and the cron cannot both generate it
+    const nextId = new mongoose.Types.ObjectId()
+    const claim = await executeGenericDbQuery(async () => {
+      return await Task.updateOne(
+        { _id: taskId, 'recurrence.nextTaskId': { $exists: false } },
+        { $set: { 'recurrence.nextTaskId': nextId } }
+      )
+    })
+    if (claim.modifiedCount === 0) return null
+
+    try {
+      const next = await executeGenericDbQuery(async () => {
+        return await Task.create({
+          _id: nextId,
+          title: task.title,
+          description: task.description,
+          projectId: task.projectId,
+          departmentId: task.departmentId,
+          parentTaskId: task.parentTaskId,
+          assigneeId: task.assigneeId,
+          assignedBy: task.assignedBy,
+          priority: task.priority,
+          type: task.type,
+          estimatedHours: task.estimatedHours,
+          startDate: nextStartDate,
+          dueDate: nextDueDate,
+          order: task.order,
+          createdBy: task.createdBy,
+          status: 'pending',
+          recurrence: {
+            ...task.recurrence,
+            dayOfMonth: rule.frequency === 'monthly' ? rule.dayOfMonth : undefined,
+            occurrence,
+            seriesId: task.recurrence.seriesId || task._id,
+            nextTaskId: undefined,
+            endedAt: undefined,
+          },
+        })
+      })
+
+      clearCache('tasks')
+      clearCache(`project-${task.projectId}`)
+
+      if (task.assigneeId) {
+        await NotificationService.notifyTaskAssigned(nextId.toString(), task.createdBy.toString(), task.assigneeId.toString())
+      }
+
+      return next
+    } catch (error) {
+      // Release the claim so the next attempt can retry
+      await executeGenericDbQuery(async () => {
+        return await Task.updateOne({ _id: taskId, 'recurrence.nextTaskId': nextId }, { $unset: { 'recurrence.nextTaskId': 1 } })
+      })
+      throw error
+    }
+  }
+
+  /**
+   * Generate next instances for scheduled series whose current instance is due
+   */
+  static async generateDue(now: Date = new Date()): Promise<RecurrenceRunResult> {
+    const due = await executeGenericDbQuery(async () => {
+      return await Task.find({
+        'recurrence.generateOn': 'schedule',
+        'recurrence.nextTaskId': { $exists: false },
+        'recurrence.endedAt': { $exists: false },
+        isDeleted: { $ne: true },
+        status: { $ne: 'deleted' },
+        dueDate: { $lte: now },
+      }).select('_id').lean()
+    })
+
+    const result: RecurrenceRunResult = { generated: 0, failed: [] }
+    for (const task of due) {
+      const taskId = (task as any)._id.toString()
+      try {
+        if (await this.generateNext(taskId)) result.generated++
+      } catch (error: any) {
+        result.failed.push({ taskId, error: error.message || 'Failed to generate next occurrence' })
+      }
+    }
+
+    return result
+  }
+
+  private static parsePositiveInt(value: string, field: string): number {
+    const parsed = Number(value)
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new Error(`Invalid recurrence ${field}`)
+    }
+    return parsed
+  }
+}
@@ -0,0 +1,163 @@
+import { executeGenericDbQuery, clearCache } from '@/lib/mongodb'
+import Task from '@/models/Task'
+import Project from '@/models/Project'
+import User from '@/models/User'
+import Department from '@/models/Department'
+import type { CreateTaskData } from '@/lib/validations/task'
+import { TaskDependencyService } from './task-dependency-service'
+import { TaskRecurrenceService } from './task-recurrence-service'
+import { TaskWorkflowService } from './task-workflow-service'
+
+export interface TaskActor {
+  user: any // Session user from the route middleware
+  isSuperAdmin?: boolean
+}
+
+export class TaskService {
+  /**
+   * Create a task or sub-task after the project, department and permission checks.
+   * Shared by the tasks API and chat features that create tasks.
+   */
+  static async create(data: CreateTaskData, { user, isSuperAdmin = false }: TaskActor) {
+    const task = await executeGenericDbQuery(async () => {
+      // Verify project exists (super admin can create tasks for any project)
+      const project = await Project.findOne({
+        _id: data.projectId,
+        status: { $ne: 'inactive' }
+      })
+
+      if (!project) {
+        throw new Error('Project not found')
+      }
+
+      // For non-super-admin users, verify project is approved and department is assigned
+      if (!isSuperAdmin) {
+        if (!['approved', 'active'].includes(project.status)) {
+          throw new Error('Project not found or not approved')
+        }
+
+        // Verify department is assigned to the project
+        if (!project.departmentIds.some((deptId: any) => deptId.toString() === data.departmentId)) {
+          throw new Error('Department is not assigned to this project')
+        }
+      }
+
+      // For sub-tasks, verify parent task exists and belongs to same project/department
+      if (data.type === 'sub-task' && data.parentTaskId) {
+        const parentTask = await Task.findOne({
+          _id: data.parentTaskId,
+          projectId: data.projectId,
+          departmentId: data.departmentId,
+          type: 'task'
+        })
+
+        if (!parentTask) {
+          throw new Error('Parent task not found or invalid')
+        }
+      }
+
+      // Verify assignee belongs to the department (if provided)
+      if (data.assigneeId) {
+        const assignee = await User.findOne({
+          _id: data.assigneeId,
+          department: data.departmentId,
+          status: 'active'
+        })
+
+        if (!assignee) {
+          throw new Error('Assignee not found or not in the task department')
+        }
+      }
+
+      // Permission checks
+      const userDepartment = user.department?.name?.toLowerCase()
+      const isSupport = ['support', 'admin'].includes(userDepartment)
+      const isLeadOrManager = ['department_lead', 'manager'].includes(user.role?.name)
+
+      // Super admin can create any tasks, support team, department leads, and managers can create main tasks
+      if (data.type === 'task' && !isSuperAdmin && !isSupport && !isLeadOrManager) {
+        throw new Error('Only support team and department leads can create main tasks')
+      }
+
+      // Department leads can only create tasks in their department (super admin and support bypass this)
+      if (!isSuperAdmin && !isSupport && user.department?.toString() !== data.departmentId) {
+        throw new Error('You can only create tasks in your department')
+      }
+
+      // Predecessors must be in this project; a new task cannot close a cycle yet
+      // New tasks start in the requested column of the project's workflow
+      Object.assign(data, await TaskWorkflowService.resolveInitial(data.projectId, data))
+
+      if (data.dependencies?.length) {
+        data.dependencies = await TaskDependencyService.validateDependencies(
+          null,
+          data.projectId,
+          data.dependencies
+        )
+        await TaskDependencyService.assertCanTransition({ _id: 'new', dependencies: data.dependencies }, data.status)
+      }
+
+      if (data.recurrence) {
+        data.recurrence = TaskRecurrenceService.normalize(data.recurrence, null, data.dueDate) as any
+      }
+
+      // Create the task
+      const newTask = new Task({
+        ...data,
+        createdBy: user.id,
+        assignedBy: data.assigneeId ? user.id : undefined
+      })
+
+      const savedTask = await newTask.save()
+
+      // Sync assignee to project channel if task has both assignee and project
+      if (data.assigneeId && data.projectId) {
+        try {
+          const { channelSyncManager } = await import('@/lib/communication/channel-sync-manager')
+          await channelSyncManager.syncAssigneeToProjectChannel(
+            data.assigneeId,
+            data.projectId,
+            user.id
+          )
+        } catch (syncError) {
+          console.warn('Failed to sync assignee to project channel:', syncError)
+          // Don't block task creation if sync fails
+        }
+      }
+
+      return savedTask
+    })
+
+    // Clear relevant cache patterns after creation
+    clearCache('tasks')
+    clearCache(`project-${data.projectId}`)
+
+    return task
+  }
+
+  /**
+   * Department a task from a chat channel should land in: the user's if the
+   * project has it, since create() limits most users to their own; then the
+   * preferred one (e.g. the channel's), then the project's first. Null if the
+   * project is missing or has no departments.
+   */
+  static async resolveDepartment(projectId: string, { userId, preferredDepartmentId }: { userId: string; preferredDepartmentId?: string | null }) {
+    return executeGenericDbQuery(async () => {
+      const project: any = await Project.findById(projectId).select('departmentIds').lean()
+      const departmentIds: string[] = (project?.departmentIds || []).map((id: any) => id.toString())
+      if (!departmentIds.length) return null
+
+      const user: any = await User.findById(userId).select('department').lean()
+      const userDepartmentId = user?.department?.toString()
+
+      // Only super admins and support can use a department other than their own
+      let departmentId = userDepartmentId && departmentIds.includes(userDepartmentId) ? userDepartmentId : null
+      if (!departmentId) {
+        departmentId = preferredDepartmentId && departmentIds.includes(preferredDepartmentId) ? preferredDepartmentId : departmentIds[0]
+      }
+
+      const department: any = await Department.findById(departmentId).select('name').lean()
+      return { departmentId: departmentId as string, departmentName: (department?.name as string) || '' }
+    })
+  }
+}
@@ -0,0 +1,203 @@
+import { executeGenericDbQuery, clearCache } from '@/lib/mongodb'
+import Project, { type IWorkflowStatus } from '@/models/Project'
+import Task, { type ITask } from '@/models/Task'
+import { TASK_CONSTANTS } from '@/lib/validations/task'
+import {
+  DEFAULT_WORKFLOW_STATUSES,
+  TASK_STATUS_CATEGORY,
+  toBaseTaskStatus,
+  getTaskWorkflowStatus,
+  canTransition,
+} from '@/lib/utils/task-workflow'
+
+type TaskStatus = ITask['status']
+
+export interface ResolvedWorkflow {
+  statuses: IWorkflowStatus[]
+  isCustom: boolean
+}
+
+// A requested move between two workflow statuses
+export interface WorkflowStatusChange {
+  from: IWorkflowStatus
+  to: IWorkflowStatus
+  status: TaskStatus // Base status the task is stored with
+}
+
+// Statuses that take a task off the board; they bypass the workflow
+const OFF_BOARD_STATUSES: string[] = ['cancelled', 'deleted']
+
+export class TaskWorkflowService {
+  /**
+   * Statuses for a project, in board order
+   */
+  static async getWorkflow(projectId: string): Promise<ResolvedWorkflow> {
+    const project = await executeGenericDbQuery(async () => {
+      return await Project.findById(projectId).select('workflow').lean()
+    }, `project-${projectId}-workflow`, 60000) as any
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    const statuses: IWorkflowStatus[] | undefined = project.workflow?.statuses
+    return statuses?.length
+      ? { statuses, isCustom: true }
+      : { statuses: DEFAULT_WORKFLOW_STATUSES, isCustom: false }
+  }
+
+  /**
+   * Replace a project's workflow (null restores the defaults). Tasks sitting in a
+   * status that no longer exists move to the first status of the same category.
+   */
+  static async updateWorkflow(projectId: string, statuses: IWorkflowStatus[] | null): Promise<ResolvedWorkflow> {
+    await executeGenericDbQuery(async () => {
+      return await Project.updateOne(
+        { _id: projectId },
+        statuses ? { $set: { workflow: { statuses } } } : { $unset: { workflow: 1 } }
+      )
+    })
+    clearCache(`project-${projectId}`)
+
+    const workflow = await this.getWorkflow(projectId)
+    await this.remapTasks(projectId, workflow.statuses)
+    return workflow
+  }
+
+  /**
+   * Resolve a requested status or workflow key for a task. Returns null when the
+   * task stays where it is or moves off the board (cancelled / deleted).
+   */
+  static async resolveChange(
+    task: { projectId: any; status?: string; workflowStatus?: string },
+    requested: { status?: string; workflowStatus?: string }
+  ): Promise<WorkflowStatusChange | null> {
+    if (!requested.workflowStatus && (!requested.status || OFF_BOARD_STATUSES.includes(requested.status))) {
+      return null
+    }
+
+    // Forms resend the unchanged base status; keep the task in its column
+    if (!requested.workflowStatus && requested.status === task.status) {
+      return null
+    }
+
+    const { statuses } = await this.getWorkflow(task.projectId.toString())
+    const to = this.findTarget(statuses, requested)
+    const from = getTaskWorkflowStatus(task, statuses)
+
+    if (from.key === to.key && task.workflowStatus === to.key) {
+      return null
+    }
+
+    return { from, to, status: toBaseTaskStatus(to) }
+  }
+
+  /**
+   * Status and workflow key a new task starts with
+   */
+  static async resolveInitial(
+    projectId: string,
+    requested: { status?: string; workflowStatus?: string }
+  ): Promise<{ status: TaskStatus; workflowStatus?: string }> {
+    if (!requested.workflowStatus && requested.status && OFF_BOARD_STATUSES.includes(requested.status)) {
+      return { status: requested.status as TaskStatus }
+    }
+
+    const { statuses } = await this.getWorkflow(projectId)
+    const to = this.findTarget(statuses, {
+      status: requested.status || TASK_CONSTANTS.STATUS.DEFAULT,
+      workflowStatus: requested.workflowStatus,
+    })
+    return { status: toBaseTaskStatus(to), workflowStatus: to.key }
+  }
+
+  /**
+   * Throw when the workflow does not allow moving between two statuses
+   */
+  static assertTransition(from: IWorkflowStatus | undefined, to: IWorkflowStatus): void {
+    if (!canTransition(from, to)) {
+      throw new Error(`Moving a task from "${from?.name}" to "${to.name}" is not allowed by this project's workflow`)
+    }
+  }
+
+  /**
+   * Throw when moving tasks into a status would exceed its hard WIP limit.
+   * Limits apply per department column and count top-level tasks, as the board
+   * shows them; tasks already in the column are not counted twice.
+   */
+  static async assertWipLimit(
+    task: { projectId: any; departmentId: any },
+    to: IWorkflowStatus,
+    incomingTaskIds: string[]
+  ): Promise<void> {
+    if (!to.wipLimit || !to.wipLimitStrict) return
+
+    const { statuses } = await this.getWorkflow(task.projectId.toString())
+    const columnTasks = await executeGenericDbQuery(async () => {
+      return await Task.find({
+        projectId: task.projectId,
+        departmentId: task.departmentId,
+        parentTaskId: null,
+        isDeleted: { $ne: true },
+        status: { $nin: OFF_BOARD_STATUSES },
+      }).select('_id status workflowStatus').lean()
+    }) as any[]
+
+    const incoming = new Set(incomingTaskIds.map(String))
+    const staying = columnTasks.filter(columnTask =>
+      !incoming.has(columnTask._id.toString()) && getTaskWorkflowStatus(columnTask, statuses).key === to.key
+    ).length
+
+    if (staying + incoming.size > to.wipLimit) {
+      throw new Error(`"${to.name}" has a WIP limit of ${to.wipLimit} tasks`)
+    }
+  }
+
+  private static findTarget(statuses: IWorkflowStatus[], requested: { status?: string; workflowStatus?: string }): IWorkflowStatus {
+    if (requested.workflowStatus) {
+      const match = statuses.find(status => status.key === requested.workflowStatus)
+      if (!match) {
+        throw new Error(`Unknown workflow status "${requested.workflowStatus}" for this project`)
+      }
+      return match
+    }
+
+    // Base statuses from older clients land in the first column of their category
+    const category = TASK_STATUS_CATEGORY[requested.status || ''] || 'todo'
+    const match = statuses.find(status => status.key === requested.status)
+      || statuses.find(status => status.category === category)
+    if (!match) {
+      throw new Error(`This project's workflow has no "${category}" status`)
+    }
+    return match
+  }
+
+  private static async remapTasks(projectId: string, statuses: IWorkflowStatus[]): Promise<void> {
+    const tasks = await executeGenericDbQuery(async () => {
+      return await Task.find({
+        projectId,
+        isDeleted: { $ne: true },
+        status: { $nin: OFF_BOARD_STATUSES },
+      }).select('_id status workflowStatus').lean()
+    }) as any[]
+
+    const updates = tasks.flatMap(task => {
+      const target = getTaskWorkflowStatus(task, statuses)
+      const status = toBaseTaskStatus(target)
+      if (task.workflowStatus === target.key && task.status === status) return []
+      return [{
+        updateOne: {
+          filter: { _id: task._id },
+          update: { $set: { workflowStatus: target.key, status } },
+        },
+      }]
+    })
+
+    if (updates.length === 0) return
+
+    await executeGenericDbQuery(async () => {
+      return await Task.bulkWrite(updates)
+    })
+    clearCache('tasks')
+  }
+}
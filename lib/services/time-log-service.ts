@@ -0,0 +1,91 @@
+import mongoose from 'mongoose'
+import { executeGenericDbQuery, clearCache } from '@/lib/mongodb'
+import TimeLog from '@/models/TimeLog'
+import Task from '@/models/Task'
+import Project from '@/models/Project'
+
+export interface TimeRollupResult {
+  taskId: string
+  projectId: string
+  taskActualHours: number
+  projectActualHours: number
+}
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100
+
+export class TimeLogService {
+  /**
+   * Recalculate Task.actualHours from its non-deleted time logs
+   */
+  static async recalculateTaskHours(taskId: string): Promise<number> {
+    const totalHours = roundHours(await TimeLog.getTotalHours(taskId))
+
+    await Task.updateOne(
+      { _id: taskId },
+      { $set: { actualHours: totalHours, updatedAt: new Date() } }
+    )
+
+    return totalHours
+  }
+
+  /**
+   * Recalculate Project.resources.actualHours from all of the project's time logs
+   */
+  static async recalculateProjectHours(projectId: string): Promise<number> {
+    const totalHours = roundHours(await TimeLog.getProjectTotalHours(projectId))
+
+    await Project.updateOne(
+      { _id: projectId },
+      { $set: { 'resources.actualHours': totalHours } }
+    )
+
+    return totalHours
+  }
+
+  /**
+   * Build a TimeLog filter limited to tasks the caller can see under the
+   * `tasks` permission filters. Users always see their own logs.
+   */
+  static async buildAccessFilter(
+    userId: string,
+    applyTaskFilters: (baseQuery: any) => Promise<any>,
+    isSuperAdmin: boolean = false
+  ): Promise<Record<string, any>> {
+    if (isSuperAdmin) {
+      return {}
+    }
+
+    const taskQuery = await applyTaskFilters({ isDeleted: { $ne: true } })
+    const visibleTaskIds = await executeGenericDbQuery(async () => {
+      return await Task.find(taskQuery).distinct('_id')
+    }, `time-logs-visible-tasks-${userId}-${JSON.stringify(taskQuery)}`, 60000)
+
+    // An ObjectId rather than the string, since aggregate $match doesn't cast
+    return {
+      $or: [
+        { userId: new mongoose.Types.ObjectId(userId) },
+        { taskId: { $in: visibleTaskIds } }
+      ]
+    }
+  }
+
+  /**
+   * Roll logged hours up into the task and its project after any time log change
+   */
+  static async syncRollups(taskId: string, projectId: string): Promise<TimeRollupResult> {
+    const [taskActualHours, projectActualHours] = await executeGenericDbQuery(async () => {
+      return await Promise.all([
+        this.recalculateTaskHours(taskId),
+        this.recalculateProjectHours(projectId)
+      ])
+    })
+
+    // Task and project reads are cached, so drop anything holding stale hours
+    clearCache('tasks')
+    clearCache(`task-${taskId}`)
+    clearCache(`project-${projectId}`)
+    clearCache('time-logs')
+
+    return { taskId, projectId, taskActualHours, projectActualHours }
+  }
+}
@@ -0,0 +1,356 @@
+import { broadcastToUser } from '@/lib/communication/broadcast'
+import { executeGenericDbQuery, clearCache } from '@/lib/mongodb'
+import ActiveTimer, { type IActiveTimer } from '@/models/ActiveTimer'
+import TimeLog from '@/models/TimeLog'
+import Settings from '@/models/Settings'
+import Timesheet from '@/models/Timesheet'
+import { TimeLogService, type TimeRollupResult } from './time-log-service'
+
+export const TIMER_IDLE_LIMIT_SETTING_KEY = 'time_tracking_idle_limit_minutes'
+export const DEFAULT_TIMER_IDLE_LIMIT_MINUTES = 120
+
+export type TimerUpdateReason = 'started' | 'paused' | 'resumed' | 'stopped' | 'auto_stopped' | 'discarded'
+
+export interface StartTimerInput {
+  taskId: string
+  projectId: string
+  description?: string
+  stopExisting?: boolean
+}
+
+export interface StopTimerResult {
+  timeLog: any | null
+  rollup?: TimeRollupResult
+  hours: number
+}
+
+const MS_PER_HOUR = 60 * 60 * 1000
+const MAX_TIMER_HOURS = 24
+const MIN_TIMER_HOURS = 0.01
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100
+
+export class TimerService {
+  /**
+   * Idle limit in minutes from Settings; 0 disables auto-stop
+   */
+  static async getIdleLimitMinutes(): Promise<number> {
+    const setting = await executeGenericDbQuery(async () => {
+      return await Settings.getSetting(TIMER_IDLE_LIMIT_SETTING_KEY)
+    }, `settings-${TIMER_IDLE_LIMIT_SETTING_KEY}`, 60000)
+
+    const value = Number(setting?.value)
+    return Number.isFinite(value) && value >= 0 ? value : DEFAULT_TIMER_IDLE_LIMIT_MINUTES
+  }
+
+  /**
+   * Shape a timer for API responses and broadcasts
+   */
+  static serialize(timer: IActiveTimer | null, idleLimitMinutes?: number) {
+    if (!timer) return null
+
+    const plain: any = typeof (timer as any).toObject === 'function' ? (timer as any).toObject() : timer
+
+    return {
+      _id: plain._id?.toString(),
+      userId: plain.userId?.toString(),
+      taskId: (plain.taskId?._id || plain.taskId)?.toString(),
+      projectId: (plain.projectId?._id || plain.projectId)?.toString(),
+      task: plain.task ? { _id: plain.task._id?.toString(), title: plain.task.title } : undefined,
+      project: plain.project ? { _id: plain.project._id?.toString(), name: plain.project.name } : undefined,
+      description: plain.description || '',
+      status: plain.status,
+      startedAt: plain.startedAt,
+      lastResumedAt: plain.lastResumedAt || null,
+      accumulatedMs: plain.accumulatedMs || 0,
+      lastActivityAt: plain.lastActivityAt,
+      idleLimitMinutes,
+      serverTime: new Date().toISOString(),
+    }
+  }
+
+  /**
+   * Get the caller's timer, stopping it first if it has been idle past the limit
+   */
+  static async getActiveTimer(userId: string) {
+    const timer = await executeGenericDbQuery(async () => {
+      return await ActiveTimer.findByUserId(userId)
+    })
+
+    if (!timer) return null
+
+    const idleLimitMinutes = await this.getIdleLimitMinutes()
+    if (this.isIdle(timer, idleLimitMinutes)) {
+      await this.autoStopTimer(timer, idleLimitMinutes)
+      return null
+    }
+
+    return this.serialize(timer, idleLimitMinutes)
+  }
+
+  /**
+   * Start a timer, or resume the caller's paused timer on the same task
+   */
+  static async startTimer(userId: string, input: StartTimerInput) {
+    const idleLimitMinutes = await this.getIdleLimitMinutes()
+    const now = new Date()
+
+    let existing = await executeGenericDbQuery(async () => {
+      return await ActiveTimer.findOne({ userId })
+    })
+
+    if (existing && this.isIdle(existing, idleLimitMinutes)) {
+      await this.autoStopTimer(existing, idleLimitMinutes)
+      existing = null
+    }
+
+    if (existing) {
+      const sameTask = existing.taskId.toString() === input.taskId
+
+      if (sameTask) {
+        if (existing.status === 'paused') {
+          existing.status = 'running'
+          existing.lastResumedAt = now
+        }
+        if (input.description !== undefined) {
+          existing.description = input.description
+        }
+        existing.lastActivityAt = now
+        await existing.save()
+
+        const resumed = await ActiveTimer.findByUserId(userId)
+        const payload = this.serialize(resumed, idleLimitMinutes)
+        await this.notify(userId, payload, 'resumed')
+        return payload
+      }
+
+      if (!input.stopExisting) {
+        throw new Error('A timer is already running on another task')
+      }
+
+      await this.stopTimer(userId)
+    }
+
+    await executeGenericDbQuery(async () => {
+      return await ActiveTimer.create({
+        userId,
+        taskId: input.taskId,
+        projectId: input.projectId,
+        description: input.description,
+        status: 'running',
+        startedAt: now,
+        lastResumedAt: now,
+        accumulatedMs: 0,
+        lastActivityAt: now,
+      })
+    })
+
+    const created = await ActiveTimer.findByUserId(userId)
+    const payload = this.serialize(created, idleLimitMinutes)
+    await this.notify(userId, payload, 'started')
+    return payload
+  }
+
+  /**
+   * Pause the caller's running timer, banking the elapsed time
+   */
+  static async pauseTimer(userId: string) {
+    const idleLimitMinutes = await this.getIdleLimitMinutes()
+    const timer = await executeGenericDbQuery(async () => {
+      return await ActiveTimer.findOne({ userId })
+    })
+
+    if (!timer) {
+      throw new Error('No active timer found')
+    }
+
+    if (this.isIdle(timer, idleLimitMinutes)) {
+      await this.autoStopTimer(timer, idleLimitMinutes)
+      throw new Error('Timer was stopped after being idle')
+    }
+
+    if (timer.status === 'running') {
+      const now = new Date()
+      timer.accumulatedMs = ActiveTimer.getElapsedMs(timer, now)
+      timer.status = 'paused'
+      timer.lastResumedAt = undefined
+      timer.lastActivityAt = now
+      await timer.save()
+    }
+
+    const paused = await ActiveTimer.findByUserId(userId)
+    const payload = this.serialize(paused, idleLimitMinutes)
+    await this.notify(userId, payload, 'paused')
+    return payload
+  }
+
+  /**
+   * Record activity so a running timer is not treated as idle
+   */
+  static async touchTimer(userId: string) {
+    const timer = await this.getActiveTimer(userId)
+    if (!timer) return null
+
+    await executeGenericDbQuery(async () => {
+      return await ActiveTimer.updateOne({ userId }, { $set: { lastActivityAt: new Date() } })
+    })
+
+    return { ...timer, lastActivityAt: new Date() }
+  }
+
+  /**
+   * Stop the caller's timer and convert it into a `timer` time log
+   */
+  static async stopTimer(userId: string, description?: string): Promise<StopTimerResult> {
+    const timer = await executeGenericDbQuery(async () => {
+      return await ActiveTimer.findOne({ userId })
+    })
+
+    if (!timer) {
+      throw new Error('No active timer found')
+    }
+
+    const idleLimitMinutes = await this.getIdleLimitMinutes()
+    if (this.isIdle(timer, idleLimitMinutes)) {
+      return await this.autoStopTimer(timer, idleLimitMinutes)
+    }
+
+    const result = await this.convertToTimeLog(timer, new Date(), { description })
+    await this.notify(userId, null, result.timeLog ? 'stopped' : 'discarded', result.timeLog?._id?.toString())
+    return result
+  }
+
+  /**
+   * Stop every timer that has been idle past the limit. Intended for the cron route.
+   */
+  static async autoStopIdleTimers(): Promise<{ stopped: number }> {
+    const idleLimitMinutes = await this.getIdleLimitMinutes()
+    if (idleLimitMinutes <= 0) {
+      return { stopped: 0 }
+    }
+
+    const cutoff = new Date(Date.now() - idleLimitMinutes * 60 * 1000)
+    const idleTimers = await executeGenericDbQuery(async () => {
+      return await ActiveTimer.find({ lastActivityAt: { $lte: cutoff } })
+    })
+
+    let stopped = 0
+    for (const timer of idleTimers) {
+      try {
+        await this.autoStopTimer(timer, idleLimitMinutes)
+        stopped++
+      } catch (error) {
+        console.error(`Failed to auto-stop timer ${timer._id}:`, error)
+      }
+    }
+
+    return { stopped }
+  }
+
+  private static isIdle(timer: IActiveTimer, idleLimitMinutes: number): boolean {
+    if (idleLimitMinutes <= 0) return false
+    return Date.now() - new Date(timer.lastActivityAt).getTime() >= idleLimitMinutes * 60 * 1000
+  }
+
+  // Idle timers only count time up to the point the idle limit was reached
+  private static async autoStopTimer(timer: IActiveTimer, idleLimitMinutes: number): Promise<StopTimerResult> {
+    const idleCutoff = new Date(new Date(timer.lastActivityAt).getTime() + idleLimitMinutes * 60 * 1000)
+    const endTime = idleCutoff < new Date() ? idleCutoff : new Date()
+
+    // Nobody is waiting on this stop, so a session with no open week to go in is dropped
+    const result = await this.convertToTimeLog(timer, endTime, { discardIfLocked: true })
+    await this.notify(timer.userId.toString(), null, 'auto_stopped', result.timeLog?._id?.toString())
+    return result
+  }
+
+  private static async convertToTimeLog(
+    timer: IActiveTimer,
+    endTime: Date,
+    options: { description?: string; discardIfLocked?: boolean } = {}
+  ): Promise<StopTimerResult> {
+    const { description, discardIfLocked = false } = options
+    const elapsedMs = ActiveTimer.getElapsedMs(timer, endTime)
+    const hours = Math.min(roundHours(elapsedMs / MS_PER_HOUR), MAX_TIMER_HOURS)
+    const taskId = timer.taskId.toString()
+    const projectId = timer.projectId.toString()
+    const logDate = await this.getEditableLogDate(timer.userId.toString(), timer.startedAt, endTime)
+    if (!logDate && !discardIfLocked) {
+      // Refused rather than dropped, so the time can still be logged once a week reopens
+      throw new Error('Time logs in a submitted or approved timesheet cannot be changed')
+    }
+
+    // Remove first so a concurrent stop from another session cannot log twice
+    const removed = await executeGenericDbQuery(async () => {
+      return await ActiveTimer.findOneAndDelete({ _id: timer._id })
+    })
+
+    if (!removed || !logDate || hours < MIN_TIMER_HOURS) {
+      return { timeLog: null, hours: 0 }
+    }
+
+    let timeLog
+    try {
+      timeLog = await executeGenericDbQuery(async () => {
+        return await TimeLog.createTimeLog({
+          taskId,
+          projectId,
+          userId: timer.userId,
+          description: (description || timer.description || '').trim() || 'Timer session',
+          hours,
+          date: logDate,
+          startTime: timer.startedAt,
+          endTime,
+          logType: 'timer',
+        })
+      })
+    } catch (error) {
+      // Put the timer back so the session isn't lost and the stop can be retried
+      await this.restoreTimer(removed)
+      throw error
+    }
+
+    const rollup = await TimeLogService.syncRollups(taskId, projectId)
+    clearCache('time-logs')
+
+    return { timeLog, rollup, hours }
+  }
+
+  private static async restoreTimer(timer: IActiveTimer): Promise<void> {
+    try {
+      await executeGenericDbQuery(async () => {
+        return await ActiveTimer.create(timer.toObject())
+      })
+    } catch (error) {
+      // A new timer was started in the meantime, which takes the user's only slot
+      console.error(`Failed to restore timer ${timer._id}:`, error)
+    }
+  }
+
+  /**
+   * Date to log a session under. Sessions are logged on the day they started,
+   * unless that week has been submitted or approved since; then they go on the
+   * day they ended, or today. Null when all of those weeks are locked.
+   */
+  private static async getEditableLogDate(userId: string, startedAt: Date, endTime: Date): Promise<Date | null> {
+    for (const date of [new Date(startedAt), endTime, new Date()]) {
+      const locked = await executeGenericDbQuery(async () => {
+        return await Timesheet.isWeekLocked(userId, date)
+      })
+      if (!locked) return date
+    }
+    return null
+  }
+
+  private static async notify(userId: string, timer: ReturnType<typeof TimerService.serialize>, reason: TimerUpdateReason, timeLogId?: string) {
+    try {
+      await broadcastToUser({
+        userId,
+        event: 'timer_update',
+        payload: { timer, reason, timeLogId: timeLogId || null },
+      })
+    } catch (error) {
+      // Other sessions pick the state up on their next fetch
+      console.error('Failed to broadcast timer update:', error)
+    }
+  }
+}
@@ -0,0 +1,371 @@
+import mongoose from 'mongoose'
+import { executeGenericDbQuery, clearCache } from '@/lib/mongodb'
+import { ServerPermissionManager, type Permission } from '@/lib/permissions/server'
+import TimeLog from '@/models/TimeLog'
+import Timesheet, { type ITimesheet } from '@/models/Timesheet'
+import User from '@/models/User'
+import { NotificationService } from './notification-service'
+import { BudgetService } from './budget-service'
+
+export interface TimesheetDay {
+  date: string
+  hours: number
+}
+
+export interface TimesheetReviewResult {
+  processed: string[]
+  failed: { id: string; error: string }[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const roundHours = (hours: number) => Math.round(hours * 100) / 100
+
+export class TimesheetService {
+  /**
+   * Monday 00:00 UTC to Sunday 23:59:59.999 UTC for the week containing `date`
+   */
+  static getWeekRange(date: Date | string = new Date()): { weekStart: Date; weekEnd: Date } {
+    const d = new Date(date)
+    const weekStart = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()))
+    const daysSinceMonday = (weekStart.getUTCDay() + 6) % 7
+    weekStart.setUTCDate(weekStart.getUTCDate() - daysSinceMonday)
+
+    const weekEnd = new Date(weekStart.getTime() + 7 * DAY_MS - 1)
+    return { weekStart, weekEnd }
+  }
+
+  /**
+   * Whether `reviewer` holds `timesheets.approve` for everyone. Grants limited by
+   * a condition such as `subordinates` only reach the reviewer's direct reports,
+   * which the `reportsTo` checks already cover.
+   */
+  static canReviewAll(reviewer: any): boolean {
+    const permissions: Permission[] = reviewer.permissions || reviewer.role?.permissions || []
+    if (!ServerPermissionManager.hasPermission(permissions, 'timesheets', 'approve')) return false
+
+    return permissions.some(permission => {
+      if (permission.resource !== 'timesheets' || !permission.actions.includes('approve')) return false
+
+      const conditions: Record<string, boolean | undefined> = permission.conditions || {}
+      if (conditions.unrestricted === true) return true
+      return !Object.entries(conditions).some(([key, value]) => key !== 'unrestricted' && value === true)
+    })
+  }
+
+  /**
+   * Whether `reviewer` may approve or reject timesheets belonging to `owner`.
+   * Allowed for the owner's `reportsTo` manager or anyone with an unrestricted
+   * `timesheets.approve` grant.
+   */
+  static canReview(reviewer: any, owner: { _id: any; reportsTo?: any }, isSuperAdmin: boolean = false): boolean {
+    const reviewerId = (reviewer._id || reviewer.id).toString()
+    if (owner._id.toString() === reviewerId) return false
+    if (isSuperAdmin) return true
+
+    if (owner.reportsTo && owner.reportsTo.toString() === reviewerId) return true
+
+    return this.canReviewAll(reviewer)
+  }
+
+  /**
+   * Weekly view for a user: timesheet status, logs and per-day totals
+   */
+  static async getWeek(userId: string, date: Date | string = new Date()) {
+    const { weekStart, weekEnd } = this.getWeekRange(date)
+
+    const [timesheet, logs] = await Promise.all([
+      executeGenericDbQuery(async () => {
+        return await Timesheet.findOne({ userId, weekStart })
+          .populate('reviewer', 'name email')
+          .lean()
+      }),
+      executeGenericDbQuery(async () => {
+        return await TimeLog.find({
+          userId,
+          isDeleted: false,
+          date: { $gte: weekStart, $lte: weekEnd }
+        })
+          .populate('task', 'title')
+          .populate('project', 'name')
+          .sort({ date: 1, createdAt: 1 })
+          .lean()
+      })
+    ])
+
+    const days: TimesheetDay[] = Array.from({ length: 7 }, (_, index) => {
+      const day = new Date(weekStart.getTime() + index * DAY_MS)
+      const key = day.toISOString().split('T')[0]
+      const hours = logs
+        .filter((log: any) => new Date(log.date).toISOString().split('T')[0] === key)
+        .reduce((total: number, log: any) => total + log.hours, 0)
+      return { date: key, hours: roundHours(hours) }
+    })
+
+    const totalHours = roundHours(logs.reduce((total: number, log: any) => total + log.hours, 0))
+
+    return {
+      timesheet: timesheet || {
+        userId,
+        weekStart,
+        weekEnd,
+        status: 'draft',
+        totalHours,
+      },
+      weekStart,
+      weekEnd,
+      days,
+      totalHours,
+      logs,
+    }
+  }
+
+  /**
+   * Timesheets the reviewer can act on: everyone's with an unrestricted
+   * `timesheets.approve` grant, otherwise only those of users who report to them
+   */
+  static async listForReview(
+    reviewer: any,
+    filters: { status?: string; weekStart?: Date } = {},
+    isSuperAdmin: boolean = false
+  ) {
+    const reviewerId = (reviewer._id || reviewer.id).toString()
+    const hasApprovePermission = isSuperAdmin || this.canReviewAll(reviewer)
+
+    const query: any = {
+      status: filters.status || 'submitted',
+      userId: { $ne: reviewerId },
+    }
+
+    if (filters.weekStart) {
+      query.weekStart = this.getWeekRange(filters.weekStart).weekStart
+    }
+
+    if (!hasApprovePermission) {
+      const reportIds = await executeGenericDbQuery(async () => {
+        return await User.find({ reportsTo: reviewerId }).distinct('_id')
+      }, `timesheet-reports-${reviewerId}`, 60000)
+      query.userId = { $in: reportIds }
+    }
+
+    return await executeGenericDbQuery(async () => {
+      return await Timesheet.find(query)
+        .populate('user', 'name email avatar')
+        .populate('reviewer', 'name email')
+        .sort({ weekStart: -1, submittedAt: 1 })
+        .lean()
+    })
+  }
+
+  /**
+   * Submit a user's week for approval and notify their manager
+   */
+  static async submitWeek(user: any, date: Date | string, note?: string): Promise<ITimesheet> {
+    const userId = (user._id || user.id).toString()
+    const { weekStart, weekEnd } = this.getWeekRange(date)
+
+    const totalHours = roundHours(await executeGenericDbQuery(async () => {
+      const result = await TimeLog.aggregate([
+        { $match: { userId: new mongoose.Types.ObjectId(userId), isDeleted: false, date: { $gte: weekStart, $lte: weekEnd } } },
+        { $group: { _id: null, totalHours: { $sum: '$hours' } } }
+      ])
+      return result.length > 0 ? result[0].totalHours : 0
+    }))
+
+    if (totalHours <= 0) {
+      throw new Error('Cannot submit a timesheet with no logged time')
+    }
+
+    const timesheet = await executeGenericDbQuery(async () => {
+      const existing = await Timesheet.findOne({ userId, weekStart })
+
+      if (existing && existing.status === 'submitted') {
+        throw new Error('Timesheet has already been submitted')
+      }
+
+      if (existing && existing.status === 'approved') {
+        throw new Error('Timesheet has already been approved')
+      }
+
+      const sheet = existing || new Timesheet({ userId, weekStart, weekEnd })
+      sheet.set({
+        status: 'submitted',
+        totalHours,
+        submittedAt: new Date(),
+        submissionNote: note,
+        reviewedBy: undefined,
+        reviewedAt: undefined,
+        rejectionReason: undefined,
+      })
+      return await sheet.save()
+    })
+
+    clearCache('timesheets')
+
+    const owner = await executeGenericDbQuery(async () => {
+      return await User.findById(userId).select('name avatar reportsTo').lean()
+    }) as any
+
+    if (owner?.reportsTo) {
+      try {
+        await NotificationService.createNotification({
+          type: 'timesheet_submitted',
+          category: 'system',
+          recipientId: owner.reportsTo.toString(),
+          senderId: userId,
+          senderName: owner.name,
+          senderAvatar: owner.avatar,
+          title: 'Timesheet submitted for approval',
+          message: `${owner.name} submitted ${totalHours}h for the week of ${weekStart.toISOString().split('T')[0]}`,
+          entityType: 'timesheet',
+          entityId: timesheet._id.toString(),
+          actionType: 'submitted',
+          actionUrl: `/timesheets?review=${timesheet._id}`,
+          priority: 2,
+        })
+      } catch (error) {
+        // Submission stands even if the manager could not be notified
+        console.error('Failed to notify manager of timesheet submission:', error)
+      }
+    }
+
+    return timesheet
+  }
+
+  /**
+   * Approve or reject submitted timesheets. Each sheet is handled independently
+   * so one failure does not block the rest of a bulk review.
+   */
+  static async reviewTimesheets(
+    reviewer: any,
+    timesheetIds: string[],
+    action: 'approve' | 'reject',
+    reason?: string,
+    isSuperAdmin: boolean = false
+  ): Promise<TimesheetReviewResult> {
+    if (action === 'reject' && !reason?.trim()) {
+      throw new Error('A reason is required to reject a timesheet')
+    }
+
+    const reviewerId = (reviewer._id || reviewer.id).toString()
+    const result: TimesheetReviewResult = { processed: [], failed: [] }
+    const costedProjectIds = new Set<string>()
+
+    const timesheets = await executeGenericDbQuery(async () => {
+      return await Timesheet.find({ _id: { $in: timesheetIds } })
+        .populate('user', 'name reportsTo')
+    })
+
+    for (const id of timesheetIds) {
+      const timesheet = timesheets.find((sheet: any) => sheet._id.toString() === id)
+
+      if (!timesheet || !timesheet.user) {
+        result.failed.push({ id, error: 'Timesheet not found' })
+        continue
+      }
+
+      if (!this.canReview(reviewer, timesheet.user, isSuperAdmin)) {
+        result.failed.push({ id, error: 'You are not allowed to review this timesheet' })
+        continue
+      }
+
+      if (timesheet.status !== 'submitted') {
+        result.failed.push({ id, error: `Timesheet is ${timesheet.status}, not awaiting approval` })
+        continue
+      }
+
+      try {
+        const now = new Date()
+        const approved = action === 'approve'
+
+        await executeGenericDbQuery(async () => {
+          timesheet.set({
+            status: approved ? 'approved' : 'rejected',
+            reviewedBy: reviewerId,
+            reviewedAt: now,
+            rejectionReason: approved ? undefined : reason!.trim(),
+          })
+          await timesheet.save()
+
+          await TimeLog.updateMany(
+            {
+              userId: timesheet.userId,
+              isDeleted: false,
+              date: { $gte: timesheet.weekStart, $lte: timesheet.weekEnd }
+            },
+            approved
+              ? { $set: { isApproved: true, approvedBy: reviewerId, approvedAt: now } }
+              : { $set: { isApproved: false }, $unset: { approvedBy: 1, approvedAt: 1, costRate: 1, cost: 1 } }
+          )
+        })
+
+        if (approved) {
+          const projectIds = await BudgetService.applyApprovedCosts({
+            userId: timesheet.userId,
+            date: { $gte: timesheet.weekStart, $lte: timesheet.weekEnd }
+          })
+          projectIds.forEach(projectId => costedProjectIds.add(projectId))
+        }
+
+        await this.notifyOwner(timesheet, reviewer, action, reason)
+        result.processed.push(id)
+      } catch (error: any) {
+        result.failed.push({ id, error: error.message || 'Failed to review timesheet' })
+      }
+    }
+
+    for (const projectId of Array.from(costedProjectIds)) {
+      try {
+        await BudgetService.recalculateProjectCosts(projectId, reviewer)
+      } catch (error) {
+        // Approval stands; costs are recomputed on the project's next approval
+        console.error(`Failed to recalculate budget burn for project ${projectId}:`, error)
+      }
+    }
+
+    clearCache('timesheets')
+    clearCache('time-logs')
+
+    return result
+  }
+
+  /**
+   * Throw if the user's week containing `date` is submitted or approved
+   */
+  static async assertWeekEditable(userId: string, date: Date | string): Promise<void> {
+    const locked = await executeGenericDbQuery(async () => {
+      return await Timesheet.isWeekLocked(userId, new Date(date))
+    })
+
+    if (locked) {
+      throw new Error(locked.status === 'approved'
+        ? 'Time logs in an approved timesheet cannot be changed'
+        : 'Time logs in a submitted timesheet cannot be changed until it is reviewed')
+    }
+  }
+
+  private static async notifyOwner(timesheet: any, reviewer: any, action: 'approve' | 'reject', reason?: string) {
+    const weekLabel = new Date(timesheet.weekStart).toISOString().split('T')[0]
+    const approved = action === 'approve'
+
+    try {
+      await NotificationService.createNotification({
+        type: approved ? 'timesheet_approved' : 'timesheet_rejected',
+        category: 'system',
+        recipientId: timesheet.userId.toString(),
+        senderId: (reviewer._id || reviewer.id).toString(),
+        senderName: reviewer.name || 'Manager',
+        title: approved ? 'Timesheet approved' : 'Timesheet rejected',
+        message: approved
+          ? `Your timesheet for the week of ${weekLabel} was approved`
+          : `Your timesheet for the week of ${weekLabel} was rejected: ${reason}`,
+        entityType: 'timesheet',
+        entityId: timesheet._id.toString(),
+        actionType: approved ? 'approved' : 'rejected',
+        actionUrl: `/timesheets?week=${weekLabel}`,
+        priority: approved ? 1 : 3,
+      })
+    } catch (error) {
+      console.error('Failed to notify user of timesheet review:', error)
+    }
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Lead Duplicate Utilities
+ * Normalization and matching used to spot the same company arriving as more
+ * than one lead, under different contacts or email aliases
+ */
+
+import type { Lead, LeadDuplicateMatch, LeadDuplicateReason } from '@/types'
+
+// Shared mailbox providers; a shared domain here says nothing about the company
+export const FREE_EMAIL_DOMAINS = [
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'yahoo.co.uk', 'hotmail.com', 'outlook.com',
+  'live.com', 'msn.com', 'icloud.com', 'me.com', 'aol.com', 'proton.me', 'protonmail.com',
+  'gmx.com', 'mail.com', 'yandex.com', 'zoho.com',
+]
+
+// Legal suffixes dropped before comparing company names
+const COMPANY_SUFFIXES = [
+  'inc', 'incorporated', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company',
+  'gmbh', 'plc', 'pvt', 'private', 'sa', 'ag', 'bv', 'pty', 'llp', 'group',
+]
+
+// Phone numbers are compared on their trailing digits so country codes don't matter
+const PHONE_MATCH_DIGITS = 10
+const PHONE_MIN_DIGITS = 7
+
+export type DuplicateCandidate = Partial<Pick<Lead, 'email' | 'phone' | 'company' | 'website'>>
+
+export interface NormalizedLeadIdentity {
+  email?: string
+  emailDomain?: string
+  phone?: string
+  company?: string
+  website?: string
+}
+
+/**
+ * Lowercased email with any "+alias" removed from the mailbox
+ */
+export function normalizeEmail(email?: string | null): string | undefined {
+  const [local, domain] = (email || '').trim().toLowerCase().split('@')
+  if (!local || !domain) return undefined
+  return `${local.split('+')[0]}@${domain}`
+}
+
+/**
+ * Company email domain; undefined for free mail providers
+ */
+export function normalizeEmailDomain(email?: string | null): string | undefined {
+  const domain = normalizeEmail(email)?.split('@')[1]
+  return domain && !FREE_EMAIL_DOMAINS.includes(domain) ? domain : undefined
+}
+
+/**
+ * Trailing digits of a phone number, ignoring formatting and country code
+ */
+export function normalizePhone(phone?: string | null): string | undefined {
+  const digits = (phone || '').replace(/\D/g, '')
+  return digits.length >= PHONE_MIN_DIGITS ? digits.slice(-PHONE_MATCH_DIGITS) : undefined
+}
+
+/**
+ * Company name without case, punctuation or legal suffixes ("Acme, Inc." -> "acme")
+ */
+export function normalizeCompany(company?: string | null): string | undefined {
+  const words = (company || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+
+  while (words.length > 1 && COMPANY_SUFFIXES.includes(words[words.length - 1])) {
+    words.pop()
+  }
+
+  const name = words.join(' ')
+  return name.length >= 2 ? name : undefined
+}
+
+/**
+ * Website host without scheme, "www." or path
+ */
+export function normalizeWebsite(website?: string | null): string | undefined {
+  const host = (website || '')
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .split(/[/?#:]/)[0]
+    .replace(/^www\./, '')
+  return host.includes('.') ? host : undefined
+}
+
+export function normalizeLeadIdentity(lead: DuplicateCandidate): NormalizedLeadIdentity {
+  return {
+    email: normalizeEmail(lead.email),
+    emailDomain: normalizeEmailDomain(lead.email),
+    phone: normalizePhone(lead.phone),
+    company: normalizeCompany(lead.company),
+    website: normalizeWebsite(lead.website),
+  }
+}
+
+/**
+ * Why an existing lead looks like the candidate; empty when it doesn't
+ */
+export function getDuplicateReasons(candidate: DuplicateCandidate, existing: DuplicateCandidate): LeadDuplicateReason[] {
+  const a = normalizeLeadIdentity(candidate)
+  const b = normalizeLeadIdentity(existing)
+  const reasons: LeadDuplicateReason[] = []
+
+  if (a.email && a.email === b.email) reasons.push('email')
+  else if (a.emailDomain && a.emailDomain === b.emailDomain) reasons.push('emailDomain')
+  if (a.phone && a.phone === b.phone) reasons.push('phone')
+  if (a.company && a.company === b.company) reasons.push('company')
+  // A website also matches the other lead's company email domain
+  if (
+    (a.website && (a.website === b.website || a.website === b.emailDomain)) ||
+    (a.emailDomain && a.emailDomain === b.website)
+  ) {
+    reasons.push('website')
+  }
+
+  return reasons
+}
+
+export const DUPLICATE_REASON_LABELS: Record<LeadDuplicateReason, string> = {
+  email: 'Same email address',
+  emailDomain: 'Same email domain',
+  phone: 'Same phone number',
+  company: 'Same company name',
+  website: 'Same website',
+}
+
+/**
+ * One-line label for a match in lists and reports; leads the viewer can't see
+ * are named only by their owner
+ */
+export function describeDuplicateMatch(match: LeadDuplicateMatch): string {
+  if (match.restricted) {
+    const owner = typeof match.createdBy === 'object' ? match.createdBy?.name : undefined
+    return owner ? `A lead owned by ${owner}` : "Another agent's lead"
+  }
+  return match.company ? `${match.name} (${match.company})` : match.name || ''
+}
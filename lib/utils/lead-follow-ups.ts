@@ -0,0 +1,52 @@
+/**
+ * Lead Follow-up Utilities
+ * Which follow-ups are overdue, due today or coming up, shared by the
+ * reminder jobs and the follow-up queue
+ */
+
+import type { Lead, LeadFollowUpBucket } from '@/types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+export const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS)
+
+type FollowUpLead = Pick<Lead, 'nextFollowUpDate' | 'lastContactDate' | 'contactHistory'>
+
+/**
+ * Where the lead's next follow-up falls; null when none is scheduled, it is
+ * further out than `upcomingDays`, or the lead was contacted on or after it
+ */
+export function getFollowUpBucket(lead: FollowUpLead, now = new Date(), upcomingDays = 7): LeadFollowUpBucket | null {
+  if (!lead.nextFollowUpDate) return null
+
+  const due = new Date(lead.nextFollowUpDate)
+  const today = startOfDay(now)
+  const tomorrow = addDays(today, 1)
+
+  if (due >= tomorrow) {
+    return due < addDays(tomorrow, upcomingDays) ? 'upcoming' : null
+  }
+
+  // Due today or earlier: done if a contact has been logged since it came due
+  const since = (due < today ? due : today).getTime()
+  const contactDates = [
+    lead.lastContactDate,
+    ...(lead.contactHistory || []).map(entry => entry.date),
+  ].filter(Boolean).map(date => new Date(date!).getTime())
+  if (contactDates.some(date => date >= since)) return null
+
+  return due < today ? 'overdue' : 'today'
+}
+
+/**
+ * "Today", "Tomorrow", "3 days overdue" and so on, relative to today
+ */
+export function describeFollowUp(date: Date | string, now = new Date()): string {
+  const days = Math.round((startOfDay(new Date(date)).getTime() - startOfDay(now).getTime()) / DAY_MS)
+  if (days === 0) return 'Today'
+  if (days === 1) return 'Tomorrow'
+  if (days === -1) return '1 day overdue'
+  return days < 0 ? `${-days} days overdue` : `In ${days} days`
+}
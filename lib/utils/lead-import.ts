@@ -0,0 +1,152 @@
+/**
+ * Lead Import Utilities
+ * Column mapping and row conversion shared by the import wizard, which
+ * suggests a mapping from the spreadsheet headers, and the API, which turns
+ * each mapped row into lead data for the create schema
+ */
+
+import type { LeadImportDefaults, LeadImportMapping } from '@/types'
+
+type ImportFieldKind = 'text' | 'number' | 'choice' | 'list' | 'date' | 'url'
+
+export interface LeadImportField {
+  key: string
+  label: string
+  kind: ImportFieldKind
+  required?: boolean
+  aliases?: string[] // Other header spellings recognised when suggesting a mapping
+}
+
+// Prefix of mapping targets that go into customFields
+export const CUSTOM_FIELD_PREFIX = 'customFields.'
+
+export const LEAD_IMPORT_FIELDS: LeadImportField[] = [
+  { key: 'name', label: 'Contact name', kind: 'text', required: true, aliases: ['full name', 'contact', 'contact name', 'lead name'] },
+  { key: 'email', label: 'Email', kind: 'text', required: true, aliases: ['email address', 'e-mail', 'mail'] },
+  { key: 'phone', label: 'Phone', kind: 'text', aliases: ['phone number', 'mobile', 'telephone', 'tel'] },
+  { key: 'company', label: 'Company', kind: 'text', aliases: ['company name', 'organization', 'organisation', 'business'] },
+  { key: 'position', label: 'Position', kind: 'text', aliases: ['title', 'job title', 'role'] },
+  { key: 'website', label: 'Website', kind: 'url', aliases: ['url', 'site', 'web'] },
+  { key: 'industry', label: 'Industry', kind: 'text', aliases: ['sector'] },
+  { key: 'companySize', label: 'Company size', kind: 'choice', aliases: ['size'] },
+  { key: 'annualRevenue', label: 'Annual revenue', kind: 'number', aliases: ['revenue'] },
+  { key: 'employeeCount', label: 'Employee count', kind: 'number', aliases: ['employees', 'headcount'] },
+  { key: 'address.street', label: 'Street', kind: 'text', aliases: ['address', 'street address'] },
+  { key: 'address.city', label: 'City', kind: 'text', aliases: ['town'] },
+  { key: 'address.state', label: 'State', kind: 'text', aliases: ['province', 'region'] },
+  { key: 'address.zipCode', label: 'Zip code', kind: 'text', aliases: ['zip', 'postal code', 'postcode'] },
+  { key: 'address.country', label: 'Country', kind: 'text' },
+  { key: 'source', label: 'Source', kind: 'choice', aliases: ['lead source'] },
+  { key: 'sourceDetails', label: 'Source details', kind: 'text' },
+  { key: 'campaign', label: 'Campaign', kind: 'text', aliases: ['event'] },
+  { key: 'priority', label: 'Priority', kind: 'choice' },
+  { key: 'status', label: 'Status', kind: 'choice' },
+  { key: 'projectName', label: 'Project name', kind: 'text', required: true, aliases: ['project'] },
+  { key: 'projectDescription', label: 'Project description', kind: 'text', aliases: ['description'] },
+  { key: 'projectType', label: 'Project type', kind: 'choice' },
+  { key: 'complexity', label: 'Complexity', kind: 'choice' },
+  { key: 'projectBudget', label: 'Project budget', kind: 'number', aliases: ['budget'] },
+  { key: 'estimatedHours', label: 'Estimated hours', kind: 'number', aliases: ['hours'] },
+  { key: 'projectTimeline', label: 'Project timeline', kind: 'text', aliases: ['timeline'] },
+  { key: 'technologies', label: 'Technologies', kind: 'list', aliases: ['tech', 'tech stack'] },
+  { key: 'nextFollowUpDate', label: 'Next follow-up', kind: 'date', aliases: ['follow up', 'follow-up date', 'next follow up'] },
+  { key: 'lastContactDate', label: 'Last contacted', kind: 'date', aliases: ['last contact', 'last contact date'] },
+  { key: 'notes', label: 'Notes', kind: 'text', aliases: ['comments', 'note'] },
+  { key: 'tags', label: 'Tags', kind: 'list', aliases: ['labels', 'tag'] },
+]
+
+const simplify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/**
+ * Key a custom field is stored under for a column ("Booth #" -> "booth")
+ */
+export function toCustomFieldKey(header: string): string {
+  return header
+    .trim()
+    .replace(/[^a-zA-Z0-9]+(.)?/g, (_, next: string | undefined) => next ? next.toUpperCase() : '')
+    .replace(/^[A-Z]/, letter => letter.toLowerCase())
+    .slice(0, 50)
+}
+
+export function isImportFieldTarget(target: string): boolean {
+  if (target.startsWith(CUSTOM_FIELD_PREFIX)) {
+    return /^[a-zA-Z][a-zA-Z0-9_]{0,49}$/.test(target.slice(CUSTOM_FIELD_PREFIX.length))
+  }
+  return LEAD_IMPORT_FIELDS.some(field => field.key === target)
+}
+
+/**
+ * Suggested mapping from the spreadsheet headers; unrecognised columns are left unmapped
+ */
+export function suggestImportMapping(headers: string[]): LeadImportMapping {
+  const mapping: LeadImportMapping = {}
+  const used = new Set<string>()
+
+  for (const header of headers) {
+    const name = simplify(header)
+    const field = LEAD_IMPORT_FIELDS.find(candidate =>
+      !used.has(candidate.key) &&
+      [candidate.key, candidate.label, ...(candidate.aliases || [])].some(alias => simplify(alias) === name)
+    )
+    if (field) {
+      mapping[header] = field.key
+      used.add(field.key)
+    }
+  }
+
+  return mapping
+}
+
+const toChoice = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, '_')
+
+const toList = (value: string) => value.split(/[,;|]/).map(item => item.trim()).filter(Boolean)
+
+const toNumber = (value: string) => {
+  const cleaned = value.replace(/[^\d.-]/g, '')
+  const number = parseFloat(cleaned)
+  return cleaned === '' || isNaN(number) ? value : number
+}
+
+/**
+ * Lead data for one spreadsheet row, ready for createLeadSchema. Blank cells
+ * are left out; values that can't be converted are passed through so the
+ * schema reports them.
+ */
+export function buildLeadFromRow(
+  row: Record<string, unknown>,
+  mapping: LeadImportMapping,
+  defaults: LeadImportDefaults
+): Record<string, any> {
+  const lead: Record<string, any> = {}
+
+  for (const [header, target] of Object.entries(mapping)) {
+    const raw = row[header]
+    const value = raw === undefined || raw === null ? '' : String(raw).trim()
+    if (!target || value === '') continue
+
+    if (target.startsWith(CUSTOM_FIELD_PREFIX)) {
+      lead.customFields = { ...lead.customFields, [target.slice(CUSTOM_FIELD_PREFIX.length)]: value }
+      continue
+    }
+
+    const field = LEAD_IMPORT_FIELDS.find(candidate => candidate.key === target)
+    if (!field) continue
+
+    let converted: unknown = value
+    if (field.kind === 'number') converted = toNumber(value)
+    else if (field.kind === 'choice') converted = toChoice(value)
+    else if (field.kind === 'list') converted = toList(value)
+    else if (field.kind === 'url' && !/^[a-z]+:\/\//i.test(value)) converted = `https://${value}`
+    else if (field.key === 'email') converted = value.toLowerCase()
+
+    if (target.startsWith('address.')) {
+      lead.address = { ...lead.address, [target.slice('address.'.length)]: converted }
+    } else {
+      lead[target] = converted
+    }
+  }
+
+  if (!lead.source) lead.source = defaults.source
+  if (!lead.priority) lead.priority = defaults.priority
+  return lead
+}
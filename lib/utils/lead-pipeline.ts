@@ -0,0 +1,52 @@
+/**
+ * Lead Pipeline Utilities
+ * Pure helpers shared by the API and the pipeline board for placing leads in
+ * the sales pipeline stages
+ */
+
+import type { Lead, LeadPipelineStage } from '@/types'
+
+/**
+ * Stages used until an admin configures the pipeline
+ */
+export const DEFAULT_LEAD_PIPELINE_STAGES: LeadPipelineStage[] = [
+  { key: 'new', name: 'New', category: 'open', color: '#64748b' },
+  { key: 'contacted', name: 'Contacted', category: 'open', color: '#3b82f6' },
+  { key: 'proposal-sent', name: 'Proposal Sent', category: 'open', color: '#8b5cf6' },
+  { key: 'negotiation', name: 'Negotiation', category: 'open', color: '#f59e0b' },
+  { key: 'won', name: 'Won', category: 'won', color: '#16a34a' },
+  { key: 'lost', name: 'Lost', category: 'lost', color: '#dc2626' },
+]
+
+/**
+ * Stage a lead sits in: its stage key, else one derived from its status for
+ * leads created before the pipeline existed
+ */
+export function getLeadStage(
+  lead: Pick<Lead, 'stage' | 'status'> & { clientId?: unknown },
+  stages: LeadPipelineStage[]
+): LeadPipelineStage {
+  const current = lead.stage && stages.find(stage => stage.key === lead.stage)
+  if (current) return current
+
+  const category = lead.clientId || lead.status === 'qualified'
+    ? 'won'
+    : lead.status === 'unqualified' ? 'lost' : 'open'
+  return stages.find(stage => stage.category === category) || stages[0]
+}
+
+/**
+ * Whether the pipeline allows moving from one stage to another
+ */
+export function canMoveToStage(from: LeadPipelineStage | undefined, to: LeadPipelineStage): boolean {
+  return !from || from.key === to.key || !from.transitions || from.transitions.includes(to.key)
+}
+
+/**
+ * Status a lead takes when it enters a stage: lost leads go inactive and come
+ * back to active when reopened; converted and unqualified leads never move
+ */
+export function getStatusForStage<S extends string>(currentStatus: S, to: LeadPipelineStage): S | 'active' | 'inactive' {
+  if (to.category === 'lost') return 'inactive'
+  return currentStatus === 'inactive' ? 'active' : currentStatus
+}
@@ -0,0 +1,125 @@
+/**
+ * Lead Scoring Utilities
+ * Pure rule evaluation shared by the API, which stores the result on each
+ * lead, and the scoring rules editor
+ */
+
+import type {
+  Lead,
+  LeadFollowUpState,
+  LeadScoreFactor,
+  LeadScoringConfig,
+  LeadScoringRule,
+  LeadScoringRuleField,
+} from '@/types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const LEAD_SCORE_MIN = 0
+export const LEAD_SCORE_MAX = 100
+
+// Fields matched against a list of values
+export const CHOICE_SCORING_FIELDS: LeadScoringRuleField[] = ['companySize', 'source', 'priority', 'projectType', 'complexity']
+
+// Fields matched against a min / max range
+export const NUMBER_SCORING_FIELDS: LeadScoringRuleField[] = ['projectBudget', 'annualRevenue', 'employeeCount']
+
+// Fields whose match changes with time alone, so stored scores need refreshing
+export const TIME_BASED_SCORING_FIELDS: LeadScoringRuleField[] = ['recentContacts', 'followUp']
+
+/**
+ * Rules used until an admin edits them
+ */
+export const DEFAULT_LEAD_SCORING: LeadScoringConfig = {
+  hotThreshold: 70,
+  rules: [
+    { id: 'large-company', label: 'Large or enterprise company', field: 'companySize', values: ['large', 'enterprise'], points: 20 },
+    { id: 'medium-company', label: 'Medium-sized company', field: 'companySize', values: ['medium'], points: 10 },
+    { id: 'big-budget', label: 'Budget of $50k or more', field: 'projectBudget', min: 50000, points: 25 },
+    { id: 'mid-budget', label: 'Budget between $10k and $50k', field: 'projectBudget', min: 10000, max: 49999, points: 15 },
+    { id: 'warm-source', label: 'Came through a referral or partner', field: 'source', values: ['referral', 'partner'], points: 15 },
+    { id: 'inbound-source', label: 'Came through the website or an event', field: 'source', values: ['website', 'event'], points: 5 },
+    { id: 'recent-contact', label: 'Contacted in the last 14 days', field: 'recentContacts', min: 1, withinDays: 14, points: 15 },
+    { id: 'engaged', label: '3 or more contacts in the last 30 days', field: 'recentContacts', min: 3, withinDays: 30, points: 10 },
+    { id: 'follow-up-scheduled', label: 'Next follow-up is scheduled', field: 'followUp', followUp: 'scheduled', points: 10 },
+    { id: 'follow-up-overdue', label: 'Follow-up is overdue', field: 'followUp', followUp: 'overdue', points: -15 },
+  ],
+}
+
+type ScorableLead = Pick<
+  Lead,
+  | 'companySize'
+  | 'source'
+  | 'priority'
+  | 'projectType'
+  | 'complexity'
+  | 'projectBudget'
+  | 'annualRevenue'
+  | 'employeeCount'
+  | 'contactHistory'
+  | 'lastContactDate'
+  | 'nextFollowUpDate'
+>
+
+/**
+ * Whether the lead's next follow-up is ahead, has passed without a contact
+ * since, or is not scheduled
+ */
+export function getFollowUpState(lead: ScorableLead, now = new Date()): LeadFollowUpState {
+  if (!lead.nextFollowUpDate) return 'none'
+
+  const due = new Date(lead.nextFollowUpDate).getTime()
+  if (due >= now.getTime()) return 'scheduled'
+
+  const contactDates = [
+    lead.lastContactDate,
+    ...(lead.contactHistory || []).map(entry => entry.date),
+  ].filter(Boolean).map(date => new Date(date!).getTime())
+  return contactDates.some(date => date >= due) ? 'scheduled' : 'overdue'
+}
+
+const inRange = (value: number, rule: LeadScoringRule) =>
+  (rule.min === undefined || value >= rule.min) && (rule.max === undefined || value <= rule.max)
+
+/**
+ * Whether a rule applies to the lead
+ */
+export function matchesScoringRule(lead: ScorableLead, rule: LeadScoringRule, now = new Date()): boolean {
+  if (rule.field === 'recentContacts') {
+    const since = now.getTime() - (rule.withinDays || 30) * DAY_MS
+    const count = (lead.contactHistory || []).filter(entry => new Date(entry.date).getTime() >= since).length
+    return inRange(count, rule)
+  }
+
+  if (rule.field === 'followUp') {
+    return getFollowUpState(lead, now) === rule.followUp
+  }
+
+  const value = lead[rule.field]
+  if (value === undefined || value === null) return false
+
+  if (NUMBER_SCORING_FIELDS.includes(rule.field)) {
+    const number = Number(value)
+    return Number.isFinite(number) && inRange(number, rule)
+  }
+
+  return !!rule.values?.includes(String(value))
+}
+
+/**
+ * Score a lead: the sum of its matching rules' points, clamped to 0-100
+ */
+export function scoreLead(lead: ScorableLead, config: LeadScoringConfig, now = new Date()): {
+  score: number
+  hotLead: boolean
+  breakdown: LeadScoreFactor[]
+} {
+  const breakdown = config.rules
+    .filter(rule => matchesScoringRule(lead, rule, now))
+    .map(rule => ({ ruleId: rule.id, label: rule.label, points: rule.points }))
+
+  const total = breakdown.reduce((sum, factor) => sum + factor.points, 0)
+  const score = Math.min(LEAD_SCORE_MAX, Math.max(LEAD_SCORE_MIN, Math.round(total)))
+
+  return { score, hotLead: score >= config.hotThreshold, breakdown }
+}
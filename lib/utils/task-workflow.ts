@@ -0,0 +1,66 @@
+/**
+ * Task Workflow Utilities
+ * Pure helpers shared by the API and the task board for mapping tasks onto a
+ * project's workflow statuses
+ */
+
+import type { WorkflowStatus, WorkflowStatusCategory, Task } from '@/types'
+
+type TaskStatus = Task['status']
+
+/**
+ * Status set for projects without a custom workflow. Keys match the base
+ * task statuses, so these projects behave exactly as before.
+ */
+export const DEFAULT_WORKFLOW_STATUSES: WorkflowStatus[] = [
+  { key: 'pending', name: 'Pending', category: 'todo' },
+  { key: 'in-progress', name: 'In Progress', category: 'doing' },
+  { key: 'on-hold', name: 'On Hold', category: 'doing' },
+  { key: 'completed', name: 'Completed', category: 'done' },
+  { key: 'closed', name: 'Closed', category: 'done' },
+]
+
+// Category each base status rolls up to
+export const TASK_STATUS_CATEGORY: Record<string, WorkflowStatusCategory> = {
+  'pending': 'todo',
+  'in-progress': 'doing',
+  'on-hold': 'doing',
+  'completed': 'done',
+  'closed': 'done',
+}
+
+const CATEGORY_BASE_STATUS: Record<WorkflowStatusCategory, TaskStatus> = {
+  todo: 'pending',
+  doing: 'in-progress',
+  done: 'completed',
+}
+
+/**
+ * Base status stored alongside a workflow status. Keys that are already base
+ * statuses keep them; custom keys take their category's status.
+ */
+export function toBaseTaskStatus(status: WorkflowStatus): TaskStatus {
+  return (TASK_STATUS_CATEGORY[status.key] ? status.key : CATEGORY_BASE_STATUS[status.category]) as TaskStatus
+}
+
+/**
+ * Workflow status a task sits in: its workflow key, else its base status, else
+ * the first status in the same category
+ */
+export function getTaskWorkflowStatus(
+  task: { status?: string; workflowStatus?: string },
+  statuses: WorkflowStatus[]
+): WorkflowStatus {
+  const key = task.workflowStatus || task.status || 'pending'
+  const category = TASK_STATUS_CATEGORY[task.status || ''] || 'todo'
+  return statuses.find(status => status.key === key)
+    || statuses.find(status => status.category === category)
+    || statuses[0]
+}
+
+/**
+ * Whether a workflow allows moving from one status to another
+ */
+export function canTransition(from: WorkflowStatus | undefined, to: WorkflowStatus): boolean {
+  return !from || from.key === to.key || !from.transitions || from.transitions.includes(to.key)
+}
@@ -128,6 +128,65 @@ export const updateMessageSchema = z.object({
   attachments_to_remove: z.array(z.string().uuid()).optional(),
 })
 
+// Scheduled message schemas
+const scheduledSendAtSchema = z.coerce.date()
+  .refine(date => date.getTime() > Date.now(), 'Send time must be in the future')
+  .refine(date => date.getTime() < Date.now() + 365 * 24 * 60 * 60 * 1000, 'Send time must be within a year')
+
+export const createScheduledMessageSchema = z.object({
+  channel_id: z.string().uuid('Invalid channel ID'),
+  content: z.string().trim().min(1, 'Message content is required').max(5000, 'Message too long'),
+  parent_message_id: z.string().uuid().optional(),
+  mongo_mentioned_user_ids: z.array(z.string()).default([]),
+  send_at: scheduledSendAtSchema,
+})
+
+export const updateScheduledMessageSchema = z.object({
+  content: z.string().trim().min(1, 'Message content is required').max(5000, 'Message too long').optional(),
+  mongo_mentioned_user_ids: z.array(z.string()).optional(),
+  send_at: scheduledSendAtSchema.optional(),
+}).refine(data => data.content !== undefined || data.send_at !== undefined, {
+  message: 'Nothing to update',
+})
+
+export const scheduledMessageQuerySchema = z.object({
+  channel_id: z.string().uuid('Invalid channel ID'),
+})
+
+// Message reminder schemas
+export const createMessageReminderSchema = z.object({
+  message_id: z.string().uuid('Invalid message ID'),
+  remind_at: z.coerce.date()
+    .refine(date => date.getTime() > Date.now(), 'Reminder time must be in the future')
+    .refine(date => date.getTime() < Date.now() + 365 * 24 * 60 * 60 * 1000, 'Reminder time must be within a year'),
+})
+
+// Thread replies are paged backwards from the newest
+export const threadRepliesQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(100).default(30),
+  before: z.coerce.date().optional(),
+})
+
+// Poll schemas
+export const createPollSchema = z.object({
+  channel_id: z.string().uuid('Invalid channel ID'),
+  question: z.string().trim().min(1, 'Question is required').max(300, 'Question cannot exceed 300 characters'),
+  options: z.array(z.string().trim().min(1, 'Options cannot be empty').max(100, 'Options cannot exceed 100 characters'))
+    .min(2, 'A poll needs at least 2 options')
+    .max(10, 'A poll can have at most 10 options')
+    .refine(options => new Set(options.map(option => option.toLowerCase())).size === options.length, 'Options must be unique'),
+  allow_multiple: z.boolean().default(false),
+  is_anonymous: z.boolean().default(false),
+  closes_at: z.coerce.date()
+    .refine(date => date.getTime() > Date.now(), 'Close time must be in the future')
+    .optional(),
+})
+
+// An empty list retracts the user's vote
+export const votePollSchema = z.object({
+  option_ids: z.array(z.string().uuid('Invalid option ID')).max(10),
+})
+
 // Message query schema
 export const messageQuerySchema = z.object({
   channel_id: z.string().uuid('Invalid channel ID'),
@@ -185,12 +244,28 @@ export const searchQuerySchema = z.object({
   offset: z.coerce.number().min(0).default(0),
 })
 
+// Workspace-wide message search schema
+export const messageSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required').max(500),
+  sender_id: z.string().optional(),
+  channel_type: z.enum(CHANNEL_CONSTANTS.TYPE.VALUES).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(), // Inclusive: the whole day is searched
+  has_attachment: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  mentions_me: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  limit: z.coerce.number().min(1).max(50).default(20),
+  offset: z.coerce.number().min(0).default(0),
+}).refine(data => !data.from || !data.to || data.from <= data.to, {
+  message: 'Start date must be before end date',
+  path: ['to'],
+})
+
 // Audit log query schema
 export const auditLogQuerySchema = z.object({
   channel_id: z.string().uuid().optional(),
   message_id: z.string().uuid().optional(),
   actor_id: z.string().optional(),
-  action: z.enum(['created', 'edited', 'trashed', 'restored', 'permanently_deleted']).optional(),
+  action: z.enum(['created', 'edited', 'trashed', 'restored', 'permanently_deleted', 'retention_purged']).optional(),
   start_date: z.string().datetime().optional(),
   end_date: z.string().datetime().optional(),
   limit: z.coerce.number().min(1).max(100).default(50),
@@ -219,6 +294,33 @@ export const archiveChannelSchema = z.object({
   action: z.enum(['archive', 'unarchive']).default('archive'),
 })
 
+// Channel retention policy schema - null clears an override, 0 keeps forever
+export const updateRetentionPolicySchema = z.object({
+  message_retention_days: z.number().int().min(0).max(3650).nullable().optional(),
+  trash_retention_days: z.number().int().min(0).max(3650).nullable().optional(),
+  legal_hold: z.boolean().optional(),
+  legal_hold_reason: z.string().trim().max(500).nullable().optional(),
+}).refine(data => Object.values(data).some(value => value !== undefined), {
+  message: 'At least one retention setting is required',
+})
+
+// Compliance export of a channel's history for a date range
+export const createChannelExportSchema = z.object({
+  from: z.string().datetime(),
+  to: z.string().datetime(),
+}).refine(data => new Date(data.from) < new Date(data.to), {
+  message: 'Start date must be before end date',
+  path: ['from'],
+})
+
+// "/name args" typed in a channel or thread
+export const runSlashCommandSchema = z.object({
+  channel_id: z.string().uuid('Invalid channel ID'),
+  text: z.string().trim().min(2, 'Command is required').max(2000, 'Command cannot exceed 2000 characters')
+    .refine(text => text.startsWith('/'), 'Commands start with /'),
+  parent_message_id: z.string().uuid('Invalid message ID').optional(),
+})
+
 // Type exports for TypeScript
 export type CreateChannelData = z.infer<typeof createChannelSchema>
 export type UpdateChannelData = z.infer<typeof updateChannelSchema>
@@ -226,6 +328,12 @@ export type ChannelQueryParams = z.infer<typeof channelQuerySchema>
 export type CreateMessageData = z.infer<typeof createMessageSchema>
 export type UpdateMessageData = z.infer<typeof updateMessageSchema>
 export type MessageQueryParams = z.infer<typeof messageQuerySchema>
+export type CreateScheduledMessageData = z.infer<typeof createScheduledMessageSchema>
+export type UpdateScheduledMessageData = z.infer<typeof updateScheduledMessageSchema>
+export type CreateMessageReminderData = z.infer<typeof createMessageReminderSchema>
+export type ThreadRepliesQueryParams = z.infer<typeof threadRepliesQuerySchema>
+export type CreatePollData = z.infer<typeof createPollSchema>
+export type VotePollData = z.infer<typeof votePollSchema>
 export type AddMemberData = z.infer<typeof addMemberSchema>
 export type UpdateMemberStatusData = z.infer<typeof updateMemberStatusSchema>
 export type CreateReactionData = z.infer<typeof createReactionSchema>
@@ -233,8 +341,12 @@ export type MarkAsReadData = z.infer<typeof markAsReadSchema>
 export type MarkAllAsReadData = z.infer<typeof markAllAsReadSchema>
 export type TrashQueryParams = z.infer<typeof trashQuerySchema>
 export type SearchQueryParams = z.infer<typeof searchQuerySchema>
+export type MessageSearchQueryParams = z.infer<typeof messageSearchQuerySchema>
 export type AuditLogQueryParams = z.infer<typeof auditLogQuerySchema>
 export type AttachmentUploadData = z.infer<typeof attachmentUploadSchema>
 export type DeleteMessageData = z.infer<typeof deleteMessageSchema>
 export type TogglePinData = z.infer<typeof togglePinSchema>
-export type ArchiveChannelData = z.infer<typeof archiveChannelSchema>
\ No newline at end of file
+export type ArchiveChannelData = z.infer<typeof archiveChannelSchema>
+export type UpdateRetentionPolicyData = z.infer<typeof updateRetentionPolicySchema>
+export type CreateChannelExportData = z.infer<typeof createChannelExportSchema>
+export type RunSlashCommandData = z.infer<typeof runSlashCommandSchema>
\ No newline at end of file
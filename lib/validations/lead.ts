@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { isImportFieldTarget } from '@/lib/utils/lead-import'
 
 // =============================================================================
 // CONSTANTS FOR VALIDATION
@@ -64,13 +65,34 @@ export const LEAD_CONSTANTS = {
     SCORE_MIN: 0,
     SCORE_MAX: 100,
     PROBABILITY_MIN: 0,
-    PROBABILITY_MAX: 100
+    PROBABILITY_MAX: 100,
+    RULE_POINTS: { MIN: -100, MAX: 100 },
+    RULE_ID: { MAX_LENGTH: 40 },
+    RULE_LABEL: { MAX_LENGTH: 100 },
+    RULE_FIELDS: ['companySize', 'source', 'priority', 'projectType', 'complexity', 'projectBudget', 'annualRevenue', 'employeeCount', 'recentContacts', 'followUp'] as const,
+    FOLLOW_UP_STATES: ['scheduled', 'overdue', 'none'] as const,
+    MAX_RULES: 50,
+    MAX_WITHIN_DAYS: 365
   },
   PAGINATION: { DEFAULT_PAGE: 1, DEFAULT_LIMIT: 10, MAX_LIMIT: 100, MIN_PAGE: 1 },
   SORT: { ALLOWED_FIELDS: ['name', 'email', 'projectName', 'status', 'priority', 'score', 'createdAt', 'updatedAt'] as const },
   UNQUALIFIED_REASON: { MAX_LENGTH: 500 },
   CAMPAIGN: { MAX_LENGTH: 200 },
-  SOURCE_DETAILS: { MAX_LENGTH: 500 }
+  SOURCE_DETAILS: { MAX_LENGTH: 500 },
+  PIPELINE: {
+    KEY: { MAX_LENGTH: 40 },
+    NAME: { MAX_LENGTH: 50 },
+    CATEGORIES: ['open', 'won', 'lost'] as const,
+    MAX_STAGES: 20,
+    NOTE: { MAX_LENGTH: 500 }
+  },
+  IMPORT: {
+    MAX_ROWS: 1000,
+    MAX_COLUMNS: 100,
+    FILE_NAME: { MAX_LENGTH: 255 },
+    CELL: { MAX_LENGTH: 5000 },
+    PREVIEW_ISSUES: 200
+  }
 } as const
 
 // =============================================================================
@@ -638,6 +660,200 @@ export const leadQualificationSchema = z.object({
   qualifiedBy: objectIdSchema.optional(), // Will be set from authenticated user if not provided
 }).strict()
 
+// =============================================================================
+// PIPELINE SCHEMAS
+// =============================================================================
+
+// Pipeline stage key, also used as the board column id
+const stageKeySchema = z.string()
+  .trim()
+  .min(1, 'Stage key is required')
+  .max(LEAD_CONSTANTS.PIPELINE.KEY.MAX_LENGTH, 'Stage key too long')
+  .regex(/^[a-z0-9][a-z0-9-]*$/, 'Stage key may only contain lowercase letters, numbers and dashes')
+
+export const leadPipelineStageSchema = z.object({
+  key: stageKeySchema,
+  name: z.string()
+    .trim()
+    .min(1, 'Stage name is required')
+    .max(LEAD_CONSTANTS.PIPELINE.NAME.MAX_LENGTH, 'Stage name too long'),
+  category: z.enum(LEAD_CONSTANTS.PIPELINE.CATEGORIES),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Invalid color').optional(),
+  transitions: z.array(z.string()).optional(),
+})
+
+// Lead pipeline schema; null restores the default stages
+export const leadPipelineSchema = z.object({
+  stages: z.array(leadPipelineStageSchema)
+    .min(1, 'At least one stage is required')
+    .max(LEAD_CONSTANTS.PIPELINE.MAX_STAGES, 'Too many stages'),
+})
+  .refine(data => new Set(data.stages.map(stage => stage.key)).size === data.stages.length, {
+    message: 'Stage keys must be unique',
+    path: ['stages']
+  })
+  .refine(data => LEAD_CONSTANTS.PIPELINE.CATEGORIES.every(category => data.stages.some(stage => stage.category === category)), {
+    message: 'A pipeline needs at least one open, one won and one lost stage',
+    path: ['stages']
+  })
+  .refine(data => {
+    const keys = new Set(data.stages.map(stage => stage.key))
+    return data.stages.every(stage => (stage.transitions || []).every(key => keys.has(key)))
+  }, {
+    message: 'Transitions must point to stages in the pipeline',
+    path: ['stages']
+  })
+
+export const updateLeadPipelineSchema = z.object({
+  pipeline: leadPipelineSchema.nullable()
+})
+
+// Moving a lead to another stage
+export const leadStageUpdateSchema = z.object({
+  stage: stageKeySchema,
+  note: z.string()
+    .max(LEAD_CONSTANTS.PIPELINE.NOTE.MAX_LENGTH, `Note must not exceed ${LEAD_CONSTANTS.PIPELINE.NOTE.MAX_LENGTH} characters`)
+    .transform(note => note.trim())
+    .optional()
+})
+
+// =============================================================================
+// SCORING SCHEMAS
+// =============================================================================
+
+export const leadScoringRuleSchema = z.object({
+  id: z.string()
+    .trim()
+    .min(1, 'Rule id is required')
+    .max(LEAD_CONSTANTS.SCORING.RULE_ID.MAX_LENGTH, 'Rule id too long')
+    .regex(/^[a-z0-9][a-z0-9-]*$/, 'Rule id may only contain lowercase letters, numbers and dashes'),
+  label: z.string()
+    .trim()
+    .min(1, 'Rule label is required')
+    .max(LEAD_CONSTANTS.SCORING.RULE_LABEL.MAX_LENGTH, 'Rule label too long'),
+  field: z.enum(LEAD_CONSTANTS.SCORING.RULE_FIELDS),
+  values: z.array(z.string().trim().min(1)).max(20, 'Too many values').optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  withinDays: z.number().int().min(1).max(LEAD_CONSTANTS.SCORING.MAX_WITHIN_DAYS).optional(),
+  followUp: z.enum(LEAD_CONSTANTS.SCORING.FOLLOW_UP_STATES).optional(),
+  points: z.number()
+    .int('Points must be a whole number')
+    .min(LEAD_CONSTANTS.SCORING.RULE_POINTS.MIN, `Points cannot be less than ${LEAD_CONSTANTS.SCORING.RULE_POINTS.MIN}`)
+    .max(LEAD_CONSTANTS.SCORING.RULE_POINTS.MAX, `Points cannot exceed ${LEAD_CONSTANTS.SCORING.RULE_POINTS.MAX}`),
+})
+  .refine(rule => rule.min === undefined || rule.max === undefined || rule.min <= rule.max, {
+    message: 'Minimum cannot be greater than maximum',
+    path: ['max']
+  })
+  .refine(rule => {
+    if (rule.field === 'followUp') return !!rule.followUp
+    if (['projectBudget', 'annualRevenue', 'employeeCount', 'recentContacts'].includes(rule.field)) {
+      return rule.min !== undefined || rule.max !== undefined
+    }
+    return !!rule.values?.length
+  }, {
+    message: 'Rule is missing what to match',
+    path: ['field']
+  })
+
+// Lead scoring config schema; null restores the default rules
+export const leadScoringConfigSchema = z.object({
+  rules: z.array(leadScoringRuleSchema)
+    .max(LEAD_CONSTANTS.SCORING.MAX_RULES, 'Too many rules'),
+  hotThreshold: z.number()
+    .int('Threshold must be a whole number')
+    .min(LEAD_CONSTANTS.SCORING.SCORE_MIN + 1, 'Threshold must be at least 1')
+    .max(LEAD_CONSTANTS.SCORING.SCORE_MAX, 'Threshold cannot exceed 100'),
+})
+  .refine(data => new Set(data.rules.map(rule => rule.id)).size === data.rules.length, {
+    message: 'Rule ids must be unique',
+    path: ['rules']
+  })
+
+export const updateLeadScoringSchema = z.object({
+  scoring: leadScoringConfigSchema.nullable()
+})
+
+// =============================================================================
+// DUPLICATE SCHEMAS
+// =============================================================================
+
+// Fields a possible duplicate is matched on; all optional so the form can check as it fills in
+export const leadDuplicateCheckSchema = z.object({
+  email: z.string().max(LEAD_CONSTANTS.EMAIL.MAX_LENGTH).optional(),
+  phone: z.string().max(30).optional(),
+  company: z.string().max(LEAD_CONSTANTS.COMPANY.MAX_LENGTH).optional(),
+  website: z.string().max(500).optional(),
+  excludeId: z.union([objectIdSchema, z.literal('')]).optional().transform(val => val === '' ? undefined : val),
+})
+
+// Merging a duplicate into the lead in the URL, which survives
+export const leadMergeSchema = z.object({
+  duplicateId: objectIdSchema
+})
+
+// =============================================================================
+// FOLLOW-UP SCHEMAS
+// =============================================================================
+
+// Logging a contact; nextFollowUpDate schedules the next one in the same step (null clears it)
+export const leadContactLogSchema = z.object({
+  date: dateSchema,
+  type: z.enum(['call', 'email', 'meeting', 'note']),
+  description: z.string()
+    .trim()
+    .min(1, 'Description is required')
+    .max(LEAD_CONSTANTS.CONTACT_HISTORY.DESCRIPTION_MAX, `Description must not exceed ${LEAD_CONSTANTS.CONTACT_HISTORY.DESCRIPTION_MAX} characters`),
+  outcome: z.string()
+    .max(LEAD_CONSTANTS.CONTACT_HISTORY.OUTCOME_MAX, `Outcome must not exceed ${LEAD_CONSTANTS.CONTACT_HISTORY.OUTCOME_MAX} characters`)
+    .transform(outcome => outcome.trim() || undefined)
+    .optional(),
+  contactPerson: z.string()
+    .max(LEAD_CONSTANTS.CONTACT_HISTORY.CONTACT_PERSON_MAX, `Contact person must not exceed ${LEAD_CONSTANTS.CONTACT_HISTORY.CONTACT_PERSON_MAX} characters`)
+    .transform(person => person.trim() || undefined)
+    .optional(),
+  nextFollowUpDate: z.union([z.string(), z.null()])
+    .optional()
+    .refine(val => !val || !isNaN(new Date(val).getTime()), 'Invalid follow-up date')
+    .transform(val => val === null ? null : val ? new Date(val) : undefined),
+})
+
+// =============================================================================
+// IMPORT SCHEMAS
+// =============================================================================
+
+// Spreadsheet rows as parsed by the import wizard, keyed by column header
+export const leadImportRequestSchema = z.object({
+  fileName: z.string()
+    .trim()
+    .min(1, 'File name is required')
+    .max(LEAD_CONSTANTS.IMPORT.FILE_NAME.MAX_LENGTH, 'File name too long'),
+  rows: z.array(
+    z.record(z.union([
+      z.string().max(LEAD_CONSTANTS.IMPORT.CELL.MAX_LENGTH, 'Cell value too long'),
+      z.number(),
+      z.boolean(),
+      z.null()
+    ]))
+  )
+    .min(1, 'The file has no rows to import')
+    .max(LEAD_CONSTANTS.IMPORT.MAX_ROWS, `Cannot import more than ${LEAD_CONSTANTS.IMPORT.MAX_ROWS} leads at once`),
+  mapping: z.record(z.string())
+    .refine(mapping => Object.keys(mapping).length <= LEAD_CONSTANTS.IMPORT.MAX_COLUMNS, 'Too many columns')
+    .refine(mapping => Object.values(mapping).every(target => !target || isImportFieldTarget(target)), 'Unknown lead field in mapping')
+    .refine(mapping => {
+      const targets = Object.values(mapping).filter(Boolean)
+      return new Set(targets).size === targets.length
+    }, 'Each lead field can only be mapped from one column')
+    .refine(mapping => ['name', 'email'].every(field => Object.values(mapping).includes(field)), 'Name and email columns must be mapped'),
+  defaults: z.object({
+    source: sourceSchema,
+    priority: prioritySchema,
+  }),
+  skipDuplicates: z.boolean().default(true),
+})
+
 // =============================================================================
 // QUERY PARAMETER SCHEMAS
 // =============================================================================
@@ -648,6 +864,7 @@ export const leadQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(LEAD_CONSTANTS.PAGINATION.MAX_LIMIT).default(LEAD_CONSTANTS.PAGINATION.DEFAULT_LIMIT),
   search: z.string().optional().transform(val => val?.trim() || ''),
   status: z.enum([...LEAD_CONSTANTS.STATUS.VALUES, '']).optional(),
+  stage: z.string().max(LEAD_CONSTANTS.PIPELINE.KEY.MAX_LENGTH).optional().transform(val => val?.trim() || undefined),
   source: z.enum([...LEAD_CONSTANTS.SOURCE.VALUES, '']).optional(),
   priority: z.enum([...LEAD_CONSTANTS.PRIORITY.VALUES, '']).optional(),
   createdBy: z.union([objectIdSchema, z.literal(''), z.undefined()]).optional().transform(val => val === '' ? undefined : val),
@@ -711,6 +928,15 @@ export type LeadQualification = z.infer<typeof leadQualificationSchema>
 export type LeadQueryParams = z.infer<typeof leadQuerySchema>
 export type LeadIdParams = z.infer<typeof leadIdSchema>
 export type BulkLeadOperation = z.infer<typeof bulkLeadOperationSchema>
+export type LeadPipelineStageInput = z.infer<typeof leadPipelineStageSchema>
+export type LeadPipelineInput = z.infer<typeof leadPipelineSchema>
+export type LeadStageUpdate = z.infer<typeof leadStageUpdateSchema>
+export type LeadScoringRuleInput = z.infer<typeof leadScoringRuleSchema>
+export type LeadScoringConfigInput = z.infer<typeof leadScoringConfigSchema>
+export type LeadDuplicateCheck = z.infer<typeof leadDuplicateCheckSchema>
+export type LeadMerge = z.infer<typeof leadMergeSchema>
+export type LeadImportRequest = z.infer<typeof leadImportRequestSchema>
+export type LeadContactLog = z.infer<typeof leadContactLogSchema>
 
 // Additional helper types
 export type LeadStatus = (typeof LEAD_CONSTANTS.STATUS.VALUES)[number]
@@ -722,6 +948,7 @@ export type LeadSortField = (typeof LEAD_CONSTANTS.SORT.ALLOWED_FIELDS)[number]
 export type LeadFilters = Partial<{
   search: string
   status: LeadStatus | ''
+  stage: string
   source: LeadSource | ''
   priority: LeadPriority | ''
   createdBy: string
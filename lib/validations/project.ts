@@ -43,6 +43,13 @@ export const PROJECT_CONSTANTS = {
     DEFECT_DENSITY: { MIN: 0 },
     CUSTOMER_SATISFACTION: { MIN: 0, MAX: 5 },
   },
+  WORKFLOW: {
+    CATEGORIES: ['todo', 'doing', 'done'] as const,
+    KEY: { MAX_LENGTH: 40 },
+    NAME: { MAX_LENGTH: 50 },
+    WIP_LIMIT: { MIN: 1, MAX: 500 },
+    MAX_STATUSES: 20,
+  },
   PAGINATION: { DEFAULT_PAGE: 1, DEFAULT_LIMIT: 10, MAX_LIMIT: 100, MIN_PAGE: 1 },
   SORT: { ALLOWED_FIELDS: ['name', 'status', 'priority', 'createdAt', 'updatedAt', 'startDate', 'endDate'] as const }
 } as const
@@ -404,6 +411,54 @@ export const categorizeDepartmentsSchema = z.object({
     .max(10, 'Maximum 10 departments allowed'),
 })
 
+// Workflow status schema
+export const workflowStatusSchema = z.object({
+  key: z.string()
+    .trim()
+    .min(1, 'Status key is required')
+    .max(PROJECT_CONSTANTS.WORKFLOW.KEY.MAX_LENGTH, 'Status key too long')
+    .regex(/^[a-z0-9][a-z0-9-]*$/, 'Status key may only contain lowercase letters, numbers and dashes'),
+  name: z.string()
+    .trim()
+    .min(1, 'Status name is required')
+    .max(PROJECT_CONSTANTS.WORKFLOW.NAME.MAX_LENGTH, 'Status name too long'),
+  category: z.enum(PROJECT_CONSTANTS.WORKFLOW.CATEGORIES),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Invalid color').optional(),
+  transitions: z.array(z.string()).optional(),
+  wipLimit: z.number()
+    .int('WIP limit must be a whole number')
+    .min(PROJECT_CONSTANTS.WORKFLOW.WIP_LIMIT.MIN, 'WIP limit must be at least 1')
+    .max(PROJECT_CONSTANTS.WORKFLOW.WIP_LIMIT.MAX, 'WIP limit too high')
+    .optional(),
+  wipLimitStrict: z.boolean().optional(),
+})
+
+// Project workflow schema; null restores the default statuses
+export const projectWorkflowSchema = z.object({
+  statuses: z.array(workflowStatusSchema)
+    .min(1, 'At least one status is required')
+    .max(PROJECT_CONSTANTS.WORKFLOW.MAX_STATUSES, 'Too many statuses'),
+})
+  .refine(data => new Set(data.statuses.map(status => status.key)).size === data.statuses.length, {
+    message: 'Status keys must be unique',
+    path: ['statuses']
+  })
+  .refine(data => data.statuses.some(status => status.category === 'todo') && data.statuses.some(status => status.category === 'done'), {
+    message: 'A workflow needs at least one to-do and one done status',
+    path: ['statuses']
+  })
+  .refine(data => {
+    const keys = new Set(data.statuses.map(status => status.key))
+    return data.statuses.every(status => (status.transitions || []).every(key => keys.has(key)))
+  }, {
+    message: 'Transitions must point to statuses in the workflow',
+    path: ['statuses']
+  })
+
+export const updateProjectWorkflowSchema = z.object({
+  workflow: projectWorkflowSchema.nullable(),
+})
+
 // ID parameter schema
 export const projectIdSchema = z.object({
   id: objectIdSchema
@@ -506,6 +561,8 @@ export type ProjectQueryParams = z.infer<typeof projectQuerySchema>
 export type ProjectPrefillData = z.infer<typeof projectPrefillSchema>
 export type ProjectStats = z.infer<typeof projectStatsSchema>
 export type CategorizeDepartmentsData = z.infer<typeof categorizeDepartmentsSchema>
+export type WorkflowStatus = z.infer<typeof workflowStatusSchema>
+export type ProjectWorkflow = z.infer<typeof projectWorkflowSchema>
 
 // Fetch params interface
 export interface FetchProjectsParams extends Partial<ProjectQueryParams> { }
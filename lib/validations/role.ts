@@ -43,6 +43,12 @@ const hierarchyLevelSchema = z
   .max(10, "Hierarchy level cannot exceed 10")
   .default(1)
 
+// Default cost rate for members of the role; blank clears it
+const hourlyRateSchema = z
+  .union([z.literal(""), z.coerce.number().min(0, "Hourly rate cannot be negative").max(100000, "Hourly rate is too high")])
+  .optional()
+  .transform(val => val === "" ? undefined : val)
+
 // Status validation
 const roleStatusSchema = z.enum(["active", "inactive", "archived", "deleted"])
 
@@ -141,6 +147,7 @@ const baseRoleSchema = z.object({
   description: descriptionSchema,
   department: objectIdSchema,
   hierarchyLevel: hierarchyLevelSchema,
+  hourlyRate: hourlyRateSchema,
   isSystemRole: z.boolean().default(false),
   status: roleStatusSchema.default("active"),
   maxUsers: z
@@ -7,12 +7,18 @@ export const notificationTypeSchema = z.enum([
   'project_approved',
   'task_completed',
   'project_status_changed',
-  'department_assigned'
+  'department_assigned',
+  'timesheet_submitted',
+  'timesheet_approved',
+  'timesheet_rejected',
+  'budget_threshold',
+  'message_reminder',
+  'lead_follow_up'
 ])
 
 export const notificationCategorySchema = z.enum(['project', 'task', 'system', 'department'])
-export const entityTypeSchema = z.enum(['project', 'task', 'department', 'user'])
-export const actionTypeSchema = z.enum(['created', 'updated', 'assigned', 'approved', 'completed', 'status_changed'])
+export const entityTypeSchema = z.enum(['project', 'task', 'department', 'user', 'timesheet', 'message', 'lead'])
+export const actionTypeSchema = z.enum(['created', 'updated', 'assigned', 'approved', 'rejected', 'submitted', 'completed', 'status_changed', 'reminded'])
 export const prioritySchema = z.enum(['1', '2', '3', '4']).transform(val => parseInt(val, 10) as 1 | 2 | 3 | 4)
 
 // MongoDB ObjectId validation
@@ -34,7 +40,7 @@ export const baseSystemNotificationSchema = z.object({
   message: z.string().min(1, 'Message is required').max(1000),
   contentPreview: z.string().max(200).optional(),
   entityType: entityTypeSchema,
-  entityId: objectIdSchema,
+  entityId: objectIdSchema.optional(), // Required except for messages, which are not MongoDB documents
   entityName: z.string().max(255).optional(),
   actionType: actionTypeSchema,
   actionUrl: z.string().max(500).optional(),
@@ -44,7 +50,10 @@ export const baseSystemNotificationSchema = z.object({
 })
 
 // Create notification validation
-export const createSystemNotificationSchema = baseSystemNotificationSchema.strict()
+export const createSystemNotificationSchema = baseSystemNotificationSchema.strict().refine(
+  data => data.entityType === 'message' || !!data.entityId,
+  { message: 'Entity ID is required', path: ['entityId'] }
+)
 
 // Update notification validation  
 export const updateSystemNotificationSchema = z.object({
@@ -16,6 +16,20 @@ export const TASK_CONSTANTS = {
     VALUES: ['task', 'sub-task'] as const, 
     DEFAULT: 'task' as const 
   },
+  WORKFLOW_STATUS: { MAX_LENGTH: 40 },
+  DEPENDENCY_TYPE: {
+    VALUES: ['finish_to_start', 'start_to_start'] as const,
+    DEFAULT: 'finish_to_start' as const,
+    MAX_COUNT: 50
+  },
+  RECURRENCE: {
+    FREQUENCY: ['daily', 'weekly', 'monthly', 'rrule'] as const,
+    GENERATE_ON: ['completion', 'schedule'] as const,
+    END_TYPE: ['never', 'after', 'on_date'] as const,
+    MAX_INTERVAL: 365,
+    MAX_OCCURRENCES: 1000,
+    RRULE_MAX_LENGTH: 200
+  },
   PAGINATION: { DEFAULT_PAGE: 1, DEFAULT_LIMIT: 10, MAX_LIMIT: 100, MIN_PAGE: 1 },
   SORT: { ALLOWED_FIELDS: ['title', 'status', 'priority', 'type', 'createdAt', 'updatedAt', 'dueDate'] as const }
 } as const
@@ -42,6 +56,37 @@ export const queryObjectIdSchema = z.string()
   })
   .transform(val => !val || val.trim() === '' ? undefined : val.trim())
 
+// Recurrence rule; RRULE strings are parsed by TaskRecurrenceService
+export const taskRecurrenceSchema = z.object({
+  frequency: z.enum(TASK_CONSTANTS.RECURRENCE.FREQUENCY),
+  interval: z.coerce.number().int()
+    .min(1, 'Interval must be at least 1')
+    .max(TASK_CONSTANTS.RECURRENCE.MAX_INTERVAL, 'Interval too large')
+    .default(1),
+  weekdays: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+  dayOfMonth: z.coerce.number().int().min(1).max(31).optional(),
+  rrule: z.string()
+    .max(TASK_CONSTANTS.RECURRENCE.RRULE_MAX_LENGTH, 'Recurrence rule too long')
+    .optional()
+    .transform(val => !val || val.trim() === '' ? undefined : val.trim()),
+  generateOn: z.enum(TASK_CONSTANTS.RECURRENCE.GENERATE_ON).default('completion'),
+  endType: z.enum(TASK_CONSTANTS.RECURRENCE.END_TYPE).default('never'),
+  endAfterOccurrences: z.coerce.number().int()
+    .min(1, 'Occurrences must be at least 1')
+    .max(TASK_CONSTANTS.RECURRENCE.MAX_OCCURRENCES, 'Too many occurrences')
+    .optional(),
+  endDate: z.coerce.date().optional(),
+})
+  .refine(data => data.frequency !== 'rrule' || !!data.rrule, {
+    message: 'A recurrence rule is required', path: ['rrule']
+  })
+  .refine(data => data.endType !== 'after' || !!data.endAfterOccurrences, {
+    message: 'Number of occurrences is required', path: ['endAfterOccurrences']
+  })
+  .refine(data => data.endType !== 'on_date' || !!data.endDate, {
+    message: 'End date is required', path: ['endDate']
+  })
+
 // Base task schema
 export const baseTaskSchema = z.object({
   title: z.string()
@@ -67,6 +112,12 @@ export const baseTaskSchema = z.object({
   status: z.enum(TASK_CONSTANTS.STATUS.VALUES)
     .default(TASK_CONSTANTS.STATUS.DEFAULT),
 
+  // Project workflow status key; resolved against the project by TaskWorkflowService
+  workflowStatus: z.string()
+    .trim()
+    .max(TASK_CONSTANTS.WORKFLOW_STATUS.MAX_LENGTH, 'Workflow status too long')
+    .optional(),
+
   priority: z.enum(TASK_CONSTANTS.PRIORITY.VALUES)
     .default(TASK_CONSTANTS.PRIORITY.DEFAULT),
 
@@ -77,6 +128,21 @@ export const baseTaskSchema = z.object({
     .optional()
     .default([]),
 
+  dependencies: z.array(z.object({
+    taskId: objectIdSchema,
+    type: z.enum(TASK_CONSTANTS.DEPENDENCY_TYPE.VALUES).default(TASK_CONSTANTS.DEPENDENCY_TYPE.DEFAULT),
+  }))
+    .max(TASK_CONSTANTS.DEPENDENCY_TYPE.MAX_COUNT, 'Too many dependencies')
+    .optional(),
+
+  recurrence: taskRecurrenceSchema.nullable().optional(),
+
+  // Chat message the task is created from; the channel name is filled in server-side
+  sourceMessage: z.object({
+    messageId: z.string().uuid('Invalid message ID'),
+    channelId: z.string().uuid('Invalid channel ID'),
+  }).optional(),
+
   estimatedHours: z.number()
     .min(0, 'Estimated hours must be positive')
     .nullable()
@@ -164,6 +230,12 @@ export const baseTaskFormSchema = z.object({
   status: z.enum(TASK_CONSTANTS.STATUS.VALUES)
     .default(TASK_CONSTANTS.STATUS.DEFAULT),
 
+  // Project workflow status key; resolved against the project by TaskWorkflowService
+  workflowStatus: z.string()
+    .trim()
+    .max(TASK_CONSTANTS.WORKFLOW_STATUS.MAX_LENGTH, 'Workflow status too long')
+    .optional(),
+
   priority: z.enum(TASK_CONSTANTS.PRIORITY.VALUES)
     .default(TASK_CONSTANTS.PRIORITY.DEFAULT),
 
@@ -175,6 +247,8 @@ export const baseTaskFormSchema = z.object({
     .default([])
     .transform(arr => arr.filter(id => id && /^[0-9a-fA-F]{24}$/.test(id))),
 
+  recurrence: taskRecurrenceSchema.nullable().optional(),
+
   estimatedHours: z.string()
     .optional()
     .transform(val => !val || val.trim() === '' ? undefined : val.trim()),
@@ -221,7 +295,7 @@ export const createTaskSchema = baseTaskSchema
   }, { message: 'Start date cannot be after due date' })
 
 export const updateTaskSchema = baseTaskSchema
-  .omit({ createdBy: true })
+  .omit({ createdBy: true, sourceMessage: true })
   .partial()
   .extend({
     // Allow isDeleted field only when restoring (setting to false)
@@ -277,9 +351,10 @@ export const assignTaskSchema = z.object({
 
 // Status update schema
 export const updateTaskStatusSchema = z.object({
-  status: z.enum(TASK_CONSTANTS.STATUS.VALUES),
+  status: z.enum(TASK_CONSTANTS.STATUS.VALUES).optional(),
+  workflowStatus: z.string().trim().max(TASK_CONSTANTS.WORKFLOW_STATUS.MAX_LENGTH).optional(),
   actualHours: z.number().min(0).optional(),
-})
+}).refine(data => data.status || data.workflowStatus, { message: 'Status is required' })
 
 // Bulk operations schema
 export const bulkUpdateTasksSchema = z.object({
@@ -346,6 +421,23 @@ export const taskStatsSchema = z.object({
 })
 
 // Type exports for frontend
+export type TaskDependency = {
+  taskId: string
+  type: typeof TASK_CONSTANTS.DEPENDENCY_TYPE.VALUES[number]
+}
+
+export type TaskBlocker = TaskDependency & {
+  title: string
+  status: string
+}
+
+export type TaskRecurrence = z.infer<typeof taskRecurrenceSchema> & {
+  occurrence?: number
+  seriesId?: string
+  nextTaskId?: string
+  endedAt?: string
+}
+
 export type Task = {
   _id: string
   title: string
@@ -354,9 +446,13 @@ export type Task = {
   departmentId: string
   parentTaskId?: string
   assigneeId?: string
-  
-  
+  dependencies?: TaskDependency[]
+  isBlocked?: boolean
+  blockedBy?: TaskBlocker[]
+  recurrence?: TaskRecurrence | null
+
   status: 'pending' | 'in-progress' | 'completed' | 'on-hold' | 'cancelled' | 'closed' | 'deleted'
+  workflowStatus?: string
   priority: 'low' | 'medium' | 'high' | 'urgent'
   type: 'task' | 'sub-task'
   estimatedHours?: number
@@ -91,8 +91,6 @@ export const updateTimeLogSchema = z.object({
   startTime: optionalDateSchema,
   
   endTime: optionalDateSchema,
-  
-  isApproved: z.boolean().optional(),
 }).strict()
   .refine(data => {
     // At least one field must be provided
@@ -172,6 +170,24 @@ export const bulkApproveTimeLogsSchema = z.object({
   isApproved: z.boolean(),
 });
 
+// Active timer schemas
+export const startTimerSchema = z.object({
+  taskId: objectIdSchema,
+  projectId: objectIdSchema,
+  description: z.string()
+    .max(TIME_LOG_CONSTANTS.DESCRIPTION.MAX_LENGTH, 'Description too long')
+    .transform(val => val.trim())
+    .optional(),
+  stopExisting: z.boolean().optional().default(false),
+}).strict();
+
+export const stopTimerSchema = z.object({
+  description: z.string()
+    .max(TIME_LOG_CONSTANTS.DESCRIPTION.MAX_LENGTH, 'Description too long')
+    .transform(val => val.trim())
+    .optional(),
+}).strict();
+
 // Type exports
 export type CreateTimeLogData = z.infer<typeof createTimeLogSchema>;
 export type UpdateTimeLogData = z.infer<typeof updateTimeLogSchema>;
@@ -179,6 +195,8 @@ export type CreateTimeLogFormData = z.infer<typeof createTimeLogFormSchema>;
 export type UpdateTimeLogFormData = z.infer<typeof updateTimeLogFormSchema>;
 export type TimeLogQueryParams = z.infer<typeof timeLogQuerySchema>;
 export type BulkApproveTimeLogsData = z.infer<typeof bulkApproveTimeLogsSchema>;
+export type StartTimerData = z.infer<typeof startTimerSchema>;
+export type StopTimerData = z.infer<typeof stopTimerSchema>;
 
 // Utility functions
 export const formatHours = (hours: number): string => {
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { objectIdSchema, optionalObjectIdSchema } from './timeLog';
+
+export const TIMESHEET_CONSTANTS = {
+  STATUSES: ['draft', 'submitted', 'approved', 'rejected'] as const,
+  NOTE: { MAX_LENGTH: 500 },
+  REASON: { MIN_LENGTH: 3, MAX_LENGTH: 500 },
+  BULK: { MAX_ITEMS: 100 },
+} as const;
+
+const weekDateSchema = z.string()
+  .refine(val => !isNaN(Date.parse(val)), { message: 'Invalid date format' });
+
+// Weekly view query (defaults to the caller and the current week)
+export const timesheetWeekQuerySchema = z.object({
+  userId: optionalObjectIdSchema,
+  week: weekDateSchema.optional(),
+});
+
+// Review list query
+export const timesheetReviewQuerySchema = z.object({
+  status: z.enum(TIMESHEET_CONSTANTS.STATUSES).optional().default('submitted'),
+  week: weekDateSchema.optional(),
+});
+
+// Submit a week for approval
+export const submitTimesheetSchema = z.object({
+  week: weekDateSchema,
+  note: z.string()
+    .max(TIMESHEET_CONSTANTS.NOTE.MAX_LENGTH, 'Note too long')
+    .transform(val => val.trim())
+    .optional(),
+}).strict();
+
+// Bulk approve / reject
+export const reviewTimesheetsSchema = z.object({
+  timesheetIds: z.array(objectIdSchema)
+    .min(1, 'At least one timesheet must be selected')
+    .max(TIMESHEET_CONSTANTS.BULK.MAX_ITEMS, `Cannot review more than ${TIMESHEET_CONSTANTS.BULK.MAX_ITEMS} timesheets at once`),
+  action: z.enum(['approve', 'reject']),
+  reason: z.string()
+    .max(TIMESHEET_CONSTANTS.REASON.MAX_LENGTH, 'Reason too long')
+    .transform(val => val.trim())
+    .optional(),
+}).strict()
+  .refine(data => {
+    // Rejections must explain what needs to change
+    return data.action !== 'reject' || (data.reason?.length || 0) >= TIMESHEET_CONSTANTS.REASON.MIN_LENGTH;
+  }, { message: 'A reason is required to reject a timesheet', path: ['reason'] });
+
+// Type exports
+export type TimesheetWeekQuery = z.infer<typeof timesheetWeekQuerySchema>;
+export type TimesheetReviewQuery = z.infer<typeof timesheetReviewQuerySchema>;
+export type SubmitTimesheetData = z.infer<typeof submitTimesheetSchema>;
+export type ReviewTimesheetsData = z.infer<typeof reviewTimesheetsSchema>;
@@ -85,6 +85,12 @@ const urlSchema = z
   .or(z.literal(""))
   .optional()
 
+// Cost rate used for project budgets; blank falls back to the role rate
+const hourlyRateSchema = z
+  .union([z.literal(""), z.coerce.number().min(0, "Hourly rate cannot be negative").max(100000, "Hourly rate is too high")])
+  .optional()
+  .transform(val => val === "" ? undefined : val)
+
 // Status enums
 const userStatusSchema = z.enum(["active", "inactive", "deleted", "suspended"])
 const themeSchema = z.enum(["light", "dark", "system"])
@@ -136,6 +142,7 @@ const baseUserSchema = z.object({
   phone: phoneSchema,
   department: objectIdSchema,
   position: z.string().max(100, "Position must not exceed 100 characters").optional(),
+  hourlyRate: hourlyRateSchema,
   status: userStatusSchema.default("active"),
   permissions: z.array(z.string().trim()).default([]),
   avatar: urlSchema,
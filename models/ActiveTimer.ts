@@ -0,0 +1,116 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// Interface for the single running (or paused) timer a user may hold
+export interface IActiveTimer extends Document {
+  _id: string;
+  userId: mongoose.Types.ObjectId;
+  taskId: mongoose.Types.ObjectId;
+  projectId: mongoose.Types.ObjectId;
+  description?: string;
+  status: 'running' | 'paused';
+  startedAt: Date;
+  lastResumedAt?: Date;
+  accumulatedMs: number;
+  lastActivityAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Virtual populated fields
+  task?: any;
+  project?: any;
+}
+
+// Static methods interface
+export interface ActiveTimerModel extends mongoose.Model<IActiveTimer> {
+  findByUserId(userId: string): Promise<IActiveTimer | null>;
+  getElapsedMs(timer: Pick<IActiveTimer, 'status' | 'accumulatedMs' | 'lastResumedAt'>, now?: Date): number;
+}
+
+const ActiveTimerSchema = new Schema<IActiveTimer>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, "User is required"],
+    unique: true, // One timer per user
+  },
+  taskId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Task',
+    required: [true, "Task reference is required"],
+  },
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    required: [true, "Project reference is required"],
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, "Description cannot exceed 500 characters"],
+  },
+  status: {
+    type: String,
+    enum: ['running', 'paused'],
+    default: 'running',
+    required: true,
+  },
+  startedAt: {
+    type: Date,
+    required: [true, "Start time is required"],
+  },
+  // Set while running; elapsed time since then is not yet in accumulatedMs
+  lastResumedAt: {
+    type: Date,
+  },
+  accumulatedMs: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  lastActivityAt: {
+    type: Date,
+    required: true,
+    default: Date.now,
+  },
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+// Indexes for performance
+ActiveTimerSchema.index({ status: 1, lastActivityAt: 1 });
+ActiveTimerSchema.index({ taskId: 1 });
+
+// Virtual for task population
+ActiveTimerSchema.virtual('task', {
+  ref: 'Task',
+  localField: 'taskId',
+  foreignField: '_id',
+  justOne: true,
+});
+
+// Virtual for project population
+ActiveTimerSchema.virtual('project', {
+  ref: 'Project',
+  localField: 'projectId',
+  foreignField: '_id',
+  justOne: true,
+});
+
+// Static methods
+ActiveTimerSchema.statics.findByUserId = async function (userId: string) {
+  return this.findOne({ userId })
+    .populate('task', 'title status')
+    .populate('project', 'name');
+};
+
+ActiveTimerSchema.statics.getElapsedMs = function (timer: Pick<IActiveTimer, 'status' | 'accumulatedMs' | 'lastResumedAt'>, now: Date = new Date()) {
+  const runningMs = timer.status === 'running' && timer.lastResumedAt
+    ? Math.max(0, now.getTime() - new Date(timer.lastResumedAt).getTime())
+    : 0;
+
+  return (timer.accumulatedMs || 0) + runningMs;
+};
+
+export default (mongoose.models.ActiveTimer || mongoose.model<IActiveTimer>("ActiveTimer", ActiveTimerSchema)) as unknown as ActiveTimerModel;
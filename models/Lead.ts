@@ -1,4 +1,32 @@
 import mongoose, { Schema, type Document } from "mongoose"
+import { canMoveToStage, getLeadStage } from "../lib/utils/lead-pipeline"
+
+export type LeadPipelineStageCategory = 'open' | 'won' | 'lost'
+
+// One column of the sales pipeline, in board order. Stored in Settings.
+export interface ILeadPipelineStage {
+  key: string
+  name: string
+  category: LeadPipelineStageCategory // Won and lost stages close the deal
+  color?: string
+  transitions?: string[] // Keys this stage may move to; unset allows any
+}
+
+// Scoring rule that matched when the lead was last scored
+export interface ILeadScoreFactor {
+  ruleId: string
+  label: string
+  points: number
+}
+
+// Entry in a lead's stage history
+export interface ILeadStageChange {
+  stage: string
+  fromStage?: string
+  changedAt: Date
+  changedBy?: mongoose.Types.ObjectId
+  note?: string
+}
 
 export interface ILead extends Document {
   // Client Basic Info Section
@@ -42,6 +70,9 @@ export interface ILead extends Document {
 
   // Lead Management
   status: 'active' | 'inactive' | 'qualified' | 'unqualified' | 'deleted'
+  stage?: string // Pipeline stage key; moved by LeadPipelineService
+  stageChangedAt?: Date
+  stageHistory?: ILeadStageChange[]
   createdBy: mongoose.Types.ObjectId // Reference to User (sales agent)
   assignedTo?: mongoose.Types.ObjectId // Current assignee
   clientId?: mongoose.Types.ObjectId // Reference to User (populated after qualification)
@@ -56,6 +87,7 @@ export interface ILead extends Document {
   notes?: string
   lastContactDate?: Date
   nextFollowUpDate?: Date
+  followUpNotifiedFor?: Date // The follow-up date the owner was last reminded about
   contactHistory?: Array<{
     date: Date
     type: 'call' | 'email' | 'meeting' | 'note'
@@ -74,6 +106,8 @@ export interface ILead extends Document {
   score?: number // Lead scoring (0-100)
   hotLead?: boolean
   conversionProbability?: number // Percentage
+  scoreBreakdown?: ILeadScoreFactor[] // Set by LeadScoringService
+  scoredAt?: Date
 
 
   // Metadata
@@ -92,7 +126,8 @@ export interface ILead extends Document {
   _original?: any
 
   // Business logic methods
-  canTransitionTo(newStatus: string): { allowed: boolean; reason?: string }
+  // With pipeline stages, checks a stage move instead of a status change
+  canTransitionTo(newStatus: string, stages?: ILeadPipelineStage[]): { allowed: boolean; reason?: string }
   qualify(qualifiedBy: mongoose.Types.ObjectId): Promise<void>
   unqualify(reason: string): Promise<void>
 }
@@ -243,6 +278,22 @@ const LeadSchema = new Schema<ILead>(
       default: 'active',
       // index: true,
     },
+    stage: {
+      type: String,
+      trim: true,
+      maxlength: [40, "Stage cannot exceed 40 characters"],
+    },
+    stageChangedAt: {
+      type: Date,
+    },
+    stageHistory: [{
+      _id: false,
+      stage: { type: String, required: true },
+      fromStage: { type: String },
+      changedAt: { type: Date, required: true },
+      changedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+      note: { type: String, trim: true, maxlength: [500, "Stage note cannot exceed 500 characters"] },
+    }],
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -299,6 +350,9 @@ const LeadSchema = new Schema<ILead>(
       type: Date,
       // index: true,
     },
+    followUpNotifiedFor: {
+      type: Date,
+    },
     contactHistory: [{
       date: { type: Date, required: true },
       type: { type: String, enum: ['call', 'email', 'meeting', 'note'], required: true },
@@ -340,6 +394,15 @@ const LeadSchema = new Schema<ILead>(
       min: [0, "Conversion probability cannot be less than 0"],
       max: [100, "Conversion probability cannot exceed 100"],
     },
+    scoreBreakdown: [{
+      _id: false,
+      ruleId: { type: String, required: true },
+      label: { type: String, required: true },
+      points: { type: Number, required: true },
+    }],
+    scoredAt: {
+      type: Date,
+    },
 
 
     // Metadata
@@ -380,6 +443,7 @@ LeadSchema.index({ status: 1, createdAt: -1 }) // Status with date sorting
 LeadSchema.index({ status: 1, priority: 1 }) // Status with priority filtering
 LeadSchema.index({ createdBy: 1, status: 1 }) // Sales agent leads with status
 LeadSchema.index({ status: 1, nextFollowUpDate: 1 }) // Follow-up scheduling
+LeadSchema.index({ stage: 1, updatedAt: -1 }) // Pipeline board columns
 
 // Text search index for name, email, company, and project name
 LeadSchema.index({
@@ -477,7 +541,11 @@ LeadSchema.pre('save', function (next) {
 })
 
 // Instance methods
-LeadSchema.methods.canTransitionTo = function (newStatus: string): { allowed: boolean; reason?: string } {
+LeadSchema.methods.canTransitionTo = function (newStatus: string, stages?: ILeadPipelineStage[]): { allowed: boolean; reason?: string } {
+  if (stages) {
+    return canMoveToPipelineStage(this as ILead, newStatus, stages)
+  }
+
   const currentStatus = this.status
 
   // Define allowed transitions
@@ -500,6 +568,32 @@ LeadSchema.methods.canTransitionTo = function (newStatus: string): { allowed: bo
   return { allowed: true }
 }
 
+// Stage rules: converted, unqualified and deleted leads are locked, and the
+// current stage's transitions (when set) limit where the lead can go
+function canMoveToPipelineStage(lead: ILead, stageKey: string, stages: ILeadPipelineStage[]): { allowed: boolean; reason?: string } {
+  const to = stages.find(stage => stage.key === stageKey)
+  if (!to) {
+    return { allowed: false, reason: `Unknown pipeline stage: ${stageKey}` }
+  }
+
+  if (lead.isDeleted || lead.status === 'deleted') {
+    return { allowed: false, reason: 'Deleted leads cannot move through the pipeline' }
+  }
+  if (lead.clientId || lead.status === 'qualified') {
+    return { allowed: false, reason: 'Leads converted to a client stay in their won stage' }
+  }
+  if (lead.status === 'unqualified') {
+    return { allowed: false, reason: 'Unqualified leads cannot move through the pipeline' }
+  }
+
+  const from = getLeadStage(lead, stages)
+  if (!canMoveToStage(from, to)) {
+    return { allowed: false, reason: `Cannot move a lead from ${from.name} to ${to.name}` }
+  }
+
+  return { allowed: true }
+}
+
 LeadSchema.methods.qualify = async function (qualifiedBy: string) {
   const transition = this.canTransitionTo('qualified')
   if (!transition.allowed) {
@@ -0,0 +1,94 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+export interface ILeadImportRowIssue {
+  row: number
+  email?: string
+  messages: string[]
+  duplicateOf?: string[]
+  values?: Record<string, any> // The row as uploaded, for the error report
+}
+
+export interface ILeadImport extends Document {
+  fileName: string
+  status: 'pending' | 'processing' | 'completed' | 'failed'
+  requestedBy: mongoose.Types.ObjectId // Reference to User
+  canViewAllLeads: boolean // Whether duplicates of other agents' leads are named in the report
+  mapping: Record<string, string>
+  defaults: { source: string; priority: string }
+  skipDuplicates: boolean
+  rows: Record<string, any>[] // Cleared once the import has run
+  totalRows: number
+  processedRows: number
+  importedCount: number
+  duplicateCount: number
+  failedCount: number
+  issues: ILeadImportRowIssue[]
+  error?: string
+  startedAt?: Date
+  completedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const LeadImportSchema = new Schema<ILeadImport>({
+  fileName: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'completed', 'failed'],
+    default: 'pending',
+  },
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  canViewAllLeads: {
+    type: Boolean,
+    default: false,
+  },
+  mapping: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  defaults: {
+    source: { type: String, required: true },
+    priority: { type: String, required: true },
+  },
+  skipDuplicates: {
+    type: Boolean,
+    default: true,
+  },
+  rows: [{
+    type: Schema.Types.Mixed,
+  }],
+  totalRows: { type: Number, required: true },
+  processedRows: { type: Number, default: 0 },
+  importedCount: { type: Number, default: 0 },
+  duplicateCount: { type: Number, default: 0 },
+  failedCount: { type: Number, default: 0 },
+  issues: [{
+    _id: false,
+    row: { type: Number, required: true },
+    email: String,
+    messages: [String],
+    duplicateOf: [String],
+    values: Schema.Types.Mixed,
+  }],
+  error: String,
+  startedAt: Date,
+  completedAt: Date,
+}, {
+  timestamps: true,
+})
+
+// Performance indexes
+LeadImportSchema.index({ requestedBy: 1, createdAt: -1 })
+LeadImportSchema.index({ status: 1, createdAt: 1 })
+
+const LeadImport = mongoose.models.LeadImport as mongoose.Model<ILeadImport> || mongoose.model<ILeadImport>("LeadImport", LeadImportSchema)
+
+export default LeadImport
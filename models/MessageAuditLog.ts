@@ -8,6 +8,7 @@ import mongoose, { Schema, Document, Model } from 'mongoose'
  * - Message edits
  * - Message trash/restore operations
  * - Permanent deletion (with content preserved)
+ * - Retention purges (one entry per purged batch, written by the system)
  * 
  * Stored separately from real-time communication data (Supabase) for:
  * - Long-term retention
@@ -15,7 +16,7 @@ import mongoose, { Schema, Document, Model } from 'mongoose'
  * - Investigation/audit trails
  */
 
-export type MessageAuditAction = 'created' | 'edited' | 'trashed' | 'restored' | 'permanently_deleted'
+export type MessageAuditAction = 'created' | 'edited' | 'trashed' | 'restored' | 'permanently_deleted' | 'retention_purged'
 
 export interface IMessageAuditLogMetadata {
   trash_reason?: string
@@ -27,6 +28,8 @@ export interface IMessageAuditLogMetadata {
   sender_name?: string
   sender_email?: string
   retention_policy?: string
+  retention_days?: number
+  cutoff?: Date
   trashed_at?: Date
   trashed_by?: string
   [key: string]: unknown
@@ -34,13 +37,14 @@ export interface IMessageAuditLogMetadata {
 
 export interface IMessageAuditLog extends Document {
   // References to Supabase message (UUID string)
-  supabase_message_id: string
+  supabase_message_id?: string
+  supabase_message_ids?: string[] // Every message in a retention purge batch
   supabase_channel_id: string
   
   action: MessageAuditAction
   
-  // Actor info (MongoDB user reference)
-  actor_id: mongoose.Types.ObjectId
+  // Actor info (MongoDB user reference) - absent for system actions
+  actor_id?: mongoose.Types.ObjectId
   actor_name: string
   actor_email: string
   actor_role?: string
@@ -58,9 +62,13 @@ export interface IMessageAuditLog extends Document {
 const MessageAuditLogSchema = new Schema<IMessageAuditLog>({
   supabase_message_id: { 
     type: String, 
-    required: true,
+    required: function (this: IMessageAuditLog) { return this.action !== 'retention_purged' },
     index: true 
   },
+  supabase_message_ids: {
+    type: [String],
+    default: undefined
+  },
   supabase_channel_id: { 
     type: String, 
     required: true,
@@ -69,7 +77,7 @@ const MessageAuditLogSchema = new Schema<IMessageAuditLog>({
   
   action: { 
     type: String, 
-    enum: ['created', 'edited', 'trashed', 'restored', 'permanently_deleted'],
+    enum: ['created', 'edited', 'trashed', 'restored', 'permanently_deleted', 'retention_purged'],
     required: true,
     index: true
   },
@@ -77,7 +85,7 @@ const MessageAuditLogSchema = new Schema<IMessageAuditLog>({
   actor_id: { 
     type: Schema.Types.ObjectId, 
     ref: 'User', 
-    required: true,
+    required: function (this: IMessageAuditLog) { return this.action !== 'retention_purged' },
     index: true
   },
   actor_name: { 
@@ -1,5 +1,18 @@
 import mongoose, { Document, Schema } from 'mongoose'
 
+export type WorkflowStatusCategory = 'todo' | 'doing' | 'done'
+
+// One column of a project's task workflow, in board order
+export interface IWorkflowStatus {
+  key: string
+  name: string
+  category: WorkflowStatusCategory // Base category analytics and completion logic work from
+  color?: string
+  transitions?: string[] // Keys this status may move to; unset allows any
+  wipLimit?: number // Max tasks per department column; unset means no limit
+  wipLimitStrict?: boolean // Reject moves that would exceed the limit instead of warning
+}
+
 export interface IProject extends Document {
   name: string
   description?: string
@@ -28,6 +41,18 @@ export interface IProject extends Document {
     contingency?: number
   }
 
+  // Cost of approved time (hours x hourly rate), maintained by BudgetService
+  actualCost?: number
+  budgetAlerts?: {
+    threshold: number
+    triggeredAt: Date
+    actualCost: number
+  }[]
+
+  // Custom task statuses; unset means the default status set
+  workflow?: {
+    statuses: IWorkflowStatus[]
+  }
 
   risks?: {
     description: string
@@ -155,7 +180,35 @@ const ProjectSchema = new Schema<IProject>({
     contingency: { type: Number, min: [0, "Contingency budget must be positive"] },
   },
 
+  actualCost: {
+    type: Number,
+    default: 0,
+    min: [0, "Actual cost cannot be negative"],
+  },
+  // Budget thresholds (percent) already notified, so each alert is sent once
+  budgetAlerts: [{
+    threshold: { type: Number, required: true },
+    triggeredAt: { type: Date, default: Date.now },
+    actualCost: { type: Number, default: 0 },
+  }],
+
 
+  workflow: {
+    type: {
+      _id: false,
+      statuses: [{
+        _id: false,
+        key: { type: String, required: true, trim: true, maxlength: [40, "Status key cannot exceed 40 characters"] },
+        name: { type: String, required: true, trim: true, maxlength: [50, "Status name cannot exceed 50 characters"] },
+        category: { type: String, enum: ['todo', 'doing', 'done'], required: true },
+        color: { type: String, trim: true },
+        transitions: { type: [String], default: undefined },
+        wipLimit: { type: Number, min: [1, "WIP limit must be at least 1"] },
+        wipLimitStrict: { type: Boolean },
+      }],
+    },
+    default: undefined,
+  },
 
   risks: [{
     description: { type: String, required: true, trim: true, maxlength: [500, "Risk description cannot exceed 500 characters"] },
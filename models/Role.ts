@@ -19,6 +19,7 @@ export interface IRole extends Document {
   department: mongoose.Types.ObjectId // Department this role belongs to
   permissions?: IPermission[]
   hierarchyLevel: number // Higher level can manage lower levels
+  hourlyRate?: number // Default cost rate for users in this role
   isSystemRole: boolean // Cannot be deleted (admin, super admin)
   status: "active" | "inactive" | "archived" | "deleted"
   maxUsers?: number // Limit how many users can have this role
@@ -150,6 +151,10 @@ const RoleSchema = new Schema<IRole>({
     default: 1,
     // index: true, // Removed - covered by compound indexes
   },
+  hourlyRate: {
+    type: Number,
+    min: [0, "Hourly rate cannot be negative"],
+  },
   isSystemRole: {
     type: Boolean,
     default: false,
@@ -2,7 +2,7 @@ import mongoose, { Document, Schema } from 'mongoose'
 
 export interface ISystemNotification extends Document {
   // Core notification data
-  type: 'project_created' | 'task_assigned' | 'project_approved' | 'task_completed' | 'project_status_changed' | 'department_assigned'
+  type: 'project_created' | 'task_assigned' | 'project_approved' | 'task_completed' | 'project_status_changed' | 'department_assigned' | 'timesheet_submitted' | 'timesheet_approved' | 'timesheet_rejected' | 'budget_threshold' | 'message_reminder' | 'lead_follow_up'
   category: 'project' | 'task' | 'system' | 'department'
   
   // Recipient info
@@ -20,12 +20,12 @@ export interface ISystemNotification extends Document {
   contentPreview?: string // Short description
   
   // Related entity data
-  entityType: 'project' | 'task' | 'department' | 'user'
-  entityId: mongoose.Types.ObjectId // MongoDB entity ID
+  entityType: 'project' | 'task' | 'department' | 'user' | 'timesheet' | 'message' | 'lead'
+  entityId?: mongoose.Types.ObjectId // MongoDB entity ID; unset for chat messages (see metadata)
   entityName?: string
   
   // Action data
-  actionType: 'created' | 'updated' | 'assigned' | 'approved' | 'completed' | 'status_changed'
+  actionType: 'created' | 'updated' | 'assigned' | 'approved' | 'rejected' | 'submitted' | 'completed' | 'status_changed' | 'reminded'
   actionUrl?: string // Deep link to the entity
   
   // Status tracking
@@ -45,7 +45,7 @@ export interface ISystemNotification extends Document {
 const SystemNotificationSchema = new Schema<ISystemNotification>({
   type: {
     type: String,
-    enum: ['project_created', 'task_assigned', 'project_approved', 'task_completed', 'project_status_changed', 'department_assigned'],
+    enum: ['project_created', 'task_assigned', 'project_approved', 'task_completed', 'project_status_changed', 'department_assigned', 'timesheet_submitted', 'timesheet_approved', 'timesheet_rejected', 'budget_threshold', 'message_reminder', 'lead_follow_up'],
     required: [true, 'Notification type is required']
   },
   category: {
@@ -96,12 +96,12 @@ const SystemNotificationSchema = new Schema<ISystemNotification>({
   },
   entityType: {
     type: String,
-    enum: ['project', 'task', 'department', 'user'],
+    enum: ['project', 'task', 'department', 'user', 'timesheet', 'message', 'lead'],
     required: [true, 'Entity type is required']
   },
   entityId: {
     type: Schema.Types.ObjectId,
-    required: [true, 'Entity ID is required'],
+    required: [function (this: ISystemNotification) { return this.entityType !== 'message' }, 'Entity ID is required'],
     index: true
   },
   entityName: {
@@ -110,7 +110,7 @@ const SystemNotificationSchema = new Schema<ISystemNotification>({
   },
   actionType: {
     type: String,
-    enum: ['created', 'updated', 'assigned', 'approved', 'completed', 'status_changed'],
+    enum: ['created', 'updated', 'assigned', 'approved', 'rejected', 'submitted', 'completed', 'status_changed', 'reminded'],
     required: [true, 'Action type is required']
   },
   actionUrl: {
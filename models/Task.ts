@@ -1,5 +1,38 @@
 import mongoose, { Document, Schema } from 'mongoose'
 
+export type TaskDependencyType = 'finish_to_start' | 'start_to_start'
+
+export interface ITaskDependency {
+  taskId: mongoose.Types.ObjectId // Predecessor task
+  type: TaskDependencyType
+}
+
+export type TaskRecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'rrule'
+
+// Repeat rule carried by every instance of a recurring task
+export interface ITaskRecurrence {
+  frequency: TaskRecurrenceFrequency
+  interval: number
+  weekdays?: number[] // 0 (Sunday) - 6, for weekly rules
+  dayOfMonth?: number // 1-31, for monthly rules; clamped to short months
+  rrule?: string // FREQ/INTERVAL/BYDAY/BYMONTHDAY/COUNT/UNTIL subset
+  generateOn: 'completion' | 'schedule'
+  endType: 'never' | 'after' | 'on_date'
+  endAfterOccurrences?: number
+  endDate?: Date
+  occurrence: number // 1-based position of this instance in the series
+  seriesId?: mongoose.Types.ObjectId // First task of the series
+  nextTaskId?: mongoose.Types.ObjectId // Set once the following instance exists
+  endedAt?: Date // Set when the end condition stops the series at this instance
+}
+
+// Chat message the task was created from
+export interface ITaskSourceMessage {
+  messageId: string // Postgres message id
+  channelId: string
+  channelName?: string
+}
+
 export interface ITask extends Document {
   title: string
   description?: string
@@ -7,9 +40,12 @@ export interface ITask extends Document {
   departmentId: mongoose.Types.ObjectId
   parentTaskId?: mongoose.Types.ObjectId // For sub-tasks
   assigneeId?: mongoose.Types.ObjectId
-  
-  
+  dependencies?: ITaskDependency[] // Predecessors within the same project
+  recurrence?: ITaskRecurrence
+  sourceMessage?: ITaskSourceMessage // Set when created from a chat message
+
   status: 'pending' | 'in-progress' | 'completed' | 'on-hold' | 'cancelled' | 'closed' | 'deleted'
+  workflowStatus?: string // Key of the project's workflow status; status follows its category
   priority: 'low' | 'medium' | 'high' | 'urgent'
   type: 'task' | 'sub-task'
 
@@ -92,12 +128,52 @@ const TaskSchema = new Schema<ITask>({
     ref: 'User',
     // index: true, // Removed - covered by compound indexes
   },
+  // Validated by TaskDependencyService (same project, no cycles)
+  dependencies: [{
+    _id: false,
+    taskId: { type: Schema.Types.ObjectId, ref: 'Task', required: true },
+    type: { type: String, enum: ['finish_to_start', 'start_to_start'], default: 'finish_to_start' },
+  }],
+  // Next instances are created by TaskRecurrenceService
+  recurrence: {
+    type: {
+      _id: false,
+      frequency: { type: String, enum: ['daily', 'weekly', 'monthly', 'rrule'], required: true },
+      interval: { type: Number, default: 1, min: [1, "Interval must be at least 1"] },
+      weekdays: [{ type: Number, min: 0, max: 6 }],
+      dayOfMonth: { type: Number, min: 1, max: 31 },
+      rrule: { type: String, trim: true, maxlength: [200, "Rule cannot exceed 200 characters"] },
+      generateOn: { type: String, enum: ['completion', 'schedule'], default: 'completion' },
+      endType: { type: String, enum: ['never', 'after', 'on_date'], default: 'never' },
+      endAfterOccurrences: { type: Number, min: [1, "Occurrences must be at least 1"] },
+      endDate: { type: Date },
+      occurrence: { type: Number, default: 1, min: 1 },
+      seriesId: { type: Schema.Types.ObjectId, ref: 'Task' },
+      nextTaskId: { type: Schema.Types.ObjectId, ref: 'Task' },
+      endedAt: { type: Date },
+    },
+    default: undefined,
+  },
+  sourceMessage: {
+    type: {
+      _id: false,
+      messageId: { type: String, required: true },
+      channelId: { type: String, required: true },
+      channelName: { type: String, trim: true },
+    },
+    default: undefined,
+  },
   status: {
     type: String,
     enum: ['pending', 'in-progress', 'completed', 'on-hold', 'cancelled', 'closed', 'deleted'],
     default: 'pending',
     // index: true, // Removed - covered by compound indexes
   },
+  workflowStatus: {
+    type: String,
+    trim: true,
+    maxlength: [40, "Workflow status cannot exceed 40 characters"],
+  },
   priority: {
     type: String,
     enum: ['low', 'medium', 'high', 'urgent'],
@@ -186,6 +262,9 @@ TaskSchema.index({ projectId: 1, type: 1, status: 1 })
 // Index for efficient ordering within departments and statuses
 TaskSchema.index({ departmentId: 1, status: 1, order: 1 })
 TaskSchema.index({ projectId: 1, departmentId: 1, status: 1, order: 1 })
+TaskSchema.index({ 'dependencies.taskId': 1 })
+// Recurring tasks still waiting for their next instance
+TaskSchema.index({ 'recurrence.generateOn': 1, 'recurrence.nextTaskId': 1, dueDate: 1 })
 
 // Text search index
 TaskSchema.index({
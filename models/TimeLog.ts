@@ -15,6 +15,8 @@ export interface ITimeLog extends Document {
   isApproved: boolean;
   approvedBy?: mongoose.Types.ObjectId;
   approvedAt?: Date;
+  costRate?: number;
+  cost?: number;
   isDeleted: boolean;
   deletedAt?: Date;
   deletedBy?: mongoose.Types.ObjectId;
@@ -34,6 +36,7 @@ export interface TimeLogModel extends mongoose.Model<ITimeLog> {
   findByProjectId(projectId: string): Promise<ITimeLog[]>;
   findByUserId(userId: string): Promise<ITimeLog[]>;
   getTotalHours(taskId: string): Promise<number>;
+  getProjectTotalHours(projectId: string): Promise<number>;
   createTimeLog(data: any): Promise<ITimeLog>;
   softDelete(id: string, deletedBy: string): Promise<ITimeLog | null>;
 }
@@ -98,6 +101,15 @@ const TimeLogSchema = new Schema<ITimeLog>({
   approvedAt: {
     type: Date,
   },
+  // Hourly rate snapshotted at approval so later rate changes don't rewrite history
+  costRate: {
+    type: Number,
+    min: 0,
+  },
+  cost: {
+    type: Number,
+    min: 0,
+  },
   isDeleted: {
     type: Boolean,
     default: false,
@@ -186,6 +198,15 @@ TimeLogSchema.statics.getTotalHours = async function (taskId: string) {
   return result.length > 0 ? result[0].totalHours : 0;
 };
 
+TimeLogSchema.statics.getProjectTotalHours = async function (projectId: string) {
+  const result = await this.aggregate([
+    { $match: { projectId: new mongoose.Types.ObjectId(projectId), isDeleted: false } },
+    { $group: { _id: null, totalHours: { $sum: '$hours' } } }
+  ]);
+
+  return result.length > 0 ? result[0].totalHours : 0;
+};
+
 TimeLogSchema.statics.createTimeLog = async function (data: any) {
   const timeLog = new this(data);
   return timeLog.save();
@@ -237,4 +258,4 @@ TimeLogSchema.set('toJSON', {
   }
 });
 
-export default mongoose.models.TimeLog || mongoose.model<ITimeLog>("TimeLog", TimeLogSchema);
\ No newline at end of file
+export default (mongoose.models.TimeLog || mongoose.model<ITimeLog>("TimeLog", TimeLogSchema)) as unknown as TimeLogModel;
\ No newline at end of file
@@ -0,0 +1,120 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// Interface for a user's weekly timesheet (Monday to Sunday, UTC)
+export interface ITimesheet extends Document {
+  _id: string;
+  userId: mongoose.Types.ObjectId;
+  weekStart: Date;
+  weekEnd: Date;
+  status: 'draft' | 'submitted' | 'approved' | 'rejected';
+  totalHours: number;
+  submittedAt?: Date;
+  submissionNote?: string;
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Virtual populated fields
+  user?: any;
+  reviewer?: any;
+}
+
+// Static methods interface
+export interface TimesheetModel extends mongoose.Model<ITimesheet> {
+  findByUserAndWeek(userId: string, weekStart: Date): Promise<ITimesheet | null>;
+  isWeekLocked(userId: string, date: Date): Promise<ITimesheet | null>;
+}
+
+// Timesheets in these states freeze the week's time logs
+export const LOCKED_TIMESHEET_STATUSES = ['submitted', 'approved'] as const;
+
+const TimesheetSchema = new Schema<ITimesheet>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, "User is required"],
+  },
+  weekStart: {
+    type: Date,
+    required: [true, "Week start is required"],
+  },
+  weekEnd: {
+    type: Date,
+    required: [true, "Week end is required"],
+  },
+  status: {
+    type: String,
+    enum: ['draft', 'submitted', 'approved', 'rejected'],
+    default: 'draft',
+    required: true,
+  },
+  totalHours: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  submittedAt: {
+    type: Date,
+  },
+  submissionNote: {
+    type: String,
+    trim: true,
+    maxlength: [500, "Note cannot exceed 500 characters"],
+  },
+  reviewedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  reviewedAt: {
+    type: Date,
+  },
+  rejectionReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, "Rejection reason cannot exceed 500 characters"],
+  },
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+// Indexes for performance
+TimesheetSchema.index({ userId: 1, weekStart: 1 }, { unique: true });
+TimesheetSchema.index({ status: 1, weekStart: -1 });
+
+// Virtual for user population
+TimesheetSchema.virtual('user', {
+  ref: 'User',
+  localField: 'userId',
+  foreignField: '_id',
+  justOne: true,
+});
+
+// Virtual for reviewer population
+TimesheetSchema.virtual('reviewer', {
+  ref: 'User',
+  localField: 'reviewedBy',
+  foreignField: '_id',
+  justOne: true,
+});
+
+// Static methods
+TimesheetSchema.statics.findByUserAndWeek = async function (userId: string, weekStart: Date) {
+  return this.findOne({ userId, weekStart })
+    .populate('user', 'name email avatar reportsTo')
+    .populate('reviewer', 'name email');
+};
+
+TimesheetSchema.statics.isWeekLocked = async function (userId: string, date: Date) {
+  return this.findOne({
+    userId,
+    weekStart: { $lte: date },
+    weekEnd: { $gte: date },
+    status: { $in: LOCKED_TIMESHEET_STATUSES },
+  }).lean();
+};
+
+export default (mongoose.models.Timesheet || mongoose.model<ITimesheet>("Timesheet", TimesheetSchema)) as unknown as TimesheetModel;
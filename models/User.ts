@@ -11,6 +11,7 @@ export interface IUser extends Document {
   department?: mongoose.Types.ObjectId // Reference to Department model (optional for clients)
   position?: string
   reportsTo?: mongoose.Types.ObjectId // For subordinate relationships
+  hourlyRate?: number // Cost rate used for project budget burn; falls back to the role rate
   assignedTo?: mongoose.Types.ObjectId[] // For assignment tracking
   status: "active" | "inactive" | "deleted" | "suspended" | "qualified" | "unqualified" // Extended for clients
 
@@ -22,6 +23,10 @@ export interface IUser extends Document {
   company?: string // Client's company name
   website?: string // Client's website
   lastLogin?: Date
+  chatStatus?: {
+    text?: string
+    expiresAt?: Date // Cleared when this passes; no expiry keeps it until changed
+  }
   emailVerified: boolean
   phoneVerified: boolean
   twoFactorEnabled: boolean
@@ -125,6 +130,11 @@ const UserSchema = new Schema<IUser>(
       required: false,
       // index: true, // Removed - not frequently queried, can be sparse if needed
     },
+    // Cost rate per hour for budget tracking (overrides the role rate)
+    hourlyRate: {
+      type: Number,
+      min: [0, "Hourly rate cannot be negative"],
+    },
     // For assignment tracking
     assignedTo: [{
       type: Schema.Types.ObjectId,
@@ -180,6 +190,11 @@ const UserSchema = new Schema<IUser>(
     lastLogin: {
       type: Date,
     },
+    // Status shown next to the user in chat, set with /status
+    chatStatus: {
+      text: { type: String, trim: true, maxlength: [100, "Status cannot exceed 100 characters"] },
+      expiresAt: { type: Date },
+    },
     emailVerified: {
       type: Boolean,
       default: false,
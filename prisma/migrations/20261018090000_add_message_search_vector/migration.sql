@@ -0,0 +1,7 @@
+-- AlterTable
+-- Generated from the message text so it can never drift from `content`; Prisma
+-- cannot express generated columns, so the schema declares it as Unsupported.
+ALTER TABLE "messages" ADD COLUMN     "search_vector" tsvector GENERATED ALWAYS AS (to_tsvector('english', coalesce("content", ''))) STORED;
+
+-- CreateIndex
+CREATE INDEX "messages_search_vector_idx" ON "messages" USING GIN ("search_vector");
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "scheduled_messages" (
+    "id" UUID NOT NULL,
+    "channel_id" UUID NOT NULL,
+    "mongo_sender_id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "parent_message_id" UUID,
+    "mongo_mentioned_user_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "send_at" TIMESTAMPTZ(6) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "sent_message_id" UUID,
+    "failure_reason" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sender_name" TEXT NOT NULL DEFAULT 'Unknown User',
+    "sender_email" TEXT NOT NULL DEFAULT '',
+    "sender_avatar" TEXT,
+    "sender_role" TEXT NOT NULL DEFAULT 'User',
+
+    CONSTRAINT "scheduled_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scheduled_messages_status_send_at_idx" ON "scheduled_messages"("status", "send_at");
+
+-- CreateIndex
+CREATE INDEX "scheduled_messages_channel_id_mongo_sender_id_status_idx" ON "scheduled_messages"("channel_id", "mongo_sender_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "scheduled_messages" ADD CONSTRAINT "scheduled_messages_channel_id_fkey" FOREIGN KEY ("channel_id") REFERENCES "channels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
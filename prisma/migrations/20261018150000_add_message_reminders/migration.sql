@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "message_reminders" (
+    "id" UUID NOT NULL,
+    "message_id" UUID NOT NULL,
+    "channel_id" UUID NOT NULL,
+    "mongo_user_id" TEXT NOT NULL,
+    "remind_at" TIMESTAMPTZ(6) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "notified_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_reminders_message_id_mongo_user_id_key" ON "message_reminders"("message_id", "mongo_user_id");
+
+-- CreateIndex
+CREATE INDEX "message_reminders_status_remind_at_idx" ON "message_reminders"("status", "remind_at");
+
+-- CreateIndex
+CREATE INDEX "message_reminders_mongo_user_id_status_remind_at_idx" ON "message_reminders"("mongo_user_id", "status", "remind_at");
+
+-- AddForeignKey
+ALTER TABLE "message_reminders" ADD CONSTRAINT "message_reminders_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_reminders" ADD CONSTRAINT "message_reminders_channel_id_fkey" FOREIGN KEY ("channel_id") REFERENCES "channels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
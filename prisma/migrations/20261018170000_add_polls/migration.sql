@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "polls" (
+    "id" UUID NOT NULL,
+    "message_id" UUID NOT NULL,
+    "channel_id" UUID NOT NULL,
+    "mongo_creator_id" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "allow_multiple" BOOLEAN NOT NULL DEFAULT false,
+    "is_anonymous" BOOLEAN NOT NULL DEFAULT false,
+    "closes_at" TIMESTAMPTZ(6),
+    "closed_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "polls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "poll_options" (
+    "id" UUID NOT NULL,
+    "poll_id" UUID NOT NULL,
+    "text" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "poll_options_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "poll_votes" (
+    "id" UUID NOT NULL,
+    "poll_id" UUID NOT NULL,
+    "option_id" UUID NOT NULL,
+    "mongo_user_id" TEXT NOT NULL,
+    "user_name" TEXT NOT NULL DEFAULT 'Unknown User',
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "poll_votes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "polls_message_id_key" ON "polls"("message_id");
+
+-- CreateIndex
+CREATE INDEX "polls_channel_id_idx" ON "polls"("channel_id");
+
+-- CreateIndex
+CREATE INDEX "poll_options_poll_id_position_idx" ON "poll_options"("poll_id", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "poll_votes_option_id_mongo_user_id_key" ON "poll_votes"("option_id", "mongo_user_id");
+
+-- CreateIndex
+CREATE INDEX "poll_votes_poll_id_mongo_user_id_idx" ON "poll_votes"("poll_id", "mongo_user_id");
+
+-- AddForeignKey
+ALTER TABLE "polls" ADD CONSTRAINT "polls_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_options" ADD CONSTRAINT "poll_options_poll_id_fkey" FOREIGN KEY ("poll_id") REFERENCES "polls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_votes" ADD CONSTRAINT "poll_votes_poll_id_fkey" FOREIGN KEY ("poll_id") REFERENCES "polls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_votes" ADD CONSTRAINT "poll_votes_option_id_fkey" FOREIGN KEY ("option_id") REFERENCES "poll_options"("id") ON DELETE CASCADE ON UPDATE CASCADE;
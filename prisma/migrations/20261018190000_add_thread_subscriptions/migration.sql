@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "thread_subscriptions" (
+    "id" UUID NOT NULL,
+    "message_id" UUID NOT NULL,
+    "channel_id" UUID NOT NULL,
+    "mongo_user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "thread_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "thread_subscriptions_message_id_mongo_user_id_key" ON "thread_subscriptions"("message_id", "mongo_user_id");
+
+-- CreateIndex
+CREATE INDEX "thread_subscriptions_mongo_user_id_idx" ON "thread_subscriptions"("mongo_user_id");
+
+-- AddForeignKey
+ALTER TABLE "thread_subscriptions" ADD CONSTRAINT "thread_subscriptions_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "thread_subscriptions" ADD CONSTRAINT "thread_subscriptions_channel_id_fkey" FOREIGN KEY ("channel_id") REFERENCES "channels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "channel_members" ADD COLUMN "last_read_at" TIMESTAMPTZ(6),
+ADD COLUMN "last_read_message_id" UUID;
+
+-- Backfill the pointer from the newest message each member has a read receipt for
+UPDATE "channel_members" cm
+SET "last_read_at" = latest."created_at"
+FROM (
+    SELECT m."channel_id", rr."mongo_user_id", MAX(m."created_at") AS "created_at"
+    FROM "read_receipts" rr
+    JOIN "messages" m ON m."id" = rr."message_id"
+    GROUP BY m."channel_id", rr."mongo_user_id"
+) latest
+WHERE latest."channel_id" = cm."channel_id"
+  AND latest."mongo_user_id" = cm."mongo_member_id";
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "channels" ADD COLUMN "message_retention_days" INTEGER,
+ADD COLUMN "trash_retention_days" INTEGER,
+ADD COLUMN "legal_hold" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "legal_hold_reason" TEXT,
+ADD COLUMN "legal_hold_set_by" TEXT,
+ADD COLUMN "legal_hold_set_at" TIMESTAMPTZ(6);
+
+-- CreateIndex
+CREATE INDEX "channels_legal_hold_idx" ON "channels"("legal_hold");
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "channel_exports" (
+    "id" UUID NOT NULL,
+    "channel_id" UUID NOT NULL,
+    "mongo_requested_by" TEXT NOT NULL,
+    "from_date" TIMESTAMPTZ(6) NOT NULL,
+    "to_date" TIMESTAMPTZ(6) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "s3_key" TEXT,
+    "file_name" TEXT,
+    "file_size" INTEGER,
+    "message_count" INTEGER,
+    "attachment_count" INTEGER,
+    "error" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMPTZ(6),
+    "completed_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "channel_exports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "channel_exports_channel_id_created_at_idx" ON "channel_exports"("channel_id", "created_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "channel_exports_status_created_at_idx" ON "channel_exports"("status", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "channel_exports" ADD CONSTRAINT "channel_exports_channel_id_fkey" FOREIGN KEY ("channel_id") REFERENCES "channels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
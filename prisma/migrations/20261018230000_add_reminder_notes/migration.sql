@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "message_reminders" ALTER COLUMN "message_id" DROP NOT NULL,
+ADD COLUMN     "note" TEXT;
@@ -69,6 +69,34 @@ async function initializeSettings() {
         description: 'Automated backup frequency (daily, weekly, monthly)',
         category: 'system',
         isPublic: false
+      },
+      {
+        key: 'time_tracking_idle_limit_minutes',
+        value: 120,
+        description: 'Minutes without activity before a running task timer is stopped automatically (0 disables)',
+        category: 'system',
+        isPublic: false
+      },
+      {
+        key: 'chat_message_retention_days',
+        value: 0,
+        description: 'Days chat messages are kept before they are purged (0 keeps them forever). Channels can override this',
+        category: 'system',
+        isPublic: false
+      },
+      {
+        key: 'chat_trash_retention_days',
+        value: 30,
+        description: 'Days trashed chat messages stay restorable before they are purged. Channels can override this',
+        category: 'system',
+        isPublic: false
+      },
+      {
+        key: 'default_hourly_rate',
+        value: 0,
+        description: 'Hourly cost rate for project budget tracking when neither the user nor their role has one',
+        category: 'system',
+        isPublic: false
       }
     ]
 
@@ -61,6 +61,7 @@ const systemRoles = [
       { permission: { resource: 'leads' }, actions: ["create", "read", "update", "delete", "assign"] },
       { permission: { resource: 'projects' }, actions: ["create", "read", "update", "delete", "assign"] },
       { permission: { resource: 'tasks' }, actions: ["create", "read", "update", "delete", "assign"] },
+      { permission: { resource: 'timesheets' }, actions: ["read", "approve"] },
       { permission: { resource: 'proposals' }, actions: ["create", "read", "update", "delete", "assign"] },
       { permission: { resource: 'email' }, actions: ["create", "read", "update", "delete"], conditions: { unrestricted: true } },
       { permission: { resource: 'upload' }, actions: ["create", "read", "update", "delete"], conditions: { unrestricted: true } },
@@ -82,6 +83,7 @@ const systemRoles = [
       { permission: PERMISSIONS.REPORTS_READ, actions: ["create", "read", "export"] },
       { permission: PERMISSIONS.DASHBOARD_READ, actions: ["read"] },
       { permission: PERMISSIONS.AUDIT_LOGS_READ, actions: ["read"] },
+      { permission: PERMISSIONS.TIMESHEETS_READ, actions: ["read", "approve"], conditions: { unrestricted: true } },
     ])
   },
   {
@@ -98,6 +100,7 @@ const systemRoles = [
       { permission: PERMISSIONS.COMMUNICATIONS_READ, actions: ["create", "read", "update", "assign"] },
       { permission: PERMISSIONS.REPORTS_READ, actions: ["create", "read", "export"] },
       { permission: PERMISSIONS.DASHBOARD_READ, actions: ["read"] },
+      { permission: PERMISSIONS.TIMESHEETS_READ, actions: ["read", "approve"], conditions: { subordinates: true } },
     ])
   },
   {
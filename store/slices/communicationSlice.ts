@@ -5,7 +5,9 @@ import {
   IParticipant, 
   ITypingIndicator, 
   CommunicationFilters, 
-  CommunicationSort
+  CommunicationSort,
+  IPollSummary,
+  IChannelUnreadSummary
 } from '@/types/communication'
 
 // Type for updateChannel payload that allows functions for numeric fields
@@ -88,8 +90,8 @@ export interface ITrashedMessage extends ICommunication {
   trashed_at: string
   trashed_by: string
   trash_reason?: string
-  days_remaining: number
-  expires_at: string
+  days_remaining: number | null // null when no retention policy will purge it
+  expires_at: string | null
   is_expiring_soon: boolean // < 7 days remaining
 }
 
@@ -140,6 +142,9 @@ const communicationSlice = createSlice({
         state.unreadCount -= state.channels[channelIndex].unreadCount
         state.channels[channelIndex].unreadCount = 0
       }
+      if (channelIndex !== -1) {
+        state.channels[channelIndex].unreadMentionCount = 0
+      }
       
       // Clear typing indicators for this channel
       state.typingUsers[action.payload] = []
@@ -170,6 +175,14 @@ const communicationSlice = createSlice({
       
       // Create a fresh copy to avoid mutating frozen payload
       state.messages[channelId].push({ ...message })
+
+      // Keep the thread starter's reply count in step
+      if (message.parent_message_id) {
+        const parent = state.messages[channelId].find(m => m.id === message.parent_message_id)
+        if (parent) {
+          parent.reply_count = (parent.reply_count || 0) + 1
+        }
+      }
       
       // Update channel's last message and move to top
       const channelIndex = state.channels.findIndex(ch => ch.id === channelId)
@@ -182,12 +195,16 @@ const communicationSlice = createSlice({
         // 1. Not the active channel
         // 2. currentUserId is set (to avoid false positives)
         // 3. Message is NOT from the current user
+        // 4. Message is not a thread reply (those are counted in the Threads inbox)
         const isActiveChannel = channelId === state.activeChannelId
         const isFromCurrentUser = state.currentUserId && message.mongo_sender_id === state.currentUserId
         
-        if (!isActiveChannel && !isFromCurrentUser && state.currentUserId) {
+        if (!isActiveChannel && !isFromCurrentUser && state.currentUserId && !message.parent_message_id) {
           channel.unreadCount = (channel.unreadCount || 0) + 1
           state.unreadCount += 1
+          if (message.mongo_mentioned_user_ids?.includes(state.currentUserId)) {
+            channel.unreadMentionCount = (channel.unreadMentionCount || 0) + 1
+          }
         }
         
         // Move channel to top of list (most recent first)
@@ -203,6 +220,23 @@ const communicationSlice = createSlice({
       }
     },
     
+    // Slash command replies are shown to the caller only, so they skip
+    // the channel ordering and unread bookkeeping of addMessage
+    addEphemeralMessage: (state, action: PayloadAction<{ channelId: string; message: ICommunication }>) => {
+      const { channelId, message } = action.payload
+      if (!state.messages[channelId]) {
+        state.messages[channelId] = []
+      }
+      state.messages[channelId].push({ ...message, is_ephemeral: true })
+    },
+
+    dismissEphemeralMessage: (state, action: PayloadAction<{ channelId: string; messageId: string }>) => {
+      const { channelId, messageId } = action.payload
+      if (state.messages[channelId]) {
+        state.messages[channelId] = state.messages[channelId].filter(msg => !(msg.is_ephemeral && msg.id === messageId))
+      }
+    },
+
     updateMessage: (state, action: PayloadAction<{ channelId: string; messageId: string; updates: Partial<ICommunication> }>) => {
       const { channelId, messageId, updates } = action.payload
       
@@ -263,6 +297,22 @@ const communicationSlice = createSlice({
       }
     },
     
+    // Apply server-computed unread state. The active channel stays at zero since
+    // its messages are being marked read as they are seen.
+    setChannelUnreadCounts: (state, action: PayloadAction<IChannelUnreadSummary[]>) => {
+      for (const summary of action.payload) {
+        const channel = state.channels.find(ch => ch.id === summary.channel_id)
+        if (!channel) continue
+        const isActiveChannel = channel.id === state.activeChannelId
+        channel.unreadCount = isActiveChannel ? 0 : summary.unread_count
+        channel.unreadMentionCount = isActiveChannel ? 0 : summary.mention_count
+        if (state.selectedChannel?.id === channel.id) {
+          state.selectedChannel = { ...channel }
+        }
+      }
+      state.unreadCount = state.channels.reduce((total, channel) => total + (channel.unreadCount || 0), 0)
+    },
+
     // Decrement unread count (when message is marked as read)
     decrementUnreadCount: (state, action: PayloadAction<number | undefined>) => {
       const decrement = action.payload ?? 1
@@ -341,6 +391,26 @@ const communicationSlice = createSlice({
         }
       }
     },
+
+    // Replace poll results (real-time). Broadcasts don't carry the current user's
+    // own selection, so keep the one we already have unless a new one is given.
+    updateMessagePoll: (state, action: PayloadAction<{
+      channelId: string;
+      messageId: string;
+      poll: IPollSummary;
+    }>) => {
+      const { channelId, messageId, poll } = action.payload
+
+      if (state.messages[channelId]) {
+        const message = state.messages[channelId].find(msg => msg.id === messageId)
+        if (message) {
+          message.poll = {
+            ...poll,
+            my_option_ids: poll.my_option_ids ?? message.poll?.my_option_ids
+          }
+        }
+      }
+    },
     
     // ============================================
     // Typing Indicators (Optimized)
@@ -816,6 +886,7 @@ const communicationSlice = createSlice({
     // Update trashed message expiry info (for real-time updates)
     updateTrashedMessageExpiry: (state) => {
       state.trashedMessages = state.trashedMessages.map(msg => {
+        if (!msg.expires_at) return msg
         const expiresAt = new Date(msg.expires_at)
         const daysRemaining = Math.max(0, Math.ceil((expiresAt.getTime() - Date.now()) / (1000 * 60 * 60 * 24)))
         return {
@@ -823,7 +894,7 @@ const communicationSlice = createSlice({
           days_remaining: daysRemaining,
           is_expiring_soon: daysRemaining < 7
         }
-      }).filter(msg => msg.days_remaining > 0) // Auto-remove expired messages
+      }).filter(msg => msg.days_remaining === null || msg.days_remaining > 0) // Auto-remove expired messages
     },
     
     // Clear all trashed messages (reset)
@@ -871,9 +942,11 @@ export const {
   setChannelsInitialized,
   addReactionToMessage,
   removeReactionFromMessage,
+  updateMessagePoll,
   resetState,
   decrementUnreadCount,
   incrementUnreadCount,
+  setChannelUnreadCounts,
   // Channel real-time updates (Phase 3)
   addChannel,
   updateChannel,
@@ -882,6 +955,8 @@ export const {
   moveMessageToTrash,
   restoreMessageFromTrash,
   hideMessageForSelf,
+  addEphemeralMessage,
+  dismissEphemeralMessage,
   permanentlyDeleteMessage,
   setTrashedMessages,
   appendTrashedMessages,
@@ -4,15 +4,15 @@ import { z } from 'zod'
 
 export interface SystemNotification {
   id: string
-  type: 'project_created' | 'task_assigned' | 'project_approved' | 'task_completed' | 'project_status_changed' | 'department_assigned'
+  type: 'project_created' | 'task_assigned' | 'project_approved' | 'task_completed' | 'project_status_changed' | 'department_assigned' | 'timesheet_submitted' | 'timesheet_approved' | 'timesheet_rejected' | 'budget_threshold' | 'message_reminder' | 'lead_follow_up'
   category: 'project' | 'task' | 'system' | 'department'
   title: string
   message: string
   contentPreview?: string
-  entityType: 'project' | 'task' | 'department' | 'user'
-  entityId: string
+  entityType: 'project' | 'task' | 'department' | 'user' | 'timesheet' | 'message' | 'lead'
+  entityId?: string
   entityName?: string
-  actionType: 'created' | 'updated' | 'assigned' | 'approved' | 'completed' | 'status_changed'
+  actionType: 'created' | 'updated' | 'assigned' | 'approved' | 'rejected' | 'submitted' | 'completed' | 'status_changed' | 'reminded'
   actionUrl?: string
   senderName: string
   senderAvatar?: string
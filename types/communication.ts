@@ -7,7 +7,7 @@ export interface ICommunication {
   channel_id: string // Supabase channel UUID reference
   mongo_sender_id: string // MongoDB user ID of sender
   content: string // Message content
-  content_type: 'text' | 'file' | 'audio' | 'system' // Content type
+  content_type: 'text' | 'file' | 'audio' | 'system' | 'poll' // Content type
   thread_id?: string // For threading (optional)
   reply_count: number // Number of replies
   mongo_mentioned_user_ids?: string[] // Array of mentioned user IDs
@@ -18,6 +18,7 @@ export interface ICommunication {
   attachments?: IAttachment[]
   read_receipts?: IReadReceipt[]
   reactions?: IReaction[] // Message reactions
+  poll?: IPollSummary // Set when content_type is 'poll'
   
   // Denormalized sender fields (stored in Supabase for real-time performance)
   sender_name: string
@@ -31,6 +32,7 @@ export interface ICommunication {
   // UI helper fields (not in schema)
   isOptimistic?: boolean // For optimistic updates
   isFailed?: boolean // For failed message sends
+  is_ephemeral?: boolean // Slash command reply shown only to the caller, never stored
 }
 
 // Channels table interface
@@ -62,6 +64,7 @@ export interface IChannel {
   // UI helper fields (not in schema)
   last_message?: ICommunication
   unreadCount?: number
+  unreadMentionCount?: number // Unread messages that mention the current user
   channel_members: IChannelMember[] // Enriched channel members with user data
 }
 
@@ -75,6 +78,8 @@ export interface IChannelMember {
   channelRole: 'owner' | 'admin' | 'member' // Channel role (owner = creator)
   joined_at: string // Join timestamp
   last_seen_at?: string // Last seen timestamp
+  last_read_at?: string | null // Last-read pointer; later messages from others are unread
+  last_read_message_id?: string | null
   notifications_enabled: boolean // Notification preference
   added_by?: string // MongoDB user ID who added this member
   added_via?: 'creation' | 'auto_sync' | 'manual_add' | 'invitation' // How the member was added
@@ -86,6 +91,7 @@ export interface IChannelMember {
   avatar?: string // User avatar
   userType: 'User' | 'Client' // User type
   isOnline: boolean // Online status (enriched from presence or is_online db field)
+  status_text?: string | null // Chat status set with /status, null once expired
 }
 
 export interface IParticipant {
@@ -116,6 +122,175 @@ export interface CommunicationFilters {
   dateTo?: string
 }
 
+// Workspace-wide message search
+export interface MessageSearchFilters {
+  q: string
+  sender_id?: string
+  channel_type?: IChannel['type']
+  from?: string // YYYY-MM-DD
+  to?: string // YYYY-MM-DD, inclusive
+  has_attachment?: boolean
+  mentions_me?: boolean
+  limit?: number
+  offset?: number
+}
+
+export interface IMessageSearchResult {
+  id: string
+  channel_id: string
+  parent_message_id?: string | null
+  mongo_sender_id: string
+  sender_name: string
+  sender_avatar?: string | null
+  content_type: ICommunication['content_type']
+  created_at: string
+  channel_name?: string | null
+  channel_type: IChannel['type']
+  rank: number
+  snippet: string // Plain text with matches wrapped in <mark>
+  has_attachments: boolean
+}
+
+export interface MessageSearchResponse {
+  results: IMessageSearchResult[]
+  total: number
+  limit: number
+  offset: number
+  hasMore: boolean
+  query: string
+}
+
+// Messages queued with "schedule send"
+export interface IScheduledMessage {
+  id: string
+  channel_id: string
+  mongo_sender_id: string
+  content: string
+  parent_message_id?: string | null
+  mongo_mentioned_user_ids: string[]
+  send_at: string
+  status: 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled'
+  sent_message_id?: string | null
+  failure_reason?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface CreateScheduledMessageInput {
+  channel_id: string
+  content: string
+  parent_message_id?: string
+  mongo_mentioned_user_ids?: string[]
+  send_at: string
+}
+
+export interface UpdateScheduledMessageInput {
+  content?: string
+  mongo_mentioned_user_ids?: string[]
+  send_at?: string
+}
+
+// Slash command metadata for the command picker
+export interface ISlashCommand {
+  name: string
+  description: string
+  usage: string
+}
+
+// Pre-filled task for "Create task from message"
+export interface ITaskDraftFromMessage {
+  title: string
+  description: string
+  projectId: string
+  departmentId: string
+  departmentName: string
+  sourceMessage: { messageId: string; channelId: string }
+}
+
+// "Remind me about this" on a message
+export interface IMessageReminder {
+  id: string
+  message_id: string | null // Null for note reminders set with /remind
+  channel_id: string
+  mongo_user_id: string
+  note?: string | null
+  remind_at: string
+  status: 'pending' | 'sending' | 'sent'
+  notified_at?: string | null
+  created_at: string
+  updated_at: string
+  messages: {
+    id: string
+    content: string
+    created_at: string
+    mongo_sender_id: string
+    sender_name: string
+    sender_avatar?: string | null
+    is_trashed: boolean
+  } | null
+  channels: {
+    id: string
+    name?: string | null
+    type: IChannel['type']
+  }
+}
+
+// Thread panel: root message plus one page of replies (oldest first)
+export interface IThreadPage {
+  root: ICommunication
+  replies: ICommunication[]
+  hasMore: boolean
+  is_following: boolean
+}
+
+// Threads inbox entry
+export interface IFollowedThread {
+  message_id: string
+  channel_id: string
+  followed_at: string
+  last_reply_at: string
+  unread_count: number
+  root: Pick<ICommunication, 'id' | 'content' | 'content_type' | 'created_at' | 'reply_count' | 'mongo_sender_id' | 'sender_name' | 'sender_avatar'>
+  channel: {
+    id: string
+    name?: string | null
+    type: IChannel['type']
+  }
+}
+
+// Poll results as shown in a channel
+export interface IPollOptionSummary {
+  id: string
+  text: string
+  vote_count: number
+  voters?: { mongo_user_id: string; name: string }[] // Omitted for anonymous polls
+}
+
+export interface IPollSummary {
+  id: string
+  message_id: string
+  channel_id: string
+  mongo_creator_id: string
+  question: string
+  allow_multiple: boolean
+  is_anonymous: boolean
+  closes_at?: string | null
+  closed_at?: string | null
+  is_closed: boolean
+  total_voters: number
+  options: IPollOptionSummary[]
+  my_option_ids?: string[] // Only present in responses for the current user, never in broadcasts
+}
+
+export interface CreatePollInput {
+  channel_id: string
+  question: string
+  options: string[]
+  allow_multiple?: boolean
+  is_anonymous?: boolean
+  closes_at?: string
+}
+
 export interface CommunicationSort {
   field: keyof ICommunication
   direction: 'asc' | 'desc'
@@ -170,6 +345,8 @@ export interface ChatWindowProps {
   isSidebarExpanded?: boolean
   fullscreenRef?: React.RefObject<FullscreenToggleRef | null>
   onFullscreenChange?: (isFullscreen: boolean) => void
+  focusMessage?: { channelId: string; messageId: string; createdAt?: string; openThread?: boolean } | null // Scroll to this message once loaded
+  onFocusMessageHandled?: () => void
 }
 
 export interface MessageListProps {
@@ -272,4 +449,32 @@ export interface IReadReceipt {
   message_id: string
   mongo_user_id: string
   read_at: string
-}
\ No newline at end of file
+}
+
+// Server-computed unread state for one of the current user's channels
+export interface IChannelUnreadSummary {
+  channel_id: string
+  unread_count: number
+  mention_count: number
+  last_read_at: string | null
+  last_read_message_id: string | null
+}
+export type ChannelExportStatus = 'pending' | 'processing' | 'completed' | 'failed'
+
+// Compliance export of a channel's history, built in the background
+export interface IChannelExport {
+  id: string
+  channel_id: string
+  requested_by: string
+  from: string
+  to: string
+  status: ChannelExportStatus
+  file_name: string | null
+  file_size: number | null
+  message_count: number | null
+  attachment_count: number | null
+  error: string | null
+  created_at: string
+  completed_at: string | null
+  download_url?: string // Short-lived presigned link, only on completed exports fetched by id
+}
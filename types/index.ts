@@ -219,6 +219,7 @@ export interface Role {
   department?: string | Department // Reference to Department ID or populated object
   permissions: Permission[]
   hierarchyLevel: number
+  hourlyRate?: number
   isSystemRole: boolean
   status: "active" | "inactive" | "archived" | "deleted"
   maxUsers?: number
@@ -250,6 +251,7 @@ export interface User {
   phone?: string
   department: Department // Reference to Department ID or populated Department object
   position?: string
+  hourlyRate?: number
   status: "active" | "inactive" | "suspended" | "qualified" | "unqualified" | "deleted" // Extended for clients
   permissions: string[]
 
@@ -407,6 +409,150 @@ export interface FilterConfig {
 // LEAD TYPES
 // =============================================================================
 
+// Where a pipeline stage sits in the funnel; won/lost stages close the deal
+export type LeadPipelineStageCategory = 'open' | 'won' | 'lost'
+
+// One column of the sales pipeline board, in board order
+export interface LeadPipelineStage {
+  key: string
+  name: string
+  category: LeadPipelineStageCategory
+  color?: string
+  transitions?: string[] // Unset allows moving to any stage
+}
+
+export interface LeadPipeline {
+  stages: LeadPipelineStage[]
+}
+
+// Pipeline as served to the board; defaults apply until one is configured
+export interface ResolvedLeadPipeline extends LeadPipeline {
+  isCustom: boolean
+}
+
+export interface LeadStageChange {
+  stage: string
+  fromStage?: string
+  changedAt: Date | string
+  changedBy?: string | User
+  note?: string
+}
+
+// Lead fields a scoring rule can look at
+export type LeadScoringRuleField =
+  | 'companySize'
+  | 'source'
+  | 'priority'
+  | 'projectType'
+  | 'complexity'
+  | 'projectBudget'
+  | 'annualRevenue'
+  | 'employeeCount'
+  | 'recentContacts' // Contact history entries within `withinDays`
+  | 'followUp' // Whether the next follow-up is kept
+
+export type LeadFollowUpState = 'scheduled' | 'overdue' | 'none'
+
+// One scoring rule; matching rules add their points to the lead's score
+export interface LeadScoringRule {
+  id: string
+  label: string
+  field: LeadScoringRuleField
+  values?: string[] // Choice fields: matches any of these
+  min?: number // Number fields and recentContacts: inclusive bounds
+  max?: number
+  withinDays?: number // recentContacts window
+  followUp?: LeadFollowUpState
+  points: number // Negative points penalise
+}
+
+export interface LeadScoringConfig {
+  rules: LeadScoringRule[]
+  hotThreshold: number // Leads scoring at or above this are hot
+}
+
+// Scoring config as served to the editor; defaults apply until one is saved
+export interface ResolvedLeadScoringConfig extends LeadScoringConfig {
+  isCustom: boolean
+}
+
+// A rule that matched when the lead was last scored
+export interface LeadScoreFactor {
+  ruleId: string
+  label: string
+  points: number
+}
+
+// Why two leads look like the same company
+export type LeadDuplicateReason = 'email' | 'emailDomain' | 'phone' | 'company' | 'website'
+
+// An existing lead that looks like a duplicate of the one being entered
+export interface LeadDuplicateMatch {
+  _id: string
+  restricted?: boolean // A lead the caller can't see: only the reasons and its owner are given
+  name?: string
+  email?: string
+  company?: string
+  status?: string
+  createdBy?: Pick<User, '_id' | 'name' | 'email'> | string
+  createdAt?: Date | string
+  reasons: LeadDuplicateReason[]
+}
+
+export type LeadImportStatus = 'pending' | 'processing' | 'completed' | 'failed'
+
+// Spreadsheet column header -> lead field path ("address.city", "customFields.booth"); unmapped columns are left out
+export type LeadImportMapping = Record<string, string>
+
+// Values used for rows that leave a required choice blank
+export interface LeadImportDefaults {
+  source: string
+  priority: string
+}
+
+// A row that was not imported, as listed in the preview and the error report
+export interface LeadImportRowIssue {
+  row: number // 1-based, counting the header as row 1 like a spreadsheet
+  email?: string
+  messages: string[]
+  duplicateOf?: string[] // Names of existing leads it looks like
+}
+
+export interface LeadImportPreview {
+  totalRows: number
+  validRows: number
+  invalidRows: number
+  duplicateRows: number
+  issues: LeadImportRowIssue[]
+}
+
+export interface LeadImportJob {
+  _id: string
+  fileName: string
+  status: LeadImportStatus
+  skipDuplicates: boolean
+  totalRows: number
+  processedRows: number
+  importedCount: number
+  duplicateCount: number
+  failedCount: number
+  error?: string
+  startedAt?: Date | string
+  completedAt?: Date | string
+  createdAt: Date | string
+}
+
+// Where a lead's next follow-up falls relative to today
+export type LeadFollowUpBucket = 'overdue' | 'today' | 'upcoming'
+
+// A sales agent's follow-up queue; "upcoming" covers the next few days
+export interface LeadFollowUpQueue {
+  overdue: Lead[]
+  today: Lead[]
+  upcoming: Lead[]
+  upcomingDays: number
+}
+
 export interface Lead {
   _id?: string
   // Client Basic Info Section
@@ -449,6 +595,9 @@ export interface Lead {
 
   // Lead Management
   status: 'active' | 'inactive' | 'qualified' | 'unqualified' | 'deleted'
+  stage?: string // Pipeline stage key
+  stageChangedAt?: Date | string
+  stageHistory?: LeadStageChange[]
   createdBy: string | User // Reference to User (sales agent)
   assignedTo?: string | User // Current assignee
   clientId?: string | User // Reference to User (populated after qualification)
@@ -481,6 +630,8 @@ export interface Lead {
   score?: number // Lead scoring (0-100)
   hotLead?: boolean
   conversionProbability?: number // Percentage
+  scoreBreakdown?: LeadScoreFactor[] // Rules behind the score
+  scoredAt?: Date | string
 
 
   // Metadata
@@ -542,6 +693,7 @@ export interface UpdateLeadData extends Partial<CreateLeadData> {
 export interface LeadFilters {
   search?: string
   status?: 'active' | 'inactive' | 'qualified' | 'unqualified' | ''
+  stage?: string
   source?: 'website' | 'referral' | 'cold_call' | 'email' | 'social_media' | 'event' | 'other' | ''
   priority?: 'low' | 'medium' | 'high' | 'urgent' | ''
   createdBy?: string
@@ -632,6 +784,28 @@ export interface ClientResponse extends ApiResponse {
 // PROJECT TYPES
 // =============================================================================
 
+// Base category a custom status rolls up to for analytics and completion
+export type WorkflowStatusCategory = 'todo' | 'doing' | 'done'
+
+export interface WorkflowStatus {
+  key: string
+  name: string
+  category: WorkflowStatusCategory
+  color?: string
+  transitions?: string[] // Unset allows moving to any status
+  wipLimit?: number // Per department column; unset means no limit
+  wipLimitStrict?: boolean // Block moves over the limit instead of warning
+}
+
+export interface ProjectWorkflow {
+  statuses: WorkflowStatus[]
+}
+
+// Workflow as served to the board; defaults apply when the project has none
+export interface ResolvedProjectWorkflow extends ProjectWorkflow {
+  isCustom: boolean
+}
+
 export interface Project {
   _id?: string
   name: string
@@ -665,6 +839,7 @@ export interface Project {
     contingency?: number
   }
 
+  workflow?: ProjectWorkflow | null
 
   risks?: {
     description: string
@@ -927,6 +1102,40 @@ export interface ProjectPrefillData {
 // TASK TYPES
 // =============================================================================
 
+export interface TaskDependency {
+  taskId: string
+  type: 'finish_to_start' | 'start_to_start'
+}
+
+// Predecessor that is still holding a task up
+export interface TaskBlocker extends TaskDependency {
+  title: string
+  status: string
+}
+
+export interface TaskRecurrence {
+  frequency: 'daily' | 'weekly' | 'monthly' | 'rrule'
+  interval: number
+  weekdays?: number[]
+  dayOfMonth?: number
+  rrule?: string
+  generateOn: 'completion' | 'schedule'
+  endType: 'never' | 'after' | 'on_date'
+  endAfterOccurrences?: number
+  endDate?: string
+  occurrence?: number
+  seriesId?: string
+  nextTaskId?: string
+  endedAt?: string
+}
+
+// Chat message a task was created from
+export interface TaskSourceMessage {
+  messageId: string
+  channelId: string
+  channelName?: string
+}
+
 export interface Task {
   _id?: string
   title: string
@@ -939,6 +1148,10 @@ export interface Task {
   priority: 'low' | 'medium' | 'high' | 'urgent'
   type: 'task' | 'sub-task'
   labelIds?: string[]
+  dependencies?: TaskDependency[]
+  recurrence?: TaskRecurrence | null
+  workflowStatus?: string
+  sourceMessage?: TaskSourceMessage
   estimatedHours?: number
   actualHours?: number
   startDate?: string
@@ -987,7 +1200,10 @@ export interface Task {
   }
   subTasks?: Task[]
   subTaskCount?: number
-  
+
+  // Derived from dependencies by the API
+  isBlocked?: boolean
+  blockedBy?: TaskBlocker[]
 }
 
 export interface TaskFilters {
@@ -1020,6 +1236,10 @@ export interface CreateTaskData {
   priority?: 'low' | 'medium' | 'high' | 'urgent'
   type?: 'task' | 'sub-task'
   labelIds?: string[]
+  dependencies?: TaskDependency[]
+  recurrence?: (Omit<TaskRecurrence, 'occurrence' | 'seriesId' | 'nextTaskId' | 'endedAt' | 'endDate'> & { endDate?: Date }) | null
+  workflowStatus?: string
+  sourceMessage?: Pick<TaskSourceMessage, 'messageId' | 'channelId'>
   estimatedHours?: number
   actualHours?: number
   startDate?: Date | string
@@ -1097,3 +1317,173 @@ export interface TaskHierarchy {
     createdAt: string
   }>
 }
+
+// =============================================================================
+// TIME LOG TYPES
+// =============================================================================
+
+export interface TimeLog {
+  _id: string
+  taskId: string
+  projectId: string
+  userId: string
+  description: string
+  hours: number
+  date: string
+  startTime?: string
+  endTime?: string
+  logType: 'manual' | 'timer'
+  isApproved: boolean
+  approvedBy?: string
+  approvedAt?: string
+  createdAt: string
+  updatedAt: string
+
+  // Virtual fields
+  user?: {
+    _id: string
+    name: string
+    email: string
+    avatar?: string
+  }
+  approver?: {
+    _id: string
+    name: string
+    email: string
+  }
+  task?: {
+    _id: string
+    title: string
+  }
+}
+
+export interface ActiveTimer {
+  _id: string
+  userId: string
+  taskId: string
+  projectId: string
+  description: string
+  status: 'running' | 'paused'
+  startedAt: string
+  lastResumedAt: string | null
+  accumulatedMs: number
+  lastActivityAt: string
+  idleLimitMinutes?: number
+  serverTime: string
+
+  // Virtual fields
+  task?: {
+    _id: string
+    title: string
+  }
+  project?: {
+    _id: string
+    name: string
+  }
+}
+
+export interface Timesheet {
+  _id?: string
+  userId: string
+  weekStart: string
+  weekEnd: string
+  status: 'draft' | 'submitted' | 'approved' | 'rejected'
+  totalHours: number
+  submittedAt?: string
+  submissionNote?: string
+  reviewedBy?: string
+  reviewedAt?: string
+  rejectionReason?: string
+  createdAt?: string
+  updatedAt?: string
+
+  // Virtual fields
+  user?: {
+    _id: string
+    name: string
+    email: string
+    avatar?: string
+  }
+  reviewer?: {
+    _id: string
+    name: string
+    email: string
+  }
+}
+
+export interface TimesheetWeek {
+  timesheet: Timesheet
+  weekStart: string
+  weekEnd: string
+  days: { date: string; hours: number }[]
+  totalHours: number
+  logs: (TimeLog & { project?: { _id: string; name: string } })[]
+}
+
+// Project Gantt timeline
+export interface TimelinePhase {
+  _id: string
+  title: string
+  status: string
+  progress: number
+  order: number
+  startDate: string
+  endDate: string
+  dependencies?: string[]
+}
+
+export interface TimelineMilestone {
+  _id: string
+  title: string
+  status: string
+  progress: number
+  phaseId?: string
+  dueDate: string
+  dependencies?: string[]
+  linkedTaskIds?: string[]
+}
+
+export interface TimelineTask {
+  _id: string
+  title: string
+  status: string
+  type: 'task' | 'sub-task'
+  parentTaskId?: string
+  startDate?: string
+  dueDate?: string
+  dependencies?: TaskDependency[]
+}
+
+export interface ProjectTimeline {
+  project: { _id: string; name: string; startDate?: string; endDate?: string }
+  phases: TimelinePhase[]
+  milestones: TimelineMilestone[]
+  tasks: TimelineTask[]
+}
+
+export interface ScheduleItem {
+  kind: 'phase' | 'milestone' | 'task'
+  id: string
+  title: string
+  status: string
+  plannedStart: string
+  plannedFinish: string
+  earliestStart: string
+  earliestFinish: string
+  latestStart: string
+  latestFinish: string
+  totalFloat: number
+  isCritical: boolean
+  slipDays: number
+}
+
+export interface ProjectSchedule {
+  projectId: string
+  projectStart: string | null
+  projectEnd: string | null
+  projectedFinish: string | null
+  projectSlipDays: number
+  criticalPath: { kind: ScheduleItem['kind']; id: string; title: string }[]
+  items: ScheduleItem[]
+  slippingItems: ScheduleItem[]
+}